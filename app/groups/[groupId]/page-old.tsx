@@ -358,6 +358,8 @@ export default function GroupDetailPage() {
             selectMode={clusterSelectMode}
             selectedClusters={selectedClusters}
             onSelectionChange={setSelectedClusters}
+            groupId={groupId}
+            onClustersChange={loadClusters}
           />
         </div>
 
@@ -9,6 +9,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { OptimizedImage } from "@/components/ui/OptimizedImage";
 import {
   ArrowLeft,
   Settings,
@@ -22,13 +23,57 @@ import {
   Pencil,
   Trash2,
   UserX,
+  ScanFace,
+  ScanSearch,
+  UserRound,
+  RotateCcw,
+  Loader2,
+  Play,
+  ChevronLeft,
+  ChevronRight,
+  BookImage,
+  Search,
+  Tag,
+  MessageCircle,
+  Star,
+  Sparkles,
+  Activity as ActivityIcon,
+  LogOut,
 } from "lucide-react";
 import Link from "next/link";
 import { GroupSettingsModal } from "@/components/groups/GroupSettingsModal";
 import { InvitePeopleDialog } from "@/components/groups/InvitePeopleDialog";
+import { LeaveGroupDialog } from "@/components/groups/LeaveGroupDialog";
 import { FaceGroupingSkeleton } from "@/components/groups/FaceGroupingSkeleton";
+import { UnassignedFacesPool } from "@/components/media/UnassignedFacesPool";
+import { ClusterFacePicker } from "@/components/media/ClusterFacePicker";
+import { FindMyPhotosDialog } from "@/components/media/FindMyPhotosDialog";
+import { ClusterIdentityControl } from "@/components/media/ClusterIdentityControl";
+import { PersonLinkControl } from "@/components/media/PersonLinkControl";
+import { AlbumBar } from "@/components/media/AlbumBar";
+import { AlbumMediaControl } from "@/components/media/AlbumMediaControl";
+import { MediaSearchBar, MediaSearch } from "@/components/media/MediaSearchBar";
+import { MediaAnnotationsDialog } from "@/components/media/MediaAnnotationsDialog";
+import { MediaCommentsDialog } from "@/components/media/MediaCommentsDialog";
+import { MediaCollectionBar } from "@/components/media/MediaCollectionBar";
+import { HighlightSuggestionsDialog } from "@/components/media/HighlightSuggestionsDialog";
+import { MediaCollection } from "@/components/media/MediaFilters";
+import { ActivityFeed } from "@/components/activity/ActivityFeed";
+import { JoinRequestQueue } from "@/components/members/JoinRequestQueue";
+import {
+  DateTakenFilter,
+  DateTakenRange,
+} from "@/components/media/DateTakenFilter";
+import {
+  VideoPlayerDialog,
+  formatVideoTime,
+} from "@/components/media/VideoPlayerDialog";
 import { groupsApi, Group } from "@/lib/api/groups";
 import { mediaApi, Media } from "@/lib/api/media";
+import { uploadSessionsApi } from "@/lib/api/uploadSessions";
+import { ApiError } from "@/lib/api/client";
+import { albumsApi, Album } from "@/lib/api/albums";
+import { ReactionSummary } from "@/lib/api/comments";
 import {
   clustersApi,
   Cluster,
@@ -51,13 +96,25 @@ export default function GroupDetailPage() {
   const [currentPage, setCurrentPage] = useState(1);
   const [hasMoreMedia, setHasMoreMedia] = useState(true);
   const [totalMediaCount, setTotalMediaCount] = useState(0);
+  const [retryingFailed, setRetryingFailed] = useState(false);
   const [clusters, setClusters] = useState<Cluster[]>([]);
   const [selectedClusterId, setSelectedClusterId] = useState<string | null>(
     null
   );
+  const [showFacePicker, setShowFacePicker] = useState(false);
+  const [showSelfieSearch, setShowSelfieSearch] = useState(false);
   const [filteredMedia, setFilteredMedia] = useState<
     (Media | MediaWithFaceInfo)[]
   >([]);
+  const [takenRange, setTakenRange] = useState<DateTakenRange | null>(null);
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [selectedAlbumId, setSelectedAlbumId] = useState<string | null>(null);
+  const [albumVersion, setAlbumVersion] = useState(0); // Bumped to reload album photos
+  const [search, setSearch] = useState<MediaSearch | null>(null);
+  const [annotatingMedia, setAnnotatingMedia] = useState<Media | null>(null);
+  const [commentingMedia, setCommentingMedia] = useState<Media | null>(null);
+  const [collection, setCollection] = useState<MediaCollection | null>(null);
+  const [showHighlightSuggestions, setShowHighlightSuggestions] = useState(false);
   const [selectedMedia, setSelectedMedia] = useState<string[]>([]);
   const [editingClusterId, setEditingClusterId] = useState<string | null>(null);
   const [editingClusterName, setEditingClusterName] = useState("");
@@ -67,6 +124,8 @@ export default function GroupDetailPage() {
   const [showInviteDialog, setShowInviteDialog] = useState(false);
   const [showUploadDialog, setShowUploadDialog] = useState(false);
   const [showMembersDialog, setShowMembersDialog] = useState(false);
+  const [showLeaveDialog, setShowLeaveDialog] = useState(false);
+  const [showActivityDialog, setShowActivityDialog] = useState(false);
   const [showRenameDialog, setShowRenameDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [mediaToDelete, setMediaToDelete] = useState<Media | null>(null);
@@ -75,6 +134,10 @@ export default function GroupDetailPage() {
   const [uploadingFiles, setUploadingFiles] = useState(false);
   const [deletingMedia, setDeletingMedia] = useState(false);
   const [deletingCluster, setDeletingCluster] = useState(false);
+  const [playingVideo, setPlayingVideo] = useState<{
+    media: Media;
+    startAt: number;
+  } | null>(null);
 
   const loadGroup = useCallback(async () => {
     try {
@@ -136,21 +199,52 @@ export default function GroupDetailPage() {
     }
   }, [groupId]);
 
+  const loadAlbums = useCallback(async () => {
+    try {
+      setAlbums(await albumsApi.listByGroup(groupId));
+    } catch (error) {
+      console.error("Failed to load albums:", error);
+    }
+  }, [groupId]);
+
+  const handleAlbumsChange = useCallback(() => {
+    loadAlbums();
+    setAlbumVersion((v) => v + 1);
+  }, [loadAlbums]);
+
   const loadMoreMedia = useCallback(async () => {
     if (!hasMoreMedia || loadingMore) return;
     await loadMedia(currentPage + 1, true);
   }, [hasMoreMedia, loadingMore, currentPage, loadMedia]);
 
-  // Check if face grouping is in progress
-  const isProcessing = media.some((m) => !m.isProcessed);
+  // Check if face grouping is in progress (failed items are not waited for)
+  const isProcessing = media.some((m) =>
+    m.processingStatus
+      ? m.processingStatus === "pending" || m.processingStatus === "processing"
+      : !m.isProcessed
+  );
+  const failedMedia = media.filter((m) => m.processingStatus === "failed");
 
   useEffect(() => {
     if (user && groupId) {
       loadGroup();
       loadMedia();
       loadClusters();
+      loadAlbums();
+    }
+  }, [user, groupId, loadGroup, loadMedia, loadClusters, loadAlbums]);
+
+  // Person, album and favourites/highlights filters are exclusive
+  useEffect(() => {
+    if (selectedClusterId !== null) {
+      setSelectedAlbumId(null);
+      setCollection(null);
+    }
+    // Ungrouped photos can't be searched on the server
+    if (selectedClusterId === "ungrouped") {
+      setSearch(null);
     }
-  }, [user, groupId, loadGroup, loadMedia, loadClusters]);
+  }, [selectedClusterId]);
 
   // Auto-refresh while processing
   useEffect(() => {
@@ -166,7 +260,106 @@ export default function GroupDetailPage() {
 
   useEffect(() => {
     const loadFilteredMedia = async () => {
-      if (selectedClusterId === "ungrouped") {
+      if (collection) {
+        // Load ALL favourites or highlights, in the order they were picked
+        setFilterLoading(true);
+        setFilteredMedia([]);
+        try {
+          let collectionMedia: Media[] = [];
+          let page = 1;
+          let hasMore = true;
+
+          while (hasMore) {
+            const response =
+              collection === "favorites"
+                ? await mediaApi.listFavorites(groupId, page, 100)
+                : await mediaApi.listHighlights(groupId, page, 100);
+            collectionMedia = [...collectionMedia, ...(response.data || [])];
+            hasMore = response.pagination
+              ? page < response.pagination.totalPages
+              : false;
+            page++;
+          }
+
+          setFilteredMedia(
+            takenRange
+              ? collectionMedia.filter((m) => {
+                  const taken = new Date(m.takenAt ?? m.createdAt);
+                  return taken >= takenRange.from && taken <= takenRange.to;
+                })
+              : collectionMedia
+          );
+        } catch (error) {
+          console.error(`Failed to load ${collection}:`, error);
+          setFilteredMedia([]);
+        } finally {
+          setFilterLoading(false);
+        }
+      } else if (search && selectedClusterId !== "ungrouped") {
+        // Load ALL matches, the person and date filters are applied by the server
+        setFilterLoading(true);
+        setFilteredMedia([]);
+        try {
+          let results: Media[] = [];
+          let page = 1;
+          let hasMore = true;
+
+          while (hasMore) {
+            const response = await mediaApi.search(
+              groupId,
+              {
+                query: search.query || undefined,
+                tags: search.tags,
+                clusterId: selectedClusterId ?? undefined,
+                taken: takenRange ?? undefined,
+              },
+              page,
+              100
+            );
+            results = [...results, ...(response.data || [])];
+            hasMore = response.pagination
+              ? page < response.pagination.totalPages
+              : false;
+            page++;
+          }
+
+          setFilteredMedia(results);
+        } catch (error) {
+          console.error("Failed to search media:", error);
+          setFilteredMedia([]);
+        } finally {
+          setFilterLoading(false);
+        }
+      } else if (selectedAlbumId) {
+        // Load ALL media in the album, in album order
+        setFilterLoading(true);
+        try {
+          let albumMedia: MediaWithFaceInfo[] = [];
+          let page = 1;
+          let hasMore = true;
+
+          while (hasMore) {
+            const result = await albumsApi.getMedia(selectedAlbumId, page, 100);
+            albumMedia = [...albumMedia, ...(result.media || [])];
+            hasMore = page < result.pagination.totalPages;
+            page++;
+          }
+
+          setFilteredMedia(
+            takenRange
+              ? albumMedia.filter((m) => {
+                  const taken = new Date(m.takenAt ?? m.createdAt);
+                  return taken >= takenRange.from && taken <= takenRange.to;
+                })
+              : albumMedia
+          );
+        } catch (error) {
+          console.error("Failed to load album media:", error);
+          setFilteredMedia([]);
+        } finally {
+          setFilterLoading(false);
+        }
+      } else if (selectedClusterId === "ungrouped") {
         // Show photos that aren't in any cluster
         setFilterLoading(true);
         setFilteredMedia([]);
@@ -178,7 +371,12 @@ export default function GroupDetailPage() {
           const limit = 100;
 
           while (hasMore) {
-            const response = await mediaApi.listByGroup(groupId, page, limit);
+            const response = await mediaApi.listByGroup(
+              groupId,
+              page,
+              limit,
+              takenRange ?? undefined
+            );
             allGroupMedia = [...allGroupMedia, ...(response.data || [])];
 
             if (response.pagination) {
@@ -252,11 +450,48 @@ export default function GroupDetailPage() {
             }
           }
 
-          setFilteredMedia(allMedia);
+          setFilteredMedia(
+            takenRange
+              ? allMedia.filter((m) => {
+                  const taken = new Date(m.takenAt ?? m.createdAt);
+                  return taken >= takenRange.from && taken <= takenRange.to;
+                })
+              : allMedia
+          );
         } catch (error) {
           console.error("Failed to load cluster media:", error);
           setFilteredMedia([]);
         }
+      } else if (takenRange) {
+        // Load ALL media taken within the date range
+        setFilterLoading(true);
+        setFilteredMedia([]);
+        try {
+          let rangeMedia: Media[] = [];
+          let page = 1;
+          let hasMore = true;
+
+          while (hasMore) {
+            const response = await mediaApi.listByGroup(
+              groupId,
+              page,
+              100,
+              takenRange
+            );
+            rangeMedia = [...rangeMedia, ...(response.data || [])];
+            hasMore = response.pagination
+              ? page < response.pagination.totalPages
+              : false;
+            page++;
+          }
+
+          setFilteredMedia(rangeMedia);
+        } catch (error) {
+          console.error("Failed to load media by date:", error);
+          setFilteredMedia([]);
+        } finally {
+          setFilterLoading(false);
+        }
       } else {
         // Show all media
         setFilteredMedia(media);
@@ -264,18 +499,45 @@ export default function GroupDetailPage() {
     };
 
     loadFilteredMedia();
-  }, [selectedClusterId, media, clusters, groupId]);
+  }, [
+    selectedClusterId,
+    selectedAlbumId,
+    albumVersion,
+    search,
+    collection,
+    media,
+    clusters,
+    groupId,
+    takenRange,
+  ]);
 
   const handleFileUpload = async (files: FileList) => {
     setUploadingFiles(true);
     try {
-      await mediaApi.upload(groupId, Array.from(files));
+      // Files go straight to storage in resumable parts, one file at a time
+      const skipped: string[] = [];
+      for (const file of Array.from(files)) {
+        try {
+          await uploadSessionsApi.upload(groupId, file);
+        } catch (error) {
+          if (error instanceof ApiError && error.status === 409) {
+            skipped.push(file.name);
+          } else {
+            throw error;
+          }
+        }
+      }
       await loadMedia();
       await loadGroup();
       setShowUploadDialog(false);
+      if (skipped.length > 0) {
+        alert(
+          `Skipped ${skipped.length} file(s) already in this group: ${skipped.join(", ")}`
+        );
+      }
     } catch (error) {
       console.error("Upload failed:", error);
-      alert("Failed to upload files");
+      alert(error instanceof Error ? error.message : "Failed to upload files");
     } finally {
       setUploadingFiles(false);
     }
@@ -437,6 +699,25 @@ export default function GroupDetailPage() {
     return media.uploaderId === user.id;
   };
 
+  const handleRetryFailed = async () => {
+    setRetryingFailed(true);
+    try {
+      const result = await mediaApi.reprocess(
+        groupId,
+        failedMedia.map((m) => m.id)
+      );
+      await loadMedia();
+      alert(result.message || "Photos requeued for processing");
+    } catch (error: unknown) {
+      console.error("Failed to reprocess photos:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to reprocess photos";
+      alert(message);
+    } finally {
+      setRetryingFailed(false);
+    }
+  };
+
   const handleRemoveFaceFromCluster = async (
     faceDetectionId: string,
     e: React.MouseEvent
@@ -479,6 +760,151 @@ export default function GroupDetailPage() {
     }
   };
 
+  const handleFacesMoved = async (sourceClusterDeleted: boolean) => {
+    await loadClusters();
+
+    if (sourceClusterDeleted) {
+      setSelectedClusterId(null);
+      return;
+    }
+
+    // Refresh the current cluster's photos
+    const currentCluster = selectedClusterId;
+    setSelectedClusterId(null);
+    setTimeout(() => setSelectedClusterId(currentCluster), 100);
+  };
+
+  const myCluster = user
+    ? clusters.find((cluster) => cluster.linkedUser?.id === user.id)
+    : undefined;
+  const selectedCluster = clusters.find((c) => c.id === selectedClusterId);
+  const selectedAlbum = albums.find((a) => a.id === selectedAlbumId);
+  // Reordering needs the whole album on screen
+  const canReorderAlbum = !!selectedAlbum?.canManage && !takenRange;
+
+  const handleSelectAlbum = (albumId: string | null) => {
+    setSelectedAlbumId(albumId);
+    if (albumId) {
+      setSelectedClusterId(null);
+      setSearch(null);
+      setCollection(null);
+    }
+  };
+
+  const handleSelectCollection = (next: MediaCollection | null) => {
+    setCollection(next);
+    if (next) {
+      setSelectedClusterId(null);
+      setSelectedAlbumId(null);
+      setSearch(null);
+    }
+  };
+
+  const handleSearch = (next: MediaSearch | null) => {
+    setSearch(next);
+    if (next) {
+      setSelectedAlbumId(null);
+      setCollection(null);
+      // Ungrouped photos are worked out in the browser, so search all photos instead
+      if (selectedClusterId === "ungrouped") {
+        setSelectedClusterId(null);
+      }
+    }
+  };
+
+  const handleAnnotationsSaved = (
+    mediaId: string,
+    caption: string | undefined,
+    tags: string[]
+  ) => {
+    const apply = <T extends Media>(item: T): T =>
+      item.id === mediaId ? { ...item, caption, tags } : item;
+    setMedia((prev) => prev.map(apply));
+    setFilteredMedia((prev) => prev.map(apply));
+  };
+
+  const handleEngagementChange = (
+    mediaId: string,
+    engagement: { commentCount: number; reactions: ReactionSummary[] }
+  ) => {
+    const apply = <T extends Media>(item: T): T =>
+      item.id === mediaId ? { ...item, ...engagement } : item;
+    setMedia((prev) => prev.map(apply));
+    setFilteredMedia((prev) => prev.map(apply));
+  };
+
+  // Updated in place; leaving the open collection takes the photo off screen
+  const applyCollectionChange = (
+    mediaId: string,
+    change: { isFavorite: boolean } | { isHighlight: boolean }
+  ) => {
+    const leftCollection =
+      (collection === "favorites" && "isFavorite" in change && !change.isFavorite) ||
+      (collection === "highlights" && "isHighlight" in change && !change.isHighlight);
+    const apply = <T extends Media>(item: T): T =>
+      item.id === mediaId ? { ...item, ...change } : item;
+    setMedia((prev) => prev.map(apply));
+    setFilteredMedia((prev) =>
+      leftCollection
+        ? prev.filter((item) => item.id !== mediaId)
+        : prev.map(apply)
+    );
+  };
+
+  const handleToggleFavorite = async (item: Media, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const favorite = !item.isFavorite;
+    try {
+      await mediaApi.setFavorite(item.id, favorite);
+      applyCollectionChange(item.id, { isFavorite: favorite });
+    } catch (error) {
+      console.error("Failed to update favourite:", error);
+      alert("Failed to update favourite");
+    }
+  };
+
+  const handleToggleHighlight = async (item: Media, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const highlighted = !item.isHighlight;
+    try {
+      await mediaApi.setHighlight(item.id, highlighted);
+      applyCollectionChange(item.id, { isHighlight: highlighted });
+    } catch (error) {
+      console.error("Failed to update highlight:", error);
+      alert("Failed to update highlight");
+    }
+  };
+
+  const handleMoveInAlbum = async (
+    mediaId: string,
+    direction: -1 | 1,
+    e: React.MouseEvent
+  ) => {
+    e.stopPropagation();
+    if (!selectedAlbum) return;
+
+    const order = filteredMedia.map((m) => m.id);
+    const from = order.indexOf(mediaId);
+    const to = from + direction;
+    if (from < 0 || to < 0 || to >= order.length) return;
+
+    const reordered = [...filteredMedia];
+    [reordered[from], reordered[to]] = [reordered[to], reordered[from]];
+    setFilteredMedia(reordered);
+
+    try {
+      await albumsApi.reorder(
+        selectedAlbum.id,
+        reordered.map((m) => m.id)
+      );
+      loadAlbums();
+    } catch (error) {
+      console.error("Failed to reorder album:", error);
+      alert("Failed to save album order");
+      setAlbumVersion((v) => v + 1);
+    }
+  };
+
   const formatStorageUsed = (bytes: number) => {
     return `${Math.round(bytes / 1024 / 1024)} MB`;
   };
@@ -555,27 +981,38 @@ export default function GroupDetailPage() {
               )}
             </div>
 
-            {/* Admin Actions */}
-            {user && group.creatorId === user.id && (
-              <div className="flex gap-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setShowInviteDialog(true)}
-                >
-                  <UserPlus className="h-4 w-4 mr-2" />
-                  Invite
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setShowSettingsModal(true)}
-                >
-                  <Settings className="h-4 w-4 mr-2" />
-                  Settings
-                </Button>
-              </div>
-            )}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowSelfieSearch(true)}
+              >
+                <ScanSearch className="h-4 w-4 mr-2" />
+                Find My Photos
+              </Button>
+
+              {/* Admin Actions */}
+              {user && group.creatorId === user.id && (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowInviteDialog(true)}
+                  >
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    Invite
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowSettingsModal(true)}
+                  >
+                    <Settings className="h-4 w-4 mr-2" />
+                    Settings
+                  </Button>
+                </>
+              )}
+            </div>
           </div>
 
           <div className="flex flex-wrap gap-4 mt-4 text-sm text-gray-600">
@@ -595,6 +1032,13 @@ export default function GroupDetailPage() {
               <Calendar className="h-4 w-4" />
               Created {format(new Date(group.createdAt), "MMM dd, yyyy")}
             </div>
+            <button
+              onClick={() => setShowActivityDialog(true)}
+              className="flex items-center gap-1 hover:text-blue-600 transition-colors cursor-pointer"
+            >
+              <ActivityIcon className="h-4 w-4" />
+              Activity
+            </button>
             {user && group.creatorId === user.id && (
               <div className="flex items-center gap-1 px-3 py-1 bg-gray-100 rounded-full">
                 <span className="font-medium">
@@ -671,6 +1115,26 @@ export default function GroupDetailPage() {
                 <span className="text-xs text-gray-500">{totalMediaCount}</span>
               </button>
 
+              {/* Photos of the current user */}
+              {myCluster && (
+                <button
+                  onClick={() => setSelectedClusterId(myCluster.id)}
+                  className={`flex-shrink-0 flex flex-col items-center gap-2 p-3 rounded-lg border-2 transition-all ${
+                    selectedClusterId === myCluster.id
+                      ? "border-blue-500 bg-blue-50"
+                      : "border-gray-200 hover:border-gray-300"
+                  }`}
+                >
+                  <div className="w-16 h-16 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
+                    <UserRound className="h-8 w-8 text-white" />
+                  </div>
+                  <span className="text-sm font-medium">Photos of Me</span>
+                  <span className="text-xs text-gray-500">
+                    {myCluster.totalPhotos}
+                  </span>
+                </button>
+              )}
+
               {/* No Person / Ungrouped Photos */}
               {clusters.length > 0 && (
                 <button
@@ -707,7 +1171,14 @@ export default function GroupDetailPage() {
                   }`}
                   onClick={() => setSelectedClusterId(cluster.id)}
                 >
-                  <div className="w-16 h-16 rounded-full overflow-hidden bg-gray-200">
+                  <div className="relative w-16 h-16 rounded-full overflow-hidden bg-gray-200">
+                    {cluster.linkedUser?.avatar && (
+                      <img
+                        src={cluster.linkedUser.avatar}
+                        alt={cluster.linkedUser.name || "Member"}
+                        className="absolute bottom-0 right-0 w-6 h-6 rounded-full border-2 border-white object-cover"
+                      />
+                    )}
                     {cluster.samplePhoto?.thumbnailUrl ? (
                       <img
                         src={cluster.samplePhoto.thumbnailUrl}
@@ -722,7 +1193,9 @@ export default function GroupDetailPage() {
                   </div>
                   <div className="flex items-center gap-1">
                     <span className="text-sm font-medium text-center max-w-[80px] truncate">
-                      {cluster.clusterName || "Unknown"}
+                      {cluster.linkedUser?.name ||
+                        cluster.clusterName ||
+                        "Unknown"}
                     </span>
                     {user && group && group.creatorId === user.id && (
                       <>
@@ -752,14 +1225,62 @@ export default function GroupDetailPage() {
                 </div>
               ))}
             </div>
+
+            {/* Faces not assigned to any person */}
+            <UnassignedFacesPool
+              groupId={groupId}
+              clusters={clusters}
+              canEdit={!!user && !!group && group.creatorId === user.id}
+              onClustersChange={loadClusters}
+            />
+          </div>
+        )}
+
+        {/* Unassigned faces when no people have been grouped yet */}
+        {!isProcessing && clusters.length === 0 && media.length > 0 && (
+          <div className="mb-6">
+            <UnassignedFacesPool
+              groupId={groupId}
+              clusters={clusters}
+              canEdit={!!user && !!group && group.creatorId === user.id}
+              onClustersChange={loadClusters}
+            />
           </div>
         )}
 
+        {media.length > 0 && (
+          <MediaSearchBar groupId={groupId} value={search} onChange={handleSearch} />
+        )}
+
+        {media.length > 0 && (
+          <MediaCollectionBar
+            value={collection}
+            isAdmin={!!user && !!group && group.creatorId === user.id}
+            onChange={handleSelectCollection}
+            onShowSuggestions={() => setShowHighlightSuggestions(true)}
+          />
+        )}
+
+        {media.length > 0 && (
+          <AlbumBar
+            groupId={groupId}
+            albums={albums}
+            selectedAlbumId={selectedAlbumId}
+            selectedMediaIds={selectedMedia}
+            onSelect={handleSelectAlbum}
+            onChange={handleAlbumsChange}
+          />
+        )}
+
         {/* Loading state for filter */}
         {filterLoading && (
           <div className="flex flex-col items-center justify-center py-12">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mb-4"></div>
-            <p className="text-gray-600">Loading ungrouped photos...</p>
+            <p className="text-gray-600">
+              {selectedClusterId === "ungrouped"
+                ? "Loading ungrouped photos..."
+                : "Loading photos..."}
+            </p>
           </div>
         )}
 
@@ -778,6 +1299,84 @@ export default function GroupDetailPage() {
             </div>
           )}
 
+        {/* Empty state for an album without photos */}
+        {!filterLoading &&
+          selectedAlbum &&
+          !takenRange &&
+          filteredMedia.length === 0 && (
+            <div className="flex flex-col items-center justify-center py-12">
+              <BookImage className="h-16 w-16 text-gray-400 mb-4" />
+              <h3 className="text-lg font-semibold text-gray-700 mb-2">
+                {selectedAlbum.name} is empty
+              </h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Select photos under All Photos and use the Album menu to add them.
+              </p>
+              <Button variant="outline" onClick={() => handleSelectAlbum(null)}>
+                Show all photos
+              </Button>
+            </div>
+          )}
+
+        {/* Empty state when a search matches nothing */}
+        {!filterLoading && search && filteredMedia.length === 0 && (
+          <div className="flex flex-col items-center justify-center py-12">
+            <Search className="h-16 w-16 text-gray-400 mb-4" />
+            <h3 className="text-lg font-semibold text-gray-700 mb-2">
+              No Matching Photos
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Try other words or fewer tags
+              {(selectedClusterId || takenRange) && ", or clear the other filters"}.
+            </p>
+            <Button variant="outline" onClick={() => handleSearch(null)}>
+              Clear search
+            </Button>
+          </div>
+        )}
+
+        {/* Empty state for favourites or highlights */}
+        {!filterLoading && collection && filteredMedia.length === 0 && (
+          <div className="flex flex-col items-center justify-center py-12">
+            {collection === "favorites" ? (
+              <Star className="h-16 w-16 text-gray-400 mb-4" />
+            ) : (
+              <Sparkles className="h-16 w-16 text-gray-400 mb-4" />
+            )}
+            <h3 className="text-lg font-semibold text-gray-700 mb-2">
+              {collection === "favorites" ? "No Favourites Yet" : "No Highlights Yet"}
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">
+              {takenRange
+                ? "None were taken in this date range."
+                : collection === "favorites"
+                  ? "Star photos to find them here."
+                  : "Admins pick the group's best photos for everyone to see here."}
+            </p>
+            <Button variant="outline" onClick={() => handleSelectCollection(null)}>
+              Show all photos
+            </Button>
+          </div>
+        )}
+
+        {/* Empty state when no photos were taken in the selected date range */}
+        {!filterLoading &&
+          !search &&
+          !collection &&
+          takenRange &&
+          selectedClusterId !== "ungrouped" &&
+          filteredMedia.length === 0 && (
+            <div className="flex flex-col items-center justify-center py-12">
+              <Calendar className="h-16 w-16 text-gray-400 mb-4" />
+              <h3 className="text-lg font-semibold text-gray-700 mb-2">
+                No Photos Taken in This Date Range
+              </h3>
+              <Button variant="outline" onClick={() => setTakenRange(null)}>
+                Clear date filter
+              </Button>
+            </div>
+          )}
+
         {/* Media Grid */}
         {!filterLoading && filteredMedia.length > 0 && (
           <>
@@ -794,10 +1393,62 @@ export default function GroupDetailPage() {
                     {selectedMedia.length} selected
                   </span>
                 )}
+                <DateTakenFilter value={takenRange} onChange={setTakenRange} />
+                {selectedCluster && user && (
+                  <ClusterIdentityControl
+                    cluster={selectedCluster}
+                    clusters={clusters}
+                    members={group.members}
+                    currentUserId={user.id}
+                    isAdmin={group.creatorId === user.id}
+                    onChange={loadClusters}
+                  />
+                )}
+                {selectedCluster && <PersonLinkControl cluster={selectedCluster} />}
+                {selectedMedia.length > 0 && (
+                  <AlbumMediaControl
+                    albums={albums}
+                    currentAlbum={selectedAlbum}
+                    selectedMediaIds={selectedMedia}
+                    onChange={handleAlbumsChange}
+                  />
+                )}
+                {selectedClusterId &&
+                  selectedClusterId !== "ungrouped" &&
+                  user &&
+                  group.creatorId === user.id && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => setShowFacePicker(true)}
+                    >
+                      <ScanFace className="h-4 w-4" />
+                      Manage Faces
+                    </Button>
+                  )}
               </div>
 
               {/* Download Buttons */}
               <div className="flex items-center gap-2">
+                {failedMedia.length > 0 &&
+                  user &&
+                  group.creatorId === user.id && (
+                    <Button
+                      onClick={handleRetryFailed}
+                      variant="outline"
+                      className="gap-2"
+                      size="sm"
+                      disabled={retryingFailed}
+                    >
+                      {retryingFailed ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                      Retry Failed ({failedMedia.length})
+                    </Button>
+                  )}
                 {selectedMedia.length > 0 && (
                   <Button
                     onClick={handleBulkDownload}
@@ -834,15 +1485,69 @@ export default function GroupDetailPage() {
                   onClick={() => toggleMediaSelection(item.id)}
                 >
                   <div className="aspect-square relative bg-gray-100 group">
-                    <img
-                      src={item.presignedUrl}
+                    <OptimizedImage
+                      src={item.posterUrl || item.presignedUrl || item.url}
                       alt={item.originalName}
-                      className="w-full h-full object-cover"
-                      loading="lazy"
+                      derivatives={item.derivativeUrls}
+                      sizes="(min-width: 1024px) 25vw, (min-width: 768px) 33vw, (min-width: 640px) 50vw, 100vw"
+                      className="w-full h-full"
                     />
 
+                    {/* Video play button and duration */}
+                    {item.mediaType === "video" && (
+                      <>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setPlayingVideo({ media: item, startAt: 0 });
+                          }}
+                          className="absolute inset-0 m-auto h-12 w-12 flex items-center justify-center bg-black/50 text-white rounded-full hover:bg-black/70"
+                          title="Play video"
+                        >
+                          <Play className="h-6 w-6" />
+                        </button>
+                        {item.durationSeconds !== undefined && (
+                          <div className="absolute bottom-2 right-2 bg-black/70 text-white text-xs rounded px-1.5 py-0.5">
+                            {formatVideoTime(item.durationSeconds)}
+                          </div>
+                        )}
+                      </>
+                    )}
+
+                    {/* Moments where the selected person appears in a video */}
+                    {item.mediaType === "video" &&
+                      selectedClusterId &&
+                      selectedClusterId !== "ungrouped" &&
+                      "faceDetections" in item &&
+                      item.faceDetections?.length > 0 && (
+                        <div className="absolute top-2 inset-x-12 flex flex-wrap justify-center gap-1">
+                          {[
+                            ...new Set(
+                              item.faceDetections
+                                .map((face: FaceDetection) => face.timestampSeconds)
+                                .filter((t): t is number => t !== undefined)
+                            ),
+                          ]
+                            .sort((a, b) => a - b)
+                            .map((timestamp) => (
+                              <button
+                                key={timestamp}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setPlayingVideo({ media: item, startAt: timestamp });
+                                }}
+                                className="bg-green-500 text-white text-xs rounded-full px-2 py-0.5 hover:bg-green-600 shadow"
+                                title="Jump to this moment"
+                              >
+                                {formatVideoTime(timestamp)}
+                              </button>
+                            ))}
+                        </div>
+                      )}
+
                     {/* Face bounding boxes - only show when viewing a specific cluster */}
-                    {selectedClusterId &&
+                    {item.mediaType !== "video" &&
+                      selectedClusterId &&
                       selectedClusterId !== "ungrouped" &&
                       "faceDetections" in item &&
                       item.faceDetections?.map((face: FaceDetection) => (
@@ -871,6 +1576,61 @@ export default function GroupDetailPage() {
                         </div>
                       ))}
 
+                    {/* Album order controls */}
+                    {canReorderAlbum && (
+                      <div className="absolute bottom-2 inset-x-0 flex justify-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={(e) => handleMoveInAlbum(item.id, -1, e)}
+                          className="bg-white/90 rounded-full p-1 shadow hover:bg-white disabled:opacity-40"
+                          disabled={filteredMedia[0]?.id === item.id}
+                          title="Move earlier"
+                        >
+                          <ChevronLeft className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={(e) => handleMoveInAlbum(item.id, 1, e)}
+                          className="bg-white/90 rounded-full p-1 shadow hover:bg-white disabled:opacity-40"
+                          disabled={
+                            filteredMedia[filteredMedia.length - 1]?.id === item.id
+                          }
+                          title="Move later"
+                        >
+                          <ChevronRight className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
+
+                    {/* Highlight badge */}
+                    {item.isHighlight && (
+                      <div
+                        className="absolute top-2 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-amber-400 text-white text-xs rounded-full px-2 py-0.5 shadow"
+                        title="One of the group's highlights"
+                      >
+                        <Sparkles className="h-3 w-3" />
+                        Highlight
+                      </div>
+                    )}
+
+                    {/* Processing status badge */}
+                    {item.processingStatus === "failed" && (
+                      <div
+                        className="absolute bottom-2 left-2 flex items-center gap-1 bg-red-500 text-white text-xs rounded-full px-2 py-1"
+                        title={item.lastError || "Face detection failed"}
+                      >
+                        <AlertCircle className="h-3 w-3" />
+                        Failed
+                      </div>
+                    )}
+                    {(item.processingStatus === "pending" ||
+                      item.processingStatus === "processing") && (
+                      <div className="absolute bottom-2 left-2 flex items-center gap-1 bg-gray-900/70 text-white text-xs rounded-full px-2 py-1">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        {item.processingStatus === "pending"
+                          ? "Queued"
+                          : "Processing"}
+                      </div>
+                    )}
+
                     {/* Selection indicator */}
                     {selectedMedia.includes(item.id) && (
                       <div className="absolute top-2 right-2 bg-blue-500 text-white rounded-full p-2">
@@ -897,6 +1657,34 @@ export default function GroupDetailPage() {
                       <Download className="h-4 w-4" />
                     </button>
 
+                    {/* HEIC/RAW uploads: format badge and converted JPEG download */}
+                    {item.originalMimeType && (
+                      <>
+                        <div className="absolute bottom-2 right-2 bg-black/70 text-white text-xs rounded px-1.5 py-0.5 uppercase">
+                          {item.originalName.split(".").pop()}
+                        </div>
+                        <button
+                          onClick={async (e) => {
+                            e.stopPropagation();
+                            try {
+                              await mediaApi.bulkDownload(
+                                groupId,
+                                [item.id],
+                                "converted"
+                              );
+                            } catch (error) {
+                              console.error("Download failed:", error);
+                              alert("Failed to download photo");
+                            }
+                          }}
+                          className="absolute top-12 right-2 bg-white text-gray-700 text-xs font-semibold rounded-full px-2 py-1 opacity-0 group-hover:opacity-100 transition-opacity hover:bg-gray-100 shadow"
+                          title="Download as JPEG"
+                        >
+                          JPG
+                        </button>
+                      </>
+                    )}
+
                     {/* Delete button - only show if user can delete this media */}
                     {canDeleteMedia(item) && (
                       <button
@@ -907,14 +1695,111 @@ export default function GroupDetailPage() {
                         <Trash2 className="h-4 w-4" />
                       </button>
                     )}
+
+                    {/* Caption and tags - same permission as delete */}
+                    {canDeleteMedia(item) && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setAnnotatingMedia(item);
+                        }}
+                        className="absolute top-12 left-2 bg-white text-gray-700 rounded-full p-2 opacity-0 group-hover:opacity-100 transition-opacity hover:bg-gray-100 shadow"
+                        title="Edit caption and tags"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                    )}
                   </div>
                   <CardContent className="p-3">
                     <p className="text-sm font-medium truncate">
                       {item.originalName}
                     </p>
-                    <p className="text-xs text-gray-500">
+                    <p
+                      className="text-xs text-gray-500"
+                      title={
+                        [item.cameraMake, item.cameraModel]
+                          .filter(Boolean)
+                          .join(" ") || undefined
+                      }
+                    >
+                      {item.takenAt &&
+                        `${format(new Date(item.takenAt), "MMM dd, yyyy h:mm a")} · `}
                       {(item.fileSize / 1024 / 1024).toFixed(2)} MB
                     </p>
+                    {item.caption && (
+                      <p className="text-xs text-gray-700 mt-1 line-clamp-2">
+                        {item.caption}
+                      </p>
+                    )}
+                    {item.tags && item.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {item.tags.map((tag) => (
+                          <button
+                            key={tag}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleSearch({ query: "", tags: [tag] });
+                            }}
+                            className="flex items-center gap-0.5 text-xs text-blue-600 hover:underline"
+                            title={`Show photos tagged ${tag}`}
+                          >
+                            <Tag className="h-3 w-3" />
+                            {tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between mt-2">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setCommentingMedia(item);
+                        }}
+                        className="flex items-center gap-2 text-xs text-gray-600 hover:text-gray-900"
+                        title="Comments and reactions"
+                      >
+                        <span className="flex items-center gap-1">
+                          <MessageCircle className="h-3.5 w-3.5" />
+                          {item.commentCount ?? 0}
+                        </span>
+                        {item.reactions?.slice(0, 3).map((reaction) => (
+                          <span
+                            key={reaction.emoji}
+                            className={reaction.reacted ? "font-semibold" : ""}
+                          >
+                            {reaction.emoji} {reaction.count}
+                          </span>
+                        ))}
+                      </button>
+                      <div className="flex items-center gap-1">
+                        {user && group && group.creatorId === user.id && (
+                          <button
+                            onClick={(e) => handleToggleHighlight(item, e)}
+                            className={`p-1 rounded hover:bg-gray-100 ${
+                              item.isHighlight ? "text-amber-500" : "text-gray-400"
+                            }`}
+                            title={
+                              item.isHighlight
+                                ? "Remove from highlights"
+                                : "Add to highlights"
+                            }
+                          >
+                            <Sparkles className="h-4 w-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={(e) => handleToggleFavorite(item, e)}
+                          className={`p-1 rounded hover:bg-gray-100 ${
+                            item.isFavorite ? "text-yellow-500" : "text-gray-400"
+                          }`}
+                          title={item.isFavorite ? "Unstar" : "Star"}
+                        >
+                          <Star
+                            className={`h-4 w-4 ${item.isFavorite ? "fill-current" : ""}`}
+                          />
+                        </button>
+                      </div>
+                    </div>
                   </CardContent>
                 </Card>
               ))}
@@ -922,6 +1807,10 @@ export default function GroupDetailPage() {
 
             {/* Load More Button - only show when viewing all photos (not filtered) */}
             {selectedClusterId === null &&
+              selectedAlbumId === null &&
+              !search &&
+              !collection &&
+              !takenRange &&
               hasMoreMedia &&
               filteredMedia.length > 0 && (
                 <div className="flex justify-center mt-8">
@@ -959,13 +1848,13 @@ export default function GroupDetailPage() {
                 htmlFor="file-upload"
                 className="block text-sm font-medium text-gray-700 mb-2"
               >
-                Select Photos
+                Select Photos or Videos
               </Label>
               <input
                 id="file-upload"
                 type="file"
                 multiple
-                accept="image/*"
+                accept="image/*,.heic,.heif,.dng,.cr2,.nef,.arw,video/mp4,video/quicktime,video/webm"
                 onChange={(e) => {
                   if (e.target.files && e.target.files.length > 0) {
                     handleFileUpload(e.target.files);
@@ -990,10 +1879,23 @@ export default function GroupDetailPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Activity Dialog */}
+      <Dialog open={showActivityDialog} onOpenChange={setShowActivityDialog}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogTitle>Recent Activity</DialogTitle>
+          {showActivityDialog && (
+            <ActivityFeed groupId={groupId} showHeader={false} />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Members Dialog */}
       <Dialog open={showMembersDialog} onOpenChange={setShowMembersDialog}>
         <DialogContent>
           <DialogTitle>Group Members</DialogTitle>
+          {user && group.creatorId === user.id && showMembersDialog && (
+            <JoinRequestQueue groupId={group.id} onApproved={loadGroup} />
+          )}
           <div className="space-y-3">
             {group.members.map((member) => (
               <div
@@ -1016,6 +1918,17 @@ export default function GroupDetailPage() {
               </div>
             ))}
           </div>
+          <Button
+            variant="outline"
+            className="w-full border-red-300 text-red-600 hover:bg-red-50 hover:text-red-700"
+            onClick={() => {
+              setShowMembersDialog(false);
+              setShowLeaveDialog(true);
+            }}
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Leave Group
+          </Button>
         </DialogContent>
       </Dialog>
 
@@ -1158,9 +2071,72 @@ export default function GroupDetailPage() {
             groupId={groupId}
             groupName={group.name}
             inviteCode={group.inviteCode}
+            isAdmin={!!user && group.creatorId === user.id}
+            onInviteCodeChange={loadGroup}
           />
+
+          {user && (
+            <LeaveGroupDialog
+              group={group}
+              currentUserId={user.id}
+              isOpen={showLeaveDialog}
+              onClose={() => setShowLeaveDialog(false)}
+            />
+          )}
         </>
       )}
+
+      <FindMyPhotosDialog
+        groupId={groupId}
+        open={showSelfieSearch}
+        onOpenChange={setShowSelfieSearch}
+        onSelectCluster={setSelectedClusterId}
+      />
+
+      <MediaAnnotationsDialog
+        groupId={groupId}
+        media={annotatingMedia}
+        onClose={() => setAnnotatingMedia(null)}
+        onSaved={handleAnnotationsSaved}
+      />
+
+      {user && group && (
+        <MediaCommentsDialog
+          media={commentingMedia}
+          members={group.members}
+          currentUserId={user.id}
+          isAdmin={group.creatorId === user.id}
+          onClose={() => setCommentingMedia(null)}
+          onChange={handleEngagementChange}
+        />
+      )}
+
+      <HighlightSuggestionsDialog
+        groupId={groupId}
+        open={showHighlightSuggestions}
+        onOpenChange={setShowHighlightSuggestions}
+        onHighlighted={(mediaId) =>
+          applyCollectionChange(mediaId, { isHighlight: true })
+        }
+      />
+
+      <VideoPlayerDialog
+        video={playingVideo?.media ?? null}
+        startAt={playingVideo?.startAt}
+        onOpenChange={(open) => !open && setPlayingVideo(null)}
+      />
+
+      {/* Face picker for splitting or moving faces of the selected person */}
+      {selectedCluster && (
+        <ClusterFacePicker
+          open={showFacePicker}
+          onOpenChange={setShowFacePicker}
+          cluster={selectedCluster}
+          clusters={clusters}
+          onComplete={handleFacesMoved}
+          onCoverChange={loadClusters}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,240 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useUser } from "@clerk/nextjs";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Mail,
+  Loader2,
+  CheckCircle,
+  AlertCircle,
+  Users,
+  Shield,
+  Clock,
+} from "lucide-react";
+import { format } from "date-fns";
+import { invitationsApi, EmailInvitationPreview } from "@/lib/api/invitations";
+
+const ROLE_DESCRIPTIONS: Record<string, string> = {
+  MEMBER: "Member: view, download and upload photos",
+  VIEWER: "Viewer: view and download photos",
+};
+
+const UNUSABLE_INVITATION_MESSAGES: Record<string, string> = {
+  expired: "This invitation has expired. Ask a group admin to resend it.",
+  cancelled: "This invitation has been cancelled.",
+};
+
+export default function EmailInvitationPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { isSignedIn, isLoaded } = useUser();
+  const token = params.token as string;
+
+  const [accepting, setAccepting] = useState(false);
+  const [accepted, setAccepted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [groupName, setGroupName] = useState<string>("");
+  const [preview, setPreview] = useState<EmailInvitationPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(true);
+
+  useEffect(() => {
+    const loadPreview = async () => {
+      try {
+        const invitation = await invitationsApi.getPreview(token);
+        setPreview(invitation);
+        if (UNUSABLE_INVITATION_MESSAGES[invitation.status]) {
+          setError(UNUSABLE_INVITATION_MESSAGES[invitation.status]);
+        }
+      } catch (err: unknown) {
+        console.error("Failed to load invitation:", err);
+        setError(err instanceof Error ? err.message : "This invitation link is invalid.");
+      } finally {
+        setPreviewLoading(false);
+      }
+    };
+
+    loadPreview();
+  }, [token]);
+
+  // Accepting an already accepted invitation (e.g. on sign-up) just returns its group
+  const acceptInvitation = async () => {
+    setAccepting(true);
+    setError(null);
+
+    try {
+      const group = await invitationsApi.accept(token);
+      setGroupName(group.name);
+      setAccepted(true);
+
+      // Redirect to group page after 2 seconds
+      setTimeout(() => {
+        router.push(`/groups/${group.id}`);
+      }, 2000);
+    } catch (err: unknown) {
+      console.error("Failed to accept invitation:", err);
+      setError(err instanceof Error ? err.message : "Failed to accept invitation.");
+      setAccepting(false);
+    }
+  };
+
+  const invitationDetails = preview && (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6 text-left space-y-2 text-sm text-gray-700">
+      <div className="flex items-center gap-2">
+        <Mail className="h-4 w-4 text-gray-400" />
+        <span>Sent to {preview.email}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <Shield className="h-4 w-4 text-gray-400" />
+        <span>{ROLE_DESCRIPTIONS[preview.role] ?? preview.role}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <Users className="h-4 w-4 text-gray-400" />
+        <span>
+          {preview.memberCount} {preview.memberCount === 1 ? "member" : "members"}
+        </span>
+      </div>
+      {preview.status === "pending" && (
+        <div className="flex items-center gap-2">
+          <Clock className="h-4 w-4 text-gray-400" />
+          <span>
+            Valid until {format(new Date(preview.expiresAt), "MMM d, yyyy h:mm a")}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+
+  // Loading state
+  if (!isLoaded || previewLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="pt-12 pb-12 text-center">
+            <Loader2 className="h-12 w-12 text-blue-600 animate-spin mx-auto mb-4" />
+            <p className="text-gray-600">Loading...</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="pt-12 pb-12 text-center">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-gray-900 mb-2">
+              Unable to Accept Invitation
+            </h2>
+            <p className="text-gray-600 mb-4">{error}</p>
+            <Button onClick={() => router.push("/dashboard")} variant="outline">
+              Go to Dashboard
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Not signed in - sign up with the invited address to join automatically
+  if (!isSignedIn) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="pt-12 pb-12 text-center">
+            <div className="w-20 h-20 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center mx-auto mb-6">
+              <Mail className="h-10 w-10 text-white" />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-3">
+              You&apos;re Invited!
+            </h1>
+            <p className="text-gray-600 mb-6">
+              {preview
+                ? `${preview.inviterName} invited you to join ${preview.groupName}.`
+                : "Sign in to join this photo group and start sharing memories."}
+            </p>
+            {invitationDetails}
+            <Button
+              onClick={() => {
+                // Redirect to sign-in with return URL
+                router.push(`/sign-in?redirect_url=/invitations/${token}`);
+              }}
+              size="lg"
+              className="w-full"
+            >
+              Sign In to Continue
+            </Button>
+            <p className="text-sm text-gray-500 mt-4">
+              Don&apos;t have an account?{" "}
+              <a
+                href={`/sign-up?redirect_url=/invitations/${token}`}
+                className="text-blue-600 hover:underline"
+              >
+                Sign up
+              </a>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Success state
+  if (accepted) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="pt-12 pb-12 text-center">
+            <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">
+              Welcome to {groupName}!
+            </h2>
+            <p className="text-gray-600 mb-4">
+              You&apos;ve successfully joined the group.
+            </p>
+            <p className="text-sm text-gray-500">
+              Redirecting you to the group...
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Ready to accept
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center p-4">
+      <Card className="max-w-md w-full">
+        <CardContent className="pt-12 pb-12 text-center">
+          <div className="w-20 h-20 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Mail className="h-10 w-10 text-white" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Join {preview?.groupName}
+          </h1>
+          <p className="text-gray-600 mb-4">
+            {preview?.inviterName} invited you to share photos in this group.
+          </p>
+          {invitationDetails}
+          <Button onClick={acceptInvitation} disabled={accepting} size="lg" className="w-full">
+            {accepting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Joining group...
+              </>
+            ) : preview?.status === "accepted" ? (
+              "Open Group"
+            ) : (
+              "Accept Invitation"
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,8 +5,31 @@ import { useParams, useRouter } from "next/navigation";
 import { useUser } from "@clerk/nextjs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { UserPlus, Loader2, CheckCircle, AlertCircle } from "lucide-react";
-import { groupsApi } from "@/lib/api/groups";
+import {
+  UserPlus,
+  Loader2,
+  CheckCircle,
+  AlertCircle,
+  Users,
+  Shield,
+  Clock,
+  Ticket,
+  UserCheck,
+  Hourglass,
+} from "lucide-react";
+import { format } from "date-fns";
+import { groupsApi, InvitePreview, PendingJoinRequest } from "@/lib/api/groups";
+
+const ROLE_DESCRIPTIONS: Record<string, string> = {
+  MEMBER: "Member: view, download and upload photos",
+  VIEWER: "Viewer: view and download photos",
+};
+
+const UNUSABLE_INVITE_MESSAGES: Record<string, string> = {
+  expired: "This invite has expired. Ask a group admin for a new link.",
+  exhausted: "This invite has been used the maximum number of times. Ask a group admin for a new link.",
+  revoked: "This invite has been revoked. Ask a group admin for a new link.",
+};
 
 export default function JoinGroupPage() {
   const params = useParams();
@@ -16,22 +39,47 @@ export default function JoinGroupPage() {
 
   const [joining, setJoining] = useState(false);
   const [joined, setJoined] = useState(false);
+  const [pendingRequest, setPendingRequest] = useState<PendingJoinRequest | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [groupName, setGroupName] = useState<string>("");
+  const [preview, setPreview] = useState<InvitePreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(true);
 
+  // Show what the invite grants before joining, signed in or not
   useEffect(() => {
-    // Once user is loaded and signed in, join the group
-    if (isLoaded && isSignedIn && !joined && !joining && !error) {
-      joinGroup();
-    }
-  }, [isLoaded, isSignedIn]);
+    const loadPreview = async () => {
+      try {
+        const invite = await groupsApi.getInvitePreview(code);
+        setPreview(invite);
+        if (invite.status !== "active") {
+          setError(UNUSABLE_INVITE_MESSAGES[invite.status]);
+        }
+      } catch (err: unknown) {
+        console.error("Failed to load invite:", err);
+        setError(err instanceof Error ? err.message : "This invite link is invalid.");
+      } finally {
+        setPreviewLoading(false);
+      }
+    };
+
+    loadPreview();
+  }, [code]);
 
   const joinGroup = async () => {
     setJoining(true);
     setError(null);
 
     try {
-      const group = await groupsApi.join(code);
+      const result = await groupsApi.join(code);
+
+      // The group requires approval, wait for an admin
+      if (result.status === "pending") {
+        setPendingRequest(result.request);
+        setJoining(false);
+        return;
+      }
+
+      const { group } = result;
       setGroupName(group.name);
       setJoined(true);
 
@@ -47,8 +95,50 @@ export default function JoinGroupPage() {
     }
   };
 
+  const inviteDetails = preview && (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6 text-left space-y-2 text-sm text-gray-700">
+      {preview.label && (
+        <div className="flex items-center gap-2">
+          <Ticket className="h-4 w-4 text-gray-400" />
+          <span>{preview.label}</span>
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <Shield className="h-4 w-4 text-gray-400" />
+        <span>{ROLE_DESCRIPTIONS[preview.role] ?? preview.role}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <Users className="h-4 w-4 text-gray-400" />
+        <span>
+          {preview.memberCount} {preview.memberCount === 1 ? "member" : "members"}
+        </span>
+      </div>
+      {preview.requireApproval && (
+        <div className="flex items-center gap-2">
+          <UserCheck className="h-4 w-4 text-gray-400" />
+          <span>An admin approves new members</span>
+        </div>
+      )}
+      {(preview.expiresAt || preview.remainingUses !== undefined) && (
+        <div className="flex items-center gap-2">
+          <Clock className="h-4 w-4 text-gray-400" />
+          <span>
+            {[
+              preview.expiresAt &&
+                `Valid until ${format(new Date(preview.expiresAt), "MMM d, yyyy h:mm a")}`,
+              preview.remainingUses !== undefined &&
+                `${preview.remainingUses} ${preview.remainingUses === 1 ? "use" : "uses"} left`,
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+
   // Loading state
-  if (!isLoaded) {
+  if (!isLoaded || previewLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center p-4">
         <Card className="max-w-md w-full">
@@ -61,6 +151,26 @@ export default function JoinGroupPage() {
     );
   }
 
+  // Error state
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="pt-12 pb-12 text-center">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-gray-900 mb-2">
+              Unable to Join Group
+            </h2>
+            <p className="text-gray-600 mb-4">{error}</p>
+            <Button onClick={() => router.push("/dashboard")} variant="outline">
+              Go to Dashboard
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   // Not signed in - redirect to sign-in
   if (!isSignedIn) {
     return (
@@ -74,8 +184,11 @@ export default function JoinGroupPage() {
               You&apos;re Invited!
             </h1>
             <p className="text-gray-600 mb-6">
-              Sign in to join this photo group and start sharing memories.
+              {preview
+                ? `Sign in to join ${preview.groupName} and start sharing memories.`
+                : "Sign in to join this photo group and start sharing memories."}
             </p>
+            {inviteDetails}
             <Button
               onClick={() => {
                 // Redirect to sign-in with return URL
@@ -101,55 +214,78 @@ export default function JoinGroupPage() {
     );
   }
 
-  // Error state
-  if (error) {
+  // Success state
+  if (joined) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center p-4">
         <Card className="max-w-md w-full">
           <CardContent className="pt-12 pb-12 text-center">
-            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
-            <h2 className="text-xl font-bold text-gray-900 mb-2">
-              Unable to Join Group
+            <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">
+              Welcome to {groupName}!
             </h2>
-            <p className="text-gray-600 mb-4">{error}</p>
-            <Button onClick={() => router.push("/dashboard")} variant="outline">
-              Go to Dashboard
-            </Button>
+            <p className="text-gray-600 mb-4">
+              You&apos;ve successfully joined the group.
+            </p>
+            <p className="text-sm text-gray-500">
+              Redirecting you to the group...
+            </p>
           </CardContent>
         </Card>
       </div>
     );
   }
 
-  // Success state
-  if (joined) {
+  // Waiting for an admin to approve the request
+  if (pendingRequest) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center p-4">
         <Card className="max-w-md w-full">
           <CardContent className="pt-12 pb-12 text-center">
-            <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+            <Hourglass className="h-16 w-16 text-amber-500 mx-auto mb-4" />
             <h2 className="text-2xl font-bold text-gray-900 mb-2">
-              Welcome to {groupName}!
+              Request Sent
             </h2>
             <p className="text-gray-600 mb-4">
-              You&apos;ve successfully joined the group.
-            </p>
-            <p className="text-sm text-gray-500">
-              Redirecting you to the group...
+              An admin of {pendingRequest.groupName} needs to approve your
+              request. The group will appear on your dashboard once you&apos;re in.
             </p>
+            <Button onClick={() => router.push("/dashboard")} variant="outline">
+              Go to Dashboard
+            </Button>
           </CardContent>
         </Card>
       </div>
     );
   }
 
-  // Joining state
+  // Ready to join
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center p-4">
       <Card className="max-w-md w-full">
         <CardContent className="pt-12 pb-12 text-center">
-          <Loader2 className="h-12 w-12 text-blue-600 animate-spin mx-auto mb-4" />
-          <p className="text-gray-600">Joining group...</p>
+          <div className="w-20 h-20 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center mx-auto mb-6">
+            <UserPlus className="h-10 w-10 text-white" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Join {preview?.groupName}
+          </h1>
+          {preview?.groupDescription && (
+            <p className="text-gray-600 mb-4">{preview.groupDescription}</p>
+          )}
+          {inviteDetails}
+          <Button onClick={joinGroup} disabled={joining} size="lg" className="w-full">
+            {joining ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                {preview?.requireApproval ? "Sending request..." : "Joining group..."}
+              </>
+            ) : preview?.requireApproval ? (
+              "Request to Join"
+            ) : (
+              "Join Group"
+            )}
+          </Button>
         </CardContent>
       </Card>
     </div>
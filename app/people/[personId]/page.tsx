@@ -0,0 +1,284 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useUser } from "@clerk/nextjs";
+import Link from "next/link";
+import { Header } from "@/components/layout/Header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Pencil, Trash2, X, Image } from "lucide-react";
+import { OptimizedImage } from "@/components/ui/OptimizedImage";
+import { peopleApi, Person, PersonMedia } from "@/lib/api/people";
+
+export default function PersonDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { user } = useUser();
+  const personId = params.personId as string;
+
+  const [person, setPerson] = useState<Person | null>(null);
+  const [media, setMedia] = useState<PersonMedia[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [editingName, setEditingName] = useState(false);
+  const [name, setName] = useState("");
+
+  const loadPerson = useCallback(async (): Promise<void> => {
+    const people = await peopleApi.list();
+    setPerson(people.find((p) => p.id === personId) || null);
+  }, [personId]);
+
+  const loadMedia = useCallback(
+    async (page: number = 1, append: boolean = false): Promise<void> => {
+      const result = await peopleApi.getMedia(personId, page, 20);
+      setMedia((prev) => (append ? [...prev, ...result.media] : result.media));
+      setCurrentPage(page);
+      setTotalPages(result.pagination.totalPages);
+      setTotal(result.pagination.total);
+    },
+    [personId]
+  );
+
+  useEffect(() => {
+    const load = async (): Promise<void> => {
+      try {
+        await Promise.all([loadPerson(), loadMedia()]);
+      } catch (error) {
+        console.error("Failed to load person:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (user && personId) {
+      load();
+    }
+  }, [user, personId, loadPerson, loadMedia]);
+
+  const handleLoadMore = async (): Promise<void> => {
+    setLoadingMore(true);
+    try {
+      await loadMedia(currentPage + 1, true);
+    } catch (error) {
+      console.error("Failed to load more photos:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleRename = async (): Promise<void> => {
+    if (!person || !name.trim()) return;
+
+    try {
+      setPerson(await peopleApi.rename(person.id, name.trim()));
+      setEditingName(false);
+    } catch (error) {
+      console.error("Failed to rename person:", error);
+      alert("Failed to update name");
+    }
+  };
+
+  const handleUnlink = async (clusterId: string): Promise<void> => {
+    if (!person) return;
+
+    try {
+      setPerson(await peopleApi.unlinkCluster(person.id, clusterId));
+      await loadMedia();
+    } catch (error) {
+      console.error("Failed to unlink cluster:", error);
+      alert("Failed to remove group link");
+    }
+  };
+
+  const handleDelete = async (): Promise<void> => {
+    if (!person) return;
+
+    if (
+      !confirm(
+        `Delete ${person.name}? Photos and people in your groups are not affected.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await peopleApi.delete(person.id);
+      router.push("/people");
+    } catch (error) {
+      console.error("Failed to delete person:", error);
+      alert("Failed to delete person");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <div className="container mx-auto px-4 py-8 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!person) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <div className="container mx-auto px-4 py-8 text-center">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">
+            Person not found
+          </h2>
+          <Link href="/people">
+            <Button variant="outline">Back to My People</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        <Link
+          href="/people"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          My People
+        </Link>
+
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            {editingName ? (
+              <div className="flex items-center gap-2 mb-2">
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={50}
+                  autoFocus
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleRename();
+                    if (e.key === "Escape") setEditingName(false);
+                  }}
+                />
+                <Button size="sm" onClick={handleRename}>
+                  Save
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 mb-2">
+                <h2 className="text-3xl font-bold text-gray-900">
+                  {person.name}
+                </h2>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setName(person.name);
+                    setEditingName(true);
+                  }}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            <p className="text-gray-600">
+              {total} {total === 1 ? "photo" : "photos"} across{" "}
+              {new Set(person.clusters.map((c) => c.groupId)).size} groups
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleDelete}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+        </div>
+
+        {person.clusters.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {person.clusters.map((cluster) => (
+              <Badge
+                key={cluster.clusterId}
+                variant="secondary"
+                className="gap-1 pr-1"
+              >
+                <Link href={`/groups/${cluster.groupId}`}>
+                  {cluster.groupName}
+                  {cluster.clusterName && ` · ${cluster.clusterName}`}
+                </Link>
+                <button
+                  onClick={() => handleUnlink(cluster.clusterId)}
+                  className="rounded-full p-0.5 hover:bg-gray-300"
+                  title="Remove this group"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {media.length === 0 ? (
+          <div className="text-center py-12">
+            <Image className="mx-auto h-16 w-16 text-gray-300 mb-4" />
+            <p className="text-gray-600">
+              No photos yet. Link this person in your groups to see their
+              photos here.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {media.map((item) => (
+                <Card key={item.id} className="overflow-hidden hover:shadow-lg">
+                  <a
+                    href={item.presignedUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block aspect-square bg-gray-100"
+                  >
+                    <OptimizedImage
+                      src={item.posterUrl || item.presignedUrl || item.url}
+                      alt={item.originalName}
+                      derivatives={item.derivativeUrls}
+                      sizes="(min-width: 1024px) 25vw, (min-width: 768px) 33vw, (min-width: 640px) 50vw, 100vw"
+                      className="w-full h-full"
+                    />
+                  </a>
+                  <CardContent className="p-3">
+                    <p className="text-sm font-medium truncate">
+                      {item.originalName}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {item.groupName}
+                    </p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {currentPage < totalPages && (
+              <div className="flex justify-center mt-8">
+                <Button
+                  onClick={handleLoadMore}
+                  disabled={loadingMore}
+                  variant="outline"
+                >
+                  {loadingMore ? "Loading more..." : "Load More Photos"}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useUser } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { Header } from "@/components/layout/Header";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Contact, UserRound } from "lucide-react";
+import { peopleApi, Person } from "@/lib/api/people";
+
+export default function PeoplePage() {
+  const router = useRouter();
+  const { user } = useUser();
+  const [people, setPeople] = useState<Person[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadPeople = async (): Promise<void> => {
+      try {
+        const data = await peopleApi.list();
+        setPeople(data || []);
+      } catch (error) {
+        console.error("Failed to load people:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (user) {
+      loadPeople();
+    }
+  }, [user]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <div className="container mx-auto px-4 py-8 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">My People</h2>
+          <p className="text-gray-600">
+            Follow the same person across all of your groups. Only you can see
+            this list.
+          </p>
+        </div>
+
+        {people.length === 0 ? (
+          <div className="text-center py-12">
+            <Contact className="mx-auto h-16 w-16 text-gray-300 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No people yet
+            </h3>
+            <p className="text-gray-600">
+              Open a person in one of your groups and choose &quot;Add to My
+              People&quot; to start
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {people.map((person) => (
+              <Card
+                key={person.id}
+                className="hover:shadow-lg transition-shadow cursor-pointer"
+                onClick={() => router.push(`/people/${person.id}`)}
+              >
+                <CardHeader>
+                  <div className="flex items-center gap-3">
+                    <div className="w-12 h-12 rounded-full overflow-hidden bg-gray-100 flex-shrink-0 flex items-center justify-center">
+                      {person.thumbnailUrl ? (
+                        <img
+                          src={person.thumbnailUrl}
+                          alt={person.name}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <UserRound className="h-6 w-6 text-gray-400" />
+                      )}
+                    </div>
+                    <CardTitle className="text-lg">{person.name}</CardTitle>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap gap-2">
+                    {person.clusters.length === 0 ? (
+                      <span className="text-sm text-gray-500">
+                        Not linked to any group
+                      </span>
+                    ) : (
+                      person.clusters.map((cluster) => (
+                        <Badge key={cluster.clusterId} variant="secondary">
+                          {cluster.groupName}
+                        </Badge>
+                      ))
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { AcceptEmailInvitationUseCase } from '../../core/use-cases/AcceptEmailInvitationUseCase.js';
+import { SendEmailInvitationsUseCase } from '../../core/use-cases/SendEmailInvitationsUseCase.js';
+import { RecordActivityUseCase } from '../../core/use-cases/RecordActivityUseCase.js';
+import { EmailInvitation, EmailInvitationStatus } from '../../core/entities/EmailInvitation.js';
+import { Group } from '../../core/entities/Group.js';
+import { IEmailInvitationRepository } from '../../core/interfaces/repositories/IEmailInvitationRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import { IUserRepository } from '../../core/interfaces/repositories/IUserRepository.js';
+import { IEmailService } from '../../core/interfaces/services/IEmailService.js';
+import { MemberRole } from '../../shared/constants/index.js';
+
+// nanoid only ships as an ES module, which Jest can't load here
+jest.mock('nanoid', () => {
+  let count = 0;
+  return { nanoid: (size: number = 21) => String(++count).padStart(size, '0') };
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function invitation(
+  id: string,
+  email: string,
+  options: { status?: EmailInvitationStatus; expiresAt?: Date; acceptedBy?: string } = {}
+): EmailInvitation {
+  return new EmailInvitation(
+    id,
+    'group-1',
+    email,
+    `token-${id}`,
+    'owner',
+    MemberRole.VIEWER,
+    options.status ?? 'pending',
+    options.expiresAt ?? new Date(Date.now() + DAY),
+    1,
+    new Date(),
+    options.acceptedBy
+  );
+}
+
+function setup(existing: EmailInvitation[] = [], options: { failingEmail?: string } = {}) {
+  const invitations = new Map(existing.map(i => [i.id, i]));
+  const state: { group: Group } = {
+    group: Object.assign(Group.create({ name: 'Wedding', creatorId: 'owner', inviteCode: 'ABC123' }), {
+      id: 'group-1',
+    }),
+  };
+  const sent: string[] = [];
+
+  const setStatus = (id: string, status: EmailInvitationStatus, acceptedBy?: string) => {
+    const current = invitations.get(id)!;
+    const updated = Object.assign(Object.create(EmailInvitation.prototype) as EmailInvitation, current, {
+      status,
+      acceptedBy,
+    });
+    invitations.set(id, updated);
+    return updated;
+  };
+
+  const emailInvitationRepository = {
+    create: async (created: EmailInvitation) => {
+      const saved = Object.assign(created, { id: `invitation-${invitations.size + 1}` });
+      invitations.set(saved.id, saved);
+      return saved;
+    },
+    findByToken: async (token: string) => [...invitations.values()].find(i => i.token === token) ?? null,
+    findPendingByGroupId: async () => [...invitations.values()].filter(i => i.status === 'pending'),
+    findOpenByEmails: async (emails: string[]) =>
+      [...invitations.values()].filter(i => i.isOpen() && emails.includes(i.email)),
+    // Only pending invitations can be accepted, like the conditional update in Mongo
+    markAccepted: async (id: string, userId: string) =>
+      invitations.get(id)?.isOpen() ? setStatus(id, 'accepted', userId) : null,
+    cancel: async (id: string) => setStatus(id, 'cancelled'),
+  } as unknown as IEmailInvitationRepository;
+
+  const groupRepository = {
+    findById: async () => state.group,
+    findByIdAndUserId: async (_groupId: string, userId: string) => (state.group.isMember(userId) ? state.group : null),
+    update: async (_id: string, group: Group) => {
+      state.group = group;
+      return group;
+    },
+  } as unknown as IGroupRepository;
+
+  const userRepository = {
+    findByClerkId: async () => ({ name: 'Olivia', email: 'olivia@example.com' }),
+    findByEmail: async (email: string) => (email === 'alice@example.com' ? { clerkId: 'alice' } : null),
+  } as unknown as IUserRepository;
+
+  const emailService = {
+    sendGroupInviteEmail: async (to: string, _inviterName: string, _groupName: string, link: string) => {
+      if (to === options.failingEmail) {
+        throw new Error('Mailbox unavailable');
+      }
+      sent.push(link);
+    },
+  } as unknown as IEmailService;
+
+  const recordActivityUseCase = { execute: async () => undefined } as unknown as RecordActivityUseCase;
+
+  return {
+    accept: new AcceptEmailInvitationUseCase(emailInvitationRepository, groupRepository, recordActivityUseCase),
+    send: new SendEmailInvitationsUseCase(
+      emailInvitationRepository,
+      groupRepository,
+      userRepository,
+      emailService,
+      'https://app.example.com'
+    ),
+    state,
+    invitations,
+    sent,
+  };
+}
+
+describe('AcceptEmailInvitationUseCase', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('joins with the invited role and only once per token', async () => {
+    const { accept, state } = setup([invitation('1', 'bob@example.com')]);
+
+    await accept.execute({ token: 'token-1', userId: 'bob' });
+
+    expect(state.group.getMember('bob')?.role).toBe(MemberRole.VIEWER);
+    await expect(accept.execute({ token: 'token-1', userId: 'carol' })).rejects.toThrow(
+      'This invitation has already been used'
+    );
+    expect(state.group.isMember('carol')).toBe(false);
+  });
+
+  it('returns the group when the invitee opens the link again', async () => {
+    const { accept } = setup([invitation('1', 'bob@example.com', { status: 'accepted', acceptedBy: 'bob' })]);
+
+    await expect(accept.execute({ token: 'token-1', userId: 'bob' })).resolves.toBeDefined();
+  });
+
+  it('rejects expired and cancelled invitations', async () => {
+    const { accept } = setup([
+      invitation('1', 'bob@example.com', { expiresAt: new Date(Date.now() - DAY) }),
+      invitation('2', 'carol@example.com', { status: 'cancelled' }),
+    ]);
+
+    await expect(accept.execute({ token: 'token-1', userId: 'bob' })).rejects.toThrow(
+      'This invitation has expired'
+    );
+    await expect(accept.execute({ token: 'token-2', userId: 'carol' })).rejects.toThrow(
+      'This invitation has been cancelled'
+    );
+  });
+
+  it('accepts open invitations to a new user\'s addresses on sign-up', async () => {
+    const { accept, state, invitations } = setup([
+      invitation('1', 'bob@example.com'),
+      invitation('2', 'bob@example.com', { expiresAt: new Date(Date.now() - DAY) }),
+      invitation('3', 'carol@example.com'),
+    ]);
+
+    const joined = await accept.acceptForNewUser('bob', ['bob@example.com']);
+
+    expect(joined).toHaveLength(1);
+    expect(state.group.isMember('bob')).toBe(true);
+    expect(invitations.get('1')?.status).toBe('accepted');
+    expect(invitations.get('3')?.status).toBe('pending');
+  });
+});
+
+describe('SendEmailInvitationsUseCase', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('emails a personal link to each new address and skips the rest', async () => {
+    const { send, sent } = setup([invitation('1', 'bob@example.com')]);
+
+    const result = await send.execute({
+      groupId: 'group-1',
+      userId: 'owner',
+      emails: [' Dave@Example.com', 'dave@example.com', 'bob@example.com'],
+      role: MemberRole.MEMBER,
+    });
+
+    expect(result.invitations).toHaveLength(1);
+    expect(result.skipped).toEqual([{ email: 'bob@example.com', reason: 'Already invited' }]);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatch(/^https:\/\/app\.example\.com\/invitations\/.{32}$/);
+  });
+
+  it('skips members and replaces an expired invitation', async () => {
+    const { send, state, invitations } = setup([
+      invitation('1', 'erin@example.com', { expiresAt: new Date(Date.now() - DAY) }),
+    ]);
+    state.group = state.group.addMember('alice', MemberRole.MEMBER);
+
+    const result = await send.execute({
+      groupId: 'group-1',
+      userId: 'owner',
+      emails: ['alice@example.com', 'erin@example.com'],
+      role: MemberRole.VIEWER,
+    });
+
+    expect(result.skipped).toEqual([{ email: 'alice@example.com', reason: 'Already a member' }]);
+    expect(result.invitations.map(i => i.email)).toEqual(['erin@example.com']);
+    expect(invitations.get('1')?.status).toBe('cancelled');
+  });
+
+  it('cancels the invitation when the email can\'t be sent', async () => {
+    const { send, invitations } = setup([], { failingEmail: 'frank@example.com' });
+
+    const result = await send.execute({
+      groupId: 'group-1',
+      userId: 'owner',
+      emails: ['frank@example.com'],
+      role: MemberRole.MEMBER,
+    });
+
+    expect(result.invitations).toHaveLength(0);
+    expect(result.skipped).toEqual([{ email: 'frank@example.com', reason: 'Email could not be sent' }]);
+    expect([...invitations.values()].map(i => i.status)).toEqual(['cancelled']);
+  });
+
+  it('only lets admins invite, and never as admin', async () => {
+    const { send, state } = setup();
+    state.group = state.group.addMember('alice', MemberRole.MEMBER);
+
+    await expect(
+      send.execute({ groupId: 'group-1', userId: 'alice', emails: ['gina@example.com'], role: MemberRole.MEMBER })
+    ).rejects.toThrow('Only group admins can send invitations');
+    await expect(
+      send.execute({ groupId: 'group-1', userId: 'owner', emails: ['gina@example.com'], role: MemberRole.ADMIN })
+    ).rejects.toThrow('Invitations can only grant member or viewer access');
+  });
+});
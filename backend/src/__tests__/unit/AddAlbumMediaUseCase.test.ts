@@ -0,0 +1,150 @@
+import { describe, it, expect } from '@jest/globals';
+import { AddAlbumMediaUseCase } from '../../core/use-cases/AddAlbumMediaUseCase.js';
+import { ReorderAlbumMediaUseCase } from '../../core/use-cases/ReorderAlbumMediaUseCase.js';
+import { UpdateAlbumUseCase } from '../../core/use-cases/UpdateAlbumUseCase.js';
+import { Album } from '../../core/entities/Album.js';
+import { Group } from '../../core/entities/Group.js';
+import { Media } from '../../core/entities/Media.js';
+import { IAlbumRepository } from '../../core/interfaces/repositories/IAlbumRepository.js';
+import { IMediaRepository } from '../../core/interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import { MemberRole } from '../../shared/constants/index.js';
+
+function photo(id: string, groupId: string = 'group-1'): Media {
+  const media = Media.create({
+    groupId,
+    uploaderId: 'owner',
+    filename: `${id}.jpg`,
+    originalName: `${id}.jpg`,
+    s3Key: `media/${id}.jpg`,
+    s3Bucket: 'bucket',
+    url: `https://bucket/media/${id}.jpg`,
+    mimeType: 'image/jpeg',
+    fileSize: 1000,
+  });
+  return Object.assign(media, { id });
+}
+
+function setup(mediaIds: string[] = ['a', 'b'], coverMediaId?: string) {
+  const state = {
+    album: new Album('album-1', 'group-1', 'Ceremony', 'alice', mediaIds, undefined, coverMediaId),
+  };
+  const withChanges = (changes: Partial<Pick<Album, 'mediaIds' | 'coverMediaId'>>): Album => {
+    const { album } = state;
+    state.album = new Album(
+      album.id,
+      album.groupId,
+      album.name,
+      album.createdBy,
+      changes.mediaIds ?? album.mediaIds,
+      album.description,
+      'coverMediaId' in changes ? changes.coverMediaId : album.coverMediaId
+    );
+    return state.album;
+  };
+
+  const albumRepository = {
+    findById: async () => state.album,
+    addMedia: async (_id: string, ids: string[]) =>
+      withChanges({ mediaIds: [...state.album.mediaIds, ...ids.filter(id => !state.album.hasMedia(id))] }),
+    setMediaOrder: async (_id: string, ids: string[]) => withChanges({ mediaIds: ids }),
+    setCover: async (_id: string, id: string | null) => withChanges({ coverMediaId: id ?? undefined }),
+  } as unknown as IAlbumRepository;
+
+  const media = [photo('a'), photo('b'), photo('c'), photo('elsewhere', 'group-2')];
+  const mediaRepository = {
+    findByIds: async (ids: string[]) => media.filter(m => ids.includes(m.id)),
+  } as unknown as IMediaRepository;
+
+  const groupRepository = {
+    findByIdAndUserId: async (_groupId: string, userId: string) => {
+      const group = Group.create({ name: 'Wedding', creatorId: 'owner', inviteCode: 'ABC123' })
+        .addMember('alice', MemberRole.MEMBER)
+        .addMember('bob', MemberRole.MEMBER);
+      return group.isMember(userId) ? group : null;
+    },
+  } as unknown as IGroupRepository;
+
+  return {
+    add: new AddAlbumMediaUseCase(albumRepository, mediaRepository, groupRepository),
+    reorder: new ReorderAlbumMediaUseCase(albumRepository, groupRepository),
+    update: new UpdateAlbumUseCase(albumRepository, groupRepository),
+  };
+}
+
+describe('AddAlbumMediaUseCase', () => {
+  it('appends new media once, after the existing items', async () => {
+    const { add } = setup();
+
+    const album = await add.execute({ albumId: 'album-1', userId: 'alice', mediaIds: ['c', 'a', 'c'] });
+
+    expect(album.mediaIds).toEqual(['a', 'b', 'c']);
+  });
+
+  it('rejects media from another group', async () => {
+    const { add } = setup();
+
+    await expect(
+      add.execute({ albumId: 'album-1', userId: 'alice', mediaIds: ['c', 'elsewhere'] })
+    ).rejects.toThrow('Some media were not found in this group');
+  });
+
+  it('lets group admins but not other members change the album', async () => {
+    const { add } = setup();
+
+    await expect(add.execute({ albumId: 'album-1', userId: 'bob', mediaIds: ['c'] })).rejects.toThrow(
+      'Only the album creator or a group admin can change this album'
+    );
+    await expect(add.execute({ albumId: 'album-1', userId: 'owner', mediaIds: ['c'] })).resolves.toBeDefined();
+    await expect(add.execute({ albumId: 'album-1', userId: 'stranger', mediaIds: ['c'] })).rejects.toThrow(
+      'You do not have access to this album'
+    );
+  });
+});
+
+describe('ReorderAlbumMediaUseCase', () => {
+  it('saves a new order of the same items', async () => {
+    const { reorder } = setup(['a', 'b', 'c']);
+
+    const album = await reorder.execute({ albumId: 'album-1', userId: 'alice', mediaIds: ['c', 'a', 'b'] });
+
+    expect(album.mediaIds).toEqual(['c', 'a', 'b']);
+  });
+
+  it('rejects an order that drops or repeats items', async () => {
+    const { reorder } = setup(['a', 'b', 'c']);
+
+    await expect(
+      reorder.execute({ albumId: 'album-1', userId: 'alice', mediaIds: ['a', 'b'] })
+    ).rejects.toThrow('The new order must contain exactly the media in the album');
+    await expect(
+      reorder.execute({ albumId: 'album-1', userId: 'alice', mediaIds: ['a', 'a', 'b'] })
+    ).rejects.toThrow('The new order must contain exactly the media in the album');
+  });
+});
+
+describe('Album covers', () => {
+  it('pins a cover from the album and falls back to the first item when cleared', async () => {
+    const { update } = setup(['a', 'b']);
+
+    const pinned = await update.execute({ albumId: 'album-1', userId: 'alice', coverMediaId: 'b' });
+    expect(pinned.coverId()).toBe('b');
+
+    const cleared = await update.execute({ albumId: 'album-1', userId: 'alice', coverMediaId: null });
+    expect(cleared.coverId()).toBe('a');
+  });
+
+  it('rejects a cover that is not in the album', async () => {
+    const { update } = setup(['a', 'b']);
+
+    await expect(update.execute({ albumId: 'album-1', userId: 'alice', coverMediaId: 'c' })).rejects.toThrow(
+      'The cover must be a photo in this album'
+    );
+  });
+
+  it('ignores a pinned cover that was taken out of the album', () => {
+    const album = new Album('album-1', 'group-1', 'Ceremony', 'alice', ['a', 'b'], undefined, 'gone');
+
+    expect(album.coverId()).toBe('a');
+  });
+});
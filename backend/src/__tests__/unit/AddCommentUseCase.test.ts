@@ -0,0 +1,184 @@
+import { describe, it, expect } from '@jest/globals';
+import { AddCommentUseCase } from '../../core/use-cases/AddCommentUseCase.js';
+import { DeleteCommentUseCase } from '../../core/use-cases/DeleteCommentUseCase.js';
+import { ToggleReactionUseCase } from '../../core/use-cases/ToggleReactionUseCase.js';
+import { RecordActivityUseCase } from '../../core/use-cases/RecordActivityUseCase.js';
+import { Comment } from '../../core/entities/Comment.js';
+import { Reaction } from '../../core/entities/Reaction.js';
+import { Media } from '../../core/entities/Media.js';
+import { Group } from '../../core/entities/Group.js';
+import { ICommentRepository, IReactionRepository } from '../../core/interfaces/repositories/ICommentRepository.js';
+import { IMediaRepository } from '../../core/interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import { ActivityType, MemberRole } from '../../shared/constants/index.js';
+
+function comment(id: string, authorId: string, options: { parentId?: string; deleted?: boolean } = {}): Comment {
+  return new Comment(
+    id,
+    'media-1',
+    'group-1',
+    authorId,
+    options.deleted ? '' : 'Great shot',
+    options.parentId,
+    undefined,
+    options.deleted ? new Date() : undefined,
+    options.deleted ? authorId : undefined
+  );
+}
+
+function setup(existing: Comment[] = []) {
+  const comments = new Map(existing.map(c => [c.id, c]));
+  const activities: string[] = [];
+
+  const commentRepository = {
+    create: async (created: Comment) => {
+      const saved = Object.assign(created, { id: `comment-${comments.size + 1}` });
+      comments.set(saved.id, saved);
+      return saved;
+    },
+    findById: async (id: string) => comments.get(id) ?? null,
+    countReplies: async (id: string) => [...comments.values()].filter(c => c.parentId === id).length,
+    softDelete: async (id: string, deletedBy: string) =>
+      Object.assign(comments.get(id)!, { body: '', deletedAt: new Date(), deletedBy }),
+    delete: async (id: string) => comments.delete(id),
+  } as unknown as ICommentRepository;
+
+  const media = Object.assign(
+    Media.create({
+      groupId: 'group-1',
+      uploaderId: 'owner',
+      filename: 'beach.jpg',
+      originalName: 'beach.jpg',
+      s3Key: 'media/beach.jpg',
+      s3Bucket: 'bucket',
+      url: 'https://bucket/media/beach.jpg',
+      mimeType: 'image/jpeg',
+      fileSize: 1000,
+    }),
+    { id: 'media-1' }
+  );
+  const mediaRepository = { findById: async () => media } as unknown as IMediaRepository;
+
+  const groupRepository = {
+    findByIdAndUserId: async (_groupId: string, userId: string) => {
+      const group = Group.create({ name: 'Trip', creatorId: 'owner', inviteCode: 'ABC123' })
+        .addMember('alice', MemberRole.MEMBER)
+        .addMember('bob', MemberRole.MEMBER);
+      return group.isMember(userId) ? group : null;
+    },
+  } as unknown as IGroupRepository;
+
+  const recordActivityUseCase = {
+    execute: async (dto: { type: string }) => {
+      activities.push(dto.type);
+    },
+  } as unknown as RecordActivityUseCase;
+
+  return {
+    add: new AddCommentUseCase(commentRepository, mediaRepository, groupRepository, recordActivityUseCase),
+    remove: new DeleteCommentUseCase(commentRepository, groupRepository, recordActivityUseCase),
+    mediaRepository,
+    groupRepository,
+    recordActivityUseCase,
+    comments,
+    activities,
+  };
+}
+
+describe('AddCommentUseCase', () => {
+  it('puts a reply to a reply under the top-level comment', async () => {
+    const { add, activities } = setup([comment('top', 'alice'), comment('reply', 'bob', { parentId: 'top' })]);
+
+    const reply = await add.execute({ mediaId: 'media-1', userId: 'owner', body: ' Agreed ', parentId: 'reply' });
+
+    expect(reply.parentId).toBe('top');
+    expect(reply.body).toBe('Agreed');
+    expect(activities).toEqual([ActivityType.COMMENT_ADDED]);
+  });
+
+  it('rejects replies to deleted comments and empty comments', async () => {
+    const { add } = setup([comment('gone', 'alice', { deleted: true })]);
+
+    await expect(add.execute({ mediaId: 'media-1', userId: 'bob', body: 'Hi', parentId: 'gone' })).rejects.toThrow(
+      'The comment you are replying to no longer exists'
+    );
+    await expect(add.execute({ mediaId: 'media-1', userId: 'bob', body: '   ' })).rejects.toThrow(
+      'Comment cannot be empty'
+    );
+  });
+});
+
+describe('DeleteCommentUseCase', () => {
+  it('keeps a comment with replies as a placeholder', async () => {
+    const { remove, comments } = setup([comment('top', 'alice'), comment('reply', 'bob', { parentId: 'top' })]);
+
+    await remove.execute({ commentId: 'top', userId: 'alice' });
+
+    expect(comments.get('top')?.isDeleted()).toBe(true);
+    expect(comments.has('reply')).toBe(true);
+  });
+
+  it('removes a placeholder together with its last reply', async () => {
+    const { remove, comments } = setup([
+      comment('top', 'alice', { deleted: true }),
+      comment('reply', 'bob', { parentId: 'top' }),
+    ]);
+
+    await remove.execute({ commentId: 'reply', userId: 'bob' });
+
+    expect(comments.size).toBe(0);
+  });
+
+  it('lets admins moderate and records it, but not other members', async () => {
+    const { remove, comments, activities } = setup([comment('top', 'alice')]);
+
+    await expect(remove.execute({ commentId: 'top', userId: 'bob' })).rejects.toThrow(
+      'You can only delete your own comments'
+    );
+    await remove.execute({ commentId: 'top', userId: 'owner' });
+
+    expect(comments.size).toBe(0);
+    expect(activities).toEqual([ActivityType.COMMENT_REMOVED]);
+  });
+});
+
+describe('ToggleReactionUseCase', () => {
+  function setupReactions() {
+    const { mediaRepository, groupRepository, recordActivityUseCase, activities } = setup();
+    const reactions = new Set<string>();
+    const reactionRepository = {
+      remove: async (_mediaId: string, userId: string, emoji: string) => reactions.delete(`${userId}:${emoji}`),
+      add: async (reaction: Reaction) => {
+        reactions.add(`${reaction.userId}:${reaction.emoji}`);
+        return true;
+      },
+      summarizeByMediaIds: async () => ({
+        'media-1': [...reactions].map(key => ({ emoji: key.split(':')[1], count: 1, reacted: true })),
+      }),
+    } as unknown as IReactionRepository;
+
+    return {
+      useCase: new ToggleReactionUseCase(reactionRepository, mediaRepository, groupRepository, recordActivityUseCase),
+      activities,
+    };
+  }
+
+  it('adds a reaction and takes it back on the second toggle', async () => {
+    const { useCase, activities } = setupReactions();
+
+    const added = await useCase.execute({ mediaId: 'media-1', userId: 'alice', emoji: '🔥' });
+    const removed = await useCase.execute({ mediaId: 'media-1', userId: 'alice', emoji: '🔥' });
+
+    expect(added).toEqual([{ emoji: '🔥', count: 1, reacted: true }]);
+    expect(removed).toEqual([]);
+    expect(activities).toEqual([ActivityType.MEDIA_REACTED]);
+  });
+
+  it('rejects emoji outside the reaction set', async () => {
+    const { useCase } = setupReactions();
+
+    await expect(useCase.execute({ mediaId: 'media-1', userId: 'alice', emoji: '🍕' })).rejects.toThrow(
+      'Unsupported reaction'
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { BackfillDerivativesUseCase } from '../../core/use-cases/BackfillDerivativesUseCase.js';
+import { Media } from '../../core/entities/Media.js';
+import { Group } from '../../core/entities/Group.js';
+import { IMediaRepository } from '../../core/interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import { IQueueService } from '../../core/interfaces/services/IQueueService.js';
+import { QUEUE_NAMES, MemberRole } from '../../shared/constants/index.js';
+
+function photo(id: string): Media {
+  const media = Media.create({
+    groupId: 'group-1',
+    uploaderId: 'owner',
+    filename: `${id}.jpg`,
+    originalName: `${id}.jpg`,
+    s3Key: `media/${id}.jpg`,
+    s3Bucket: 'bucket',
+    url: `https://bucket/media/${id}.jpg`,
+    mimeType: 'image/jpeg',
+    fileSize: 1000,
+  });
+  return Object.assign(media, { id });
+}
+
+function setup(mediaCount: number) {
+  const jobs: Array<{ queueName: string; mediaIds: string[] }> = [];
+
+  const mediaRepository = {
+    findWithoutDerivatives: async () => Array.from({ length: mediaCount }, (_, i) => photo(`media-${i}`)),
+  } as unknown as IMediaRepository;
+  const groupRepository = {
+    findById: async () =>
+      Group.create({ name: 'Trip', creatorId: 'owner', inviteCode: 'ABC123' }).addMember('alice', MemberRole.MEMBER),
+  } as unknown as IGroupRepository;
+  const queueService = {
+    addJob: async (queueName: string, _jobType: string, data: { mediaIds: string[] }) => {
+      jobs.push({ queueName, mediaIds: data.mediaIds });
+      return `job-${jobs.length}`;
+    },
+  } as unknown as IQueueService;
+
+  return {
+    useCase: new BackfillDerivativesUseCase(mediaRepository, groupRepository, queueService),
+    jobs,
+  };
+}
+
+describe('BackfillDerivativesUseCase', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('queues media without derivatives in batches', async () => {
+    const { useCase, jobs } = setup(120);
+
+    const result = await useCase.execute({ groupId: 'group-1', userId: 'owner' });
+
+    expect(result).toEqual({ jobIds: ['job-1', 'job-2', 'job-3'], queuedCount: 120 });
+    expect(jobs.map(job => job.mediaIds.length)).toEqual([50, 50, 20]);
+    expect(jobs.every(job => job.queueName === QUEUE_NAMES.MEDIA_DERIVATIVES)).toBe(true);
+  });
+
+  it('queues nothing when every item already has derivatives', async () => {
+    const { useCase, jobs } = setup(0);
+
+    const result = await useCase.execute({ groupId: 'group-1', userId: 'owner' });
+
+    expect(result.queuedCount).toBe(0);
+    expect(jobs).toHaveLength(0);
+  });
+
+  it('rejects members who are not admins', async () => {
+    const { useCase, jobs } = setup(3);
+
+    await expect(useCase.execute({ groupId: 'group-1', userId: 'alice' })).rejects.toThrow(
+      'Only group admins can optimize media'
+    );
+    expect(jobs).toHaveLength(0);
+  });
+});
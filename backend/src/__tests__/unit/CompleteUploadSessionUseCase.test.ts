@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { CompleteUploadSessionUseCase } from '../../core/use-cases/CompleteUploadSessionUseCase.js';
+import { UploadMediaUseCase } from '../../core/use-cases/UploadMediaUseCase.js';
+import { RecordActivityUseCase } from '../../core/use-cases/RecordActivityUseCase.js';
+import { UploadSession } from '../../core/entities/UploadSession.js';
+import { Group } from '../../core/entities/Group.js';
+import { Media } from '../../core/entities/Media.js';
+import { IUploadSessionRepository } from '../../core/interfaces/repositories/IUploadSessionRepository.js';
+import { IMediaRepository } from '../../core/interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import { IStorageService } from '../../core/interfaces/services/IStorageService.js';
+import { IQueueService } from '../../core/interfaces/services/IQueueService.js';
+import { IMediaPreparationService } from '../../core/interfaces/services/IMediaPreparationService.js';
+import { QUEUE_NAMES, UploadSessionStatus, DEFAULTS, MediaType } from '../../shared/constants/index.js';
+
+const FILE = Buffer.alloc(3 * 1024, 7);
+const PART_SIZE = DEFAULTS.UPLOAD_PART_SIZE;
+
+function createSession(mimeType: string, originalName: string): UploadSession {
+  return new UploadSession(
+    'session-1',
+    'group-1',
+    'owner',
+    originalName,
+    mimeType,
+    FILE.length,
+    'uploads/group-1/clip',
+    'upload-1',
+    PART_SIZE,
+    [],
+    UploadSessionStatus.ACTIVE,
+    new Date(Date.now() + 60 * 60 * 1000)
+  );
+}
+
+function setup(options: { mimeType?: string; originalName?: string; existing?: Media[] } = {}) {
+  const session = createSession(options.mimeType ?? 'video/mp4', options.originalName ?? 'clip.mp4');
+  const parts = [{ partNumber: 1, etag: 'etag-1', size: FILE.length }];
+  const created: Media[] = [];
+  const queued: string[] = [];
+  const calls = { getObjectBuffer: 0, deleted: [] as string[], completed: false, aborted: false };
+
+  const uploadSessionRepository = {
+    findById: async () => session,
+    setCompletedParts: async () =>
+      new UploadSession(
+        session.id, session.groupId, session.userId, session.originalName, session.mimeType,
+        session.fileSize, session.s3Key, session.uploadId, session.partSize, parts,
+        session.status, session.expiresAt
+      ),
+    markCompleted: async () => { calls.completed = true; },
+    markAborted: async () => { calls.aborted = true; },
+  } as unknown as IUploadSessionRepository;
+
+  const storageService = {
+    listUploadedParts: async () => parts,
+    completeMultipartUpload: async (key: string) => ({ key, bucket: 'bucket', url: `https://bucket/${key}` }),
+    getFileStream: async () => Readable.from([FILE.subarray(0, 1024), FILE.subarray(1024)]),
+    getObjectBuffer: async () => {
+      calls.getObjectBuffer++;
+      return FILE;
+    },
+    deleteFile: async (key: string) => { calls.deleted.push(key); },
+  } as unknown as IStorageService;
+
+  const mediaRepository = {
+    findByContentHashes: async () => options.existing ?? [],
+    createMany: async (media: Media[]) => {
+      created.push(...media);
+      return media;
+    },
+  } as unknown as IMediaRepository;
+
+  const groupRepository = {
+    findById: async () => Group.create({ name: 'Trip', creatorId: 'owner', inviteCode: 'ABC123' }),
+    updateStorageUsed: async () => undefined,
+  } as unknown as IGroupRepository;
+
+  const queueService = {
+    addJob: async (queueName: string) => {
+      queued.push(queueName);
+      return `job-${queued.length}`;
+    },
+  } as unknown as IQueueService;
+
+  const mediaPreparationService = {
+    prepare: async () => {
+      throw new Error('Session uploads are prepared by the worker');
+    },
+  } as unknown as IMediaPreparationService;
+
+  const recordActivityUseCase = { execute: async () => undefined } as unknown as RecordActivityUseCase;
+
+  const uploadMediaUseCase = new UploadMediaUseCase(
+    mediaRepository,
+    groupRepository,
+    storageService,
+    queueService,
+    mediaPreparationService,
+    recordActivityUseCase
+  );
+
+  return {
+    useCase: new CompleteUploadSessionUseCase(uploadSessionRepository, storageService, uploadMediaUseCase),
+    created,
+    queued,
+    calls,
+  };
+}
+
+describe('CompleteUploadSessionUseCase', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('hashes the stored file as a stream and leaves preparation to the worker', async () => {
+    const { useCase, created, queued, calls } = setup();
+
+    const result = await useCase.execute({ sessionId: 'session-1', userId: 'owner' });
+
+    expect(calls.getObjectBuffer).toBe(0);
+    expect(created).toHaveLength(1);
+    expect(created[0].contentHash).toBe(createHash('sha256').update(FILE).digest('hex'));
+    expect(created[0].mediaType).toBe(MediaType.VIDEO);
+    expect(created[0].needsPreparation()).toBe(true);
+    expect(queued).toEqual([QUEUE_NAMES.MEDIA_PREPARATION]);
+    expect(result.jobId).toBe('job-1');
+    expect(calls.completed).toBe(true);
+  });
+
+  it('rejects an exact copy of media in the group and deletes the stored file', async () => {
+    const existing = Media.create({
+      groupId: 'group-1',
+      uploaderId: 'owner',
+      filename: 'clip.mp4',
+      originalName: 'clip.mp4',
+      s3Key: 'media/clip.mp4',
+      s3Bucket: 'bucket',
+      url: 'https://bucket/media/clip.mp4',
+      mimeType: 'video/mp4',
+      fileSize: FILE.length,
+    });
+    const { useCase, created, queued, calls } = setup({ existing: [existing] });
+
+    await expect(useCase.execute({ sessionId: 'session-1', userId: 'owner' })).rejects.toThrow(
+      'clip.mp4 is already in this group'
+    );
+
+    expect(created).toHaveLength(0);
+    expect(queued).toHaveLength(0);
+    expect(calls.deleted).toEqual(['uploads/group-1/clip']);
+    expect(calls.aborted).toBe(true);
+  });
+
+  it('marks HEIC uploads for conversion by the worker', async () => {
+    const { useCase, created } = setup({ mimeType: 'image/heic', originalName: 'IMG_0001.HEIC' });
+
+    await useCase.execute({ sessionId: 'session-1', userId: 'owner' });
+
+    expect(created[0].mediaType).toBe(MediaType.IMAGE);
+    expect(created[0].needsPreparation()).toBe(true);
+  });
+
+  it('does not hold back plain photos', async () => {
+    const { useCase, created } = setup({ mimeType: 'image/jpeg', originalName: 'beach.jpg' });
+
+    await useCase.execute({ sessionId: 'session-1', userId: 'owner' });
+
+    expect(created[0].needsPreparation()).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { FaceClusteringService } from '../../infrastructure/aws/FaceClusteringService.js';
+import { IFaceRecognitionService } from '../../core/interfaces/services/IFaceRecognitionService.js';
+import { FaceSimilarity } from '../../shared/types/index.js';
+
+function createService(searchResults: Record<string, FaceSimilarity[] | Error>): FaceClusteringService {
+  const recognitionService = {
+    searchFaces: async (_collectionId: string, faceId: string) => {
+      const result = searchResults[faceId];
+      if (result instanceof Error) throw result;
+      return result ?? [];
+    },
+  } as unknown as IFaceRecognitionService;
+
+  return new FaceClusteringService(recognitionService);
+}
+
+describe('FaceClusteringService.matchToExistingClusters', () => {
+  const clusteredFaces = new Map([
+    ['a1', 'cluster-a'],
+    ['a2', 'cluster-a'],
+    ['a3', 'cluster-a'],
+    ['b1', 'cluster-b'],
+    ['b2', 'cluster-b'],
+  ]);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('assigns a face to the cluster with the most matching members', async () => {
+    const service = createService({
+      new1: [
+        { faceId: 'b1', similarity: 99 },
+        { faceId: 'a1', similarity: 90 },
+        { faceId: 'a2', similarity: 88 },
+      ],
+    });
+
+    const result = await service.matchToExistingClusters('collection', ['new1'], clusteredFaces);
+
+    expect(result.matches).toEqual([{ faceId: 'new1', clusterId: 'cluster-a', similarity: 90 }]);
+    expect(result.unmatchedFaces).toEqual([]);
+  });
+
+  it('breaks ties by the best similarity', async () => {
+    const service = createService({
+      new1: [
+        { faceId: 'a1', similarity: 91 },
+        { faceId: 'b1', similarity: 97 },
+      ],
+    });
+
+    const result = await service.matchToExistingClusters('collection', ['new1'], clusteredFaces);
+
+    expect(result.matches).toEqual([{ faceId: 'new1', clusterId: 'cluster-b', similarity: 97 }]);
+  });
+
+  it('ignores matches with faces outside any cluster', async () => {
+    const service = createService({
+      new1: [
+        { faceId: 'loose1', similarity: 99 },
+        { faceId: 'loose2', similarity: 98 },
+        { faceId: 'b2', similarity: 85 },
+      ],
+      new2: [{ faceId: 'loose1', similarity: 99 }],
+    });
+
+    const result = await service.matchToExistingClusters('collection', ['new1', 'new2'], clusteredFaces);
+
+    expect(result.matches).toEqual([{ faceId: 'new1', clusterId: 'cluster-b', similarity: 85 }]);
+    expect(result.unmatchedFaces).toEqual(['new2']);
+  });
+
+  it('leaves faces unmatched when the search fails', async () => {
+    const service = createService({ new1: new Error('Throttled') });
+
+    const result = await service.matchToExistingClusters('collection', ['new1'], clusteredFaces);
+
+    expect(result.matches).toEqual([]);
+    expect(result.unmatchedFaces).toEqual(['new1']);
+  });
+
+  it('returns every face unmatched when nothing is clustered yet', async () => {
+    const service = createService({ new1: [{ faceId: 'a1', similarity: 99 }] });
+
+    const result = await service.matchToExistingClusters('collection', ['new1'], new Map());
+
+    expect(result).toEqual({ matches: [], unmatchedFaces: ['new1'] });
+  });
+});
+
+describe('FaceClusteringService.clusterFaces', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('groups a new face with a matching unassigned face', async () => {
+    const service = createService({
+      new1: [{ faceId: 'pooled1', similarity: 95 }],
+      pooled1: [{ faceId: 'new1', similarity: 95 }],
+    });
+
+    const result = await service.clusterFaces('collection', ['new1', 'pooled1'], 80, 2);
+
+    expect(result.clusters).toHaveLength(1);
+    expect(result.clusters[0].faceIds).toEqual(['new1', 'pooled1']);
+    expect(result.unclusteredFaces).toEqual([]);
+  });
+
+  it('does not link faces through a face outside the run', async () => {
+    const service = createService({
+      new1: [{ faceId: 'attached1', similarity: 95 }],
+      new2: [{ faceId: 'attached1', similarity: 95 }],
+    });
+
+    const result = await service.clusterFaces('collection', ['new1', 'new2'], 80, 2);
+
+    expect(result.clusters).toEqual([]);
+    expect(result.unclusteredFaces).toEqual(['new1', 'new2']);
+  });
+});
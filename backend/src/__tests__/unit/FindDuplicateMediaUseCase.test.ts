@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals';
+import { FindDuplicateMediaUseCase } from '../../core/use-cases/FindDuplicateMediaUseCase.js';
+import { RemoveDuplicateMediaUseCase } from '../../core/use-cases/RemoveDuplicateMediaUseCase.js';
+import { Media } from '../../core/entities/Media.js';
+import { Group } from '../../core/entities/Group.js';
+import { IMediaRepository } from '../../core/interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import { IMediaDeletionService } from '../../core/interfaces/services/IMediaDeletionService.js';
+
+function photo(
+  id: string,
+  options: { perceptualHash?: string; contentHash?: string; width?: number; fileSize?: number }
+): Media {
+  const media = Media.create({
+    groupId: 'group-1',
+    uploaderId: 'owner',
+    filename: `${id}.jpg`,
+    originalName: `${id}.jpg`,
+    s3Key: `media/${id}.jpg`,
+    s3Bucket: 'bucket',
+    url: `https://bucket/media/${id}.jpg`,
+    mimeType: 'image/jpeg',
+    fileSize: options.fileSize ?? 1000,
+    width: options.width ?? 100,
+    height: 100,
+    contentHash: options.contentHash,
+    perceptualHash: options.perceptualHash,
+  });
+  return Object.assign(media, { id });
+}
+
+function createFindUseCase(media: Media[]): FindDuplicateMediaUseCase {
+  const mediaRepository = {
+    findHashedByGroupId: async () => media,
+  } as unknown as IMediaRepository;
+  const groupRepository = {
+    findById: async () => Group.create({ name: 'Trip', creatorId: 'owner', inviteCode: 'ABC123' }),
+  } as unknown as IGroupRepository;
+
+  return new FindDuplicateMediaUseCase(mediaRepository, groupRepository);
+}
+
+// Each burst frame is 4 bits from the previous one, so the first and last are 8 bits apart
+const burst = [
+  photo('frame-1', { perceptualHash: '0000000000000000', width: 400 }),
+  photo('frame-2', { perceptualHash: '000000000000000f', width: 300 }),
+  photo('frame-3', { perceptualHash: '00000000000000ff', width: 200 }),
+];
+
+describe('FindDuplicateMediaUseCase', () => {
+  it('only puts media close to the keeper in its set', async () => {
+    const { sets } = await createFindUseCase(burst).execute({ groupId: 'group-1', userId: 'owner' });
+
+    expect(sets).toHaveLength(1);
+    expect(sets[0].keeperId).toBe('frame-1');
+    expect(sets[0].media.map(m => m.id)).toEqual(['frame-1', 'frame-2']);
+    expect(sets[0].exact).toBe(false);
+  });
+
+  it('keeps the highest resolution copy and groups exact copies', async () => {
+    const media = [
+      photo('small', { contentHash: 'abc', width: 100, fileSize: 500 }),
+      photo('large', { contentHash: 'abc', width: 800, fileSize: 900 }),
+      photo('other', { contentHash: 'def' }),
+    ];
+
+    const result = await createFindUseCase(media).execute({ groupId: 'group-1', userId: 'owner' });
+
+    expect(result.sets).toHaveLength(1);
+    expect(result.sets[0].keeperId).toBe('large');
+    expect(result.sets[0].exact).toBe(true);
+    expect(result.reclaimableBytes).toBe(500);
+  });
+
+  it('rejects members who are not admins', async () => {
+    await expect(createFindUseCase(burst).execute({ groupId: 'group-1', userId: 'guest' })).rejects.toThrow(
+      'Admin access required'
+    );
+  });
+});
+
+describe('RemoveDuplicateMediaUseCase', () => {
+  it('never deletes media that is only similar to another copy', async () => {
+    const deleted: string[] = [];
+    const mediaDeletionService = {
+      deleteMedia: async (_groupId: string, media: Media[]) => {
+        deleted.push(...media.map(m => m.id));
+        return { deletedCount: media.length, freedSpace: 0, affectedClusterIds: [] };
+      },
+    } as unknown as IMediaDeletionService;
+    const useCase = new RemoveDuplicateMediaUseCase(createFindUseCase(burst), mediaDeletionService);
+    const result = await useCase.execute({ groupId: 'group-1', userId: 'owner' });
+
+    expect(deleted).toEqual(['frame-2']);
+    expect(result.deletedCount).toBe(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from '@jest/globals';
+import { GetPersonMediaUseCase } from '../../core/use-cases/GetPersonMediaUseCase.js';
+import { LinkPersonClusterUseCase } from '../../core/use-cases/LinkPersonClusterUseCase.js';
+import { Person, PersonClusterLink } from '../../core/entities/Person.js';
+import { Media } from '../../core/entities/Media.js';
+import { FaceDetection } from '../../core/entities/FaceDetection.js';
+import { FaceCluster, FaceClusterMember } from '../../core/entities/FaceCluster.js';
+import { Group } from '../../core/entities/Group.js';
+import { IPersonRepository } from '../../core/interfaces/repositories/IPersonRepository.js';
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../../core/interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceDetectionRepository } from '../../core/interfaces/repositories/IFaceDetectionRepository.js';
+import { IMediaRepository } from '../../core/interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import { IStorageService } from '../../core/interfaces/services/IStorageService.js';
+
+// The user is still in the trip and family groups, but left the work group
+const groups = new Map(
+  [
+    ['trip', 'Trip'],
+    ['family', 'Family'],
+  ].map(([id, name]) => [id, Object.assign(Group.create({ name, creatorId: 'owner', inviteCode: 'ABC123' }), { id })])
+);
+
+function photo(id: string, groupId: string, takenAt: string): Media {
+  const media = Media.create({
+    groupId,
+    uploaderId: 'owner',
+    filename: `${id}.jpg`,
+    originalName: `${id}.jpg`,
+    s3Key: `media/${id}.jpg`,
+    s3Bucket: 'bucket',
+    url: `https://bucket/media/${id}.jpg`,
+    mimeType: 'image/jpeg',
+    fileSize: 1000,
+    takenAt: new Date(takenAt),
+  });
+  return Object.assign(media, { id });
+}
+
+function face(id: string, mediaId: string): FaceDetection {
+  const detection = FaceDetection.create({
+    mediaId,
+    rekognitionFaceId: `rek-${id}`,
+    boundingBox: { x: 0.1, y: 0.1, width: 0.2, height: 0.2 },
+    confidence: 99,
+  });
+  return Object.assign(detection, { id });
+}
+
+const media = [
+  photo('beach', 'trip', '2026-07-01'),
+  photo('birthday', 'family', '2026-09-01'),
+  photo('office', 'work', '2026-08-01'),
+];
+const faces = [face('f1', 'beach'), face('f2', 'birthday'), face('f3', 'office')];
+const clusters = [
+  new FaceCluster('c-trip', 'trip', 1, 0.9),
+  new FaceCluster('c-family', 'family', 1, 0.9),
+  new FaceCluster('c-work', 'work', 1, 0.9),
+];
+const members = [
+  new FaceClusterMember('m1', 'c-trip', 'f1', 0.9),
+  new FaceClusterMember('m2', 'c-family', 'f2', 0.9),
+  new FaceClusterMember('m3', 'c-work', 'f3', 0.9),
+];
+
+const links: PersonClusterLink[] = clusters.map(c => ({ clusterId: c.id, groupId: c.groupId }));
+const person = new Person('person-1', 'owner', 'Grandma', links);
+
+const personRepository = {
+  findById: async () => person,
+  addCluster: async (_id: string, link: PersonClusterLink) =>
+    new Person(person.id, person.ownerId, person.name, [...person.clusters, link]),
+} as unknown as IPersonRepository;
+const clusterRepository = {
+  findById: async (id: string) => clusters.find(c => c.id === id) ?? null,
+} as unknown as IFaceClusterRepository;
+const groupRepository = {
+  findByIdAndUserId: async (id: string) => groups.get(id) ?? null,
+} as unknown as IGroupRepository;
+
+describe('GetPersonMediaUseCase', () => {
+  const useCase = new GetPersonMediaUseCase(
+    personRepository,
+    clusterRepository,
+    {
+      findByClusterIds: async (ids: string[]) => members.filter(m => ids.includes(m.clusterId)),
+    } as unknown as IFaceClusterMemberRepository,
+    { findByIds: async (ids: string[]) => faces.filter(f => ids.includes(f.id)) } as unknown as IFaceDetectionRepository,
+    { findByIds: async (ids: string[]) => media.filter(m => ids.includes(m.id)) } as unknown as IMediaRepository,
+    groupRepository,
+    { getPresignedUrl: async (key: string) => `https://signed/${key}` } as unknown as IStorageService
+  );
+
+  it('combines the photos of groups the user is still in, newest first', async () => {
+    const result = await useCase.execute('person-1', 'owner');
+
+    expect(result.media.map(m => [m.id, m.groupName])).toEqual([
+      ['birthday', 'Family'],
+      ['beach', 'Trip'],
+    ]);
+    expect(result.pagination).toEqual({ page: 1, limit: 20, total: 2, totalPages: 1 });
+  });
+
+  it("hides other users' people", async () => {
+    await expect(useCase.execute('person-1', 'guest')).rejects.toThrow('Person not found');
+  });
+});
+
+describe('LinkPersonClusterUseCase', () => {
+  const useCase = new LinkPersonClusterUseCase(personRepository, clusterRepository, groupRepository);
+
+  it('does not link a cluster of a group the user is not in', async () => {
+    await expect(
+      useCase.execute({ personId: 'person-1', clusterId: 'c-work', userId: 'owner' })
+    ).rejects.toThrow('You do not have access to this cluster');
+  });
+
+  it('leaves a cluster that is already linked as it is', async () => {
+    const result = await useCase.execute({ personId: 'person-1', clusterId: 'c-trip', userId: 'owner' });
+
+    expect(result.clusters).toHaveLength(3);
+  });
+});
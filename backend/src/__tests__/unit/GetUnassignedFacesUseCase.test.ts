@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { GetUnassignedFacesUseCase } from '../../core/use-cases/GetUnassignedFacesUseCase.js';
+import { AssignFaceToClusterUseCase } from '../../core/use-cases/AssignFaceToClusterUseCase.js';
+import { FaceDetection } from '../../core/entities/FaceDetection.js';
+import { FaceCluster, FaceClusterMember } from '../../core/entities/FaceCluster.js';
+import { Group } from '../../core/entities/Group.js';
+import { Media } from '../../core/entities/Media.js';
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../../core/interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceDetectionRepository } from '../../core/interfaces/repositories/IFaceDetectionRepository.js';
+import { IMediaRepository } from '../../core/interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import { IStorageService } from '../../core/interfaces/services/IStorageService.js';
+
+const group = Object.assign(Group.create({ name: 'Trip', creatorId: 'owner', inviteCode: 'ABC123' }), {
+  id: 'group-1',
+});
+
+const photo = Object.assign(
+  Media.create({
+    groupId: 'group-1',
+    uploaderId: 'owner',
+    filename: 'beach.jpg',
+    originalName: 'beach.jpg',
+    s3Key: 'media/beach.jpg',
+    s3Bucket: 'bucket',
+    url: 'https://bucket/media/beach.jpg',
+    mimeType: 'image/jpeg',
+    fileSize: 1000,
+  }),
+  { id: 'media-1' }
+);
+
+function face(id: string, options: { processed?: boolean; qualityScore?: number } = {}): FaceDetection {
+  const detection = FaceDetection.create({
+    mediaId: 'media-1',
+    rekognitionFaceId: `rek-${id}`,
+    boundingBox: { x: 0.1, y: 0.1, width: 0.2, height: 0.2 },
+    confidence: 99,
+    qualityScore: options.qualityScore,
+  });
+  return Object.assign(detection, { id, processed: options.processed ?? true });
+}
+
+const faces = [
+  face('clustered', { qualityScore: 90 }),
+  face('single', { qualityScore: 60 }),
+  face('sharp', { qualityScore: 85 }),
+  face('blurry', { qualityScore: 5 }),
+  face('pending', { processed: false, qualityScore: 80 }),
+];
+
+function createRepositories() {
+  const members = [new FaceClusterMember('member-1', 'cluster-1', 'clustered', 0.95)];
+  const cluster = Object.assign(FaceCluster.create({ groupId: 'group-1', appearanceCount: 3, confidence: 0.9 }), {
+    id: 'cluster-1',
+  });
+  const updates: Partial<FaceCluster>[] = [];
+
+  return {
+    members,
+    updates,
+    faceClusterRepository: {
+      findById: async () => cluster,
+      update: async (_id: string, data: Partial<FaceCluster>) => {
+        updates.push(data);
+        return Object.assign(cluster, data);
+      },
+    } as unknown as IFaceClusterRepository,
+    faceClusterMemberRepository: {
+      findByFaceDetectionIds: async (ids: string[]) => members.filter(m => ids.includes(m.faceDetectionId)),
+      findByFaceDetectionId: async (id: string) => members.find(m => m.faceDetectionId === id) ?? null,
+      create: async (member: FaceClusterMember) => {
+        members.push(member);
+        return member;
+      },
+    } as unknown as IFaceClusterMemberRepository,
+    faceDetectionRepository: {
+      findByMediaIds: async () => faces,
+      findById: async (id: string) => faces.find(f => f.id === id) ?? null,
+    } as unknown as IFaceDetectionRepository,
+    mediaRepository: {
+      findByGroupId: async () => ({ data: [photo] }),
+      findById: async () => photo,
+    } as unknown as IMediaRepository,
+    groupRepository: {
+      findById: async () => group,
+      findByIdAndUserId: async () => group,
+    } as unknown as IGroupRepository,
+  };
+}
+
+describe('GetUnassignedFacesUseCase', () => {
+  it('lists processed faces outside any cluster, best quality first', async () => {
+    const repositories = createRepositories();
+    const useCase = new GetUnassignedFacesUseCase(
+      repositories.faceClusterMemberRepository,
+      repositories.faceDetectionRepository,
+      repositories.mediaRepository,
+      repositories.groupRepository,
+      { getPresignedUrl: async () => 'https://signed' } as unknown as IStorageService
+    );
+
+    const result = await useCase.execute('group-1', 'owner');
+
+    expect(result.map(f => f.id)).toEqual(['sharp', 'single']);
+  });
+});
+
+describe('AssignFaceToClusterUseCase', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  function createUseCase(repositories: ReturnType<typeof createRepositories>) {
+    return new AssignFaceToClusterUseCase(
+      repositories.faceClusterRepository,
+      repositories.faceClusterMemberRepository,
+      repositories.faceDetectionRepository,
+      repositories.mediaRepository,
+      repositories.groupRepository
+    );
+  }
+
+  it('adds an unassigned face to the cluster', async () => {
+    const repositories = createRepositories();
+
+    const cluster = await createUseCase(repositories).execute({
+      groupId: 'group-1',
+      faceDetectionId: 'single',
+      clusterId: 'cluster-1',
+      userId: 'owner',
+    });
+
+    expect(cluster.appearanceCount).toBe(4);
+    expect(repositories.members.map(m => m.faceDetectionId)).toEqual(['clustered', 'single']);
+  });
+
+  it('refuses a face that already belongs to a cluster', async () => {
+    const repositories = createRepositories();
+
+    await expect(
+      createUseCase(repositories).execute({
+        groupId: 'group-1',
+        faceDetectionId: 'clustered',
+        clusterId: 'cluster-1',
+        userId: 'owner',
+      })
+    ).rejects.toThrow('Face is already assigned to a cluster');
+    expect(repositories.updates).toHaveLength(0);
+  });
+
+  it('only lets admins assign faces', async () => {
+    await expect(
+      createUseCase(createRepositories()).execute({
+        groupId: 'group-1',
+        faceDetectionId: 'single',
+        clusterId: 'cluster-1',
+        userId: 'guest',
+      })
+    ).rejects.toThrow('Only group admins can assign faces to clusters');
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from '@jest/globals';
+import { Group } from '../../core/entities/Group.js';
+import { MemberRole } from '../../shared/constants/index.js';
+
+function createGroup(): Group {
+  return Group.create({ name: 'Trip', creatorId: 'owner', inviteCode: 'ABC123' })
+    .addMember('admin', MemberRole.ADMIN)
+    .addMember('member', MemberRole.MEMBER);
+}
+
+describe('Group.transferOwnership', () => {
+  it('hands the group to another admin and keeps the previous owner as admin', () => {
+    const group = createGroup();
+
+    const transferred = group.transferOwnership('admin');
+
+    expect(transferred.creatorId).toBe('admin');
+    expect(transferred.isAdmin('owner')).toBe(true);
+    expect(transferred.members).toHaveLength(3);
+    expect(group.creatorId).toBe('owner');
+  });
+
+  it('rejects the current owner', () => {
+    expect(() => createGroup().transferOwnership('owner')).toThrow('This member already owns the group');
+  });
+
+  it('rejects someone outside the group', () => {
+    expect(() => createGroup().transferOwnership('stranger')).toThrow(
+      'The new owner must be a member of the group'
+    );
+  });
+
+  it('rejects a member who is not an admin', () => {
+    expect(() => createGroup().transferOwnership('member')).toThrow(
+      'Make the new owner an admin before transferring ownership'
+    );
+  });
+});
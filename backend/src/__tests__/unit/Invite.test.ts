@@ -0,0 +1,59 @@
+import { describe, it, expect } from '@jest/globals';
+import { Invite, InviteUse } from '../../core/entities/Invite.js';
+import { MemberRole } from '../../shared/constants/index.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function invite(options: { uses?: number; maxUses?: number; expiresAt?: Date; revokedAt?: Date } = {}): Invite {
+  const uses: InviteUse[] = Array.from({ length: options.uses ?? 0 }, (_, i) => ({
+    userId: `user-${i}`,
+    usedAt: new Date(),
+  }));
+
+  return new Invite(
+    'invite-1',
+    'group-1',
+    'FAMILY20',
+    'owner',
+    MemberRole.VIEWER,
+    uses,
+    'Extended family',
+    options.expiresAt,
+    options.maxUses,
+    options.revokedAt
+  );
+}
+
+describe('Invite.status', () => {
+  it('is active without limits', () => {
+    expect(invite().status()).toBe('active');
+    expect(invite().isUsable()).toBe(true);
+    expect(invite().remainingUses()).toBeUndefined();
+  });
+
+  it('is active while uses remain and before expiry', () => {
+    const active = invite({ uses: 19, maxUses: 20, expiresAt: new Date(Date.now() + DAY) });
+    expect(active.status()).toBe('active');
+    expect(active.remainingUses()).toBe(1);
+  });
+
+  it('is exhausted once every use is taken', () => {
+    const exhausted = invite({ uses: 20, maxUses: 20 });
+    expect(exhausted.status()).toBe('exhausted');
+    expect(exhausted.remainingUses()).toBe(0);
+    expect(exhausted.isUsable()).toBe(false);
+  });
+
+  it('is expired after its expiry date', () => {
+    expect(invite({ expiresAt: new Date(Date.now() - DAY) }).status()).toBe('expired');
+  });
+
+  it('reports revoked before expired or exhausted', () => {
+    const revoked = invite({ uses: 20, maxUses: 20, expiresAt: new Date(Date.now() - DAY), revokedAt: new Date() });
+    expect(revoked.status()).toBe('revoked');
+  });
+
+  it('reports expired before exhausted', () => {
+    expect(invite({ uses: 20, maxUses: 20, expiresAt: new Date(Date.now() - DAY) }).status()).toBe('expired');
+  });
+});
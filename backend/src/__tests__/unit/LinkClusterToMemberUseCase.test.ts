@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { LinkClusterToMemberUseCase } from '../../core/use-cases/LinkClusterToMemberUseCase.js';
+import { FaceCluster } from '../../core/entities/FaceCluster.js';
+import { Group } from '../../core/entities/Group.js';
+import { IFaceClusterRepository } from '../../core/interfaces/repositories/IFaceClusterRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import { MemberRole } from '../../shared/constants/index.js';
+
+const group = Group.create({ name: 'Trip', creatorId: 'owner', inviteCode: 'ABC123' })
+  .addMember('alice', MemberRole.MEMBER)
+  .addMember('bob', MemberRole.MEMBER);
+
+function setup(linkedUsers: Record<string, string | undefined>) {
+  const clusters = new Map(
+    Object.entries(linkedUsers).map(([id, linkedUserId]) => [
+      id,
+      new FaceCluster(id, group.id, 3, 0.9, undefined, linkedUserId),
+    ])
+  );
+
+  const faceClusterRepository = {
+    findById: async (id: string) => clusters.get(id) ?? null,
+    findByLinkedUser: async (_groupId: string, userId: string) =>
+      [...clusters.values()].find(c => c.linkedUserId === userId) ?? null,
+    setLinkedUser: async (id: string, userId: string | null) => {
+      const updated = clusters.get(id)!.linkToUser(userId ?? undefined);
+      clusters.set(id, updated);
+      return updated;
+    },
+  } as unknown as IFaceClusterRepository;
+
+  const groupRepository = {
+    findByIdAndUserId: async (_groupId: string, userId: string) => (group.isMember(userId) ? group : null),
+  } as unknown as IGroupRepository;
+
+  return new LinkClusterToMemberUseCase(faceClusterRepository, groupRepository);
+}
+
+describe('LinkClusterToMemberUseCase', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('lets a member claim an unclaimed cluster as themselves', async () => {
+    const useCase = setup({ 'cluster-1': undefined });
+
+    const cluster = await useCase.execute({ clusterId: 'cluster-1', memberUserId: 'alice', userId: 'alice' });
+
+    expect(cluster.linkedUserId).toBe('alice');
+  });
+
+  it('does not let a member claim a cluster someone else claimed', async () => {
+    const useCase = setup({ 'cluster-1': 'bob' });
+
+    await expect(
+      useCase.execute({ clusterId: 'cluster-1', memberUserId: 'alice', userId: 'alice' })
+    ).rejects.toThrow('This person has already been claimed by another member');
+  });
+
+  it('only lets admins link a cluster to another member', async () => {
+    const useCase = setup({ 'cluster-1': undefined });
+
+    await expect(
+      useCase.execute({ clusterId: 'cluster-1', memberUserId: 'bob', userId: 'alice' })
+    ).rejects.toThrow('Only group admins can link a cluster to another member');
+
+    const cluster = await useCase.execute({ clusterId: 'cluster-1', memberUserId: 'bob', userId: 'owner' });
+    expect(cluster.linkedUserId).toBe('bob');
+  });
+
+  it('links a member to at most one cluster in the group', async () => {
+    const useCase = setup({ 'cluster-1': 'alice', 'cluster-2': undefined });
+
+    await expect(
+      useCase.execute({ clusterId: 'cluster-2', memberUserId: 'alice', userId: 'owner' })
+    ).rejects.toThrow('This member is already linked to another person in this group');
+  });
+
+  it('lets members release only their own claim', async () => {
+    const useCase = setup({ 'cluster-1': 'bob', 'cluster-2': 'alice' });
+
+    await expect(
+      useCase.execute({ clusterId: 'cluster-1', memberUserId: null, userId: 'alice' })
+    ).rejects.toThrow('Only group admins can unlink another member');
+
+    const cluster = await useCase.execute({ clusterId: 'cluster-2', memberUserId: null, userId: 'alice' });
+    expect(cluster.linkedUserId).toBeUndefined();
+  });
+});
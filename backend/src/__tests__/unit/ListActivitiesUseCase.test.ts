@@ -0,0 +1,131 @@
+import { describe, it, expect } from '@jest/globals';
+import { ListActivitiesUseCase } from '../../core/use-cases/ListActivitiesUseCase.js';
+import { Activity } from '../../core/entities/Activity.js';
+import { Group } from '../../core/entities/Group.js';
+import { User } from '../../core/entities/User.js';
+import { IActivityRepository, ActivityCursor } from '../../core/interfaces/repositories/IActivityRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import { IUserRepository } from '../../core/interfaces/repositories/IUserRepository.js';
+import { ActivityType } from '../../shared/constants/index.js';
+import { ActivityTypeType } from '../../shared/types/index.js';
+
+const GROUP_ID = 'group-1';
+const MINUTE = 60 * 1000;
+const START = new Date('2024-06-01T12:00:00Z').getTime();
+
+let nextId = 0;
+
+function activity(
+  userId: string,
+  type: ActivityTypeType,
+  minutesAgo: number,
+  metadata: Record<string, unknown> = {}
+): Activity {
+  const id = (++nextId).toString(16).padStart(24, '0');
+  return new Activity(id, GROUP_ID, userId, type, metadata, new Date(START - minutesAgo * MINUTE));
+}
+
+function createUseCase(activities: Activity[]): ListActivitiesUseCase {
+  const newestFirst = [...activities].sort(
+    (a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id.localeCompare(a.id)
+  );
+
+  const activityRepository = {
+    findByGroupId: async (_groupId: string, limit: number, before?: ActivityCursor) =>
+      newestFirst
+        .filter(
+          a =>
+            !before ||
+            a.createdAt < before.createdAt ||
+            (a.createdAt.getTime() === before.createdAt.getTime() && a.id < before.id)
+        )
+        .slice(0, limit),
+  } as unknown as IActivityRepository;
+
+  const groupRepository = {
+    findByIdAndUserId: async () => Group.create({ name: 'Trip', creatorId: 'sam', inviteCode: 'ABC123' }),
+  } as unknown as IGroupRepository;
+
+  const userRepository = {
+    findByClerkId: async (clerkId: string) => new User('user-' + clerkId, clerkId, `${clerkId}@example.com`, clerkId),
+  } as unknown as IUserRepository;
+
+  return new ListActivitiesUseCase(activityRepository, groupRepository, userRepository);
+}
+
+describe('ListActivitiesUseCase', () => {
+  it('combines uploads by one member that follow each other closely', async () => {
+    const useCase = createUseCase([
+      activity('sam', ActivityType.MEDIA_UPLOADED, 0, { mediaCount: 3 }),
+      activity('sam', ActivityType.MEDIA_UPLOADED, 20, { mediaCount: 2 }),
+      activity('sam', ActivityType.MEDIA_UPLOADED, 50, { mediaCount: 5 }),
+    ]);
+
+    const page = await useCase.execute({ groupId: GROUP_ID, userId: 'sam', limit: 10 });
+
+    expect(page.activities).toHaveLength(1);
+    expect(page.activities[0].count).toBe(3);
+    expect(page.activities[0].metadata.mediaCount).toBe(10);
+    expect(page.activities[0].title).toBe('sam uploaded 10 photos');
+    expect(page.activities[0].startedAt).toEqual(new Date(START - 50 * MINUTE));
+    expect(page.hasMore).toBe(false);
+  });
+
+  it('starts a new entry for another member, another type or a long gap', async () => {
+    const useCase = createUseCase([
+      activity('sam', ActivityType.MEDIA_UPLOADED, 0, { mediaCount: 1 }),
+      activity('alex', ActivityType.MEDIA_UPLOADED, 5, { mediaCount: 1 }),
+      activity('alex', ActivityType.COMMENT_ADDED, 10),
+      activity('alex', ActivityType.COMMENT_ADDED, 200),
+    ]);
+
+    const page = await useCase.execute({ groupId: GROUP_ID, userId: 'sam', limit: 10 });
+
+    expect(page.activities.map(entry => entry.title)).toEqual([
+      'sam uploaded 1 photo',
+      'alex uploaded 1 photo',
+      'alex left a comment',
+      'alex left a comment',
+    ]);
+  });
+
+  it('never combines activities outside the grouped types', async () => {
+    const useCase = createUseCase([
+      activity('sam', ActivityType.MEMBER_JOINED, 0),
+      activity('sam', ActivityType.MEMBER_JOINED, 1),
+    ]);
+
+    const page = await useCase.execute({ groupId: GROUP_ID, userId: 'sam', limit: 10 });
+
+    expect(page.activities).toHaveLength(2);
+  });
+
+  it('continues from the cursor without splitting or repeating entries', async () => {
+    const activities = [
+      activity('sam', ActivityType.MEMBER_JOINED, 0),
+      activity('alex', ActivityType.MEDIA_UPLOADED, 10, { mediaCount: 1 }),
+      activity('alex', ActivityType.MEDIA_UPLOADED, 20, { mediaCount: 1 }),
+      activity('sam', ActivityType.COMMENT_ADDED, 30),
+      activity('alex', ActivityType.MEMBER_JOINED, 40),
+    ];
+    const useCase = createUseCase(activities);
+
+    const first = await useCase.execute({ groupId: GROUP_ID, userId: 'sam', limit: 2 });
+    expect(first.activities.map(entry => entry.count)).toEqual([1, 2]);
+    expect(first.hasMore).toBe(true);
+    expect(first.nextCursor).toBeDefined();
+
+    const second = await useCase.execute({ groupId: GROUP_ID, userId: 'sam', limit: 2, cursor: first.nextCursor });
+    expect(second.activities.map(entry => entry.id)).toEqual([activities[3].id, activities[4].id]);
+    expect(second.hasMore).toBe(false);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('rejects a malformed cursor', async () => {
+    const useCase = createUseCase([]);
+
+    await expect(
+      useCase.execute({ groupId: GROUP_ID, userId: 'sam', limit: 10, cursor: 'not-a-cursor' })
+    ).rejects.toThrow('Invalid cursor');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from '@jest/globals';
+import { MediaDeletionService } from '../../core/services/MediaDeletionService.js';
+import { Media } from '../../core/entities/Media.js';
+import { Activity } from '../../core/entities/Activity.js';
+import { IMediaRepository } from '../../core/interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import { IFaceDetectionRepository } from '../../core/interfaces/repositories/IFaceDetectionRepository.js';
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../../core/interfaces/repositories/IFaceClusterRepository.js';
+import { IAlbumRepository } from '../../core/interfaces/repositories/IAlbumRepository.js';
+import { ICommentRepository, IReactionRepository } from '../../core/interfaces/repositories/ICommentRepository.js';
+import { IFavoriteRepository, IHighlightRepository } from '../../core/interfaces/repositories/IFavoriteRepository.js';
+import { IActivityRepository } from '../../core/interfaces/repositories/IActivityRepository.js';
+import { IStorageService } from '../../core/interfaces/services/IStorageService.js';
+import { ActivityType } from '../../shared/constants/index.js';
+
+function photo(id: string): Media {
+  const media = Media.create({
+    groupId: 'group-1',
+    uploaderId: 'owner',
+    filename: `${id}.jpg`,
+    originalName: `${id}.jpg`,
+    s3Key: `media/${id}.jpg`,
+    s3Bucket: 'bucket',
+    url: `https://bucket/media/${id}.jpg`,
+    mimeType: 'image/jpeg',
+    fileSize: 1000,
+  });
+  return Object.assign(media, { id });
+}
+
+function setup() {
+  const activities: Activity[] = [];
+  const byMediaId = { deleteByMediaId: async () => undefined };
+
+  const service = new MediaDeletionService(
+    { delete: async () => true } as unknown as IMediaRepository,
+    { updateStorageUsed: async () => undefined } as unknown as IGroupRepository,
+    { findByMediaIds: async () => [] } as unknown as IFaceDetectionRepository,
+    {} as unknown as IFaceClusterRepository,
+    {} as unknown as IFaceClusterMemberRepository,
+    { removeMediaFromAll: async () => undefined } as unknown as IAlbumRepository,
+    byMediaId as unknown as ICommentRepository,
+    byMediaId as unknown as IReactionRepository,
+    byMediaId as unknown as IFavoriteRepository,
+    byMediaId as unknown as IHighlightRepository,
+    {
+      create: async (activity: Activity) => {
+        activities.push(activity);
+        return activity;
+      },
+    } as unknown as IActivityRepository,
+    { deleteFiles: async () => undefined } as unknown as IStorageService
+  );
+
+  return { service, activities };
+}
+
+describe('MediaDeletionService', () => {
+  it('records one feed entry for the deletion', async () => {
+    const { service, activities } = setup();
+
+    const result = await service.deleteMedia('group-1', [photo('a'), photo('b')], { userId: 'owner', reason: 'cluster' });
+
+    expect(result).toEqual({ deletedCount: 2, freedSpace: 2000, affectedClusterIds: [] });
+    expect(activities).toHaveLength(1);
+    expect(activities[0].type).toBe(ActivityType.MEDIA_DELETED);
+    expect(activities[0].userId).toBe('owner');
+    expect(activities[0].metadata).toEqual({ mediaCount: 2, reason: 'cluster' });
+  });
+
+  it('names the item when a single one is deleted', async () => {
+    const { service, activities } = setup();
+
+    await service.deleteMedia('group-1', [photo('a')], { userId: 'owner' });
+
+    expect(activities[0].metadata).toEqual({ mediaCount: 1, originalName: 'a.jpg' });
+  });
+
+  it('records nothing when an account is erased', async () => {
+    const { service, activities } = setup();
+
+    await service.deleteMedia('group-1', [photo('a')], null);
+
+    expect(activities).toHaveLength(0);
+  });
+});
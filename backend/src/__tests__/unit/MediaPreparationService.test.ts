@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { MediaPreparationService } from '../../core/services/MediaPreparationService.js';
+import { IStorageService } from '../../core/interfaces/services/IStorageService.js';
+import { IVideoProcessingService, VideoMetadata } from '../../core/interfaces/services/IVideoProcessingService.js';
+import { IImageProcessingService } from '../../core/interfaces/services/IImageProcessingService.js';
+import { MediaType } from '../../shared/constants/index.js';
+
+const POSTER = Buffer.from('poster');
+const CONVERTED = Buffer.from('converted');
+const HASHES = new Map<Buffer, string>([
+  [POSTER, 'poster-hash'],
+  [CONVERTED, 'jpeg-hash'],
+]);
+
+function setup(options: { video?: VideoMetadata | Error; unconvertible?: boolean } = {}) {
+  const uploaded: string[] = [];
+  const frames: number[] = [];
+
+  const storageService = {
+    uploadBuffer: async (_buffer: Buffer, key: string) => {
+      uploaded.push(key);
+    },
+    uploadFile: async (_buffer: Buffer, filename: string, groupId: string) => {
+      const key = `media/${groupId}/${filename}`;
+      uploaded.push(key);
+      return { key, bucket: 'bucket', url: `https://bucket/${key}` };
+    },
+  } as unknown as IStorageService;
+
+  const videoProcessingService = {
+    probe: async () => {
+      const video = options.video ?? { durationSeconds: 42, width: 1920, height: 1080 };
+      if (video instanceof Error) throw video;
+      return video;
+    },
+    extractFrame: async (_buffer: Buffer, timestampSeconds: number) => {
+      frames.push(timestampSeconds);
+      return POSTER;
+    },
+  } as unknown as IVideoProcessingService;
+
+  const imageProcessingService = {
+    perceptualHash: async (buffer: Buffer) => HASHES.get(buffer) ?? 'image-hash',
+    extractMetadata: async () => ({}),
+    convertToJpeg: async () => {
+      if (options.unconvertible) throw new Error('Unsupported codec');
+      return { buffer: CONVERTED, width: 4032, height: 3024 };
+    },
+  } as unknown as IImageProcessingService;
+
+  return {
+    service: new MediaPreparationService(storageService, videoProcessingService, imageProcessingService),
+    uploaded,
+    frames,
+  };
+}
+
+const video = { buffer: Buffer.from('video'), originalname: 'clip.mp4', mimetype: 'video/mp4' };
+
+describe('MediaPreparationService videos', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('stores a poster frame from one second in and hashes it', async () => {
+    const { service, uploaded, frames } = setup();
+
+    const { converted, details } = await service.prepare(video, 'group-1');
+
+    expect(converted).toBeUndefined();
+    expect(details).toMatchObject({
+      mediaType: MediaType.VIDEO,
+      durationSeconds: 42,
+      width: 1920,
+      height: 1080,
+      perceptualHash: 'poster-hash',
+    });
+    expect(frames).toEqual([1]);
+    expect(uploaded).toEqual([details.posterS3Key]);
+    expect(details.posterS3Key).toMatch(/^posters\/group-1\/\d+-clip\.mp4\.jpg$/);
+  });
+
+  it('takes the poster halfway into very short clips', async () => {
+    const { service, frames } = setup({ video: { durationSeconds: 0.5 } });
+
+    await service.prepare(video, 'group-1');
+
+    expect(frames).toEqual([0.25]);
+  });
+
+  it('rejects videos over the length limit', async () => {
+    const { service, uploaded } = setup({ video: { durationSeconds: 301 } });
+
+    await expect(service.prepare(video, 'group-1')).rejects.toThrow('Video clip.mp4 is too long');
+    expect(uploaded).toHaveLength(0);
+  });
+
+  it('rejects videos that cannot be read', async () => {
+    const { service } = setup({ video: new Error('moov atom not found') });
+
+    await expect(service.prepare(video, 'group-1')).rejects.toThrow('Could not read video clip.mp4');
+  });
+});
+
+describe('MediaPreparationService HEIC and RAW images', () => {
+  const heic = { buffer: Buffer.from('heic'), originalname: 'IMG_0001.HEIC', mimetype: 'image/heic' };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('keeps the original and makes the converted JPEG the main file', async () => {
+    const { service, uploaded } = setup();
+
+    const { converted, details } = await service.prepare(heic, 'group-1');
+
+    expect(converted?.key).toMatch(/^media\/group-1\/\d+-IMG_0001\.jpg$/);
+    expect(details).toMatchObject({
+      mimeType: 'image/jpeg',
+      originalMimeType: 'image/heic',
+      width: 4032,
+      height: 3024,
+      perceptualHash: 'jpeg-hash',
+    });
+    expect(details.originalS3Key).toMatch(/^media\/group-1\/\d+-original-IMG_0001\.HEIC$/);
+    expect(uploaded).toHaveLength(2);
+  });
+
+  it('does not upload the original again when it is already in storage', async () => {
+    const { service, uploaded } = setup();
+    const stored = { key: 'uploads/group-1/session', bucket: 'bucket', url: 'https://bucket/uploads/group-1/session' };
+
+    const { details } = await service.prepare(heic, 'group-1', stored);
+
+    expect(details.originalS3Key).toBe('uploads/group-1/session');
+    expect(uploaded).toHaveLength(1);
+  });
+
+  it('rejects images that cannot be converted', async () => {
+    const { service } = setup({ unconvertible: true });
+
+    await expect(service.prepare(heic, 'group-1')).rejects.toThrow('Could not convert IMG_0001.HEIC');
+  });
+});
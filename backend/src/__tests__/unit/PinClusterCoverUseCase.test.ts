@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import { PinClusterCoverUseCase } from '../../core/use-cases/PinClusterCoverUseCase.js';
+import { FaceCluster, FaceClusterMember } from '../../core/entities/FaceCluster.js';
+import { Group } from '../../core/entities/Group.js';
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../../core/interfaces/repositories/IFaceClusterRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+
+function setup() {
+  let cluster = new FaceCluster('cluster-1', 'group-1', 2, 0.9);
+  const members = [
+    new FaceClusterMember('m1', 'cluster-1', 'face-1', 0.9),
+    new FaceClusterMember('m2', 'cluster-2', 'face-2', 0.9),
+  ];
+
+  const useCase = new PinClusterCoverUseCase(
+    {
+      findById: async () => cluster,
+      setCoverFace: async (_id: string, faceDetectionId: string | null) => {
+        cluster = cluster.pinCover(faceDetectionId ?? undefined);
+        return cluster;
+      },
+    } as unknown as IFaceClusterRepository,
+    {
+      findByFaceDetectionId: async (id: string) => members.find(m => m.faceDetectionId === id) ?? null,
+    } as unknown as IFaceClusterMemberRepository,
+    {
+      findByIdAndUserId: async () => Group.create({ name: 'Trip', creatorId: 'owner', inviteCode: 'ABC123' }),
+    } as unknown as IGroupRepository
+  );
+
+  return useCase;
+}
+
+describe('PinClusterCoverUseCase', () => {
+  it('pins a face of the cluster and clears the pin again', async () => {
+    const useCase = setup();
+
+    const pinned = await useCase.execute({ clusterId: 'cluster-1', faceDetectionId: 'face-1', userId: 'owner' });
+    expect(pinned.coverFaceDetectionId).toBe('face-1');
+
+    const cleared = await useCase.execute({ clusterId: 'cluster-1', faceDetectionId: null, userId: 'owner' });
+    expect(cleared.coverFaceDetectionId).toBeUndefined();
+  });
+
+  it('rejects a face from another cluster', async () => {
+    await expect(
+      setup().execute({ clusterId: 'cluster-1', faceDetectionId: 'face-2', userId: 'owner' })
+    ).rejects.toThrow('Face not found in this cluster');
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ReprocessMediaUseCase } from '../../core/use-cases/ReprocessMediaUseCase.js';
+import { Media } from '../../core/entities/Media.js';
+import { FaceDetection } from '../../core/entities/FaceDetection.js';
+import { FaceCluster, FaceClusterMember } from '../../core/entities/FaceCluster.js';
+import { Group } from '../../core/entities/Group.js';
+import { IMediaRepository } from '../../core/interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import { IFaceDetectionRepository } from '../../core/interfaces/repositories/IFaceDetectionRepository.js';
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../../core/interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceRecognitionService } from '../../core/interfaces/services/IFaceRecognitionService.js';
+import { IQueueService } from '../../core/interfaces/services/IQueueService.js';
+import { MediaProcessingStatus, QUEUE_NAMES } from '../../shared/constants/index.js';
+import { MediaProcessingStatusType } from '../../shared/types/index.js';
+
+function photo(id: string, processingStatus: MediaProcessingStatusType = MediaProcessingStatus.FAILED): Media {
+  const media = Media.create({
+    groupId: 'group-1',
+    uploaderId: 'owner',
+    filename: `${id}.jpg`,
+    originalName: `${id}.jpg`,
+    s3Key: `media/${id}.jpg`,
+    s3Bucket: 'bucket',
+    url: `https://bucket/media/${id}.jpg`,
+    mimeType: 'image/jpeg',
+    fileSize: 1000,
+  });
+  return Object.assign(media, { id, processingStatus });
+}
+
+function setup(retryable: Media[]) {
+  const partialFace = Object.assign(
+    FaceDetection.create({
+      mediaId: 'failed-1',
+      rekognitionFaceId: 'rek-1',
+      boundingBox: { x: 0.1, y: 0.1, width: 0.2, height: 0.2 },
+      confidence: 99,
+    }),
+    { id: 'face-1' }
+  );
+  let members = [
+    new FaceClusterMember('m1', 'cluster-1', 'face-1', 0.9),
+    new FaceClusterMember('m2', 'cluster-1', 'face-other', 0.7),
+  ];
+  const calls = { reset: [] as string[], queued: [] as string[], deletedFaces: [] as string[], clusterUpdates: 0 };
+
+  const useCase = new ReprocessMediaUseCase(
+    {
+      findRetryableByGroupId: async () => retryable,
+      resetProcessingStatus: async (ids: string[]) => {
+        calls.reset.push(...ids);
+      },
+    } as unknown as IMediaRepository,
+    {
+      findById: async () =>
+        Object.assign(Group.create({ name: 'Trip', creatorId: 'owner', inviteCode: 'ABC123' }), {
+          rekognitionCollectionId: 'collection-1',
+        }),
+    } as unknown as IGroupRepository,
+    {
+      findByMediaIds: async (ids: string[]) => (ids.includes('failed-1') ? [partialFace] : []),
+      deleteByMediaId: async () => 1,
+    } as unknown as IFaceDetectionRepository,
+    {
+      findById: async () => new FaceCluster('cluster-1', 'group-1', 2, 0.8),
+      update: async () => {
+        calls.clusterUpdates++;
+        return null;
+      },
+    } as unknown as IFaceClusterRepository,
+    {
+      findByFaceDetectionIds: async (ids: string[]) => members.filter(m => ids.includes(m.faceDetectionId)),
+      findByClusterId: async (clusterId: string) => members.filter(m => m.clusterId === clusterId),
+      delete: async (id: string) => {
+        members = members.filter(m => m.id !== id);
+        return true;
+      },
+    } as unknown as IFaceClusterMemberRepository,
+    {
+      deleteFaces: async (_collectionId: string, faceIds: string[]) => {
+        calls.deletedFaces.push(...faceIds);
+      },
+    } as unknown as IFaceRecognitionService,
+    {
+      addJob: async (queueName: string) => {
+        calls.queued.push(queueName);
+        return `job-${calls.queued.length}`;
+      },
+    } as unknown as IQueueService
+  );
+
+  return { useCase, calls };
+}
+
+describe('ReprocessMediaUseCase', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('clears faces from the failed run and queues face detection again', async () => {
+    const { useCase, calls } = setup([photo('failed-1'), photo('stuck-1', MediaProcessingStatus.PROCESSING)]);
+
+    const result = await useCase.execute({ groupId: 'group-1', userId: 'owner' });
+
+    expect(result).toEqual({ jobId: 'job-1', requeuedCount: 2, affectedClusterIds: ['cluster-1'] });
+    expect(calls.deletedFaces).toEqual(['rek-1']);
+    expect(calls.clusterUpdates).toBe(1);
+    expect(calls.reset).toEqual(['failed-1', 'stuck-1']);
+    expect(calls.queued).toEqual([QUEUE_NAMES.FACE_DETECTION]);
+  });
+
+  it('does nothing when no media failed', async () => {
+    const { useCase, calls } = setup([]);
+
+    const result = await useCase.execute({ groupId: 'group-1', userId: 'owner' });
+
+    expect(result).toEqual({ jobId: null, requeuedCount: 0, affectedClusterIds: [] });
+    expect(calls.queued).toHaveLength(0);
+  });
+
+  it('rejects a selection without failed or stuck media', async () => {
+    const { useCase } = setup([photo('failed-1')]);
+
+    await expect(
+      useCase.execute({ groupId: 'group-1', userId: 'owner', mediaIds: ['done-1'] })
+    ).rejects.toThrow('None of the selected media failed or is stuck in processing');
+  });
+
+  it('only lets admins reprocess media', async () => {
+    const { useCase } = setup([photo('failed-1')]);
+
+    await expect(useCase.execute({ groupId: 'group-1', userId: 'guest' })).rejects.toThrow(
+      'Only group admins can reprocess media'
+    );
+  });
+});
+
+describe('Media.isStuck', () => {
+  it('treats pending or processing media untouched since the cutoff as stuck', () => {
+    const cutoff = new Date();
+    const old = new Date(cutoff.getTime() - 60_000);
+
+    expect(Object.assign(photo('a', MediaProcessingStatus.PROCESSING), { updatedAt: old }).isStuck(cutoff)).toBe(true);
+    expect(Object.assign(photo('b', MediaProcessingStatus.DONE), { updatedAt: old }).isStuck(cutoff)).toBe(false);
+    expect(photo('c', MediaProcessingStatus.PENDING).isStuck(old)).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from '@jest/globals';
+import { ReviewJoinRequestUseCase } from '../../core/use-cases/ReviewJoinRequestUseCase.js';
+import { RecordActivityUseCase } from '../../core/use-cases/RecordActivityUseCase.js';
+import { Group } from '../../core/entities/Group.js';
+import { Invite } from '../../core/entities/Invite.js';
+import { JoinRequest, JoinRequestStatus } from '../../core/entities/JoinRequest.js';
+import { IJoinRequestRepository } from '../../core/interfaces/repositories/IJoinRequestRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import { IInviteRepository } from '../../core/interfaces/repositories/IInviteRepository.js';
+import { MemberRole } from '../../shared/constants/index.js';
+
+function setup(options: { inviteId?: string; inviteUsedUp?: boolean } = {}) {
+  const group = Object.assign(Group.create({ name: 'Trip', creatorId: 'owner', inviteCode: 'ABC123' }), {
+    id: 'group-1',
+  });
+  const invite = Object.assign(
+    Invite.create({ groupId: 'group-1', code: 'NAMED1', createdBy: 'owner', role: MemberRole.MEMBER }),
+    { id: 'invite-1' }
+  );
+  const state = { status: 'pending' as JoinRequestStatus, usesRecorded: 0 };
+  const request = () =>
+    new JoinRequest('request-1', 'group-1', 'guest', MemberRole.MEMBER, state.status, options.inviteId);
+
+  const joinRequestRepository = {
+    findById: async () => request(),
+    review: async (_id: string, status: Exclude<JoinRequestStatus, 'pending'>) => {
+      if (state.status !== 'pending') return null;
+      state.status = status;
+      return request();
+    },
+    reopen: async () => {
+      state.status = 'pending';
+      return request();
+    },
+  } as unknown as IJoinRequestRepository;
+
+  const groupRepository = {
+    findByIdAndUserId: async () => group,
+    update: async (_id: string, updated: Group) => updated,
+  } as unknown as IGroupRepository;
+
+  const inviteRepository = {
+    findById: async () => invite,
+    recordUse: async () => {
+      if (options.inviteUsedUp) return null;
+      state.usesRecorded++;
+      return invite;
+    },
+  } as unknown as IInviteRepository;
+
+  const recordActivityUseCase = { execute: async () => undefined } as unknown as RecordActivityUseCase;
+
+  return {
+    useCase: new ReviewJoinRequestUseCase(joinRequestRepository, groupRepository, inviteRepository, recordActivityUseCase),
+    state,
+  };
+}
+
+const approve = { groupId: 'group-1', requestId: 'request-1', userId: 'owner', decision: 'approved' as const };
+
+describe('ReviewJoinRequestUseCase', () => {
+  it('adds the requester and counts the use of their invite', async () => {
+    const { useCase, state } = setup({ inviteId: 'invite-1' });
+
+    const { group, requesterId } = await useCase.execute(approve);
+
+    expect(requesterId).toBe('guest');
+    expect(group.isMember('guest')).toBe(true);
+    expect(state.status).toBe('approved');
+    expect(state.usesRecorded).toBe(1);
+  });
+
+  it('puts the request back to pending when the invite was used up in the meantime', async () => {
+    const { useCase, state } = setup({ inviteId: 'invite-1', inviteUsedUp: true });
+
+    await expect(useCase.execute(approve)).rejects.toThrow('no longer valid');
+
+    expect(state.status).toBe('pending');
+  });
+
+  it('does not review a request twice', async () => {
+    const { useCase } = setup();
+    await useCase.execute({ ...approve, decision: 'denied' });
+
+    await expect(useCase.execute(approve)).rejects.toThrow('already been reviewed');
+  });
+
+  it('only lets admins review requests', async () => {
+    const { useCase, state } = setup();
+
+    await expect(useCase.execute({ ...approve, userId: 'guest' })).rejects.toThrow(
+      'Only group admins can review join requests'
+    );
+    expect(state.status).toBe('pending');
+  });
+});
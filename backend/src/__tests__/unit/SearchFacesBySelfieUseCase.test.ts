@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { SearchFacesBySelfieUseCase } from '../../core/use-cases/SearchFacesBySelfieUseCase.js';
+import { FaceDetection } from '../../core/entities/FaceDetection.js';
+import { FaceCluster, FaceClusterMember } from '../../core/entities/FaceCluster.js';
+import { Group } from '../../core/entities/Group.js';
+import { Media } from '../../core/entities/Media.js';
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../../core/interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceDetectionRepository } from '../../core/interfaces/repositories/IFaceDetectionRepository.js';
+import { IMediaRepository } from '../../core/interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import { IStorageService } from '../../core/interfaces/services/IStorageService.js';
+import { IFaceRecognitionService } from '../../core/interfaces/services/IFaceRecognitionService.js';
+import { FaceSimilarity } from '../../shared/types/index.js';
+
+function photo(id: string): Media {
+  const media = Media.create({
+    groupId: 'group-1',
+    uploaderId: 'owner',
+    filename: `${id}.jpg`,
+    originalName: `${id}.jpg`,
+    s3Key: `media/${id}.jpg`,
+    s3Bucket: 'bucket',
+    url: `https://bucket/media/${id}.jpg`,
+    mimeType: 'image/jpeg',
+    fileSize: 1000,
+  });
+  return Object.assign(media, { id });
+}
+
+function face(id: string, mediaId: string): FaceDetection {
+  const detection = FaceDetection.create({
+    mediaId,
+    rekognitionFaceId: `rek-${id}`,
+    boundingBox: { x: 0.1, y: 0.1, width: 0.2, height: 0.2 },
+    confidence: 99,
+  });
+  return Object.assign(detection, { id });
+}
+
+const faces = [face('face-1', 'beach'), face('face-2', 'dinner'), face('face-3', 'dinner')];
+const members = [
+  new FaceClusterMember('m1', 'alice', 'face-1', 0.9),
+  new FaceClusterMember('m2', 'alice', 'face-2', 0.9),
+  new FaceClusterMember('m3', 'bob', 'face-3', 0.9),
+];
+const clusters = [new FaceCluster('alice', 'group-1', 5, 0.9, 'Alice'), new FaceCluster('bob', 'group-1', 2, 0.9)];
+
+function createUseCase(matches: FaceSimilarity[], options: { collectionId?: string } = { collectionId: 'collection-1' }) {
+  const group = Object.assign(Group.create({ name: 'Trip', creatorId: 'owner', inviteCode: 'ABC123' }), {
+    rekognitionCollectionId: options.collectionId,
+  });
+  const search = { calls: 0 };
+
+  const useCase = new SearchFacesBySelfieUseCase(
+    {
+      searchFacesByImage: async () => {
+        search.calls++;
+        return matches;
+      },
+    } as unknown as IFaceRecognitionService,
+    { findById: async (id: string) => clusters.find(c => c.id === id) ?? null } as unknown as IFaceClusterRepository,
+    {
+      findByFaceDetectionIds: async (ids: string[]) => members.filter(m => ids.includes(m.faceDetectionId)),
+    } as unknown as IFaceClusterMemberRepository,
+    {
+      findByRekognitionFaceIds: async (ids: string[]) => faces.filter(f => ids.includes(f.rekognitionFaceId)),
+    } as unknown as IFaceDetectionRepository,
+    { findByIds: async (ids: string[]) => ids.map(photo) } as unknown as IMediaRepository,
+    { findByIdAndUserId: async () => group } as unknown as IGroupRepository,
+    { getPresignedUrl: async (key: string) => `https://signed/${key}` } as unknown as IStorageService
+  );
+
+  return { useCase, search };
+}
+
+const selfie = Buffer.from('selfie');
+
+describe('SearchFacesBySelfieUseCase', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('returns the clusters with the most matching faces first and the photos they are in', async () => {
+    const { useCase } = createUseCase([
+      { faceId: 'rek-face-1', similarity: 97 },
+      { faceId: 'rek-face-2', similarity: 92 },
+      { faceId: 'rek-face-3', similarity: 99 },
+    ]);
+
+    const result = await useCase.execute({ groupId: 'group-1', userId: 'owner', imageBuffer: selfie });
+
+    expect(result.clusters).toEqual([
+      { id: 'alice', clusterName: 'Alice', appearanceCount: 5, matchedFaces: 2, similarity: 97 },
+      { id: 'bob', clusterName: undefined, appearanceCount: 2, matchedFaces: 1, similarity: 99 },
+    ]);
+    expect(result.media.map(m => m.id)).toEqual(['beach', 'dinner']);
+    expect(result.media[1].faceDetections.map(f => f.id)).toEqual(['face-2', 'face-3']);
+  });
+
+  it('skips the search for groups without a face collection', async () => {
+    const { useCase, search } = createUseCase([{ faceId: 'rek-face-1', similarity: 97 }], {});
+
+    const result = await useCase.execute({ groupId: 'group-1', userId: 'owner', imageBuffer: selfie });
+
+    expect(result).toEqual({ clusters: [], media: [] });
+    expect(search.calls).toBe(0);
+  });
+
+  it('requires a selfie', async () => {
+    const { useCase } = createUseCase([]);
+
+    await expect(
+      useCase.execute({ groupId: 'group-1', userId: 'owner', imageBuffer: Buffer.alloc(0) })
+    ).rejects.toThrow('A selfie image is required');
+  });
+});
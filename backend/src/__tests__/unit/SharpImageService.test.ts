@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import sharp from 'sharp';
+import { SharpImageService } from '../../infrastructure/image/SharpImageService.js';
+
+function createPhoto(exif?: Record<string, Record<string, string>>, orientation?: number): Promise<Buffer> {
+  let image = sharp({ create: { width: 40, height: 20, channels: 3, background: '#808080' } }).jpeg();
+  if (exif) {
+    image = image.withExif(exif);
+  }
+  if (orientation) {
+    image = image.withMetadata({ orientation });
+  }
+  return image.toBuffer();
+}
+
+describe('SharpImageService.extractMetadata', () => {
+  const service = new SharpImageService();
+
+  it('reads capture time, camera and location from EXIF', async () => {
+    const photo = await createPhoto({
+      IFD0: { Make: 'Canon ', Model: 'EOS R6' },
+      IFD2: { DateTimeOriginal: '2024:07:14 18:30:00', OffsetTimeOriginal: '+02:00' },
+      IFD3: {
+        GPSLatitudeRef: 'S',
+        GPSLatitude: '33/1 52/1 4/1',
+        GPSLongitudeRef: 'E',
+        GPSLongitude: '151/1 12/1 36/1',
+      },
+    });
+
+    const metadata = await service.extractMetadata(photo);
+
+    expect(metadata.takenAt).toEqual(new Date('2024-07-14T16:30:00Z'));
+    expect(metadata.cameraMake).toBe('Canon');
+    expect(metadata.cameraModel).toBe('EOS R6');
+    expect(metadata.location?.latitude).toBeCloseTo(-33.8678, 4);
+    expect(metadata.location?.longitude).toBeCloseTo(151.21, 4);
+  });
+
+  it('swaps the dimensions of photos stored rotated', async () => {
+    const metadata = await service.extractMetadata(await createPhoto(undefined, 6));
+
+    expect(metadata).toMatchObject({ width: 20, height: 40, orientation: 6 });
+  });
+
+  it('returns only the dimensions of photos without EXIF', async () => {
+    const metadata = await service.extractMetadata(await createPhoto());
+
+    expect(metadata.width).toBe(40);
+    expect(metadata.height).toBe(20);
+    expect(metadata.takenAt).toBeUndefined();
+    expect(metadata.location).toBeUndefined();
+  });
+});
+
+describe('SharpImageService.createDerivative', () => {
+  const service = new SharpImageService();
+
+  it('downscales to the longest edge and upright', async () => {
+    const derivative = await service.createDerivative(await createPhoto(undefined, 6), 10, 'webp');
+    const metadata = await sharp(derivative.buffer).metadata();
+
+    expect(derivative).toMatchObject({ width: 5, height: 10 });
+    expect(metadata.format).toBe('webp');
+    expect(metadata.orientation).toBeUndefined();
+  });
+
+  it('never enlarges small images', async () => {
+    const derivative = await service.createDerivative(await createPhoto(), 1600, 'avif');
+    const metadata = await sharp(derivative.buffer).metadata();
+
+    expect(derivative).toMatchObject({ width: 40, height: 20 });
+    expect(metadata.format).toBe('heif');
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { SplitClusterUseCase } from '../../core/use-cases/SplitClusterUseCase.js';
+import { MoveClusterFacesUseCase } from '../../core/use-cases/MoveClusterFacesUseCase.js';
+import { FaceCluster, FaceClusterMember } from '../../core/entities/FaceCluster.js';
+import { Group } from '../../core/entities/Group.js';
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../../core/interfaces/repositories/IFaceClusterRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+
+function cluster(id: string, coverFaceDetectionId?: string): FaceCluster {
+  return new FaceCluster(id, 'group-1', 0, 0.9, undefined, undefined, coverFaceDetectionId);
+}
+
+function setup(options: { coverFaceDetectionId?: string } = {}) {
+  const clusters = new Map([
+    ['alice', cluster('alice', options.coverFaceDetectionId)],
+    ['bob', cluster('bob')],
+  ]);
+  let members = [
+    new FaceClusterMember('m1', 'alice', 'face-1', 0.9),
+    new FaceClusterMember('m2', 'alice', 'face-2', 0.8),
+    new FaceClusterMember('m3', 'alice', 'face-3', 0.7),
+    new FaceClusterMember('m4', 'bob', 'face-4', 1),
+  ];
+
+  const faceClusterRepository = {
+    findById: async (id: string) => clusters.get(id) ?? null,
+    create: async (created: FaceCluster) => {
+      const saved = Object.assign(created, { id: 'new' });
+      clusters.set(saved.id, saved);
+      return saved;
+    },
+    update: async (id: string, data: Partial<FaceCluster>) => {
+      const updated = Object.assign(clusters.get(id)!, data);
+      clusters.set(id, updated);
+      return updated;
+    },
+    setCoverFace: async (id: string, faceDetectionId: string | null) => {
+      Object.assign(clusters.get(id)!, { coverFaceDetectionId: faceDetectionId ?? undefined });
+    },
+    delete: async (id: string) => clusters.delete(id),
+  } as unknown as IFaceClusterRepository;
+
+  const faceClusterMemberRepository = {
+    findByClusterId: async (clusterId: string) => members.filter(m => m.clusterId === clusterId),
+    countByClusterId: async (clusterId: string) => members.filter(m => m.clusterId === clusterId).length,
+    moveToCluster: async (faceDetectionIds: string[], clusterId: string) => {
+      members = members.map(m =>
+        faceDetectionIds.includes(m.faceDetectionId)
+          ? new FaceClusterMember(m.id, clusterId, m.faceDetectionId, m.confidence)
+          : m
+      );
+      return faceDetectionIds.length;
+    },
+  } as unknown as IFaceClusterMemberRepository;
+
+  const groupRepository = {
+    findById: async () => Group.create({ name: 'Trip', creatorId: 'owner', inviteCode: 'ABC123' }),
+  } as unknown as IGroupRepository;
+
+  const moveUseCase = new MoveClusterFacesUseCase(faceClusterRepository, faceClusterMemberRepository, groupRepository);
+  const splitUseCase = new SplitClusterUseCase(
+    faceClusterRepository,
+    faceClusterMemberRepository,
+    groupRepository,
+    moveUseCase
+  );
+
+  return { moveUseCase, splitUseCase, clusters, members: () => members };
+}
+
+describe('MoveClusterFacesUseCase', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('moves faces and recalculates both clusters', async () => {
+    const { moveUseCase } = setup();
+
+    const result = await moveUseCase.execute({
+      sourceClusterId: 'alice',
+      targetClusterId: 'bob',
+      faceDetectionIds: ['face-3'],
+      userId: 'owner',
+    });
+
+    expect(result.movedCount).toBe(1);
+    expect(result.sourceCluster?.appearanceCount).toBe(2);
+    expect(result.sourceCluster?.confidence).toBeCloseTo(0.85);
+    expect(result.targetCluster.appearanceCount).toBe(2);
+    expect(result.targetCluster.confidence).toBeCloseTo(0.85);
+  });
+
+  it('clears a pinned cover that moved out', async () => {
+    const { moveUseCase, clusters } = setup({ coverFaceDetectionId: 'face-1' });
+
+    await moveUseCase.execute({
+      sourceClusterId: 'alice',
+      targetClusterId: 'bob',
+      faceDetectionIds: ['face-1'],
+      userId: 'owner',
+    });
+
+    expect(clusters.get('alice')?.coverFaceDetectionId).toBeUndefined();
+  });
+
+  it('deletes the source cluster once it is empty', async () => {
+    const { moveUseCase, clusters } = setup();
+
+    const result = await moveUseCase.execute({
+      sourceClusterId: 'alice',
+      targetClusterId: 'bob',
+      faceDetectionIds: ['face-1', 'face-2', 'face-3'],
+      userId: 'owner',
+    });
+
+    expect(result.sourceCluster).toBeNull();
+    expect(clusters.has('alice')).toBe(false);
+    expect(result.targetCluster.appearanceCount).toBe(4);
+  });
+
+  it('rejects faces that are not in the source cluster', async () => {
+    const { moveUseCase, members } = setup();
+
+    await expect(
+      moveUseCase.execute({
+        sourceClusterId: 'alice',
+        targetClusterId: 'bob',
+        faceDetectionIds: ['face-1', 'face-4'],
+        userId: 'owner',
+      })
+    ).rejects.toThrow('1 face(s) not found in the source cluster');
+    expect(members().filter(m => m.clusterId === 'bob')).toHaveLength(1);
+  });
+});
+
+describe('SplitClusterUseCase', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('moves the selected faces into a new named cluster', async () => {
+    const { splitUseCase } = setup();
+
+    const result = await splitUseCase.execute({
+      clusterId: 'alice',
+      faceDetectionIds: ['face-2', 'face-3'],
+      clusterName: ' Carol ',
+      userId: 'owner',
+    });
+
+    expect(result.targetCluster.id).toBe('new');
+    expect(result.targetCluster.clusterName).toBe('Carol');
+    expect(result.targetCluster.appearanceCount).toBe(2);
+    expect(result.sourceCluster?.appearanceCount).toBe(1);
+  });
+
+  it('refuses to split every face out of a cluster', async () => {
+    const { splitUseCase } = setup();
+
+    await expect(
+      splitUseCase.execute({ clusterId: 'alice', faceDetectionIds: ['face-1', 'face-2', 'face-3'], userId: 'owner' })
+    ).rejects.toThrow('Cannot split all faces out of a cluster');
+  });
+
+  it('removes the new cluster again when the move fails', async () => {
+    const { splitUseCase, clusters } = setup();
+
+    await expect(
+      splitUseCase.execute({ clusterId: 'alice', faceDetectionIds: ['face-4'], userId: 'owner' })
+    ).rejects.toThrow('not found in the source cluster');
+    expect(clusters.has('new')).toBe(false);
+  });
+});
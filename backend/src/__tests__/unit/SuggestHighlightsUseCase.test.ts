@@ -0,0 +1,150 @@
+import { describe, it, expect } from '@jest/globals';
+import { SuggestHighlightsUseCase } from '../../core/use-cases/SuggestHighlightsUseCase.js';
+import { SetHighlightUseCase } from '../../core/use-cases/SetHighlightUseCase.js';
+import { Media } from '../../core/entities/Media.js';
+import { Group } from '../../core/entities/Group.js';
+import { Highlight } from '../../core/entities/Highlight.js';
+import { IFavoriteRepository, IHighlightRepository } from '../../core/interfaces/repositories/IFavoriteRepository.js';
+import { IMediaRepository } from '../../core/interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import {
+  IFaceClusterRepository,
+  IFaceClusterMemberRepository,
+} from '../../core/interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceDetectionRepository } from '../../core/interfaces/repositories/IFaceDetectionRepository.js';
+import { MemberRole } from '../../shared/constants/index.js';
+
+function photo(id: string, groupId: string = 'group-1'): Media {
+  const media = Media.create({
+    groupId,
+    uploaderId: 'owner',
+    filename: `${id}.jpg`,
+    originalName: `${id}.jpg`,
+    s3Key: `media/${id}.jpg`,
+    s3Bucket: 'bucket',
+    url: `https://bucket/media/${id}.jpg`,
+    mimeType: 'image/jpeg',
+    fileSize: 1000,
+  });
+  return Object.assign(media, { id });
+}
+
+const media = [photo('starred'), photo('portrait'), photo('plain'), photo('highlighted'), photo('other', 'group-2')];
+
+// The portrait shows Alice in a good shot, the starred photo an unnamed face in a poor one
+const faces = [
+  { id: 'face-1', mediaId: 'portrait', qualityScore: 90 },
+  { id: 'face-2', mediaId: 'starred', qualityScore: 20 },
+];
+
+const groupRepository = {
+  findByIdAndUserId: async (_groupId: string, userId: string) => {
+    const group = Group.create({ name: 'Wedding', creatorId: 'owner', inviteCode: 'ABC123' }).addMember(
+      'alice',
+      MemberRole.MEMBER
+    );
+    return group.isMember(userId) ? group : null;
+  },
+} as unknown as IGroupRepository;
+
+const mediaRepository = {
+  findById: async (id: string) => media.find(m => m.id === id) ?? null,
+  findByIds: async (ids: string[]) => media.filter(m => ids.includes(m.id)),
+  findByGroupId: async () => ({
+    data: media.filter(m => m.groupId === 'group-1'),
+    pagination: { page: 1, limit: 200, total: 4, totalPages: 1 },
+  }),
+} as unknown as IMediaRepository;
+
+function createSuggestUseCase(): SuggestHighlightsUseCase {
+  const favoriteRepository = {
+    countByGroupId: async () => ({ starred: 2, other: 5 }),
+  } as unknown as IFavoriteRepository;
+  const highlightRepository = {
+    findMediaIdsByGroup: async () => ['highlighted'],
+  } as unknown as IHighlightRepository;
+  const clusterRepository = {
+    findByGroupId: async () => ({
+      data: [
+        { id: 'cluster-1', clusterName: 'Alice' },
+        { id: 'cluster-2', clusterName: undefined },
+      ],
+      pagination: { page: 1, limit: 10000, total: 2, totalPages: 1 },
+    }),
+  } as unknown as IFaceClusterRepository;
+  const clusterMemberRepository = {
+    findByClusterIds: async () => [{ clusterId: 'cluster-1', faceDetectionId: 'face-1' }],
+  } as unknown as IFaceClusterMemberRepository;
+  const faceDetectionRepository = {
+    findByIds: async (ids: string[]) => faces.filter(face => ids.includes(face.id)),
+    findByMediaIds: async (ids: string[]) => faces.filter(face => ids.includes(face.mediaId)),
+  } as unknown as IFaceDetectionRepository;
+
+  return new SuggestHighlightsUseCase(
+    favoriteRepository,
+    highlightRepository,
+    mediaRepository,
+    groupRepository,
+    clusterRepository,
+    clusterMemberRepository,
+    faceDetectionRepository
+  );
+}
+
+describe('SuggestHighlightsUseCase', () => {
+  it('ranks by favourites, named people and face quality', async () => {
+    const suggestions = await createSuggestUseCase().execute({ groupId: 'group-1', userId: 'owner', limit: 10 });
+
+    expect(suggestions.map(s => s.media.id)).toEqual(['starred', 'portrait']);
+    expect(suggestions[0]).toMatchObject({ favoriteCount: 2, people: [], bestFaceQuality: 20, score: 6.4 });
+    expect(suggestions[1]).toMatchObject({ favoriteCount: 0, people: ['Alice'], bestFaceQuality: 90, score: 3.8 });
+  });
+
+  it('leaves out media that is already highlighted or in another group', async () => {
+    const suggestions = await createSuggestUseCase().execute({ groupId: 'group-1', userId: 'owner', limit: 10 });
+    const ids = suggestions.map(s => s.media.id);
+
+    expect(ids).not.toContain('highlighted');
+    expect(ids).not.toContain('other');
+    expect(ids).not.toContain('plain');
+  });
+
+  it('only suggests to admins', async () => {
+    await expect(
+      createSuggestUseCase().execute({ groupId: 'group-1', userId: 'alice', limit: 10 })
+    ).rejects.toThrow('Only group admins can see suggested highlights');
+  });
+});
+
+describe('SetHighlightUseCase', () => {
+  function setup() {
+    const highlighted = new Set<string>();
+    const highlightRepository = {
+      add: async (highlight: Highlight) => {
+        highlighted.add(highlight.mediaId);
+      },
+      remove: async (mediaId: string) => highlighted.delete(mediaId),
+    } as unknown as IHighlightRepository;
+
+    return { useCase: new SetHighlightUseCase(highlightRepository, mediaRepository, groupRepository), highlighted };
+  }
+
+  it('lets admins add and remove highlights', async () => {
+    const { useCase, highlighted } = setup();
+
+    await useCase.execute({ mediaId: 'plain', userId: 'owner', highlighted: true });
+    expect([...highlighted]).toEqual(['plain']);
+
+    await useCase.execute({ mediaId: 'plain', userId: 'owner', highlighted: false });
+    expect(highlighted.size).toBe(0);
+  });
+
+  it('rejects members who are not admins', async () => {
+    const { useCase, highlighted } = setup();
+
+    await expect(useCase.execute({ mediaId: 'plain', userId: 'alice', highlighted: true })).rejects.toThrow(
+      'Only group admins can change highlights'
+    );
+    expect(highlighted.size).toBe(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+import { UpdateGroupUseCase, UpdateGroupDTO } from '../../core/use-cases/UpdateGroupUseCase.js';
+import { Group, ClusteringSettings } from '../../core/entities/Group.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+
+function createUseCase(): UpdateGroupUseCase {
+  const groupRepository = {
+    findById: async () => Group.create({ name: 'Trip', creatorId: 'owner', inviteCode: 'ABC123' }),
+    update: async (_id: string, group: Group) => group,
+  } as unknown as IGroupRepository;
+
+  return new UpdateGroupUseCase(groupRepository);
+}
+
+function updateClustering(clusteringSettings: unknown): Promise<Group> {
+  return createUseCase().execute({
+    groupId: 'group-1',
+    userId: 'owner',
+    clusteringSettings: clusteringSettings as UpdateGroupDTO['clusteringSettings'],
+  });
+}
+
+describe('UpdateGroupUseCase clustering settings', () => {
+  it('saves valid settings', async () => {
+    const group = await updateClustering({ similarityThreshold: 90, minClusterSize: 3, qualityThreshold: 40 });
+
+    expect(group.clusteringSettings.similarityThreshold).toBe(90);
+    expect(group.clusteringSettings.minClusterSize).toBe(3);
+    expect(group.clusteringSettings.qualityThreshold).toBe(40);
+  });
+
+  it('keeps settings that were not sent', async () => {
+    const group = await updateClustering({ similarityThreshold: 85 });
+
+    expect(group.clusteringSettings.similarityThreshold).toBe(85);
+    expect(group.clusteringSettings.minClusterSize).toBe(ClusteringSettings.default().minClusterSize);
+  });
+
+  it('rejects settings that are not an object', async () => {
+    await expect(updateClustering('90')).rejects.toThrow('Clustering settings must be an object');
+    await expect(updateClustering([90])).rejects.toThrow('Clustering settings must be an object');
+  });
+
+  it('rejects numbers sent as strings', async () => {
+    await expect(updateClustering({ similarityThreshold: '90' })).rejects.toThrow(
+      'Similarity threshold must be a number'
+    );
+    await expect(updateClustering({ minClusterSize: '3' })).rejects.toThrow('Minimum cluster size must be a number');
+  });
+
+  it('rejects values that are not finite', async () => {
+    await expect(updateClustering({ qualityThreshold: NaN })).rejects.toThrow('Quality threshold must be a number');
+    await expect(updateClustering({ similarityThreshold: Infinity })).rejects.toThrow(
+      'Similarity threshold must be a number'
+    );
+  });
+
+  it('rejects values out of range', async () => {
+    await expect(updateClustering({ similarityThreshold: 40 })).rejects.toThrow(
+      'Similarity threshold must be between 50 and 99'
+    );
+    await expect(updateClustering({ minClusterSize: 1.5 })).rejects.toThrow(
+      'Minimum cluster size must be a whole number of at least 1'
+    );
+    await expect(updateClustering({ minClusterSize: 21 })).rejects.toThrow('Minimum cluster size cannot exceed 20');
+    await expect(updateClustering({ qualityThreshold: 101 })).rejects.toThrow(
+      'Quality threshold must be between 0 and 100'
+    );
+  });
+});
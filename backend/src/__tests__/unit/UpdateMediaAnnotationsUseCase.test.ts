@@ -0,0 +1,131 @@
+import { describe, it, expect } from '@jest/globals';
+import { UpdateMediaAnnotationsUseCase } from '../../core/use-cases/UpdateMediaAnnotationsUseCase.js';
+import { SearchMediaUseCase } from '../../core/use-cases/SearchMediaUseCase.js';
+import { Media } from '../../core/entities/Media.js';
+import { Group } from '../../core/entities/Group.js';
+import { IMediaRepository, MediaListFilters } from '../../core/interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
+import {
+  IFaceClusterRepository,
+  IFaceClusterMemberRepository,
+} from '../../core/interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceDetectionRepository } from '../../core/interfaces/repositories/IFaceDetectionRepository.js';
+import { MemberRole } from '../../shared/constants/index.js';
+
+function photo(caption?: string, tags: string[] = []): Media {
+  const media = Media.create({
+    groupId: 'group-1',
+    uploaderId: 'alice',
+    filename: 'beach.jpg',
+    originalName: 'beach.jpg',
+    s3Key: 'media/beach.jpg',
+    s3Bucket: 'bucket',
+    url: 'https://bucket/media/beach.jpg',
+    mimeType: 'image/jpeg',
+    fileSize: 1000,
+  });
+  return Object.assign(media, { id: 'media-1', caption, tags });
+}
+
+const groupRepository = {
+  findByIdAndUserId: async (_groupId: string, userId: string) => {
+    const group = Group.create({ name: 'Trip', creatorId: 'owner', inviteCode: 'ABC123' })
+      .addMember('alice', MemberRole.MEMBER)
+      .addMember('bob', MemberRole.MEMBER);
+    return group.isMember(userId) ? group : null;
+  },
+} as unknown as IGroupRepository;
+
+function setupAnnotations(media: Media) {
+  const saved: Array<{ caption?: string; tags: string[] }> = [];
+  const mediaRepository = {
+    findById: async () => media,
+    setAnnotations: async (_id: string, annotations: { caption?: string; tags: string[] }) => {
+      saved.push(annotations);
+      return Object.assign(photo(), annotations);
+    },
+  } as unknown as IMediaRepository;
+
+  return { useCase: new UpdateMediaAnnotationsUseCase(mediaRepository, groupRepository), saved };
+}
+
+describe('UpdateMediaAnnotationsUseCase', () => {
+  it('normalises tags and keeps the caption when it is left out', async () => {
+    const { useCase, saved } = setupAnnotations(photo('Sunset', ['old']));
+
+    await useCase.execute({ mediaId: 'media-1', userId: 'alice', tags: ['#Beach', 'beach', ' Sunset '] });
+
+    expect(saved).toEqual([{ caption: 'Sunset', tags: ['beach', 'sunset'] }]);
+  });
+
+  it('clears the caption when it is set to blank', async () => {
+    const { useCase, saved } = setupAnnotations(photo('Sunset', ['beach']));
+
+    await useCase.execute({ mediaId: 'media-1', userId: 'owner', caption: '   ' });
+
+    expect(saved).toEqual([{ caption: undefined, tags: ['beach'] }]);
+  });
+
+  it('only lets the uploader and admins annotate', async () => {
+    const { useCase, saved } = setupAnnotations(photo());
+
+    await expect(useCase.execute({ mediaId: 'media-1', userId: 'bob', caption: 'Mine now' })).rejects.toThrow(
+      'You can only edit captions and tags on photos you uploaded'
+    );
+    expect(saved).toHaveLength(0);
+  });
+});
+
+describe('SearchMediaUseCase', () => {
+  function setupSearch() {
+    const searches: MediaListFilters[] = [];
+    const mediaRepository = {
+      findByGroupId: async (_groupId: string, _pagination: unknown, filters: MediaListFilters) => {
+        searches.push(filters);
+        return { data: [], pagination: { page: 1, limit: 20, total: 0, totalPages: 0 } };
+      },
+    } as unknown as IMediaRepository;
+    const clusterRepository = {
+      findById: async (id: string) => (id === 'cluster-1' ? { id, groupId: 'group-1' } : null),
+    } as unknown as IFaceClusterRepository;
+    const clusterMemberRepository = {
+      findByClusterId: async () => [{ faceDetectionId: 'face-1' }, { faceDetectionId: 'face-2' }],
+    } as unknown as IFaceClusterMemberRepository;
+    const faceDetectionRepository = {
+      findByIds: async () => [{ mediaId: 'media-1' }, { mediaId: 'media-1' }],
+    } as unknown as IFaceDetectionRepository;
+
+    const useCase = new SearchMediaUseCase(
+      mediaRepository,
+      groupRepository,
+      clusterRepository,
+      clusterMemberRepository,
+      faceDetectionRepository
+    );
+    return { useCase, searches };
+  }
+
+  it('searches with normalised tags and the media of the chosen cluster', async () => {
+    const { useCase, searches } = setupSearch();
+
+    await useCase.execute({
+      groupId: 'group-1',
+      userId: 'bob',
+      query: '  sunset ',
+      tags: ['#Beach'],
+      clusterId: 'cluster-1',
+      page: 1,
+      limit: 20,
+    });
+
+    expect(searches[0]).toMatchObject({ text: 'sunset', tags: ['beach'], mediaIds: ['media-1'] });
+  });
+
+  it('rejects clusters that do not exist in the group', async () => {
+    const { useCase } = setupSearch();
+
+    await expect(
+      useCase.execute({ groupId: 'group-1', userId: 'bob', clusterId: 'cluster-2', page: 1, limit: 20 })
+    ).rejects.toThrow('Cluster not found');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateFaceQualityScore, calculateCoverScore, selectCoverFace } from '../../shared/utils/faceQuality.js';
+
+describe('calculateFaceQualityScore', () => {
+  it('gives a sharp, well lit frontal face nearly full marks', () => {
+    const score = calculateFaceQualityScore({
+      confidence: 99,
+      quality: { brightness: 60, sharpness: 95 },
+      pose: { roll: 2, yaw: 3, pitch: 1 },
+    });
+
+    expect(score).toBe(98);
+  });
+
+  it('scores a dark, blurry profile lower', () => {
+    const frontal = calculateFaceQualityScore({
+      confidence: 99,
+      quality: { brightness: 60, sharpness: 95 },
+      pose: { roll: 0, yaw: 0, pitch: 0 },
+    });
+    const profile = calculateFaceQualityScore({
+      confidence: 99,
+      quality: { brightness: 10, sharpness: 20 },
+      pose: { roll: 10, yaw: 80, pitch: 15 },
+    });
+
+    expect(profile).toBeLessThan(frontal);
+    expect(profile).toBe(45);
+  });
+
+  it('only counts confidence when quality and pose are unknown', () => {
+    expect(calculateFaceQualityScore({ confidence: 90 })).toBe(27);
+  });
+});
+
+describe('selectCoverFace', () => {
+  it('prefers a frontal face over a sharper profile', () => {
+    const profile = { id: 'profile', confidence: 99, qualityScore: 90, pose: { roll: 0, yaw: 60, pitch: 0 } };
+    const frontal = { id: 'frontal', confidence: 99, qualityScore: 75, pose: { roll: 2, yaw: 5, pitch: 3 } };
+
+    expect(selectCoverFace([profile, frontal])?.id).toBe('frontal');
+  });
+
+  it('ranks a face with unknown pose below an equally good frontal one', () => {
+    const unknown = { confidence: 99, qualityScore: 80 };
+    const frontal = { confidence: 99, qualityScore: 80, pose: { roll: 0, yaw: 0, pitch: 0 } };
+
+    expect(calculateCoverScore(unknown)).toBe(70);
+    expect(calculateCoverScore(frontal)).toBe(80);
+  });
+
+  it('returns nothing for a cluster without faces', () => {
+    expect(selectCoverFace([])).toBeUndefined();
+  });
+});
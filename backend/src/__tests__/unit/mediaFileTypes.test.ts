@@ -0,0 +1,34 @@
+import { describe, it, expect } from '@jest/globals';
+import { isConvertibleImage, isSupportedMediaFile } from '../../shared/utils/mediaFileTypes.js';
+
+describe('isConvertibleImage', () => {
+  it('recognises HEIC by MIME type', () => {
+    expect(isConvertibleImage('image/heic', 'IMG_0001.HEIC')).toBe(true);
+  });
+
+  it('falls back to the extension when the browser sends no specific MIME type', () => {
+    expect(isConvertibleImage('application/octet-stream', 'DSC_0042.NEF')).toBe(true);
+    expect(isConvertibleImage('', 'IMG_0001.heic')).toBe(true);
+  });
+
+  it('trusts a specific MIME type over the extension', () => {
+    expect(isConvertibleImage('image/jpeg', 'renamed.heic')).toBe(false);
+  });
+
+  it('ignores files without an extension', () => {
+    expect(isConvertibleImage('application/octet-stream', 'IMG_0001')).toBe(false);
+  });
+});
+
+describe('isSupportedMediaFile', () => {
+  it('accepts photos, videos and convertible images', () => {
+    expect(isSupportedMediaFile('image/jpeg', 'beach.jpg')).toBe(true);
+    expect(isSupportedMediaFile('video/mp4', 'clip.mp4')).toBe(true);
+    expect(isSupportedMediaFile('application/octet-stream', 'DSC_0042.cr2')).toBe(true);
+  });
+
+  it('rejects other files', () => {
+    expect(isSupportedMediaFile('application/pdf', 'notes.pdf')).toBe(false);
+    expect(isSupportedMediaFile('application/octet-stream', 'archive.zip')).toBe(false);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from '@jest/globals';
+import { normalizeTags } from '../../shared/utils/mediaTags.js';
+import { DEFAULTS } from '../../shared/constants/index.js';
+
+describe('normalizeTags', () => {
+  it('lowercases, trims and strips hashes so spellings of a tag line up', () => {
+    expect(normalizeTags(['  Beach ', '#beach', '##BEACH', 'Day   2'])).toEqual(['beach', 'day 2']);
+  });
+
+  it('drops empty tags', () => {
+    expect(normalizeTags(['', '   ', '#'])).toEqual([]);
+  });
+
+  it('caps the length of a tag and the number of tags', () => {
+    const tags = normalizeTags(Array.from({ length: 30 }, (_, i) => `tag-${i}-${'x'.repeat(50)}`));
+
+    expect(tags).toHaveLength(DEFAULTS.MAX_TAGS_PER_MEDIA);
+    expect(tags.every(tag => tag.length === DEFAULTS.MAX_TAG_LENGTH)).toBe(true);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from '@jest/globals';
+import { hammingDistance } from '../../shared/utils/perceptualHash.js';
+
+describe('hammingDistance', () => {
+  it('is 0 for identical hashes', () => {
+    expect(hammingDistance('f0e1d2c3b4a59687', 'f0e1d2c3b4a59687')).toBe(0);
+  });
+
+  it('counts every differing bit', () => {
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    expect(hammingDistance('0000000000000000', '0000000000000001')).toBe(1);
+    expect(hammingDistance('0000000000000000', '8000000000000000')).toBe(1);
+    expect(hammingDistance('00000000000000f0', '000000000000000f')).toBe(8);
+  });
+
+  it('is symmetric', () => {
+    const a = '9c3e71a05b2d48f6';
+    const b = '1c3f70a15b2c48e7';
+    expect(hammingDistance(a, b)).toBe(hammingDistance(b, a));
+    expect(hammingDistance(a, b)).toBe(7);
+  });
+
+  it('ignores hex digit case', () => {
+    expect(hammingDistance('ABCDEF0123456789', 'abcdef0123456789')).toBe(0);
+  });
+});
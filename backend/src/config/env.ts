@@ -22,6 +22,13 @@ const envSchema = z.object({
   AWS_S3_BUCKET_NAME: z.string().min(1, 'AWS_S3_BUCKET_NAME is required'),
   AWS_REKOGNITION_COLLECTION_PREFIX: z.string().default('face-media-group'),
 
+  // Face Recognition ('rekognition' = AWS, 'local' = offline MongoDB-backed collections)
+  FACE_RECOGNITION_PROVIDER: z.enum(['rekognition', 'local']).default('rekognition'),
+
+  // Video processing (ffmpeg/ffprobe binaries on the PATH by default)
+  FFMPEG_PATH: z.string().default('ffmpeg'),
+  FFPROBE_PATH: z.string().default('ffprobe'),
+
   // Clerk
   CLERK_PUBLISHABLE_KEY: z.string().min(1, 'CLERK_PUBLISHABLE_KEY is required'),
   CLERK_SECRET_KEY: z.string().min(1, 'CLERK_SECRET_KEY is required'),
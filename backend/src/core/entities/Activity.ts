@@ -0,0 +1,31 @@
+import { ActivityTypeType } from '../../shared/types/index.js';
+
+/**
+ * Something a member did in a group, shown in the group's activity feed.
+ * Details such as counts or names are kept in metadata as they were at the time.
+ */
+export class Activity {
+  constructor(
+    public readonly id: string,
+    public readonly groupId: string,
+    public readonly userId: string, // Clerk ID of the member who did it
+    public readonly type: ActivityTypeType,
+    public readonly metadata: Record<string, unknown> = {},
+    public readonly createdAt: Date = new Date()
+  ) {}
+
+  static create(data: {
+    groupId: string;
+    userId: string;
+    type: ActivityTypeType;
+    metadata?: Record<string, unknown>;
+  }): Activity {
+    return new Activity(
+      '', // ID will be assigned by repository
+      data.groupId,
+      data.userId,
+      data.type,
+      data.metadata || {}
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * A named, ordered selection of a group's media ("Ceremony", "Day 2").
+ * A media item can be in several albums.
+ */
+export class Album {
+  constructor(
+    public readonly id: string,
+    public readonly groupId: string,
+    public readonly name: string,
+    public readonly createdBy: string, // Clerk ID of the member who created the album
+    public readonly mediaIds: string[], // In display order
+    public readonly description?: string,
+    public readonly coverMediaId?: string,
+    public readonly createdAt: Date = new Date(),
+    public readonly updatedAt: Date = new Date()
+  ) {}
+
+  static create(data: {
+    groupId: string;
+    name: string;
+    createdBy: string;
+    description?: string;
+    mediaIds?: string[];
+  }): Album {
+    return new Album(
+      '', // ID will be assigned by repository
+      data.groupId,
+      data.name,
+      data.createdBy,
+      data.mediaIds || [],
+      data.description
+    );
+  }
+
+  hasMedia(mediaId: string): boolean {
+    return this.mediaIds.includes(mediaId);
+  }
+
+  /**
+   * The pinned cover, or the first item when none is pinned
+   */
+  coverId(): string | undefined {
+    return this.coverMediaId && this.hasMedia(this.coverMediaId) ? this.coverMediaId : this.mediaIds[0];
+  }
+
+  canBeManagedBy(userId: string, isGroupAdmin: boolean): boolean {
+    return this.createdBy === userId || isGroupAdmin;
+  }
+}
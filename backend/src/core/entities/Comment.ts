@@ -0,0 +1,63 @@
+/**
+ * A comment on a media item. Replies point at a top-level comment,
+ * so threads are one level deep.
+ */
+export class Comment {
+  constructor(
+    public readonly id: string,
+    public readonly mediaId: string,
+    public readonly groupId: string,
+    public readonly authorId: string, // Clerk user ID
+    public readonly body: string, // Empty once deleted
+    public readonly parentId?: string,
+    public readonly editedAt?: Date,
+    public readonly deletedAt?: Date, // Deleted comments with replies stay as a placeholder
+    public readonly deletedBy?: string, // Clerk ID, differs from authorId when an admin removed it
+    public readonly createdAt: Date = new Date(),
+    public readonly updatedAt: Date = new Date()
+  ) {}
+
+  static create(data: {
+    mediaId: string;
+    groupId: string;
+    authorId: string;
+    body: string;
+    parentId?: string;
+  }): Comment {
+    return new Comment(
+      '', // ID will be assigned by repository
+      data.mediaId,
+      data.groupId,
+      data.authorId,
+      data.body,
+      data.parentId
+    );
+  }
+
+  isDeleted(): boolean {
+    return !!this.deletedAt;
+  }
+
+  isReply(): boolean {
+    return !!this.parentId;
+  }
+
+  /**
+   * The top-level comment a reply to this comment belongs under
+   */
+  threadId(): string {
+    return this.parentId || this.id;
+  }
+
+  canBeEditedBy(userId: string): boolean {
+    return this.authorId === userId && !this.isDeleted();
+  }
+
+  canBeDeletedBy(userId: string, isGroupAdmin: boolean): boolean {
+    return this.authorId === userId || isGroupAdmin;
+  }
+
+  wasModerated(): boolean {
+    return !!this.deletedBy && this.deletedBy !== this.authorId;
+  }
+}
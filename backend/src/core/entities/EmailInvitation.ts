@@ -0,0 +1,70 @@
+import { nanoid } from 'nanoid';
+import { MemberRoleType } from '../../shared/types/index.js';
+import { DEFAULTS } from '../../shared/constants/index.js';
+
+export type EmailInvitationStatus = 'pending' | 'accepted' | 'cancelled';
+
+/**
+ * An invitation sent to one email address. The emailed link carries a
+ * personal token that can be used once; signing up with the address
+ * accepts the invitation automatically.
+ */
+export class EmailInvitation {
+  constructor(
+    public readonly id: string,
+    public readonly groupId: string,
+    public readonly email: string, // Lowercased
+    public readonly token: string,
+    public readonly invitedBy: string, // Clerk ID of the admin who sent the invitation
+    public readonly role: MemberRoleType,
+    public readonly status: EmailInvitationStatus,
+    public readonly expiresAt: Date,
+    public readonly sendCount: number,
+    public readonly lastSentAt: Date,
+    public readonly acceptedBy?: string, // Clerk ID of the user who accepted
+    public readonly acceptedAt?: Date,
+    public readonly createdAt: Date = new Date(),
+    public readonly updatedAt: Date = new Date()
+  ) {}
+
+  static create(data: {
+    groupId: string;
+    email: string;
+    invitedBy: string;
+    role: MemberRoleType;
+  }): EmailInvitation {
+    const now = new Date();
+
+    return new EmailInvitation(
+      '', // ID will be assigned by repository
+      data.groupId,
+      data.email.trim().toLowerCase(),
+      EmailInvitation.generateToken(),
+      data.invitedBy,
+      data.role,
+      'pending',
+      EmailInvitation.expiryFrom(now),
+      1,
+      now
+    );
+  }
+
+  static generateToken(): string {
+    return nanoid(32);
+  }
+
+  static expiryFrom(date: Date): Date {
+    return new Date(date.getTime() + DEFAULTS.EMAIL_INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  isExpired(): boolean {
+    return new Date() > this.expiresAt;
+  }
+
+  /**
+   * Pending and not expired, so the token can still be used
+   */
+  isOpen(): boolean {
+    return this.status === 'pending' && !this.isExpired();
+  }
+}
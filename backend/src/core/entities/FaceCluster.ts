@@ -5,6 +5,8 @@ export class FaceCluster {
     public readonly appearanceCount: number,
     public readonly confidence: number,
     public readonly clusterName?: string,
+    public readonly linkedUserId?: string, // Clerk ID of the group member this person is
+    public readonly coverFaceDetectionId?: string, // Face pinned as the cluster's cover
     public readonly createdAt: Date = new Date(),
     public readonly updatedAt: Date = new Date()
   ) {}
@@ -31,6 +33,8 @@ export class FaceCluster {
       this.appearanceCount,
       this.confidence,
       name,
+      this.linkedUserId,
+      this.coverFaceDetectionId,
       this.createdAt,
       new Date()
     );
@@ -43,11 +47,45 @@ export class FaceCluster {
       appearanceCount,
       confidence,
       this.clusterName,
+      this.linkedUserId,
+      this.coverFaceDetectionId,
       this.createdAt,
       new Date()
     );
   }
 
+  linkToUser(userId: string | undefined): FaceCluster {
+    return new FaceCluster(
+      this.id,
+      this.groupId,
+      this.appearanceCount,
+      this.confidence,
+      this.clusterName,
+      userId,
+      this.coverFaceDetectionId,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  pinCover(faceDetectionId: string | undefined): FaceCluster {
+    return new FaceCluster(
+      this.id,
+      this.groupId,
+      this.appearanceCount,
+      this.confidence,
+      this.clusterName,
+      this.linkedUserId,
+      faceDetectionId,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  isLinkedTo(userId: string): boolean {
+    return this.linkedUserId === userId;
+  }
+
   incrementAppearances(): FaceCluster {
     return new FaceCluster(
       this.id,
@@ -55,6 +93,8 @@ export class FaceCluster {
       this.appearanceCount + 1,
       this.confidence,
       this.clusterName,
+      this.linkedUserId,
+      this.coverFaceDetectionId,
       this.createdAt,
       new Date()
     );
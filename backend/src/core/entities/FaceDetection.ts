@@ -13,6 +13,7 @@ export class FaceDetection {
     public readonly qualityScore?: number,
     public readonly enhancedFace?: IEnhancedFace,
     public readonly thumbnailS3Key?: string,
+    public readonly timestampSeconds?: number, // Position in the video the face was sampled from
     public readonly createdAt: Date = new Date(),
     public readonly updatedAt: Date = new Date()
   ) {}
@@ -27,6 +28,7 @@ export class FaceDetection {
     qualityScore?: number;
     enhancedFace?: IEnhancedFace;
     thumbnailS3Key?: string;
+    timestampSeconds?: number;
   }): FaceDetection {
     return new FaceDetection(
       '', // ID will be assigned by repository
@@ -39,7 +41,8 @@ export class FaceDetection {
       data.pose,
       data.qualityScore,
       data.enhancedFace,
-      data.thumbnailS3Key
+      data.thumbnailS3Key,
+      data.timestampSeconds
     );
   }
 
@@ -56,6 +59,7 @@ export class FaceDetection {
       this.qualityScore,
       this.enhancedFace,
       this.thumbnailS3Key,
+      this.timestampSeconds,
       this.createdAt,
       new Date()
     );
@@ -74,6 +78,7 @@ export class FaceDetection {
       this.qualityScore,
       enhancedFace,
       this.thumbnailS3Key,
+      this.timestampSeconds,
       this.createdAt,
       new Date()
     );
@@ -92,6 +97,7 @@ export class FaceDetection {
       this.qualityScore,
       this.enhancedFace,
       thumbnailS3Key,
+      this.timestampSeconds,
       this.createdAt,
       new Date()
     );
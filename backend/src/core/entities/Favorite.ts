@@ -0,0 +1,22 @@
+/**
+ * A member starring a media item. Favourites are private to the member
+ * but their counts feed the suggested highlights.
+ */
+export class Favorite {
+  constructor(
+    public readonly id: string,
+    public readonly mediaId: string,
+    public readonly groupId: string,
+    public readonly userId: string, // Clerk user ID
+    public readonly createdAt: Date = new Date()
+  ) {}
+
+  static create(data: { mediaId: string; groupId: string; userId: string }): Favorite {
+    return new Favorite(
+      '', // ID will be assigned by repository
+      data.mediaId,
+      data.groupId,
+      data.userId
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { MemberRoleType } from '../../shared/types/index.js';
 import { MemberRole, DEFAULTS } from '../../shared/constants/index.js';
-import { ForbiddenError } from '../../shared/errors/AppError.js';
+import { ForbiddenError, BadRequestError } from '../../shared/errors/AppError.js';
 
 export class MemberPermissions {
   constructor(
@@ -62,6 +62,30 @@ export class GroupMember {
   }
 }
 
+export class ClusteringSettings {
+  constructor(
+    public readonly similarityThreshold: number,
+    public readonly minClusterSize: number,
+    public readonly qualityThreshold: number
+  ) {}
+
+  static default(): ClusteringSettings {
+    return new ClusteringSettings(
+      DEFAULTS.FACE_SIMILARITY_THRESHOLD,
+      DEFAULTS.MIN_CLUSTER_SIZE,
+      DEFAULTS.FACE_QUALITY_THRESHOLD
+    );
+  }
+
+  update(settings: Partial<ClusteringSettings>): ClusteringSettings {
+    return new ClusteringSettings(
+      settings.similarityThreshold ?? this.similarityThreshold,
+      settings.minClusterSize ?? this.minClusterSize,
+      settings.qualityThreshold ?? this.qualityThreshold
+    );
+  }
+}
+
 export class Group {
   constructor(
     public readonly id: string,
@@ -74,6 +98,8 @@ export class Group {
     public readonly autoDeleteDays: number,
     public readonly description?: string,
     public readonly rekognitionCollectionId?: string,
+    public readonly clusteringSettings: ClusteringSettings = ClusteringSettings.default(),
+    public readonly requireApproval: boolean = false, // Joining with a code needs an admin's approval
     public readonly createdAt: Date = new Date(),
     public readonly updatedAt: Date = new Date()
   ) {}
@@ -150,6 +176,8 @@ export class Group {
       this.autoDeleteDays,
       this.description,
       this.rekognitionCollectionId,
+      this.clusteringSettings,
+      this.requireApproval,
       this.createdAt,
       new Date()
     );
@@ -171,6 +199,43 @@ export class Group {
       this.autoDeleteDays,
       this.description,
       this.rekognitionCollectionId,
+      this.clusteringSettings,
+      this.requireApproval,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Hand the group to another admin; the previous owner stays an admin
+   * until they leave or are changed like any other member
+   */
+  transferOwnership(newOwnerId: string): Group {
+    if (newOwnerId === this.creatorId) {
+      throw new BadRequestError('This member already owns the group');
+    }
+
+    if (!this.isMember(newOwnerId)) {
+      throw new BadRequestError('The new owner must be a member of the group');
+    }
+
+    if (!this.isAdmin(newOwnerId)) {
+      throw new BadRequestError('Make the new owner an admin before transferring ownership');
+    }
+
+    return new Group(
+      this.id,
+      this.name,
+      this.inviteCode,
+      newOwnerId,
+      this.members,
+      this.storageLimit,
+      this.storageUsed,
+      this.autoDeleteDays,
+      this.description,
+      this.rekognitionCollectionId,
+      this.clusteringSettings,
+      this.requireApproval,
       this.createdAt,
       new Date()
     );
@@ -201,6 +266,8 @@ export class Group {
       this.autoDeleteDays,
       this.description,
       this.rekognitionCollectionId,
+      this.clusteringSettings,
+      this.requireApproval,
       this.createdAt,
       new Date()
     );
@@ -218,6 +285,30 @@ export class Group {
       this.autoDeleteDays,
       this.description,
       this.rekognitionCollectionId,
+      this.clusteringSettings,
+      this.requireApproval,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Replace a leaked invite code; the old code stops working straight away
+   */
+  regenerateInviteCode(inviteCode: string): Group {
+    return new Group(
+      this.id,
+      this.name,
+      inviteCode,
+      this.creatorId,
+      this.members,
+      this.storageLimit,
+      this.storageUsed,
+      this.autoDeleteDays,
+      this.description,
+      this.rekognitionCollectionId,
+      this.clusteringSettings,
+      this.requireApproval,
       this.createdAt,
       new Date()
     );
@@ -235,12 +326,21 @@ export class Group {
       this.autoDeleteDays,
       this.description,
       collectionId,
+      this.clusteringSettings,
+      this.requireApproval,
       this.createdAt,
       new Date()
     );
   }
 
-  update(data: { name?: string; description?: string; storageLimit?: number; autoDeleteDays?: number }): Group {
+  update(data: {
+    name?: string;
+    description?: string;
+    storageLimit?: number;
+    autoDeleteDays?: number;
+    clusteringSettings?: Partial<ClusteringSettings>;
+    requireApproval?: boolean;
+  }): Group {
     return new Group(
       this.id,
       data.name ?? this.name,
@@ -252,6 +352,10 @@ export class Group {
       data.autoDeleteDays ?? this.autoDeleteDays,
       data.description ?? this.description,
       this.rekognitionCollectionId,
+      data.clusteringSettings
+        ? this.clusteringSettings.update(data.clusteringSettings)
+        : this.clusteringSettings,
+      data.requireApproval ?? this.requireApproval,
       this.createdAt,
       new Date()
     );
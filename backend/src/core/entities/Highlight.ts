@@ -0,0 +1,21 @@
+/**
+ * A media item an admin picked for the group's "best of" selection.
+ */
+export class Highlight {
+  constructor(
+    public readonly id: string,
+    public readonly mediaId: string,
+    public readonly groupId: string,
+    public readonly addedBy: string, // Clerk ID of the admin who picked it
+    public readonly createdAt: Date = new Date()
+  ) {}
+
+  static create(data: { mediaId: string; groupId: string; addedBy: string }): Highlight {
+    return new Highlight(
+      '', // ID will be assigned by repository
+      data.mediaId,
+      data.groupId,
+      data.addedBy
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { MemberRoleType } from '../../shared/types/index.js';
+
+export type InviteStatus = 'active' | 'expired' | 'exhausted' | 'revoked';
+
+export interface InviteUse {
+  userId: string; // Clerk ID of the member who joined with the invite
+  usedAt: Date;
+}
+
+/**
+ * A named invite to a group, alongside the group's permanent invite code.
+ * Each invite has its own code and grants a role on join, optionally
+ * expiring or limited to a number of uses ("Extended family", 20 uses, viewer).
+ */
+export class Invite {
+  constructor(
+    public readonly id: string,
+    public readonly groupId: string,
+    public readonly code: string,
+    public readonly createdBy: string, // Clerk ID of the admin who created the invite
+    public readonly role: MemberRoleType,
+    public readonly uses: InviteUse[],
+    public readonly label?: string,
+    public readonly expiresAt?: Date,
+    public readonly maxUses?: number,
+    public readonly revokedAt?: Date,
+    public readonly createdAt: Date = new Date(),
+    public readonly updatedAt: Date = new Date()
+  ) {}
+
+  static create(data: {
+    groupId: string;
+    code: string;
+    createdBy: string;
+    role: MemberRoleType;
+    label?: string;
+    expiresAt?: Date;
+    maxUses?: number;
+  }): Invite {
+    return new Invite(
+      '', // ID will be assigned by repository
+      data.groupId,
+      data.code,
+      data.createdBy,
+      data.role,
+      [],
+      data.label,
+      data.expiresAt,
+      data.maxUses
+    );
+  }
+
+  get useCount(): number {
+    return this.uses.length;
+  }
+
+  /**
+   * Uses left before the invite is exhausted, undefined when unlimited
+   */
+  remainingUses(): number | undefined {
+    return this.maxUses === undefined ? undefined : Math.max(this.maxUses - this.useCount, 0);
+  }
+
+  status(): InviteStatus {
+    if (this.revokedAt) return 'revoked';
+    if (this.expiresAt && new Date() > this.expiresAt) return 'expired';
+    if (this.remainingUses() === 0) return 'exhausted';
+    return 'active';
+  }
+
+  isUsable(): boolean {
+    return this.status() === 'active';
+  }
+}
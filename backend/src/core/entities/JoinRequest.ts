@@ -0,0 +1,43 @@
+import { MemberRoleType } from '../../shared/types/index.js';
+
+export type JoinRequestStatus = 'pending' | 'approved' | 'denied';
+
+/**
+ * A request to join a group that requires admin approval.
+ * Created when someone uses the group's invite code or a named invite;
+ * the member is only added once an admin approves it.
+ */
+export class JoinRequest {
+  constructor(
+    public readonly id: string,
+    public readonly groupId: string,
+    public readonly userId: string, // Clerk ID of the person asking to join
+    public readonly role: MemberRoleType, // Role granted on approval
+    public readonly status: JoinRequestStatus,
+    public readonly inviteId?: string, // Named invite the request came through
+    public readonly reviewedBy?: string, // Clerk ID of the admin who approved or denied it
+    public readonly reviewedAt?: Date,
+    public readonly createdAt: Date = new Date(),
+    public readonly updatedAt: Date = new Date()
+  ) {}
+
+  static create(data: {
+    groupId: string;
+    userId: string;
+    role: MemberRoleType;
+    inviteId?: string;
+  }): JoinRequest {
+    return new JoinRequest(
+      '', // ID will be assigned by repository
+      data.groupId,
+      data.userId,
+      data.role,
+      'pending',
+      data.inviteId
+    );
+  }
+
+  isPending(): boolean {
+    return this.status === 'pending';
+  }
+}
@@ -1,3 +1,13 @@
+import { MediaProcessingStatus, MediaType, DownloadVariant } from '../../shared/constants/index.js';
+import {
+  MediaProcessingStatusType,
+  MediaTypeValue,
+  DownloadVariantType,
+  MediaLocation,
+  MediaDerivatives,
+} from '../../shared/types/index.js';
+import { isConvertibleImage } from '../../shared/utils/mediaFileTypes.js';
+
 export class Media {
   constructor(
     public readonly id: string,
@@ -13,6 +23,24 @@ export class Media {
     public readonly processed: boolean,
     public readonly width?: number,
     public readonly height?: number,
+    public readonly processingStatus: MediaProcessingStatusType = MediaProcessingStatus.PENDING,
+    public readonly processingAttempts: number = 0,
+    public readonly lastError?: string,
+    public readonly mediaType: MediaTypeValue = MediaType.IMAGE,
+    public readonly durationSeconds?: number, // Videos only
+    public readonly posterS3Key?: string, // Poster frame shown in place of a video
+    public readonly originalS3Key?: string, // HEIC/RAW upload, s3Key then holds the converted JPEG
+    public readonly originalMimeType?: string,
+    public readonly takenAt?: Date, // Capture time from EXIF or video metadata
+    public readonly cameraMake?: string,
+    public readonly cameraModel?: string,
+    public readonly orientation?: number, // EXIF orientation 1-8
+    public readonly location?: MediaLocation,
+    public readonly derivatives?: MediaDerivatives, // Generated after upload by the derivatives worker
+    public readonly contentHash?: string, // SHA-256 of the uploaded file
+    public readonly perceptualHash?: string, // 64-bit difference hash as hex, see IImageProcessingService
+    public readonly caption?: string,
+    public readonly tags: string[] = [], // Normalised with normalizeTags
     public readonly createdAt: Date = new Date(),
     public readonly updatedAt: Date = new Date()
   ) {}
@@ -29,6 +57,18 @@ export class Media {
     fileSize: number;
     width?: number;
     height?: number;
+    mediaType?: MediaTypeValue;
+    durationSeconds?: number;
+    posterS3Key?: string;
+    originalS3Key?: string;
+    originalMimeType?: string;
+    takenAt?: Date;
+    cameraMake?: string;
+    cameraModel?: string;
+    orientation?: number;
+    location?: MediaLocation;
+    contentHash?: string;
+    perceptualHash?: string;
   }): Media {
     return new Media(
       '', // ID will be assigned by repository
@@ -43,7 +83,23 @@ export class Media {
       data.fileSize,
       false, // Not processed initially
       data.width,
-      data.height
+      data.height,
+      MediaProcessingStatus.PENDING,
+      0,
+      undefined,
+      data.mediaType || MediaType.IMAGE,
+      data.durationSeconds,
+      data.posterS3Key,
+      data.originalS3Key,
+      data.originalMimeType,
+      data.takenAt,
+      data.cameraMake,
+      data.cameraModel,
+      data.orientation,
+      data.location,
+      undefined,
+      data.contentHash,
+      data.perceptualHash
     );
   }
 
@@ -62,12 +118,118 @@ export class Media {
       true,
       this.width,
       this.height,
+      MediaProcessingStatus.DONE,
+      this.processingAttempts,
+      undefined,
+      this.mediaType,
+      this.durationSeconds,
+      this.posterS3Key,
+      this.originalS3Key,
+      this.originalMimeType,
+      this.takenAt,
+      this.cameraMake,
+      this.cameraModel,
+      this.orientation,
+      this.location,
+      this.derivatives,
+      this.contentHash,
+      this.perceptualHash,
+      this.caption,
+      this.tags,
       this.createdAt,
       new Date()
     );
   }
 
+  /**
+   * When the photo was taken, falling back to the upload time
+   */
+  capturedAt(): Date {
+    return this.takenAt ?? this.createdAt;
+  }
+
+  hasFailed(): boolean {
+    return this.processingStatus === MediaProcessingStatus.FAILED;
+  }
+
+  /**
+   * Pending or processing items that haven't been touched for a while
+   * were most likely lost by the queue
+   */
+  isStuck(stuckBefore: Date): boolean {
+    return (
+      (this.processingStatus === MediaProcessingStatus.PENDING ||
+        this.processingStatus === MediaProcessingStatus.PROCESSING) &&
+      this.updatedAt < stuckBefore
+    );
+  }
+
   isImage(): boolean {
     return this.mimeType.startsWith('image/');
   }
+
+  isVideo(): boolean {
+    return this.mediaType === MediaType.VIDEO;
+  }
+
+  /**
+   * Session uploads are probed and converted by the preparation worker after they are saved.
+   * Until then a video has no poster and a HEIC/RAW file no JPEG derivative
+   */
+  needsPreparation(): boolean {
+    return this.isVideo()
+      ? !this.posterS3Key
+      : !this.originalS3Key && isConvertibleImage(this.mimeType, this.originalName);
+  }
+
+  /**
+   * All storage objects belonging to this media item
+   */
+  storageKeys(): string[] {
+    const derivativeKeys = Object.values(this.derivatives ?? {}).flatMap(d => [d.webpS3Key, d.avifS3Key]);
+    return [this.s3Key, this.posterS3Key, this.originalS3Key, ...derivativeKeys].filter(
+      (key): key is string => !!key
+    );
+  }
+
+  /**
+   * Storage key of the image derivatives are generated from
+   */
+  derivativeSourceKey(): string | undefined {
+    return this.isVideo() ? this.posterS3Key : this.s3Key;
+  }
+
+  /**
+   * Uploaders annotate their own media, admins annotate anything in the group
+   */
+  canBeAnnotatedBy(userId: string, isGroupAdmin: boolean): boolean {
+    return this.uploaderId === userId || isGroupAdmin;
+  }
+
+  hasDerivatives(): boolean {
+    return !!this.derivatives && Object.keys(this.derivatives).length > 0;
+  }
+
+  /**
+   * Whether the upload was converted and the original is kept alongside
+   */
+  isConverted(): boolean {
+    return !!this.originalS3Key;
+  }
+
+  /**
+   * Storage key and file name to download, either the file as uploaded or its JPEG conversion
+   * Media without a conversion always downloads the uploaded file
+   */
+  downloadTarget(variant: DownloadVariantType = DownloadVariant.ORIGINAL): { s3Key: string; filename: string } {
+    if (this.originalS3Key && variant === DownloadVariant.ORIGINAL) {
+      return { s3Key: this.originalS3Key, filename: this.originalName };
+    }
+
+    if (this.originalS3Key) {
+      return { s3Key: this.s3Key, filename: this.originalName.replace(/\.[^.]+$/, '') + '.jpg' };
+    }
+
+    return { s3Key: this.s3Key, filename: this.originalName };
+  }
 }
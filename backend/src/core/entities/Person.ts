@@ -0,0 +1,40 @@
+export interface PersonClusterLink {
+  clusterId: string;
+  groupId: string;
+}
+
+/**
+ * A user-owned identity that ties together face clusters of the same
+ * real person across the groups the owner belongs to.
+ */
+export class Person {
+  constructor(
+    public readonly id: string,
+    public readonly ownerId: string, // Clerk ID of the user who created this person
+    public readonly name: string,
+    public readonly clusters: PersonClusterLink[],
+    public readonly createdAt: Date = new Date(),
+    public readonly updatedAt: Date = new Date()
+  ) {}
+
+  static create(data: {
+    ownerId: string;
+    name: string;
+    clusters?: PersonClusterLink[];
+  }): Person {
+    return new Person(
+      '', // ID will be assigned by repository
+      data.ownerId,
+      data.name,
+      data.clusters || []
+    );
+  }
+
+  isOwnedBy(userId: string): boolean {
+    return this.ownerId === userId;
+  }
+
+  hasCluster(clusterId: string): boolean {
+    return this.clusters.some(link => link.clusterId === clusterId);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * An emoji reaction from one member on a media item.
+ * A member can leave several different emoji on the same item, each once.
+ */
+export class Reaction {
+  constructor(
+    public readonly id: string,
+    public readonly mediaId: string,
+    public readonly groupId: string,
+    public readonly userId: string, // Clerk user ID
+    public readonly emoji: string, // One of REACTION_EMOJIS
+    public readonly createdAt: Date = new Date()
+  ) {}
+
+  static create(data: { mediaId: string; groupId: string; userId: string; emoji: string }): Reaction {
+    return new Reaction(
+      '', // ID will be assigned by repository
+      data.mediaId,
+      data.groupId,
+      data.userId,
+      data.emoji
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { nanoid } from 'nanoid';
 
-export type ResourceType = 'group' | 'media' | 'cluster';
+export type ResourceType = 'group' | 'media' | 'cluster' | 'album';
 
 export interface SharePermissions {
   canView: boolean;
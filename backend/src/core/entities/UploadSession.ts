@@ -0,0 +1,81 @@
+import { UploadSessionStatus, DEFAULTS } from '../../shared/constants/index.js';
+import { UploadSessionStatusType, UploadedPart } from '../../shared/types/index.js';
+
+/**
+ * A resumable upload of one file, sent by the client straight to storage in parts.
+ * Becomes a Media record once every part has arrived and the session is finalised.
+ */
+export class UploadSession {
+  constructor(
+    public readonly id: string,
+    public readonly groupId: string,
+    public readonly userId: string,
+    public readonly originalName: string,
+    public readonly mimeType: string,
+    public readonly fileSize: number,
+    public readonly s3Key: string,
+    public readonly uploadId: string, // Multipart upload ID from storage
+    public readonly partSize: number,
+    public readonly completedParts: UploadedPart[],
+    public readonly status: UploadSessionStatusType,
+    public readonly expiresAt: Date,
+    public readonly mediaId?: string, // Set once finalised
+    public readonly createdAt: Date = new Date(),
+    public readonly updatedAt: Date = new Date()
+  ) {}
+
+  static create(data: {
+    groupId: string;
+    userId: string;
+    originalName: string;
+    mimeType: string;
+    fileSize: number;
+    s3Key: string;
+    uploadId: string;
+  }): UploadSession {
+    return new UploadSession(
+      '', // ID will be assigned by repository
+      data.groupId,
+      data.userId,
+      data.originalName,
+      data.mimeType,
+      data.fileSize,
+      data.s3Key,
+      data.uploadId,
+      DEFAULTS.UPLOAD_PART_SIZE,
+      [],
+      UploadSessionStatus.ACTIVE,
+      new Date(Date.now() + DEFAULTS.UPLOAD_SESSION_TTL_HOURS * 60 * 60 * 1000)
+    );
+  }
+
+  totalParts(): number {
+    return Math.max(1, Math.ceil(this.fileSize / this.partSize));
+  }
+
+  isOwnedBy(userId: string): boolean {
+    return this.userId === userId;
+  }
+
+  isActive(): boolean {
+    return this.status === UploadSessionStatus.ACTIVE && this.expiresAt > new Date();
+  }
+
+  /**
+   * Part numbers (1-based) storage has not received yet
+   */
+  missingPartNumbers(): number[] {
+    const completed = new Set(this.completedParts.map(p => p.partNumber));
+    const missing: number[] = [];
+    for (let partNumber = 1; partNumber <= this.totalParts(); partNumber++) {
+      if (!completed.has(partNumber)) {
+        missing.push(partNumber);
+      }
+    }
+    return missing;
+  }
+
+  isComplete(): boolean {
+    return this.missingPartNumbers().length === 0;
+  }
+}
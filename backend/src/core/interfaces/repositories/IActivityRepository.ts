@@ -0,0 +1,20 @@
+import { Activity } from '../../entities/Activity.js';
+
+/**
+ * Position in a group's feed; listing continues with older activities
+ */
+export interface ActivityCursor {
+  createdAt: Date;
+  id: string;
+}
+
+export interface IActivityRepository {
+  create(activity: Activity): Promise<Activity>;
+
+  /**
+   * A group's activities newest first, starting after the cursor when given
+   */
+  findByGroupId(groupId: string, limit: number, before?: ActivityCursor): Promise<Activity[]>;
+
+  deleteByGroupId(groupId: string): Promise<number>;
+}
@@ -0,0 +1,28 @@
+import { Album } from '../../entities/Album.js';
+
+export interface IAlbumRepository {
+  create(album: Album): Promise<Album>;
+  findById(id: string): Promise<Album | null>;
+  findByGroupId(groupId: string): Promise<Album[]>;
+  update(id: string, data: Partial<Pick<Album, 'name' | 'description'>>): Promise<Album | null>;
+  delete(id: string): Promise<boolean>;
+  deleteByGroupId(groupId: string): Promise<number>;
+
+  /**
+   * Append media to the end of an album, skipping items already in it
+   */
+  addMedia(id: string, mediaIds: string[]): Promise<Album | null>;
+
+  /**
+   * Remove media from an album, clearing the cover if it was removed
+   */
+  removeMedia(id: string, mediaIds: string[]): Promise<Album | null>;
+
+  /**
+   * Remove deleted media from every album that contains it
+   */
+  removeMediaFromAll(mediaIds: string[]): Promise<void>;
+
+  setMediaOrder(id: string, mediaIds: string[]): Promise<Album | null>;
+  setCover(id: string, mediaId: string | null): Promise<Album | null>;
+}
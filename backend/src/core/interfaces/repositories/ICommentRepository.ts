@@ -0,0 +1,51 @@
+import { Comment } from '../../entities/Comment.js';
+import { Reaction } from '../../entities/Reaction.js';
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reacted: boolean; // Whether the requesting user left this reaction
+}
+
+export interface ICommentRepository {
+  create(comment: Comment): Promise<Comment>;
+  findById(id: string): Promise<Comment | null>;
+
+  /**
+   * Every comment on a media item, oldest first, including deleted placeholders
+   */
+  findByMediaId(mediaId: string): Promise<Comment[]>;
+
+  updateBody(id: string, body: string): Promise<Comment | null>;
+
+  /**
+   * Clear the body but keep the comment so its replies still have a parent
+   */
+  softDelete(id: string, deletedBy: string): Promise<Comment | null>;
+
+  delete(id: string): Promise<boolean>;
+  countReplies(id: string): Promise<number>;
+  deleteByMediaId(mediaId: string): Promise<number>;
+  deleteByGroupId(groupId: string): Promise<number>;
+
+  /**
+   * Comments that aren't deleted, per media item
+   */
+  countByMediaIds(mediaIds: string[]): Promise<Record<string, number>>;
+}
+
+export interface IReactionRepository {
+  /**
+   * Returns false when the user already left this reaction
+   */
+  add(reaction: Reaction): Promise<boolean>;
+
+  remove(mediaId: string, userId: string, emoji: string): Promise<boolean>;
+  deleteByMediaId(mediaId: string): Promise<number>;
+  deleteByGroupId(groupId: string): Promise<number>;
+
+  /**
+   * Reaction counts per media item, most used emoji first
+   */
+  summarizeByMediaIds(mediaIds: string[], userId: string): Promise<Record<string, ReactionSummary[]>>;
+}
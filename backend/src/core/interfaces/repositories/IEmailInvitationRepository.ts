@@ -0,0 +1,31 @@
+import { EmailInvitation } from '../../entities/EmailInvitation.js';
+
+export interface IEmailInvitationRepository {
+  create(invitation: EmailInvitation): Promise<EmailInvitation>;
+  findById(id: string): Promise<EmailInvitation | null>;
+  findByToken(token: string): Promise<EmailInvitation | null>;
+
+  /**
+   * A group's pending invitations newest first, including expired ones
+   */
+  findPendingByGroupId(groupId: string): Promise<EmailInvitation[]>;
+
+  /**
+   * Pending invitations sent to any of the addresses (lowercased) and not yet expired
+   */
+  findOpenByEmails(emails: string[]): Promise<EmailInvitation[]>;
+
+  /**
+   * Replace the token and restart the expiry after sending the email again
+   */
+  renew(id: string, token: string, expiresAt: Date): Promise<EmailInvitation | null>;
+
+  /**
+   * Accept a pending, unexpired invitation
+   * Returns null when it was accepted, cancelled or expired in the meantime, so a token works once
+   */
+  markAccepted(id: string, userId: string): Promise<EmailInvitation | null>;
+
+  cancel(id: string): Promise<EmailInvitation | null>;
+  deleteByGroupId(groupId: string): Promise<number>;
+}
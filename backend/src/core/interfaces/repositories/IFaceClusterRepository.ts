@@ -10,6 +10,9 @@ export interface IFaceClusterRepository {
   delete(id: string): Promise<boolean>;
   deleteByGroupId(groupId: string): Promise<number>;
   updateName(id: string, name: string): Promise<FaceCluster | null>;
+  findByLinkedUser(groupId: string, userId: string): Promise<FaceCluster | null>;
+  setLinkedUser(id: string, userId: string | null): Promise<FaceCluster | null>;
+  setCoverFace(id: string, faceDetectionId: string | null): Promise<FaceCluster | null>;
 }
 
 export interface IFaceClusterMemberRepository {
@@ -17,9 +20,12 @@ export interface IFaceClusterMemberRepository {
   createMany(members: FaceClusterMember[]): Promise<FaceClusterMember[]>;
   findById(id: string): Promise<FaceClusterMember | null>;
   findByClusterId(clusterId: string): Promise<FaceClusterMember[]>;
+  findByClusterIds(clusterIds: string[]): Promise<FaceClusterMember[]>;
   findByFaceDetectionId(faceDetectionId: string): Promise<FaceClusterMember | null>;
+  findByFaceDetectionIds(faceDetectionIds: string[]): Promise<FaceClusterMember[]>;
   delete(id: string): Promise<boolean>;
   deleteByClusterId(clusterId: string): Promise<number>;
   deleteByFaceDetectionId(faceDetectionId: string): Promise<number>;
   countByClusterId(clusterId: string): Promise<number>;
+  moveToCluster(faceDetectionIds: string[], clusterId: string): Promise<number>;
 }
@@ -8,6 +8,7 @@ export interface IFaceDetectionRepository {
   findByMediaId(mediaId: string): Promise<FaceDetection[]>;
   findByMediaIds(mediaIds: string[]): Promise<FaceDetection[]>;
   findByRekognitionFaceId(faceId: string): Promise<FaceDetection | null>;
+  findByRekognitionFaceIds(faceIds: string[]): Promise<FaceDetection[]>;
   findUnprocessed(limit?: number): Promise<FaceDetection[]>;
   update(id: string, data: Partial<FaceDetection>): Promise<FaceDetection | null>;
   markAsProcessed(id: string): Promise<void>;
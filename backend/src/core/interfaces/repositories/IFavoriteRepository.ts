@@ -0,0 +1,51 @@
+import { Favorite } from '../../entities/Favorite.js';
+import { Highlight } from '../../entities/Highlight.js';
+
+export interface IFavoriteRepository {
+  /**
+   * Does nothing when the media is already a favourite
+   */
+  add(favorite: Favorite): Promise<void>;
+
+  remove(mediaId: string, userId: string): Promise<boolean>;
+
+  /**
+   * A member's favourites in a group, most recently starred first
+   */
+  findMediaIdsByUser(groupId: string, userId: string): Promise<string[]>;
+
+  /**
+   * Which of the given media the member starred
+   */
+  findFavoritedMediaIds(mediaIds: string[], userId: string): Promise<string[]>;
+
+  /**
+   * How many members starred each media item in a group, leaving out media nobody starred
+   */
+  countByGroupId(groupId: string): Promise<Record<string, number>>;
+
+  deleteByMediaId(mediaId: string): Promise<number>;
+  deleteByGroupId(groupId: string): Promise<number>;
+}
+
+export interface IHighlightRepository {
+  /**
+   * Does nothing when the media is already highlighted
+   */
+  add(highlight: Highlight): Promise<void>;
+
+  remove(mediaId: string): Promise<boolean>;
+
+  /**
+   * A group's highlights, most recently picked first
+   */
+  findMediaIdsByGroup(groupId: string): Promise<string[]>;
+
+  /**
+   * Which of the given media are highlighted
+   */
+  findHighlightedMediaIds(mediaIds: string[]): Promise<string[]>;
+
+  deleteByMediaId(mediaId: string): Promise<number>;
+  deleteByGroupId(groupId: string): Promise<number>;
+}
@@ -0,0 +1,21 @@
+import { Invite } from '../../entities/Invite.js';
+
+export interface IInviteRepository {
+  create(invite: Invite): Promise<Invite>;
+  findById(id: string): Promise<Invite | null>;
+  findByCode(code: string): Promise<Invite | null>;
+
+  /**
+   * A group's invites newest first, including revoked and used up ones
+   */
+  findByGroupId(groupId: string): Promise<Invite[]>;
+
+  /**
+   * Record a join against the invite, only while it is still usable
+   * Returns null when the invite was revoked, expired or used up in the meantime
+   */
+  recordUse(id: string, userId: string): Promise<Invite | null>;
+
+  revoke(id: string): Promise<Invite | null>;
+  deleteByGroupId(groupId: string): Promise<number>;
+}
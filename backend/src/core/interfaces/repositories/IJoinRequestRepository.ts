@@ -0,0 +1,29 @@
+import { JoinRequest, JoinRequestStatus } from '../../entities/JoinRequest.js';
+
+export interface IJoinRequestRepository {
+  create(request: JoinRequest): Promise<JoinRequest>;
+  findById(id: string): Promise<JoinRequest | null>;
+
+  /**
+   * The user's open request to join the group, if any
+   */
+  findPending(groupId: string, userId: string): Promise<JoinRequest | null>;
+
+  /**
+   * A group's open requests, oldest first so admins work through them in order
+   */
+  findPendingByGroupId(groupId: string): Promise<JoinRequest[]>;
+
+  /**
+   * Approve or deny a request, only while it is still pending
+   * Returns null when another admin already reviewed it
+   */
+  review(id: string, status: Exclude<JoinRequestStatus, 'pending'>, reviewedBy: string): Promise<JoinRequest | null>;
+
+  /**
+   * Put an approved request back to pending when the approval could not be completed
+   */
+  reopen(id: string): Promise<JoinRequest | null>;
+
+  deleteByGroupId(groupId: string): Promise<number>;
+}
@@ -1,11 +1,41 @@
 import { Media } from '../../entities/Media.js';
-import { PaginationParams, PaginatedResponse } from '../../../shared/types/index.js';
+import {
+  PaginationParams,
+  PaginatedResponse,
+  MediaProcessingStatusType,
+  MediaDerivatives,
+} from '../../../shared/types/index.js';
+import { PreparedMedia } from '../services/IMediaPreparationService.js';
+
+// Capture-time range for gallery listings, both bounds inclusive
+export interface MediaListFilters {
+  takenFrom?: Date;
+  takenTo?: Date;
+  uploaderId?: string;
+  tags?: string[]; // Media must have every tag
+  mediaIds?: string[]; // Restrict to these media, e.g. the photos of one cluster
+  text?: string; // Full-text match on caption, tags and filename
+}
+
+export interface MediaAnnotations {
+  caption?: string;
+  tags: string[];
+}
+
+export interface MediaTagCount {
+  tag: string;
+  count: number;
+}
 
 export interface IMediaRepository {
   create(media: Media): Promise<Media>;
   createMany(media: Media[]): Promise<Media[]>;
   findById(id: string): Promise<Media | null>;
-  findByGroupId(groupId: string, pagination?: PaginationParams): Promise<PaginatedResponse<Media>>;
+  findByGroupId(
+    groupId: string,
+    pagination?: PaginationParams,
+    filters?: MediaListFilters
+  ): Promise<PaginatedResponse<Media>>;
   findByUploader(groupId: string, uploaderId: string): Promise<Media[]>;
   findUnprocessed(limit?: number): Promise<Media[]>;
   findByIds(ids: string[]): Promise<Media[]>;
@@ -13,8 +43,25 @@ export interface IMediaRepository {
   delete(id: string): Promise<boolean>;
   deleteByGroupId(groupId: string): Promise<number>;
   markAsProcessed(id: string): Promise<void>;
+  updateProcessingStatus(id: string, status: MediaProcessingStatusType, error?: string): Promise<void>;
+  markUnfinishedAsFailed(ids: string[], error: string): Promise<number>;
+  findRetryableByGroupId(groupId: string, stuckBefore: Date): Promise<Media[]>;
+  resetProcessingStatus(ids: string[]): Promise<void>;
+  setDerivatives(id: string, derivatives: MediaDerivatives): Promise<void>;
+  /**
+   * Store what the preparation worker found, the converted JPEG becomes the main file
+   */
+  setPrepared(id: string, prepared: PreparedMedia): Promise<Media | null>;
+  findWithoutDerivatives(groupId: string): Promise<Media[]>;
+  findByContentHashes(groupId: string, contentHashes: string[]): Promise<Media[]>;
+  findHashedByGroupId(groupId: string): Promise<Media[]>;
+  setPerceptualHash(id: string, perceptualHash: string): Promise<void>;
+  setAnnotations(id: string, annotations: MediaAnnotations): Promise<Media | null>;
+  findTagsByGroupId(groupId: string, prefix?: string, limit?: number): Promise<MediaTagCount[]>;
   getGroupStorageUsed(groupId: string): Promise<number>;
   countByGroupId(groupId: string): Promise<number>;
+  backfillCapturedAt(): Promise<number>;
+  backfillProcessingStatus(): Promise<number>;
 
   // Cleanup methods
   findByGroupIdAndDate(groupId: string, startDate: Date | null, endDate: Date): Promise<Media[]>;
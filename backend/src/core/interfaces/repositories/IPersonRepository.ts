@@ -0,0 +1,26 @@
+import { Person, PersonClusterLink } from '../../entities/Person.js';
+
+export interface IPersonRepository {
+  create(person: Person): Promise<Person>;
+  findById(id: string): Promise<Person | null>;
+  findByOwner(ownerId: string): Promise<Person[]>;
+  update(id: string, data: Partial<Person>): Promise<Person | null>;
+  delete(id: string): Promise<boolean>;
+  deleteByOwner(ownerId: string): Promise<number>;
+
+  /**
+   * Link a cluster to a person, detaching it from the owner's other people
+   */
+  addCluster(id: string, link: PersonClusterLink): Promise<Person | null>;
+  removeCluster(id: string, clusterId: string): Promise<Person | null>;
+
+  /**
+   * Point links at a merged cluster to the cluster it was merged into
+   */
+  replaceCluster(sourceClusterId: string, targetClusterId: string): Promise<void>;
+
+  /**
+   * Drop an owner's links into a group they are no longer part of
+   */
+  removeGroupLinks(ownerId: string, groupId: string): Promise<void>;
+}
@@ -0,0 +1,22 @@
+import { UploadSession } from '../../entities/UploadSession.js';
+import { UploadedPart } from '../../../shared/types/index.js';
+
+export interface IUploadSessionRepository {
+  create(session: UploadSession): Promise<UploadSession>;
+  findById(id: string): Promise<UploadSession | null>;
+  findActiveByGroupAndUser(groupId: string, userId: string): Promise<UploadSession[]>;
+
+  /**
+   * Replace the recorded parts, e.g. with what storage reports when resuming
+   */
+  setCompletedParts(id: string, parts: UploadedPart[]): Promise<UploadSession | null>;
+
+  /**
+   * Record one part, replacing an earlier attempt with the same part number
+   */
+  addCompletedPart(id: string, part: UploadedPart): Promise<UploadSession | null>;
+
+  markCompleted(id: string, mediaId: string): Promise<void>;
+  markAborted(id: string): Promise<void>;
+  findExpired(now: Date): Promise<UploadSession[]>;
+}
@@ -10,9 +10,10 @@ export interface IEmailService {
   sendWelcomeEmail(userEmail: string, userName: string): Promise<void>;
   sendGroupInviteEmail(
     userEmail: string,
-    userName: string,
+    inviterName: string,
     groupName: string,
-    inviteCode: string
+    inviteUrl: string,
+    expiresAt: Date
   ): Promise<void>;
   sendProcessingCompleteEmail(
     userEmail: string,
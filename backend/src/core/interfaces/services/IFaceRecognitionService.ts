@@ -23,5 +23,16 @@ export interface IFaceRecognitionService {
     threshold?: number
   ): Promise<FaceSimilarity[]>;
 
+  /**
+   * Search a collection using the largest face in an image.
+   * The image is only compared, never indexed into the collection.
+   */
+  searchFacesByImage(
+    collectionId: string,
+    imageBuffer: Buffer,
+    maxFaces?: number,
+    threshold?: number
+  ): Promise<FaceSimilarity[]>;
+
   deleteFaces(collectionId: string, faceIds: string[]): Promise<void>;
 }
@@ -13,6 +13,7 @@ export interface IGdprService {
     groups: any[];
     uploadedMedia: any[];
     faceClusters: any[];
+    people: any[];
     exportedAt: Date;
   }>;
 
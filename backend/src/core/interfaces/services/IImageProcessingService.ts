@@ -0,0 +1,49 @@
+import { MediaLocation } from '../../../shared/types/index.js';
+
+export interface ConvertedImage {
+  buffer: Buffer;
+  width: number;
+  height: number;
+}
+
+export type DerivativeFormat = 'webp' | 'avif';
+
+export interface ImageMetadata {
+  width?: number; // As displayed, i.e. after applying the orientation
+  height?: number;
+  orientation?: number; // EXIF orientation 1-8
+  takenAt?: Date;
+  cameraMake?: string;
+  cameraModel?: string;
+  location?: MediaLocation;
+}
+
+export interface IImageProcessingService {
+  /**
+   * Convert an image the browser and face recognition can't read (HEIC/HEIF, RAW)
+   * into a JPEG, applying its EXIF orientation
+   */
+  convertToJpeg(imageBuffer: Buffer): Promise<ConvertedImage>;
+
+  /**
+   * Read dimensions and EXIF data (capture time, camera, orientation, GPS)
+   * Missing or unreadable fields are left undefined
+   */
+  extractMetadata(imageBuffer: Buffer): Promise<ImageMetadata>;
+
+  /**
+   * 64-bit difference hash (dHash) as 16 hex characters
+   * Visually similar images differ in only a few bits, see shared/utils/perceptualHash
+   */
+  perceptualHash(imageBuffer: Buffer): Promise<string>;
+
+  /**
+   * Downscale an image for display, never enlarging it
+   * @param maxDimension Longest edge of the result in pixels
+   */
+  createDerivative(
+    imageBuffer: Buffer,
+    maxDimension: number,
+    format: DerivativeFormat
+  ): Promise<ConvertedImage>;
+}
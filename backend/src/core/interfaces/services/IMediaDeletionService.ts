@@ -0,0 +1,33 @@
+import { Media } from '../../entities/Media.js';
+
+export interface MediaDeletionResult {
+  deletedCount: number;
+  freedSpace: number;
+  affectedClusterIds: string[]; // Clusters that lost faces, for cache invalidation
+}
+
+export type MediaDeletionReason = 'duplicates' | 'cleanup' | 'cluster' | 'left';
+
+/**
+ * Who deleted media, recorded as one MEDIA_DELETED entry in the group's feed
+ */
+export interface MediaDeletedBy {
+  userId: string; // Clerk ID of the member
+  reason?: MediaDeletionReason; // Unset for media deleted one by one
+}
+
+/**
+ * Media Deletion Service Interface
+ * Deletes media together with everything that hangs off it
+ */
+export interface IMediaDeletionService {
+  /**
+   * Delete media of one group: files, faces, comments, reactions,
+   * favourites and highlights, and take it out of albums, then refund the freed storage to the group.
+   * Callers check permissions first
+   * @param groupId - The group the media belongs to
+   * @param mediaItems - The media to delete
+   * @param deletedBy - Shown in the activity feed, null when erasing an account
+   */
+  deleteMedia(groupId: string, mediaItems: Media[], deletedBy: MediaDeletedBy | null): Promise<MediaDeletionResult>;
+}
@@ -0,0 +1,46 @@
+import { MediaLocation, MediaTypeValue, S3UploadResult, UploadedFile } from '../../../shared/types/index.js';
+
+/**
+ * What preparing a file found out, in the shape of the matching Media fields
+ */
+export interface PreparedMediaDetails {
+  mimeType?: string; // image/jpeg when the file was converted
+  originalS3Key?: string;
+  originalMimeType?: string;
+  mediaType?: MediaTypeValue;
+  durationSeconds?: number;
+  posterS3Key?: string;
+  width?: number;
+  height?: number;
+  orientation?: number;
+  takenAt?: Date;
+  cameraMake?: string;
+  cameraModel?: string;
+  location?: MediaLocation;
+  perceptualHash?: string;
+}
+
+export interface PreparedMedia {
+  converted?: S3UploadResult; // JPEG derivative of a HEIC/RAW file, becomes the media's main file
+  details: PreparedMediaDetails;
+}
+
+/**
+ * Media Preparation Service Interface
+ * Turns an uploaded file into what the gallery and face detection need
+ */
+export interface IMediaPreparationService {
+  /**
+   * Probe a video and upload its poster frame, or convert a HEIC/RAW image to JPEG
+   * and read the EXIF data of photos, then compute the near-duplicate hash.
+   * Throws BadRequestError for files that can't be read or are not allowed
+   * @param file - The file contents as uploaded
+   * @param groupId - The group the media belongs to
+   * @param original - Where the file already is in storage; otherwise a HEIC/RAW original is uploaded here
+   */
+  prepare(
+    file: Pick<UploadedFile, 'buffer' | 'originalname' | 'mimetype'>,
+    groupId: string,
+    original?: S3UploadResult
+  ): Promise<PreparedMedia>;
+}
@@ -1,4 +1,4 @@
-import { S3UploadResult } from '../../../shared/types/index.js';
+import { S3UploadResult, UploadedPart } from '../../../shared/types/index.js';
 import { Readable } from 'stream';
 
 export interface IStorageService {
@@ -26,4 +26,21 @@ export interface IStorageService {
   deleteFiles(keys: string[]): Promise<void>;
 
   fileExists(key: string): Promise<boolean>;
+
+  /**
+   * Multipart uploads let clients send large files straight to storage in parts
+   * @returns Upload ID identifying the multipart upload
+   */
+  createMultipartUpload(key: string, contentType: string): Promise<string>;
+
+  getPresignedPartUrl(key: string, uploadId: string, partNumber: number, expiresIn?: number): Promise<string>;
+
+  /**
+   * Parts storage has received so far, the source of truth when resuming
+   */
+  listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]>;
+
+  completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<S3UploadResult>;
+
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
 }
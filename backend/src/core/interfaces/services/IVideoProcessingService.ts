@@ -0,0 +1,35 @@
+export interface VideoMetadata {
+  durationSeconds: number;
+  width?: number;
+  height?: number;
+  recordedAt?: Date; // Creation time written by the camera
+}
+
+export interface VideoFrame {
+  timestampSeconds: number;
+  buffer: Buffer; // JPEG encoded frame
+}
+
+export interface IVideoProcessingService {
+  /**
+   * Read duration and dimensions of a video
+   */
+  probe(videoBuffer: Buffer): Promise<VideoMetadata>;
+
+  /**
+   * Extract a single JPEG frame, e.g. as poster image
+   * @param timestampSeconds Position of the frame in the video
+   */
+  extractFrame(videoBuffer: Buffer, timestampSeconds: number): Promise<Buffer>;
+
+  /**
+   * Sample JPEG frames at a fixed interval for face detection
+   * @param intervalSeconds Seconds between sampled frames
+   * @param maxFrames Upper bound on the number of frames, the interval is widened for long videos
+   */
+  extractKeyframes(
+    videoBuffer: Buffer,
+    intervalSeconds: number,
+    maxFrames: number
+  ): Promise<VideoFrame[]>;
+}
@@ -3,8 +3,9 @@ import { IUserRepository } from '../interfaces/repositories/IUserRepository.js';
 import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
 import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
 import { IFaceClusterRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
-import { IStorageService } from '../interfaces/services/IStorageService.js';
+import { IPersonRepository } from '../interfaces/repositories/IPersonRepository.js';
 import { IAuthService } from '../interfaces/services/IAuthService.js';
+import { IMediaDeletionService } from '../interfaces/services/IMediaDeletionService.js';
 
 export class GdprService implements IGdprService {
   constructor(
@@ -12,7 +13,8 @@ export class GdprService implements IGdprService {
     private groupRepository: IGroupRepository,
     private mediaRepository: IMediaRepository,
     private faceClusterRepository: IFaceClusterRepository,
-    private storageService: IStorageService,
+    private personRepository: IPersonRepository,
+    private mediaDeletionService: IMediaDeletionService,
     private authService: IAuthService
   ) {}
 
@@ -41,6 +43,9 @@ export class GdprService implements IGdprService {
       faceClusters.push(...clustersResponse.data);
     }
 
+    // Get people the user created across groups
+    const people = await this.personRepository.findByOwner(userId);
+
     return {
       user: {
         id: user.id,
@@ -77,6 +82,12 @@ export class GdprService implements IGdprService {
         confidence: cluster.confidence,
         createdAt: cluster.createdAt,
       })),
+      people: people.map((person) => ({
+        id: person.id,
+        name: person.name,
+        clusters: person.clusters,
+        createdAt: person.createdAt,
+      })),
       exportedAt: new Date(),
     };
   }
@@ -99,19 +110,7 @@ export class GdprService implements IGdprService {
     for (const group of groups) {
       // If user is the creator, delete entire group
       if (group.creatorId === userId) {
-        // Delete all media in group from S3
-        const allMedia = await this.mediaRepository.findByGroupId(group.id, {
-          page: 1,
-          limit: 10000, // Get all media
-        });
-
-        for (const media of allMedia.data) {
-          await this.storageService.deleteFile(media.s3Key);
-          await this.mediaRepository.delete(media.id);
-          deletedMedia++;
-        }
-
-        // Delete all face clusters
+        // Delete all face clusters (first, so they are counted before media deletion shrinks them)
         const clustersResponse = await this.faceClusterRepository.findByGroupId(group.id, { page: 1, limit: 10000 });
         for (const cluster of clustersResponse.data) {
           deletedFaces += cluster.appearanceCount;
@@ -119,6 +118,14 @@ export class GdprService implements IGdprService {
           deletedClusters++;
         }
 
+        // Delete all media in group with its files, faces, comments and reactions
+        const allMedia = await this.mediaRepository.findByGroupId(group.id, {
+          page: 1,
+          limit: 10000, // Get all media
+        });
+        const deleted = await this.mediaDeletionService.deleteMedia(group.id, allMedia.data, null);
+        deletedMedia += deleted.deletedCount;
+
         // Delete group
         await this.groupRepository.delete(group.id);
         deletedGroups++;
@@ -127,18 +134,16 @@ export class GdprService implements IGdprService {
         await this.groupRepository.removeMember(group.id, userId);
 
         // Delete media uploaded by this user in this group
+        // (refunds the group's storage)
         const userMedia = await this.mediaRepository.findByUploader(group.id, userId);
-        for (const media of userMedia) {
-          await this.storageService.deleteFile(media.s3Key);
-          await this.mediaRepository.delete(media.id);
-          deletedMedia++;
-
-          // Update group storage
-          await this.groupRepository.updateStorageUsed(group.id, -media.fileSize);
-        }
+        const deleted = await this.mediaDeletionService.deleteMedia(group.id, userMedia, null);
+        deletedMedia += deleted.deletedCount;
       }
     }
 
+    // Delete people the user created
+    await this.personRepository.deleteByOwner(userId);
+
     // Delete user from Clerk
     try {
       await this.authService.deleteUser(userId);
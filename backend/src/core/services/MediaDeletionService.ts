@@ -0,0 +1,139 @@
+import {
+  IMediaDeletionService,
+  MediaDeletionResult,
+  MediaDeletedBy,
+} from '../interfaces/services/IMediaDeletionService.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IAlbumRepository } from '../interfaces/repositories/IAlbumRepository.js';
+import { ICommentRepository, IReactionRepository } from '../interfaces/repositories/ICommentRepository.js';
+import { IFavoriteRepository, IHighlightRepository } from '../interfaces/repositories/IFavoriteRepository.js';
+import { IActivityRepository } from '../interfaces/repositories/IActivityRepository.js';
+import { IStorageService } from '../interfaces/services/IStorageService.js';
+import { Media } from '../entities/Media.js';
+import { Activity } from '../entities/Activity.js';
+import { ActivityType } from '../../shared/constants/index.js';
+
+/**
+ * The one place media gets deleted, so every path (single delete, cluster
+ * delete, duplicates, cleanup, leaving a group, account erasure) cascades the same way
+ */
+export class MediaDeletionService implements IMediaDeletionService {
+  constructor(
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository,
+    private faceDetectionRepository: IFaceDetectionRepository,
+    private faceClusterRepository: IFaceClusterRepository,
+    private faceClusterMemberRepository: IFaceClusterMemberRepository,
+    private albumRepository: IAlbumRepository,
+    private commentRepository: ICommentRepository,
+    private reactionRepository: IReactionRepository,
+    private favoriteRepository: IFavoriteRepository,
+    private highlightRepository: IHighlightRepository,
+    private activityRepository: IActivityRepository,
+    private storageService: IStorageService
+  ) {}
+
+  async deleteMedia(
+    groupId: string,
+    mediaItems: Media[],
+    deletedBy: MediaDeletedBy | null
+  ): Promise<MediaDeletionResult> {
+    if (mediaItems.length === 0) {
+      return { deletedCount: 0, freedSpace: 0, affectedClusterIds: [] };
+    }
+
+    const affectedClusterIds = await this.removeFaces(mediaItems);
+
+    await this.storageService.deleteFiles(mediaItems.flatMap(m => m.storageKeys()));
+
+    for (const media of mediaItems) {
+      await this.mediaRepository.delete(media.id);
+      await this.commentRepository.deleteByMediaId(media.id);
+      await this.reactionRepository.deleteByMediaId(media.id);
+      await this.favoriteRepository.deleteByMediaId(media.id);
+      await this.highlightRepository.deleteByMediaId(media.id);
+    }
+
+    // Albums list media by ID and may use one as their cover
+    await this.albumRepository.removeMediaFromAll(mediaItems.map(m => m.id));
+
+    const freedSpace = mediaItems.reduce((sum, m) => sum + m.fileSize, 0);
+    await this.groupRepository.updateStorageUsed(groupId, -freedSpace);
+
+    if (deletedBy) {
+      await this.recordDeletion(groupId, mediaItems, deletedBy);
+    }
+
+    return { deletedCount: mediaItems.length, freedSpace, affectedClusterIds };
+  }
+
+  /**
+   * One feed entry per deletion, however many items it removed.
+   * The feed is informational, so a failed write doesn't fail the deletion
+   */
+  private async recordDeletion(groupId: string, mediaItems: Media[], deletedBy: MediaDeletedBy): Promise<void> {
+    try {
+      await this.activityRepository.create(
+        Activity.create({
+          groupId,
+          userId: deletedBy.userId,
+          type: ActivityType.MEDIA_DELETED,
+          metadata: {
+            mediaCount: mediaItems.length,
+            ...(deletedBy.reason && { reason: deletedBy.reason }),
+            ...(mediaItems.length === 1 && { originalName: mediaItems[0].originalName }),
+          },
+        })
+      );
+    } catch (error) {
+      console.error(`Failed to record ${ActivityType.MEDIA_DELETED} activity for group ${groupId}:`, error);
+    }
+  }
+
+  /**
+   * Delete face detections of the media and shrink (or drop) their clusters.
+   * Returns the IDs of clusters that lost members
+   */
+  private async removeFaces(mediaItems: Media[]): Promise<string[]> {
+    const faceDetections = await this.faceDetectionRepository.findByMediaIds(mediaItems.map(m => m.id));
+    if (faceDetections.length === 0) {
+      return [];
+    }
+
+    const faceDetectionIds = new Set(faceDetections.map(fd => fd.id));
+    const members = await this.faceClusterMemberRepository.findByFaceDetectionIds([...faceDetectionIds]);
+    const affectedClusterIds = [...new Set(members.map(m => m.clusterId))];
+
+    for (const member of members) {
+      await this.faceClusterMemberRepository.delete(member.id);
+    }
+
+    for (const clusterId of affectedClusterIds) {
+      const cluster = await this.faceClusterRepository.findById(clusterId);
+      if (!cluster) continue;
+
+      const remainingMembers = await this.faceClusterMemberRepository.findByClusterId(clusterId);
+      if (remainingMembers.length === 0) {
+        await this.faceClusterRepository.delete(clusterId);
+        continue;
+      }
+
+      await this.faceClusterRepository.update(clusterId, {
+        appearanceCount: remainingMembers.length,
+      });
+
+      if (cluster.coverFaceDetectionId && faceDetectionIds.has(cluster.coverFaceDetectionId)) {
+        await this.faceClusterRepository.setCoverFace(clusterId, null);
+      }
+    }
+
+    for (const media of mediaItems) {
+      await this.faceDetectionRepository.deleteByMediaId(media.id);
+    }
+
+    return affectedClusterIds;
+  }
+}
@@ -0,0 +1,182 @@
+import {
+  IMediaPreparationService,
+  PreparedMedia,
+} from '../interfaces/services/IMediaPreparationService.js';
+import { IStorageService } from '../interfaces/services/IStorageService.js';
+import { IVideoProcessingService } from '../interfaces/services/IVideoProcessingService.js';
+import { IImageProcessingService, ImageMetadata } from '../interfaces/services/IImageProcessingService.js';
+import { BadRequestError } from '../../shared/errors/AppError.js';
+import { MediaType, DEFAULTS, VIDEO_MIME_TYPES } from '../../shared/constants/index.js';
+import { S3UploadResult, UploadedFile } from '../../shared/types/index.js';
+import { isConvertibleImage } from '../../shared/utils/mediaFileTypes.js';
+
+type MediaFile = Pick<UploadedFile, 'buffer' | 'originalname' | 'mimetype'>;
+
+/**
+ * Prepares uploaded files the same way whether they arrive through the API
+ * or, for upload sessions, are picked up from storage by the preparation worker
+ */
+export class MediaPreparationService implements IMediaPreparationService {
+  constructor(
+    private storageService: IStorageService,
+    private videoProcessingService: IVideoProcessingService,
+    private imageProcessingService: IImageProcessingService
+  ) {}
+
+  async prepare(file: MediaFile, groupId: string, original?: S3UploadResult): Promise<PreparedMedia> {
+    if (VIDEO_MIME_TYPES.includes(file.mimetype)) {
+      const video = await this.prepareVideo(file, groupId);
+      return {
+        details: {
+          mediaType: MediaType.VIDEO,
+          durationSeconds: video.durationSeconds,
+          posterS3Key: video.posterS3Key,
+          width: video.width,
+          height: video.height,
+          takenAt: video.recordedAt,
+          perceptualHash: await this.computePerceptualHash(video.poster, file.originalname),
+        },
+      };
+    }
+
+    const metadata = await this.readImageMetadata(file);
+
+    if (isConvertibleImage(file.mimetype, file.originalname)) {
+      const converted = await this.convertImage(file, groupId, original);
+      return {
+        converted: converted.uploadResult,
+        details: {
+          ...metadata,
+          mimeType: 'image/jpeg',
+          originalS3Key: converted.originalS3Key,
+          originalMimeType: file.mimetype,
+          width: converted.width,
+          height: converted.height,
+          perceptualHash: await this.computePerceptualHash(converted.buffer, file.originalname),
+        },
+      };
+    }
+
+    return {
+      details: {
+        ...metadata,
+        perceptualHash: await this.computePerceptualHash(file.buffer, file.originalname),
+      },
+    };
+  }
+
+  /**
+   * Perceptual hash used to find near-duplicates, missing it only hides the item from that search
+   */
+  private async computePerceptualHash(imageBuffer: Buffer, originalName: string): Promise<string | undefined> {
+    try {
+      return await this.imageProcessingService.perceptualHash(imageBuffer);
+    } catch (error) {
+      console.error(`Failed to hash ${originalName}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Validate a video and upload its poster frame
+   * The poster is taken one second in (or halfway for very short clips) to skip black intro frames
+   */
+  private async prepareVideo(
+    file: MediaFile,
+    groupId: string
+  ): Promise<{
+    durationSeconds: number;
+    poster: Buffer;
+    posterS3Key: string;
+    width?: number;
+    height?: number;
+    recordedAt?: Date;
+  }> {
+    let metadata;
+    try {
+      metadata = await this.videoProcessingService.probe(file.buffer);
+    } catch (error) {
+      console.error(`Failed to read video ${file.originalname}:`, error);
+      throw new BadRequestError(`Could not read video ${file.originalname}`);
+    }
+
+    if (metadata.durationSeconds > DEFAULTS.MAX_VIDEO_DURATION_SECONDS) {
+      throw new BadRequestError(
+        `Video ${file.originalname} is too long. Maximum length is ${DEFAULTS.MAX_VIDEO_DURATION_SECONDS / 60} minutes.`
+      );
+    }
+
+    const poster = await this.videoProcessingService.extractFrame(
+      file.buffer,
+      Math.min(1, metadata.durationSeconds / 2)
+    );
+    const posterS3Key = `posters/${groupId}/${Date.now()}-${file.originalname}.jpg`;
+    await this.storageService.uploadBuffer(poster, posterS3Key, 'image/jpeg');
+
+    return {
+      durationSeconds: metadata.durationSeconds,
+      poster,
+      posterS3Key,
+      width: metadata.width,
+      height: metadata.height,
+      recordedAt: metadata.recordedAt,
+    };
+  }
+
+  /**
+   * Read dimensions and EXIF data, an unreadable header doesn't block the upload
+   */
+  private async readImageMetadata(file: MediaFile): Promise<ImageMetadata> {
+    try {
+      return await this.imageProcessingService.extractMetadata(file.buffer);
+    } catch (error) {
+      console.error(`Failed to read metadata of ${file.originalname}:`, error);
+      return {};
+    }
+  }
+
+  /**
+   * Store a HEIC/RAW upload as-is together with a JPEG derivative
+   * The derivative becomes the media's main file, so display and face detection work unchanged
+   * @param stored - The original when it is already in storage
+   */
+  private async convertImage(
+    file: MediaFile,
+    groupId: string,
+    stored?: S3UploadResult
+  ): Promise<{
+    uploadResult: S3UploadResult;
+    originalS3Key: string;
+    buffer: Buffer;
+    width: number;
+    height: number;
+  }> {
+    let converted;
+    try {
+      converted = await this.imageProcessingService.convertToJpeg(file.buffer);
+    } catch (error) {
+      console.error(`Failed to convert ${file.originalname}:`, error);
+      throw new BadRequestError(`Could not convert ${file.originalname}. This image format is not supported.`);
+    }
+
+    const timestamp = Date.now();
+    const baseName = file.originalname.replace(/\.[^.]+$/, '');
+    const [original, uploadResult] = await Promise.all([
+      stored ?? this.storageService.uploadFile(
+        file.buffer,
+        `${timestamp}-original-${file.originalname}`,
+        groupId,
+        file.mimetype || 'application/octet-stream'
+      ),
+      this.storageService.uploadFile(converted.buffer, `${timestamp}-${baseName}.jpg`, groupId, 'image/jpeg'),
+    ]);
+
+    return {
+      uploadResult,
+      originalS3Key: original.key,
+      buffer: converted.buffer,
+      width: converted.width,
+      height: converted.height,
+    };
+  }
+}
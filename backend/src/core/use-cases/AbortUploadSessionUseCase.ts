@@ -0,0 +1,38 @@
+import { IUploadSessionRepository } from '../interfaces/repositories/IUploadSessionRepository.js';
+import { IStorageService } from '../interfaces/services/IStorageService.js';
+import { NotFoundError, ConflictError } from '../../shared/errors/AppError.js';
+import { UploadSessionStatus } from '../../shared/constants/index.js';
+
+/**
+ * AbortUploadSessionUseCase
+ *
+ * Cancels an upload and discards the parts storage already received.
+ */
+
+export interface AbortUploadSessionDTO {
+  sessionId: string;
+  userId: string;
+}
+
+export class AbortUploadSessionUseCase {
+  constructor(
+    private uploadSessionRepository: IUploadSessionRepository,
+    private storageService: IStorageService
+  ) {}
+
+  async execute(dto: AbortUploadSessionDTO): Promise<void> {
+    const session = await this.uploadSessionRepository.findById(dto.sessionId);
+    if (!session || !session.isOwnedBy(dto.userId)) {
+      throw new NotFoundError('Upload session not found');
+    }
+
+    if (session.status === UploadSessionStatus.COMPLETED) {
+      throw new ConflictError('This upload has already been completed');
+    }
+
+    if (session.status === UploadSessionStatus.ACTIVE) {
+      await this.storageService.abortMultipartUpload(session.s3Key, session.uploadId);
+      await this.uploadSessionRepository.markAborted(session.id);
+    }
+  }
+}
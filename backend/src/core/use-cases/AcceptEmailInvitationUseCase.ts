@@ -0,0 +1,105 @@
+import { Group } from '../entities/Group.js';
+import { EmailInvitation } from '../entities/EmailInvitation.js';
+import { IEmailInvitationRepository } from '../interfaces/repositories/IEmailInvitationRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { RecordActivityUseCase } from './RecordActivityUseCase.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { addMemberToGroup } from './JoinGroupUseCase.js';
+
+/**
+ * AcceptEmailInvitationUseCase
+ *
+ * Joins a group through an email invitation.
+ *
+ * Business Logic:
+ * 1. From the emailed link: the token works once, for whoever signs in with it,
+ *    until it expires or is cancelled
+ * 2. On sign-up: open invitations to the new user's verified addresses are accepted
+ *    automatically (see WebhookController)
+ * 3. The user joins with the role the invitation grants; a user who is already
+ *    a member just uses up the invitation
+ * 4. Opening the link again after it was accepted on sign-up returns the group
+ */
+
+export interface AcceptEmailInvitationDTO {
+  token: string;
+  userId: string;
+}
+
+export class AcceptEmailInvitationUseCase {
+  constructor(
+    private emailInvitationRepository: IEmailInvitationRepository,
+    private groupRepository: IGroupRepository,
+    private recordActivityUseCase: RecordActivityUseCase
+  ) {}
+
+  async execute(dto: AcceptEmailInvitationDTO): Promise<Group> {
+    const invitation = await this.emailInvitationRepository.findByToken(dto.token);
+    if (!invitation) {
+      throw new NotFoundError('Invitation not found');
+    }
+
+    const group = await this.groupRepository.findById(invitation.groupId);
+    if (!group) {
+      throw new NotFoundError('Group not found');
+    }
+
+    if (invitation.status === 'accepted' && invitation.acceptedBy === dto.userId) {
+      return group;
+    }
+
+    if (invitation.status === 'accepted') {
+      throw new ForbiddenError('This invitation has already been used');
+    }
+
+    if (invitation.status === 'cancelled') {
+      throw new ForbiddenError('This invitation has been cancelled');
+    }
+
+    if (invitation.isExpired()) {
+      throw new ForbiddenError('This invitation has expired. Ask a group admin to resend it');
+    }
+
+    return this.accept(invitation, group, dto.userId);
+  }
+
+  /**
+   * Accept every open invitation sent to a newly signed up user's addresses
+   * Returns the groups the user joined; one failing invitation doesn't stop the others
+   */
+  async acceptForNewUser(userId: string, emails: string[]): Promise<Group[]> {
+    if (emails.length === 0) {
+      return [];
+    }
+
+    const invitations = await this.emailInvitationRepository.findOpenByEmails(emails);
+    const joined: Group[] = [];
+
+    for (const invitation of invitations) {
+      try {
+        const group = await this.groupRepository.findById(invitation.groupId);
+        if (group) {
+          joined.push(await this.accept(invitation, group, userId));
+        }
+      } catch (error) {
+        console.error(`Failed to accept invitation ${invitation.id} for ${userId}:`, error);
+      }
+    }
+
+    return joined;
+  }
+
+  private async accept(invitation: EmailInvitation, group: Group, userId: string): Promise<Group> {
+    // Marking it accepted first is what makes the token single-use
+    const accepted = await this.emailInvitationRepository.markAccepted(invitation.id, userId);
+    if (!accepted) {
+      throw new ForbiddenError('This invitation is no longer valid');
+    }
+
+    if (group.isMember(userId)) {
+      return group;
+    }
+
+    return addMemberToGroup(group, userId, invitation.role, this.groupRepository, this.recordActivityUseCase);
+  }
+}
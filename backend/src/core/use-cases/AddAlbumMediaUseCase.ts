@@ -0,0 +1,75 @@
+import { Album } from '../entities/Album.js';
+import { IAlbumRepository } from '../interfaces/repositories/IAlbumRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, BadRequestError } from '../../shared/errors/AppError.js';
+import { findAlbumForUser } from './GetAlbumMediaUseCase.js';
+
+/**
+ * Check that every media ID belongs to the group, returning them deduplicated
+ * Also used by CreateAlbumUseCase
+ */
+export async function verifyGroupMedia(
+  groupId: string,
+  mediaIds: string[],
+  mediaRepository: IMediaRepository
+): Promise<string[]> {
+  const uniqueIds = [...new Set(mediaIds)];
+  if (uniqueIds.length === 0) {
+    return [];
+  }
+
+  const media = await mediaRepository.findByIds(uniqueIds);
+  const groupMediaIds = new Set(media.filter(m => m.groupId === groupId).map(m => m.id));
+  if (uniqueIds.some(id => !groupMediaIds.has(id))) {
+    throw new NotFoundError('Some media were not found in this group');
+  }
+
+  return uniqueIds;
+}
+
+/**
+ * AddAlbumMediaUseCase
+ *
+ * Business Logic:
+ * 1. Verify user can manage the album (creator or group admin)
+ * 2. Verify the media belongs to the album's group
+ * 3. Append it to the end of the album, skipping items already in it
+ */
+
+export interface AddAlbumMediaDTO {
+  albumId: string;
+  userId: string;
+  mediaIds: string[];
+}
+
+export class AddAlbumMediaUseCase {
+  constructor(
+    private albumRepository: IAlbumRepository,
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: AddAlbumMediaDTO): Promise<Album> {
+    if (!dto.mediaIds || dto.mediaIds.length === 0) {
+      throw new BadRequestError('At least one media ID is required');
+    }
+
+    const { album } = await findAlbumForUser(
+      dto.albumId,
+      dto.userId,
+      this.albumRepository,
+      this.groupRepository,
+      true
+    );
+
+    const mediaIds = await verifyGroupMedia(album.groupId, dto.mediaIds, this.mediaRepository);
+
+    const updated = await this.albumRepository.addMedia(album.id, mediaIds);
+    if (!updated) {
+      throw new NotFoundError('Album not found');
+    }
+
+    return updated;
+  }
+}
@@ -0,0 +1,73 @@
+import { Comment } from '../entities/Comment.js';
+import { ICommentRepository } from '../interfaces/repositories/ICommentRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { RecordActivityUseCase } from './RecordActivityUseCase.js';
+import { findMediaForMember } from './ListMediaCommentsUseCase.js';
+import { BadRequestError } from '../../shared/errors/AppError.js';
+import { ActivityType } from '../../shared/constants/index.js';
+
+/**
+ * AddCommentUseCase
+ *
+ * Comments on a media item or replies to a comment.
+ *
+ * Business Logic:
+ * 1. Verify user is a member of the media's group
+ * 2. Replies must be to a comment on the same media that isn't deleted
+ * 3. A reply to a reply joins the thread of the top-level comment
+ * 4. Records a COMMENT_ADDED activity
+ */
+
+export interface AddCommentDTO {
+  mediaId: string;
+  userId: string;
+  body: string;
+  parentId?: string;
+}
+
+export class AddCommentUseCase {
+  constructor(
+    private commentRepository: ICommentRepository,
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository,
+    private recordActivityUseCase: RecordActivityUseCase
+  ) {}
+
+  async execute(dto: AddCommentDTO): Promise<Comment> {
+    const { media } = await findMediaForMember(dto.mediaId, dto.userId, this.mediaRepository, this.groupRepository);
+
+    const body = dto.body.trim();
+    if (!body) {
+      throw new BadRequestError('Comment cannot be empty');
+    }
+
+    let parentId: string | undefined;
+    if (dto.parentId) {
+      const parent = await this.commentRepository.findById(dto.parentId);
+      if (!parent || parent.mediaId !== media.id || parent.isDeleted()) {
+        throw new BadRequestError('The comment you are replying to no longer exists');
+      }
+      parentId = parent.threadId();
+    }
+
+    const comment = await this.commentRepository.create(
+      Comment.create({
+        mediaId: media.id,
+        groupId: media.groupId,
+        authorId: dto.userId,
+        body,
+        parentId,
+      })
+    );
+
+    await this.recordActivityUseCase.execute({
+      groupId: media.groupId,
+      userId: dto.userId,
+      type: ActivityType.COMMENT_ADDED,
+      metadata: { mediaId: media.id, commentId: comment.id, isReply: comment.isReply() },
+    });
+
+    return comment;
+  }
+}
@@ -0,0 +1,88 @@
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, ForbiddenError, BadRequestError, ConflictError } from '../../shared/errors/AppError.js';
+import { FaceCluster, FaceClusterMember } from '../entities/FaceCluster.js';
+
+/**
+ * AssignFaceToClusterUseCase
+ *
+ * Moves a face from the group's unassigned pool into an existing cluster.
+ *
+ * Business Logic:
+ * 1. Verify user is an admin of the group
+ * 2. Verify the face belongs to the group and is not clustered yet
+ * 3. Verify the target cluster belongs to the same group
+ * 4. Add the face as a cluster member and increment the appearance count
+ */
+
+export interface AssignFaceToClusterDTO {
+  groupId: string;
+  faceDetectionId: string;
+  clusterId: string;
+  userId: string;
+}
+
+export class AssignFaceToClusterUseCase {
+  constructor(
+    private faceClusterRepository: IFaceClusterRepository,
+    private faceClusterMemberRepository: IFaceClusterMemberRepository,
+    private faceDetectionRepository: IFaceDetectionRepository,
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: AssignFaceToClusterDTO): Promise<FaceCluster> {
+    if (!dto.groupId || !dto.faceDetectionId || !dto.clusterId || !dto.userId) {
+      throw new BadRequestError('Group ID, face ID, cluster ID, and user ID are required');
+    }
+
+    const group = await this.groupRepository.findById(dto.groupId);
+    if (!group) {
+      throw new NotFoundError('Group not found');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can assign faces to clusters');
+    }
+
+    // Verify face belongs to this group
+    const faceDetection = await this.faceDetectionRepository.findById(dto.faceDetectionId);
+    const media = faceDetection ? await this.mediaRepository.findById(faceDetection.mediaId) : null;
+    if (!faceDetection || !media || media.groupId !== dto.groupId) {
+      throw new NotFoundError('Face not found in this group');
+    }
+
+    const existingMember = await this.faceClusterMemberRepository.findByFaceDetectionId(dto.faceDetectionId);
+    if (existingMember) {
+      throw new ConflictError('Face is already assigned to a cluster');
+    }
+
+    const cluster = await this.faceClusterRepository.findById(dto.clusterId);
+    if (!cluster || cluster.groupId !== dto.groupId) {
+      throw new NotFoundError('Cluster not found in this group');
+    }
+
+    // Manual assignment is treated as a certain match
+    await this.faceClusterMemberRepository.create(
+      FaceClusterMember.create({
+        clusterId: cluster.id,
+        faceDetectionId: faceDetection.id,
+        confidence: 1,
+      })
+    );
+
+    const updatedCluster = cluster.incrementAppearances();
+    const savedCluster = await this.faceClusterRepository.update(cluster.id, {
+      appearanceCount: updatedCluster.appearanceCount,
+    });
+    if (!savedCluster) {
+      throw new Error('Failed to update cluster');
+    }
+
+    console.log(`[AssignFace] Assigned face ${faceDetection.id} to cluster ${cluster.id}`);
+
+    return savedCluster;
+  }
+}
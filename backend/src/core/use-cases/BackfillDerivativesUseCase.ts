@@ -0,0 +1,81 @@
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IQueueService } from '../interfaces/services/IQueueService.js';
+import { NotFoundError, ForbiddenError, BadRequestError } from '../../shared/errors/AppError.js';
+import { JobType, QUEUE_NAMES } from '../../shared/constants/index.js';
+
+/**
+ * BackfillDerivativesUseCase
+ *
+ * Queues derivative generation for media uploaded before derivatives existed,
+ * or whose earlier generation failed.
+ *
+ * Business Logic:
+ * 1. Verify user has admin access to the group
+ * 2. Find media in the group without derivatives
+ * 3. Queue derivative jobs in batches so a single job stays short
+ */
+
+export interface BackfillDerivativesDTO {
+  groupId: string;
+  userId: string;
+}
+
+export interface BackfillDerivativesResult {
+  jobIds: string[];
+  queuedCount: number;
+}
+
+const BATCH_SIZE = 50;
+
+export class BackfillDerivativesUseCase {
+  constructor(
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository,
+    private queueService: IQueueService
+  ) {}
+
+  async execute(dto: BackfillDerivativesDTO): Promise<BackfillDerivativesResult> {
+    if (!dto.groupId || !dto.userId) {
+      throw new BadRequestError('Group ID and user ID are required');
+    }
+
+    const group = await this.groupRepository.findById(dto.groupId);
+    if (!group) {
+      throw new NotFoundError('Group not found');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can optimize media');
+    }
+
+    const mediaItems = await this.mediaRepository.findWithoutDerivatives(dto.groupId);
+    const mediaIds = mediaItems.map(m => m.id);
+    const jobIds: string[] = [];
+
+    for (let i = 0; i < mediaIds.length; i += BATCH_SIZE) {
+      const jobId = await this.queueService.addJob(
+        QUEUE_NAMES.MEDIA_DERIVATIVES,
+        JobType.MEDIA_DERIVATIVES,
+        {
+          groupId: dto.groupId,
+          mediaIds: mediaIds.slice(i, i + BATCH_SIZE),
+        },
+        {
+          attempts: 2,
+          backoff: { type: 'exponential', delay: 5000 },
+        }
+      );
+      jobIds.push(jobId);
+    }
+
+    console.log(
+      `[BackfillDerivatives] Queued ${mediaIds.length} media in group ${dto.groupId} (${jobIds.length} jobs)`
+    );
+
+    return {
+      jobIds,
+      queuedCount: mediaIds.length,
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { IEmailInvitationRepository } from '../interfaces/repositories/IEmailInvitationRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+
+/**
+ * CancelEmailInvitationUseCase
+ *
+ * Withdraws a pending invitation; its link stops working and
+ * signing up with the address no longer joins the group.
+ */
+
+export interface CancelEmailInvitationDTO {
+  groupId: string;
+  invitationId: string;
+  userId: string;
+}
+
+export class CancelEmailInvitationUseCase {
+  constructor(
+    private emailInvitationRepository: IEmailInvitationRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: CancelEmailInvitationDTO): Promise<void> {
+    const invitation = await this.emailInvitationRepository.findById(dto.invitationId);
+    if (!invitation || invitation.groupId !== dto.groupId || invitation.status !== 'pending') {
+      throw new NotFoundError('Invitation not found');
+    }
+
+    const group = await this.groupRepository.findByIdAndUserId(invitation.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can cancel invitations');
+    }
+
+    await this.emailInvitationRepository.cancel(invitation.id);
+  }
+}
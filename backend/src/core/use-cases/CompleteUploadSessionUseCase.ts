@@ -0,0 +1,103 @@
+import { createHash } from 'crypto';
+import { IUploadSessionRepository } from '../interfaces/repositories/IUploadSessionRepository.js';
+import { IStorageService } from '../interfaces/services/IStorageService.js';
+import { NotFoundError, ConflictError, BadRequestError } from '../../shared/errors/AppError.js';
+import { UploadMediaUseCase, UploadMediaResult } from './UploadMediaUseCase.js';
+
+/**
+ * CompleteUploadSessionUseCase
+ *
+ * Finalises a resumable upload into a Media record.
+ *
+ * Business Logic:
+ * 1. Verify the session belongs to the user and storage has every part
+ * 2. Assemble the parts into the final object
+ * 3. Hash the stored file by streaming it, the API never loads the whole file
+ * 4. Hand it to UploadMediaUseCase, which enforces the storage quota, skips exact duplicates
+ *    and queues the preparation worker to probe videos, convert HEIC/RAW files and read EXIF data
+ *    before face detection
+ * 5. If the file is rejected, delete it so it doesn't take up storage
+ */
+
+export interface CompleteUploadSessionDTO {
+  sessionId: string;
+  userId: string;
+}
+
+export class CompleteUploadSessionUseCase {
+  constructor(
+    private uploadSessionRepository: IUploadSessionRepository,
+    private storageService: IStorageService,
+    private uploadMediaUseCase: UploadMediaUseCase
+  ) {}
+
+  async execute(dto: CompleteUploadSessionDTO): Promise<UploadMediaResult> {
+    const session = await this.uploadSessionRepository.findById(dto.sessionId);
+    if (!session || !session.isOwnedBy(dto.userId)) {
+      throw new NotFoundError('Upload session not found');
+    }
+
+    if (!session.isActive()) {
+      throw new ConflictError('This upload session has already finished or expired');
+    }
+
+    // Storage is the source of truth, the client may not have reported every part
+    const parts = await this.storageService.listUploadedParts(session.s3Key, session.uploadId);
+    const synced = await this.uploadSessionRepository.setCompletedParts(session.id, parts);
+    if (!synced) {
+      throw new NotFoundError('Upload session not found');
+    }
+
+    const missing = synced.missingPartNumbers();
+    if (missing.length > 0) {
+      throw new BadRequestError(`Upload is incomplete, missing parts: ${missing.join(', ')}`);
+    }
+
+    const receivedBytes = parts.reduce((sum, part) => sum + (part.size ?? 0), 0);
+    if (parts.every(part => part.size !== undefined) && receivedBytes !== session.fileSize) {
+      throw new BadRequestError(
+        `Uploaded size ${receivedBytes} bytes does not match the expected ${session.fileSize} bytes`
+      );
+    }
+
+    const stored = await this.storageService.completeMultipartUpload(session.s3Key, session.uploadId, parts);
+
+    try {
+      const result = await this.uploadMediaUseCase.registerStored({
+        groupId: session.groupId,
+        userId: session.userId,
+        file: {
+          originalname: session.originalName,
+          mimetype: session.mimeType,
+          size: session.fileSize,
+        },
+        stored,
+        contentHash: await this.hashStoredFile(stored.key),
+      });
+
+      await this.uploadSessionRepository.markCompleted(session.id, result.media[0].id);
+
+      return result;
+    } catch (error) {
+      console.error(`[UploadSession] Finalising ${session.id} failed:`, error);
+
+      await this.storageService.deleteFile(stored.key).catch((deleteError) => {
+        console.error(`[UploadSession] Failed to delete rejected upload ${stored.key}:`, deleteError);
+      });
+      await this.uploadSessionRepository.markAborted(session.id);
+
+      throw error;
+    }
+  }
+
+  /**
+   * SHA-256 of the assembled file, read as a stream so the file is never held in memory
+   */
+  private async hashStoredFile(key: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of await this.storageService.getFileStream(key)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+}
@@ -0,0 +1,54 @@
+import { Album } from '../entities/Album.js';
+import { IAlbumRepository } from '../interfaces/repositories/IAlbumRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { BadRequestError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { verifyGroupMedia } from './AddAlbumMediaUseCase.js';
+
+/**
+ * CreateAlbumUseCase
+ *
+ * Business Logic:
+ * 1. Verify user is a member of the group (any member can create albums)
+ * 2. Verify any initial media belongs to the group
+ * 3. Create the album with the media in the given order
+ */
+
+export interface CreateAlbumDTO {
+  groupId: string;
+  userId: string;
+  name: string;
+  description?: string;
+  mediaIds?: string[];
+}
+
+export class CreateAlbumUseCase {
+  constructor(
+    private albumRepository: IAlbumRepository,
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: CreateAlbumDTO): Promise<Album> {
+    if (!dto.name || dto.name.trim().length === 0) {
+      throw new BadRequestError('Album name is required');
+    }
+
+    const group = await this.groupRepository.findByIdAndUserId(dto.groupId, dto.userId);
+    if (!group) {
+      throw new ForbiddenError('You do not have access to this group');
+    }
+
+    const mediaIds = await verifyGroupMedia(dto.groupId, dto.mediaIds || [], this.mediaRepository);
+
+    return this.albumRepository.create(
+      Album.create({
+        groupId: dto.groupId,
+        name: dto.name.trim(),
+        description: dto.description?.trim() || undefined,
+        createdBy: dto.userId,
+        mediaIds,
+      })
+    );
+  }
+}
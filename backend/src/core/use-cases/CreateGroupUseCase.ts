@@ -1,7 +1,10 @@
 import { Group } from '../entities/Group.js';
 import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
 import { IFaceRecognitionService } from '../interfaces/services/IFaceRecognitionService.js';
+import { RecordActivityUseCase } from './RecordActivityUseCase.js';
 import { BadRequestError } from '../../shared/errors/AppError.js';
+import { ActivityType } from '../../shared/constants/index.js';
+import { generateInviteCode } from '../../shared/utils/inviteCode.js';
 
 export interface CreateGroupDto {
   name: string;
@@ -14,7 +17,8 @@ export interface CreateGroupDto {
 export class CreateGroupUseCase {
   constructor(
     private readonly groupRepository: IGroupRepository,
-    private readonly faceRecognitionService: IFaceRecognitionService
+    private readonly faceRecognitionService: IFaceRecognitionService,
+    private readonly recordActivityUseCase: RecordActivityUseCase
   ) {}
 
   async execute(dto: CreateGroupDto): Promise<Group> {
@@ -28,7 +32,7 @@ export class CreateGroupUseCase {
     }
 
     // Generate unique invite code
-    const inviteCode = this.generateInviteCode();
+    const inviteCode = generateInviteCode();
 
     // Create group entity
     const group = Group.create({
@@ -43,6 +47,13 @@ export class CreateGroupUseCase {
     // Save to database
     const savedGroup = await this.groupRepository.create(group);
 
+    await this.recordActivityUseCase.execute({
+      groupId: savedGroup.id,
+      userId: dto.creatorId,
+      type: ActivityType.GROUP_CREATED,
+      metadata: { groupName: savedGroup.name },
+    });
+
     // Create AWS Rekognition collection for face recognition
     try {
       const collectionId = await this.faceRecognitionService.createCollection(savedGroup.id);
@@ -57,13 +68,4 @@ export class CreateGroupUseCase {
       return savedGroup;
     }
   }
-
-  private generateInviteCode(): string {
-    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    let code = '';
-    for (let i = 0; i < 8; i++) {
-      code += characters.charAt(Math.floor(Math.random() * characters.length));
-    }
-    return code;
-  }
 }
@@ -0,0 +1,78 @@
+import { Invite } from '../entities/Invite.js';
+import { IInviteRepository } from '../interfaces/repositories/IInviteRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { BadRequestError, NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { MemberRole } from '../../shared/constants/index.js';
+import { MemberRoleType } from '../../shared/types/index.js';
+import { generateUniqueInviteCode } from './RegenerateInviteCodeUseCase.js';
+
+/**
+ * CreateInviteUseCase
+ *
+ * Creates a named invite with its own code.
+ *
+ * Business Logic:
+ * 1. Verify user is an admin of the group
+ * 2. Invites grant member or viewer access; admins are promoted from the member list
+ *    so a forwarded link can't hand out admin rights
+ * 3. Expiry must be in the future and the use limit at least 1; both are optional
+ */
+
+export interface CreateInviteDTO {
+  groupId: string;
+  userId: string;
+  role: MemberRoleType;
+  label?: string;
+  expiresAt?: Date;
+  maxUses?: number;
+}
+
+/**
+ * Roles an invite can grant
+ * Also used by SendEmailInvitationsUseCase
+ */
+export const INVITABLE_ROLES: MemberRoleType[] = [MemberRole.MEMBER, MemberRole.VIEWER];
+
+export class CreateInviteUseCase {
+  constructor(
+    private inviteRepository: IInviteRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: CreateInviteDTO): Promise<Invite> {
+    const group = await this.groupRepository.findByIdAndUserId(dto.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can create invites');
+    }
+
+    if (!INVITABLE_ROLES.includes(dto.role)) {
+      throw new BadRequestError('Invites can only grant member or viewer access');
+    }
+
+    if (dto.expiresAt && dto.expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestError('Expiry must be in the future');
+    }
+
+    if (dto.maxUses !== undefined && dto.maxUses < 1) {
+      throw new BadRequestError('An invite must allow at least one use');
+    }
+
+    const code = await generateUniqueInviteCode(this.groupRepository, this.inviteRepository);
+
+    return this.inviteRepository.create(
+      Invite.create({
+        groupId: group.id,
+        code,
+        createdBy: dto.userId,
+        role: dto.role,
+        label: dto.label?.trim() || undefined,
+        expiresAt: dto.expiresAt,
+        maxUses: dto.maxUses,
+      })
+    );
+  }
+}
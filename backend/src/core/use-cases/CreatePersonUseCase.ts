@@ -0,0 +1,62 @@
+import { IPersonRepository } from '../interfaces/repositories/IPersonRepository.js';
+import { BadRequestError } from '../../shared/errors/AppError.js';
+import { Person } from '../entities/Person.js';
+import { LinkPersonClusterUseCase } from './LinkPersonClusterUseCase.js';
+
+/**
+ * CreatePersonUseCase
+ *
+ * Creates a user-owned person, optionally linked to clusters right away.
+ * Access checks for the clusters are delegated to LinkPersonClusterUseCase.
+ */
+
+export interface CreatePersonDTO {
+  userId: string;
+  name: string;
+  clusterIds?: string[];
+}
+
+export class CreatePersonUseCase {
+  constructor(
+    private personRepository: IPersonRepository,
+    private linkPersonClusterUseCase: LinkPersonClusterUseCase
+  ) {}
+
+  async execute(dto: CreatePersonDTO): Promise<Person> {
+    if (!dto.userId) {
+      throw new BadRequestError('User ID is required');
+    }
+
+    const name = dto.name?.trim();
+    if (!name) {
+      throw new BadRequestError('Name is required');
+    }
+
+    if (name.length > 50) {
+      throw new BadRequestError('Name must be 50 characters or less');
+    }
+
+    let person = await this.personRepository.create(
+      Person.create({
+        ownerId: dto.userId,
+        name,
+      })
+    );
+
+    try {
+      for (const clusterId of new Set(dto.clusterIds || [])) {
+        person = await this.linkPersonClusterUseCase.execute({
+          personId: person.id,
+          clusterId,
+          userId: dto.userId,
+        });
+      }
+    } catch (error) {
+      // Don't leave a half-linked person behind
+      await this.personRepository.delete(person.id);
+      throw error;
+    }
+
+    return person;
+  }
+}
@@ -3,7 +3,10 @@ import { IShareableLinkRepository } from '../interfaces/repositories/IShareableL
 import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
 import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
 import { IFaceClusterRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IAlbumRepository } from '../interfaces/repositories/IAlbumRepository.js';
+import { RecordActivityUseCase } from './RecordActivityUseCase.js';
 import { BadRequestError, NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { ActivityType } from '../../shared/constants/index.js';
 
 interface CreateShareableLinkDTO {
   resourceType: ResourceType;
@@ -18,7 +21,9 @@ export class CreateShareableLinkUseCase {
     private shareableLinkRepository: IShareableLinkRepository,
     private groupRepository: IGroupRepository,
     private mediaRepository: IMediaRepository,
-    private faceClusterRepository: IFaceClusterRepository
+    private faceClusterRepository: IFaceClusterRepository,
+    private albumRepository: IAlbumRepository,
+    private recordActivityUseCase: RecordActivityUseCase
   ) {}
 
   async execute(dto: CreateShareableLinkDTO): Promise<ShareableLink> {
@@ -28,7 +33,7 @@ export class CreateShareableLinkUseCase {
     }
 
     // Verify user has permission to share this resource
-    await this.verifyPermissions(dto.resourceType, dto.resourceId, dto.userId);
+    const shared = await this.verifyPermissions(dto.resourceType, dto.resourceId, dto.userId);
 
     // Validate expiration date if provided
     if (dto.expiresAt && dto.expiresAt <= new Date()) {
@@ -44,14 +49,23 @@ export class CreateShareableLinkUseCase {
       expiresAt: dto.expiresAt,
     });
 
-    return await this.shareableLinkRepository.create(link);
+    const savedLink = await this.shareableLinkRepository.create(link);
+
+    await this.recordActivityUseCase.execute({
+      groupId: shared.groupId,
+      userId: dto.userId,
+      type: ActivityType.SHARE_CREATED,
+      metadata: { resourceType: dto.resourceType, resourceId: dto.resourceId, resourceName: shared.name },
+    });
+
+    return savedLink;
   }
 
   private async verifyPermissions(
     resourceType: ResourceType,
     resourceId: string,
     userId: string
-  ): Promise<void> {
+  ): Promise<{ groupId: string; name?: string }> {
     switch (resourceType) {
       case 'group': {
         const group = await this.groupRepository.findByIdAndUserId(resourceId, userId);
@@ -62,7 +76,7 @@ export class CreateShareableLinkUseCase {
         if (!group.isAdmin(userId)) {
           throw new ForbiddenError('Only group admins can create shareable links');
         }
-        break;
+        return { groupId: group.id, name: group.name };
       }
 
       case 'media': {
@@ -75,7 +89,7 @@ export class CreateShareableLinkUseCase {
         if (!group) {
           throw new ForbiddenError('You do not have access to this media');
         }
-        break;
+        return { groupId: group.id, name: media.originalName };
       }
 
       case 'cluster': {
@@ -88,7 +102,20 @@ export class CreateShareableLinkUseCase {
         if (!group) {
           throw new ForbiddenError('You do not have access to this cluster');
         }
-        break;
+        return { groupId: group.id, name: cluster.clusterName };
+      }
+
+      case 'album': {
+        const album = await this.albumRepository.findById(resourceId);
+        if (!album) {
+          throw new NotFoundError('Album not found');
+        }
+        // Verify user is a member of the group
+        const group = await this.groupRepository.findByIdAndUserId(album.groupId, userId);
+        if (!group) {
+          throw new ForbiddenError('You do not have access to this album');
+        }
+        return { groupId: group.id, name: album.name };
       }
 
       default:
@@ -0,0 +1,131 @@
+import { UploadSession } from '../entities/UploadSession.js';
+import { IUploadSessionRepository } from '../interfaces/repositories/IUploadSessionRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IStorageService } from '../interfaces/services/IStorageService.js';
+import { NotFoundError, ForbiddenError, BadRequestError, PayloadTooLargeError } from '../../shared/errors/AppError.js';
+import { DEFAULTS } from '../../shared/constants/index.js';
+import { isSupportedMediaFile } from '../../shared/utils/mediaFileTypes.js';
+
+/**
+ * CreateUploadSessionUseCase
+ *
+ * Starts a resumable upload that the client sends straight to storage.
+ * The API only streams the finished file once to hash it, it is never held in
+ * API memory; the preparation worker does the probing and conversion.
+ *
+ * Business Logic:
+ * 1. Verify user can upload to the group and the file type and size are allowed
+ * 2. Pre-check the storage quota (checked again at finalisation)
+ * 3. Start a multipart upload and hand out presigned URLs for every part
+ */
+
+export interface CreateUploadSessionDTO {
+  groupId: string;
+  userId: string;
+  filename: string;
+  mimeType: string;
+  fileSize: number;
+}
+
+export interface UploadPartUrl {
+  partNumber: number;
+  url: string;
+}
+
+export interface UploadSessionWithUrls {
+  session: UploadSession;
+  partUrls: UploadPartUrl[]; // Only parts storage has not received yet
+}
+
+/**
+ * Presign upload URLs for the parts a session is still missing
+ * Also used when resuming a session
+ */
+export async function presignMissingParts(
+  session: UploadSession,
+  storageService: IStorageService
+): Promise<UploadPartUrl[]> {
+  return Promise.all(
+    session.missingPartNumbers().map(async (partNumber) => ({
+      partNumber,
+      url: await storageService.getPresignedPartUrl(session.s3Key, session.uploadId, partNumber, 3600),
+    }))
+  );
+}
+
+export class CreateUploadSessionUseCase {
+  constructor(
+    private uploadSessionRepository: IUploadSessionRepository,
+    private groupRepository: IGroupRepository,
+    private storageService: IStorageService
+  ) {}
+
+  async execute(dto: CreateUploadSessionDTO): Promise<UploadSessionWithUrls> {
+    if (!dto.groupId || !dto.userId) {
+      throw new BadRequestError('Group ID and user ID are required');
+    }
+
+    const group = await this.groupRepository.findById(dto.groupId);
+    if (!group) {
+      throw new NotFoundError('Group not found');
+    }
+
+    if (!group.canUpload(dto.userId)) {
+      throw new ForbiddenError('You do not have permission to upload to this group');
+    }
+
+    if (!isSupportedMediaFile(dto.mimeType, dto.filename)) {
+      throw new BadRequestError(`Invalid file type: ${dto.mimeType}. Only images and videos are allowed.`);
+    }
+
+    if (dto.fileSize <= 0 || dto.fileSize > DEFAULTS.MAX_RESUMABLE_FILE_SIZE) {
+      throw new BadRequestError(
+        `File size must be between 1 byte and ${DEFAULTS.MAX_RESUMABLE_FILE_SIZE / 1024 / 1024}MB`
+      );
+    }
+
+    if (!group.hasStorageSpace(dto.fileSize)) {
+      throw new PayloadTooLargeError(
+        `Not enough storage space. Available: ${(group.storageLimit - group.storageUsed) / 1024 / 1024}MB`
+      );
+    }
+
+    await this.abortExpiredSessions();
+
+    const s3Key = `groups/${dto.groupId}/${Date.now()}-${dto.filename}`;
+    const uploadId = await this.storageService.createMultipartUpload(s3Key, dto.mimeType || 'application/octet-stream');
+
+    const session = await this.uploadSessionRepository.create(
+      UploadSession.create({
+        groupId: dto.groupId,
+        userId: dto.userId,
+        originalName: dto.filename,
+        mimeType: dto.mimeType,
+        fileSize: dto.fileSize,
+        s3Key,
+        uploadId,
+      })
+    );
+
+    return {
+      session,
+      partUrls: await presignMissingParts(session, this.storageService),
+    };
+  }
+
+  /**
+   * Free the storage held by abandoned uploads whenever a new one starts
+   */
+  private async abortExpiredSessions(): Promise<void> {
+    const expired = await this.uploadSessionRepository.findExpired(new Date());
+
+    for (const session of expired) {
+      try {
+        await this.storageService.abortMultipartUpload(session.s3Key, session.uploadId);
+      } catch (error) {
+        console.error(`[UploadSession] Failed to abort expired upload ${session.id}:`, error);
+      }
+      await this.uploadSessionRepository.markAborted(session.id);
+    }
+  }
+}
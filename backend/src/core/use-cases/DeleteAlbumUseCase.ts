@@ -0,0 +1,47 @@
+import { IAlbumRepository } from '../interfaces/repositories/IAlbumRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IShareableLinkRepository } from '../interfaces/repositories/IShareableLinkRepository.js';
+import { findAlbumForUser } from './GetAlbumMediaUseCase.js';
+
+/**
+ * DeleteAlbumUseCase
+ *
+ * Deletes an album. Its media stays in the group.
+ *
+ * Business Logic:
+ * 1. Verify user can manage the album (creator or group admin)
+ * 2. Revoke share links to the album
+ * 3. Delete the album
+ */
+
+export interface DeleteAlbumDTO {
+  albumId: string;
+  userId: string;
+}
+
+export class DeleteAlbumUseCase {
+  constructor(
+    private albumRepository: IAlbumRepository,
+    private groupRepository: IGroupRepository,
+    private shareableLinkRepository: IShareableLinkRepository
+  ) {}
+
+  async execute(dto: DeleteAlbumDTO): Promise<void> {
+    const { album } = await findAlbumForUser(
+      dto.albumId,
+      dto.userId,
+      this.albumRepository,
+      this.groupRepository,
+      true
+    );
+
+    const links = await this.shareableLinkRepository.findByResource('album', album.id);
+    for (const link of links.filter(l => l.isActive)) {
+      await this.shareableLinkRepository.update(link.id, link.revoke());
+    }
+
+    await this.albumRepository.delete(album.id);
+
+    console.log(`[DeleteAlbum] Deleted album ${album.id} in group ${album.groupId}`);
+  }
+}
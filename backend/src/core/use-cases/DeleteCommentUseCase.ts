@@ -0,0 +1,69 @@
+import { ICommentRepository } from '../interfaces/repositories/ICommentRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { RecordActivityUseCase } from './RecordActivityUseCase.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { ActivityType } from '../../shared/constants/index.js';
+
+/**
+ * DeleteCommentUseCase
+ *
+ * Deletes a comment, by its author or by a group admin as moderation.
+ *
+ * Business Logic:
+ * 1. Verify user is the author or an admin of the comment's group
+ * 2. A comment with replies becomes a placeholder so the thread stays readable
+ * 3. Removing the last reply under a placeholder removes the placeholder too
+ * 4. Admins removing someone else's comment records a COMMENT_REMOVED activity
+ */
+
+export interface DeleteCommentDTO {
+  commentId: string;
+  userId: string;
+}
+
+export class DeleteCommentUseCase {
+  constructor(
+    private commentRepository: ICommentRepository,
+    private groupRepository: IGroupRepository,
+    private recordActivityUseCase: RecordActivityUseCase
+  ) {}
+
+  async execute(dto: DeleteCommentDTO): Promise<void> {
+    const comment = await this.commentRepository.findById(dto.commentId);
+    if (!comment || comment.isDeleted()) {
+      throw new NotFoundError('Comment not found');
+    }
+
+    const group = await this.groupRepository.findByIdAndUserId(comment.groupId, dto.userId);
+    if (!group) {
+      throw new ForbiddenError('You do not have access to this comment');
+    }
+
+    if (!comment.canBeDeletedBy(dto.userId, group.isAdmin(dto.userId))) {
+      throw new ForbiddenError('You can only delete your own comments');
+    }
+
+    const replies = await this.commentRepository.countReplies(comment.id);
+    if (replies > 0) {
+      await this.commentRepository.softDelete(comment.id, dto.userId);
+    } else {
+      await this.commentRepository.delete(comment.id);
+
+      if (comment.parentId) {
+        const parent = await this.commentRepository.findById(comment.parentId);
+        if (parent?.isDeleted() && (await this.commentRepository.countReplies(parent.id)) === 0) {
+          await this.commentRepository.delete(parent.id);
+        }
+      }
+    }
+
+    if (comment.authorId !== dto.userId) {
+      await this.recordActivityUseCase.execute({
+        groupId: comment.groupId,
+        userId: dto.userId,
+        type: ActivityType.COMMENT_REMOVED,
+        metadata: { mediaId: comment.mediaId, commentId: comment.id, authorId: comment.authorId },
+      });
+    }
+  }
+}
@@ -2,6 +2,13 @@ import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js
 import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
 import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
 import { IFaceClusterRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IAlbumRepository } from '../interfaces/repositories/IAlbumRepository.js';
+import { ICommentRepository, IReactionRepository } from '../interfaces/repositories/ICommentRepository.js';
+import { IFavoriteRepository, IHighlightRepository } from '../interfaces/repositories/IFavoriteRepository.js';
+import { IActivityRepository } from '../interfaces/repositories/IActivityRepository.js';
+import { IInviteRepository } from '../interfaces/repositories/IInviteRepository.js';
+import { IEmailInvitationRepository } from '../interfaces/repositories/IEmailInvitationRepository.js';
+import { IJoinRequestRepository } from '../interfaces/repositories/IJoinRequestRepository.js';
 import { IStorageService } from '../interfaces/services/IStorageService.js';
 import { IFaceRecognitionService } from '../interfaces/services/IFaceRecognitionService.js';
 import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
@@ -25,6 +32,11 @@ import { Media } from '../entities/Media.js';
  *    - Face cluster members
  *    - Face clusters
  *    - Face detections
+ *    - Albums
+ *    - Comments and reactions
+ *    - Favourites and highlights
+ *    - Activity feed
+ *    - Invites, email invitations and join requests
  *    - Media
  *    - Group
  */
@@ -40,6 +52,15 @@ export class DeleteGroupUseCase {
     private mediaRepository: IMediaRepository,
     private faceDetectionRepository: IFaceDetectionRepository,
     private faceClusterRepository: IFaceClusterRepository,
+    private albumRepository: IAlbumRepository,
+    private commentRepository: ICommentRepository,
+    private reactionRepository: IReactionRepository,
+    private favoriteRepository: IFavoriteRepository,
+    private highlightRepository: IHighlightRepository,
+    private activityRepository: IActivityRepository,
+    private inviteRepository: IInviteRepository,
+    private emailInvitationRepository: IEmailInvitationRepository,
+    private joinRequestRepository: IJoinRequestRepository,
     private storageService: IStorageService,
     private faceRecognitionService: IFaceRecognitionService
   ) {}
@@ -118,7 +139,7 @@ export class DeleteGroupUseCase {
       }
 
       // Collect all S3 keys (media files)
-      const s3Keys = allMedia.map(m => m.s3Key);
+      const s3Keys = allMedia.flatMap(m => m.storageKeys());
 
       // Get all face detections to collect thumbnail keys
       const allFaceDetections = await Promise.all(
@@ -174,7 +195,32 @@ export class DeleteGroupUseCase {
       }
       console.log(`[DeleteGroup] Deleted ${faceDetectionsDeleted} face detections`);
 
-      // 3. Delete media (references group)
+      // 3. Delete albums (reference media)
+      const albumsDeleted = await this.albumRepository.deleteByGroupId(groupId);
+      console.log(`[DeleteGroup] Deleted ${albumsDeleted} albums`);
+
+      // 4. Delete comments, reactions and the activity feed (reference media and group)
+      const commentsDeleted = await this.commentRepository.deleteByGroupId(groupId);
+      const reactionsDeleted = await this.reactionRepository.deleteByGroupId(groupId);
+      const activitiesDeleted = await this.activityRepository.deleteByGroupId(groupId);
+      console.log(
+        `[DeleteGroup] Deleted ${commentsDeleted} comments, ${reactionsDeleted} reactions and ${activitiesDeleted} activities`
+      );
+
+      // 5. Delete favourites and highlights (reference media)
+      const favoritesDeleted = await this.favoriteRepository.deleteByGroupId(groupId);
+      const highlightsDeleted = await this.highlightRepository.deleteByGroupId(groupId);
+      console.log(`[DeleteGroup] Deleted ${favoritesDeleted} favourites and ${highlightsDeleted} highlights`);
+
+      // 6. Delete named invites, email invitations and join requests (reference group)
+      const invitesDeleted = await this.inviteRepository.deleteByGroupId(groupId);
+      const invitationsDeleted = await this.emailInvitationRepository.deleteByGroupId(groupId);
+      const joinRequestsDeleted = await this.joinRequestRepository.deleteByGroupId(groupId);
+      console.log(
+        `[DeleteGroup] Deleted ${invitesDeleted} invites, ${invitationsDeleted} email invitations and ${joinRequestsDeleted} join requests`
+      );
+
+      // 7. Delete media (references group)
       const mediaDeleted = await this.mediaRepository.deleteByGroupId(groupId);
       console.log(`[DeleteGroup] Deleted ${mediaDeleted} media records`);
 
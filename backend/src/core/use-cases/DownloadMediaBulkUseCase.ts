@@ -1,11 +1,13 @@
 import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
 import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
 import { NotFoundError, ForbiddenError, BadRequestError } from '../../shared/errors/AppError.js';
+import { DownloadVariantType } from '../../shared/types/index.js';
 
 export interface DownloadMediaBulkInput {
   userId: string;
   groupId: string;
   mediaIds: string[];
+  variant?: DownloadVariantType; // For HEIC/RAW uploads: the file as uploaded or the converted JPEG
 }
 
 export interface MediaDownloadInfo {
@@ -21,7 +23,7 @@ export class DownloadMediaBulkUseCase {
   ) {}
 
   async execute(input: DownloadMediaBulkInput): Promise<MediaDownloadInfo[]> {
-    const { userId, groupId, mediaIds } = input;
+    const { userId, groupId, mediaIds, variant } = input;
 
     // Validate input
     if (!mediaIds || mediaIds.length === 0) {
@@ -57,10 +59,13 @@ export class DownloadMediaBulkUseCase {
     }
 
     // Return media info for download
-    return mediaItems.map((media) => ({
-      id: media.id,
-      s3Key: media.s3Key,
-      originalName: media.originalName,
-    }));
+    return mediaItems.map((media) => {
+      const { s3Key, filename } = media.downloadTarget(variant);
+      return {
+        id: media.id,
+        s3Key,
+        originalName: filename,
+      };
+    });
   }
 }
@@ -0,0 +1,126 @@
+import { Media } from '../entities/Media.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, ForbiddenError, BadRequestError } from '../../shared/errors/AppError.js';
+import { DEFAULTS } from '../../shared/constants/index.js';
+import { hammingDistance } from '../../shared/utils/perceptualHash.js';
+
+/**
+ * FindDuplicateMediaUseCase
+ *
+ * Groups a group's media into sets of exact and near-duplicates.
+ *
+ * Business Logic:
+ * 1. Verify user has admin access to the group
+ * 2. Pick keepers in order of quality: highest resolution, then largest file, then first uploaded
+ * 3. Each keeper's set holds the media with the same content hash, or a perceptual hash within
+ *    NEAR_DUPLICATE_MAX_DISTANCE bits of the keeper's (photos and videos are never mixed).
+ *    Removing duplicates deletes everything but the keeper, so every item must be close to it
+ */
+
+export interface FindDuplicateMediaDTO {
+  groupId: string;
+  userId: string;
+}
+
+export interface DuplicateSet {
+  keeperId: string;
+  exact: boolean; // Every item has the same content hash
+  media: Media[]; // Keeper first
+  reclaimableBytes: number; // Freed by removing everything except the keeper
+}
+
+export interface FindDuplicateMediaResult {
+  sets: DuplicateSet[];
+  reclaimableBytes: number;
+}
+
+export class FindDuplicateMediaUseCase {
+  constructor(
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: FindDuplicateMediaDTO): Promise<FindDuplicateMediaResult> {
+    if (!dto.groupId || !dto.userId) {
+      throw new BadRequestError('Group ID and user ID are required');
+    }
+
+    const group = await this.groupRepository.findById(dto.groupId);
+    if (!group) {
+      throw new NotFoundError('Group not found');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Admin access required');
+    }
+
+    const media = await this.mediaRepository.findHashedByGroupId(dto.groupId);
+    const sets = this.groupDuplicates(media);
+
+    return {
+      sets,
+      reclaimableBytes: sets.reduce((sum, set) => sum + set.reclaimableBytes, 0),
+    };
+  }
+
+  /**
+   * Each set is built around its keeper: the best remaining copy takes every other
+   * item within reach of it. Similarity is not transitive (burst shots drift a few
+   * bits per frame), so items are never linked through each other.
+   * Groups are small enough for the quadratic scan
+   */
+  private groupDuplicates(media: Media[]): DuplicateSet[] {
+    let remaining = [...media].sort((a, b) => this.compareKeepers(a, b));
+    const sets: DuplicateSet[] = [];
+
+    while (remaining.length > 0) {
+      const [keeper, ...others] = remaining;
+      const copies: Media[] = [];
+      remaining = [];
+      for (const item of others) {
+        (this.isDuplicate(keeper, item) ? copies : remaining).push(item);
+      }
+
+      if (copies.length > 0) {
+        sets.push({
+          keeperId: keeper.id,
+          exact: copies.every(item => !!item.contentHash && item.contentHash === keeper.contentHash),
+          media: [keeper, ...copies],
+          reclaimableBytes: copies.reduce((sum, item) => sum + item.fileSize, 0),
+        });
+      }
+    }
+
+    return sets.sort((a, b) => b.reclaimableBytes - a.reclaimableBytes);
+  }
+
+  private isDuplicate(a: Media, b: Media): boolean {
+    if (a.mediaType !== b.mediaType) {
+      return false;
+    }
+
+    if (a.contentHash && a.contentHash === b.contentHash) {
+      return true;
+    }
+
+    return (
+      !!a.perceptualHash &&
+      !!b.perceptualHash &&
+      hammingDistance(a.perceptualHash, b.perceptualHash) <= DEFAULTS.NEAR_DUPLICATE_MAX_DISTANCE
+    );
+  }
+
+  /**
+   * Sort order putting the best copy first
+   */
+  private compareKeepers(a: Media, b: Media): number {
+    const pixels = (m: Media) => (m.width ?? 0) * (m.height ?? 0);
+
+    return (
+      pixels(b) - pixels(a) ||
+      b.fileSize - a.fileSize ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { Album } from '../entities/Album.js';
+import { Group } from '../entities/Group.js';
+import { IAlbumRepository } from '../interfaces/repositories/IAlbumRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
+import { IStorageService } from '../interfaces/services/IStorageService.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { attachFaceDetections, MediaWithFaceInfo } from './GetClusterMediaUseCase.js';
+
+export interface AlbumAccess {
+  album: Album;
+  group: Group;
+}
+
+export interface AlbumMediaResult {
+  media: MediaWithFaceInfo[];
+  album: {
+    id: string;
+    name: string;
+    description?: string;
+    mediaCount: number;
+  };
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * Load an album the user can see, optionally requiring that they can manage it
+ * (album creator or group admin). Also used by the album editing use cases
+ */
+export async function findAlbumForUser(
+  albumId: string,
+  userId: string,
+  albumRepository: IAlbumRepository,
+  groupRepository: IGroupRepository,
+  requireManage: boolean = false
+): Promise<AlbumAccess> {
+  const album = await albumRepository.findById(albumId);
+  if (!album) {
+    throw new NotFoundError('Album not found');
+  }
+
+  const group = await groupRepository.findByIdAndUserId(album.groupId, userId);
+  if (!group) {
+    throw new ForbiddenError('You do not have access to this album');
+  }
+
+  if (requireManage && !album.canBeManagedBy(userId, group.isAdmin(userId))) {
+    throw new ForbiddenError('Only the album creator or a group admin can change this album');
+  }
+
+  return { album, group };
+}
+
+/**
+ * GetAlbumMediaUseCase
+ *
+ * Lists an album's media in album order.
+ *
+ * Business Logic:
+ * 1. Verify user is a member of the album's group
+ * 2. Drop media deleted since it was added, and prune it from the album
+ * 3. Paginate in album order and attach face detections and presigned URLs
+ */
+export class GetAlbumMediaUseCase {
+  constructor(
+    private readonly albumRepository: IAlbumRepository,
+    private readonly mediaRepository: IMediaRepository,
+    private readonly groupRepository: IGroupRepository,
+    private readonly faceDetectionRepository: IFaceDetectionRepository,
+    private readonly storageService: IStorageService
+  ) {}
+
+  async execute(
+    albumId: string,
+    userId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<AlbumMediaResult> {
+    const { album } = await findAlbumForUser(albumId, userId, this.albumRepository, this.groupRepository);
+
+    const mediaById = new Map(
+      (await this.mediaRepository.findByIds(album.mediaIds)).map(item => [item.id, item])
+    );
+
+    const staleIds = album.mediaIds.filter(id => !mediaById.has(id));
+    if (staleIds.length > 0) {
+      await this.albumRepository.removeMedia(album.id, staleIds);
+    }
+
+    const ordered = album.mediaIds.filter(id => mediaById.has(id)).map(id => mediaById.get(id)!);
+
+    // Manual pagination to keep album order
+    const total = ordered.length;
+    const totalPages = Math.ceil(total / limit);
+    const skip = (page - 1) * limit;
+    const paginatedMedia = ordered.slice(skip, skip + limit);
+
+    const faceDetections = await this.faceDetectionRepository.findByMediaIds(paginatedMedia.map(m => m.id));
+    const mediaWithFaces = await attachFaceDetections(paginatedMedia, faceDetections, this.storageService);
+
+    return {
+      media: mediaWithFaces,
+      album: {
+        id: album.id,
+        name: album.name,
+        description: album.description,
+        mediaCount: total,
+      },
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+      },
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IStorageService } from '../interfaces/services/IStorageService.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { calculateCoverScore } from '../../shared/utils/faceQuality.js';
+
+export interface ClusterFace {
+  id: string;
+  mediaId: string;
+  confidence: number;
+  qualityScore?: number;
+  thumbnailUrl?: string;
+}
+
+/**
+ * GetClusterFacesUseCase
+ *
+ * Lists the individual faces of a cluster with thumbnails,
+ * used by the face picker to split or move faces.
+ */
+export class GetClusterFacesUseCase {
+  constructor(
+    private readonly clusterRepository: IFaceClusterRepository,
+    private readonly clusterMemberRepository: IFaceClusterMemberRepository,
+    private readonly faceDetectionRepository: IFaceDetectionRepository,
+    private readonly groupRepository: IGroupRepository,
+    private readonly storageService: IStorageService
+  ) {}
+
+  async execute(clusterId: string, userId: string): Promise<ClusterFace[]> {
+    const cluster = await this.clusterRepository.findById(clusterId);
+    if (!cluster) {
+      throw new NotFoundError('Cluster not found');
+    }
+
+    // Verify user has access to the group
+    const group = await this.groupRepository.findByIdAndUserId(cluster.groupId, userId);
+    if (!group) {
+      throw new ForbiddenError('You do not have access to this cluster');
+    }
+
+    const members = await this.clusterMemberRepository.findByClusterId(clusterId);
+    const confidenceByFace = new Map(members.map(m => [m.faceDetectionId, m.confidence]));
+    const faceDetections = await this.faceDetectionRepository.findByIds(members.map(m => m.faceDetectionId));
+
+    // Best cover candidates first
+    faceDetections.sort((a, b) => calculateCoverScore(b) - calculateCoverScore(a));
+
+    return Promise.all(
+      faceDetections.map(async (face) => {
+        let thumbnailUrl: string | undefined;
+        if (face.thumbnailS3Key) {
+          try {
+            thumbnailUrl = await this.storageService.getPresignedUrl(face.thumbnailS3Key, 3600);
+          } catch (error) {
+            console.error(`Failed to generate presigned URL for face ${face.id}:`, error);
+          }
+        }
+
+        return {
+          id: face.id,
+          mediaId: face.mediaId,
+          confidence: confidenceByFace.get(face.id) ?? 0,
+          qualityScore: face.qualityScore,
+          thumbnailUrl,
+        };
+      })
+    );
+  }
+}
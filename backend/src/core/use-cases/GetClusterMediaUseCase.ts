@@ -1,4 +1,5 @@
 import { Media } from '../entities/Media.js';
+import { FaceDetection } from '../entities/FaceDetection.js';
 import { IFaceClusterRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
 import { IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
 import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
@@ -6,9 +7,12 @@ import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js
 import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
 import { IStorageService } from '../interfaces/services/IStorageService.js';
 import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { MediaDerivatives, MediaDerivativeUrls, DerivativeSizeType } from '../../shared/types/index.js';
 
 export interface MediaWithFaceInfo extends Media {
   presignedUrl: string;
+  posterUrl?: string;
+  derivativeUrls?: MediaDerivativeUrls;
   faceDetections: Array<{
     id: string;
     boundingBox: {
@@ -18,6 +22,7 @@ export interface MediaWithFaceInfo extends Media {
       height: number;
     };
     confidence: number;
+    timestampSeconds?: number; // Position in the video, for faces found in keyframes
   }>;
 }
 
@@ -36,6 +41,126 @@ export interface ClusterMediaResult {
   };
 }
 
+/**
+ * Generate presigned URLs for every derivative size of a media item
+ * Accepts plain derivatives so cached media lists can use it too
+ */
+export async function presignDerivatives(
+  derivatives: MediaDerivatives | undefined,
+  storageService: IStorageService
+): Promise<MediaDerivativeUrls | undefined> {
+  if (!derivatives) {
+    return undefined;
+  }
+
+  const urls: MediaDerivativeUrls = {};
+  for (const [size, derivative] of Object.entries(derivatives)) {
+    if (!derivative) continue;
+
+    urls[size as DerivativeSizeType] = {
+      webp: await storageService.getPresignedUrl(derivative.webpS3Key, 3600),
+      avif: await storageService.getPresignedUrl(derivative.avifS3Key, 3600),
+      width: derivative.width,
+      height: derivative.height,
+    };
+  }
+
+  return urls;
+}
+
+/**
+ * Join face detections onto their media items and generate presigned URLs
+ * Also used by SearchFacesBySelfieUseCase
+ */
+export async function attachFaceDetections(
+  media: Media[],
+  faceDetections: FaceDetection[],
+  storageService: IStorageService
+): Promise<MediaWithFaceInfo[]> {
+  return Promise.all(
+    media.map(async (item) => {
+      const itemFaceDetections = faceDetections
+        .filter(detection => detection.mediaId === item.id)
+        .map(detection => ({
+          id: detection.id,
+          boundingBox: detection.boundingBox,
+          confidence: detection.confidence,
+          timestampSeconds: detection.timestampSeconds,
+        }));
+
+      try {
+        const presignedUrl = await storageService.getPresignedUrl(item.s3Key, 3600);
+        const posterUrl = item.posterS3Key
+          ? await storageService.getPresignedUrl(item.posterS3Key, 3600)
+          : undefined;
+        const derivativeUrls = await presignDerivatives(item.derivatives, storageService);
+
+        return {
+          id: item.id,
+          groupId: item.groupId,
+          uploaderId: item.uploaderId,
+          filename: item.filename,
+          originalName: item.originalName,
+          s3Key: item.s3Key,
+          s3Bucket: item.s3Bucket,
+          url: item.url,
+          mimeType: item.mimeType,
+          fileSize: item.fileSize,
+          isProcessed: item.processed,
+          width: item.width,
+          height: item.height,
+          mediaType: item.mediaType,
+          durationSeconds: item.durationSeconds,
+          originalMimeType: item.originalMimeType,
+          takenAt: item.takenAt,
+          cameraMake: item.cameraMake,
+          cameraModel: item.cameraModel,
+          location: item.location,
+          caption: item.caption,
+          tags: item.tags,
+          createdAt: item.createdAt,
+          updatedAt: item.updatedAt,
+          presignedUrl,
+          posterUrl,
+          derivativeUrls,
+          faceDetections: itemFaceDetections,
+        } as any;
+      } catch (error) {
+        console.error(`Failed to generate presigned URL for ${item.s3Key}:`, error);
+
+        return {
+          id: item.id,
+          groupId: item.groupId,
+          uploaderId: item.uploaderId,
+          filename: item.filename,
+          originalName: item.originalName,
+          s3Key: item.s3Key,
+          s3Bucket: item.s3Bucket,
+          url: item.url,
+          mimeType: item.mimeType,
+          fileSize: item.fileSize,
+          isProcessed: item.processed,
+          width: item.width,
+          height: item.height,
+          mediaType: item.mediaType,
+          durationSeconds: item.durationSeconds,
+          originalMimeType: item.originalMimeType,
+          takenAt: item.takenAt,
+          cameraMake: item.cameraMake,
+          cameraModel: item.cameraModel,
+          location: item.location,
+          caption: item.caption,
+          tags: item.tags,
+          createdAt: item.createdAt,
+          updatedAt: item.updatedAt,
+          presignedUrl: '',
+          faceDetections: itemFaceDetections,
+        } as any;
+      }
+    })
+  );
+}
+
 export class GetClusterMediaUseCase {
   constructor(
     private readonly clusterRepository: IFaceClusterRepository,
@@ -74,8 +199,10 @@ export class GetClusterMediaUseCase {
     // Get unique media IDs
     const mediaIds = [...new Set(faceDetections.map(f => f.mediaId))];
 
-    // Get media with pagination
-    const mediaResult = await this.mediaRepository.findByIds(mediaIds);
+    // Get media with pagination, newest capture time first
+    const mediaResult = (await this.mediaRepository.findByIds(mediaIds)).sort(
+      (a, b) => b.capturedAt().getTime() - a.capturedAt().getTime()
+    );
 
     // Manual pagination since findByIds doesn't support it
     const total = mediaResult.length;
@@ -84,63 +211,7 @@ export class GetClusterMediaUseCase {
     const paginatedMedia = mediaResult.slice(skip, skip + limit);
 
     // Attach face detection info to each media item and generate presigned URLs
-    const mediaWithFaces: MediaWithFaceInfo[] = await Promise.all(
-      paginatedMedia.map(async (item) => {
-        const itemFaceDetections = faceDetections
-          .filter(detection => detection.mediaId === item.id)
-          .map(detection => ({
-            id: detection.id,
-            boundingBox: detection.boundingBox,
-            confidence: detection.confidence,
-          }));
-
-        try {
-          const presignedUrl = await this.storageService.getPresignedUrl(item.s3Key, 3600);
-
-          return {
-            id: item.id,
-            groupId: item.groupId,
-            uploaderId: item.uploaderId,
-            filename: item.filename,
-            originalName: item.originalName,
-            s3Key: item.s3Key,
-            s3Bucket: item.s3Bucket,
-            url: item.url,
-            mimeType: item.mimeType,
-            fileSize: item.fileSize,
-            isProcessed: item.processed,
-            width: item.width,
-            height: item.height,
-            createdAt: item.createdAt,
-            updatedAt: item.updatedAt,
-            presignedUrl,
-            faceDetections: itemFaceDetections,
-          } as any;
-        } catch (error) {
-          console.error(`Failed to generate presigned URL for ${item.s3Key}:`, error);
-
-          return {
-            id: item.id,
-            groupId: item.groupId,
-            uploaderId: item.uploaderId,
-            filename: item.filename,
-            originalName: item.originalName,
-            s3Key: item.s3Key,
-            s3Bucket: item.s3Bucket,
-            url: item.url,
-            mimeType: item.mimeType,
-            fileSize: item.fileSize,
-            isProcessed: item.processed,
-            width: item.width,
-            height: item.height,
-            createdAt: item.createdAt,
-            updatedAt: item.updatedAt,
-            presignedUrl: '',
-            faceDetections: itemFaceDetections,
-          } as any;
-        }
-      })
-    );
+    const mediaWithFaces = await attachFaceDetections(paginatedMedia, faceDetections, this.storageService);
 
     return {
       media: mediaWithFaces,
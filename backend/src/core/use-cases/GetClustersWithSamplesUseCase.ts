@@ -3,8 +3,10 @@ import { IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceCl
 import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
 import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
 import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IUserRepository } from '../interfaces/repositories/IUserRepository.js';
 import { IStorageService } from '../interfaces/services/IStorageService.js';
 import { NotFoundError } from '../../shared/errors/AppError.js';
+import { selectCoverFace } from '../../shared/utils/faceQuality.js';
 
 export interface ClusterWithSample {
   id: string;
@@ -14,8 +16,17 @@ export interface ClusterWithSample {
   createdAt: Date;
   samplePhoto?: {
     thumbnailUrl: string;
+    faceDetectionId: string;
+    pinned: boolean;
   };
   totalPhotos: number;
+  linkedUser?: LinkedMember;
+}
+
+export interface LinkedMember {
+  id: string; // Clerk user ID
+  name?: string;
+  avatar?: string;
 }
 
 export class GetClustersWithSamplesUseCase {
@@ -25,7 +36,8 @@ export class GetClustersWithSamplesUseCase {
     private readonly faceDetectionRepository: IFaceDetectionRepository,
     private readonly _mediaRepository: IMediaRepository, // Reserved for future use
     private readonly groupRepository: IGroupRepository,
-    private readonly storageService: IStorageService
+    private readonly storageService: IStorageService,
+    private readonly userRepository: IUserRepository
   ) {}
 
   async execute(groupId: string, userId: string): Promise<ClusterWithSample[]> {
@@ -60,13 +72,12 @@ export class GetClustersWithSamplesUseCase {
         const faceDetectionIds = members.map(m => m.faceDetectionId);
         const faceDetections = await this.faceDetectionRepository.findByIds(faceDetectionIds);
 
-        // Find best quality face (highest quality score)
-        let bestFace = faceDetections[0];
-        for (const face of faceDetections) {
-          if (face.qualityScore && (!bestFace.qualityScore || face.qualityScore > bestFace.qualityScore)) {
-            bestFace = face;
-          }
-        }
+        // Use the pinned cover if it still belongs to the cluster,
+        // otherwise pick the best quality, most frontal face with a thumbnail
+        const pinnedFace = cluster.coverFaceDetectionId
+          ? faceDetections.find(face => face.id === cluster.coverFaceDetectionId && face.thumbnailS3Key)
+          : undefined;
+        const bestFace = pinnedFace || selectCoverFace(faceDetections.filter(face => face.thumbnailS3Key));
 
         // Get all unique media IDs
         const mediaIds = [...new Set(faceDetections.map(f => f.mediaId))];
@@ -86,6 +97,8 @@ export class GetClustersWithSamplesUseCase {
               createdAt: cluster.createdAt,
               samplePhoto: {
                 thumbnailUrl,
+                faceDetectionId: bestFace.id,
+                pinned: !!pinnedFace,
               },
               totalPhotos,
             };
@@ -105,12 +118,31 @@ export class GetClustersWithSamplesUseCase {
       })
     );
 
+    // Attach the group members that clusters have been linked to
+    const linkedUsers = await this.getLinkedMembers(clusters.map(c => c.linkedUserId));
+    const clustersWithMembers: ClusterWithSample[] = clustersWithSamples.map((item, index) => {
+      const linkedUserId = clusters[index].linkedUserId;
+      return linkedUserId ? { ...item, linkedUser: linkedUsers.get(linkedUserId) } : item;
+    });
+
     // Sort by appearance count (descending) then by creation date (descending)
-    return clustersWithSamples.sort((a, b) => {
+    return clustersWithMembers.sort((a, b) => {
       if (b.appearanceCount !== a.appearanceCount) {
         return b.appearanceCount - a.appearanceCount;
       }
       return b.createdAt.getTime() - a.createdAt.getTime();
     });
   }
+
+  private async getLinkedMembers(userIds: Array<string | undefined>): Promise<Map<string, LinkedMember>> {
+    const uniqueIds = [...new Set(userIds.filter((id): id is string => !!id))];
+    const users = await Promise.all(uniqueIds.map(id => this.userRepository.findByClerkId(id)));
+
+    return new Map(
+      uniqueIds.map((id, index) => [
+        id,
+        { id, name: users[index]?.name, avatar: users[index]?.avatar },
+      ])
+    );
+  }
 }
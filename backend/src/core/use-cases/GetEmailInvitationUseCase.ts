@@ -0,0 +1,52 @@
+import { IEmailInvitationRepository } from '../interfaces/repositories/IEmailInvitationRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IUserRepository } from '../interfaces/repositories/IUserRepository.js';
+import { NotFoundError } from '../../shared/errors/AppError.js';
+import { MemberRoleType } from '../../shared/types/index.js';
+
+/**
+ * GetEmailInvitationUseCase
+ *
+ * Describes an email invitation for the page its link opens.
+ * Public so the invitee can see it before signing up; the token is the secret.
+ */
+
+export interface EmailInvitationPreview {
+  email: string;
+  groupName: string;
+  groupDescription?: string;
+  memberCount: number;
+  inviterName: string;
+  role: MemberRoleType;
+  status: 'pending' | 'expired' | 'accepted' | 'cancelled';
+  expiresAt: Date;
+}
+
+export class GetEmailInvitationUseCase {
+  constructor(
+    private emailInvitationRepository: IEmailInvitationRepository,
+    private groupRepository: IGroupRepository,
+    private userRepository: IUserRepository
+  ) {}
+
+  async execute(token: string): Promise<EmailInvitationPreview> {
+    const invitation = await this.emailInvitationRepository.findByToken(token);
+    const group = invitation ? await this.groupRepository.findById(invitation.groupId) : null;
+    if (!invitation || !group) {
+      throw new NotFoundError('Invitation not found');
+    }
+
+    const inviter = await this.userRepository.findByClerkId(invitation.invitedBy);
+
+    return {
+      email: invitation.email,
+      groupName: group.name,
+      groupDescription: group.description,
+      memberCount: group.members.length,
+      inviterName: inviter?.name || inviter?.email || 'A group admin',
+      role: invitation.role,
+      status: invitation.status === 'pending' && invitation.isExpired() ? 'expired' : invitation.status,
+      expiresAt: invitation.expiresAt,
+    };
+  }
+}
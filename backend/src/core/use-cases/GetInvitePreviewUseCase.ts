@@ -0,0 +1,82 @@
+import { Group } from '../entities/Group.js';
+import { Invite, InviteStatus } from '../entities/Invite.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IInviteRepository } from '../interfaces/repositories/IInviteRepository.js';
+import { NotFoundError } from '../../shared/errors/AppError.js';
+import { MemberRole } from '../../shared/constants/index.js';
+import { MemberRoleType } from '../../shared/types/index.js';
+
+/**
+ * GetInvitePreviewUseCase
+ *
+ * Describes what an invite code grants, for the join page.
+ * Public so people can see the invite before signing in.
+ *
+ * Business Logic:
+ * 1. Resolve the code to the group's permanent code or a named invite
+ * 2. The permanent code always grants member access and never expires
+ * 3. Unusable named invites are still described, with their status, so the page can say why
+ * 4. Says whether joining needs an admin's approval, so the page can ask rather than join
+ */
+
+export interface InvitePreview {
+  code: string;
+  groupName: string;
+  groupDescription?: string;
+  memberCount: number;
+  role: MemberRoleType;
+  label?: string;
+  expiresAt?: Date;
+  remainingUses?: number;
+  status: InviteStatus;
+  requireApproval: boolean;
+}
+
+/**
+ * The group an invite code joins, and the named invite when it isn't the group's own code
+ * Also used by JoinGroupUseCase
+ */
+export async function findGroupForInviteCode(
+  inviteCode: string,
+  groupRepository: IGroupRepository,
+  inviteRepository: IInviteRepository
+): Promise<{ group: Group; invite?: Invite }> {
+  const code = inviteCode.trim().toUpperCase();
+
+  const group = await groupRepository.findByInviteCode(code);
+  if (group) {
+    return { group };
+  }
+
+  const invite = await inviteRepository.findByCode(code);
+  const inviteGroup = invite ? await groupRepository.findById(invite.groupId) : null;
+  if (!invite || !inviteGroup) {
+    throw new NotFoundError('Invalid invite code');
+  }
+
+  return { group: inviteGroup, invite };
+}
+
+export class GetInvitePreviewUseCase {
+  constructor(
+    private groupRepository: IGroupRepository,
+    private inviteRepository: IInviteRepository
+  ) {}
+
+  async execute(inviteCode: string): Promise<InvitePreview> {
+    const { group, invite } = await findGroupForInviteCode(inviteCode, this.groupRepository, this.inviteRepository);
+
+    return {
+      code: invite?.code ?? group.inviteCode,
+      groupName: group.name,
+      groupDescription: group.description,
+      memberCount: group.members.length,
+      role: invite?.role ?? MemberRole.MEMBER,
+      label: invite?.label,
+      expiresAt: invite?.expiresAt,
+      remainingUses: invite?.remainingUses(),
+      status: invite?.status() ?? 'active',
+      requireApproval: group.requireApproval,
+    };
+  }
+}
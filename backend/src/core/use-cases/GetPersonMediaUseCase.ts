@@ -0,0 +1,94 @@
+import { IPersonRepository } from '../interfaces/repositories/IPersonRepository.js';
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IStorageService } from '../interfaces/services/IStorageService.js';
+import { NotFoundError } from '../../shared/errors/AppError.js';
+import { attachFaceDetections, MediaWithFaceInfo } from './GetClusterMediaUseCase.js';
+import { resolveVisibleClusters } from './ListPeopleUseCase.js';
+
+export interface PersonMediaResult {
+  media: Array<MediaWithFaceInfo & { groupName: string }>;
+  person: {
+    id: string;
+    name: string;
+  };
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * GetPersonMediaUseCase
+ *
+ * Aggregates the photos of one of the user's people across groups.
+ * Only clusters in groups the user is currently a member of contribute media.
+ */
+export class GetPersonMediaUseCase {
+  constructor(
+    private readonly personRepository: IPersonRepository,
+    private readonly clusterRepository: IFaceClusterRepository,
+    private readonly clusterMemberRepository: IFaceClusterMemberRepository,
+    private readonly faceDetectionRepository: IFaceDetectionRepository,
+    private readonly mediaRepository: IMediaRepository,
+    private readonly groupRepository: IGroupRepository,
+    private readonly storageService: IStorageService
+  ) {}
+
+  async execute(
+    personId: string,
+    userId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PersonMediaResult> {
+    const person = await this.personRepository.findById(personId);
+    if (!person || !person.isOwnedBy(userId)) {
+      throw new NotFoundError('Person not found');
+    }
+
+    const visible = await resolveVisibleClusters(
+      person,
+      userId,
+      this.clusterRepository,
+      this.groupRepository
+    );
+    const groupNames = new Map(visible.map(({ group }) => [group.id, group.name]));
+
+    // Collect faces of every visible cluster
+    const members = await this.clusterMemberRepository.findByClusterIds(visible.map(v => v.cluster.id));
+    const faceDetections = await this.faceDetectionRepository.findByIds(members.map(m => m.faceDetectionId));
+    const mediaIds = [...new Set(faceDetections.map(f => f.mediaId))];
+
+    // Newest first across all groups; the group check guards against stale links
+    const allMedia = (await this.mediaRepository.findByIds(mediaIds))
+      .filter(media => groupNames.has(media.groupId))
+      .sort((a, b) => b.capturedAt().getTime() - a.capturedAt().getTime());
+
+    const total = allMedia.length;
+    const totalPages = Math.ceil(total / limit);
+    const skip = (page - 1) * limit;
+    const paginatedMedia = allMedia.slice(skip, skip + limit);
+
+    const mediaWithFaces = await attachFaceDetections(paginatedMedia, faceDetections, this.storageService);
+
+    return {
+      media: mediaWithFaces.map(item =>
+        Object.assign(item, { groupName: groupNames.get(item.groupId) || '' })
+      ),
+      person: {
+        id: person.id,
+        name: person.name,
+      },
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+      },
+    };
+  }
+}
@@ -3,11 +3,13 @@ import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js
 import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
 import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
 import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
+import { IAlbumRepository } from '../interfaces/repositories/IAlbumRepository.js';
 import { IStorageService } from '../interfaces/services/IStorageService.js';
 import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
 import { Group } from '../entities/Group.js';
 import { Media } from '../entities/Media.js';
 import { FaceCluster } from '../entities/FaceCluster.js';
+import { Album } from '../entities/Album.js';
 
 interface SharedResource {
   link: {
@@ -19,7 +21,7 @@ interface SharedResource {
     };
     expiresAt: Date | null;
   };
-  resource: any; // Group, Media, or Cluster data
+  resource: any; // Group, Media, Cluster, or Album data
   media?: Array<{
     id: string;
     originalName: string;
@@ -44,7 +46,8 @@ export class GetSharedResourceUseCase {
     private faceClusterRepository: IFaceClusterRepository,
     private faceClusterMemberRepository: IFaceClusterMemberRepository,
     private faceDetectionRepository: IFaceDetectionRepository,
-    private storageService: IStorageService
+    private storageService: IStorageService,
+    private albumRepository: IAlbumRepository
   ) {}
 
   async execute(token: string): Promise<SharedResource> {
@@ -128,6 +131,24 @@ export class GetSharedResourceUseCase {
         break;
       }
 
+      case 'album': {
+        const album = await this.albumRepository.findById(link.resourceId);
+        if (!album) {
+          throw new NotFoundError('Album not found');
+        }
+
+        resource = this.formatAlbum(album);
+
+        // Keep album order, skipping media deleted since it was added
+        const mediaById = new Map(
+          (await this.mediaRepository.findByIds(album.mediaIds)).map(item => [item.id, item])
+        );
+        media = await this.formatMediaList(
+          album.mediaIds.filter(id => mediaById.has(id)).map(id => mediaById.get(id)!)
+        );
+        break;
+      }
+
       default:
         throw new NotFoundError('Invalid resource type');
     }
@@ -219,6 +240,16 @@ export class GetSharedResourceUseCase {
     );
   }
 
+  private formatAlbum(album: Album) {
+    return {
+      id: album.id,
+      name: album.name,
+      description: album.description,
+      mediaCount: album.mediaIds.length,
+      createdAt: album.createdAt,
+    };
+  }
+
   private formatCluster(cluster: FaceCluster) {
     return {
       id: cluster.id,
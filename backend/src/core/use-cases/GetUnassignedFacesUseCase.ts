@@ -0,0 +1,90 @@
+import { IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IStorageService } from '../interfaces/services/IStorageService.js';
+import { NotFoundError } from '../../shared/errors/AppError.js';
+import { IBoundingBox } from '../../shared/types/index.js';
+
+export interface UnassignedFace {
+  id: string;
+  mediaId: string;
+  boundingBox: IBoundingBox;
+  confidence: number;
+  qualityScore?: number;
+  thumbnailUrl?: string;
+  createdAt: Date;
+}
+
+/**
+ * GetUnassignedFacesUseCase
+ *
+ * Returns processed faces in a group that do not belong to any cluster,
+ * e.g. people who appear in a single photo or faces removed from a cluster.
+ * Faces below the group's quality floor are treated as noise and omitted.
+ */
+export class GetUnassignedFacesUseCase {
+  constructor(
+    private readonly clusterMemberRepository: IFaceClusterMemberRepository,
+    private readonly faceDetectionRepository: IFaceDetectionRepository,
+    private readonly mediaRepository: IMediaRepository,
+    private readonly groupRepository: IGroupRepository,
+    private readonly storageService: IStorageService
+  ) {}
+
+  async execute(groupId: string, userId: string): Promise<UnassignedFace[]> {
+    // Verify user has access to the group
+    const group = await this.groupRepository.findByIdAndUserId(groupId, userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    const mediaResponse = await this.mediaRepository.findByGroupId(groupId, { page: 1, limit: 10000 });
+    const mediaIds = mediaResponse.data.map(m => m.id);
+    if (mediaIds.length === 0) {
+      return [];
+    }
+
+    const faceDetections = await this.faceDetectionRepository.findByMediaIds(mediaIds);
+    const processedFaces = faceDetections.filter(face => face.processed);
+
+    // Exclude faces that already belong to a cluster
+    const members = await this.clusterMemberRepository.findByFaceDetectionIds(
+      processedFaces.map(face => face.id)
+    );
+    const clusteredIds = new Set(members.map(m => m.faceDetectionId));
+
+    const { qualityThreshold } = group.clusteringSettings;
+    const unassignedFaces = processedFaces.filter(
+      face =>
+        !clusteredIds.has(face.id) &&
+        (face.qualityScore === undefined || face.qualityScore >= qualityThreshold)
+    );
+
+    const result = await Promise.all(
+      unassignedFaces.map(async (face) => {
+        let thumbnailUrl: string | undefined;
+        if (face.thumbnailS3Key) {
+          try {
+            thumbnailUrl = await this.storageService.getPresignedUrl(face.thumbnailS3Key, 3600);
+          } catch (error) {
+            console.error(`Failed to generate presigned URL for face ${face.id}:`, error);
+          }
+        }
+
+        return {
+          id: face.id,
+          mediaId: face.mediaId,
+          boundingBox: face.boundingBox,
+          confidence: face.confidence,
+          qualityScore: face.qualityScore,
+          thumbnailUrl,
+          createdAt: face.createdAt,
+        };
+      })
+    );
+
+    // Best quality faces first
+    return result.sort((a, b) => (b.qualityScore ?? 0) - (a.qualityScore ?? 0));
+  }
+}
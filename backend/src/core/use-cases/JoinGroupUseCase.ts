@@ -1,21 +1,77 @@
 import { Group } from '../entities/Group.js';
 import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
 import { IUserRepository } from '../interfaces/repositories/IUserRepository.js';
+import { IInviteRepository } from '../interfaces/repositories/IInviteRepository.js';
+import { IJoinRequestRepository } from '../interfaces/repositories/IJoinRequestRepository.js';
+import { JoinRequest } from '../entities/JoinRequest.js';
 import { BadRequestError, NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
-import { MemberRole } from '../../shared/constants/index.js';
+import { RecordActivityUseCase } from './RecordActivityUseCase.js';
+import { MemberRole, ActivityType } from '../../shared/constants/index.js';
+import { MemberRoleType } from '../../shared/types/index.js';
+import { findGroupForInviteCode } from './GetInvitePreviewUseCase.js';
 
 export interface JoinGroupDto {
   inviteCode: string;
   userId: string;
 }
 
+/**
+ * A request waiting for an admin, as shown to the person who asked to join
+ */
+export interface PendingJoinRequest {
+  id: string;
+  groupId: string;
+  groupName: string;
+  role: MemberRoleType;
+  status: 'pending';
+  createdAt: Date;
+}
+
+export type JoinGroupResult =
+  | { status: 'joined'; group: Group }
+  | { status: 'pending'; request: PendingJoinRequest };
+
+const UNUSABLE_INVITE_MESSAGES = {
+  expired: 'This invite has expired',
+  exhausted: 'This invite has reached its usage limit',
+  revoked: 'This invite has been revoked',
+};
+
+/**
+ * Add a user to a group with the given role and record the join in the activity feed
+ * Also used by AcceptEmailInvitationUseCase and ReviewJoinRequestUseCase
+ */
+export async function addMemberToGroup(
+  group: Group,
+  userId: string,
+  role: MemberRoleType,
+  groupRepository: IGroupRepository,
+  recordActivityUseCase: RecordActivityUseCase
+): Promise<Group> {
+  const savedGroup = await groupRepository.update(group.id, group.addMember(userId, role));
+  if (!savedGroup) {
+    throw new Error('Failed to join group');
+  }
+
+  await recordActivityUseCase.execute({
+    groupId: savedGroup.id,
+    userId,
+    type: ActivityType.MEMBER_JOINED,
+  });
+
+  return savedGroup;
+}
+
 export class JoinGroupUseCase {
   constructor(
     private readonly groupRepository: IGroupRepository,
-    private readonly userRepository: IUserRepository
+    private readonly userRepository: IUserRepository,
+    private readonly inviteRepository: IInviteRepository,
+    private readonly joinRequestRepository: IJoinRequestRepository,
+    private readonly recordActivityUseCase: RecordActivityUseCase
   ) {}
 
-  async execute(dto: JoinGroupDto): Promise<Group> {
+  async execute(dto: JoinGroupDto): Promise<JoinGroupResult> {
     // Validate input
     if (!dto.inviteCode || dto.inviteCode.trim().length === 0) {
       throw new BadRequestError('Invite code is required');
@@ -31,10 +87,18 @@ export class JoinGroupUseCase {
       throw new NotFoundError('User not found');
     }
 
-    // Find group by invite code
-    const group = await this.groupRepository.findByInviteCode(dto.inviteCode.trim().toUpperCase());
-    if (!group) {
-      throw new NotFoundError('Invalid invite code');
+    // Find group by its own invite code or a named invite
+    const { group, invite } = await findGroupForInviteCode(
+      dto.inviteCode,
+      this.groupRepository,
+      this.inviteRepository
+    );
+
+    if (invite) {
+      const status = invite.status();
+      if (status !== 'active') {
+        throw new ForbiddenError(UNUSABLE_INVITE_MESSAGES[status]);
+      }
     }
 
     // Check if user is already a member
@@ -42,15 +106,45 @@ export class JoinGroupUseCase {
       throw new ForbiddenError('You are already a member of this group');
     }
 
-    // Add user as member
-    const updatedGroup = group.addMember(dto.userId, MemberRole.MEMBER);
+    // Named invites grant their own role, the group code grants member access
+    const role = invite?.role ?? MemberRole.MEMBER;
+
+    // Groups that require approval get a request for the admins instead;
+    // asking again while one is open returns the same request
+    if (group.requireApproval) {
+      const existing = await this.joinRequestRepository.findPending(group.id, dto.userId);
+      const request =
+        existing ??
+        (await this.joinRequestRepository.create(
+          JoinRequest.create({ groupId: group.id, userId: dto.userId, role, inviteId: invite?.id })
+        ));
 
-    // Save to database
-    const savedGroup = await this.groupRepository.update(group.id, updatedGroup);
-    if (!savedGroup) {
-      throw new Error('Failed to join group');
+      return {
+        status: 'pending',
+        request: {
+          id: request.id,
+          groupId: group.id,
+          groupName: group.name,
+          role: request.role,
+          status: 'pending',
+          createdAt: request.createdAt,
+        },
+      };
     }
 
-    return savedGroup;
+    // Claim a use before adding the member so the limit holds under concurrent joins
+    if (invite && !(await this.inviteRepository.recordUse(invite.id, dto.userId))) {
+      throw new ForbiddenError('This invite is no longer valid');
+    }
+
+    const savedGroup = await addMemberToGroup(
+      group,
+      dto.userId,
+      role,
+      this.groupRepository,
+      this.recordActivityUseCase
+    );
+
+    return { status: 'joined', group: savedGroup };
   }
 }
@@ -0,0 +1,124 @@
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IFaceClusterRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IPersonRepository } from '../interfaces/repositories/IPersonRepository.js';
+import { IMediaDeletionService } from '../interfaces/services/IMediaDeletionService.js';
+import { RecordActivityUseCase } from './RecordActivityUseCase.js';
+import { NotFoundError, BadRequestError } from '../../shared/errors/AppError.js';
+import { ActivityType } from '../../shared/constants/index.js';
+
+/**
+ * LeaveGroupUseCase
+ *
+ * Lets any member leave a group on their own.
+ *
+ * Business Logic:
+ * 1. The owner hands the group to another admin as they leave;
+ *    an owner who is the only member deletes the group instead
+ * 2. The leaver's uploads are kept, or deleted with their faces,
+ *    comments and reactions and the storage refunded to the group
+ * 3. The cluster linked to the leaver is released and the group
+ *    drops out of their people
+ * 4. Record a MEMBER_LEFT activity
+ */
+
+export interface LeaveGroupDTO {
+  groupId: string;
+  userId: string;
+  uploads: 'keep' | 'delete';
+  newOwnerId?: string; // Required when the owner leaves
+}
+
+export interface LeaveGroupResult {
+  deletedCount: number;
+  freedSpace: number;
+  affectedClusterIds: string[];
+  newOwnerId?: string;
+  memberIds: string[]; // Clerk IDs of the members still in the group
+}
+
+export class LeaveGroupUseCase {
+  constructor(
+    private groupRepository: IGroupRepository,
+    private mediaRepository: IMediaRepository,
+    private faceClusterRepository: IFaceClusterRepository,
+    private personRepository: IPersonRepository,
+    private mediaDeletionService: IMediaDeletionService,
+    private recordActivityUseCase: RecordActivityUseCase
+  ) {}
+
+  async execute(dto: LeaveGroupDTO): Promise<LeaveGroupResult> {
+    const group = await this.groupRepository.findByIdAndUserId(dto.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    // Work out the group without the leaver before deleting anything,
+    // so an invalid transfer doesn't cost them their uploads
+    let remaining = group;
+    if (group.creatorId === dto.userId) {
+      if (group.members.length === 1) {
+        throw new BadRequestError('You are the only member of this group. Delete the group instead');
+      }
+      if (!dto.newOwnerId) {
+        throw new BadRequestError('Choose an admin to take over the group before leaving');
+      }
+      remaining = group.transferOwnership(dto.newOwnerId);
+    }
+    remaining = remaining.removeMember(dto.userId);
+
+    // Saved before the uploads go, since update writes the whole group including storage used
+    const savedGroup = await this.groupRepository.update(group.id, remaining);
+    if (!savedGroup) {
+      throw new Error('Failed to leave group');
+    }
+
+    let result: Omit<LeaveGroupResult, 'newOwnerId' | 'memberIds'> = { deletedCount: 0, freedSpace: 0, affectedClusterIds: [] };
+    if (dto.uploads === 'delete') {
+      result = await this.deleteUploads(group.id, dto.userId);
+    }
+
+    // Release the cluster the member was linked to
+    const linkedCluster = await this.faceClusterRepository.findByLinkedUser(group.id, dto.userId);
+    if (linkedCluster) {
+      await this.faceClusterRepository.setLinkedUser(linkedCluster.id, null);
+    }
+
+    // The member can no longer see this group, so drop it from their people
+    await this.personRepository.removeGroupLinks(dto.userId, group.id);
+
+    await this.recordActivityUseCase.execute({
+      groupId: group.id,
+      userId: dto.userId,
+      type: ActivityType.MEMBER_LEFT,
+      metadata: { deletedMediaCount: result.deletedCount },
+    });
+
+    return {
+      ...result,
+      newOwnerId: savedGroup.creatorId !== group.creatorId ? savedGroup.creatorId : undefined,
+      memberIds: savedGroup.members.map(m => m.userId),
+    };
+  }
+
+  /**
+   * Delete everything the member uploaded to the group and refund the storage
+   */
+  private async deleteUploads(
+    groupId: string,
+    userId: string
+  ): Promise<Omit<LeaveGroupResult, 'newOwnerId' | 'memberIds'>> {
+    const uploads = await this.mediaRepository.findByUploader(groupId, userId);
+    if (uploads.length === 0) {
+      return { deletedCount: 0, freedSpace: 0, affectedClusterIds: [] };
+    }
+
+    const result = await this.mediaDeletionService.deleteMedia(groupId, uploads, { userId, reason: 'left' });
+
+    console.log(
+      `[LeaveGroup] Deleted ${result.deletedCount} uploads of ${userId} in group ${groupId}, freed ${result.freedSpace} bytes`
+    );
+
+    return result;
+  }
+}
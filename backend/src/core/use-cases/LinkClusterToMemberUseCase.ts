@@ -0,0 +1,84 @@
+import { IFaceClusterRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, ForbiddenError, BadRequestError, ConflictError } from '../../shared/errors/AppError.js';
+import { FaceCluster } from '../entities/FaceCluster.js';
+
+/**
+ * LinkClusterToMemberUseCase
+ *
+ * Links a face cluster to the group member it depicts, or removes the link.
+ *
+ * Business Logic:
+ * 1. Members may claim an unclaimed cluster as themselves, or release their own claim
+ * 2. Admins may link any cluster to any member, or unlink it
+ * 3. A member can be linked to at most one cluster per group
+ */
+
+export interface LinkClusterToMemberDTO {
+  clusterId: string;
+  memberUserId: string | null; // null removes the link
+  userId: string;
+}
+
+export class LinkClusterToMemberUseCase {
+  constructor(
+    private faceClusterRepository: IFaceClusterRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: LinkClusterToMemberDTO): Promise<FaceCluster> {
+    if (!dto.clusterId || !dto.userId) {
+      throw new BadRequestError('Cluster ID and user ID are required');
+    }
+
+    const cluster = await this.faceClusterRepository.findById(dto.clusterId);
+    if (!cluster) {
+      throw new NotFoundError('Cluster not found');
+    }
+
+    const group = await this.groupRepository.findByIdAndUserId(cluster.groupId, dto.userId);
+    if (!group) {
+      throw new ForbiddenError('You do not have access to this cluster');
+    }
+
+    const isAdmin = group.isAdmin(dto.userId);
+
+    if (dto.memberUserId === null) {
+      if (!cluster.linkedUserId) {
+        return cluster;
+      }
+
+      if (!isAdmin && !cluster.isLinkedTo(dto.userId)) {
+        throw new ForbiddenError('Only group admins can unlink another member');
+      }
+    } else {
+      if (!isAdmin && dto.memberUserId !== dto.userId) {
+        throw new ForbiddenError('Only group admins can link a cluster to another member');
+      }
+
+      if (!group.isMember(dto.memberUserId)) {
+        throw new BadRequestError('User is not a member of this group');
+      }
+
+      if (cluster.linkedUserId && !cluster.isLinkedTo(dto.memberUserId) && !isAdmin) {
+        throw new ConflictError('This person has already been claimed by another member');
+      }
+
+      const existing = await this.faceClusterRepository.findByLinkedUser(cluster.groupId, dto.memberUserId);
+      if (existing && existing.id !== cluster.id) {
+        throw new ConflictError('This member is already linked to another person in this group');
+      }
+    }
+
+    const updatedCluster = await this.faceClusterRepository.setLinkedUser(cluster.id, dto.memberUserId);
+    if (!updatedCluster) {
+      throw new NotFoundError('Cluster not found');
+    }
+
+    console.log(
+      `[LinkCluster] ${dto.userId} ${dto.memberUserId ? `linked cluster ${cluster.id} to ${dto.memberUserId}` : `unlinked cluster ${cluster.id}`}`
+    );
+
+    return updatedCluster;
+  }
+}
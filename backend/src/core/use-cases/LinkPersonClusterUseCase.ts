@@ -0,0 +1,66 @@
+import { IPersonRepository } from '../interfaces/repositories/IPersonRepository.js';
+import { IFaceClusterRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, ForbiddenError, BadRequestError } from '../../shared/errors/AppError.js';
+import { Person } from '../entities/Person.js';
+
+/**
+ * LinkPersonClusterUseCase
+ *
+ * Attaches a group's face cluster to one of the user's people.
+ *
+ * Business Logic:
+ * 1. Verify the person belongs to the user
+ * 2. Verify the user is a member of the cluster's group
+ * 3. Link the cluster (moving it away from any other person of the same user)
+ */
+
+export interface LinkPersonClusterDTO {
+  personId: string;
+  clusterId: string;
+  userId: string;
+}
+
+export class LinkPersonClusterUseCase {
+  constructor(
+    private personRepository: IPersonRepository,
+    private faceClusterRepository: IFaceClusterRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: LinkPersonClusterDTO): Promise<Person> {
+    if (!dto.personId || !dto.clusterId || !dto.userId) {
+      throw new BadRequestError('Person ID, cluster ID, and user ID are required');
+    }
+
+    const person = await this.personRepository.findById(dto.personId);
+    if (!person || !person.isOwnedBy(dto.userId)) {
+      throw new NotFoundError('Person not found');
+    }
+
+    const cluster = await this.faceClusterRepository.findById(dto.clusterId);
+    if (!cluster) {
+      throw new NotFoundError('Cluster not found');
+    }
+
+    const group = await this.groupRepository.findByIdAndUserId(cluster.groupId, dto.userId);
+    if (!group) {
+      throw new ForbiddenError('You do not have access to this cluster');
+    }
+
+    if (person.hasCluster(cluster.id)) {
+      return person;
+    }
+
+    const updatedPerson = await this.personRepository.addCluster(person.id, {
+      clusterId: cluster.id,
+      groupId: cluster.groupId,
+    });
+
+    if (!updatedPerson) {
+      throw new NotFoundError('Person not found');
+    }
+
+    return updatedPerson;
+  }
+}
@@ -0,0 +1,268 @@
+import { Activity } from '../entities/Activity.js';
+import { IActivityRepository, ActivityCursor } from '../interfaces/repositories/IActivityRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IUserRepository } from '../interfaces/repositories/IUserRepository.js';
+import { NotFoundError, BadRequestError } from '../../shared/errors/AppError.js';
+import { ActivityType, DEFAULTS } from '../../shared/constants/index.js';
+import { ActivityTypeType } from '../../shared/types/index.js';
+
+/**
+ * ListActivitiesUseCase
+ *
+ * Loads a page of a group's activity feed.
+ *
+ * Business Logic:
+ * 1. Verify user is a member of the group
+ * 2. Newest first, continuing from an opaque cursor
+ * 3. Runs of the same activity by one member (uploads, deletions, comments, reactions)
+ *    less than ACTIVITY_GROUPING_MINUTES apart are combined into one entry,
+ *    e.g. "Sam uploaded 34 photos". An entry is never split across pages
+ * 4. Each entry carries the member's name and a summary line
+ */
+
+export interface ListActivitiesDTO {
+  groupId: string;
+  userId: string;
+  limit: number;
+  cursor?: string;
+}
+
+export interface ActivityFeedEntry {
+  id: string; // ID of the newest activity in the entry
+  type: ActivityTypeType;
+  user: {
+    id: string; // Clerk user ID
+    name?: string;
+    email?: string;
+    avatar?: string;
+  };
+  title: string;
+  description?: string;
+  count: number; // Activities combined into this entry
+  metadata: Record<string, unknown>;
+  createdAt: Date; // Newest activity
+  startedAt: Date; // Oldest activity
+}
+
+export interface ActivityFeedPage {
+  activities: ActivityFeedEntry[];
+  nextCursor?: string;
+  hasMore: boolean;
+}
+
+// Activities combined into one entry when they follow each other closely
+const GROUPED_TYPES: ActivityTypeType[] = [
+  ActivityType.MEDIA_UPLOADED,
+  ActivityType.MEDIA_DELETED,
+  ActivityType.COMMENT_ADDED,
+  ActivityType.MEDIA_REACTED,
+];
+
+const DELETION_REASON_LABELS: Record<string, string> = {
+  duplicates: 'Removed as duplicates',
+  cleanup: 'Removed by a storage cleanup',
+  cluster: 'Removed together with a person',
+  left: 'Removed when leaving the group',
+};
+
+const SHARED_RESOURCE_LABELS: Record<string, string> = {
+  group: 'the group',
+  media: 'a photo',
+  cluster: 'a person',
+  album: 'an album',
+};
+
+// Read activities in batches large enough that a page rarely needs a second query
+const BATCH_MULTIPLIER = 5;
+const MAX_BATCH = 200;
+
+interface ActivityRun {
+  activities: Activity[]; // Newest first
+}
+
+export class ListActivitiesUseCase {
+  constructor(
+    private activityRepository: IActivityRepository,
+    private groupRepository: IGroupRepository,
+    private userRepository: IUserRepository
+  ) {}
+
+  async execute(dto: ListActivitiesDTO): Promise<ActivityFeedPage> {
+    const group = await this.groupRepository.findByIdAndUserId(dto.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    const runs = await this.loadRuns(dto.groupId, dto.limit, decodeCursor(dto.cursor));
+
+    // One run more than the page shows, so the last run on the page is known to be complete
+    const hasMore = runs.length > dto.limit;
+    const pageRuns = runs.slice(0, dto.limit);
+    const lastRun = pageRuns[pageRuns.length - 1];
+
+    const users = await this.findUsers(pageRuns.map(run => run.activities[0].userId));
+
+    return {
+      activities: pageRuns.map(run => this.toEntry(run, users)),
+      nextCursor: hasMore && lastRun ? encodeCursor(lastRun.activities[lastRun.activities.length - 1]) : undefined,
+      hasMore,
+    };
+  }
+
+  private async loadRuns(groupId: string, limit: number, cursor?: ActivityCursor): Promise<ActivityRun[]> {
+    const batchSize = Math.min(limit * BATCH_MULTIPLIER, MAX_BATCH);
+    const runs: ActivityRun[] = [];
+    let before = cursor;
+
+    while (runs.length <= limit) {
+      const batch = await this.activityRepository.findByGroupId(groupId, batchSize, before);
+
+      for (const activity of batch) {
+        const current = runs[runs.length - 1];
+        if (current && continuesRun(current, activity)) {
+          current.activities.push(activity);
+        } else {
+          runs.push({ activities: [activity] });
+        }
+      }
+
+      if (batch.length < batchSize) {
+        break;
+      }
+      const oldest = batch[batch.length - 1];
+      before = { createdAt: oldest.createdAt, id: oldest.id };
+    }
+
+    return runs;
+  }
+
+  private async findUsers(userIds: string[]): Promise<Map<string, ActivityFeedEntry['user']>> {
+    const uniqueIds = [...new Set(userIds)];
+    const users = await Promise.all(uniqueIds.map(id => this.userRepository.findByClerkId(id)));
+
+    return new Map(
+      uniqueIds.map((id, index) => [
+        id,
+        { id, name: users[index]?.name, email: users[index]?.email, avatar: users[index]?.avatar },
+      ])
+    );
+  }
+
+  private toEntry(run: ActivityRun, users: Map<string, ActivityFeedEntry['user']>): ActivityFeedEntry {
+    const newest = run.activities[0];
+    const oldest = run.activities[run.activities.length - 1];
+    const user = users.get(newest.userId) || { id: newest.userId };
+    const metadata = { ...newest.metadata };
+
+    // Combined uploads and deletions report the total media count
+    if (run.activities.length > 1 && typeof newest.metadata.mediaCount === 'number') {
+      metadata.mediaCount = run.activities.reduce(
+        (sum, activity) => sum + (typeof activity.metadata.mediaCount === 'number' ? activity.metadata.mediaCount : 0),
+        0
+      );
+    }
+
+    const { title, description } = describe(newest.type, user.name || user.email || 'Someone', run.activities.length, metadata);
+
+    return {
+      id: newest.id,
+      type: newest.type,
+      user,
+      title,
+      description,
+      count: run.activities.length,
+      metadata,
+      createdAt: newest.createdAt,
+      startedAt: oldest.createdAt,
+    };
+  }
+}
+
+function continuesRun(run: ActivityRun, activity: Activity): boolean {
+  const last = run.activities[run.activities.length - 1];
+
+  return (
+    GROUPED_TYPES.includes(activity.type) &&
+    activity.type === last.type &&
+    activity.userId === last.userId &&
+    last.createdAt.getTime() - activity.createdAt.getTime() <= DEFAULTS.ACTIVITY_GROUPING_MINUTES * 60 * 1000
+  );
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function describe(
+  type: ActivityTypeType,
+  name: string,
+  count: number,
+  metadata: Record<string, unknown>
+): { title: string; description?: string } {
+  const mediaCount = typeof metadata.mediaCount === 'number' ? metadata.mediaCount : count;
+
+  switch (type) {
+    case ActivityType.GROUP_CREATED:
+      return { title: `${name} created the group` };
+    case ActivityType.MEMBER_JOINED:
+      return { title: `${name} joined the group` };
+    case ActivityType.MEMBER_LEFT:
+      return {
+        title: `${name} left the group`,
+        description:
+          typeof metadata.deletedMediaCount === 'number' && metadata.deletedMediaCount > 0
+            ? `Removed ${plural(metadata.deletedMediaCount, 'photo')} they uploaded`
+            : undefined,
+      };
+    case ActivityType.MEDIA_UPLOADED:
+      return { title: `${name} uploaded ${plural(mediaCount, 'photo')}` };
+    case ActivityType.MEDIA_DELETED:
+      return {
+        title: `${name} deleted ${plural(mediaCount, 'photo')}`,
+        description: DELETION_REASON_LABELS[metadata.reason as string],
+      };
+    case ActivityType.CLUSTER_NAMED:
+      return metadata.previousName
+        ? { title: `${name} renamed "${metadata.previousName}" to "${metadata.clusterName}"` }
+        : { title: `${name} named a person "${metadata.clusterName}"` };
+    case ActivityType.CLUSTERS_MERGED:
+      return {
+        title: `${name} merged two people`,
+        description: metadata.clusterName ? `Now shown as "${metadata.clusterName}"` : undefined,
+      };
+    case ActivityType.SHARE_CREATED:
+      return {
+        title: `${name} shared ${SHARED_RESOURCE_LABELS[metadata.resourceType as string] || 'a link'}`,
+        description: typeof metadata.resourceName === 'string' ? metadata.resourceName : undefined,
+      };
+    case ActivityType.COMMENT_ADDED:
+      return { title: count === 1 ? `${name} left a comment` : `${name} left ${plural(count, 'comment')}` };
+    case ActivityType.COMMENT_REMOVED:
+      return { title: `${name} removed a comment` };
+    case ActivityType.MEDIA_REACTED:
+      return {
+        title: count === 1 ? `${name} reacted to a photo` : `${name} left ${plural(count, 'reaction')}`,
+        description: count === 1 && typeof metadata.emoji === 'string' ? metadata.emoji : undefined,
+      };
+    default:
+      return { title: name };
+  }
+}
+
+function encodeCursor(activity: Activity): string {
+  return Buffer.from(`${activity.createdAt.getTime()}:${activity.id}`).toString('base64url');
+}
+
+function decodeCursor(cursor?: string): ActivityCursor | undefined {
+  if (!cursor) {
+    return undefined;
+  }
+
+  const [time, id] = Buffer.from(cursor, 'base64url').toString().split(':');
+  const createdAt = new Date(Number(time));
+  if (!id || !/^[a-f\d]{24}$/i.test(id) || isNaN(createdAt.getTime())) {
+    throw new BadRequestError('Invalid cursor');
+  }
+
+  return { createdAt, id };
+}
@@ -0,0 +1,73 @@
+import { Album } from '../entities/Album.js';
+import { IAlbumRepository } from '../interfaces/repositories/IAlbumRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IStorageService } from '../interfaces/services/IStorageService.js';
+import { ForbiddenError } from '../../shared/errors/AppError.js';
+
+export interface AlbumSummary {
+  id: string;
+  groupId: string;
+  name: string;
+  description?: string;
+  createdBy: string;
+  mediaCount: number;
+  coverMediaId?: string;
+  coverUrl?: string;
+  canManage: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * ListAlbumsUseCase
+ *
+ * Lists a group's albums with their cover thumbnail.
+ */
+export class ListAlbumsUseCase {
+  constructor(
+    private readonly albumRepository: IAlbumRepository,
+    private readonly mediaRepository: IMediaRepository,
+    private readonly groupRepository: IGroupRepository,
+    private readonly storageService: IStorageService
+  ) {}
+
+  async execute(groupId: string, userId: string): Promise<AlbumSummary[]> {
+    const group = await this.groupRepository.findByIdAndUserId(groupId, userId);
+    if (!group) {
+      throw new ForbiddenError('You do not have access to this group');
+    }
+
+    const albums = await this.albumRepository.findByGroupId(groupId);
+    const isAdmin = group.isAdmin(userId);
+
+    return Promise.all(albums.map(album => this.toSummary(album, album.canBeManagedBy(userId, isAdmin))));
+  }
+
+  /**
+   * Format an album for API responses, used after every album change too
+   */
+  async toSummary(album: Album, canManage: boolean): Promise<AlbumSummary> {
+    const coverId = album.coverId();
+    const cover = coverId ? await this.mediaRepository.findById(coverId) : null;
+
+    // Card-sized derivative first, then the video poster, then the original
+    const coverKey = cover
+      ? cover.derivatives?.medium?.webpS3Key ?? cover.posterS3Key ?? cover.s3Key
+      : undefined;
+
+    return {
+      id: album.id,
+      groupId: album.groupId,
+      name: album.name,
+      description: album.description,
+      createdBy: album.createdBy,
+      mediaCount: album.mediaIds.length,
+      coverMediaId: cover?.id,
+      coverUrl: coverKey ? await this.storageService.getPresignedUrl(coverKey, 3600) : undefined,
+      canManage,
+      createdAt: album.createdAt,
+      updatedAt: album.updatedAt,
+    };
+  }
+}
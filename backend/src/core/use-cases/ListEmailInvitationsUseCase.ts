@@ -0,0 +1,67 @@
+import { EmailInvitation } from '../entities/EmailInvitation.js';
+import { IEmailInvitationRepository } from '../interfaces/repositories/IEmailInvitationRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { MemberRoleType } from '../../shared/types/index.js';
+
+/**
+ * An invitation as shown to admins; the token only ever goes out by email
+ */
+export interface EmailInvitationSummary {
+  id: string;
+  groupId: string;
+  email: string;
+  role: MemberRoleType;
+  status: 'pending' | 'expired';
+  invitedBy: string;
+  sendCount: number;
+  lastSentAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * Format a pending invitation for API responses
+ * Also used by SendEmailInvitationsUseCase and ResendEmailInvitationUseCase
+ */
+export function toEmailInvitationSummary(invitation: EmailInvitation): EmailInvitationSummary {
+  return {
+    id: invitation.id,
+    groupId: invitation.groupId,
+    email: invitation.email,
+    role: invitation.role,
+    status: invitation.isExpired() ? 'expired' : 'pending',
+    invitedBy: invitation.invitedBy,
+    sendCount: invitation.sendCount,
+    lastSentAt: invitation.lastSentAt,
+    expiresAt: invitation.expiresAt,
+    createdAt: invitation.createdAt,
+  };
+}
+
+/**
+ * ListEmailInvitationsUseCase
+ *
+ * Lists a group's pending email invitations, including expired ones
+ * so admins can resend them. Only group admins manage invitations.
+ */
+export class ListEmailInvitationsUseCase {
+  constructor(
+    private emailInvitationRepository: IEmailInvitationRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(groupId: string, userId: string): Promise<EmailInvitationSummary[]> {
+    const group = await this.groupRepository.findByIdAndUserId(groupId, userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    if (!group.isAdmin(userId)) {
+      throw new ForbiddenError('Only group admins can manage invitations');
+    }
+
+    const invitations = await this.emailInvitationRepository.findPendingByGroupId(groupId);
+    return invitations.map(toEmailInvitationSummary);
+  }
+}
@@ -0,0 +1,71 @@
+import { Media } from '../entities/Media.js';
+import { IFavoriteRepository } from '../interfaces/repositories/IFavoriteRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError } from '../../shared/errors/AppError.js';
+import { PaginatedResponse } from '../../shared/types/index.js';
+
+/**
+ * ListFavoritesUseCase
+ *
+ * Lists the media the current user starred in a group.
+ *
+ * Business Logic:
+ * 1. Verify user is a member of the group
+ * 2. Most recently starred first
+ */
+
+export interface ListMediaCollectionDTO {
+  groupId: string;
+  userId: string;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Load one page of media in the order of the given ids, skipping media deleted since
+ * Also used by ListHighlightsUseCase
+ */
+export async function pageMediaByIds(
+  mediaIds: string[],
+  page: number,
+  limit: number,
+  mediaRepository: IMediaRepository
+): Promise<PaginatedResponse<Media>> {
+  const mediaById = new Map(
+    (await mediaRepository.findByIds(mediaIds)).map(item => [item.id, item])
+  );
+  const ordered = mediaIds.filter(id => mediaById.has(id)).map(id => mediaById.get(id)!);
+
+  // Manual pagination to keep the collection's order
+  const skip = (page - 1) * limit;
+
+  return {
+    data: ordered.slice(skip, skip + limit),
+    pagination: {
+      page,
+      limit,
+      total: ordered.length,
+      totalPages: Math.ceil(ordered.length / limit),
+    },
+  };
+}
+
+export class ListFavoritesUseCase {
+  constructor(
+    private favoriteRepository: IFavoriteRepository,
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: ListMediaCollectionDTO): Promise<PaginatedResponse<Media>> {
+    const group = await this.groupRepository.findByIdAndUserId(dto.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    const mediaIds = await this.favoriteRepository.findMediaIdsByUser(dto.groupId, dto.userId);
+
+    return pageMediaByIds(mediaIds, dto.page, dto.limit, this.mediaRepository);
+  }
+}
@@ -0,0 +1,35 @@
+import { Media } from '../entities/Media.js';
+import { IHighlightRepository } from '../interfaces/repositories/IFavoriteRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError } from '../../shared/errors/AppError.js';
+import { PaginatedResponse } from '../../shared/types/index.js';
+import { ListMediaCollectionDTO, pageMediaByIds } from './ListFavoritesUseCase.js';
+
+/**
+ * ListHighlightsUseCase
+ *
+ * Lists the group's highlights, the "best of" set picked by admins.
+ *
+ * Business Logic:
+ * 1. Verify user is a member of the group (every member sees the highlights)
+ * 2. Most recently picked first
+ */
+export class ListHighlightsUseCase {
+  constructor(
+    private highlightRepository: IHighlightRepository,
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: ListMediaCollectionDTO): Promise<PaginatedResponse<Media>> {
+    const group = await this.groupRepository.findByIdAndUserId(dto.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    const mediaIds = await this.highlightRepository.findMediaIdsByGroup(dto.groupId);
+
+    return pageMediaByIds(mediaIds, dto.page, dto.limit, this.mediaRepository);
+  }
+}
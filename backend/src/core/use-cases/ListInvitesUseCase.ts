@@ -0,0 +1,88 @@
+import { Invite, InviteStatus } from '../entities/Invite.js';
+import { IInviteRepository } from '../interfaces/repositories/IInviteRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IUserRepository } from '../interfaces/repositories/IUserRepository.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { MemberRoleType } from '../../shared/types/index.js';
+
+export interface InviteSummary {
+  id: string;
+  groupId: string;
+  code: string;
+  label?: string;
+  role: MemberRoleType;
+  createdBy: string;
+  expiresAt?: Date;
+  maxUses?: number;
+  useCount: number;
+  remainingUses?: number;
+  status: InviteStatus;
+  usedBy: Array<{
+    id: string; // Clerk user ID
+    name?: string;
+    email?: string;
+    usedAt: Date;
+  }>;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * ListInvitesUseCase
+ *
+ * Lists a group's named invites with who joined through each of them.
+ * Revoked, expired and used up invites stay listed with their status.
+ * Only group admins manage invites.
+ */
+export class ListInvitesUseCase {
+  constructor(
+    private inviteRepository: IInviteRepository,
+    private groupRepository: IGroupRepository,
+    private userRepository: IUserRepository
+  ) {}
+
+  async execute(groupId: string, userId: string): Promise<InviteSummary[]> {
+    const group = await this.groupRepository.findByIdAndUserId(groupId, userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    if (!group.isAdmin(userId)) {
+      throw new ForbiddenError('Only group admins can manage invites');
+    }
+
+    const invites = await this.inviteRepository.findByGroupId(groupId);
+    return Promise.all(invites.map(invite => this.toSummary(invite)));
+  }
+
+  /**
+   * Format an invite for API responses, used after creating and revoking too
+   */
+  async toSummary(invite: Invite): Promise<InviteSummary> {
+    const users = await Promise.all(invite.uses.map(use => this.userRepository.findByClerkId(use.userId)));
+
+    return {
+      id: invite.id,
+      groupId: invite.groupId,
+      code: invite.code,
+      label: invite.label,
+      role: invite.role,
+      createdBy: invite.createdBy,
+      expiresAt: invite.expiresAt,
+      maxUses: invite.maxUses,
+      useCount: invite.useCount,
+      remainingUses: invite.remainingUses(),
+      status: invite.status(),
+      usedBy: invite.uses.map((use, index) => ({
+        id: use.userId,
+        name: users[index]?.name,
+        email: users[index]?.email,
+        usedAt: use.usedAt,
+      })),
+      lastUsedAt: invite.uses[invite.uses.length - 1]?.usedAt,
+      revokedAt: invite.revokedAt,
+      createdAt: invite.createdAt,
+    };
+  }
+}
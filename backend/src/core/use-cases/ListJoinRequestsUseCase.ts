@@ -0,0 +1,64 @@
+import { IJoinRequestRepository } from '../interfaces/repositories/IJoinRequestRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IUserRepository } from '../interfaces/repositories/IUserRepository.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { MemberRoleType } from '../../shared/types/index.js';
+
+/**
+ * A pending request as shown in the admins' queue
+ */
+export interface JoinRequestSummary {
+  id: string;
+  groupId: string;
+  userId: string;
+  user: {
+    name?: string;
+    email?: string;
+    avatar?: string;
+  };
+  role: MemberRoleType;
+  viaInvite: boolean; // Came through a named invite rather than the group's own code
+  createdAt: Date;
+}
+
+/**
+ * ListJoinRequestsUseCase
+ *
+ * Lists the requests waiting for approval in a group, oldest first.
+ * Only group admins review requests.
+ */
+export class ListJoinRequestsUseCase {
+  constructor(
+    private joinRequestRepository: IJoinRequestRepository,
+    private groupRepository: IGroupRepository,
+    private userRepository: IUserRepository
+  ) {}
+
+  async execute(groupId: string, userId: string): Promise<JoinRequestSummary[]> {
+    const group = await this.groupRepository.findByIdAndUserId(groupId, userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    if (!group.isAdmin(userId)) {
+      throw new ForbiddenError('Only group admins can review join requests');
+    }
+
+    const requests = await this.joinRequestRepository.findPendingByGroupId(groupId);
+    const users = await Promise.all(requests.map(request => this.userRepository.findByClerkId(request.userId)));
+
+    return requests.map((request, index) => ({
+      id: request.id,
+      groupId: request.groupId,
+      userId: request.userId,
+      user: {
+        name: users[index]?.name,
+        email: users[index]?.email,
+        avatar: users[index]?.avatar,
+      },
+      role: request.role,
+      viaInvite: !!request.inviteId,
+      createdAt: request.createdAt,
+    }));
+  }
+}
@@ -0,0 +1,69 @@
+import { Media } from '../entities/Media.js';
+import { Group } from '../entities/Group.js';
+import { Comment } from '../entities/Comment.js';
+import { ICommentRepository, IReactionRepository, ReactionSummary } from '../interfaces/repositories/ICommentRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+
+/**
+ * ListMediaCommentsUseCase
+ *
+ * Loads the comment threads and reactions on a media item.
+ *
+ * Business Logic:
+ * 1. Verify user is a member of the media's group
+ * 2. Comments come back flat and oldest first; replies carry their parentId
+ * 3. Deleted comments that still have replies are kept as placeholders
+ */
+
+export interface MediaCommentsResult {
+  comments: Comment[];
+  reactions: ReactionSummary[];
+}
+
+/**
+ * Load a media item and its group, checking the user is a member
+ * Also used by AddCommentUseCase and ToggleReactionUseCase
+ */
+export async function findMediaForMember(
+  mediaId: string,
+  userId: string,
+  mediaRepository: IMediaRepository,
+  groupRepository: IGroupRepository
+): Promise<{ media: Media; group: Group }> {
+  const media = await mediaRepository.findById(mediaId);
+  if (!media) {
+    throw new NotFoundError('Media not found');
+  }
+
+  const group = await groupRepository.findByIdAndUserId(media.groupId, userId);
+  if (!group) {
+    throw new ForbiddenError('You do not have access to this media');
+  }
+
+  return { media, group };
+}
+
+export class ListMediaCommentsUseCase {
+  constructor(
+    private commentRepository: ICommentRepository,
+    private reactionRepository: IReactionRepository,
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(mediaId: string, userId: string): Promise<MediaCommentsResult> {
+    await findMediaForMember(mediaId, userId, this.mediaRepository, this.groupRepository);
+
+    const [comments, reactions] = await Promise.all([
+      this.commentRepository.findByMediaId(mediaId),
+      this.reactionRepository.summarizeByMediaIds([mediaId], userId),
+    ]);
+
+    return {
+      comments,
+      reactions: reactions[mediaId] || [],
+    };
+  }
+}
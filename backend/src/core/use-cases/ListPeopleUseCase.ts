@@ -0,0 +1,132 @@
+import { IPersonRepository } from '../interfaces/repositories/IPersonRepository.js';
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IStorageService } from '../interfaces/services/IStorageService.js';
+import { Person } from '../entities/Person.js';
+import { FaceCluster } from '../entities/FaceCluster.js';
+import { Group } from '../entities/Group.js';
+import { selectCoverFace } from '../../shared/utils/faceQuality.js';
+
+export interface VisiblePersonCluster {
+  cluster: FaceCluster;
+  group: Group;
+}
+
+export interface PersonClusterSummary {
+  clusterId: string;
+  clusterName?: string;
+  appearanceCount: number;
+  groupId: string;
+  groupName: string;
+}
+
+export interface PersonSummary {
+  id: string;
+  name: string;
+  clusters: PersonClusterSummary[];
+  thumbnailUrl?: string;
+  createdAt: Date;
+}
+
+/**
+ * Resolve a person's linked clusters to the ones the user can still see.
+ * Links to deleted clusters or to groups the user is no longer a member of are skipped,
+ * so a person never exposes media from outside the user's groups.
+ * Also used by GetPersonMediaUseCase
+ */
+export async function resolveVisibleClusters(
+  person: Person,
+  userId: string,
+  clusterRepository: IFaceClusterRepository,
+  groupRepository: IGroupRepository
+): Promise<VisiblePersonCluster[]> {
+  const groupIds = [...new Set(person.clusters.map(link => link.groupId))];
+  const groups = await Promise.all(groupIds.map(id => groupRepository.findByIdAndUserId(id, userId)));
+  const groupsById = new Map<string, Group>();
+  groups.forEach(group => group && groupsById.set(group.id, group));
+
+  const visible = await Promise.all(
+    person.clusters
+      .filter(link => groupsById.has(link.groupId))
+      .map(async (link) => {
+        const cluster = await clusterRepository.findById(link.clusterId);
+        return cluster && cluster.groupId === link.groupId
+          ? { cluster, group: groupsById.get(link.groupId)! }
+          : null;
+      })
+  );
+
+  return visible.filter((item): item is VisiblePersonCluster => !!item);
+}
+
+/**
+ * ListPeopleUseCase
+ *
+ * Lists the user's people with the clusters they can currently see
+ * and a face thumbnail taken from the largest of those clusters.
+ */
+export class ListPeopleUseCase {
+  constructor(
+    private readonly personRepository: IPersonRepository,
+    private readonly clusterRepository: IFaceClusterRepository,
+    private readonly clusterMemberRepository: IFaceClusterMemberRepository,
+    private readonly faceDetectionRepository: IFaceDetectionRepository,
+    private readonly groupRepository: IGroupRepository,
+    private readonly storageService: IStorageService
+  ) {}
+
+  async execute(userId: string): Promise<PersonSummary[]> {
+    const people = await this.personRepository.findByOwner(userId);
+
+    return Promise.all(people.map(person => this.toSummary(person, userId)));
+  }
+
+  async toSummary(person: Person, userId: string): Promise<PersonSummary> {
+    const visible = await resolveVisibleClusters(
+      person,
+      userId,
+      this.clusterRepository,
+      this.groupRepository
+    );
+
+    const clusters = visible
+      .map(({ cluster, group }) => ({
+        clusterId: cluster.id,
+        clusterName: cluster.clusterName,
+        appearanceCount: cluster.appearanceCount,
+        groupId: group.id,
+        groupName: group.name,
+      }))
+      .sort((a, b) => b.appearanceCount - a.appearanceCount);
+
+    const largest = visible.find(item => item.cluster.id === clusters[0]?.clusterId)?.cluster;
+
+    return {
+      id: person.id,
+      name: person.name,
+      clusters,
+      thumbnailUrl: largest ? await this.getThumbnailUrl(largest) : undefined,
+      createdAt: person.createdAt,
+    };
+  }
+
+  private async getThumbnailUrl(cluster: FaceCluster): Promise<string | undefined> {
+    const members = await this.clusterMemberRepository.findByClusterId(cluster.id);
+    const faceDetections = await this.faceDetectionRepository.findByIds(members.map(m => m.faceDetectionId));
+    const withThumbnails = faceDetections.filter(face => face.thumbnailS3Key);
+
+    const face =
+      withThumbnails.find(f => f.id === cluster.coverFaceDetectionId) || selectCoverFace(withThumbnails);
+    if (!face?.thumbnailS3Key) {
+      return undefined;
+    }
+
+    try {
+      return await this.storageService.getPresignedUrl(face.thumbnailS3Key, 3600);
+    } catch (error) {
+      console.error(`Failed to generate presigned URL for cluster ${cluster.id}:`, error);
+      return undefined;
+    }
+  }
+}
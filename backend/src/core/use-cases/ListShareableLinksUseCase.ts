@@ -3,6 +3,7 @@ import { IShareableLinkRepository } from '../interfaces/repositories/IShareableL
 import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
 import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
 import { IFaceClusterRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IAlbumRepository } from '../interfaces/repositories/IAlbumRepository.js';
 import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
 
 interface ListShareableLinksDTO {
@@ -16,7 +17,8 @@ export class ListShareableLinksUseCase {
     private shareableLinkRepository: IShareableLinkRepository,
     private groupRepository: IGroupRepository,
     private mediaRepository: IMediaRepository,
-    private faceClusterRepository: IFaceClusterRepository
+    private faceClusterRepository: IFaceClusterRepository,
+    private albumRepository: IAlbumRepository
   ) {}
 
   async execute(dto: ListShareableLinksDTO): Promise<ShareableLink[]> {
@@ -65,6 +67,18 @@ export class ListShareableLinksUseCase {
         break;
       }
 
+      case 'album': {
+        const album = await this.albumRepository.findById(resourceId);
+        if (!album) {
+          throw new NotFoundError('Album not found');
+        }
+        const group = await this.groupRepository.findByIdAndUserId(album.groupId, userId);
+        if (!group) {
+          throw new ForbiddenError('You do not have access to this album');
+        }
+        break;
+      }
+
       default:
         throw new NotFoundError('Invalid resource type');
     }
@@ -1,7 +1,10 @@
 import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
 import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IPersonRepository } from '../interfaces/repositories/IPersonRepository.js';
 import { NotFoundError, ForbiddenError, BadRequestError } from '../../shared/errors/AppError.js';
 import { FaceCluster, FaceClusterMember } from '../entities/FaceCluster.js';
+import { RecordActivityUseCase } from './RecordActivityUseCase.js';
+import { ActivityType } from '../../shared/constants/index.js';
 
 /**
  * MergeClustersUseCase
@@ -20,7 +23,8 @@ import { FaceCluster, FaceClusterMember } from '../entities/FaceCluster.js';
  * 3. Move all members from source cluster to target cluster
  * 4. Recalculate target cluster statistics
  * 5. Delete source cluster
- * 6. Return updated target cluster
+ * 6. Record a CLUSTERS_MERGED activity
+ * 7. Return updated target cluster
  */
 
 export interface MergeClustersDTO {
@@ -33,7 +37,9 @@ export class MergeClustersUseCase {
   constructor(
     private faceClusterRepository: IFaceClusterRepository,
     private faceClusterMemberRepository: IFaceClusterMemberRepository,
-    private groupRepository: IGroupRepository
+    private groupRepository: IGroupRepository,
+    private personRepository: IPersonRepository,
+    private recordActivityUseCase: RecordActivityUseCase
   ) {}
 
   async execute(dto: MergeClustersDTO): Promise<FaceCluster> {
@@ -108,6 +114,16 @@ export class MergeClustersUseCase {
       finalCluster = updatedTargetCluster.setName(sourceCluster.clusterName);
     }
 
+    // Preserve the member link when only the source cluster was claimed
+    if (!targetCluster.linkedUserId && sourceCluster.linkedUserId) {
+      finalCluster = finalCluster.linkToUser(sourceCluster.linkedUserId);
+    }
+
+    // Keep a pinned cover face (its member moves to the target cluster)
+    if (!targetCluster.coverFaceDetectionId && sourceCluster.coverFaceDetectionId) {
+      finalCluster = finalCluster.pinCover(sourceCluster.coverFaceDetectionId);
+    }
+
     // Save updated target cluster
     const savedCluster = await this.faceClusterRepository.update(dto.targetClusterId, finalCluster);
     if (!savedCluster) {
@@ -118,6 +134,16 @@ export class MergeClustersUseCase {
     await this.faceClusterMemberRepository.deleteByClusterId(dto.sourceClusterId);
     await this.faceClusterRepository.delete(dto.sourceClusterId);
 
+    // People linked to the source now follow the merged cluster
+    await this.personRepository.replaceCluster(dto.sourceClusterId, dto.targetClusterId);
+
+    await this.recordActivityUseCase.execute({
+      groupId: savedCluster.groupId,
+      userId: dto.userId,
+      type: ActivityType.CLUSTERS_MERGED,
+      metadata: { clusterId: savedCluster.id, clusterName: savedCluster.clusterName },
+    });
+
     console.log(`[MergeClusters] Successfully merged clusters. New cluster has ${totalAppearances} appearances with confidence ${averageConfidence.toFixed(2)}`);
 
     return savedCluster;
@@ -0,0 +1,139 @@
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, ForbiddenError, BadRequestError } from '../../shared/errors/AppError.js';
+import { FaceCluster } from '../entities/FaceCluster.js';
+
+/**
+ * MoveClusterFacesUseCase
+ *
+ * Follows Single Responsibility Principle:
+ * - Only responsible for moving face detections between two clusters
+ * - Delegates data access to repositories
+ * - Delegates authorization to Group entity
+ *
+ * Business Logic:
+ * 1. Verify both clusters exist and belong to the same group
+ * 2. Verify user has admin access to the group
+ * 3. Verify every face is currently a member of the source cluster
+ * 4. Re-point the members to the target cluster
+ * 5. Recalculate statistics of both clusters (delete source if it became empty)
+ */
+
+export interface MoveClusterFacesDTO {
+  sourceClusterId: string;
+  targetClusterId: string;
+  faceDetectionIds: string[];
+  userId: string;
+}
+
+export interface MoveClusterFacesResult {
+  sourceCluster: FaceCluster | null; // null when the source cluster became empty and was deleted
+  targetCluster: FaceCluster;
+  movedCount: number;
+}
+
+export class MoveClusterFacesUseCase {
+  constructor(
+    private faceClusterRepository: IFaceClusterRepository,
+    private faceClusterMemberRepository: IFaceClusterMemberRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: MoveClusterFacesDTO): Promise<MoveClusterFacesResult> {
+    this.validateInput(dto);
+
+    const sourceCluster = await this.faceClusterRepository.findById(dto.sourceClusterId);
+    if (!sourceCluster) {
+      throw new NotFoundError('Source cluster not found');
+    }
+
+    const targetCluster = await this.faceClusterRepository.findById(dto.targetClusterId);
+    if (!targetCluster) {
+      throw new NotFoundError('Target cluster not found');
+    }
+
+    if (sourceCluster.groupId !== targetCluster.groupId) {
+      throw new BadRequestError('Cannot move faces between clusters from different groups');
+    }
+
+    const group = await this.groupRepository.findById(sourceCluster.groupId);
+    if (!group) {
+      throw new NotFoundError('Group not found');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can move faces between clusters');
+    }
+
+    // Every face must belong to the source cluster
+    const sourceMembers = await this.faceClusterMemberRepository.findByClusterId(dto.sourceClusterId);
+    const sourceFaceIds = new Set(sourceMembers.map(m => m.faceDetectionId));
+    const faceDetectionIds = [...new Set(dto.faceDetectionIds)];
+    const missing = faceDetectionIds.filter(id => !sourceFaceIds.has(id));
+    if (missing.length > 0) {
+      throw new NotFoundError(`${missing.length} face(s) not found in the source cluster`);
+    }
+
+    const movedCount = await this.faceClusterMemberRepository.moveToCluster(
+      faceDetectionIds,
+      dto.targetClusterId
+    );
+
+    // A pinned cover that moved out no longer represents the source cluster
+    if (sourceCluster.coverFaceDetectionId && faceDetectionIds.includes(sourceCluster.coverFaceDetectionId)) {
+      await this.faceClusterRepository.setCoverFace(sourceCluster.id, null);
+    }
+
+    console.log(
+      `[MoveClusterFaces] Moved ${movedCount} faces from cluster ${dto.sourceClusterId} to ${dto.targetClusterId}`
+    );
+
+    const savedTarget = await this.recalculateStats(targetCluster);
+    if (!savedTarget) {
+      throw new Error('Failed to update target cluster');
+    }
+    const savedSource = await this.recalculateStats(sourceCluster);
+
+    return {
+      sourceCluster: savedSource,
+      targetCluster: savedTarget,
+      movedCount,
+    };
+  }
+
+  /**
+   * Recompute appearance count and average confidence from current members.
+   * Empty clusters are deleted.
+   */
+  private async recalculateStats(cluster: FaceCluster): Promise<FaceCluster | null> {
+    const members = await this.faceClusterMemberRepository.findByClusterId(cluster.id);
+
+    if (members.length === 0) {
+      await this.faceClusterRepository.delete(cluster.id);
+      console.log(`[MoveClusterFaces] Deleted empty cluster ${cluster.id}`);
+      return null;
+    }
+
+    const averageConfidence = members.reduce((sum, m) => sum + m.confidence, 0) / members.length;
+    const updatedCluster = cluster.updateStats(members.length, averageConfidence);
+
+    return this.faceClusterRepository.update(cluster.id, {
+      appearanceCount: updatedCluster.appearanceCount,
+      confidence: updatedCluster.confidence,
+    });
+  }
+
+  private validateInput(dto: MoveClusterFacesDTO): void {
+    if (!dto.sourceClusterId || !dto.targetClusterId || !dto.userId) {
+      throw new BadRequestError('Source cluster ID, target cluster ID, and user ID are required');
+    }
+
+    if (!Array.isArray(dto.faceDetectionIds) || dto.faceDetectionIds.length === 0) {
+      throw new BadRequestError('At least one face must be selected');
+    }
+
+    if (dto.sourceClusterId === dto.targetClusterId) {
+      throw new BadRequestError('Source and target cluster must be different');
+    }
+  }
+}
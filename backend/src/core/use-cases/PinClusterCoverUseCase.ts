@@ -0,0 +1,56 @@
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, ForbiddenError, BadRequestError } from '../../shared/errors/AppError.js';
+import { FaceCluster } from '../entities/FaceCluster.js';
+
+/**
+ * PinClusterCoverUseCase
+ *
+ * Pins one of a cluster's faces as its cover thumbnail, or clears the pin
+ * so the cover is chosen automatically again.
+ */
+
+export interface PinClusterCoverDTO {
+  clusterId: string;
+  faceDetectionId: string | null; // null clears the pin
+  userId: string;
+}
+
+export class PinClusterCoverUseCase {
+  constructor(
+    private faceClusterRepository: IFaceClusterRepository,
+    private faceClusterMemberRepository: IFaceClusterMemberRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: PinClusterCoverDTO): Promise<FaceCluster> {
+    if (!dto.clusterId || !dto.userId) {
+      throw new BadRequestError('Cluster ID and user ID are required');
+    }
+
+    const cluster = await this.faceClusterRepository.findById(dto.clusterId);
+    if (!cluster) {
+      throw new NotFoundError('Cluster not found');
+    }
+
+    // Verify user has access to the group
+    const group = await this.groupRepository.findByIdAndUserId(cluster.groupId, dto.userId);
+    if (!group) {
+      throw new ForbiddenError('You do not have access to this cluster');
+    }
+
+    if (dto.faceDetectionId) {
+      const member = await this.faceClusterMemberRepository.findByFaceDetectionId(dto.faceDetectionId);
+      if (!member || member.clusterId !== cluster.id) {
+        throw new NotFoundError('Face not found in this cluster');
+      }
+    }
+
+    const updatedCluster = await this.faceClusterRepository.setCoverFace(cluster.id, dto.faceDetectionId);
+    if (!updatedCluster) {
+      throw new NotFoundError('Cluster not found');
+    }
+
+    return updatedCluster;
+  }
+}
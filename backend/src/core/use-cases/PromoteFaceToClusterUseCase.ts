@@ -0,0 +1,82 @@
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, ForbiddenError, BadRequestError, ConflictError } from '../../shared/errors/AppError.js';
+import { FaceCluster, FaceClusterMember } from '../entities/FaceCluster.js';
+
+/**
+ * PromoteFaceToClusterUseCase
+ *
+ * Creates a new single-face cluster from a face in the group's unassigned pool,
+ * so people who appear in only one photo can be named and browsed.
+ */
+
+export interface PromoteFaceToClusterDTO {
+  groupId: string;
+  faceDetectionId: string;
+  clusterName?: string;
+  userId: string;
+}
+
+export class PromoteFaceToClusterUseCase {
+  constructor(
+    private faceClusterRepository: IFaceClusterRepository,
+    private faceClusterMemberRepository: IFaceClusterMemberRepository,
+    private faceDetectionRepository: IFaceDetectionRepository,
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: PromoteFaceToClusterDTO): Promise<FaceCluster> {
+    if (!dto.groupId || !dto.faceDetectionId || !dto.userId) {
+      throw new BadRequestError('Group ID, face ID, and user ID are required');
+    }
+
+    if (dto.clusterName && dto.clusterName.length > 50) {
+      throw new BadRequestError('Cluster name must be 50 characters or less');
+    }
+
+    const group = await this.groupRepository.findById(dto.groupId);
+    if (!group) {
+      throw new NotFoundError('Group not found');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can create clusters');
+    }
+
+    // Verify face belongs to this group
+    const faceDetection = await this.faceDetectionRepository.findById(dto.faceDetectionId);
+    const media = faceDetection ? await this.mediaRepository.findById(faceDetection.mediaId) : null;
+    if (!faceDetection || !media || media.groupId !== dto.groupId) {
+      throw new NotFoundError('Face not found in this group');
+    }
+
+    const existingMember = await this.faceClusterMemberRepository.findByFaceDetectionId(dto.faceDetectionId);
+    if (existingMember) {
+      throw new ConflictError('Face is already assigned to a cluster');
+    }
+
+    const cluster = await this.faceClusterRepository.create(
+      FaceCluster.create({
+        groupId: dto.groupId,
+        appearanceCount: 1,
+        confidence: 1,
+        clusterName: dto.clusterName?.trim() || undefined,
+      })
+    );
+
+    await this.faceClusterMemberRepository.create(
+      FaceClusterMember.create({
+        clusterId: cluster.id,
+        faceDetectionId: faceDetection.id,
+        confidence: 1,
+      })
+    );
+
+    console.log(`[PromoteFace] Created cluster ${cluster.id} from face ${faceDetection.id}`);
+
+    return cluster;
+  }
+}
@@ -0,0 +1,32 @@
+import { Activity } from '../entities/Activity.js';
+import { IActivityRepository } from '../interfaces/repositories/IActivityRepository.js';
+import { ActivityTypeType } from '../../shared/types/index.js';
+
+/**
+ * RecordActivityUseCase
+ *
+ * Adds an entry to a group's activity feed.
+ *
+ * Business Logic:
+ * 1. The feed is informational, so a failed write is logged instead of
+ *    failing the action that triggered it
+ */
+
+export interface RecordActivityDTO {
+  groupId: string;
+  userId: string;
+  type: ActivityTypeType;
+  metadata?: Record<string, unknown>;
+}
+
+export class RecordActivityUseCase {
+  constructor(private activityRepository: IActivityRepository) {}
+
+  async execute(dto: RecordActivityDTO): Promise<void> {
+    try {
+      await this.activityRepository.create(Activity.create(dto));
+    } catch (error) {
+      console.error(`Failed to record ${dto.type} activity for group ${dto.groupId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { UploadSession } from '../entities/UploadSession.js';
+import { IUploadSessionRepository } from '../interfaces/repositories/IUploadSessionRepository.js';
+import { NotFoundError, ConflictError, BadRequestError } from '../../shared/errors/AppError.js';
+
+/**
+ * RecordUploadPartUseCase
+ *
+ * Stores the ETag storage returned for a part the client just uploaded,
+ * so progress survives a page reload.
+ */
+
+export interface RecordUploadPartDTO {
+  sessionId: string;
+  userId: string;
+  partNumber: number;
+  etag: string;
+  size?: number;
+}
+
+export class RecordUploadPartUseCase {
+  constructor(private uploadSessionRepository: IUploadSessionRepository) {}
+
+  async execute(dto: RecordUploadPartDTO): Promise<UploadSession> {
+    const session = await this.uploadSessionRepository.findById(dto.sessionId);
+    if (!session || !session.isOwnedBy(dto.userId)) {
+      throw new NotFoundError('Upload session not found');
+    }
+
+    if (!session.isActive()) {
+      throw new ConflictError('This upload session has already finished or expired');
+    }
+
+    if (dto.partNumber < 1 || dto.partNumber > session.totalParts()) {
+      throw new BadRequestError(`Part number must be between 1 and ${session.totalParts()}`);
+    }
+
+    const updated = await this.uploadSessionRepository.addCompletedPart(session.id, {
+      partNumber: dto.partNumber,
+      etag: dto.etag,
+      size: dto.size,
+    });
+    if (!updated) {
+      throw new NotFoundError('Upload session not found');
+    }
+
+    return updated;
+  }
+}
@@ -0,0 +1,71 @@
+import { Group } from '../entities/Group.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IInviteRepository } from '../interfaces/repositories/IInviteRepository.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { generateInviteCode } from '../../shared/utils/inviteCode.js';
+
+/**
+ * RegenerateInviteCodeUseCase
+ *
+ * Replaces a group's permanent invite code, e.g. after it leaked.
+ *
+ * Business Logic:
+ * 1. Verify user is an admin of the group
+ * 2. Generate a code not used by any group or named invite
+ * 3. The old code stops working; existing members and named invites are unaffected
+ */
+
+export interface RegenerateInviteCodeDTO {
+  groupId: string;
+  userId: string;
+}
+
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * A fresh code that doesn't clash with a group code or a named invite
+ * Also used by CreateInviteUseCase
+ */
+export async function generateUniqueInviteCode(
+  groupRepository: IGroupRepository,
+  inviteRepository: IInviteRepository
+): Promise<string> {
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const code = generateInviteCode();
+    const [group, invite] = await Promise.all([
+      groupRepository.findByInviteCode(code),
+      inviteRepository.findByCode(code),
+    ]);
+    if (!group && !invite) {
+      return code;
+    }
+  }
+
+  throw new Error('Failed to generate a unique invite code');
+}
+
+export class RegenerateInviteCodeUseCase {
+  constructor(
+    private groupRepository: IGroupRepository,
+    private inviteRepository: IInviteRepository
+  ) {}
+
+  async execute(dto: RegenerateInviteCodeDTO): Promise<Group> {
+    const group = await this.groupRepository.findByIdAndUserId(dto.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can regenerate the invite code');
+    }
+
+    const inviteCode = await generateUniqueInviteCode(this.groupRepository, this.inviteRepository);
+    const saved = await this.groupRepository.update(group.id, group.regenerateInviteCode(inviteCode));
+    if (!saved) {
+      throw new NotFoundError('Group not found');
+    }
+
+    return saved;
+  }
+}
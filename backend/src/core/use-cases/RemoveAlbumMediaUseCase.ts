@@ -0,0 +1,49 @@
+import { Album } from '../entities/Album.js';
+import { IAlbumRepository } from '../interfaces/repositories/IAlbumRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, BadRequestError } from '../../shared/errors/AppError.js';
+import { findAlbumForUser } from './GetAlbumMediaUseCase.js';
+
+/**
+ * RemoveAlbumMediaUseCase
+ *
+ * Takes media out of an album. The media itself stays in the group.
+ *
+ * Business Logic:
+ * 1. Verify user can manage the album (creator or group admin)
+ * 2. Remove the media, clearing the cover if it was one of them
+ */
+
+export interface RemoveAlbumMediaDTO {
+  albumId: string;
+  userId: string;
+  mediaIds: string[];
+}
+
+export class RemoveAlbumMediaUseCase {
+  constructor(
+    private albumRepository: IAlbumRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: RemoveAlbumMediaDTO): Promise<Album> {
+    if (!dto.mediaIds || dto.mediaIds.length === 0) {
+      throw new BadRequestError('At least one media ID is required');
+    }
+
+    const { album } = await findAlbumForUser(
+      dto.albumId,
+      dto.userId,
+      this.albumRepository,
+      this.groupRepository,
+      true
+    );
+
+    const updated = await this.albumRepository.removeMedia(album.id, dto.mediaIds);
+    if (!updated) {
+      throw new NotFoundError('Album not found');
+    }
+
+    return updated;
+  }
+}
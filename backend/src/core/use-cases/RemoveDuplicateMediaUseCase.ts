@@ -0,0 +1,52 @@
+import { IMediaDeletionService } from '../interfaces/services/IMediaDeletionService.js';
+import { FindDuplicateMediaUseCase } from './FindDuplicateMediaUseCase.js';
+
+/**
+ * RemoveDuplicateMediaUseCase
+ *
+ * Deletes every duplicate except the suggested keeper of each set.
+ *
+ * Business Logic:
+ * 1. Find duplicate sets (admin check happens there)
+ * 2. Delete the other copies with everything attached to them,
+ *    refund the group's storage and record one MEDIA_DELETED activity
+ */
+
+export interface RemoveDuplicateMediaDTO {
+  groupId: string;
+  userId: string;
+}
+
+export interface RemoveDuplicateMediaResult {
+  deletedCount: number;
+  freedSpace: number;
+  affectedClusterIds: string[];
+}
+
+export class RemoveDuplicateMediaUseCase {
+  constructor(
+    private findDuplicateMediaUseCase: FindDuplicateMediaUseCase,
+    private mediaDeletionService: IMediaDeletionService
+  ) {}
+
+  async execute(dto: RemoveDuplicateMediaDTO): Promise<RemoveDuplicateMediaResult> {
+    const { sets } = await this.findDuplicateMediaUseCase.execute(dto);
+
+    const toDelete = sets.flatMap(set => set.media.filter(m => m.id !== set.keeperId));
+    if (toDelete.length === 0) {
+      return { deletedCount: 0, freedSpace: 0, affectedClusterIds: [] };
+    }
+
+    const { freedSpace, affectedClusterIds } = await this.mediaDeletionService.deleteMedia(
+      dto.groupId,
+      toDelete,
+      { userId: dto.userId, reason: 'duplicates' }
+    );
+
+    return {
+      deletedCount: toDelete.length,
+      freedSpace,
+      affectedClusterIds,
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { Album } from '../entities/Album.js';
+import { IAlbumRepository } from '../interfaces/repositories/IAlbumRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, BadRequestError } from '../../shared/errors/AppError.js';
+import { findAlbumForUser } from './GetAlbumMediaUseCase.js';
+
+/**
+ * ReorderAlbumMediaUseCase
+ *
+ * Business Logic:
+ * 1. Verify user can manage the album (creator or group admin)
+ * 2. Verify the new order contains exactly the album's current media
+ * 3. Save the new order
+ */
+
+export interface ReorderAlbumMediaDTO {
+  albumId: string;
+  userId: string;
+  mediaIds: string[];
+}
+
+export class ReorderAlbumMediaUseCase {
+  constructor(
+    private albumRepository: IAlbumRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: ReorderAlbumMediaDTO): Promise<Album> {
+    const { album } = await findAlbumForUser(
+      dto.albumId,
+      dto.userId,
+      this.albumRepository,
+      this.groupRepository,
+      true
+    );
+
+    // Must be a permutation, so a stale client can't drop or re-add items
+    const sameItems =
+      dto.mediaIds.length === album.mediaIds.length &&
+      new Set(dto.mediaIds).size === dto.mediaIds.length &&
+      dto.mediaIds.every(id => album.hasMedia(id));
+    if (!sameItems) {
+      throw new BadRequestError('The new order must contain exactly the media in the album');
+    }
+
+    const updated = await this.albumRepository.setMediaOrder(album.id, dto.mediaIds);
+    if (!updated) {
+      throw new NotFoundError('Album not found');
+    }
+
+    return updated;
+  }
+}
@@ -0,0 +1,189 @@
+import { Media } from '../entities/Media.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceRecognitionService } from '../interfaces/services/IFaceRecognitionService.js';
+import { IQueueService } from '../interfaces/services/IQueueService.js';
+import { NotFoundError, ForbiddenError, BadRequestError } from '../../shared/errors/AppError.js';
+import { JobType, QUEUE_NAMES, DEFAULTS } from '../../shared/constants/index.js';
+
+/**
+ * ReprocessMediaUseCase
+ *
+ * Requeues face detection for media that failed or got stuck.
+ *
+ * Business Logic:
+ * 1. Verify user has admin access to the group
+ * 2. Select failed media, and pending/processing media not updated for a while
+ *    (optionally narrowed down to the requested media IDs)
+ * 3. Remove faces left over from the partial run so they are not indexed twice
+ * 4. Reset status to pending and queue a new face detection job, or a preparation job
+ *    for session uploads that were never probed or converted
+ */
+
+export interface ReprocessMediaDTO {
+  groupId: string;
+  userId: string;
+  mediaIds?: string[];
+}
+
+export interface ReprocessMediaResult {
+  jobId: string | null; // null when nothing needed to be requeued
+  requeuedCount: number;
+  affectedClusterIds: string[];
+}
+
+export class ReprocessMediaUseCase {
+  constructor(
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository,
+    private faceDetectionRepository: IFaceDetectionRepository,
+    private faceClusterRepository: IFaceClusterRepository,
+    private faceClusterMemberRepository: IFaceClusterMemberRepository,
+    private faceRecognitionService: IFaceRecognitionService,
+    private queueService: IQueueService
+  ) {}
+
+  async execute(dto: ReprocessMediaDTO): Promise<ReprocessMediaResult> {
+    if (!dto.groupId || !dto.userId) {
+      throw new BadRequestError('Group ID and user ID are required');
+    }
+
+    const group = await this.groupRepository.findById(dto.groupId);
+    if (!group) {
+      throw new NotFoundError('Group not found');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can reprocess media');
+    }
+
+    const stuckBefore = new Date(Date.now() - DEFAULTS.MEDIA_STUCK_AFTER_MINUTES * 60 * 1000);
+    let mediaItems = await this.mediaRepository.findRetryableByGroupId(dto.groupId, stuckBefore);
+
+    if (dto.mediaIds && dto.mediaIds.length > 0) {
+      const requested = new Set(dto.mediaIds);
+      mediaItems = mediaItems.filter(m => requested.has(m.id));
+
+      if (mediaItems.length === 0) {
+        throw new BadRequestError('None of the selected media failed or is stuck in processing');
+      }
+    }
+
+    if (mediaItems.length === 0) {
+      return { jobId: null, requeuedCount: 0, affectedClusterIds: [] };
+    }
+
+    const affectedClusterIds = await this.clearPartialResults(mediaItems, group.rekognitionCollectionId);
+
+    const mediaIds = mediaItems.map(m => m.id);
+    await this.mediaRepository.resetProcessingStatus(mediaIds);
+
+    // Session uploads that were never probed or converted go through preparation first
+    const unprepared = mediaItems.filter(m => m.needsPreparation()).map(m => m.id);
+    const prepared = mediaItems.filter(m => !m.needsPreparation()).map(m => m.id);
+
+    const preparationJobId = unprepared.length > 0
+      ? await this.queueService.addJob(
+          QUEUE_NAMES.MEDIA_PREPARATION,
+          JobType.MEDIA_PREPARATION,
+          {
+            groupId: dto.groupId,
+            mediaIds: unprepared,
+          },
+          {
+            attempts: 2,
+            backoff: { type: 'exponential', delay: 5000 },
+          }
+        )
+      : null;
+
+    const detectionJobId = prepared.length > 0
+      ? await this.queueService.addJob(
+          QUEUE_NAMES.FACE_DETECTION,
+          JobType.FACE_DETECTION,
+          {
+            groupId: dto.groupId,
+            mediaIds: prepared,
+          },
+          {
+            attempts: 3,
+            backoff: { type: 'exponential', delay: 2000 },
+          }
+        )
+      : null;
+
+    const jobId = detectionJobId ?? preparationJobId;
+
+    console.log(`[ReprocessMedia] Requeued ${mediaIds.length} media in group ${dto.groupId} (job ${jobId})`);
+
+    return {
+      jobId,
+      requeuedCount: mediaIds.length,
+      affectedClusterIds,
+    };
+  }
+
+  /**
+   * Delete face detections (and their cluster memberships) from an earlier partial run.
+   * Returns the IDs of clusters that lost members.
+   */
+  private async clearPartialResults(mediaItems: Media[], collectionId?: string): Promise<string[]> {
+    const faceDetections = await this.faceDetectionRepository.findByMediaIds(mediaItems.map(m => m.id));
+    if (faceDetections.length === 0) {
+      return [];
+    }
+
+    const faceDetectionIds = new Set(faceDetections.map(fd => fd.id));
+    const members = await this.faceClusterMemberRepository.findByFaceDetectionIds([...faceDetectionIds]);
+    const affectedClusterIds = [...new Set(members.map(m => m.clusterId))];
+
+    for (const member of members) {
+      await this.faceClusterMemberRepository.delete(member.id);
+    }
+
+    for (const clusterId of affectedClusterIds) {
+      const cluster = await this.faceClusterRepository.findById(clusterId);
+      if (!cluster) continue;
+
+      const remainingMembers = await this.faceClusterMemberRepository.findByClusterId(clusterId);
+      if (remainingMembers.length === 0) {
+        await this.faceClusterRepository.delete(clusterId);
+        continue;
+      }
+
+      const averageConfidence =
+        remainingMembers.reduce((sum, m) => sum + m.confidence, 0) / remainingMembers.length;
+      await this.faceClusterRepository.update(clusterId, {
+        appearanceCount: remainingMembers.length,
+        confidence: averageConfidence,
+      });
+
+      if (cluster.coverFaceDetectionId && faceDetectionIds.has(cluster.coverFaceDetectionId)) {
+        await this.faceClusterRepository.setCoverFace(clusterId, null);
+      }
+    }
+
+    if (collectionId) {
+      try {
+        await this.faceRecognitionService.deleteFaces(
+          collectionId,
+          faceDetections.map(fd => fd.rekognitionFaceId)
+        );
+      } catch (error) {
+        console.error('[ReprocessMedia] Failed to delete indexed faces:', error);
+      }
+    }
+
+    for (const media of mediaItems) {
+      await this.faceDetectionRepository.deleteByMediaId(media.id);
+    }
+
+    console.log(
+      `[ReprocessMedia] Cleared ${faceDetections.length} faces from ${affectedClusterIds.length} clusters`
+    );
+
+    return affectedClusterIds;
+  }
+}
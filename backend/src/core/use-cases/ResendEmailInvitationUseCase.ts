@@ -0,0 +1,71 @@
+import { EmailInvitation } from '../entities/EmailInvitation.js';
+import { IEmailInvitationRepository } from '../interfaces/repositories/IEmailInvitationRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IUserRepository } from '../interfaces/repositories/IUserRepository.js';
+import { IEmailService } from '../interfaces/services/IEmailService.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { sendInvitationEmail } from './SendEmailInvitationsUseCase.js';
+import { EmailInvitationSummary, toEmailInvitationSummary } from './ListEmailInvitationsUseCase.js';
+
+/**
+ * ResendEmailInvitationUseCase
+ *
+ * Sends a pending invitation again, e.g. after it expired or went to spam.
+ *
+ * Business Logic:
+ * 1. Verify user is an admin of the invitation's group
+ * 2. Only pending invitations can be resent
+ * 3. The token is replaced and the expiry restarted, so links in earlier emails stop working
+ */
+
+export interface ResendEmailInvitationDTO {
+  groupId: string;
+  invitationId: string;
+  userId: string;
+}
+
+export class ResendEmailInvitationUseCase {
+  constructor(
+    private emailInvitationRepository: IEmailInvitationRepository,
+    private groupRepository: IGroupRepository,
+    private userRepository: IUserRepository,
+    private emailService: IEmailService,
+    private appUrl: string
+  ) {}
+
+  async execute(dto: ResendEmailInvitationDTO): Promise<EmailInvitationSummary> {
+    const invitation = await this.emailInvitationRepository.findById(dto.invitationId);
+    if (!invitation || invitation.groupId !== dto.groupId || invitation.status !== 'pending') {
+      throw new NotFoundError('Invitation not found');
+    }
+
+    const group = await this.groupRepository.findByIdAndUserId(invitation.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can resend invitations');
+    }
+
+    const renewed = await this.emailInvitationRepository.renew(
+      invitation.id,
+      EmailInvitation.generateToken(),
+      EmailInvitation.expiryFrom(new Date())
+    );
+    if (!renewed) {
+      throw new NotFoundError('Invitation not found');
+    }
+
+    const inviter = await this.userRepository.findByClerkId(dto.userId);
+    await sendInvitationEmail(
+      renewed,
+      group.name,
+      inviter?.name || inviter?.email || 'A group admin',
+      this.emailService,
+      this.appUrl
+    );
+
+    return toEmailInvitationSummary(renewed);
+  }
+}
@@ -0,0 +1,50 @@
+import { IUploadSessionRepository } from '../interfaces/repositories/IUploadSessionRepository.js';
+import { IStorageService } from '../interfaces/services/IStorageService.js';
+import { NotFoundError, ConflictError } from '../../shared/errors/AppError.js';
+import { UploadSessionWithUrls, presignMissingParts } from './CreateUploadSessionUseCase.js';
+
+/**
+ * ResumeUploadSessionUseCase
+ *
+ * Picks an interrupted upload back up.
+ *
+ * Business Logic:
+ * 1. Verify the session belongs to the user and is still active
+ * 2. Replace the recorded parts with what storage actually received
+ *    (a part may have arrived without the client managing to report it)
+ * 3. Hand out fresh presigned URLs for the remaining parts
+ */
+
+export interface ResumeUploadSessionDTO {
+  sessionId: string;
+  userId: string;
+}
+
+export class ResumeUploadSessionUseCase {
+  constructor(
+    private uploadSessionRepository: IUploadSessionRepository,
+    private storageService: IStorageService
+  ) {}
+
+  async execute(dto: ResumeUploadSessionDTO): Promise<UploadSessionWithUrls> {
+    const session = await this.uploadSessionRepository.findById(dto.sessionId);
+    if (!session || !session.isOwnedBy(dto.userId)) {
+      throw new NotFoundError('Upload session not found');
+    }
+
+    if (!session.isActive()) {
+      throw new ConflictError('This upload session has already finished or expired');
+    }
+
+    const parts = await this.storageService.listUploadedParts(session.s3Key, session.uploadId);
+    const updated = await this.uploadSessionRepository.setCompletedParts(session.id, parts);
+    if (!updated) {
+      throw new NotFoundError('Upload session not found');
+    }
+
+    return {
+      session: updated,
+      partUrls: await presignMissingParts(updated, this.storageService),
+    };
+  }
+}
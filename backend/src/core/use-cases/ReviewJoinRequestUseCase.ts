@@ -0,0 +1,103 @@
+import { Group } from '../entities/Group.js';
+import { IJoinRequestRepository } from '../interfaces/repositories/IJoinRequestRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IInviteRepository } from '../interfaces/repositories/IInviteRepository.js';
+import { RecordActivityUseCase } from './RecordActivityUseCase.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { addMemberToGroup } from './JoinGroupUseCase.js';
+
+/**
+ * ReviewJoinRequestUseCase
+ *
+ * Approves or denies a request to join a group.
+ *
+ * Business Logic:
+ * 1. Only group admins review requests, and each request is reviewed once
+ * 2. Approving adds the requester with the role their code granted
+ * 3. Requests made with a named invite count as a use of it on approval,
+ *    and can't be approved once the invite is revoked, expired or used up
+ * 4. Denying closes the request; the person can ask again later
+ * 5. An approval that can't be completed puts the request back to pending,
+ *    so it doesn't stay approved without the person being a member
+ */
+
+export interface ReviewJoinRequestDTO {
+  groupId: string;
+  requestId: string;
+  userId: string;
+  decision: 'approved' | 'denied';
+}
+
+export class ReviewJoinRequestUseCase {
+  constructor(
+    private joinRequestRepository: IJoinRequestRepository,
+    private groupRepository: IGroupRepository,
+    private inviteRepository: IInviteRepository,
+    private recordActivityUseCase: RecordActivityUseCase
+  ) {}
+
+  /**
+   * Returns the group and the requester's Clerk ID so callers can refresh their caches
+   */
+  async execute(dto: ReviewJoinRequestDTO): Promise<{ group: Group; requesterId: string }> {
+    const request = await this.joinRequestRepository.findById(dto.requestId);
+    if (!request || request.groupId !== dto.groupId) {
+      throw new NotFoundError('Join request not found');
+    }
+
+    const group = await this.groupRepository.findByIdAndUserId(request.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can review join requests');
+    }
+
+    // The named invite the approval will count against, if any
+    const inviteId =
+      dto.decision === 'approved' && !group.isMember(request.userId) ? request.inviteId : undefined;
+
+    // Checked before the request is claimed so it stays open for an admin to deny
+    if (inviteId) {
+      const invite = await this.inviteRepository.findById(inviteId);
+      if (!invite || !invite.isUsable()) {
+        throw new ForbiddenError(
+          'The invite this request was made with is no longer valid. Deny the request instead'
+        );
+      }
+    }
+
+    // Conditional on the request still being pending, so two admins can't both act on it
+    const reviewed = await this.joinRequestRepository.review(request.id, dto.decision, dto.userId);
+    if (!reviewed) {
+      throw new ForbiddenError('This request has already been reviewed');
+    }
+
+    if (dto.decision === 'denied' || group.isMember(request.userId)) {
+      return { group, requesterId: request.userId };
+    }
+
+    try {
+      // Claim the use atomically, the invite may have been used up since the check above
+      if (inviteId && !(await this.inviteRepository.recordUse(inviteId, request.userId))) {
+        throw new ForbiddenError(
+          'The invite this request was made with is no longer valid. Deny the request instead'
+        );
+      }
+
+      const savedGroup = await addMemberToGroup(
+        group,
+        request.userId,
+        request.role,
+        this.groupRepository,
+        this.recordActivityUseCase
+      );
+
+      return { group: savedGroup, requesterId: request.userId };
+    } catch (error) {
+      await this.joinRequestRepository.reopen(request.id);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { Invite } from '../entities/Invite.js';
+import { IInviteRepository } from '../interfaces/repositories/IInviteRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+
+/**
+ * RevokeInviteUseCase
+ *
+ * Stops a named invite from being used. Members who already joined
+ * with it keep their access, and the invite stays listed for its history.
+ */
+
+export interface RevokeInviteDTO {
+  groupId: string;
+  inviteId: string;
+  userId: string;
+}
+
+export class RevokeInviteUseCase {
+  constructor(
+    private inviteRepository: IInviteRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: RevokeInviteDTO): Promise<Invite> {
+    const invite = await this.inviteRepository.findById(dto.inviteId);
+    if (!invite || invite.groupId !== dto.groupId) {
+      throw new NotFoundError('Invite not found');
+    }
+
+    const group = await this.groupRepository.findByIdAndUserId(invite.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can revoke invites');
+    }
+
+    const revoked = await this.inviteRepository.revoke(invite.id);
+    if (!revoked) {
+      throw new NotFoundError('Invite not found');
+    }
+
+    return revoked;
+  }
+}
@@ -2,6 +2,7 @@ import { IShareableLinkRepository } from '../interfaces/repositories/IShareableL
 import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
 import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
 import { IFaceClusterRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IAlbumRepository } from '../interfaces/repositories/IAlbumRepository.js';
 import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
 
 interface RevokeShareableLinkDTO {
@@ -14,7 +15,8 @@ export class RevokeShareableLinkUseCase {
     private shareableLinkRepository: IShareableLinkRepository,
     private groupRepository: IGroupRepository,
     private mediaRepository: IMediaRepository,
-    private faceClusterRepository: IFaceClusterRepository
+    private faceClusterRepository: IFaceClusterRepository,
+    private albumRepository: IAlbumRepository
   ) {}
 
   async execute(dto: RevokeShareableLinkDTO): Promise<void> {
@@ -46,6 +48,12 @@ export class RevokeShareableLinkUseCase {
           groupId = cluster?.groupId;
           break;
         }
+
+        case 'album': {
+          const album = await this.albumRepository.findById(link.resourceId);
+          groupId = album?.groupId;
+          break;
+        }
       }
 
       if (!groupId) {
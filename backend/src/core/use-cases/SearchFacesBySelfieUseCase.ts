@@ -0,0 +1,124 @@
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IStorageService } from '../interfaces/services/IStorageService.js';
+import { IFaceRecognitionService } from '../interfaces/services/IFaceRecognitionService.js';
+import { NotFoundError, BadRequestError } from '../../shared/errors/AppError.js';
+import { MediaWithFaceInfo, attachFaceDetections } from './GetClusterMediaUseCase.js';
+
+export interface SearchFacesBySelfieDTO {
+  groupId: string;
+  userId: string;
+  imageBuffer: Buffer;
+}
+
+export interface SelfieClusterMatch {
+  id: string;
+  clusterName?: string;
+  appearanceCount: number;
+  matchedFaces: number;
+  similarity: number;
+}
+
+export interface SelfieSearchResult {
+  clusters: SelfieClusterMatch[];
+  media: MediaWithFaceInfo[];
+}
+
+// Rekognition's SearchFacesByImage accepts up to 4096 matches
+const MAX_SELFIE_MATCHES = 1000;
+
+/**
+ * SearchFacesBySelfieUseCase
+ *
+ * "Find my photos": compares an uploaded selfie against the group's face collection
+ * and returns the clusters and photos the person appears in.
+ *
+ * Business Logic:
+ * 1. Verify user is a member of the group
+ * 2. Search the group's collection by image (the selfie is never stored or indexed)
+ * 3. Map matched faces to their detections, clusters and media
+ */
+export class SearchFacesBySelfieUseCase {
+  constructor(
+    private readonly faceRecognitionService: IFaceRecognitionService,
+    private readonly clusterRepository: IFaceClusterRepository,
+    private readonly clusterMemberRepository: IFaceClusterMemberRepository,
+    private readonly faceDetectionRepository: IFaceDetectionRepository,
+    private readonly mediaRepository: IMediaRepository,
+    private readonly groupRepository: IGroupRepository,
+    private readonly storageService: IStorageService
+  ) {}
+
+  async execute(dto: SearchFacesBySelfieDTO): Promise<SelfieSearchResult> {
+    if (!dto.imageBuffer || dto.imageBuffer.length === 0) {
+      throw new BadRequestError('A selfie image is required');
+    }
+
+    // Verify user has access to the group
+    const group = await this.groupRepository.findByIdAndUserId(dto.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    if (!group.rekognitionCollectionId) {
+      return { clusters: [], media: [] };
+    }
+
+    const matches = await this.faceRecognitionService.searchFacesByImage(
+      group.rekognitionCollectionId,
+      dto.imageBuffer,
+      MAX_SELFIE_MATCHES,
+      group.clusteringSettings.similarityThreshold
+    );
+
+    console.log(`[Selfie Search] Found ${matches.length} matching faces in group ${dto.groupId}`);
+
+    if (matches.length === 0) {
+      return { clusters: [], media: [] };
+    }
+
+    const similarityByFaceId = new Map(matches.map(m => [m.faceId, m.similarity]));
+    const faceDetections = await this.faceDetectionRepository.findByRekognitionFaceIds(
+      matches.map(m => m.faceId)
+    );
+
+    // Group matched faces by cluster
+    const members = await this.clusterMemberRepository.findByFaceDetectionIds(
+      faceDetections.map(face => face.id)
+    );
+    const faceById = new Map(faceDetections.map(face => [face.id, face]));
+    const clusterStats = new Map<string, { matchedFaces: number; similarity: number }>();
+
+    for (const member of members) {
+      const face = faceById.get(member.faceDetectionId);
+      const similarity = face ? similarityByFaceId.get(face.rekognitionFaceId) || 0 : 0;
+      const stats = clusterStats.get(member.clusterId) || { matchedFaces: 0, similarity: 0 };
+      stats.matchedFaces++;
+      stats.similarity = Math.max(stats.similarity, similarity);
+      clusterStats.set(member.clusterId, stats);
+    }
+
+    const clusters: SelfieClusterMatch[] = [];
+    for (const [clusterId, stats] of clusterStats) {
+      const cluster = await this.clusterRepository.findById(clusterId);
+      if (cluster) {
+        clusters.push({
+          id: cluster.id,
+          clusterName: cluster.clusterName,
+          appearanceCount: cluster.appearanceCount,
+          ...stats,
+        });
+      }
+    }
+    clusters.sort((a, b) => b.matchedFaces - a.matchedFaces || b.similarity - a.similarity);
+
+    // Get unique media IDs
+    const mediaIds = [...new Set(faceDetections.map(f => f.mediaId))];
+    const mediaItems = await this.mediaRepository.findByIds(mediaIds);
+    const media = await attachFaceDetections(mediaItems, faceDetections, this.storageService);
+
+    return { clusters, media };
+  }
+}
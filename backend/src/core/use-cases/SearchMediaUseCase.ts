@@ -0,0 +1,76 @@
+import { Media } from '../entities/Media.js';
+import { IMediaRepository, MediaListFilters } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
+import { NotFoundError } from '../../shared/errors/AppError.js';
+import { PaginatedResponse } from '../../shared/types/index.js';
+import { normalizeTags } from '../../shared/utils/mediaTags.js';
+
+/**
+ * SearchMediaUseCase
+ *
+ * Searches a group's media by caption, tags and filename, combined with the gallery filters.
+ *
+ * Business Logic:
+ * 1. Verify user is a member of the group
+ * 2. A cluster filter is resolved to the media its faces appear in
+ * 3. Text matches rank by relevance, otherwise newest capture time first
+ * 4. Tag filters require every tag, normalised the same way tags are stored
+ */
+
+export interface SearchMediaDTO {
+  groupId: string;
+  userId: string;
+  query?: string;
+  tags?: string[];
+  uploaderId?: string;
+  clusterId?: string;
+  takenFrom?: Date;
+  takenTo?: Date;
+  page: number;
+  limit: number;
+}
+
+export class SearchMediaUseCase {
+  constructor(
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository,
+    private clusterRepository: IFaceClusterRepository,
+    private clusterMemberRepository: IFaceClusterMemberRepository,
+    private faceDetectionRepository: IFaceDetectionRepository
+  ) {}
+
+  async execute(dto: SearchMediaDTO): Promise<PaginatedResponse<Media>> {
+    const group = await this.groupRepository.findByIdAndUserId(dto.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    const filters: MediaListFilters = {
+      takenFrom: dto.takenFrom,
+      takenTo: dto.takenTo,
+      uploaderId: dto.uploaderId,
+      text: dto.query?.trim() || undefined,
+      tags: dto.tags ? normalizeTags(dto.tags) : undefined,
+    };
+
+    if (dto.clusterId) {
+      filters.mediaIds = await this.findClusterMediaIds(dto.groupId, dto.clusterId);
+    }
+
+    return this.mediaRepository.findByGroupId(dto.groupId, { page: dto.page, limit: dto.limit }, filters);
+  }
+
+  private async findClusterMediaIds(groupId: string, clusterId: string): Promise<string[]> {
+    const cluster = await this.clusterRepository.findById(clusterId);
+    if (!cluster || cluster.groupId !== groupId) {
+      throw new NotFoundError('Cluster not found');
+    }
+
+    const members = await this.clusterMemberRepository.findByClusterId(clusterId);
+    const faceDetections = await this.faceDetectionRepository.findByIds(members.map(m => m.faceDetectionId));
+
+    return [...new Set(faceDetections.map(f => f.mediaId))];
+  }
+}
@@ -0,0 +1,141 @@
+import { EmailInvitation } from '../entities/EmailInvitation.js';
+import { IEmailInvitationRepository } from '../interfaces/repositories/IEmailInvitationRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IUserRepository } from '../interfaces/repositories/IUserRepository.js';
+import { IEmailService } from '../interfaces/services/IEmailService.js';
+import { BadRequestError, NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { DEFAULTS } from '../../shared/constants/index.js';
+import { MemberRoleType } from '../../shared/types/index.js';
+import { INVITABLE_ROLES } from './CreateInviteUseCase.js';
+import { EmailInvitationSummary, toEmailInvitationSummary } from './ListEmailInvitationsUseCase.js';
+
+/**
+ * SendEmailInvitationsUseCase
+ *
+ * Invites people to a group by email address.
+ *
+ * Business Logic:
+ * 1. Verify user is an admin of the group
+ * 2. Invitations grant member or viewer access, like named invites
+ * 3. Addresses that already belong to a member, or already have a pending
+ *    invitation, are skipped; pending ones can be resent instead.
+ *    An expired invitation to the address is replaced by the new one
+ * 4. Each invitation gets its own single-use token, emailed as a link
+ * 5. If the email can't be sent the invitation is cancelled and reported as skipped
+ */
+
+export interface SendEmailInvitationsDTO {
+  groupId: string;
+  userId: string;
+  emails: string[];
+  role: MemberRoleType;
+}
+
+export interface SendEmailInvitationsResult {
+  invitations: EmailInvitationSummary[];
+  skipped: Array<{ email: string; reason: string }>;
+}
+
+/**
+ * Email the invitation link with its current token
+ * Also used by ResendEmailInvitationUseCase
+ */
+export async function sendInvitationEmail(
+  invitation: EmailInvitation,
+  groupName: string,
+  inviterName: string,
+  emailService: IEmailService,
+  appUrl: string
+): Promise<void> {
+  await emailService.sendGroupInviteEmail(
+    invitation.email,
+    inviterName,
+    groupName,
+    `${appUrl}/invitations/${invitation.token}`,
+    invitation.expiresAt
+  );
+}
+
+export class SendEmailInvitationsUseCase {
+  constructor(
+    private emailInvitationRepository: IEmailInvitationRepository,
+    private groupRepository: IGroupRepository,
+    private userRepository: IUserRepository,
+    private emailService: IEmailService,
+    private appUrl: string
+  ) {}
+
+  async execute(dto: SendEmailInvitationsDTO): Promise<SendEmailInvitationsResult> {
+    const group = await this.groupRepository.findByIdAndUserId(dto.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can send invitations');
+    }
+
+    if (!INVITABLE_ROLES.includes(dto.role)) {
+      throw new BadRequestError('Invitations can only grant member or viewer access');
+    }
+
+    const emails = [...new Set(dto.emails.map(email => email.trim().toLowerCase()).filter(Boolean))];
+    if (emails.length === 0) {
+      throw new BadRequestError('At least one email address is required');
+    }
+    if (emails.length > DEFAULTS.MAX_EMAIL_INVITATIONS_PER_REQUEST) {
+      throw new BadRequestError(
+        `You can invite at most ${DEFAULTS.MAX_EMAIL_INVITATIONS_PER_REQUEST} people at once`
+      );
+    }
+
+    const inviter = await this.userRepository.findByClerkId(dto.userId);
+    const inviterName = inviter?.name || inviter?.email || 'A group admin';
+    const pendingByEmail = new Map(
+      (await this.emailInvitationRepository.findPendingByGroupId(group.id)).map(invitation => [
+        invitation.email,
+        invitation,
+      ])
+    );
+
+    const result: SendEmailInvitationsResult = { invitations: [], skipped: [] };
+
+    for (const email of emails) {
+      const pending = pendingByEmail.get(email);
+      if (pending && !pending.isExpired()) {
+        result.skipped.push({ email, reason: 'Already invited' });
+        continue;
+      }
+
+      const existingUser = await this.userRepository.findByEmail(email);
+      if (existingUser && group.isMember(existingUser.clerkId)) {
+        result.skipped.push({ email, reason: 'Already a member' });
+        continue;
+      }
+
+      if (pending) {
+        await this.emailInvitationRepository.cancel(pending.id);
+      }
+
+      const invitation = await this.emailInvitationRepository.create(
+        EmailInvitation.create({
+          groupId: group.id,
+          email,
+          invitedBy: dto.userId,
+          role: dto.role,
+        })
+      );
+
+      try {
+        await sendInvitationEmail(invitation, group.name, inviterName, this.emailService, this.appUrl);
+        result.invitations.push(toEmailInvitationSummary(invitation));
+      } catch (error) {
+        console.error(`Failed to send invitation email to ${email}:`, error);
+        await this.emailInvitationRepository.cancel(invitation.id);
+        result.skipped.push({ email, reason: 'Email could not be sent' });
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,41 @@
+import { Favorite } from '../entities/Favorite.js';
+import { IFavoriteRepository } from '../interfaces/repositories/IFavoriteRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { findMediaForMember } from './ListMediaCommentsUseCase.js';
+
+/**
+ * SetFavoriteUseCase
+ *
+ * Stars or unstars a media item for the current user.
+ *
+ * Business Logic:
+ * 1. Verify user is a member of the media's group
+ * 2. Favourites are per user; starring twice or unstarring a media that isn't starred is a no-op
+ */
+
+export interface SetFavoriteDTO {
+  mediaId: string;
+  userId: string;
+  favorite: boolean;
+}
+
+export class SetFavoriteUseCase {
+  constructor(
+    private favoriteRepository: IFavoriteRepository,
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: SetFavoriteDTO): Promise<void> {
+    const { media } = await findMediaForMember(dto.mediaId, dto.userId, this.mediaRepository, this.groupRepository);
+
+    if (dto.favorite) {
+      await this.favoriteRepository.add(
+        Favorite.create({ mediaId: media.id, groupId: media.groupId, userId: dto.userId })
+      );
+    } else {
+      await this.favoriteRepository.remove(media.id, dto.userId);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { Highlight } from '../entities/Highlight.js';
+import { IHighlightRepository } from '../interfaces/repositories/IFavoriteRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { findMediaForMember } from './ListMediaCommentsUseCase.js';
+import { ForbiddenError } from '../../shared/errors/AppError.js';
+
+/**
+ * SetHighlightUseCase
+ *
+ * Adds a media item to the group's highlights, or takes it out.
+ *
+ * Business Logic:
+ * 1. Verify user is a member of the media's group
+ * 2. Only group admins curate highlights
+ * 3. Adding twice or removing a media that isn't highlighted is a no-op
+ */
+
+export interface SetHighlightDTO {
+  mediaId: string;
+  userId: string;
+  highlighted: boolean;
+}
+
+export class SetHighlightUseCase {
+  constructor(
+    private highlightRepository: IHighlightRepository,
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: SetHighlightDTO): Promise<void> {
+    const { media, group } = await findMediaForMember(dto.mediaId, dto.userId, this.mediaRepository, this.groupRepository);
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can change highlights');
+    }
+
+    if (dto.highlighted) {
+      await this.highlightRepository.add(
+        Highlight.create({ mediaId: media.id, groupId: media.groupId, addedBy: dto.userId })
+      );
+    } else {
+      await this.highlightRepository.remove(media.id);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, ForbiddenError, BadRequestError } from '../../shared/errors/AppError.js';
+import { FaceCluster } from '../entities/FaceCluster.js';
+import { MoveClusterFacesUseCase, MoveClusterFacesResult } from './MoveClusterFacesUseCase.js';
+
+/**
+ * SplitClusterUseCase
+ *
+ * Splits selected faces out of a cluster into a brand-new cluster,
+ * e.g. when two siblings were grouped as one person.
+ * The actual move and statistics update is delegated to MoveClusterFacesUseCase.
+ */
+
+export interface SplitClusterDTO {
+  clusterId: string;
+  faceDetectionIds: string[];
+  clusterName?: string;
+  userId: string;
+}
+
+export class SplitClusterUseCase {
+  constructor(
+    private faceClusterRepository: IFaceClusterRepository,
+    private faceClusterMemberRepository: IFaceClusterMemberRepository,
+    private groupRepository: IGroupRepository,
+    private moveClusterFacesUseCase: MoveClusterFacesUseCase
+  ) {}
+
+  async execute(dto: SplitClusterDTO): Promise<MoveClusterFacesResult> {
+    if (!dto.clusterId || !dto.userId) {
+      throw new BadRequestError('Cluster ID and user ID are required');
+    }
+
+    if (!Array.isArray(dto.faceDetectionIds) || dto.faceDetectionIds.length === 0) {
+      throw new BadRequestError('At least one face must be selected');
+    }
+
+    if (dto.clusterName && dto.clusterName.length > 50) {
+      throw new BadRequestError('Cluster name must be 50 characters or less');
+    }
+
+    const cluster = await this.faceClusterRepository.findById(dto.clusterId);
+    if (!cluster) {
+      throw new NotFoundError('Cluster not found');
+    }
+
+    const group = await this.groupRepository.findById(cluster.groupId);
+    if (!group) {
+      throw new NotFoundError('Group not found');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can split clusters');
+    }
+
+    const memberCount = await this.faceClusterMemberRepository.countByClusterId(dto.clusterId);
+    if (new Set(dto.faceDetectionIds).size >= memberCount) {
+      throw new BadRequestError('Cannot split all faces out of a cluster; rename it instead');
+    }
+
+    const newCluster = await this.faceClusterRepository.create(
+      FaceCluster.create({
+        groupId: cluster.groupId,
+        appearanceCount: 0,
+        confidence: cluster.confidence,
+        clusterName: dto.clusterName?.trim() || undefined,
+      })
+    );
+
+    try {
+      return await this.moveClusterFacesUseCase.execute({
+        sourceClusterId: dto.clusterId,
+        targetClusterId: newCluster.id,
+        faceDetectionIds: dto.faceDetectionIds,
+        userId: dto.userId,
+      });
+    } catch (error) {
+      // Don't leave an empty cluster behind
+      await this.faceClusterRepository.delete(newCluster.id);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { Media } from '../entities/Media.js';
+import { IFavoriteRepository, IHighlightRepository } from '../interfaces/repositories/IFavoriteRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../interfaces/repositories/IFaceClusterRepository.js';
+import { IFaceDetectionRepository } from '../interfaces/repositories/IFaceDetectionRepository.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+
+/**
+ * SuggestHighlightsUseCase
+ *
+ * Ranks media an admin might want to add to the group's highlights.
+ *
+ * Business Logic:
+ * 1. Only group admins curate highlights, so only they get suggestions
+ * 2. Candidates are starred media, media showing named people and the most recent uploads
+ * 3. Score = 3 per member who starred it + 2 per named person in it + best face quality (0-100) / 50
+ * 4. Media already highlighted are left out
+ */
+
+export interface SuggestHighlightsDTO {
+  groupId: string;
+  userId: string;
+  limit: number;
+}
+
+export interface HighlightSuggestion {
+  media: Media;
+  score: number;
+  favoriteCount: number;
+  people: string[]; // Names of the named clusters in the media
+  bestFaceQuality?: number;
+}
+
+// Recent uploads considered even when nobody starred them yet
+const RECENT_CANDIDATES = 200;
+
+const FAVORITE_WEIGHT = 3;
+const NAMED_PERSON_WEIGHT = 2;
+const FACE_QUALITY_DIVISOR = 50;
+
+export class SuggestHighlightsUseCase {
+  constructor(
+    private favoriteRepository: IFavoriteRepository,
+    private highlightRepository: IHighlightRepository,
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository,
+    private clusterRepository: IFaceClusterRepository,
+    private clusterMemberRepository: IFaceClusterMemberRepository,
+    private faceDetectionRepository: IFaceDetectionRepository
+  ) {}
+
+  async execute(dto: SuggestHighlightsDTO): Promise<HighlightSuggestion[]> {
+    const group = await this.groupRepository.findByIdAndUserId(dto.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    if (!group.isAdmin(dto.userId)) {
+      throw new ForbiddenError('Only group admins can see suggested highlights');
+    }
+
+    const [favoriteCounts, namesByDetection, recent] = await Promise.all([
+      this.favoriteRepository.countByGroupId(dto.groupId),
+      this.findNamedFaces(dto.groupId),
+      this.mediaRepository.findByGroupId(dto.groupId, { page: 1, limit: RECENT_CANDIDATES }),
+    ]);
+
+    const namedDetections = await this.faceDetectionRepository.findByIds([...namesByDetection.keys()]);
+
+    const candidateIds = new Set([
+      ...Object.keys(favoriteCounts),
+      ...namedDetections.map(face => face.mediaId),
+      ...recent.data.map(media => media.id),
+    ]);
+
+    const highlighted = new Set(await this.highlightRepository.findMediaIdsByGroup(dto.groupId));
+    const mediaIds = [...candidateIds].filter(id => !highlighted.has(id));
+    if (mediaIds.length === 0) {
+      return [];
+    }
+
+    const [media, faces] = await Promise.all([
+      this.mediaRepository.findByIds(mediaIds),
+      this.faceDetectionRepository.findByMediaIds(mediaIds),
+    ]);
+
+    const facesByMedia = new Map<string, typeof faces>();
+    for (const face of faces) {
+      facesByMedia.set(face.mediaId, [...(facesByMedia.get(face.mediaId) || []), face]);
+    }
+
+    const suggestions = media
+      .filter(item => item.groupId === dto.groupId)
+      .map(item => {
+        const mediaFaces = facesByMedia.get(item.id) || [];
+        const people = [
+          ...new Set(
+            mediaFaces
+              .map(face => namesByDetection.get(face.id))
+              .filter((name): name is string => !!name)
+          ),
+        ];
+        const qualityScores = mediaFaces
+          .map(face => face.qualityScore)
+          .filter((score): score is number => score !== undefined);
+        const bestFaceQuality = qualityScores.length > 0 ? Math.max(...qualityScores) : undefined;
+        const favoriteCount = favoriteCounts[item.id] || 0;
+
+        return {
+          media: item,
+          score:
+            favoriteCount * FAVORITE_WEIGHT +
+            people.length * NAMED_PERSON_WEIGHT +
+            (bestFaceQuality ?? 0) / FACE_QUALITY_DIVISOR,
+          favoriteCount,
+          people,
+          bestFaceQuality,
+        };
+      })
+      .filter(suggestion => suggestion.score > 0);
+
+    // Highest score first, newer captures break ties
+    suggestions.sort(
+      (a, b) => b.score - a.score || b.media.capturedAt().getTime() - a.media.capturedAt().getTime()
+    );
+
+    return suggestions.slice(0, dto.limit);
+  }
+
+  /**
+   * Map each face in a named cluster to the cluster's name
+   */
+  private async findNamedFaces(groupId: string): Promise<Map<string, string>> {
+    const clusters = await this.clusterRepository.findByGroupId(groupId, { page: 1, limit: 10000 });
+    const named = clusters.data.filter(cluster => cluster.clusterName);
+    if (named.length === 0) {
+      return new Map();
+    }
+
+    const nameByCluster = new Map(named.map(cluster => [cluster.id, cluster.clusterName!]));
+    const members = await this.clusterMemberRepository.findByClusterIds([...nameByCluster.keys()]);
+
+    return new Map(members.map(member => [member.faceDetectionId, nameByCluster.get(member.clusterId)!]));
+  }
+}
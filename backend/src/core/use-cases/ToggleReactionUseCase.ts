@@ -0,0 +1,62 @@
+import { Reaction } from '../entities/Reaction.js';
+import { IReactionRepository, ReactionSummary } from '../interfaces/repositories/ICommentRepository.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { RecordActivityUseCase } from './RecordActivityUseCase.js';
+import { findMediaForMember } from './ListMediaCommentsUseCase.js';
+import { BadRequestError } from '../../shared/errors/AppError.js';
+import { ActivityType, REACTION_EMOJIS } from '../../shared/constants/index.js';
+
+/**
+ * ToggleReactionUseCase
+ *
+ * Adds an emoji reaction to a media item, or takes it back if the user already left it.
+ *
+ * Business Logic:
+ * 1. Verify user is a member of the media's group
+ * 2. Only the emoji in REACTION_EMOJIS are allowed
+ * 3. Adding a reaction records a MEDIA_REACTED activity, taking it back doesn't
+ * 4. Returns the media's reaction counts after the change
+ */
+
+export interface ToggleReactionDTO {
+  mediaId: string;
+  userId: string;
+  emoji: string;
+}
+
+export class ToggleReactionUseCase {
+  constructor(
+    private reactionRepository: IReactionRepository,
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository,
+    private recordActivityUseCase: RecordActivityUseCase
+  ) {}
+
+  async execute(dto: ToggleReactionDTO): Promise<ReactionSummary[]> {
+    const { media } = await findMediaForMember(dto.mediaId, dto.userId, this.mediaRepository, this.groupRepository);
+
+    if (!REACTION_EMOJIS.includes(dto.emoji)) {
+      throw new BadRequestError('Unsupported reaction');
+    }
+
+    const removed = await this.reactionRepository.remove(media.id, dto.userId, dto.emoji);
+    if (!removed) {
+      const added = await this.reactionRepository.add(
+        Reaction.create({ mediaId: media.id, groupId: media.groupId, userId: dto.userId, emoji: dto.emoji })
+      );
+
+      if (added) {
+        await this.recordActivityUseCase.execute({
+          groupId: media.groupId,
+          userId: dto.userId,
+          type: ActivityType.MEDIA_REACTED,
+          metadata: { mediaId: media.id, emoji: dto.emoji },
+        });
+      }
+    }
+
+    const summaries = await this.reactionRepository.summarizeByMediaIds([media.id], dto.userId);
+    return summaries[media.id] || [];
+  }
+}
@@ -0,0 +1,43 @@
+import { Group } from '../entities/Group.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+
+/**
+ * TransferOwnershipUseCase
+ *
+ * Hands a group to another admin, so its owner can step back
+ * (or leave) without stranding the group.
+ *
+ * Business Logic:
+ * 1. Only the current owner can transfer the group
+ * 2. The new owner must already be an admin of the group
+ * 3. The previous owner stays an admin
+ */
+
+export interface TransferOwnershipDTO {
+  groupId: string;
+  userId: string;
+  newOwnerId: string;
+}
+
+export class TransferOwnershipUseCase {
+  constructor(private groupRepository: IGroupRepository) {}
+
+  async execute(dto: TransferOwnershipDTO): Promise<Group> {
+    const group = await this.groupRepository.findByIdAndUserId(dto.groupId, dto.userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    if (group.creatorId !== dto.userId) {
+      throw new ForbiddenError('Only the group owner can transfer ownership');
+    }
+
+    const savedGroup = await this.groupRepository.update(group.id, group.transferOwnership(dto.newOwnerId));
+    if (!savedGroup) {
+      throw new Error('Failed to transfer ownership');
+    }
+
+    return savedGroup;
+  }
+}
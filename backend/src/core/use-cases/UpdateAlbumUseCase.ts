@@ -0,0 +1,69 @@
+import { Album } from '../entities/Album.js';
+import { IAlbumRepository } from '../interfaces/repositories/IAlbumRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, BadRequestError } from '../../shared/errors/AppError.js';
+import { findAlbumForUser } from './GetAlbumMediaUseCase.js';
+
+/**
+ * UpdateAlbumUseCase
+ *
+ * Renames an album, edits its description or picks its cover.
+ *
+ * Business Logic:
+ * 1. Verify user can manage the album (creator or group admin)
+ * 2. A cover must be one of the album's media; null goes back to the first item
+ */
+
+export interface UpdateAlbumDTO {
+  albumId: string;
+  userId: string;
+  name?: string;
+  description?: string;
+  coverMediaId?: string | null;
+}
+
+export class UpdateAlbumUseCase {
+  constructor(
+    private albumRepository: IAlbumRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: UpdateAlbumDTO): Promise<Album> {
+    let { album } = await findAlbumForUser(
+      dto.albumId,
+      dto.userId,
+      this.albumRepository,
+      this.groupRepository,
+      true
+    );
+
+    if (dto.name !== undefined || dto.description !== undefined) {
+      if (dto.name !== undefined && dto.name.trim().length === 0) {
+        throw new BadRequestError('Album name cannot be empty');
+      }
+
+      const updated = await this.albumRepository.update(album.id, {
+        ...(dto.name !== undefined && { name: dto.name.trim() }),
+        ...(dto.description !== undefined && { description: dto.description.trim() }),
+      });
+      if (!updated) {
+        throw new NotFoundError('Album not found');
+      }
+      album = updated;
+    }
+
+    if (dto.coverMediaId !== undefined) {
+      if (dto.coverMediaId !== null && !album.hasMedia(dto.coverMediaId)) {
+        throw new BadRequestError('The cover must be a photo in this album');
+      }
+
+      const updated = await this.albumRepository.setCover(album.id, dto.coverMediaId);
+      if (!updated) {
+        throw new NotFoundError('Album not found');
+      }
+      album = updated;
+    }
+
+    return album;
+  }
+}
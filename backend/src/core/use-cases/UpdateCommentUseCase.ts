@@ -0,0 +1,47 @@
+import { Comment } from '../entities/Comment.js';
+import { ICommentRepository } from '../interfaces/repositories/ICommentRepository.js';
+import { NotFoundError, ForbiddenError, BadRequestError } from '../../shared/errors/AppError.js';
+
+/**
+ * UpdateCommentUseCase
+ *
+ * Edits the text of a comment.
+ *
+ * Business Logic:
+ * 1. Only the author can edit, admins can only remove
+ * 2. Deleted comments can't be edited
+ * 3. The comment is marked as edited
+ */
+
+export interface UpdateCommentDTO {
+  commentId: string;
+  userId: string;
+  body: string;
+}
+
+export class UpdateCommentUseCase {
+  constructor(private commentRepository: ICommentRepository) {}
+
+  async execute(dto: UpdateCommentDTO): Promise<Comment> {
+    const comment = await this.commentRepository.findById(dto.commentId);
+    if (!comment || comment.isDeleted()) {
+      throw new NotFoundError('Comment not found');
+    }
+
+    if (!comment.canBeEditedBy(dto.userId)) {
+      throw new ForbiddenError('You can only edit your own comments');
+    }
+
+    const body = dto.body.trim();
+    if (!body) {
+      throw new BadRequestError('Comment cannot be empty');
+    }
+
+    const updated = await this.commentRepository.updateBody(comment.id, body);
+    if (!updated) {
+      throw new NotFoundError('Comment not found');
+    }
+
+    return updated;
+  }
+}
@@ -21,6 +21,12 @@ export interface UpdateGroupDTO {
   description?: string;
   storageLimit?: number;
   autoDeleteDays?: number;
+  clusteringSettings?: {
+    similarityThreshold?: number;
+    minClusterSize?: number;
+    qualityThreshold?: number;
+  };
+  requireApproval?: boolean;
 }
 
 export class UpdateGroupUseCase {
@@ -50,6 +56,8 @@ export class UpdateGroupUseCase {
       description: dto.description,
       storageLimit: dto.storageLimit,
       autoDeleteDays: dto.autoDeleteDays,
+      clusteringSettings: dto.clusteringSettings,
+      requireApproval: dto.requireApproval,
     });
 
     // Persist changes
@@ -67,7 +75,14 @@ export class UpdateGroupUseCase {
     }
 
     // At least one field must be provided for update
-    if (!dto.name && !dto.description && !dto.storageLimit && !dto.autoDeleteDays) {
+    if (
+      !dto.name &&
+      !dto.description &&
+      !dto.storageLimit &&
+      !dto.autoDeleteDays &&
+      !dto.clusteringSettings &&
+      dto.requireApproval === undefined
+    ) {
       throw new BadRequestError('At least one field must be provided for update');
     }
 
@@ -85,6 +100,30 @@ export class UpdateGroupUseCase {
     if (dto.description !== undefined && dto.description.length > 500) {
       throw new BadRequestError('Description must not exceed 500 characters');
     }
+
+    if (dto.requireApproval !== undefined && typeof dto.requireApproval !== 'boolean') {
+      throw new BadRequestError('Require approval must be true or false');
+    }
+
+    // The body isn't parsed by a schema, so "90" would otherwise pass the range checks and be stored
+    const settings = dto.clusteringSettings;
+    if (settings !== undefined) {
+      if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+        throw new BadRequestError('Clustering settings must be an object');
+      }
+
+      const labels = {
+        similarityThreshold: 'Similarity threshold',
+        minClusterSize: 'Minimum cluster size',
+        qualityThreshold: 'Quality threshold',
+      };
+      for (const [field, label] of Object.entries(labels)) {
+        const value = settings[field as keyof typeof labels];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+          throw new BadRequestError(`${label} must be a number`);
+        }
+      }
+    }
   }
 
   private validateBusinessRules(dto: UpdateGroupDTO, group: Group): void {
@@ -109,5 +148,26 @@ export class UpdateGroupUseCase {
         throw new BadRequestError('Auto-delete days cannot exceed 365 days');
       }
     }
+
+    // Clustering settings validation
+    const settings = dto.clusteringSettings;
+    if (settings?.similarityThreshold !== undefined) {
+      if (settings.similarityThreshold < 50 || settings.similarityThreshold > 99) {
+        throw new BadRequestError('Similarity threshold must be between 50 and 99');
+      }
+    }
+    if (settings?.minClusterSize !== undefined) {
+      if (!Number.isInteger(settings.minClusterSize) || settings.minClusterSize < 1) {
+        throw new BadRequestError('Minimum cluster size must be a whole number of at least 1');
+      }
+      if (settings.minClusterSize > 20) {
+        throw new BadRequestError('Minimum cluster size cannot exceed 20');
+      }
+    }
+    if (settings?.qualityThreshold !== undefined) {
+      if (settings.qualityThreshold < 0 || settings.qualityThreshold > 100) {
+        throw new BadRequestError('Quality threshold must be between 0 and 100');
+      }
+    }
   }
 }
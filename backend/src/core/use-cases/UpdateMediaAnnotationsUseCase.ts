@@ -0,0 +1,60 @@
+import { Media } from '../entities/Media.js';
+import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
+import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
+import { NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
+import { normalizeTags } from '../../shared/utils/mediaTags.js';
+
+/**
+ * UpdateMediaAnnotationsUseCase
+ *
+ * Sets the caption and tags of a media item.
+ *
+ * Business Logic:
+ * 1. Verify user is a member of the media's group
+ * 2. Only the uploader or a group admin can annotate
+ * 3. Fields left out keep their current value; an empty caption clears it
+ * 4. Tags are normalised so they line up with the group vocabulary
+ */
+
+export interface UpdateMediaAnnotationsDTO {
+  mediaId: string;
+  userId: string;
+  caption?: string;
+  tags?: string[];
+}
+
+export class UpdateMediaAnnotationsUseCase {
+  constructor(
+    private mediaRepository: IMediaRepository,
+    private groupRepository: IGroupRepository
+  ) {}
+
+  async execute(dto: UpdateMediaAnnotationsDTO): Promise<Media> {
+    const media = await this.mediaRepository.findById(dto.mediaId);
+    if (!media) {
+      throw new NotFoundError('Media not found');
+    }
+
+    const group = await this.groupRepository.findByIdAndUserId(media.groupId, dto.userId);
+    if (!group) {
+      throw new ForbiddenError('You do not have access to this media');
+    }
+
+    if (!media.canBeAnnotatedBy(dto.userId, group.isAdmin(dto.userId))) {
+      throw new ForbiddenError('You can only edit captions and tags on photos you uploaded');
+    }
+
+    const caption = dto.caption !== undefined ? dto.caption.trim() : media.caption;
+    const tags = dto.tags !== undefined ? normalizeTags(dto.tags) : media.tags;
+
+    const updated = await this.mediaRepository.setAnnotations(media.id, {
+      caption: caption || undefined,
+      tags,
+    });
+    if (!updated) {
+      throw new NotFoundError('Media not found');
+    }
+
+    return updated;
+  }
+}
@@ -1,11 +1,28 @@
+import { createHash } from 'crypto';
 import { Media } from '../entities/Media.js';
+import { Group } from '../entities/Group.js';
 import { IMediaRepository } from '../interfaces/repositories/IMediaRepository.js';
 import { IGroupRepository } from '../interfaces/repositories/IGroupRepository.js';
 import { IStorageService } from '../interfaces/services/IStorageService.js';
 import { IQueueService } from '../interfaces/services/IQueueService.js';
-import { NotFoundError, ForbiddenError, PayloadTooLargeError, BadRequestError } from '../../shared/errors/AppError.js';
-import { JobType, QUEUE_NAMES } from '../../shared/constants/index.js';
-import { UploadedFile } from '../../shared/types/index.js';
+import { IMediaPreparationService } from '../interfaces/services/IMediaPreparationService.js';
+import {
+  NotFoundError,
+  ForbiddenError,
+  PayloadTooLargeError,
+  BadRequestError,
+  ConflictError,
+} from '../../shared/errors/AppError.js';
+import {
+  JobType,
+  QUEUE_NAMES,
+  MediaType,
+  VIDEO_MIME_TYPES,
+  ActivityType,
+} from '../../shared/constants/index.js';
+import { UploadedFile, S3UploadResult } from '../../shared/types/index.js';
+import { isSupportedMediaFile } from '../../shared/utils/mediaFileTypes.js';
+import { RecordActivityUseCase } from './RecordActivityUseCase.js';
 
 export interface UploadMediaDto {
   groupId: string;
@@ -13,15 +30,39 @@ export interface UploadMediaDto {
   files: UploadedFile[];
 }
 
+/**
+ * A single file that already reached storage through an upload session
+ */
+export interface RegisterStoredMediaDto {
+  groupId: string;
+  userId: string;
+  file: Pick<UploadedFile, 'originalname' | 'mimetype' | 'size'>;
+  stored: S3UploadResult;
+  contentHash: string; // SHA-256 of the stored file
+}
+
+export interface SkippedDuplicate {
+  originalName: string;
+  existingMediaId?: string; // Unset when the same file appeared twice in this upload
+}
+
+export interface UploadMediaResult {
+  media: Media[];
+  jobId: string;
+  duplicates: SkippedDuplicate[]; // Exact copies of media already in the group, not uploaded
+}
+
 export class UploadMediaUseCase {
   constructor(
     private readonly mediaRepository: IMediaRepository,
     private readonly groupRepository: IGroupRepository,
     private readonly storageService: IStorageService,
-    private readonly queueService: IQueueService
+    private readonly queueService: IQueueService,
+    private readonly mediaPreparationService: IMediaPreparationService,
+    private readonly recordActivityUseCase: RecordActivityUseCase
   ) {}
 
-  async execute(dto: UploadMediaDto): Promise<{ media: Media[]; jobId: string }> {
+  async execute(dto: UploadMediaDto): Promise<UploadMediaResult> {
     // Validate input
     if (!dto.groupId) {
       throw new BadRequestError('Group ID is required');
@@ -35,47 +76,33 @@ export class UploadMediaUseCase {
       throw new BadRequestError('At least one file is required');
     }
 
-    // Verify group exists and user is a member
-    const group = await this.groupRepository.findById(dto.groupId);
-    if (!group) {
-      throw new NotFoundError('Group not found');
-    }
+    const group = await this.findUploadableGroup(dto.groupId, dto.userId);
 
-    // Check if user can upload
-    if (!group.canUpload(dto.userId)) {
-      throw new ForbiddenError('You do not have permission to upload to this group');
+    // Skip exact copies of media already in the group
+    const { files, contentHashes, duplicates } = await this.filterDuplicates(dto.groupId, dto.files);
+    if (files.length === 0) {
+      throw new ConflictError(
+        dto.files.length === 1
+          ? `${dto.files[0].originalname} is already in this group`
+          : 'All of these files are already in this group'
+      );
     }
 
     // Calculate total file size
-    const totalSize = dto.files.reduce((sum, file) => sum + file.size, 0);
-
-    // Check storage limit
-    if (!group.hasStorageSpace(totalSize)) {
-      throw new PayloadTooLargeError(
-        `Not enough storage space. Available: ${(group.storageLimit - group.storageUsed) / 1024 / 1024}MB`
-      );
-    }
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
 
-    // Validate file types
-    const validMimeTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-    for (const file of dto.files) {
-      if (!validMimeTypes.includes(file.mimetype)) {
-        throw new BadRequestError(`Invalid file type: ${file.mimetype}. Only images are allowed.`);
-      }
-    }
+    this.checkStorageSpace(group, totalSize);
+    files.forEach(file => this.checkFileType(file));
 
     // Upload files to S3 and create media records
     const mediaEntities: Media[] = [];
-    const uploadPromises = dto.files.map(async (file) => {
-      // Upload to S3
-      const timestamp = Date.now();
-      const filename = `${timestamp}-${file.originalname}`;
-      const uploadResult = await this.storageService.uploadFile(
-        file.buffer,
-        filename,
-        dto.groupId,
-        file.mimetype
-      );
+    const uploadPromises = files.map(async (file, index) => {
+      const { converted, details } = await this.mediaPreparationService.prepare(file, dto.groupId);
+
+      // Upload to S3, converted HEIC/RAW files were stored during preparation
+      const filename = `${Date.now()}-${file.originalname}`;
+      const uploadResult =
+        converted ?? await this.storageService.uploadFile(file.buffer, filename, dto.groupId, file.mimetype);
 
       // Create media entity
       const media = Media.create({
@@ -88,6 +115,8 @@ export class UploadMediaUseCase {
         url: uploadResult.url,
         mimeType: file.mimetype,
         fileSize: file.size,
+        contentHash: contentHashes[index],
+        ...details,
       });
 
       mediaEntities.push(media);
@@ -96,19 +125,129 @@ export class UploadMediaUseCase {
 
     await Promise.all(uploadPromises);
 
-    // Save media records to database
-    const savedMedia = await this.mediaRepository.createMany(mediaEntities);
+    const savedMedia = await this.saveMedia(dto.groupId, dto.userId, mediaEntities, totalSize);
+    const jobId = await this.queueProcessing(dto.groupId, savedMedia.map(m => m.id));
+
+    return {
+      media: savedMedia,
+      jobId,
+      duplicates,
+    };
+  }
+
+  /**
+   * Create media for a file an upload session put straight into storage.
+   * The API never loads the file: probing, conversion, EXIF and hashing happen
+   * in the preparation worker, which then queues face detection and derivatives
+   */
+  async registerStored(dto: RegisterStoredMediaDto): Promise<UploadMediaResult> {
+    const group = await this.findUploadableGroup(dto.groupId, dto.userId);
+
+    const [existing] = await this.mediaRepository.findByContentHashes(dto.groupId, [dto.contentHash]);
+    if (existing) {
+      throw new ConflictError(`${dto.file.originalname} is already in this group`);
+    }
+
+    this.checkStorageSpace(group, dto.file.size);
+    this.checkFileType(dto.file);
+
+    const media = Media.create({
+      groupId: dto.groupId,
+      uploaderId: dto.userId,
+      filename: `${Date.now()}-${dto.file.originalname}`,
+      originalName: dto.file.originalname,
+      s3Key: dto.stored.key,
+      s3Bucket: dto.stored.bucket,
+      url: dto.stored.url,
+      mimeType: dto.file.mimetype,
+      fileSize: dto.file.size,
+      contentHash: dto.contentHash,
+      mediaType: VIDEO_MIME_TYPES.includes(dto.file.mimetype) ? MediaType.VIDEO : MediaType.IMAGE,
+    });
+
+    const savedMedia = await this.saveMedia(dto.groupId, dto.userId, [media], dto.file.size);
+
+    const jobId = await this.queueService.addJob(
+      QUEUE_NAMES.MEDIA_PREPARATION,
+      JobType.MEDIA_PREPARATION,
+      {
+        groupId: dto.groupId,
+        mediaIds: savedMedia.map(m => m.id),
+      },
+      {
+        attempts: 2,
+        backoff: { type: 'exponential', delay: 5000 },
+      }
+    );
+
+    return {
+      media: savedMedia,
+      jobId,
+      duplicates: [],
+    };
+  }
+
+  /**
+   * Verify group exists and user can upload to it
+   */
+  private async findUploadableGroup(groupId: string, userId: string): Promise<Group> {
+    const group = await this.groupRepository.findById(groupId);
+    if (!group) {
+      throw new NotFoundError('Group not found');
+    }
+
+    if (!group.canUpload(userId)) {
+      throw new ForbiddenError('You do not have permission to upload to this group');
+    }
+
+    return group;
+  }
+
+  private checkStorageSpace(group: Group, size: number): void {
+    if (!group.hasStorageSpace(size)) {
+      throw new PayloadTooLargeError(
+        `Not enough storage space. Available: ${(group.storageLimit - group.storageUsed) / 1024 / 1024}MB`
+      );
+    }
+  }
+
+  private checkFileType(file: Pick<UploadedFile, 'originalname' | 'mimetype'>): void {
+    if (!isSupportedMediaFile(file.mimetype, file.originalname)) {
+      throw new BadRequestError(`Invalid file type: ${file.mimetype}. Only images and videos are allowed.`);
+    }
+  }
+
+  /**
+   * Save media records, count them against the group's storage and record the upload in the feed
+   */
+  private async saveMedia(groupId: string, userId: string, media: Media[], totalSize: number): Promise<Media[]> {
+    const savedMedia = await this.mediaRepository.createMany(media);
 
     // Update group storage usage
-    await this.groupRepository.updateStorageUsed(dto.groupId, totalSize);
+    await this.groupRepository.updateStorageUsed(groupId, totalSize);
 
+    // Uploads close together are combined in the feed, so each batch is one activity
+    await this.recordActivityUseCase.execute({
+      groupId,
+      userId,
+      type: ActivityType.MEDIA_UPLOADED,
+      metadata: { mediaCount: savedMedia.length },
+    });
+
+    return savedMedia;
+  }
+
+  /**
+   * Queue face detection and gallery-sized copies, returns the face detection job ID
+   */
+  private async queueProcessing(groupId: string, mediaIds: string[]): Promise<string> {
     // Queue face detection job
     const jobId = await this.queueService.addJob(
       QUEUE_NAMES.FACE_DETECTION,
       JobType.FACE_DETECTION,
       {
-        groupId: dto.groupId,
-        mediaIds: savedMedia.map(m => m.id),
+        groupId,
+        mediaIds,
       },
       {
         attempts: 3,
@@ -116,9 +255,56 @@ export class UploadMediaUseCase {
       }
     );
 
-    return {
-      media: savedMedia,
-      jobId,
+    // Queue gallery-sized copies separately so face detection is not held up
+    await this.queueService.addJob(
+      QUEUE_NAMES.MEDIA_DERIVATIVES,
+      JobType.MEDIA_DERIVATIVES,
+      {
+        groupId,
+        mediaIds,
+      },
+      {
+        attempts: 2,
+        backoff: { type: 'exponential', delay: 5000 },
+      }
+    );
+
+    return jobId;
+  }
+
+  /**
+   * Drop files whose content hash matches media in the group or an earlier file in the same upload
+   */
+  private async filterDuplicates(
+    groupId: string,
+    files: UploadedFile[]
+  ): Promise<{ files: UploadedFile[]; contentHashes: string[]; duplicates: SkippedDuplicate[] }> {
+    const hashes = files.map(file => createHash('sha256').update(file.buffer).digest('hex'));
+    const existing = await this.mediaRepository.findByContentHashes(groupId, [...new Set(hashes)]);
+    const existingByHash = new Map(existing.map(m => [m.contentHash!, m.id]));
+
+    const seen = new Set<string>();
+    const result = {
+      files: [] as UploadedFile[],
+      contentHashes: [] as string[],
+      duplicates: [] as SkippedDuplicate[],
     };
+
+    files.forEach((file, index) => {
+      const hash = hashes[index];
+      if (existingByHash.has(hash) || seen.has(hash)) {
+        result.duplicates.push({
+          originalName: file.originalname,
+          existingMediaId: existingByHash.get(hash),
+        });
+        return;
+      }
+
+      seen.add(hash);
+      result.files.push(file);
+      result.contentHashes.push(hash);
+    });
+
+    return result;
   }
 }
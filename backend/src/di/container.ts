@@ -8,16 +8,36 @@ import {
   MongoFaceClusterMemberRepository,
 } from '../infrastructure/database/mongoose/repositories/FaceClusterRepository.js';
 import { MongoShareableLinkRepository } from '../infrastructure/database/mongoose/repositories/ShareableLinkRepository.js';
+import { MongoPersonRepository } from '../infrastructure/database/mongoose/repositories/PersonRepository.js';
+import { MongoUploadSessionRepository } from '../infrastructure/database/mongoose/repositories/UploadSessionRepository.js';
+import { MongoAlbumRepository } from '../infrastructure/database/mongoose/repositories/AlbumRepository.js';
+import {
+  MongoCommentRepository,
+  MongoReactionRepository,
+} from '../infrastructure/database/mongoose/repositories/CommentRepository.js';
+import {
+  MongoFavoriteRepository,
+  MongoHighlightRepository,
+} from '../infrastructure/database/mongoose/repositories/FavoriteRepository.js';
+import { MongoActivityRepository } from '../infrastructure/database/mongoose/repositories/ActivityRepository.js';
+import { MongoInviteRepository } from '../infrastructure/database/mongoose/repositories/InviteRepository.js';
+import { MongoEmailInvitationRepository } from '../infrastructure/database/mongoose/repositories/EmailInvitationRepository.js';
+import { MongoJoinRequestRepository } from '../infrastructure/database/mongoose/repositories/JoinRequestRepository.js';
 
 // Services
 import { S3Service } from '../infrastructure/aws/S3Service.js';
 import { RekognitionService } from '../infrastructure/aws/RekognitionService.js';
+import { LocalFaceRecognitionService } from '../infrastructure/local/LocalFaceRecognitionService.js';
 import { FaceEnhancementService } from '../infrastructure/aws/FaceEnhancementService.js';
 import { FaceClusteringService } from '../infrastructure/aws/FaceClusteringService.js';
 import { BullMQService } from '../infrastructure/queue/BullMQService.js';
 import { ClerkService } from '../infrastructure/external/ClerkService.js';
 import { GdprService } from '../core/services/GdprService.js';
+import { MediaDeletionService } from '../core/services/MediaDeletionService.js';
+import { MediaPreparationService } from '../core/services/MediaPreparationService.js';
 import { RedisCacheService } from '../infrastructure/cache/RedisCacheService.js';
+import { FfmpegVideoService } from '../infrastructure/video/FfmpegVideoService.js';
+import { SharpImageService } from '../infrastructure/image/SharpImageService.js';
 import { EmailService } from '../infrastructure/email/EmailService.js';
 
 // Use Cases
@@ -26,6 +46,52 @@ import { JoinGroupUseCase } from '../core/use-cases/JoinGroupUseCase.js';
 import { UpdateGroupUseCase } from '../core/use-cases/UpdateGroupUseCase.js';
 import { DeleteGroupUseCase } from '../core/use-cases/DeleteGroupUseCase.js';
 import { UploadMediaUseCase } from '../core/use-cases/UploadMediaUseCase.js';
+import { ReprocessMediaUseCase } from '../core/use-cases/ReprocessMediaUseCase.js';
+import { BackfillDerivativesUseCase } from '../core/use-cases/BackfillDerivativesUseCase.js';
+import { FindDuplicateMediaUseCase } from '../core/use-cases/FindDuplicateMediaUseCase.js';
+import { RemoveDuplicateMediaUseCase } from '../core/use-cases/RemoveDuplicateMediaUseCase.js';
+import { UpdateMediaAnnotationsUseCase } from '../core/use-cases/UpdateMediaAnnotationsUseCase.js';
+import { SearchMediaUseCase } from '../core/use-cases/SearchMediaUseCase.js';
+import { RecordActivityUseCase } from '../core/use-cases/RecordActivityUseCase.js';
+import { ListActivitiesUseCase } from '../core/use-cases/ListActivitiesUseCase.js';
+import { CreateInviteUseCase } from '../core/use-cases/CreateInviteUseCase.js';
+import { ListInvitesUseCase } from '../core/use-cases/ListInvitesUseCase.js';
+import { RevokeInviteUseCase } from '../core/use-cases/RevokeInviteUseCase.js';
+import { RegenerateInviteCodeUseCase } from '../core/use-cases/RegenerateInviteCodeUseCase.js';
+import { GetInvitePreviewUseCase } from '../core/use-cases/GetInvitePreviewUseCase.js';
+import { SendEmailInvitationsUseCase } from '../core/use-cases/SendEmailInvitationsUseCase.js';
+import { ListEmailInvitationsUseCase } from '../core/use-cases/ListEmailInvitationsUseCase.js';
+import { ResendEmailInvitationUseCase } from '../core/use-cases/ResendEmailInvitationUseCase.js';
+import { CancelEmailInvitationUseCase } from '../core/use-cases/CancelEmailInvitationUseCase.js';
+import { GetEmailInvitationUseCase } from '../core/use-cases/GetEmailInvitationUseCase.js';
+import { AcceptEmailInvitationUseCase } from '../core/use-cases/AcceptEmailInvitationUseCase.js';
+import { ListJoinRequestsUseCase } from '../core/use-cases/ListJoinRequestsUseCase.js';
+import { ReviewJoinRequestUseCase } from '../core/use-cases/ReviewJoinRequestUseCase.js';
+import { LeaveGroupUseCase } from '../core/use-cases/LeaveGroupUseCase.js';
+import { TransferOwnershipUseCase } from '../core/use-cases/TransferOwnershipUseCase.js';
+import { ListMediaCommentsUseCase } from '../core/use-cases/ListMediaCommentsUseCase.js';
+import { AddCommentUseCase } from '../core/use-cases/AddCommentUseCase.js';
+import { UpdateCommentUseCase } from '../core/use-cases/UpdateCommentUseCase.js';
+import { DeleteCommentUseCase } from '../core/use-cases/DeleteCommentUseCase.js';
+import { ToggleReactionUseCase } from '../core/use-cases/ToggleReactionUseCase.js';
+import { SetFavoriteUseCase } from '../core/use-cases/SetFavoriteUseCase.js';
+import { SetHighlightUseCase } from '../core/use-cases/SetHighlightUseCase.js';
+import { ListFavoritesUseCase } from '../core/use-cases/ListFavoritesUseCase.js';
+import { ListHighlightsUseCase } from '../core/use-cases/ListHighlightsUseCase.js';
+import { SuggestHighlightsUseCase } from '../core/use-cases/SuggestHighlightsUseCase.js';
+import { CreateUploadSessionUseCase } from '../core/use-cases/CreateUploadSessionUseCase.js';
+import { ResumeUploadSessionUseCase } from '../core/use-cases/ResumeUploadSessionUseCase.js';
+import { RecordUploadPartUseCase } from '../core/use-cases/RecordUploadPartUseCase.js';
+import { CompleteUploadSessionUseCase } from '../core/use-cases/CompleteUploadSessionUseCase.js';
+import { AbortUploadSessionUseCase } from '../core/use-cases/AbortUploadSessionUseCase.js';
+import { CreateAlbumUseCase } from '../core/use-cases/CreateAlbumUseCase.js';
+import { ListAlbumsUseCase } from '../core/use-cases/ListAlbumsUseCase.js';
+import { UpdateAlbumUseCase } from '../core/use-cases/UpdateAlbumUseCase.js';
+import { DeleteAlbumUseCase } from '../core/use-cases/DeleteAlbumUseCase.js';
+import { AddAlbumMediaUseCase } from '../core/use-cases/AddAlbumMediaUseCase.js';
+import { RemoveAlbumMediaUseCase } from '../core/use-cases/RemoveAlbumMediaUseCase.js';
+import { ReorderAlbumMediaUseCase } from '../core/use-cases/ReorderAlbumMediaUseCase.js';
+import { GetAlbumMediaUseCase } from '../core/use-cases/GetAlbumMediaUseCase.js';
 import { GetClustersWithSamplesUseCase } from '../core/use-cases/GetClustersWithSamplesUseCase.js';
 import { GetClusterMediaUseCase } from '../core/use-cases/GetClusterMediaUseCase.js';
 import { MergeClustersUseCase } from '../core/use-cases/MergeClustersUseCase.js';
@@ -33,6 +99,19 @@ import { CreateShareableLinkUseCase } from '../core/use-cases/CreateShareableLin
 import { GetSharedResourceUseCase } from '../core/use-cases/GetSharedResourceUseCase.js';
 import { RevokeShareableLinkUseCase } from '../core/use-cases/RevokeShareableLinkUseCase.js';
 import { ListShareableLinksUseCase } from '../core/use-cases/ListShareableLinksUseCase.js';
+import { ListPeopleUseCase } from '../core/use-cases/ListPeopleUseCase.js';
+import { CreatePersonUseCase } from '../core/use-cases/CreatePersonUseCase.js';
+import { LinkPersonClusterUseCase } from '../core/use-cases/LinkPersonClusterUseCase.js';
+import { GetPersonMediaUseCase } from '../core/use-cases/GetPersonMediaUseCase.js';
+import { GetUnassignedFacesUseCase } from '../core/use-cases/GetUnassignedFacesUseCase.js';
+import { AssignFaceToClusterUseCase } from '../core/use-cases/AssignFaceToClusterUseCase.js';
+import { PromoteFaceToClusterUseCase } from '../core/use-cases/PromoteFaceToClusterUseCase.js';
+import { GetClusterFacesUseCase } from '../core/use-cases/GetClusterFacesUseCase.js';
+import { MoveClusterFacesUseCase } from '../core/use-cases/MoveClusterFacesUseCase.js';
+import { SplitClusterUseCase } from '../core/use-cases/SplitClusterUseCase.js';
+import { SearchFacesBySelfieUseCase } from '../core/use-cases/SearchFacesBySelfieUseCase.js';
+import { LinkClusterToMemberUseCase } from '../core/use-cases/LinkClusterToMemberUseCase.js';
+import { PinClusterCoverUseCase } from '../core/use-cases/PinClusterCoverUseCase.js';
 
 // Controllers
 import { GroupController } from '../presentation/controllers/GroupController.js';
@@ -42,6 +121,20 @@ import { JobController } from '../presentation/controllers/JobController.js';
 import { WebhookController } from '../presentation/controllers/WebhookController.js';
 import { GdprController } from '../presentation/controllers/GdprController.js';
 import { ShareController } from '../presentation/controllers/ShareController.js';
+import { PersonController } from '../presentation/controllers/PersonController.js';
+import { UploadSessionController } from '../presentation/controllers/UploadSessionController.js';
+import { AlbumController } from '../presentation/controllers/AlbumController.js';
+import { CommentController } from '../presentation/controllers/CommentController.js';
+import { ActivityController } from '../presentation/controllers/ActivityController.js';
+import { InviteController } from '../presentation/controllers/InviteController.js';
+import { EmailInvitationController } from '../presentation/controllers/EmailInvitationController.js';
+import { JoinRequestController } from '../presentation/controllers/JoinRequestController.js';
+
+// Types
+import type { IFaceRecognitionService } from '../core/interfaces/services/IFaceRecognitionService.js';
+
+// Config
+import { env } from '../config/env.js';
 
 class Container {
   private services = new Map<string, any>();
@@ -74,6 +167,17 @@ const faceDetectionRepository = new MongoFaceDetectionRepository();
 const faceClusterRepository = new MongoFaceClusterRepository();
 const faceClusterMemberRepository = new MongoFaceClusterMemberRepository();
 const shareableLinkRepository = new MongoShareableLinkRepository();
+const personRepository = new MongoPersonRepository();
+const uploadSessionRepository = new MongoUploadSessionRepository();
+const albumRepository = new MongoAlbumRepository();
+const commentRepository = new MongoCommentRepository();
+const reactionRepository = new MongoReactionRepository();
+const favoriteRepository = new MongoFavoriteRepository();
+const highlightRepository = new MongoHighlightRepository();
+const activityRepository = new MongoActivityRepository();
+const inviteRepository = new MongoInviteRepository();
+const emailInvitationRepository = new MongoEmailInvitationRepository();
+const joinRequestRepository = new MongoJoinRequestRepository();
 
 container.register('UserRepository', userRepository);
 container.register('GroupRepository', groupRepository);
@@ -82,62 +186,217 @@ container.register('FaceDetectionRepository', faceDetectionRepository);
 container.register('FaceClusterRepository', faceClusterRepository);
 container.register('FaceClusterMemberRepository', faceClusterMemberRepository);
 container.register('ShareableLinkRepository', shareableLinkRepository);
+container.register('PersonRepository', personRepository);
+container.register('UploadSessionRepository', uploadSessionRepository);
+container.register('AlbumRepository', albumRepository);
+container.register('CommentRepository', commentRepository);
+container.register('ReactionRepository', reactionRepository);
+container.register('FavoriteRepository', favoriteRepository);
+container.register('HighlightRepository', highlightRepository);
+container.register('ActivityRepository', activityRepository);
+container.register('InviteRepository', inviteRepository);
+container.register('EmailInvitationRepository', emailInvitationRepository);
+container.register('JoinRequestRepository', joinRequestRepository);
 
 // Register Infrastructure Services
 const s3Service = new S3Service();
-const rekognitionService = new RekognitionService();
+const faceRecognitionService: IFaceRecognitionService =
+  env.get('FACE_RECOGNITION_PROVIDER') === 'local'
+    ? new LocalFaceRecognitionService(s3Service)
+    : new RekognitionService();
 const faceEnhancementService = new FaceEnhancementService();
-const faceClusteringService = new FaceClusteringService(rekognitionService);
+const faceClusteringService = new FaceClusteringService(faceRecognitionService);
 const queueService = new BullMQService();
 const authService = new ClerkService(userRepository);
 const cacheService = new RedisCacheService();
 const emailService = new EmailService();
+const videoProcessingService = new FfmpegVideoService();
+const imageProcessingService = new SharpImageService();
 
 container.register('S3Service', s3Service);
-container.register('RekognitionService', rekognitionService);
+container.register('FaceRecognitionService', faceRecognitionService);
 container.register('FaceEnhancementService', faceEnhancementService);
 container.register('FaceClusteringService', faceClusteringService);
 container.register('QueueService', queueService);
 container.register('AuthService', authService);
 container.register('CacheService', cacheService);
 container.register('EmailService', emailService);
+container.register('VideoProcessingService', videoProcessingService);
+container.register('ImageProcessingService', imageProcessingService);
 
 // Register Core Services
+const mediaDeletionService = new MediaDeletionService(
+  mediaRepository,
+  groupRepository,
+  faceDetectionRepository,
+  faceClusterRepository,
+  faceClusterMemberRepository,
+  albumRepository,
+  commentRepository,
+  reactionRepository,
+  favoriteRepository,
+  highlightRepository,
+  activityRepository,
+  s3Service
+);
+const mediaPreparationService = new MediaPreparationService(
+  s3Service,
+  videoProcessingService,
+  imageProcessingService
+);
 const gdprService = new GdprService(
   userRepository,
   groupRepository,
   mediaRepository,
   faceClusterRepository,
-  s3Service,
+  personRepository,
+  mediaDeletionService,
   authService
 );
+container.register('MediaDeletionService', mediaDeletionService);
+container.register('MediaPreparationService', mediaPreparationService);
 container.register('GdprService', gdprService);
 
 // Register Use Cases
-const createGroupUseCase = new CreateGroupUseCase(groupRepository, rekognitionService);
-const joinGroupUseCase = new JoinGroupUseCase(groupRepository, userRepository);
+const recordActivityUseCase = new RecordActivityUseCase(activityRepository);
+const listActivitiesUseCase = new ListActivitiesUseCase(activityRepository, groupRepository, userRepository);
+const createGroupUseCase = new CreateGroupUseCase(groupRepository, faceRecognitionService, recordActivityUseCase);
+const joinGroupUseCase = new JoinGroupUseCase(
+  groupRepository,
+  userRepository,
+  inviteRepository,
+  joinRequestRepository,
+  recordActivityUseCase
+);
+const createInviteUseCase = new CreateInviteUseCase(inviteRepository, groupRepository);
+const listInvitesUseCase = new ListInvitesUseCase(inviteRepository, groupRepository, userRepository);
+const revokeInviteUseCase = new RevokeInviteUseCase(inviteRepository, groupRepository);
+const regenerateInviteCodeUseCase = new RegenerateInviteCodeUseCase(groupRepository, inviteRepository);
+const getInvitePreviewUseCase = new GetInvitePreviewUseCase(groupRepository, inviteRepository);
+const appUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+const sendEmailInvitationsUseCase = new SendEmailInvitationsUseCase(
+  emailInvitationRepository,
+  groupRepository,
+  userRepository,
+  emailService,
+  appUrl
+);
+const listEmailInvitationsUseCase = new ListEmailInvitationsUseCase(emailInvitationRepository, groupRepository);
+const resendEmailInvitationUseCase = new ResendEmailInvitationUseCase(
+  emailInvitationRepository,
+  groupRepository,
+  userRepository,
+  emailService,
+  appUrl
+);
+const cancelEmailInvitationUseCase = new CancelEmailInvitationUseCase(emailInvitationRepository, groupRepository);
+const getEmailInvitationUseCase = new GetEmailInvitationUseCase(emailInvitationRepository, groupRepository, userRepository);
+const acceptEmailInvitationUseCase = new AcceptEmailInvitationUseCase(
+  emailInvitationRepository,
+  groupRepository,
+  recordActivityUseCase
+);
+const listJoinRequestsUseCase = new ListJoinRequestsUseCase(joinRequestRepository, groupRepository, userRepository);
+const reviewJoinRequestUseCase = new ReviewJoinRequestUseCase(joinRequestRepository, groupRepository, inviteRepository, recordActivityUseCase);
 const updateGroupUseCase = new UpdateGroupUseCase(groupRepository);
 const deleteGroupUseCase = new DeleteGroupUseCase(
   groupRepository,
   mediaRepository,
   faceDetectionRepository,
   faceClusterRepository,
+  albumRepository,
+  commentRepository,
+  reactionRepository,
+  favoriteRepository,
+  highlightRepository,
+  activityRepository,
+  inviteRepository,
+  emailInvitationRepository,
+  joinRequestRepository,
   s3Service,
-  rekognitionService
+  faceRecognitionService
 );
 const uploadMediaUseCase = new UploadMediaUseCase(
   mediaRepository,
   groupRepository,
   s3Service,
+  queueService,
+  mediaPreparationService,
+  recordActivityUseCase
+);
+const reprocessMediaUseCase = new ReprocessMediaUseCase(
+  mediaRepository,
+  groupRepository,
+  faceDetectionRepository,
+  faceClusterRepository,
+  faceClusterMemberRepository,
+  faceRecognitionService,
+  queueService
+);
+const backfillDerivativesUseCase = new BackfillDerivativesUseCase(
+  mediaRepository,
+  groupRepository,
   queueService
 );
+const findDuplicateMediaUseCase = new FindDuplicateMediaUseCase(
+  mediaRepository,
+  groupRepository
+);
+const removeDuplicateMediaUseCase = new RemoveDuplicateMediaUseCase(
+  findDuplicateMediaUseCase,
+  mediaDeletionService
+);
+const leaveGroupUseCase = new LeaveGroupUseCase(
+  groupRepository,
+  mediaRepository,
+  faceClusterRepository,
+  personRepository,
+  mediaDeletionService,
+  recordActivityUseCase
+);
+const transferOwnershipUseCase = new TransferOwnershipUseCase(groupRepository);
+const updateMediaAnnotationsUseCase = new UpdateMediaAnnotationsUseCase(mediaRepository, groupRepository);
+const searchMediaUseCase = new SearchMediaUseCase(
+  mediaRepository,
+  groupRepository,
+  faceClusterRepository,
+  faceClusterMemberRepository,
+  faceDetectionRepository
+);
+const setFavoriteUseCase = new SetFavoriteUseCase(favoriteRepository, mediaRepository, groupRepository);
+const setHighlightUseCase = new SetHighlightUseCase(highlightRepository, mediaRepository, groupRepository);
+const listFavoritesUseCase = new ListFavoritesUseCase(favoriteRepository, mediaRepository, groupRepository);
+const listHighlightsUseCase = new ListHighlightsUseCase(highlightRepository, mediaRepository, groupRepository);
+const suggestHighlightsUseCase = new SuggestHighlightsUseCase(
+  favoriteRepository,
+  highlightRepository,
+  mediaRepository,
+  groupRepository,
+  faceClusterRepository,
+  faceClusterMemberRepository,
+  faceDetectionRepository
+);
+const createUploadSessionUseCase = new CreateUploadSessionUseCase(
+  uploadSessionRepository,
+  groupRepository,
+  s3Service
+);
+const resumeUploadSessionUseCase = new ResumeUploadSessionUseCase(uploadSessionRepository, s3Service);
+const recordUploadPartUseCase = new RecordUploadPartUseCase(uploadSessionRepository);
+const completeUploadSessionUseCase = new CompleteUploadSessionUseCase(
+  uploadSessionRepository,
+  s3Service,
+  uploadMediaUseCase
+);
+const abortUploadSessionUseCase = new AbortUploadSessionUseCase(uploadSessionRepository, s3Service);
 const getClustersWithSamplesUseCase = new GetClustersWithSamplesUseCase(
   faceClusterRepository,
   faceClusterMemberRepository,
   faceDetectionRepository,
   mediaRepository,
   groupRepository,
-  s3Service
+  s3Service,
+  userRepository
 );
 const getClusterMediaUseCase = new GetClusterMediaUseCase(
   faceClusterRepository,
@@ -150,13 +409,17 @@ const getClusterMediaUseCase = new GetClusterMediaUseCase(
 const mergeClustersUseCase = new MergeClustersUseCase(
   faceClusterRepository,
   faceClusterMemberRepository,
-  groupRepository
+  groupRepository,
+  personRepository,
+  recordActivityUseCase
 );
 const createShareableLinkUseCase = new CreateShareableLinkUseCase(
   shareableLinkRepository,
   groupRepository,
   mediaRepository,
-  faceClusterRepository
+  faceClusterRepository,
+  albumRepository,
+  recordActivityUseCase
 );
 const getSharedResourceUseCase = new GetSharedResourceUseCase(
   shareableLinkRepository,
@@ -165,25 +428,160 @@ const getSharedResourceUseCase = new GetSharedResourceUseCase(
   faceClusterRepository,
   faceClusterMemberRepository,
   faceDetectionRepository,
-  s3Service
+  s3Service,
+  albumRepository
 );
 const revokeShareableLinkUseCase = new RevokeShareableLinkUseCase(
   shareableLinkRepository,
   groupRepository,
   mediaRepository,
-  faceClusterRepository
+  faceClusterRepository,
+  albumRepository
 );
 const listShareableLinksUseCase = new ListShareableLinksUseCase(
   shareableLinkRepository,
   groupRepository,
   mediaRepository,
-  faceClusterRepository
+  faceClusterRepository,
+  albumRepository
+);
+const listMediaCommentsUseCase = new ListMediaCommentsUseCase(
+  commentRepository,
+  reactionRepository,
+  mediaRepository,
+  groupRepository
+);
+const addCommentUseCase = new AddCommentUseCase(
+  commentRepository,
+  mediaRepository,
+  groupRepository,
+  recordActivityUseCase
+);
+const updateCommentUseCase = new UpdateCommentUseCase(commentRepository);
+const deleteCommentUseCase = new DeleteCommentUseCase(commentRepository, groupRepository, recordActivityUseCase);
+const toggleReactionUseCase = new ToggleReactionUseCase(
+  reactionRepository,
+  mediaRepository,
+  groupRepository,
+  recordActivityUseCase
+);
+const createAlbumUseCase = new CreateAlbumUseCase(albumRepository, mediaRepository, groupRepository);
+const listAlbumsUseCase = new ListAlbumsUseCase(albumRepository, mediaRepository, groupRepository, s3Service);
+const updateAlbumUseCase = new UpdateAlbumUseCase(albumRepository, groupRepository);
+const deleteAlbumUseCase = new DeleteAlbumUseCase(albumRepository, groupRepository, shareableLinkRepository);
+const addAlbumMediaUseCase = new AddAlbumMediaUseCase(albumRepository, mediaRepository, groupRepository);
+const removeAlbumMediaUseCase = new RemoveAlbumMediaUseCase(albumRepository, groupRepository);
+const reorderAlbumMediaUseCase = new ReorderAlbumMediaUseCase(albumRepository, groupRepository);
+const getAlbumMediaUseCase = new GetAlbumMediaUseCase(
+  albumRepository,
+  mediaRepository,
+  groupRepository,
+  faceDetectionRepository,
+  s3Service
+);
+const listPeopleUseCase = new ListPeopleUseCase(
+  personRepository,
+  faceClusterRepository,
+  faceClusterMemberRepository,
+  faceDetectionRepository,
+  groupRepository,
+  s3Service
+);
+const linkPersonClusterUseCase = new LinkPersonClusterUseCase(
+  personRepository,
+  faceClusterRepository,
+  groupRepository
+);
+const createPersonUseCase = new CreatePersonUseCase(
+  personRepository,
+  linkPersonClusterUseCase
+);
+const getPersonMediaUseCase = new GetPersonMediaUseCase(
+  personRepository,
+  faceClusterRepository,
+  faceClusterMemberRepository,
+  faceDetectionRepository,
+  mediaRepository,
+  groupRepository,
+  s3Service
+);
+const getUnassignedFacesUseCase = new GetUnassignedFacesUseCase(
+  faceClusterMemberRepository,
+  faceDetectionRepository,
+  mediaRepository,
+  groupRepository,
+  s3Service
+);
+const assignFaceToClusterUseCase = new AssignFaceToClusterUseCase(
+  faceClusterRepository,
+  faceClusterMemberRepository,
+  faceDetectionRepository,
+  mediaRepository,
+  groupRepository
+);
+const promoteFaceToClusterUseCase = new PromoteFaceToClusterUseCase(
+  faceClusterRepository,
+  faceClusterMemberRepository,
+  faceDetectionRepository,
+  mediaRepository,
+  groupRepository
+);
+const getClusterFacesUseCase = new GetClusterFacesUseCase(
+  faceClusterRepository,
+  faceClusterMemberRepository,
+  faceDetectionRepository,
+  groupRepository,
+  s3Service
+);
+const moveClusterFacesUseCase = new MoveClusterFacesUseCase(
+  faceClusterRepository,
+  faceClusterMemberRepository,
+  groupRepository
+);
+const splitClusterUseCase = new SplitClusterUseCase(
+  faceClusterRepository,
+  faceClusterMemberRepository,
+  groupRepository,
+  moveClusterFacesUseCase
+);
+const linkClusterToMemberUseCase = new LinkClusterToMemberUseCase(
+  faceClusterRepository,
+  groupRepository
+);
+const pinClusterCoverUseCase = new PinClusterCoverUseCase(
+  faceClusterRepository,
+  faceClusterMemberRepository,
+  groupRepository
+);
+const searchFacesBySelfieUseCase = new SearchFacesBySelfieUseCase(
+  faceRecognitionService,
+  faceClusterRepository,
+  faceClusterMemberRepository,
+  faceDetectionRepository,
+  mediaRepository,
+  groupRepository,
+  s3Service
 );
 
 container.register('CreateGroupUseCase', createGroupUseCase);
 container.register('JoinGroupUseCase', joinGroupUseCase);
+container.register('CreateInviteUseCase', createInviteUseCase);
+container.register('ListInvitesUseCase', listInvitesUseCase);
+container.register('RevokeInviteUseCase', revokeInviteUseCase);
+container.register('RegenerateInviteCodeUseCase', regenerateInviteCodeUseCase);
+container.register('GetInvitePreviewUseCase', getInvitePreviewUseCase);
+container.register('SendEmailInvitationsUseCase', sendEmailInvitationsUseCase);
+container.register('ListEmailInvitationsUseCase', listEmailInvitationsUseCase);
+container.register('ResendEmailInvitationUseCase', resendEmailInvitationUseCase);
+container.register('CancelEmailInvitationUseCase', cancelEmailInvitationUseCase);
+container.register('GetEmailInvitationUseCase', getEmailInvitationUseCase);
+container.register('AcceptEmailInvitationUseCase', acceptEmailInvitationUseCase);
+container.register('ListJoinRequestsUseCase', listJoinRequestsUseCase);
+container.register('ReviewJoinRequestUseCase', reviewJoinRequestUseCase);
 container.register('UpdateGroupUseCase', updateGroupUseCase);
 container.register('DeleteGroupUseCase', deleteGroupUseCase);
+container.register('LeaveGroupUseCase', leaveGroupUseCase);
+container.register('TransferOwnershipUseCase', transferOwnershipUseCase);
 container.register('UploadMediaUseCase', uploadMediaUseCase);
 container.register('GetClustersWithSamplesUseCase', getClustersWithSamplesUseCase);
 container.register('GetClusterMediaUseCase', getClusterMediaUseCase);
@@ -192,6 +590,15 @@ container.register('CreateShareableLinkUseCase', createShareableLinkUseCase);
 container.register('GetSharedResourceUseCase', getSharedResourceUseCase);
 container.register('RevokeShareableLinkUseCase', revokeShareableLinkUseCase);
 container.register('ListShareableLinksUseCase', listShareableLinksUseCase);
+container.register('GetUnassignedFacesUseCase', getUnassignedFacesUseCase);
+container.register('AssignFaceToClusterUseCase', assignFaceToClusterUseCase);
+container.register('PromoteFaceToClusterUseCase', promoteFaceToClusterUseCase);
+container.register('GetClusterFacesUseCase', getClusterFacesUseCase);
+container.register('MoveClusterFacesUseCase', moveClusterFacesUseCase);
+container.register('SplitClusterUseCase', splitClusterUseCase);
+container.register('SearchFacesBySelfieUseCase', searchFacesBySelfieUseCase);
+container.register('LinkClusterToMemberUseCase', linkClusterToMemberUseCase);
+container.register('PinClusterCoverUseCase', pinClusterCoverUseCase);
 
 // Register Controllers
 const groupController = new GroupController(
@@ -199,32 +606,60 @@ const groupController = new GroupController(
   joinGroupUseCase,
   updateGroupUseCase,
   deleteGroupUseCase,
+  removeDuplicateMediaUseCase,
+  leaveGroupUseCase,
+  transferOwnershipUseCase,
   groupRepository,
   mediaRepository,
   userRepository,
+  faceClusterRepository,
+  personRepository,
   queueService,
+  mediaDeletionService,
   cacheService
 );
 const mediaController = new MediaController(
   uploadMediaUseCase,
+  reprocessMediaUseCase,
+  backfillDerivativesUseCase,
+  findDuplicateMediaUseCase,
+  updateMediaAnnotationsUseCase,
+  searchMediaUseCase,
+  setFavoriteUseCase,
+  setHighlightUseCase,
+  listFavoritesUseCase,
+  listHighlightsUseCase,
+  suggestHighlightsUseCase,
   mediaRepository,
   groupRepository,
   s3Service,
-  faceDetectionRepository,
-  faceClusterRepository,
-  faceClusterMemberRepository,
+  mediaDeletionService,
+  commentRepository,
+  reactionRepository,
+  favoriteRepository,
+  highlightRepository,
   cacheService
 );
 const clusterController = new ClusterController(
   getClustersWithSamplesUseCase,
   getClusterMediaUseCase,
   mergeClustersUseCase,
+  getUnassignedFacesUseCase,
+  assignFaceToClusterUseCase,
+  promoteFaceToClusterUseCase,
+  getClusterFacesUseCase,
+  moveClusterFacesUseCase,
+  splitClusterUseCase,
+  searchFacesBySelfieUseCase,
+  linkClusterToMemberUseCase,
+  pinClusterCoverUseCase,
+  recordActivityUseCase,
   faceClusterRepository,
   faceClusterMemberRepository,
   groupRepository,
   mediaRepository,
   faceDetectionRepository,
-  s3Service,
+  mediaDeletionService,
   cacheService
 );
 const jobController = new JobController(
@@ -232,7 +667,12 @@ const jobController = new JobController(
   groupRepository,
   cacheService
 );
-const webhookController = new WebhookController(authService, emailService);
+const webhookController = new WebhookController(
+  authService,
+  emailService,
+  acceptEmailInvitationUseCase,
+  cacheService
+);
 const gdprController = new GdprController(gdprService);
 const shareController = new ShareController(
   createShareableLinkUseCase,
@@ -240,6 +680,59 @@ const shareController = new ShareController(
   revokeShareableLinkUseCase,
   listShareableLinksUseCase
 );
+const personController = new PersonController(
+  listPeopleUseCase,
+  createPersonUseCase,
+  linkPersonClusterUseCase,
+  getPersonMediaUseCase,
+  personRepository
+);
+const uploadSessionController = new UploadSessionController(
+  createUploadSessionUseCase,
+  resumeUploadSessionUseCase,
+  recordUploadPartUseCase,
+  completeUploadSessionUseCase,
+  abortUploadSessionUseCase,
+  uploadSessionRepository,
+  cacheService
+);
+
+const albumController = new AlbumController(
+  createAlbumUseCase,
+  listAlbumsUseCase,
+  updateAlbumUseCase,
+  deleteAlbumUseCase,
+  addAlbumMediaUseCase,
+  removeAlbumMediaUseCase,
+  reorderAlbumMediaUseCase,
+  getAlbumMediaUseCase
+);
+const commentController = new CommentController(
+  listMediaCommentsUseCase,
+  addCommentUseCase,
+  updateCommentUseCase,
+  deleteCommentUseCase,
+  toggleReactionUseCase
+);
+const activityController = new ActivityController(listActivitiesUseCase);
+const inviteController = new InviteController(
+  createInviteUseCase,
+  listInvitesUseCase,
+  revokeInviteUseCase,
+  regenerateInviteCodeUseCase,
+  getInvitePreviewUseCase,
+  cacheService
+);
+const emailInvitationController = new EmailInvitationController(
+  sendEmailInvitationsUseCase,
+  listEmailInvitationsUseCase,
+  resendEmailInvitationUseCase,
+  cancelEmailInvitationUseCase,
+  getEmailInvitationUseCase,
+  acceptEmailInvitationUseCase,
+  cacheService
+);
+const joinRequestController = new JoinRequestController(listJoinRequestsUseCase, reviewJoinRequestUseCase, cacheService);
 
 container.register('GroupController', groupController);
 container.register('MediaController', mediaController);
@@ -248,5 +741,13 @@ container.register('JobController', jobController);
 container.register('WebhookController', webhookController);
 container.register('GdprController', gdprController);
 container.register('ShareController', shareController);
+container.register('PersonController', personController);
+container.register('UploadSessionController', uploadSessionController);
+container.register('AlbumController', albumController);
+container.register('CommentController', commentController);
+container.register('ActivityController', activityController);
+container.register('InviteController', inviteController);
+container.register('EmailInvitationController', emailInvitationController);
+container.register('JoinRequestController', joinRequestController);
 
 export { container };
@@ -12,6 +12,8 @@ import { setupExpressErrorHandler } from '@sentry/node';
 import { database } from './infrastructure/database/mongoose/connection.js';
 import routes from './presentation/routes/index.js';
 import { errorHandler } from './presentation/middleware/errorHandler.js';
+import { container } from './di/container.js';
+import type { IMediaRepository } from './core/interfaces/repositories/IMediaRepository.js';
 import { sanitizeBody } from './presentation/middleware/validate.js';
 
 // Initialize Sentry FIRST (before any other imports or middleware)
@@ -90,6 +92,19 @@ const start = async () => {
     // Connect to MongoDB
     await database.connect();
 
+    // Media uploaded before capture times were recorded sorts by upload time
+    const mediaRepository = container.get<IMediaRepository>('MediaRepository');
+    const backfilled = await mediaRepository.backfillCapturedAt();
+    if (backfilled > 0) {
+      console.log(`📷 Set capture time on ${backfilled} media items`);
+    }
+
+    // Media processed before processing status was recorded would otherwise show as pending
+    const statusBackfilled = await mediaRepository.backfillProcessingStatus();
+    if (statusBackfilled > 0) {
+      console.log(`📷 Set processing status on ${statusBackfilled} media items`);
+    }
+
     const port = env.get('PORT');
     app.listen(port, () => {
       console.log(`
@@ -1,4 +1,5 @@
 import { IFaceRecognitionService } from '../../core/interfaces/services/IFaceRecognitionService.js';
+import { DEFAULTS } from '../../shared/constants/index.js';
 
 export interface FaceMatch {
   sourceFaceId: string;
@@ -18,6 +19,17 @@ export interface FaceCluster {
   size: number;
 }
 
+export interface ExistingClusterMatch {
+  faceId: string;
+  clusterId: string;
+  similarity: number;
+}
+
+export interface ExistingClusterMatchResult {
+  matches: ExistingClusterMatch[];
+  unmatchedFaces: string[];
+}
+
 /**
  * Face Clustering Service
  *
@@ -35,11 +47,13 @@ export class FaceClusteringService {
 
   /**
    * Cluster faces in a collection using similarity search
+   * Clusters smaller than minClusterSize are returned as unclustered faces
    */
   async clusterFaces(
     collectionId: string,
     faceIds: string[],
-    similarityThreshold: number = 85
+    similarityThreshold: number = DEFAULTS.FACE_SIMILARITY_THRESHOLD,
+    minClusterSize: number = DEFAULTS.MIN_CLUSTER_SIZE
   ): Promise<ClusterResult> {
     if (faceIds.length === 0) {
       return { clusters: [], unclusteredFaces: [] };
@@ -78,13 +92,13 @@ export class FaceClusteringService {
     // Step 4: Calculate cluster statistics
     const enrichedClusters = this.enrichClusters(clusters, similarityGraph);
 
-    // Step 5: Identify unclustered faces (single-face clusters)
+    // Step 5: Identify unclustered faces (clusters below the minimum size)
     const unclusteredFaces = enrichedClusters
-      .filter((cluster) => cluster.size === 1)
+      .filter((cluster) => cluster.size < minClusterSize)
       .flatMap((cluster) => cluster.faceIds);
 
     const meaningfulClusters = enrichedClusters.filter(
-      (cluster) => cluster.size > 1
+      (cluster) => cluster.size >= minClusterSize
     );
 
     console.log(
@@ -97,6 +111,94 @@ export class FaceClusteringService {
     };
   }
 
+  /**
+   * Match new faces against faces that already belong to clusters
+   *
+   * Each new face is searched in the collection and assigned to the existing
+   * cluster with the most matching members (ties broken by best similarity).
+   * Faces without any match are returned for regular clustering.
+   *
+   * @param clusteredFaces - Map of already-clustered face ID to its cluster ID
+   */
+  async matchToExistingClusters(
+    collectionId: string,
+    faceIds: string[],
+    clusteredFaces: Map<string, string>,
+    similarityThreshold: number = DEFAULTS.FACE_SIMILARITY_THRESHOLD
+  ): Promise<ExistingClusterMatchResult> {
+    if (faceIds.length === 0 || clusteredFaces.size === 0) {
+      return { matches: [], unmatchedFaces: faceIds };
+    }
+
+    console.log(
+      `Matching ${faceIds.length} faces against ${clusteredFaces.size} clustered faces with threshold ${similarityThreshold}%`
+    );
+
+    const matches: ExistingClusterMatch[] = [];
+    const unmatchedFaces: string[] = [];
+
+    const batchSize = 5;
+    for (let i = 0; i < faceIds.length; i += batchSize) {
+      const batch = faceIds.slice(i, i + batchSize);
+
+      await Promise.all(
+        batch.map(async (faceId) => {
+          try {
+            const similarFaces = await this.rekognitionService.searchFaces(
+              collectionId,
+              faceId,
+              100,
+              similarityThreshold
+            );
+
+            // Tally matches per existing cluster
+            const votes = new Map<string, { count: number; bestSimilarity: number }>();
+            for (const match of similarFaces) {
+              const clusterId = clusteredFaces.get(match.faceId);
+              if (!clusterId) continue;
+
+              const vote = votes.get(clusterId) || { count: 0, bestSimilarity: 0 };
+              vote.count++;
+              vote.bestSimilarity = Math.max(vote.bestSimilarity, match.similarity);
+              votes.set(clusterId, vote);
+            }
+
+            let bestMatch: ExistingClusterMatch | null = null;
+            let bestCount = 0;
+            for (const [clusterId, vote] of votes.entries()) {
+              if (
+                vote.count > bestCount ||
+                (vote.count === bestCount && bestMatch && vote.bestSimilarity > bestMatch.similarity)
+              ) {
+                bestMatch = { faceId, clusterId, similarity: vote.bestSimilarity };
+                bestCount = vote.count;
+              }
+            }
+
+            if (bestMatch) {
+              matches.push(bestMatch);
+            } else {
+              unmatchedFaces.push(faceId);
+            }
+          } catch (error) {
+            console.error(`Failed to search for face ${faceId}:`, error);
+            unmatchedFaces.push(faceId);
+          }
+        })
+      );
+
+      if (i + batchSize < faceIds.length) {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+    }
+
+    console.log(
+      `Matched ${matches.length} faces to existing clusters, ${unmatchedFaces.length} faces unmatched`
+    );
+
+    return { matches, unmatchedFaces };
+  }
+
   /**
    * Merge similar clusters to reduce duplicates
    */
@@ -293,6 +395,8 @@ export class FaceClusteringService {
 
     for (const [faceId, matches] of graph.entries()) {
       for (const match of matches) {
+        // Faces outside this run (already clustered or below the quality floor) must not link two of its faces
+        if (!parent.has(match.matchedFaceId)) continue;
         union(faceId, match.matchedFaceId);
       }
     }
@@ -3,6 +3,7 @@ import {
   DetectFacesCommand,
   IndexFacesCommand,
   SearchFacesCommand,
+  SearchFacesByImageCommand,
   CreateCollectionCommand,
   DeleteCollectionCommand,
   DescribeCollectionCommand,
@@ -11,6 +12,7 @@ import {
 import { IFaceRecognitionService } from '../../core/interfaces/services/IFaceRecognitionService.js';
 import { RekognitionFaceData, FaceSimilarity } from '../../shared/types/index.js';
 import { env } from '../../config/env.js';
+import { calculateFaceQualityScore } from '../../shared/utils/faceQuality.js';
 
 export class RekognitionService implements IFaceRecognitionService {
   private client: RekognitionClient;
@@ -231,6 +233,43 @@ export class RekognitionService implements IFaceRecognitionService {
     }
   }
 
+  async searchFacesByImage(
+    collectionId: string,
+    imageBuffer: Buffer,
+    maxFaces: number = 100,
+    threshold: number = 80
+  ): Promise<FaceSimilarity[]> {
+    try {
+      const command = new SearchFacesByImageCommand({
+        CollectionId: collectionId,
+        Image: {
+          Bytes: imageBuffer,
+        },
+        MaxFaces: maxFaces,
+        FaceMatchThreshold: threshold,
+        QualityFilter: 'AUTO',
+      });
+
+      const response = await this.client.send(command);
+      const faceMatches = response.FaceMatches || [];
+
+      return faceMatches
+        .filter(match => match.Face)
+        .map(match => ({
+          faceId: match.Face!.FaceId!,
+          similarity: match.Similarity || 0,
+        }));
+    } catch (error: any) {
+      // Rekognition rejects images without a detectable face
+      if (error.name === 'InvalidParameterException') {
+        console.log(`No face found in search image for ${collectionId}`);
+        return [];
+      }
+      console.error(`Face search by image failed for ${collectionId}:`, error);
+      throw error;
+    }
+  }
+
   async deleteFaces(collectionId: string, faceIds: string[]): Promise<void> {
     if (faceIds.length === 0) return;
 
@@ -253,51 +292,6 @@ export class RekognitionService implements IFaceRecognitionService {
    * Higher score = better quality face for display
    */
   calculateFaceQualityScore(face: RekognitionFaceData): number {
-    let score = 0;
-
-    // Confidence (0-30 points)
-    score += (face.confidence / 100) * 30;
-
-    // Brightness (0-25 points) - prefer 40-80 range (optimal lighting)
-    if (face.quality?.brightness) {
-      const brightness = face.quality.brightness;
-      if (brightness >= 40 && brightness <= 80) {
-        score += 25; // Optimal
-      } else if (brightness >= 30 && brightness <= 90) {
-        score += 15; // Acceptable
-      } else {
-        score += 5; // Too dark or too bright
-      }
-    }
-
-    // Sharpness (0-25 points)
-    if (face.quality?.sharpness) {
-      score += (face.quality.sharpness / 100) * 25;
-    }
-
-    // Pose (0-20 points) - prefer face looking at camera
-    if (face.pose) {
-      const { roll, yaw, pitch } = face.pose;
-
-      // Calculate deviation from straight-on (0 degrees)
-      const rollDeviation = Math.abs(roll);
-      const yawDeviation = Math.abs(yaw);
-      const pitchDeviation = Math.abs(pitch);
-
-      // Average deviation
-      const avgDeviation = (rollDeviation + yawDeviation + pitchDeviation) / 3;
-
-      if (avgDeviation < 10) {
-        score += 20; // Nearly perfect frontal
-      } else if (avgDeviation < 20) {
-        score += 15; // Good frontal
-      } else if (avgDeviation < 30) {
-        score += 10; // Acceptable
-      } else {
-        score += 5; // Profile or angled
-      }
-    }
-
-    return Math.min(100, Math.round(score));
+    return calculateFaceQualityScore(face);
   }
 }
@@ -5,11 +5,17 @@ import {
   DeleteObjectsCommand,
   GetObjectCommand,
   HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  Part,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { Readable } from 'stream';
 import { IStorageService } from '../../core/interfaces/services/IStorageService.js';
-import { S3UploadResult } from '../../shared/types/index.js';
+import { S3UploadResult, UploadedPart } from '../../shared/types/index.js';
 import { env } from '../../config/env.js';
 
 export class S3Service implements IStorageService {
@@ -214,4 +220,116 @@ export class S3Service implements IStorageService {
       return false;
     }
   }
+
+  async createMultipartUpload(key: string, contentType: string): Promise<string> {
+    try {
+      const response = await this.client.send(
+        new CreateMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: key,
+          ContentType: contentType,
+        })
+      );
+
+      if (!response.UploadId) {
+        throw new Error('No upload ID in S3 response');
+      }
+
+      return response.UploadId;
+    } catch (error) {
+      console.error(`Failed to start multipart upload for ${key}:`, error);
+      throw error;
+    }
+  }
+
+  async getPresignedPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresIn: number = 3600
+  ): Promise<string> {
+    const command = new UploadPartCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+
+    // @ts-ignore - Type mismatch between AWS SDK versions
+    return getSignedUrl(this.client, command, { expiresIn });
+  }
+
+  async listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+    const parts: Part[] = [];
+    let marker: string | undefined;
+
+    try {
+      // S3 returns at most 1000 parts per page
+      do {
+        const response = await this.client.send(
+          new ListPartsCommand({
+            Bucket: this.bucket,
+            Key: key,
+            UploadId: uploadId,
+            PartNumberMarker: marker,
+          })
+        );
+
+        parts.push(...(response.Parts ?? []));
+        marker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+      } while (marker);
+    } catch (error) {
+      console.error(`Failed to list parts for ${key}:`, error);
+      throw error;
+    }
+
+    return parts
+      .filter(part => part.PartNumber !== undefined && !!part.ETag)
+      .map(part => ({
+        partNumber: part.PartNumber!,
+        etag: part.ETag!,
+        size: part.Size,
+      }));
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<S3UploadResult> {
+    try {
+      await this.client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: {
+            Parts: [...parts]
+              .sort((a, b) => a.partNumber - b.partNumber)
+              .map(part => ({ PartNumber: part.partNumber, ETag: part.etag })),
+          },
+        })
+      );
+
+      return {
+        key,
+        bucket: this.bucket,
+        url: `https://${this.bucket}.s3.${env.get('AWS_REGION')}.amazonaws.com/${key}`,
+      };
+    } catch (error) {
+      console.error(`Failed to complete multipart upload for ${key}:`, error);
+      throw error;
+    }
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    try {
+      await this.client.send(
+        new AbortMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: key,
+          UploadId: uploadId,
+        })
+      );
+    } catch (error) {
+      console.error(`Failed to abort multipart upload for ${key}:`, error);
+      throw error;
+    }
+  }
 }
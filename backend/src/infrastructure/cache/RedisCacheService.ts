@@ -193,6 +193,7 @@ export const CacheKeys = {
   mediaByGroup: (groupId: string, page: number) => `media:group:${groupId}:page:${page}`,
   clustersByGroup: (groupId: string) => `clusters:group:${groupId}`,
   cluster: (clusterId: string) => `cluster:${clusterId}`,
+  unassignedFaces: (groupId: string) => `faces:group:${groupId}:unassigned`,
   jobStatus: (jobId: string) => `job:${jobId}:status`,
 };
 
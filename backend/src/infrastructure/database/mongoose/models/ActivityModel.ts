@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { ActivityType } from '../../../../shared/constants/index.js';
+import { ActivityTypeType } from '../../../../shared/types/index.js';
+
+export interface IActivityDocument extends Document {
+  groupId: Types.ObjectId;
+  userId: string; // Clerk user ID
+  type: ActivityTypeType;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const activitySchema = new Schema<IActivityDocument>(
+  {
+    groupId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Group',
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(ActivityType),
+      required: true,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    // Activities are never edited
+    timestamps: { createdAt: true, updatedAt: false },
+    minimize: false,
+  }
+);
+
+// Newest first per group; _id breaks ties between activities created in the same millisecond
+activitySchema.index({ groupId: 1, createdAt: -1, _id: -1 });
+
+export const ActivityModel = mongoose.model<IActivityDocument>('Activity', activitySchema);
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IAlbumDocument extends Document {
+  groupId: Types.ObjectId;
+  name: string;
+  description?: string;
+  createdBy: string;
+  mediaIds: Types.ObjectId[];
+  coverMediaId?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const albumSchema = new Schema<IAlbumDocument>(
+  {
+    groupId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Group',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    createdBy: {
+      type: String, // Clerk user ID
+      required: true,
+    },
+    mediaIds: {
+      type: [Schema.Types.ObjectId], // Display order
+      ref: 'Media',
+      default: [],
+    },
+    coverMediaId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Media',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for listing a group's albums and cleaning up deleted media
+albumSchema.index({ groupId: 1, createdAt: 1 });
+albumSchema.index({ mediaIds: 1 });
+
+export const AlbumModel = mongoose.model<IAlbumDocument>('Album', albumSchema);
@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { DEFAULTS } from '../../../../shared/constants/index.js';
+
+export interface ICommentDocument extends Document {
+  mediaId: Types.ObjectId;
+  groupId: Types.ObjectId;
+  authorId: string; // Clerk user ID
+  body: string;
+  parentId?: Types.ObjectId;
+  editedAt?: Date;
+  deletedAt?: Date;
+  deletedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const commentSchema = new Schema<ICommentDocument>(
+  {
+    mediaId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Media',
+      required: true,
+    },
+    groupId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Group',
+      required: true,
+      index: true,
+    },
+    authorId: {
+      type: String,
+      required: true,
+    },
+    body: {
+      type: String,
+      trim: true,
+      maxlength: DEFAULTS.MAX_COMMENT_LENGTH,
+      default: '',
+    },
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Comment',
+    },
+    editedAt: {
+      type: Date,
+    },
+    deletedAt: {
+      type: Date,
+    },
+    deletedBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Threads on a media item, and counts for gallery tiles
+commentSchema.index({ mediaId: 1, createdAt: 1 });
+commentSchema.index({ parentId: 1 });
+
+export const CommentModel = mongoose.model<ICommentDocument>('Comment', commentSchema);
@@ -0,0 +1,83 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { MemberRoleType } from '../../../../shared/types/index.js';
+
+export interface IEmailInvitationDocument extends Document {
+  groupId: Types.ObjectId;
+  email: string;
+  token: string;
+  invitedBy: string;
+  role: MemberRoleType;
+  status: 'pending' | 'accepted' | 'cancelled';
+  expiresAt: Date;
+  sendCount: number;
+  lastSentAt: Date;
+  acceptedBy?: string;
+  acceptedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const emailInvitationSchema = new Schema<IEmailInvitationDocument>(
+  {
+    groupId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Group',
+      required: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    token: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    invitedBy: {
+      type: String, // Clerk user ID
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: ['ADMIN', 'MEMBER', 'VIEWER'],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'accepted', 'cancelled'],
+      default: 'pending',
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    sendCount: {
+      type: Number,
+      default: 1,
+    },
+    lastSentAt: {
+      type: Date,
+      default: Date.now,
+    },
+    acceptedBy: {
+      type: String, // Clerk user ID
+    },
+    acceptedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Pending list per group, and matching new sign-ups by address
+emailInvitationSchema.index({ groupId: 1, status: 1, createdAt: -1 });
+emailInvitationSchema.index({ email: 1, status: 1 });
+
+export const EmailInvitationModel = mongoose.model<IEmailInvitationDocument>(
+  'EmailInvitation',
+  emailInvitationSchema
+);
@@ -3,6 +3,8 @@ import mongoose, { Schema, Document, Types } from 'mongoose';
 export interface IFaceClusterDocument extends Document {
   groupId: Types.ObjectId;
   clusterName?: string;
+  linkedUserId?: string;
+  coverFaceDetectionId?: Types.ObjectId;
   appearanceCount: number;
   confidence: number;
   createdAt: Date;
@@ -21,6 +23,13 @@ const faceClusterSchema = new Schema<IFaceClusterDocument>(
       type: String,
       trim: true,
     },
+    linkedUserId: {
+      type: String, // Clerk user ID of the group member claimed for this cluster
+    },
+    coverFaceDetectionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'FaceDetection',
+    },
     appearanceCount: {
       type: Number,
       required: true,
@@ -39,6 +48,9 @@ const faceClusterSchema = new Schema<IFaceClusterDocument>(
 // Index for sorting by appearance count
 faceClusterSchema.index({ groupId: 1, appearanceCount: -1 });
 
+// Index for finding a member's own cluster
+faceClusterSchema.index({ groupId: 1, linkedUserId: 1 });
+
 export const FaceClusterModel = mongoose.model<IFaceClusterDocument>(
   'FaceCluster',
   faceClusterSchema
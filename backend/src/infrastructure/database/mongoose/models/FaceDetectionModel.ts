@@ -27,6 +27,7 @@ export interface IFaceDetectionDocument extends Document {
     height: number;
   };
   thumbnailS3Key?: string;
+  timestampSeconds?: number;
   processed: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -77,6 +78,9 @@ const faceDetectionSchema = new Schema<IFaceDetectionDocument>(
     thumbnailS3Key: {
       type: String,
     },
+    timestampSeconds: {
+      type: Number, // Only set for faces sampled from video keyframes
+    },
     processed: {
       type: Boolean,
       default: false,
@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IFavoriteDocument extends Document {
+  mediaId: Types.ObjectId;
+  groupId: Types.ObjectId;
+  userId: string; // Clerk user ID
+  createdAt: Date;
+}
+
+const favoriteSchema = new Schema<IFavoriteDocument>(
+  {
+    mediaId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Media',
+      required: true,
+    },
+    groupId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Group',
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// One favourite per member per media item, a member's list, and counts per group
+favoriteSchema.index({ mediaId: 1, userId: 1 }, { unique: true });
+favoriteSchema.index({ groupId: 1, userId: 1, createdAt: -1 });
+
+export const FavoriteModel = mongoose.model<IFavoriteDocument>('Favorite', favoriteSchema);
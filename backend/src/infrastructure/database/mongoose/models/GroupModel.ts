@@ -22,6 +22,12 @@ export interface IGroupDocument extends Document {
   storageUsed: number;
   autoDeleteDays: number;
   rekognitionCollectionId?: string;
+  clusteringSettings: {
+    similarityThreshold: number;
+    minClusterSize: number;
+    qualityThreshold: number;
+  };
+  requireApproval: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -89,6 +95,15 @@ const groupSchema = new Schema<IGroupDocument>(
     rekognitionCollectionId: {
       type: String,
     },
+    clusteringSettings: {
+      similarityThreshold: { type: Number, default: 85 },
+      minClusterSize: { type: Number, default: 2 },
+      qualityThreshold: { type: Number, default: 50 },
+    },
+    requireApproval: {
+      type: Boolean,
+      default: false,
+    },
   },
   {
     timestamps: true,
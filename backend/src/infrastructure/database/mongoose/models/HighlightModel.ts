@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IHighlightDocument extends Document {
+  mediaId: Types.ObjectId;
+  groupId: Types.ObjectId;
+  addedBy: string; // Clerk user ID
+  createdAt: Date;
+}
+
+const highlightSchema = new Schema<IHighlightDocument>(
+  {
+    mediaId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Media',
+      required: true,
+      unique: true,
+    },
+    groupId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Group',
+      required: true,
+    },
+    addedBy: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+highlightSchema.index({ groupId: 1, createdAt: -1 });
+
+export const HighlightModel = mongoose.model<IHighlightDocument>('Highlight', highlightSchema);
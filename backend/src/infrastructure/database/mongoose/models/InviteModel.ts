@@ -0,0 +1,89 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { MemberRoleType } from '../../../../shared/types/index.js';
+
+export interface IInviteUse {
+  userId: string;
+  usedAt: Date;
+}
+
+export interface IInviteDocument extends Document {
+  groupId: Types.ObjectId;
+  code: string;
+  label?: string;
+  createdBy: string;
+  role: MemberRoleType;
+  expiresAt: Date | null;
+  maxUses: number | null;
+  useCount: number;
+  uses: IInviteUse[];
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const inviteUseSchema = new Schema<IInviteUse>(
+  {
+    userId: { type: String, required: true }, // Clerk user ID
+    usedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const inviteSchema = new Schema<IInviteDocument>(
+  {
+    groupId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Group',
+      required: true,
+    },
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      uppercase: true,
+    },
+    label: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    createdBy: {
+      type: String, // Clerk user ID
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: ['ADMIN', 'MEMBER', 'VIEWER'],
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+    maxUses: {
+      type: Number,
+      default: null, // Unlimited
+    },
+    // Kept alongside uses so the usage limit can be checked in a single update
+    useCount: {
+      type: Number,
+      default: 0,
+    },
+    uses: {
+      type: [inviteUseSchema],
+      default: [],
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Listing a group's invites
+inviteSchema.index({ groupId: 1, createdAt: -1 });
+
+export const InviteModel = mongoose.model<IInviteDocument>('Invite', inviteSchema);
@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { MemberRoleType } from '../../../../shared/types/index.js';
+
+export interface IJoinRequestDocument extends Document {
+  groupId: Types.ObjectId;
+  userId: string;
+  role: MemberRoleType;
+  status: 'pending' | 'approved' | 'denied';
+  inviteId?: Types.ObjectId;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const joinRequestSchema = new Schema<IJoinRequestDocument>(
+  {
+    groupId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Group',
+      required: true,
+    },
+    userId: {
+      type: String, // Clerk user ID
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: ['ADMIN', 'MEMBER', 'VIEWER'],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'denied'],
+      default: 'pending',
+    },
+    inviteId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invite',
+    },
+    reviewedBy: {
+      type: String, // Clerk user ID
+    },
+    reviewedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Admin queue and a user's open request per group
+joinRequestSchema.index({ groupId: 1, status: 1, createdAt: 1 });
+joinRequestSchema.index({ groupId: 1, userId: 1, status: 1 });
+
+export const JoinRequestModel = mongoose.model<IJoinRequestDocument>('JoinRequest', joinRequestSchema);
@@ -0,0 +1,26 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ILocalFaceCollectionDocument extends Document {
+  collectionId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const localFaceCollectionSchema = new Schema<ILocalFaceCollectionDocument>(
+  {
+    collectionId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const LocalFaceCollectionModel = mongoose.model<ILocalFaceCollectionDocument>(
+  'LocalFaceCollection',
+  localFaceCollectionSchema
+);
@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ILocalFaceDocument extends Document {
+  collectionId: string;
+  faceId: string;
+  externalImageId?: string;
+  boundingBox: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+  confidence: number;
+  descriptor: number[];
+  createdAt: Date;
+}
+
+const localFaceSchema = new Schema<ILocalFaceDocument>(
+  {
+    collectionId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    faceId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    externalImageId: {
+      type: String,
+    },
+    boundingBox: {
+      x: { type: Number, required: true },
+      y: { type: Number, required: true },
+      width: { type: Number, required: true },
+      height: { type: Number, required: true },
+    },
+    confidence: {
+      type: Number,
+      required: true,
+    },
+    descriptor: {
+      type: [Number],
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Compound index for collection-scoped face lookups
+localFaceSchema.index({ collectionId: 1, faceId: 1 });
+
+export const LocalFaceModel = mongoose.model<ILocalFaceDocument>('LocalFace', localFaceSchema);
@@ -1,4 +1,6 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
+import { MediaProcessingStatus, MediaType } from '../../../../shared/constants/index.js';
+import { MediaProcessingStatusType, MediaTypeValue, MediaDerivatives } from '../../../../shared/types/index.js';
 
 export interface IMediaDocument extends Document {
   groupId: Types.ObjectId;
@@ -13,10 +15,43 @@ export interface IMediaDocument extends Document {
   width?: number;
   height?: number;
   processed: boolean;
+  processingStatus: MediaProcessingStatusType;
+  processingAttempts: number;
+  lastError?: string;
+  mediaType: MediaTypeValue;
+  durationSeconds?: number;
+  posterS3Key?: string;
+  originalS3Key?: string;
+  originalMimeType?: string;
+  takenAt?: Date;
+  capturedAt: Date; // takenAt, or the upload time when unknown; used for sorting
+  cameraMake?: string;
+  cameraModel?: string;
+  orientation?: number;
+  location?: {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+  };
+  derivatives?: MediaDerivatives;
+  contentHash?: string;
+  perceptualHash?: string;
+  caption?: string;
+  tags: string[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+const derivativeSchema = new Schema(
+  {
+    webpS3Key: { type: String, required: true },
+    avifS3Key: { type: String, required: true },
+    width: { type: Number, required: true },
+    height: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
 const mediaSchema = new Schema<IMediaDocument>(
   {
     groupId: {
@@ -70,6 +105,81 @@ const mediaSchema = new Schema<IMediaDocument>(
       default: false,
       index: true,
     },
+    processingStatus: {
+      type: String,
+      enum: Object.values(MediaProcessingStatus),
+      default: MediaProcessingStatus.PENDING,
+    },
+    processingAttempts: {
+      type: Number,
+      default: 0,
+    },
+    lastError: {
+      type: String,
+    },
+    mediaType: {
+      type: String,
+      enum: Object.values(MediaType),
+      default: MediaType.IMAGE,
+    },
+    durationSeconds: {
+      type: Number,
+    },
+    posterS3Key: {
+      type: String,
+    },
+    originalS3Key: {
+      type: String,
+    },
+    originalMimeType: {
+      type: String,
+    },
+    takenAt: {
+      type: Date,
+    },
+    capturedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    cameraMake: {
+      type: String,
+    },
+    cameraModel: {
+      type: String,
+    },
+    orientation: {
+      type: Number,
+    },
+    location: {
+      type: {
+        latitude: { type: Number, required: true },
+        longitude: { type: Number, required: true },
+        altitude: { type: Number },
+      },
+      _id: false,
+    },
+    derivatives: {
+      type: {
+        thumb: derivativeSchema,
+        medium: derivativeSchema,
+        large: derivativeSchema,
+      },
+      _id: false,
+    },
+    contentHash: {
+      type: String,
+    },
+    perceptualHash: {
+      type: String,
+    },
+    caption: {
+      type: String,
+      trim: true,
+    },
+    tags: {
+      type: [String],
+      default: [],
+    },
   },
   {
     timestamps: true,
@@ -78,6 +188,17 @@ const mediaSchema = new Schema<IMediaDocument>(
 
 // Compound index for queries
 mediaSchema.index({ groupId: 1, createdAt: -1 });
+mediaSchema.index({ groupId: 1, capturedAt: -1, createdAt: -1 });
 mediaSchema.index({ processed: 1, createdAt: 1 });
+mediaSchema.index({ groupId: 1, processingStatus: 1 });
+mediaSchema.index({ groupId: 1, contentHash: 1 });
+// Tag filters and the group tag vocabulary
+mediaSchema.index({ groupId: 1, tags: 1 });
+mediaSchema.index({ groupId: 1, uploaderId: 1, capturedAt: -1 });
+// Search is always scoped to one group, so the text index is prefixed with groupId
+mediaSchema.index(
+  { groupId: 1, caption: 'text', tags: 'text', originalName: 'text' },
+  { name: 'media_text_search', weights: { tags: 5, caption: 3, originalName: 1 } }
+);
 
 export const MediaModel = mongoose.model<IMediaDocument>('Media', mediaSchema);
@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IPersonDocument extends Document {
+  ownerId: string;
+  name: string;
+  clusters: Array<{
+    clusterId: Types.ObjectId;
+    groupId: Types.ObjectId;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const personClusterSchema = new Schema({
+  clusterId: {
+    type: Schema.Types.ObjectId,
+    ref: 'FaceCluster',
+    required: true,
+  },
+  groupId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Group',
+    required: true,
+  },
+}, { _id: false });
+
+const personSchema = new Schema<IPersonDocument>(
+  {
+    ownerId: {
+      type: String, // Clerk user ID
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 50,
+    },
+    clusters: {
+      type: [personClusterSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for cleaning up links when clusters are merged or a member leaves a group
+personSchema.index({ 'clusters.clusterId': 1 });
+personSchema.index({ ownerId: 1, 'clusters.groupId': 1 });
+
+export const PersonModel = mongoose.model<IPersonDocument>('Person', personSchema);
@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { REACTION_EMOJIS } from '../../../../shared/constants/index.js';
+
+export interface IReactionDocument extends Document {
+  mediaId: Types.ObjectId;
+  groupId: Types.ObjectId;
+  userId: string; // Clerk user ID
+  emoji: string;
+  createdAt: Date;
+}
+
+const reactionSchema = new Schema<IReactionDocument>(
+  {
+    mediaId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Media',
+      required: true,
+    },
+    groupId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Group',
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    emoji: {
+      type: String,
+      enum: REACTION_EMOJIS,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// One of each emoji per member per media item
+reactionSchema.index({ mediaId: 1, userId: 1, emoji: 1 }, { unique: true });
+
+export const ReactionModel = mongoose.model<IReactionDocument>('Reaction', reactionSchema);
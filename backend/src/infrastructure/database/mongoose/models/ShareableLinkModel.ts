@@ -15,7 +15,7 @@ const shareableLinkSchema = new Schema({
   resourceType: {
     type: String,
     required: true,
-    enum: ['group', 'media', 'cluster'],
+    enum: ['group', 'media', 'cluster', 'album'],
     index: true,
   },
   resourceId: {
@@ -0,0 +1,96 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { UploadSessionStatus } from '../../../../shared/constants/index.js';
+import { UploadSessionStatusType } from '../../../../shared/types/index.js';
+
+export interface IUploadSessionDocument extends Document {
+  groupId: Types.ObjectId;
+  userId: string;
+  originalName: string;
+  mimeType: string;
+  fileSize: number;
+  s3Key: string;
+  uploadId: string;
+  partSize: number;
+  completedParts: Array<{
+    partNumber: number;
+    etag: string;
+    size?: number;
+  }>;
+  status: UploadSessionStatusType;
+  expiresAt: Date;
+  mediaId?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const uploadedPartSchema = new Schema(
+  {
+    partNumber: { type: Number, required: true },
+    etag: { type: String, required: true },
+    size: { type: Number },
+  },
+  { _id: false }
+);
+
+const uploadSessionSchema = new Schema<IUploadSessionDocument>(
+  {
+    groupId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Group',
+      required: true,
+    },
+    userId: {
+      type: String, // Clerk user ID
+      required: true,
+    },
+    originalName: {
+      type: String,
+      required: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    fileSize: {
+      type: Number,
+      required: true,
+    },
+    s3Key: {
+      type: String,
+      required: true,
+    },
+    uploadId: {
+      type: String,
+      required: true,
+    },
+    partSize: {
+      type: Number,
+      required: true,
+    },
+    completedParts: {
+      type: [uploadedPartSchema],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: Object.values(UploadSessionStatus),
+      default: UploadSessionStatus.ACTIVE,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    mediaId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Media',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+uploadSessionSchema.index({ groupId: 1, userId: 1, status: 1 });
+uploadSessionSchema.index({ status: 1, expiresAt: 1 });
+
+export const UploadSessionModel = mongoose.model<IUploadSessionDocument>('UploadSession', uploadSessionSchema);
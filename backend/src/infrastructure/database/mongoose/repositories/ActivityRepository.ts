@@ -0,0 +1,52 @@
+import { Types } from 'mongoose';
+import {
+  IActivityRepository,
+  ActivityCursor,
+} from '../../../../core/interfaces/repositories/IActivityRepository.js';
+import { Activity } from '../../../../core/entities/Activity.js';
+import { ActivityModel, IActivityDocument } from '../models/ActivityModel.js';
+
+export class MongoActivityRepository implements IActivityRepository {
+  async create(activity: Activity): Promise<Activity> {
+    const doc = await ActivityModel.create({
+      groupId: activity.groupId,
+      userId: activity.userId,
+      type: activity.type,
+      metadata: activity.metadata,
+    });
+
+    return this.toEntity(doc);
+  }
+
+  async findByGroupId(groupId: string, limit: number, before?: ActivityCursor): Promise<Activity[]> {
+    const filter = before
+      ? {
+          groupId,
+          // Same sort as the index, so ties on createdAt are broken by _id
+          $or: [
+            { createdAt: { $lt: before.createdAt } },
+            { createdAt: before.createdAt, _id: { $lt: new Types.ObjectId(before.id) } },
+          ],
+        }
+      : { groupId };
+
+    const docs = await ActivityModel.find(filter).sort({ createdAt: -1, _id: -1 }).limit(limit);
+    return docs.map(doc => this.toEntity(doc));
+  }
+
+  async deleteByGroupId(groupId: string): Promise<number> {
+    const result = await ActivityModel.deleteMany({ groupId });
+    return result.deletedCount || 0;
+  }
+
+  private toEntity(doc: IActivityDocument): Activity {
+    return new Activity(
+      (doc._id as any).toString(),
+      (doc.groupId as any).toString(),
+      doc.userId,
+      doc.type,
+      doc.metadata || {},
+      doc.createdAt
+    );
+  }
+}
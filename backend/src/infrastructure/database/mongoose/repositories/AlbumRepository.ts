@@ -0,0 +1,103 @@
+import { IAlbumRepository } from '../../../../core/interfaces/repositories/IAlbumRepository.js';
+import { Album } from '../../../../core/entities/Album.js';
+import { AlbumModel, IAlbumDocument } from '../models/AlbumModel.js';
+
+export class MongoAlbumRepository implements IAlbumRepository {
+  async create(album: Album): Promise<Album> {
+    const doc = await AlbumModel.create({
+      groupId: album.groupId,
+      name: album.name,
+      description: album.description,
+      createdBy: album.createdBy,
+      mediaIds: album.mediaIds,
+    });
+
+    return this.toEntity(doc);
+  }
+
+  async findById(id: string): Promise<Album | null> {
+    const doc = await AlbumModel.findById(id);
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findByGroupId(groupId: string): Promise<Album[]> {
+    const docs = await AlbumModel.find({ groupId }).sort({ createdAt: 1 });
+    return docs.map(doc => this.toEntity(doc));
+  }
+
+  async update(id: string, data: Partial<Pick<Album, 'name' | 'description'>>): Promise<Album | null> {
+    const doc = await AlbumModel.findByIdAndUpdate(id, data, { new: true });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await AlbumModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  async deleteByGroupId(groupId: string): Promise<number> {
+    const result = await AlbumModel.deleteMany({ groupId });
+    return result.deletedCount || 0;
+  }
+
+  async addMedia(id: string, mediaIds: string[]): Promise<Album | null> {
+    // $addToSet with $each keeps the given order for new items
+    const doc = await AlbumModel.findByIdAndUpdate(
+      id,
+      { $addToSet: { mediaIds: { $each: mediaIds } } },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async removeMedia(id: string, mediaIds: string[]): Promise<Album | null> {
+    await AlbumModel.updateOne(
+      { _id: id, coverMediaId: { $in: mediaIds } },
+      { $unset: { coverMediaId: 1 } }
+    );
+
+    const doc = await AlbumModel.findByIdAndUpdate(
+      id,
+      { $pull: { mediaIds: { $in: mediaIds } } },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async removeMediaFromAll(mediaIds: string[]): Promise<void> {
+    await AlbumModel.updateMany(
+      { coverMediaId: { $in: mediaIds } },
+      { $unset: { coverMediaId: 1 } }
+    );
+
+    await AlbumModel.updateMany(
+      { mediaIds: { $in: mediaIds } },
+      { $pull: { mediaIds: { $in: mediaIds } } }
+    );
+  }
+
+  async setMediaOrder(id: string, mediaIds: string[]): Promise<Album | null> {
+    const doc = await AlbumModel.findByIdAndUpdate(id, { mediaIds }, { new: true });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async setCover(id: string, mediaId: string | null): Promise<Album | null> {
+    const update = mediaId ? { coverMediaId: mediaId } : { $unset: { coverMediaId: 1 } };
+    const doc = await AlbumModel.findByIdAndUpdate(id, update, { new: true });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  private toEntity(doc: IAlbumDocument): Album {
+    return new Album(
+      (doc._id as any).toString(),
+      doc.groupId.toString(),
+      doc.name,
+      doc.createdBy,
+      doc.mediaIds.map(id => id.toString()),
+      doc.description,
+      doc.coverMediaId?.toString(),
+      doc.createdAt,
+      doc.updatedAt
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { Types } from 'mongoose';
+import {
+  ICommentRepository,
+  IReactionRepository,
+  ReactionSummary,
+} from '../../../../core/interfaces/repositories/ICommentRepository.js';
+import { Comment } from '../../../../core/entities/Comment.js';
+import { Reaction } from '../../../../core/entities/Reaction.js';
+import { CommentModel, ICommentDocument } from '../models/CommentModel.js';
+import { ReactionModel } from '../models/ReactionModel.js';
+
+export class MongoCommentRepository implements ICommentRepository {
+  async create(comment: Comment): Promise<Comment> {
+    const doc = await CommentModel.create({
+      mediaId: comment.mediaId,
+      groupId: comment.groupId,
+      authorId: comment.authorId,
+      body: comment.body,
+      parentId: comment.parentId,
+    });
+
+    return this.toEntity(doc);
+  }
+
+  async findById(id: string): Promise<Comment | null> {
+    const doc = await CommentModel.findById(id);
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findByMediaId(mediaId: string): Promise<Comment[]> {
+    const docs = await CommentModel.find({ mediaId }).sort({ createdAt: 1 });
+    return docs.map(doc => this.toEntity(doc));
+  }
+
+  async updateBody(id: string, body: string): Promise<Comment | null> {
+    const doc = await CommentModel.findByIdAndUpdate(
+      id,
+      { $set: { body, editedAt: new Date() } },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async softDelete(id: string, deletedBy: string): Promise<Comment | null> {
+    const doc = await CommentModel.findByIdAndUpdate(
+      id,
+      { $set: { body: '', deletedAt: new Date(), deletedBy } },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await CommentModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  async countReplies(id: string): Promise<number> {
+    return CommentModel.countDocuments({ parentId: id });
+  }
+
+  async deleteByMediaId(mediaId: string): Promise<number> {
+    const result = await CommentModel.deleteMany({ mediaId });
+    return result.deletedCount || 0;
+  }
+
+  async deleteByGroupId(groupId: string): Promise<number> {
+    const result = await CommentModel.deleteMany({ groupId });
+    return result.deletedCount || 0;
+  }
+
+  async countByMediaIds(mediaIds: string[]): Promise<Record<string, number>> {
+    // Aggregation doesn't cast, so IDs are matched as ObjectIds
+    const result = await CommentModel.aggregate([
+      {
+        $match: {
+          mediaId: { $in: mediaIds.map(id => new Types.ObjectId(id)) },
+          deletedAt: { $exists: false },
+        },
+      },
+      { $group: { _id: '$mediaId', count: { $sum: 1 } } },
+    ]);
+
+    return Object.fromEntries(result.map(row => [row._id.toString(), row.count as number]));
+  }
+
+  private toEntity(doc: ICommentDocument): Comment {
+    return new Comment(
+      (doc._id as any).toString(),
+      (doc.mediaId as any).toString(),
+      (doc.groupId as any).toString(),
+      doc.authorId,
+      doc.body,
+      doc.parentId ? (doc.parentId as any).toString() : undefined,
+      doc.editedAt,
+      doc.deletedAt,
+      doc.deletedBy,
+      doc.createdAt,
+      doc.updatedAt
+    );
+  }
+}
+
+export class MongoReactionRepository implements IReactionRepository {
+  async add(reaction: Reaction): Promise<boolean> {
+    // Upsert so a double click can't hit the unique index
+    const result = await ReactionModel.updateOne(
+      { mediaId: reaction.mediaId, userId: reaction.userId, emoji: reaction.emoji },
+      { $setOnInsert: { groupId: reaction.groupId } },
+      { upsert: true }
+    );
+    return result.upsertedCount > 0;
+  }
+
+  async remove(mediaId: string, userId: string, emoji: string): Promise<boolean> {
+    const result = await ReactionModel.deleteOne({ mediaId, userId, emoji });
+    return result.deletedCount > 0;
+  }
+
+  async deleteByMediaId(mediaId: string): Promise<number> {
+    const result = await ReactionModel.deleteMany({ mediaId });
+    return result.deletedCount || 0;
+  }
+
+  async deleteByGroupId(groupId: string): Promise<number> {
+    const result = await ReactionModel.deleteMany({ groupId });
+    return result.deletedCount || 0;
+  }
+
+  async summarizeByMediaIds(mediaIds: string[], userId: string): Promise<Record<string, ReactionSummary[]>> {
+    const result = await ReactionModel.aggregate([
+      { $match: { mediaId: { $in: mediaIds.map(id => new Types.ObjectId(id)) } } },
+      {
+        $group: {
+          _id: { mediaId: '$mediaId', emoji: '$emoji' },
+          count: { $sum: 1 },
+          reacted: { $max: { $eq: ['$userId', userId] } },
+        },
+      },
+      { $sort: { count: -1 } },
+    ]);
+
+    const summaries: Record<string, ReactionSummary[]> = {};
+    for (const row of result) {
+      const mediaId = row._id.mediaId.toString();
+      (summaries[mediaId] ??= []).push({ emoji: row._id.emoji, count: row.count, reacted: row.reacted });
+    }
+    return summaries;
+  }
+}
@@ -0,0 +1,101 @@
+import { IEmailInvitationRepository } from '../../../../core/interfaces/repositories/IEmailInvitationRepository.js';
+import { EmailInvitation } from '../../../../core/entities/EmailInvitation.js';
+import { EmailInvitationModel, IEmailInvitationDocument } from '../models/EmailInvitationModel.js';
+
+export class MongoEmailInvitationRepository implements IEmailInvitationRepository {
+  async create(invitation: EmailInvitation): Promise<EmailInvitation> {
+    const doc = await EmailInvitationModel.create({
+      groupId: invitation.groupId,
+      email: invitation.email,
+      token: invitation.token,
+      invitedBy: invitation.invitedBy,
+      role: invitation.role,
+      status: invitation.status,
+      expiresAt: invitation.expiresAt,
+      sendCount: invitation.sendCount,
+      lastSentAt: invitation.lastSentAt,
+    });
+
+    return this.toEntity(doc);
+  }
+
+  async findById(id: string): Promise<EmailInvitation | null> {
+    const doc = await EmailInvitationModel.findById(id);
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findByToken(token: string): Promise<EmailInvitation | null> {
+    const doc = await EmailInvitationModel.findOne({ token });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findPendingByGroupId(groupId: string): Promise<EmailInvitation[]> {
+    const docs = await EmailInvitationModel.find({ groupId, status: 'pending' }).sort({ createdAt: -1 });
+    return docs.map(doc => this.toEntity(doc));
+  }
+
+  async findOpenByEmails(emails: string[]): Promise<EmailInvitation[]> {
+    const docs = await EmailInvitationModel.find({
+      email: { $in: emails.map(email => email.toLowerCase()) },
+      status: 'pending',
+      expiresAt: { $gt: new Date() },
+    }).sort({ createdAt: 1 });
+    return docs.map(doc => this.toEntity(doc));
+  }
+
+  async renew(id: string, token: string, expiresAt: Date): Promise<EmailInvitation | null> {
+    const doc = await EmailInvitationModel.findOneAndUpdate(
+      { _id: id, status: 'pending' },
+      {
+        token,
+        expiresAt,
+        lastSentAt: new Date(),
+        $inc: { sendCount: 1 },
+      },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async markAccepted(id: string, userId: string): Promise<EmailInvitation | null> {
+    const doc = await EmailInvitationModel.findOneAndUpdate(
+      { _id: id, status: 'pending', expiresAt: { $gt: new Date() } },
+      { status: 'accepted', acceptedBy: userId, acceptedAt: new Date() },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async cancel(id: string): Promise<EmailInvitation | null> {
+    const doc = await EmailInvitationModel.findOneAndUpdate(
+      { _id: id, status: 'pending' },
+      { status: 'cancelled' },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async deleteByGroupId(groupId: string): Promise<number> {
+    const result = await EmailInvitationModel.deleteMany({ groupId });
+    return result.deletedCount || 0;
+  }
+
+  private toEntity(doc: IEmailInvitationDocument): EmailInvitation {
+    return new EmailInvitation(
+      (doc._id as any).toString(),
+      doc.groupId.toString(),
+      doc.email,
+      doc.token,
+      doc.invitedBy,
+      doc.role,
+      doc.status,
+      doc.expiresAt,
+      doc.sendCount,
+      doc.lastSentAt,
+      doc.acceptedBy,
+      doc.acceptedAt,
+      doc.createdAt,
+      doc.updatedAt
+    );
+  }
+}
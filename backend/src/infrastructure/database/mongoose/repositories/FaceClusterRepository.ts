@@ -9,6 +9,8 @@ export class MongoFaceClusterRepository implements IFaceClusterRepository {
     const doc = await FaceClusterModel.create({
       groupId: cluster.groupId,
       clusterName: cluster.clusterName,
+      linkedUserId: cluster.linkedUserId,
+      coverFaceDetectionId: cluster.coverFaceDetectionId,
       appearanceCount: cluster.appearanceCount,
       confidence: cluster.confidence,
     });
@@ -21,6 +23,8 @@ export class MongoFaceClusterRepository implements IFaceClusterRepository {
       clusters.map(c => ({
         groupId: c.groupId,
         clusterName: c.clusterName,
+        linkedUserId: c.linkedUserId,
+        coverFaceDetectionId: c.coverFaceDetectionId,
         appearanceCount: c.appearanceCount,
         confidence: c.confidence,
       }))
@@ -85,6 +89,29 @@ export class MongoFaceClusterRepository implements IFaceClusterRepository {
     return doc ? this.toEntity(doc) : null;
   }
 
+  async findByLinkedUser(groupId: string, userId: string): Promise<FaceCluster | null> {
+    const doc = await FaceClusterModel.findOne({ groupId, linkedUserId: userId });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async setLinkedUser(id: string, userId: string | null): Promise<FaceCluster | null> {
+    const doc = await FaceClusterModel.findByIdAndUpdate(
+      id,
+      userId ? { linkedUserId: userId } : { $unset: { linkedUserId: 1 } },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async setCoverFace(id: string, faceDetectionId: string | null): Promise<FaceCluster | null> {
+    const doc = await FaceClusterModel.findByIdAndUpdate(
+      id,
+      faceDetectionId ? { coverFaceDetectionId: faceDetectionId } : { $unset: { coverFaceDetectionId: 1 } },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
   private toEntity(doc: IFaceClusterDocument): FaceCluster {
     return new FaceCluster(
       (doc._id as any).toString(),
@@ -92,6 +119,8 @@ export class MongoFaceClusterRepository implements IFaceClusterRepository {
       doc.appearanceCount,
       doc.confidence,
       doc.clusterName,
+      doc.linkedUserId,
+      doc.coverFaceDetectionId?.toString(),
       doc.createdAt,
       doc.updatedAt
     );
@@ -131,11 +160,21 @@ export class MongoFaceClusterMemberRepository implements IFaceClusterMemberRepos
     return docs.map(doc => this.toEntity(doc));
   }
 
+  async findByClusterIds(clusterIds: string[]): Promise<FaceClusterMember[]> {
+    const docs = await FaceClusterMemberModel.find({ clusterId: { $in: clusterIds } });
+    return docs.map(doc => this.toEntity(doc));
+  }
+
   async findByFaceDetectionId(faceDetectionId: string): Promise<FaceClusterMember | null> {
     const doc = await FaceClusterMemberModel.findOne({ faceDetectionId });
     return doc ? this.toEntity(doc) : null;
   }
 
+  async findByFaceDetectionIds(faceDetectionIds: string[]): Promise<FaceClusterMember[]> {
+    const docs = await FaceClusterMemberModel.find({ faceDetectionId: { $in: faceDetectionIds } });
+    return docs.map(doc => this.toEntity(doc));
+  }
+
   async delete(id: string): Promise<boolean> {
     const result = await FaceClusterMemberModel.findByIdAndDelete(id);
     return !!result;
@@ -155,6 +194,14 @@ export class MongoFaceClusterMemberRepository implements IFaceClusterMemberRepos
     return FaceClusterMemberModel.countDocuments({ clusterId });
   }
 
+  async moveToCluster(faceDetectionIds: string[], clusterId: string): Promise<number> {
+    const result = await FaceClusterMemberModel.updateMany(
+      { faceDetectionId: { $in: faceDetectionIds } },
+      { clusterId }
+    );
+    return result.modifiedCount || 0;
+  }
+
   private toEntity(doc: IFaceClusterMemberDocument): FaceClusterMember {
     return new FaceClusterMember(
       (doc._id as any).toString(),
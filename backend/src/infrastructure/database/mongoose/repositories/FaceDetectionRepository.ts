@@ -14,6 +14,7 @@ export class MongoFaceDetectionRepository implements IFaceDetectionRepository {
       qualityScore: faceDetection.qualityScore,
       enhancedFace: faceDetection.enhancedFace,
       thumbnailS3Key: faceDetection.thumbnailS3Key,
+      timestampSeconds: faceDetection.timestampSeconds,
       processed: faceDetection.processed,
     });
 
@@ -32,6 +33,7 @@ export class MongoFaceDetectionRepository implements IFaceDetectionRepository {
         qualityScore: fd.qualityScore,
         enhancedFace: fd.enhancedFace,
         thumbnailS3Key: fd.thumbnailS3Key,
+        timestampSeconds: fd.timestampSeconds,
         processed: fd.processed,
       }))
     );
@@ -64,6 +66,11 @@ export class MongoFaceDetectionRepository implements IFaceDetectionRepository {
     return doc ? this.toEntity(doc) : null;
   }
 
+  async findByRekognitionFaceIds(faceIds: string[]): Promise<FaceDetection[]> {
+    const docs = await FaceDetectionModel.find({ rekognitionFaceId: { $in: faceIds } });
+    return docs.map(doc => this.toEntity(doc));
+  }
+
   async findUnprocessed(limit: number = 100): Promise<FaceDetection[]> {
     const docs = await FaceDetectionModel.find({ processed: false })
       .sort({ createdAt: 1 })
@@ -115,6 +122,7 @@ export class MongoFaceDetectionRepository implements IFaceDetectionRepository {
       doc.qualityScore,
       doc.enhancedFace,
       doc.thumbnailS3Key,
+      doc.timestampSeconds,
       doc.createdAt,
       doc.updatedAt
     );
@@ -0,0 +1,90 @@
+import { Types } from 'mongoose';
+import {
+  IFavoriteRepository,
+  IHighlightRepository,
+} from '../../../../core/interfaces/repositories/IFavoriteRepository.js';
+import { Favorite } from '../../../../core/entities/Favorite.js';
+import { Highlight } from '../../../../core/entities/Highlight.js';
+import { FavoriteModel } from '../models/FavoriteModel.js';
+import { HighlightModel } from '../models/HighlightModel.js';
+
+export class MongoFavoriteRepository implements IFavoriteRepository {
+  async add(favorite: Favorite): Promise<void> {
+    // Upsert so starring twice can't hit the unique index
+    await FavoriteModel.updateOne(
+      { mediaId: favorite.mediaId, userId: favorite.userId },
+      { $setOnInsert: { groupId: favorite.groupId } },
+      { upsert: true }
+    );
+  }
+
+  async remove(mediaId: string, userId: string): Promise<boolean> {
+    const result = await FavoriteModel.deleteOne({ mediaId, userId });
+    return result.deletedCount > 0;
+  }
+
+  async findMediaIdsByUser(groupId: string, userId: string): Promise<string[]> {
+    const docs = await FavoriteModel.find({ groupId, userId }).sort({ createdAt: -1 }).select('mediaId');
+    return docs.map(doc => doc.mediaId.toString());
+  }
+
+  async findFavoritedMediaIds(mediaIds: string[], userId: string): Promise<string[]> {
+    const docs = await FavoriteModel.find({ mediaId: { $in: mediaIds }, userId }).select('mediaId');
+    return docs.map(doc => doc.mediaId.toString());
+  }
+
+  async countByGroupId(groupId: string): Promise<Record<string, number>> {
+    // Aggregation doesn't cast, so groupId is matched as an ObjectId
+    const result = await FavoriteModel.aggregate([
+      { $match: { groupId: new Types.ObjectId(groupId) } },
+      { $group: { _id: '$mediaId', count: { $sum: 1 } } },
+    ]);
+
+    return Object.fromEntries(result.map(row => [row._id.toString(), row.count as number]));
+  }
+
+  async deleteByMediaId(mediaId: string): Promise<number> {
+    const result = await FavoriteModel.deleteMany({ mediaId });
+    return result.deletedCount || 0;
+  }
+
+  async deleteByGroupId(groupId: string): Promise<number> {
+    const result = await FavoriteModel.deleteMany({ groupId });
+    return result.deletedCount || 0;
+  }
+}
+
+export class MongoHighlightRepository implements IHighlightRepository {
+  async add(highlight: Highlight): Promise<void> {
+    await HighlightModel.updateOne(
+      { mediaId: highlight.mediaId },
+      { $setOnInsert: { groupId: highlight.groupId, addedBy: highlight.addedBy } },
+      { upsert: true }
+    );
+  }
+
+  async remove(mediaId: string): Promise<boolean> {
+    const result = await HighlightModel.deleteOne({ mediaId });
+    return result.deletedCount > 0;
+  }
+
+  async findMediaIdsByGroup(groupId: string): Promise<string[]> {
+    const docs = await HighlightModel.find({ groupId }).sort({ createdAt: -1 }).select('mediaId');
+    return docs.map(doc => doc.mediaId.toString());
+  }
+
+  async findHighlightedMediaIds(mediaIds: string[]): Promise<string[]> {
+    const docs = await HighlightModel.find({ mediaId: { $in: mediaIds } }).select('mediaId');
+    return docs.map(doc => doc.mediaId.toString());
+  }
+
+  async deleteByMediaId(mediaId: string): Promise<number> {
+    const result = await HighlightModel.deleteMany({ mediaId });
+    return result.deletedCount || 0;
+  }
+
+  async deleteByGroupId(groupId: string): Promise<number> {
+    const result = await HighlightModel.deleteMany({ groupId });
+    return result.deletedCount || 0;
+  }
+}
@@ -1,5 +1,5 @@
 import { IGroupRepository } from '../../../../core/interfaces/repositories/IGroupRepository.js';
-import { Group, GroupMember, MemberPermissions } from '../../../../core/entities/Group.js';
+import { Group, GroupMember, MemberPermissions, ClusteringSettings } from '../../../../core/entities/Group.js';
 import { GroupModel, IGroupDocument } from '../models/GroupModel.js';
 import { PaginationParams, PaginatedResponse } from '../../../../shared/types/index.js';
 
@@ -24,6 +24,12 @@ export class MongoGroupRepository implements IGroupRepository {
       storageUsed: group.storageUsed,
       autoDeleteDays: group.autoDeleteDays,
       rekognitionCollectionId: group.rekognitionCollectionId,
+      clusteringSettings: {
+        similarityThreshold: group.clusteringSettings.similarityThreshold,
+        minClusterSize: group.clusteringSettings.minClusterSize,
+        qualityThreshold: group.clusteringSettings.qualityThreshold,
+      },
+      requireApproval: group.requireApproval,
     });
 
     return this.toEntity(doc);
@@ -82,6 +88,8 @@ export class MongoGroupRepository implements IGroupRepository {
       {
         name: group.name,
         description: group.description,
+        inviteCode: group.inviteCode,
+        creatorId: group.creatorId,
         members: group.members.map(m => ({
           userId: m.userId,
           role: m.role,
@@ -96,6 +104,12 @@ export class MongoGroupRepository implements IGroupRepository {
         storageUsed: group.storageUsed,
         autoDeleteDays: group.autoDeleteDays,
         rekognitionCollectionId: group.rekognitionCollectionId,
+        clusteringSettings: {
+          similarityThreshold: group.clusteringSettings.similarityThreshold,
+          minClusterSize: group.clusteringSettings.minClusterSize,
+          qualityThreshold: group.clusteringSettings.qualityThreshold,
+        },
+        requireApproval: group.requireApproval,
       },
       { new: true }
     );
@@ -165,6 +179,13 @@ export class MongoGroupRepository implements IGroupRepository {
         )
     );
 
+    const defaults = ClusteringSettings.default();
+    const clusteringSettings = new ClusteringSettings(
+      doc.clusteringSettings?.similarityThreshold ?? defaults.similarityThreshold,
+      doc.clusteringSettings?.minClusterSize ?? defaults.minClusterSize,
+      doc.clusteringSettings?.qualityThreshold ?? defaults.qualityThreshold
+    );
+
     return new Group(
       (doc._id as any).toString(),
       doc.name,
@@ -176,6 +197,8 @@ export class MongoGroupRepository implements IGroupRepository {
       doc.autoDeleteDays,
       doc.description,
       doc.rekognitionCollectionId,
+      clusteringSettings,
+      doc.requireApproval ?? false,
       doc.createdAt,
       doc.updatedAt
     );
@@ -0,0 +1,88 @@
+import { IInviteRepository } from '../../../../core/interfaces/repositories/IInviteRepository.js';
+import { Invite } from '../../../../core/entities/Invite.js';
+import { InviteModel, IInviteDocument } from '../models/InviteModel.js';
+
+export class MongoInviteRepository implements IInviteRepository {
+  async create(invite: Invite): Promise<Invite> {
+    const doc = await InviteModel.create({
+      groupId: invite.groupId,
+      code: invite.code,
+      label: invite.label,
+      createdBy: invite.createdBy,
+      role: invite.role,
+      expiresAt: invite.expiresAt ?? null,
+      maxUses: invite.maxUses ?? null,
+    });
+
+    return this.toEntity(doc);
+  }
+
+  async findById(id: string): Promise<Invite | null> {
+    const doc = await InviteModel.findById(id);
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findByCode(code: string): Promise<Invite | null> {
+    const doc = await InviteModel.findOne({ code: code.toUpperCase() });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findByGroupId(groupId: string): Promise<Invite[]> {
+    const docs = await InviteModel.find({ groupId }).sort({ createdAt: -1 });
+    return docs.map(doc => this.toEntity(doc));
+  }
+
+  async recordUse(id: string, userId: string): Promise<Invite | null> {
+    const now = new Date();
+
+    // Conditions and increment in one update so concurrent joins can't go past maxUses
+    const doc = await InviteModel.findOneAndUpdate(
+      {
+        _id: id,
+        revokedAt: null,
+        $and: [
+          { $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+          { $or: [{ maxUses: null }, { $expr: { $lt: ['$useCount', '$maxUses'] } }] },
+        ],
+      },
+      {
+        $inc: { useCount: 1 },
+        $push: { uses: { userId, usedAt: now } },
+      },
+      { new: true }
+    );
+
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async revoke(id: string): Promise<Invite | null> {
+    const doc = await InviteModel.findOneAndUpdate(
+      { _id: id, revokedAt: null },
+      { revokedAt: new Date() },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : this.findById(id);
+  }
+
+  async deleteByGroupId(groupId: string): Promise<number> {
+    const result = await InviteModel.deleteMany({ groupId });
+    return result.deletedCount || 0;
+  }
+
+  private toEntity(doc: IInviteDocument): Invite {
+    return new Invite(
+      (doc._id as any).toString(),
+      doc.groupId.toString(),
+      doc.code,
+      doc.createdBy,
+      doc.role,
+      doc.uses.map(use => ({ userId: use.userId, usedAt: use.usedAt })),
+      doc.label,
+      doc.expiresAt ?? undefined,
+      doc.maxUses ?? undefined,
+      doc.revokedAt ?? undefined,
+      doc.createdAt,
+      doc.updatedAt
+    );
+  }
+}
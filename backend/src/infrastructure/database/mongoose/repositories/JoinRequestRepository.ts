@@ -0,0 +1,74 @@
+import { IJoinRequestRepository } from '../../../../core/interfaces/repositories/IJoinRequestRepository.js';
+import { JoinRequest, JoinRequestStatus } from '../../../../core/entities/JoinRequest.js';
+import { JoinRequestModel, IJoinRequestDocument } from '../models/JoinRequestModel.js';
+
+export class MongoJoinRequestRepository implements IJoinRequestRepository {
+  async create(request: JoinRequest): Promise<JoinRequest> {
+    const doc = await JoinRequestModel.create({
+      groupId: request.groupId,
+      userId: request.userId,
+      role: request.role,
+      status: request.status,
+      inviteId: request.inviteId,
+    });
+
+    return this.toEntity(doc);
+  }
+
+  async findById(id: string): Promise<JoinRequest | null> {
+    const doc = await JoinRequestModel.findById(id);
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findPending(groupId: string, userId: string): Promise<JoinRequest | null> {
+    const doc = await JoinRequestModel.findOne({ groupId, userId, status: 'pending' });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findPendingByGroupId(groupId: string): Promise<JoinRequest[]> {
+    const docs = await JoinRequestModel.find({ groupId, status: 'pending' }).sort({ createdAt: 1 });
+    return docs.map(doc => this.toEntity(doc));
+  }
+
+  async review(
+    id: string,
+    status: Exclude<JoinRequestStatus, 'pending'>,
+    reviewedBy: string
+  ): Promise<JoinRequest | null> {
+    const doc = await JoinRequestModel.findOneAndUpdate(
+      { _id: id, status: 'pending' },
+      { status, reviewedBy, reviewedAt: new Date() },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async reopen(id: string): Promise<JoinRequest | null> {
+    const doc = await JoinRequestModel.findOneAndUpdate(
+      { _id: id, status: 'approved' },
+      { status: 'pending', $unset: { reviewedBy: 1, reviewedAt: 1 } },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async deleteByGroupId(groupId: string): Promise<number> {
+    const result = await JoinRequestModel.deleteMany({ groupId });
+    return result.deletedCount || 0;
+  }
+
+  private toEntity(doc: IJoinRequestDocument): JoinRequest {
+    return new JoinRequest(
+      (doc._id as any).toString(),
+      doc.groupId.toString(),
+      doc.userId,
+      doc.role,
+      doc.status,
+      doc.inviteId?.toString(),
+      doc.reviewedBy,
+      doc.reviewedAt,
+      doc.createdAt,
+      doc.updatedAt
+    );
+  }
+}
@@ -1,7 +1,20 @@
-import { IMediaRepository } from '../../../../core/interfaces/repositories/IMediaRepository.js';
+import { Types } from 'mongoose';
+import {
+  IMediaRepository,
+  MediaListFilters,
+  MediaAnnotations,
+  MediaTagCount,
+} from '../../../../core/interfaces/repositories/IMediaRepository.js';
+import { PreparedMedia } from '../../../../core/interfaces/services/IMediaPreparationService.js';
 import { Media } from '../../../../core/entities/Media.js';
 import { MediaModel, IMediaDocument } from '../models/MediaModel.js';
-import { PaginationParams, PaginatedResponse } from '../../../../shared/types/index.js';
+import {
+  PaginationParams,
+  PaginatedResponse,
+  MediaProcessingStatusType,
+  MediaDerivatives,
+} from '../../../../shared/types/index.js';
+import { MediaProcessingStatus, MediaType, DerivativeSize } from '../../../../shared/constants/index.js';
 
 export class MongoMediaRepository implements IMediaRepository {
   async create(media: Media): Promise<Media> {
@@ -18,6 +31,22 @@ export class MongoMediaRepository implements IMediaRepository {
       width: media.width,
       height: media.height,
       processed: media.processed,
+      processingStatus: media.processingStatus,
+      mediaType: media.mediaType,
+      durationSeconds: media.durationSeconds,
+      posterS3Key: media.posterS3Key,
+      originalS3Key: media.originalS3Key,
+      originalMimeType: media.originalMimeType,
+      takenAt: media.takenAt,
+      capturedAt: media.takenAt ?? new Date(),
+      cameraMake: media.cameraMake,
+      cameraModel: media.cameraModel,
+      orientation: media.orientation,
+      location: media.location,
+      contentHash: media.contentHash,
+      perceptualHash: media.perceptualHash,
+      caption: media.caption,
+      tags: media.tags,
     });
 
     return this.toEntity(doc);
@@ -38,6 +67,22 @@ export class MongoMediaRepository implements IMediaRepository {
         width: media.width,
         height: media.height,
         processed: media.processed,
+        processingStatus: media.processingStatus,
+        mediaType: media.mediaType,
+        durationSeconds: media.durationSeconds,
+        posterS3Key: media.posterS3Key,
+        originalS3Key: media.originalS3Key,
+        originalMimeType: media.originalMimeType,
+        takenAt: media.takenAt,
+        capturedAt: media.takenAt ?? new Date(),
+        cameraMake: media.cameraMake,
+        cameraModel: media.cameraModel,
+        orientation: media.orientation,
+        location: media.location,
+        contentHash: media.contentHash,
+        perceptualHash: media.perceptualHash,
+        caption: media.caption,
+        tags: media.tags,
       }))
     );
 
@@ -51,18 +96,44 @@ export class MongoMediaRepository implements IMediaRepository {
 
   async findByGroupId(
     groupId: string,
-    pagination?: PaginationParams
+    pagination?: PaginationParams,
+    filters?: MediaListFilters
   ): Promise<PaginatedResponse<Media>> {
     const page = pagination?.page || 1;
     const limit = pagination?.limit || 20;
     const skip = (page - 1) * limit;
 
+    const query: any = { groupId };
+    if (filters?.takenFrom || filters?.takenTo) {
+      query.capturedAt = {};
+      if (filters.takenFrom) query.capturedAt.$gte = filters.takenFrom;
+      if (filters.takenTo) query.capturedAt.$lte = filters.takenTo;
+    }
+    if (filters?.uploaderId) {
+      query.uploaderId = filters.uploaderId;
+    }
+    if (filters?.tags?.length) {
+      query.tags = { $all: filters.tags };
+    }
+    if (filters?.mediaIds) {
+      query._id = { $in: filters.mediaIds };
+    }
+    if (filters?.text) {
+      query.$text = { $search: filters.text };
+    }
+
+    // Newest capture time first, so photos from many guests interleave by when they were taken
+    // Text searches rank by relevance first
+    const sort: any = filters?.text
+      ? { score: { $meta: 'textScore' }, capturedAt: -1, createdAt: -1 }
+      : { capturedAt: -1, createdAt: -1 };
+
     const [docs, total] = await Promise.all([
-      MediaModel.find({ groupId })
-        .sort({ createdAt: -1 })
+      MediaModel.find(query)
+        .sort(sort)
         .skip(skip)
         .limit(limit),
-      MediaModel.countDocuments({ groupId }),
+      MediaModel.countDocuments(query),
     ]);
 
     return {
@@ -110,7 +181,156 @@ export class MongoMediaRepository implements IMediaRepository {
   }
 
   async markAsProcessed(id: string): Promise<void> {
-    await MediaModel.findByIdAndUpdate(id, { processed: true });
+    await MediaModel.findByIdAndUpdate(id, {
+      processed: true,
+      processingStatus: MediaProcessingStatus.DONE,
+    });
+  }
+
+  async updateProcessingStatus(
+    id: string,
+    status: MediaProcessingStatusType,
+    error?: string
+  ): Promise<void> {
+    const update: any = {
+      $set: {
+        processingStatus: status,
+        processed: status === MediaProcessingStatus.DONE,
+      },
+    };
+
+    if (status === MediaProcessingStatus.PROCESSING) {
+      update.$inc = { processingAttempts: 1 };
+    }
+
+    if (error) {
+      update.$set.lastError = error;
+    } else if (status !== MediaProcessingStatus.PROCESSING) {
+      update.$unset = { lastError: 1 };
+    }
+
+    await MediaModel.findByIdAndUpdate(id, update);
+  }
+
+  async markUnfinishedAsFailed(ids: string[], error: string): Promise<number> {
+    const result = await MediaModel.updateMany(
+      {
+        _id: { $in: ids },
+        processingStatus: { $ne: MediaProcessingStatus.DONE },
+      },
+      { processingStatus: MediaProcessingStatus.FAILED, lastError: error }
+    );
+    return result.modifiedCount;
+  }
+
+  async findRetryableByGroupId(groupId: string, stuckBefore: Date): Promise<Media[]> {
+    const docs = await MediaModel.find({
+      groupId,
+      $or: [
+        { processingStatus: MediaProcessingStatus.FAILED },
+        {
+          processingStatus: { $in: [MediaProcessingStatus.PENDING, MediaProcessingStatus.PROCESSING] },
+          updatedAt: { $lt: stuckBefore },
+        },
+      ],
+    }).sort({ createdAt: 1 });
+
+    return docs.map(doc => this.toEntity(doc));
+  }
+
+  async resetProcessingStatus(ids: string[]): Promise<void> {
+    await MediaModel.updateMany(
+      { _id: { $in: ids } },
+      {
+        $set: { processingStatus: MediaProcessingStatus.PENDING, processed: false },
+        $unset: { lastError: 1 },
+      }
+    );
+  }
+
+  async setDerivatives(id: string, derivatives: MediaDerivatives): Promise<void> {
+    await MediaModel.findByIdAndUpdate(id, { $set: { derivatives } });
+  }
+
+  async setPrepared(id: string, prepared: PreparedMedia): Promise<Media | null> {
+    const update: Record<string, unknown> = Object.fromEntries(
+      Object.entries(prepared.details).filter(([, value]) => value !== undefined)
+    );
+
+    if (prepared.converted) {
+      update.s3Key = prepared.converted.key;
+      update.s3Bucket = prepared.converted.bucket;
+      update.url = prepared.converted.url;
+    }
+
+    if (prepared.details.takenAt) {
+      update.capturedAt = prepared.details.takenAt;
+    }
+
+    const doc = await MediaModel.findByIdAndUpdate(id, { $set: update }, { new: true });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findWithoutDerivatives(groupId: string): Promise<Media[]> {
+    const docs = await MediaModel.find({
+      groupId,
+      derivatives: { $exists: false },
+      // Videos are only shown through their poster frame
+      $or: [{ mediaType: { $ne: MediaType.VIDEO } }, { posterS3Key: { $exists: true } }],
+    }).sort({ createdAt: 1 });
+    return docs.map(doc => this.toEntity(doc));
+  }
+
+  async findByContentHashes(groupId: string, contentHashes: string[]): Promise<Media[]> {
+    const docs = await MediaModel.find({ groupId, contentHash: { $in: contentHashes } });
+    return docs.map(doc => this.toEntity(doc));
+  }
+
+  async findHashedByGroupId(groupId: string): Promise<Media[]> {
+    const docs = await MediaModel.find({
+      groupId,
+      $or: [{ contentHash: { $exists: true } }, { perceptualHash: { $exists: true } }],
+    }).sort({ createdAt: 1 });
+    return docs.map(doc => this.toEntity(doc));
+  }
+
+  async setPerceptualHash(id: string, perceptualHash: string): Promise<void> {
+    await MediaModel.findByIdAndUpdate(id, { $set: { perceptualHash } });
+  }
+
+  async setAnnotations(id: string, annotations: MediaAnnotations): Promise<Media | null> {
+    const update: any = { $set: { tags: annotations.tags } };
+    if (annotations.caption) {
+      update.$set.caption = annotations.caption;
+    } else {
+      update.$unset = { caption: 1 };
+    }
+
+    const doc = await MediaModel.findByIdAndUpdate(id, update, { new: true });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findTagsByGroupId(groupId: string, prefix?: string, limit: number = 20): Promise<MediaTagCount[]> {
+    const match: any = { groupId: new Types.ObjectId(groupId) };
+    const prefixPattern = prefix
+      ? new RegExp(`^${prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`)
+      : undefined;
+    if (prefixPattern) {
+      match.tags = prefixPattern;
+    }
+
+    // Aggregation doesn't cast, so groupId is matched as an ObjectId
+    // The second match drops the other tags of media that matched on one prefixed tag
+    const result = await MediaModel.aggregate([
+      { $match: match },
+      { $unwind: '$tags' },
+      ...(prefixPattern ? [{ $match: { tags: prefixPattern } }] : []),
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: limit },
+    ]);
+
+    return result.map(row => ({ tag: row._id as string, count: row.count as number }));
   }
 
   async getGroupStorageUsed(groupId: string): Promise<number> {
@@ -126,6 +346,33 @@ export class MongoMediaRepository implements IMediaRepository {
     return MediaModel.countDocuments({ groupId });
   }
 
+  /**
+   * Set the sort date of media uploaded before capture times were recorded
+   */
+  async backfillCapturedAt(): Promise<number> {
+    const result = await MediaModel.updateMany({ capturedAt: { $exists: false } }, [
+      { $set: { capturedAt: { $ifNull: ['$takenAt', '$createdAt'] } } },
+    ]);
+    return result.modifiedCount;
+  }
+
+  /**
+   * Set the processing status of media uploaded before it was recorded.
+   * Must run before such media is read, as the schema default would report it pending
+   */
+  async backfillProcessingStatus(): Promise<number> {
+    const result = await MediaModel.updateMany({ processingStatus: { $exists: false } }, [
+      {
+        $set: {
+          processingStatus: {
+            $cond: ['$processed', MediaProcessingStatus.DONE, MediaProcessingStatus.PENDING],
+          },
+        },
+      },
+    ]);
+    return result.modifiedCount;
+  }
+
   // Cleanup methods
   async findByGroupIdAndDate(groupId: string, startDate: Date | null, endDate: Date): Promise<Media[]> {
     const query: any = {
@@ -174,8 +421,53 @@ export class MongoMediaRepository implements IMediaRepository {
       doc.processed,
       doc.width,
       doc.height,
+      // Media created before processing status existed only has the boolean flag
+      doc.processingStatus || (doc.processed ? MediaProcessingStatus.DONE : MediaProcessingStatus.PENDING),
+      doc.processingAttempts || 0,
+      doc.lastError,
+      doc.mediaType || MediaType.IMAGE,
+      doc.durationSeconds,
+      doc.posterS3Key,
+      doc.originalS3Key,
+      doc.originalMimeType,
+      doc.takenAt,
+      doc.cameraMake,
+      doc.cameraModel,
+      doc.orientation,
+      doc.location
+        ? { latitude: doc.location.latitude, longitude: doc.location.longitude, altitude: doc.location.altitude }
+        : undefined,
+      this.toDerivatives(doc.derivatives),
+      doc.contentHash,
+      doc.perceptualHash,
+      doc.caption,
+      doc.tags || [],
       doc.createdAt,
       doc.updatedAt
     );
   }
+
+  /**
+   * Copy derivative subdocuments into plain objects, dropping sizes that were never generated
+   */
+  private toDerivatives(derivatives?: MediaDerivatives): MediaDerivatives | undefined {
+    if (!derivatives) {
+      return undefined;
+    }
+
+    const result: MediaDerivatives = {};
+    for (const size of Object.values(DerivativeSize)) {
+      const derivative = derivatives[size];
+      if (derivative?.webpS3Key) {
+        result[size] = {
+          webpS3Key: derivative.webpS3Key,
+          avifS3Key: derivative.avifS3Key,
+          width: derivative.width,
+          height: derivative.height,
+        };
+      }
+    }
+
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
 }
@@ -0,0 +1,103 @@
+import { IPersonRepository } from '../../../../core/interfaces/repositories/IPersonRepository.js';
+import { Person, PersonClusterLink } from '../../../../core/entities/Person.js';
+import { PersonModel, IPersonDocument } from '../models/PersonModel.js';
+
+export class MongoPersonRepository implements IPersonRepository {
+  async create(person: Person): Promise<Person> {
+    const doc = await PersonModel.create({
+      ownerId: person.ownerId,
+      name: person.name,
+      clusters: person.clusters,
+    });
+
+    return this.toEntity(doc);
+  }
+
+  async findById(id: string): Promise<Person | null> {
+    const doc = await PersonModel.findById(id);
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findByOwner(ownerId: string): Promise<Person[]> {
+    const docs = await PersonModel.find({ ownerId }).sort({ name: 1 });
+    return docs.map(doc => this.toEntity(doc));
+  }
+
+  async update(id: string, data: Partial<Person>): Promise<Person | null> {
+    const doc = await PersonModel.findByIdAndUpdate(id, data, { new: true });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await PersonModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  async deleteByOwner(ownerId: string): Promise<number> {
+    const result = await PersonModel.deleteMany({ ownerId });
+    return result.deletedCount || 0;
+  }
+
+  async addCluster(id: string, link: PersonClusterLink): Promise<Person | null> {
+    const person = await PersonModel.findById(id);
+    if (!person) {
+      return null;
+    }
+
+    // A cluster belongs to at most one of the owner's people
+    await PersonModel.updateMany(
+      { ownerId: person.ownerId },
+      { $pull: { clusters: { clusterId: link.clusterId } } }
+    );
+
+    const doc = await PersonModel.findByIdAndUpdate(
+      id,
+      { $push: { clusters: link } },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async removeCluster(id: string, clusterId: string): Promise<Person | null> {
+    const doc = await PersonModel.findByIdAndUpdate(
+      id,
+      { $pull: { clusters: { clusterId } } },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async replaceCluster(sourceClusterId: string, targetClusterId: string): Promise<void> {
+    // People already linked to the target just lose the source link
+    await PersonModel.updateMany(
+      { 'clusters.clusterId': { $all: [sourceClusterId, targetClusterId] } },
+      { $pull: { clusters: { clusterId: sourceClusterId } } }
+    );
+
+    await PersonModel.updateMany(
+      { 'clusters.clusterId': sourceClusterId },
+      { $set: { 'clusters.$.clusterId': targetClusterId } }
+    );
+  }
+
+  async removeGroupLinks(ownerId: string, groupId: string): Promise<void> {
+    await PersonModel.updateMany(
+      { ownerId },
+      { $pull: { clusters: { groupId } } }
+    );
+  }
+
+  private toEntity(doc: IPersonDocument): Person {
+    return new Person(
+      (doc._id as any).toString(),
+      doc.ownerId,
+      doc.name,
+      doc.clusters.map(link => ({
+        clusterId: link.clusterId.toString(),
+        groupId: link.groupId.toString(),
+      })),
+      doc.createdAt,
+      doc.updatedAt
+    );
+  }
+}
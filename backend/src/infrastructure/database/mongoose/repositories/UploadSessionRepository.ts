@@ -0,0 +1,108 @@
+import { IUploadSessionRepository } from '../../../../core/interfaces/repositories/IUploadSessionRepository.js';
+import { UploadSession } from '../../../../core/entities/UploadSession.js';
+import { UploadSessionModel, IUploadSessionDocument } from '../models/UploadSessionModel.js';
+import { UploadSessionStatus } from '../../../../shared/constants/index.js';
+import { UploadedPart } from '../../../../shared/types/index.js';
+
+export class MongoUploadSessionRepository implements IUploadSessionRepository {
+  async create(session: UploadSession): Promise<UploadSession> {
+    const doc = await UploadSessionModel.create({
+      groupId: session.groupId,
+      userId: session.userId,
+      originalName: session.originalName,
+      mimeType: session.mimeType,
+      fileSize: session.fileSize,
+      s3Key: session.s3Key,
+      uploadId: session.uploadId,
+      partSize: session.partSize,
+      completedParts: session.completedParts,
+      status: session.status,
+      expiresAt: session.expiresAt,
+    });
+
+    return this.toEntity(doc);
+  }
+
+  async findById(id: string): Promise<UploadSession | null> {
+    const doc = await UploadSessionModel.findById(id);
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findActiveByGroupAndUser(groupId: string, userId: string): Promise<UploadSession[]> {
+    const docs = await UploadSessionModel.find({
+      groupId,
+      userId,
+      status: UploadSessionStatus.ACTIVE,
+      expiresAt: { $gt: new Date() },
+    }).sort({ createdAt: -1 });
+
+    return docs.map(doc => this.toEntity(doc));
+  }
+
+  async setCompletedParts(id: string, parts: UploadedPart[]): Promise<UploadSession | null> {
+    const doc = await UploadSessionModel.findByIdAndUpdate(
+      id,
+      { $set: { completedParts: parts } },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async addCompletedPart(id: string, part: UploadedPart): Promise<UploadSession | null> {
+    // Parts can be retried, so drop any earlier attempt first
+    await UploadSessionModel.findByIdAndUpdate(id, {
+      $pull: { completedParts: { partNumber: part.partNumber } },
+    });
+
+    const doc = await UploadSessionModel.findByIdAndUpdate(
+      id,
+      { $push: { completedParts: part } },
+      { new: true }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async markCompleted(id: string, mediaId: string): Promise<void> {
+    await UploadSessionModel.findByIdAndUpdate(id, {
+      $set: { status: UploadSessionStatus.COMPLETED, mediaId },
+    });
+  }
+
+  async markAborted(id: string): Promise<void> {
+    await UploadSessionModel.findByIdAndUpdate(id, {
+      $set: { status: UploadSessionStatus.ABORTED },
+    });
+  }
+
+  async findExpired(now: Date): Promise<UploadSession[]> {
+    const docs = await UploadSessionModel.find({
+      status: UploadSessionStatus.ACTIVE,
+      expiresAt: { $lte: now },
+    });
+    return docs.map(doc => this.toEntity(doc));
+  }
+
+  private toEntity(doc: IUploadSessionDocument): UploadSession {
+    return new UploadSession(
+      (doc._id as any).toString(),
+      doc.groupId.toString(),
+      doc.userId,
+      doc.originalName,
+      doc.mimeType,
+      doc.fileSize,
+      doc.s3Key,
+      doc.uploadId,
+      doc.partSize,
+      doc.completedParts.map(part => ({
+        partNumber: part.partNumber,
+        etag: part.etag,
+        size: part.size,
+      })),
+      doc.status,
+      doc.expiresAt,
+      doc.mediaId?.toString(),
+      doc.createdAt,
+      doc.updatedAt
+    );
+  }
+}
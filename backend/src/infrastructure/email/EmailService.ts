@@ -118,9 +118,10 @@ export class EmailService implements IEmailService {
 
   async sendGroupInviteEmail(
     userEmail: string,
-    userName: string,
+    inviterName: string,
     groupName: string,
-    inviteCode: string
+    inviteUrl: string,
+    expiresAt: Date
   ): Promise<void> {
     const html = `
       <!DOCTYPE html>
@@ -131,7 +132,7 @@ export class EmailService implements IEmailService {
             .container { max-width: 600px; margin: 0 auto; padding: 20px; }
             .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
             .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
-            .invite-code { background: white; padding: 20px; text-align: center; font-size: 24px; font-weight: bold; letter-spacing: 2px; border: 2px dashed #667eea; border-radius: 5px; margin: 20px 0; }
+            .button { display: inline-block; padding: 12px 24px; background: #667eea; color: white; text-decoration: none; border-radius: 5px; margin-top: 20px; }
             .footer { text-align: center; margin-top: 30px; color: #666; font-size: 12px; }
           </style>
         </head>
@@ -141,10 +142,11 @@ export class EmailService implements IEmailService {
               <h1>You've been invited to join a group!</h1>
             </div>
             <div class="content">
-              <h2>Hi ${userName},</h2>
-              <p>You've been invited to join the group <strong>${groupName}</strong> on Face Media Sharing!</p>
-              <p>Use the invite code below to join:</p>
-              <div class="invite-code">${inviteCode}</div>
+              <h2>Hi there,</h2>
+              <p>${inviterName} invited you to join the group <strong>${groupName}</strong> on Face Media Sharing!</p>
+              <p>Click the button below to accept. Signing up with this email address accepts the invitation too.</p>
+              <a href="${inviteUrl}" class="button">Join ${groupName}</a>
+              <p>This invitation is just for you, can be used once and expires on ${expiresAt.toDateString()}.</p>
               <p>Once you join, you'll be able to share photos and view photos shared by other members.</p>
               <div class="footer">
                 <p>Face Media Sharing - AI-powered photo sharing</p>
@@ -157,7 +159,7 @@ export class EmailService implements IEmailService {
 
     await this.sendEmail({
       to: userEmail,
-      subject: `You've been invited to join ${groupName}`,
+      subject: `${inviterName} invited you to join ${groupName}`,
       html,
     });
   }
@@ -0,0 +1,165 @@
+import sharp from 'sharp';
+import exifReader from 'exif-reader';
+import {
+  IImageProcessingService,
+  ConvertedImage,
+  ImageMetadata,
+  DerivativeFormat,
+} from '../../core/interfaces/services/IImageProcessingService.js';
+import { MediaLocation } from '../../shared/types/index.js';
+
+const MAX_CONVERTED_DIMENSION = 4096; // Keeps derivatives of large RAW files reasonably sized
+
+/**
+ * Image conversion and metadata extraction backed by sharp/libvips
+ * HEIC support depends on the libheif build bundled with sharp
+ */
+export class SharpImageService implements IImageProcessingService {
+  async convertToJpeg(imageBuffer: Buffer): Promise<ConvertedImage> {
+    const { data, info } = await sharp(imageBuffer, { failOn: 'none' })
+      .rotate() // Apply EXIF orientation
+      .resize(MAX_CONVERTED_DIMENSION, MAX_CONVERTED_DIMENSION, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .jpeg({ quality: 90, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      buffer: data,
+      width: info.width,
+      height: info.height,
+    };
+  }
+
+  async createDerivative(
+    imageBuffer: Buffer,
+    maxDimension: number,
+    format: DerivativeFormat
+  ): Promise<ConvertedImage> {
+    const pipeline = sharp(imageBuffer, { failOn: 'none' })
+      .rotate() // Apply EXIF orientation, derivatives carry no metadata
+      .resize(maxDimension, maxDimension, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      });
+
+    const { data, info } = await (format === 'avif'
+      ? pipeline.avif({ quality: 50, effort: 4 })
+      : pipeline.webp({ quality: 80 })
+    ).toBuffer({ resolveWithObject: true });
+
+    return {
+      buffer: data,
+      width: info.width,
+      height: info.height,
+    };
+  }
+
+  async perceptualHash(imageBuffer: Buffer): Promise<string> {
+    // 9x8 greyscale, each bit says whether a pixel is brighter than its right neighbour
+    const { data } = await sharp(imageBuffer, { failOn: 'none' })
+      .rotate()
+      .greyscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    // Written out four bits at a time as 16 hex digits
+    let hash = '';
+    let nibble = 0;
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const left = data[row * 9 + col];
+        const right = data[row * 9 + col + 1];
+        nibble = (nibble << 1) | (left > right ? 1 : 0);
+
+        if (col % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+
+    return hash;
+  }
+
+  async extractMetadata(imageBuffer: Buffer): Promise<ImageMetadata> {
+    const metadata = await sharp(imageBuffer, { failOn: 'none' }).metadata();
+
+    // Orientations 5-8 rotate the image by 90 degrees
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    const result: ImageMetadata = {
+      width: rotated ? metadata.height : metadata.width,
+      height: rotated ? metadata.width : metadata.height,
+      orientation: metadata.orientation,
+    };
+
+    if (!metadata.exif) {
+      return result;
+    }
+
+    try {
+      const exif = exifReader(metadata.exif);
+
+      result.takenAt = this.parseCaptureTime(
+        exif.Photo?.DateTimeOriginal ?? exif.Image?.DateTime,
+        exif.Photo?.OffsetTimeOriginal
+      );
+      result.cameraMake = exif.Image?.Make?.trim() || undefined;
+      result.cameraModel = exif.Image?.Model?.trim() || undefined;
+      result.location = this.parseLocation(exif.GPSInfo);
+    } catch (error) {
+      console.error('[Image] Failed to parse EXIF data:', error);
+    }
+
+    return result;
+  }
+
+  /**
+   * EXIF stores local time without zone, exif-reader reads it as UTC.
+   * Shift by the recorded offset when the camera wrote one.
+   */
+  private parseCaptureTime(dateTime: Date | undefined, offset: string | undefined): Date | undefined {
+    if (!(dateTime instanceof Date) || isNaN(dateTime.getTime())) {
+      return undefined;
+    }
+
+    const match = offset?.match(/^([+-])(\d{2}):(\d{2})$/);
+    if (!match) {
+      return dateTime;
+    }
+
+    const offsetMinutes = (parseInt(match[2], 10) * 60 + parseInt(match[3], 10)) * (match[1] === '+' ? 1 : -1);
+    return new Date(dateTime.getTime() - offsetMinutes * 60 * 1000);
+  }
+
+  /**
+   * Convert GPS degrees/minutes/seconds with N/S, E/W references to decimal degrees
+   */
+  private parseLocation(gps: ReturnType<typeof exifReader>['GPSInfo']): MediaLocation | undefined {
+    if (!gps?.GPSLatitude || !gps.GPSLongitude) {
+      return undefined;
+    }
+
+    const toDecimal = ([degrees, minutes = 0, seconds = 0]: number[]): number =>
+      degrees + minutes / 60 + seconds / 3600;
+
+    const latitude = toDecimal(gps.GPSLatitude) * (gps.GPSLatitudeRef === 'S' ? -1 : 1);
+    const longitude = toDecimal(gps.GPSLongitude) * (gps.GPSLongitudeRef === 'W' ? -1 : 1);
+
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      return undefined;
+    }
+
+    return {
+      latitude,
+      longitude,
+      // Altitude ref 1 means below sea level
+      altitude:
+        gps.GPSAltitude !== undefined
+          ? gps.GPSAltitude * (gps.GPSAltitudeRef === 1 ? -1 : 1)
+          : undefined,
+    };
+  }
+}
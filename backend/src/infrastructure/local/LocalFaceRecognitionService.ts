@@ -0,0 +1,434 @@
+import sharp from 'sharp';
+import { randomUUID } from 'crypto';
+import { IFaceRecognitionService } from '../../core/interfaces/services/IFaceRecognitionService.js';
+import { IStorageService } from '../../core/interfaces/services/IStorageService.js';
+import { LocalFaceModel } from '../database/mongoose/models/LocalFaceModel.js';
+import { LocalFaceCollectionModel } from '../database/mongoose/models/LocalFaceCollectionModel.js';
+import { RekognitionFaceData, FaceSimilarity, IBoundingBox } from '../../shared/types/index.js';
+import { env } from '../../config/env.js';
+
+// Working resolution for skin-region detection
+const DETECTION_SIZE = 256;
+
+// Face crops are normalised to this size before computing descriptors
+const DESCRIPTOR_SIZE = 64;
+const DESCRIPTOR_CELL = 8;
+const DESCRIPTOR_BINS = 9;
+
+// Smallest region (fraction of the image area) considered a face candidate
+const MIN_REGION_AREA = 0.002;
+const MAX_FACES = 100;
+
+interface DetectedRegion {
+  boundingBox: IBoundingBox;
+  confidence: number;
+}
+
+/**
+ * Local Face Recognition Service
+ * Offline implementation of IFaceRecognitionService that needs no AWS Rekognition access.
+ *
+ * - Detection: skin-tone segmentation (YCbCr) with face-shaped connected regions
+ * - Indexing: gradient-orientation descriptor of the face crop stored in MongoDB
+ * - Search: correlation between descriptors, reported on Rekognition's 0-100 scale
+ *
+ * Accuracy is well below Rekognition; it is intended for development, CI and
+ * air-gapped installs where the upload → detect → cluster pipeline must run locally.
+ *
+ * Calibration: gradient histograms are all non-negative, so a plain cosine scores
+ * unrelated faces around 75-80 and the default threshold of 80 matched almost
+ * anything. Centring both descriptors first brings unrelated crops down to roughly
+ * 0-20, while noisy copies of one crop still score 45-55 (synthetic test images,
+ * not yet calibrated on real faces). Groups on this provider want a similarity
+ * threshold well below Rekognition's defaults, e.g. 50-60.
+ */
+export class LocalFaceRecognitionService implements IFaceRecognitionService {
+  private collectionPrefix: string;
+
+  constructor(private storageService: IStorageService) {
+    this.collectionPrefix = env.get('AWS_REKOGNITION_COLLECTION_PREFIX');
+  }
+
+  private getCollectionId(groupId: string): string {
+    const sanitized = groupId.replace(/[^a-zA-Z0-9_.-]/g, '-');
+    return `${this.collectionPrefix}-local-${sanitized}`;
+  }
+
+  async createCollection(groupId: string): Promise<string> {
+    const collectionId = this.getCollectionId(groupId);
+
+    await LocalFaceCollectionModel.updateOne(
+      { collectionId },
+      { $setOnInsert: { collectionId } },
+      { upsert: true }
+    );
+    console.log(`Created local face collection: ${collectionId}`);
+
+    return collectionId;
+  }
+
+  async collectionExists(collectionId: string): Promise<boolean> {
+    const count = await LocalFaceCollectionModel.countDocuments({ collectionId });
+    return count > 0;
+  }
+
+  async deleteCollection(collectionId: string): Promise<void> {
+    await LocalFaceModel.deleteMany({ collectionId });
+    const result = await LocalFaceCollectionModel.deleteOne({ collectionId });
+
+    if (result.deletedCount === 0) {
+      console.log(`Collection ${collectionId} not found, already deleted`);
+      return;
+    }
+    console.log(`Deleted local face collection: ${collectionId}`);
+  }
+
+  async detectFaces(_s3Bucket: string, s3Key: string): Promise<RekognitionFaceData[]> {
+    try {
+      const imageBuffer = await this.storageService.getObjectBuffer(s3Key);
+      const regions = await this.detectRegions(imageBuffer);
+
+      const faces: RekognitionFaceData[] = [];
+      for (const region of regions) {
+        const crop = await this.extractFace(imageBuffer, region.boundingBox);
+        faces.push({
+          faceId: '', // Not available until indexed
+          boundingBox: region.boundingBox,
+          confidence: region.confidence,
+          quality: this.measureQuality(crop),
+        });
+      }
+
+      return faces;
+    } catch (error) {
+      console.error(`Face detection failed for ${s3Key}:`, error);
+      throw error;
+    }
+  }
+
+  async indexFaces(
+    collectionId: string,
+    s3BucketOrBuffer: string | Buffer,
+    s3KeyOrExternalId: string,
+    externalImageId?: string
+  ): Promise<RekognitionFaceData[]> {
+    try {
+      const isBytes = Buffer.isBuffer(s3BucketOrBuffer);
+      const imageBuffer = isBytes
+        ? s3BucketOrBuffer
+        : await this.storageService.getObjectBuffer(s3KeyOrExternalId);
+
+      let regions = await this.detectRegions(imageBuffer);
+
+      // Byte input is usually an already-cropped face (see face detection worker),
+      // so fall back to treating the whole image as a single face
+      if (regions.length === 0 && isBytes) {
+        regions = [{ boundingBox: { x: 0, y: 0, width: 1, height: 1 }, confidence: 90 }];
+      }
+
+      const indexed: RekognitionFaceData[] = [];
+      for (const region of regions) {
+        const crop = await this.extractFace(imageBuffer, region.boundingBox);
+        const faceId = randomUUID();
+
+        await LocalFaceModel.create({
+          collectionId,
+          faceId,
+          externalImageId: isBytes ? s3KeyOrExternalId : externalImageId,
+          boundingBox: region.boundingBox,
+          confidence: region.confidence,
+          descriptor: this.computeDescriptor(crop),
+        });
+
+        indexed.push({
+          faceId,
+          boundingBox: region.boundingBox,
+          confidence: region.confidence,
+          quality: this.measureQuality(crop),
+        });
+      }
+
+      return indexed;
+    } catch (error) {
+      const source = Buffer.isBuffer(s3BucketOrBuffer) ? 'bytes' : s3KeyOrExternalId;
+      console.error(`Face indexing failed for ${source}:`, error);
+      throw error;
+    }
+  }
+
+  async searchFaces(
+    collectionId: string,
+    faceId: string,
+    maxFaces: number = 100,
+    threshold: number = 80
+  ): Promise<FaceSimilarity[]> {
+    try {
+      const source = await LocalFaceModel.findOne({ collectionId, faceId }).lean();
+      if (!source) {
+        throw new Error(`Face ${faceId} not found in collection ${collectionId}`);
+      }
+
+      const candidates = await LocalFaceModel.find({
+        collectionId,
+        faceId: { $ne: faceId },
+      })
+        .select('faceId descriptor')
+        .lean();
+
+      return candidates
+        .map(candidate => ({
+          faceId: candidate.faceId,
+          similarity: this.compareDescriptors(source.descriptor, candidate.descriptor),
+        }))
+        .filter(match => match.similarity >= threshold)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, maxFaces);
+    } catch (error) {
+      console.error(`Face search failed for faceId ${faceId}:`, error);
+      throw error;
+    }
+  }
+
+  async searchFacesByImage(
+    collectionId: string,
+    imageBuffer: Buffer,
+    maxFaces: number = 100,
+    threshold: number = 80
+  ): Promise<FaceSimilarity[]> {
+    try {
+      // Regions are sorted by size, so the first one is the largest face
+      const regions = await this.detectRegions(imageBuffer);
+      if (regions.length === 0) {
+        console.log(`No face found in search image for ${collectionId}`);
+        return [];
+      }
+
+      const crop = await this.extractFace(imageBuffer, regions[0].boundingBox);
+      const descriptor = this.computeDescriptor(crop);
+
+      const candidates = await LocalFaceModel.find({ collectionId })
+        .select('faceId descriptor')
+        .lean();
+
+      return candidates
+        .map(candidate => ({
+          faceId: candidate.faceId,
+          similarity: this.compareDescriptors(descriptor, candidate.descriptor),
+        }))
+        .filter(match => match.similarity >= threshold)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, maxFaces);
+    } catch (error) {
+      console.error(`Face search by image failed for ${collectionId}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteFaces(collectionId: string, faceIds: string[]): Promise<void> {
+    if (faceIds.length === 0) return;
+
+    try {
+      await LocalFaceModel.deleteMany({ collectionId, faceId: { $in: faceIds } });
+      console.log(`Deleted ${faceIds.length} faces from ${collectionId}`);
+    } catch (error) {
+      console.error('Failed to delete faces:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find face-shaped skin regions in an image
+   * Returns bounding boxes as ratios (0-1) like Rekognition does
+   */
+  private async detectRegions(imageBuffer: Buffer): Promise<DetectedRegion[]> {
+    const { data, info } = await sharp(imageBuffer)
+      .resize(DETECTION_SIZE, DETECTION_SIZE, { fit: 'inside' })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const { width, height, channels } = info;
+    const mask = new Uint8Array(width * height);
+
+    for (let i = 0; i < width * height; i++) {
+      const r = data[i * channels];
+      const g = data[i * channels + 1];
+      const b = data[i * channels + 2];
+
+      // Skin chrominance range in YCbCr space
+      const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+      const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+      if (cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173) {
+        mask[i] = 1;
+      }
+    }
+
+    const regions: DetectedRegion[] = [];
+    const visited = new Uint8Array(width * height);
+    const stack: number[] = [];
+
+    for (let start = 0; start < mask.length; start++) {
+      if (!mask[start] || visited[start]) continue;
+
+      // Flood fill the connected skin region
+      let area = 0;
+      let minX = width;
+      let minY = height;
+      let maxX = 0;
+      let maxY = 0;
+      visited[start] = 1;
+      stack.push(start);
+
+      while (stack.length > 0) {
+        const index = stack.pop()!;
+        const x = index % width;
+        const y = Math.floor(index / width);
+        area++;
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+
+        const neighbours = [
+          x > 0 ? index - 1 : -1,
+          x < width - 1 ? index + 1 : -1,
+          y > 0 ? index - width : -1,
+          y < height - 1 ? index + width : -1,
+        ];
+        for (const next of neighbours) {
+          if (next >= 0 && mask[next] && !visited[next]) {
+            visited[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+
+      const boxWidth = maxX - minX + 1;
+      const boxHeight = maxY - minY + 1;
+      const aspect = boxHeight / boxWidth;
+      const fill = area / (boxWidth * boxHeight);
+
+      // Faces are roughly upright ovals that fill most of their bounding box
+      if (area < MIN_REGION_AREA * width * height) continue;
+      if (aspect < 0.8 || aspect > 2.2) continue;
+      if (fill < 0.4) continue;
+
+      regions.push({
+        boundingBox: {
+          x: minX / width,
+          y: minY / height,
+          width: boxWidth / width,
+          height: boxHeight / height,
+        },
+        confidence: Math.min(99, Math.round(60 + fill * 40)),
+      });
+    }
+
+    return regions
+      .sort((a, b) => b.boundingBox.width * b.boundingBox.height - a.boundingBox.width * a.boundingBox.height)
+      .slice(0, MAX_FACES);
+  }
+
+  /**
+   * Crop a face and normalise it to a fixed-size greyscale square
+   */
+  private async extractFace(imageBuffer: Buffer, boundingBox: IBoundingBox): Promise<Uint8Array> {
+    const { data, info } = await sharp(imageBuffer).raw().toBuffer({ resolveWithObject: true });
+
+    const left = Math.max(0, Math.floor(boundingBox.x * info.width));
+    const top = Math.max(0, Math.floor(boundingBox.y * info.height));
+    const cropWidth = Math.max(1, Math.min(info.width - left, Math.round(boundingBox.width * info.width)));
+    const cropHeight = Math.max(1, Math.min(info.height - top, Math.round(boundingBox.height * info.height)));
+
+    const crop = await sharp(data, {
+      raw: { width: info.width, height: info.height, channels: info.channels },
+    })
+      .extract({ left, top, width: cropWidth, height: cropHeight })
+      .greyscale()
+      .resize(DESCRIPTOR_SIZE, DESCRIPTOR_SIZE, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    return new Uint8Array(crop);
+  }
+
+  /**
+   * Histogram of oriented gradients over a grid of cells
+   * L2 normalisation makes the descriptor insensitive to overall contrast
+   */
+  private computeDescriptor(pixels: Uint8Array): number[] {
+    const cells = DESCRIPTOR_SIZE / DESCRIPTOR_CELL;
+    const descriptor = new Array<number>(cells * cells * DESCRIPTOR_BINS).fill(0);
+
+    for (let y = 1; y < DESCRIPTOR_SIZE - 1; y++) {
+      for (let x = 1; x < DESCRIPTOR_SIZE - 1; x++) {
+        const gx = pixels[y * DESCRIPTOR_SIZE + x + 1] - pixels[y * DESCRIPTOR_SIZE + x - 1];
+        const gy = pixels[(y + 1) * DESCRIPTOR_SIZE + x] - pixels[(y - 1) * DESCRIPTOR_SIZE + x];
+        const magnitude = Math.sqrt(gx * gx + gy * gy);
+        if (magnitude === 0) continue;
+
+        // Unsigned orientation in [0, PI)
+        let angle = Math.atan2(gy, gx);
+        if (angle < 0) angle += Math.PI;
+        const bin = Math.min(DESCRIPTOR_BINS - 1, Math.floor((angle / Math.PI) * DESCRIPTOR_BINS));
+
+        const cell = Math.floor(y / DESCRIPTOR_CELL) * cells + Math.floor(x / DESCRIPTOR_CELL);
+        descriptor[cell * DESCRIPTOR_BINS + bin] += magnitude;
+      }
+    }
+
+    const norm = Math.sqrt(descriptor.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return descriptor.map(value => Number((value / norm).toFixed(5)));
+  }
+
+  /**
+   * Correlation of two descriptors on a 0-100 scale (negative counts as 0)
+   * Centred at compare time so descriptors already stored in MongoDB need no re-indexing
+   */
+  private compareDescriptors(a: number[], b: number[]): number {
+    if (a.length !== b.length || a.length === 0) return 0;
+
+    const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+    const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      const x = a[i] - meanA;
+      const y = b[i] - meanB;
+      dot += x * y;
+      normA += x * x;
+      normB += y * y;
+    }
+
+    if (normA === 0 || normB === 0) return 0;
+    return Math.max(0, Math.min(100, (dot / Math.sqrt(normA * normB)) * 100));
+  }
+
+  /**
+   * Approximate Rekognition's brightness/sharpness metrics (0-100)
+   */
+  private measureQuality(pixels: Uint8Array): { brightness: number; sharpness: number } {
+    let sum = 0;
+    let gradient = 0;
+
+    for (let y = 0; y < DESCRIPTOR_SIZE; y++) {
+      for (let x = 0; x < DESCRIPTOR_SIZE; x++) {
+        const value = pixels[y * DESCRIPTOR_SIZE + x];
+        sum += value;
+        if (x > 0 && y > 0) {
+          gradient +=
+            Math.abs(value - pixels[y * DESCRIPTOR_SIZE + x - 1]) +
+            Math.abs(value - pixels[(y - 1) * DESCRIPTOR_SIZE + x]);
+        }
+      }
+    }
+
+    const count = DESCRIPTOR_SIZE * DESCRIPTOR_SIZE;
+    return {
+      brightness: Math.round((sum / count / 255) * 100),
+      sharpness: Math.min(100, Math.round((gradient / count / 64) * 100)),
+    };
+  }
+}
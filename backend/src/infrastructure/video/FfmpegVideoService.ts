@@ -0,0 +1,133 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import {
+  IVideoProcessingService,
+  VideoMetadata,
+  VideoFrame,
+} from '../../core/interfaces/services/IVideoProcessingService.js';
+import { env } from '../../config/env.js';
+
+const execFileAsync = promisify(execFile);
+
+const MAX_OUTPUT_BUFFER = 20 * 1024 * 1024; // 20MB per extracted frame / probe output
+
+/**
+ * Video processing backed by the ffmpeg and ffprobe binaries
+ * (paths configurable through FFMPEG_PATH and FFPROBE_PATH)
+ */
+export class FfmpegVideoService implements IVideoProcessingService {
+  private readonly ffmpegPath = env.get('FFMPEG_PATH');
+  private readonly ffprobePath = env.get('FFPROBE_PATH');
+
+  async probe(videoBuffer: Buffer): Promise<VideoMetadata> {
+    return this.withTempFile(videoBuffer, async (filePath) => {
+      const { stdout } = await execFileAsync(
+        this.ffprobePath,
+        ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', filePath],
+        { maxBuffer: MAX_OUTPUT_BUFFER }
+      );
+
+      const info = JSON.parse(stdout.toString());
+      const videoStream = (info.streams || []).find((s: any) => s.codec_type === 'video');
+      if (!videoStream) {
+        throw new Error('File does not contain a video stream');
+      }
+
+      const durationSeconds = parseFloat(info.format?.duration ?? videoStream.duration);
+      if (!Number.isFinite(durationSeconds)) {
+        throw new Error('Could not determine video duration');
+      }
+
+      // Phone videos are often stored in landscape with a rotation flag
+      const rotation = Math.abs(
+        parseInt(videoStream.tags?.rotate ?? videoStream.side_data_list?.[0]?.rotation ?? '0', 10)
+      );
+      const rotated = rotation === 90 || rotation === 270;
+
+      const creationTime = info.format?.tags?.creation_time ?? videoStream.tags?.creation_time;
+      const recordedAt = creationTime ? new Date(creationTime) : undefined;
+
+      return {
+        durationSeconds,
+        width: rotated ? videoStream.height : videoStream.width,
+        height: rotated ? videoStream.width : videoStream.height,
+        recordedAt: recordedAt && !isNaN(recordedAt.getTime()) ? recordedAt : undefined,
+      };
+    });
+  }
+
+  async extractFrame(videoBuffer: Buffer, timestampSeconds: number): Promise<Buffer> {
+    return this.withTempFile(videoBuffer, (filePath) => this.grabFrame(filePath, timestampSeconds));
+  }
+
+  async extractKeyframes(
+    videoBuffer: Buffer,
+    intervalSeconds: number,
+    maxFrames: number
+  ): Promise<VideoFrame[]> {
+    const { durationSeconds } = await this.probe(videoBuffer);
+
+    // Widen the interval for long videos so sampling covers the whole clip
+    const interval = Math.max(intervalSeconds, durationSeconds / maxFrames);
+    const timestamps: number[] = [];
+    for (let t = 0; t < durationSeconds && timestamps.length < maxFrames; t += interval) {
+      timestamps.push(Math.round(t * 100) / 100);
+    }
+
+    return this.withTempFile(videoBuffer, async (filePath) => {
+      const frames: VideoFrame[] = [];
+      for (const timestampSeconds of timestamps) {
+        try {
+          frames.push({
+            timestampSeconds,
+            buffer: await this.grabFrame(filePath, timestampSeconds),
+          });
+        } catch (error) {
+          console.error(`[Video] Failed to extract frame at ${timestampSeconds}s:`, error);
+        }
+      }
+      return frames;
+    });
+  }
+
+  private async grabFrame(filePath: string, timestampSeconds: number): Promise<Buffer> {
+    const { stdout } = await execFileAsync(
+      this.ffmpegPath,
+      [
+        '-v', 'error',
+        '-ss', timestampSeconds.toString(),
+        '-i', filePath,
+        '-frames:v', '1',
+        '-q:v', '2',
+        '-f', 'image2',
+        '-vcodec', 'mjpeg',
+        'pipe:1',
+      ],
+      { encoding: 'buffer', maxBuffer: MAX_OUTPUT_BUFFER }
+    );
+
+    if (stdout.length === 0) {
+      throw new Error(`No frame found at ${timestampSeconds}s`);
+    }
+
+    return stdout;
+  }
+
+  /**
+   * ffmpeg needs a seekable input for most containers (e.g. MP4 with the index at the end)
+   */
+  private async withTempFile<T>(buffer: Buffer, fn: (filePath: string) => Promise<T>): Promise<T> {
+    const filePath = path.join(os.tmpdir(), `video-${nanoid()}`);
+    await fs.writeFile(filePath, buffer);
+
+    try {
+      return await fn(filePath);
+    } finally {
+      await fs.unlink(filePath).catch(() => undefined);
+    }
+  }
+}
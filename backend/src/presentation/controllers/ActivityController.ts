@@ -0,0 +1,29 @@
+import { Request, Response } from 'express';
+import { ListActivitiesUseCase } from '../../core/use-cases/ListActivitiesUseCase.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+
+export class ActivityController {
+  constructor(private listActivitiesUseCase: ListActivitiesUseCase) {}
+
+  /**
+   * List a group's activity feed, newest first
+   * GET /api/groups/:groupId/activities?limit=&cursor=
+   */
+  listByGroup = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await this.listActivitiesUseCase.execute({
+      groupId,
+      userId,
+      limit,
+      cursor: req.query.cursor as string | undefined,
+    });
+
+    return res.json({
+      success: true,
+      data: result,
+    });
+  });
+}
@@ -0,0 +1,181 @@
+import { Request, Response } from 'express';
+import { Album } from '../../core/entities/Album.js';
+import { CreateAlbumUseCase } from '../../core/use-cases/CreateAlbumUseCase.js';
+import { ListAlbumsUseCase } from '../../core/use-cases/ListAlbumsUseCase.js';
+import { UpdateAlbumUseCase } from '../../core/use-cases/UpdateAlbumUseCase.js';
+import { DeleteAlbumUseCase } from '../../core/use-cases/DeleteAlbumUseCase.js';
+import { AddAlbumMediaUseCase } from '../../core/use-cases/AddAlbumMediaUseCase.js';
+import { RemoveAlbumMediaUseCase } from '../../core/use-cases/RemoveAlbumMediaUseCase.js';
+import { ReorderAlbumMediaUseCase } from '../../core/use-cases/ReorderAlbumMediaUseCase.js';
+import { GetAlbumMediaUseCase } from '../../core/use-cases/GetAlbumMediaUseCase.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+
+export class AlbumController {
+  constructor(
+    private createAlbumUseCase: CreateAlbumUseCase,
+    private listAlbumsUseCase: ListAlbumsUseCase,
+    private updateAlbumUseCase: UpdateAlbumUseCase,
+    private deleteAlbumUseCase: DeleteAlbumUseCase,
+    private addAlbumMediaUseCase: AddAlbumMediaUseCase,
+    private removeAlbumMediaUseCase: RemoveAlbumMediaUseCase,
+    private reorderAlbumMediaUseCase: ReorderAlbumMediaUseCase,
+    private getAlbumMediaUseCase: GetAlbumMediaUseCase
+  ) {}
+
+  /**
+   * List a group's albums
+   * GET /api/groups/:groupId/albums
+   */
+  list = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+
+    const albums = await this.listAlbumsUseCase.execute(groupId, userId);
+
+    return res.json({
+      success: true,
+      data: albums,
+    });
+  });
+
+  /**
+   * Create an album, optionally with media in the given order
+   * POST /api/groups/:groupId/albums
+   */
+  create = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+    const { name, description, mediaIds } = req.body;
+
+    const album = await this.createAlbumUseCase.execute({
+      groupId,
+      userId,
+      name,
+      description,
+      mediaIds,
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: await this.listAlbumsUseCase.toSummary(album, true),
+      message: 'Album created successfully',
+    });
+  });
+
+  /**
+   * Rename an album, edit its description or pick its cover
+   * PATCH /api/albums/:albumId
+   */
+  update = asyncHandler(async (req: Request<{ albumId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { albumId } = req.params;
+    const { name, description, coverMediaId } = req.body;
+
+    const album = await this.updateAlbumUseCase.execute({
+      albumId,
+      userId,
+      name,
+      description,
+      coverMediaId,
+    });
+
+    return res.json({
+      success: true,
+      data: await this.toManagedSummary(album),
+      message: 'Album updated successfully',
+    });
+  });
+
+  /**
+   * Delete an album (its media stays in the group)
+   * DELETE /api/albums/:albumId
+   */
+  delete = asyncHandler(async (req: Request<{ albumId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { albumId } = req.params;
+
+    await this.deleteAlbumUseCase.execute({ albumId, userId });
+
+    return res.json({
+      success: true,
+      message: 'Album deleted successfully',
+    });
+  });
+
+  /**
+   * Get an album's media in album order
+   * GET /api/albums/:albumId/media
+   */
+  getMedia = asyncHandler(async (req: Request<{ albumId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { albumId } = req.params;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await this.getAlbumMediaUseCase.execute(albumId, userId, page, limit);
+
+    return res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  /**
+   * Add media to the end of an album
+   * POST /api/albums/:albumId/media
+   */
+  addMedia = asyncHandler(async (req: Request<{ albumId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { albumId } = req.params;
+    const { mediaIds } = req.body;
+
+    const album = await this.addAlbumMediaUseCase.execute({ albumId, userId, mediaIds });
+
+    return res.json({
+      success: true,
+      data: await this.toManagedSummary(album),
+      message: 'Added to album',
+    });
+  });
+
+  /**
+   * Take media out of an album
+   * POST /api/albums/:albumId/media/remove
+   */
+  removeMedia = asyncHandler(async (req: Request<{ albumId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { albumId } = req.params;
+    const { mediaIds } = req.body;
+
+    const album = await this.removeAlbumMediaUseCase.execute({ albumId, userId, mediaIds });
+
+    return res.json({
+      success: true,
+      data: await this.toManagedSummary(album),
+      message: 'Removed from album',
+    });
+  });
+
+  /**
+   * Save a new order for an album's media
+   * PUT /api/albums/:albumId/media/order
+   */
+  reorderMedia = asyncHandler(async (req: Request<{ albumId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { albumId } = req.params;
+    const { mediaIds } = req.body;
+
+    const album = await this.reorderAlbumMediaUseCase.execute({ albumId, userId, mediaIds });
+
+    return res.json({
+      success: true,
+      data: await this.toManagedSummary(album),
+      message: 'Album order saved',
+    });
+  });
+
+  // Every change above already required manage access
+  private toManagedSummary(album: Album) {
+    return this.listAlbumsUseCase.toSummary(album, true);
+  }
+}
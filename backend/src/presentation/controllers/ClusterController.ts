@@ -2,27 +2,48 @@ import { Request, Response } from 'express';
 import { GetClustersWithSamplesUseCase } from '../../core/use-cases/GetClustersWithSamplesUseCase.js';
 import { GetClusterMediaUseCase } from '../../core/use-cases/GetClusterMediaUseCase.js';
 import { MergeClustersUseCase } from '../../core/use-cases/MergeClustersUseCase.js';
+import { GetUnassignedFacesUseCase } from '../../core/use-cases/GetUnassignedFacesUseCase.js';
+import { AssignFaceToClusterUseCase } from '../../core/use-cases/AssignFaceToClusterUseCase.js';
+import { PromoteFaceToClusterUseCase } from '../../core/use-cases/PromoteFaceToClusterUseCase.js';
+import { GetClusterFacesUseCase } from '../../core/use-cases/GetClusterFacesUseCase.js';
+import { MoveClusterFacesUseCase, MoveClusterFacesResult } from '../../core/use-cases/MoveClusterFacesUseCase.js';
+import { SplitClusterUseCase } from '../../core/use-cases/SplitClusterUseCase.js';
+import { SearchFacesBySelfieUseCase } from '../../core/use-cases/SearchFacesBySelfieUseCase.js';
+import { LinkClusterToMemberUseCase } from '../../core/use-cases/LinkClusterToMemberUseCase.js';
+import { PinClusterCoverUseCase } from '../../core/use-cases/PinClusterCoverUseCase.js';
+import { RecordActivityUseCase } from '../../core/use-cases/RecordActivityUseCase.js';
 import { IFaceClusterRepository } from '../../core/interfaces/repositories/IFaceClusterRepository.js';
 import { IFaceClusterMemberRepository } from '../../core/interfaces/repositories/IFaceClusterRepository.js';
 import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
 import { IMediaRepository } from '../../core/interfaces/repositories/IMediaRepository.js';
 import { IFaceDetectionRepository } from '../../core/interfaces/repositories/IFaceDetectionRepository.js';
-import { IStorageService } from '../../core/interfaces/services/IStorageService.js';
+import { IMediaDeletionService } from '../../core/interfaces/services/IMediaDeletionService.js';
 import { asyncHandler } from '../middleware/asyncHandler.js';
 import { BadRequestError, NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
 import { RedisCacheService, CacheKeys, CacheTTL } from '../../infrastructure/cache/RedisCacheService.js';
+import { IMAGE_MIME_TYPES, ActivityType } from '../../shared/constants/index.js';
 
 export class ClusterController {
   constructor(
     private getClustersWithSamplesUseCase: GetClustersWithSamplesUseCase,
     private getClusterMediaUseCase: GetClusterMediaUseCase,
     private mergeClustersUseCase: MergeClustersUseCase,
+    private getUnassignedFacesUseCase: GetUnassignedFacesUseCase,
+    private assignFaceToClusterUseCase: AssignFaceToClusterUseCase,
+    private promoteFaceToClusterUseCase: PromoteFaceToClusterUseCase,
+    private getClusterFacesUseCase: GetClusterFacesUseCase,
+    private moveClusterFacesUseCase: MoveClusterFacesUseCase,
+    private splitClusterUseCase: SplitClusterUseCase,
+    private searchFacesBySelfieUseCase: SearchFacesBySelfieUseCase,
+    private linkClusterToMemberUseCase: LinkClusterToMemberUseCase,
+    private pinClusterCoverUseCase: PinClusterCoverUseCase,
+    private recordActivityUseCase: RecordActivityUseCase,
     private clusterRepository: IFaceClusterRepository,
     private clusterMemberRepository: IFaceClusterMemberRepository,
     private groupRepository: IGroupRepository,
     private mediaRepository: IMediaRepository,
     private faceDetectionRepository: IFaceDetectionRepository,
-    private storageService: IStorageService,
+    private mediaDeletionService: IMediaDeletionService,
     private cacheService: RedisCacheService
   ) {}
 
@@ -99,6 +120,16 @@ export class ClusterController {
     // Update cluster name
     const updatedCluster = await this.clusterRepository.updateName(clusterId, clusterName);
 
+    // Clearing a name isn't worth a feed entry
+    if (clusterName && clusterName !== cluster.clusterName) {
+      await this.recordActivityUseCase.execute({
+        groupId: cluster.groupId,
+        userId,
+        type: ActivityType.CLUSTER_NAMED,
+        metadata: { clusterId, clusterName, previousName: cluster.clusterName },
+      });
+    }
+
     // Invalidate caches
     await this.cacheService.delete(CacheKeys.cluster(clusterId));
     await this.cacheService.delete(CacheKeys.clustersByGroup(cluster.groupId));
@@ -157,55 +188,33 @@ export class ClusterController {
     const mediaIds = Array.from(uniqueMediaIds);
     console.log(`[Delete Cluster] Found ${mediaIds.length} unique media items to delete`);
 
-    // Step 3: Delete all media items (this cascades to face detections and cluster members)
-    let totalSizeFreed = 0;
-    const s3KeysToDelete: string[] = [];
-
-    for (const mediaId of mediaIds) {
-      const media = await this.mediaRepository.findById(mediaId);
-      if (media) {
-        // Collect S3 keys and file sizes
-        s3KeysToDelete.push(media.s3Key);
-        totalSizeFreed += media.fileSize;
-
-        // Delete all face detections for this media
-        const allFaceDetections = await this.faceDetectionRepository.findByMediaId(mediaId);
-        for (const fd of allFaceDetections) {
-          // Delete cluster members for each face detection
-          const member = await this.clusterMemberRepository.findByFaceDetectionId(fd.id);
-          if (member) {
-            await this.clusterMemberRepository.delete(member.id);
-          }
-          // Delete face detection
-          await this.faceDetectionRepository.delete(fd.id);
-        }
-
-        // Delete media from database
-        await this.mediaRepository.delete(mediaId);
-      }
-    }
-
-    // Step 4: Delete from S3
-    if (s3KeysToDelete.length > 0) {
-      await this.storageService.deleteFiles(s3KeysToDelete);
-      console.log(`[Delete Cluster] Deleted ${s3KeysToDelete.length} files from S3`);
-    }
+    // Step 3: Delete the media with their faces, files, comments and reactions
+    // (refunds the group's storage, and empties this cluster along the way)
+    const mediaItems = await this.mediaRepository.findByIds(mediaIds);
+    const { freedSpace, affectedClusterIds } = await this.mediaDeletionService.deleteMedia(
+      cluster.groupId,
+      mediaItems,
+      { userId, reason: 'cluster' }
+    );
 
-    // Step 5: Delete the cluster itself
+    // Step 4: Delete the cluster itself if anything is left of it
     await this.clusterRepository.delete(clusterId);
 
-    // Step 6: Update group storage usage
-    await this.groupRepository.updateStorageUsed(cluster.groupId, -totalSizeFreed);
-
-    // Step 7: Invalidate all relevant caches
+    // Step 5: Invalidate all relevant caches
     await this.cacheService.delete(CacheKeys.cluster(clusterId));
     await this.cacheService.delete(CacheKeys.clustersByGroup(cluster.groupId));
     await this.cacheService.deletePattern(`${CacheKeys.cluster(clusterId)}:media:*`);
     await this.cacheService.deletePattern(`media:group:${cluster.groupId}:page:*`);
     await this.cacheService.delete(CacheKeys.groupStorage(cluster.groupId));
 
+    // Other people in the deleted photos lost faces too
+    for (const affectedClusterId of affectedClusterIds) {
+      await this.cacheService.delete(CacheKeys.cluster(affectedClusterId));
+      await this.cacheService.deletePattern(`${CacheKeys.cluster(affectedClusterId)}:media:*`);
+    }
+
     console.log(
-      `[Delete Cluster] Successfully deleted cluster ${clusterId}, ${mediaIds.length} photos (${totalSizeFreed} bytes freed)`
+      `[Delete Cluster] Successfully deleted cluster ${clusterId}, ${mediaIds.length} photos (${freedSpace} bytes freed)`
     );
 
     return res.json({
@@ -253,6 +262,11 @@ export class ClusterController {
     // Delete the cluster member
     await this.clusterMemberRepository.delete(clusterMember.id);
 
+    // Clear the pinned cover if it was this face
+    if (cluster.coverFaceDetectionId === faceDetectionId) {
+      await this.clusterRepository.setCoverFace(clusterId, null);
+    }
+
     // Get remaining members to update cluster stats
     const remainingMembers = await this.clusterMemberRepository.findByClusterId(clusterId);
 
@@ -265,6 +279,7 @@ export class ClusterController {
       await this.cacheService.delete(CacheKeys.cluster(clusterId));
       await this.cacheService.delete(CacheKeys.clustersByGroup(cluster.groupId));
       await this.cacheService.deletePattern(`${CacheKeys.cluster(clusterId)}:media:*`);
+      await this.cacheService.delete(CacheKeys.unassignedFaces(cluster.groupId));
 
       return res.json({
         success: true,
@@ -274,13 +289,17 @@ export class ClusterController {
     } else {
       // Update cluster appearance count
       const updatedCluster = cluster.updateStats(remainingMembers.length, cluster.confidence);
-      await this.clusterRepository.update(clusterId, updatedCluster);
+      await this.clusterRepository.update(clusterId, {
+        appearanceCount: updatedCluster.appearanceCount,
+        confidence: updatedCluster.confidence,
+      });
       console.log(`[Remove Face] Updated cluster ${clusterId} appearance count to ${remainingMembers.length}`);
 
       // Invalidate caches
       await this.cacheService.delete(CacheKeys.cluster(clusterId));
       await this.cacheService.delete(CacheKeys.clustersByGroup(cluster.groupId));
       await this.cacheService.deletePattern(`${CacheKeys.cluster(clusterId)}:media:*`);
+      await this.cacheService.delete(CacheKeys.unassignedFaces(cluster.groupId));
 
       return res.json({
         success: true,
@@ -319,4 +338,286 @@ export class ClusterController {
       message: 'Clusters merged successfully',
     });
   });
+
+  /**
+   * List faces in a group that are not assigned to any cluster
+   * GET /api/groups/:groupId/faces/unassigned
+   */
+  listUnassignedFaces = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+
+    const faces = await this.cacheService.wrap(
+      CacheKeys.unassignedFaces(groupId),
+      async () => this.getUnassignedFacesUseCase.execute(groupId, userId),
+      CacheTTL.SHORT
+    );
+
+    return res.json({
+      success: true,
+      data: faces,
+    });
+  });
+
+  /**
+   * Assign an unassigned face to an existing cluster
+   * POST /api/groups/:groupId/faces/:faceDetectionId/assign
+   */
+  assignFace = asyncHandler(async (req: Request<{ groupId: string; faceDetectionId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { groupId, faceDetectionId } = req.params;
+    const { clusterId } = req.body;
+
+    const cluster = await this.assignFaceToClusterUseCase.execute({
+      groupId,
+      faceDetectionId,
+      clusterId,
+      userId,
+    });
+
+    // Invalidate caches
+    await this.cacheService.delete(CacheKeys.unassignedFaces(groupId));
+    await this.cacheService.delete(CacheKeys.cluster(clusterId));
+    await this.cacheService.delete(CacheKeys.clustersByGroup(groupId));
+    await this.cacheService.deletePattern(`${CacheKeys.cluster(clusterId)}:media:*`);
+
+    return res.json({
+      success: true,
+      data: cluster,
+      message: 'Face assigned to cluster successfully',
+    });
+  });
+
+  /**
+   * Promote an unassigned face to a new cluster
+   * POST /api/groups/:groupId/faces/:faceDetectionId/promote
+   */
+  promoteFace = asyncHandler(async (req: Request<{ groupId: string; faceDetectionId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { groupId, faceDetectionId } = req.params;
+    const { clusterName } = req.body;
+
+    const cluster = await this.promoteFaceToClusterUseCase.execute({
+      groupId,
+      faceDetectionId,
+      clusterName,
+      userId,
+    });
+
+    // Invalidate caches
+    await this.cacheService.delete(CacheKeys.unassignedFaces(groupId));
+    await this.cacheService.delete(CacheKeys.clustersByGroup(groupId));
+
+    return res.status(201).json({
+      success: true,
+      data: cluster,
+      message: 'New cluster created from face',
+    });
+  });
+
+  /**
+   * List the individual faces of a cluster
+   * GET /api/clusters/:clusterId/faces
+   */
+  getClusterFaces = asyncHandler(async (req: Request<{ clusterId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const clusterId = req.params.clusterId;
+
+    const faces = await this.getClusterFacesUseCase.execute(clusterId, userId);
+
+    return res.json({
+      success: true,
+      data: faces,
+    });
+  });
+
+  /**
+   * Move selected faces to another cluster
+   * POST /api/clusters/:clusterId/faces/move
+   */
+  moveFaces = asyncHandler(async (req: Request<{ clusterId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const sourceClusterId = req.params.clusterId;
+    const { faceDetectionIds, targetClusterId } = req.body;
+
+    const result = await this.moveClusterFacesUseCase.execute({
+      sourceClusterId,
+      targetClusterId,
+      faceDetectionIds,
+      userId,
+    });
+
+    await this.invalidateMoveCaches(sourceClusterId, result);
+
+    return res.json({
+      success: true,
+      data: result,
+      message: `${result.movedCount} face(s) moved successfully`,
+    });
+  });
+
+  /**
+   * Split selected faces out into a new cluster
+   * POST /api/clusters/:clusterId/split
+   */
+  splitCluster = asyncHandler(async (req: Request<{ clusterId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const clusterId = req.params.clusterId;
+    const { faceDetectionIds, clusterName } = req.body;
+
+    const result = await this.splitClusterUseCase.execute({
+      clusterId,
+      faceDetectionIds,
+      clusterName,
+      userId,
+    });
+
+    await this.invalidateMoveCaches(clusterId, result);
+
+    return res.status(201).json({
+      success: true,
+      data: result,
+      message: 'Cluster split successfully',
+    });
+  });
+
+  /**
+   * Find the clusters and photos matching an uploaded selfie
+   * POST /api/groups/:groupId/faces/search
+   * The selfie is only held in memory and never stored or indexed
+   */
+  searchBySelfie = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+
+    if (!req.file) {
+      throw new BadRequestError('No selfie uploaded');
+    }
+
+    if (!IMAGE_MIME_TYPES.includes(req.file.mimetype)) {
+      throw new BadRequestError('Selfie must be an image');
+    }
+
+    const result = await this.searchFacesBySelfieUseCase.execute({
+      groupId,
+      userId,
+      imageBuffer: req.file.buffer,
+    });
+
+    return res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  /**
+   * Claim a cluster as the current user
+   * POST /api/clusters/:clusterId/claim
+   */
+  claimCluster = asyncHandler(async (req: Request<{ clusterId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const clusterId = req.params.clusterId;
+
+    const cluster = await this.linkClusterToMemberUseCase.execute({
+      clusterId,
+      memberUserId: userId,
+      userId,
+    });
+
+    await this.cacheService.delete(CacheKeys.cluster(clusterId));
+    await this.cacheService.delete(CacheKeys.clustersByGroup(cluster.groupId));
+
+    return res.json({
+      success: true,
+      data: cluster,
+      message: 'Cluster claimed successfully',
+    });
+  });
+
+  /**
+   * Release the current user's claim on a cluster
+   * DELETE /api/clusters/:clusterId/claim
+   */
+  unclaimCluster = asyncHandler(async (req: Request<{ clusterId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const clusterId = req.params.clusterId;
+
+    const cluster = await this.linkClusterToMemberUseCase.execute({
+      clusterId,
+      memberUserId: null,
+      userId,
+    });
+
+    await this.cacheService.delete(CacheKeys.cluster(clusterId));
+    await this.cacheService.delete(CacheKeys.clustersByGroup(cluster.groupId));
+
+    return res.json({
+      success: true,
+      data: cluster,
+      message: 'Cluster claim removed',
+    });
+  });
+
+  /**
+   * Link a cluster to a group member (admin only)
+   * PUT /api/clusters/:clusterId/link
+   */
+  linkCluster = asyncHandler(async (req: Request<{ clusterId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const clusterId = req.params.clusterId;
+    const { memberUserId } = req.body;
+
+    const cluster = await this.linkClusterToMemberUseCase.execute({
+      clusterId,
+      memberUserId: memberUserId ?? null,
+      userId,
+    });
+
+    await this.cacheService.delete(CacheKeys.cluster(clusterId));
+    await this.cacheService.delete(CacheKeys.clustersByGroup(cluster.groupId));
+
+    return res.json({
+      success: true,
+      data: cluster,
+      message: memberUserId ? 'Cluster linked to member' : 'Cluster unlinked',
+    });
+  });
+
+  /**
+   * Pin a face as the cluster's cover, or clear the pin
+   * PUT /api/clusters/:clusterId/cover
+   */
+  pinCover = asyncHandler(async (req: Request<{ clusterId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const clusterId = req.params.clusterId;
+    const { faceDetectionId } = req.body;
+
+    const cluster = await this.pinClusterCoverUseCase.execute({
+      clusterId,
+      faceDetectionId: faceDetectionId ?? null,
+      userId,
+    });
+
+    await this.cacheService.delete(CacheKeys.cluster(clusterId));
+    await this.cacheService.delete(CacheKeys.clustersByGroup(cluster.groupId));
+
+    return res.json({
+      success: true,
+      data: cluster,
+      message: faceDetectionId ? 'Cover face pinned' : 'Cover face unpinned',
+    });
+  });
+
+  /**
+   * Invalidate caches of both clusters involved in a move or split
+   */
+  private async invalidateMoveCaches(sourceClusterId: string, result: MoveClusterFacesResult): Promise<void> {
+    const { targetCluster } = result;
+
+    for (const clusterId of [sourceClusterId, targetCluster.id]) {
+      await this.cacheService.delete(CacheKeys.cluster(clusterId));
+      await this.cacheService.deletePattern(`${CacheKeys.cluster(clusterId)}:media:*`);
+    }
+    await this.cacheService.delete(CacheKeys.clustersByGroup(targetCluster.groupId));
+  }
 }
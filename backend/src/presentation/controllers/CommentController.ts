@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import { Comment } from '../../core/entities/Comment.js';
+import { ListMediaCommentsUseCase } from '../../core/use-cases/ListMediaCommentsUseCase.js';
+import { AddCommentUseCase } from '../../core/use-cases/AddCommentUseCase.js';
+import { UpdateCommentUseCase } from '../../core/use-cases/UpdateCommentUseCase.js';
+import { DeleteCommentUseCase } from '../../core/use-cases/DeleteCommentUseCase.js';
+import { ToggleReactionUseCase } from '../../core/use-cases/ToggleReactionUseCase.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+
+export class CommentController {
+  constructor(
+    private listMediaCommentsUseCase: ListMediaCommentsUseCase,
+    private addCommentUseCase: AddCommentUseCase,
+    private updateCommentUseCase: UpdateCommentUseCase,
+    private deleteCommentUseCase: DeleteCommentUseCase,
+    private toggleReactionUseCase: ToggleReactionUseCase
+  ) {}
+
+  /**
+   * List comments and reactions on a media item
+   * GET /api/media/:id/comments
+   */
+  list = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const mediaId = req.params.id;
+
+    const result = await this.listMediaCommentsUseCase.execute(mediaId, userId);
+
+    return res.json({
+      success: true,
+      data: {
+        comments: result.comments.map(comment => this.toResponse(comment)),
+        reactions: result.reactions,
+      },
+    });
+  });
+
+  /**
+   * Comment on a media item or reply to a comment
+   * POST /api/media/:id/comments
+   */
+  create = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const mediaId = req.params.id;
+    const { body, parentId } = req.body;
+
+    const comment = await this.addCommentUseCase.execute({ mediaId, userId, body, parentId });
+
+    return res.status(201).json({
+      success: true,
+      data: this.toResponse(comment),
+      message: 'Comment added',
+    });
+  });
+
+  /**
+   * Edit a comment (author only)
+   * PATCH /api/comments/:commentId
+   */
+  update = asyncHandler(async (req: Request<{ commentId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { commentId } = req.params;
+
+    const comment = await this.updateCommentUseCase.execute({ commentId, userId, body: req.body.body });
+
+    return res.json({
+      success: true,
+      data: this.toResponse(comment),
+      message: 'Comment updated',
+    });
+  });
+
+  /**
+   * Delete a comment (author or group admin)
+   * DELETE /api/comments/:commentId
+   */
+  delete = asyncHandler(async (req: Request<{ commentId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { commentId } = req.params;
+
+    await this.deleteCommentUseCase.execute({ commentId, userId });
+
+    return res.json({
+      success: true,
+      message: 'Comment deleted',
+    });
+  });
+
+  /**
+   * Add an emoji reaction, or take it back if already left
+   * POST /api/media/:id/reactions
+   */
+  toggleReaction = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const mediaId = req.params.id;
+
+    const reactions = await this.toggleReactionUseCase.execute({ mediaId, userId, emoji: req.body.emoji });
+
+    return res.json({
+      success: true,
+      data: reactions,
+    });
+  });
+
+  private toResponse(comment: Comment) {
+    return {
+      id: comment.id,
+      mediaId: comment.mediaId,
+      authorId: comment.authorId,
+      body: comment.body,
+      parentId: comment.parentId,
+      editedAt: comment.editedAt,
+      isDeleted: comment.isDeleted(),
+      removedByAdmin: comment.wasModerated(),
+      createdAt: comment.createdAt,
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { SendEmailInvitationsUseCase } from '../../core/use-cases/SendEmailInvitationsUseCase.js';
+import { ListEmailInvitationsUseCase } from '../../core/use-cases/ListEmailInvitationsUseCase.js';
+import { ResendEmailInvitationUseCase } from '../../core/use-cases/ResendEmailInvitationUseCase.js';
+import { CancelEmailInvitationUseCase } from '../../core/use-cases/CancelEmailInvitationUseCase.js';
+import { GetEmailInvitationUseCase } from '../../core/use-cases/GetEmailInvitationUseCase.js';
+import { AcceptEmailInvitationUseCase } from '../../core/use-cases/AcceptEmailInvitationUseCase.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { RedisCacheService, CacheKeys } from '../../infrastructure/cache/RedisCacheService.js';
+
+export class EmailInvitationController {
+  constructor(
+    private sendEmailInvitationsUseCase: SendEmailInvitationsUseCase,
+    private listEmailInvitationsUseCase: ListEmailInvitationsUseCase,
+    private resendEmailInvitationUseCase: ResendEmailInvitationUseCase,
+    private cancelEmailInvitationUseCase: CancelEmailInvitationUseCase,
+    private getEmailInvitationUseCase: GetEmailInvitationUseCase,
+    private acceptEmailInvitationUseCase: AcceptEmailInvitationUseCase,
+    private cacheService: RedisCacheService
+  ) {}
+
+  /**
+   * List a group's pending email invitations (admin only)
+   * GET /api/groups/:groupId/email-invitations
+   */
+  list = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+
+    const invitations = await this.listEmailInvitationsUseCase.execute(groupId, userId);
+
+    return res.json({
+      success: true,
+      data: invitations,
+    });
+  });
+
+  /**
+   * Invite people by email address
+   * POST /api/groups/:groupId/email-invitations
+   */
+  send = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+    const { emails, role } = req.body;
+
+    const result = await this.sendEmailInvitationsUseCase.execute({ groupId, userId, emails, role });
+
+    return res.status(201).json({
+      success: true,
+      data: result,
+      message: `Sent ${result.invitations.length} ${result.invitations.length === 1 ? 'invitation' : 'invitations'}`,
+    });
+  });
+
+  /**
+   * Send a pending invitation again with a new link
+   * POST /api/groups/:groupId/email-invitations/:invitationId/resend
+   */
+  resend = asyncHandler(async (req: Request<{ groupId: string; invitationId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { groupId, invitationId } = req.params;
+
+    const invitation = await this.resendEmailInvitationUseCase.execute({ groupId, invitationId, userId });
+
+    return res.json({
+      success: true,
+      data: invitation,
+      message: 'Invitation resent',
+    });
+  });
+
+  /**
+   * Cancel a pending invitation
+   * DELETE /api/groups/:groupId/email-invitations/:invitationId
+   */
+  cancel = asyncHandler(async (req: Request<{ groupId: string; invitationId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { groupId, invitationId } = req.params;
+
+    await this.cancelEmailInvitationUseCase.execute({ groupId, invitationId, userId });
+
+    return res.json({
+      success: true,
+      message: 'Invitation cancelled',
+    });
+  });
+
+  /**
+   * Describe an invitation for the page its emailed link opens
+   * GET /api/public/invitations/:token
+   */
+  preview = asyncHandler(async (req: Request<{ token: string }>, res: Response) => {
+    const invitation = await this.getEmailInvitationUseCase.execute(req.params.token);
+
+    return res.json({
+      success: true,
+      data: invitation,
+    });
+  });
+
+  /**
+   * Join the group with an invitation token
+   * POST /api/invitations/:token/accept
+   */
+  accept = asyncHandler(async (req: Request<{ token: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+
+    const group = await this.acceptEmailInvitationUseCase.execute({ token: req.params.token, userId });
+
+    // Invalidate caches
+    await this.cacheService.deletePattern(`${CacheKeys.groupsByUser(userId)}*`);
+    await this.cacheService.deletePattern(`${CacheKeys.group(group.id)}*`);
+    await this.cacheService.delete(CacheKeys.groupMembers(group.id));
+
+    return res.json({
+      success: true,
+      data: group,
+      message: 'Successfully joined group',
+    });
+  });
+}
@@ -3,10 +3,17 @@ import { CreateGroupUseCase } from '../../core/use-cases/CreateGroupUseCase.js';
 import { JoinGroupUseCase } from '../../core/use-cases/JoinGroupUseCase.js';
 import { UpdateGroupUseCase } from '../../core/use-cases/UpdateGroupUseCase.js';
 import { DeleteGroupUseCase } from '../../core/use-cases/DeleteGroupUseCase.js';
+import { RemoveDuplicateMediaUseCase } from '../../core/use-cases/RemoveDuplicateMediaUseCase.js';
+import { LeaveGroupUseCase } from '../../core/use-cases/LeaveGroupUseCase.js';
+import { TransferOwnershipUseCase } from '../../core/use-cases/TransferOwnershipUseCase.js';
 import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
 import { IMediaRepository } from '../../core/interfaces/repositories/IMediaRepository.js';
 import { IUserRepository } from '../../core/interfaces/repositories/IUserRepository.js';
+import { IFaceClusterRepository } from '../../core/interfaces/repositories/IFaceClusterRepository.js';
+import { IPersonRepository } from '../../core/interfaces/repositories/IPersonRepository.js';
 import { IQueueService } from '../../core/interfaces/services/IQueueService.js';
+import { IMediaDeletionService } from '../../core/interfaces/services/IMediaDeletionService.js';
+import { Media } from '../../core/entities/Media.js';
 import { asyncHandler } from '../middleware/asyncHandler.js';
 import { NotFoundError, ForbiddenError, BadRequestError } from '../../shared/errors/AppError.js';
 import { MemberRole, JobType } from '../../shared/constants/index.js';
@@ -19,10 +26,16 @@ export class GroupController {
     private joinGroupUseCase: JoinGroupUseCase,
     private updateGroupUseCase: UpdateGroupUseCase,
     private deleteGroupUseCase: DeleteGroupUseCase,
+    private removeDuplicateMediaUseCase: RemoveDuplicateMediaUseCase,
+    private leaveGroupUseCase: LeaveGroupUseCase,
+    private transferOwnershipUseCase: TransferOwnershipUseCase,
     private groupRepository: IGroupRepository,
     private mediaRepository: IMediaRepository,
     private userRepository: IUserRepository,
+    private faceClusterRepository: IFaceClusterRepository,
+    private personRepository: IPersonRepository,
     private queueService: IQueueService,
+    private mediaDeletionService: IMediaDeletionService,
     private cacheService: RedisCacheService
   ) {}
 
@@ -49,17 +62,28 @@ export class GroupController {
   join = asyncHandler(async (req: Request, res: Response) => {
     const userId = req.auth!.userId;
 
-    const group = await this.joinGroupUseCase.execute({
+    const result = await this.joinGroupUseCase.execute({
       inviteCode: req.body.inviteCode,
       userId,
     });
 
+    // Nothing changes until an admin approves the request
+    if (result.status === 'pending') {
+      return res.status(202).json({
+        success: true,
+        data: result.request,
+        message: 'Your request to join has been sent to the group admins',
+      });
+    }
+
+    const { group } = result;
+
     // Invalidate caches
     await this.cacheService.deletePattern(`${CacheKeys.groupsByUser(userId)}*`); // New member's group list
     await this.cacheService.deletePattern(`${CacheKeys.group(group.id)}*`); // Group cache for all members
     await this.cacheService.delete(CacheKeys.groupMembers(group.id)); // Group members cache
 
-    res.json({
+    return res.json({
       success: true,
       data: group,
       message: 'Successfully joined group',
@@ -233,6 +257,11 @@ export class GroupController {
       throw new BadRequestError('Invalid role');
     }
 
+    // The owner stays an admin until ownership is transferred
+    if (memberId === group.creatorId && role && role !== MemberRole.ADMIN) {
+      throw new ForbiddenError('The group owner must remain an admin');
+    }
+
     // Update the group using updateMember method
     const updatedGroup = group.updateMember(memberId, { role, permissions });
 
@@ -255,7 +284,7 @@ export class GroupController {
    * Remove member from group
    * DELETE /api/groups/:groupId/members/:memberId
    */
-  removeMember = asyncHandler(async (req: Request, res: Response) => {
+  removeMember = asyncHandler(async (req: Request<{ groupId: string; memberId: string }>, res: Response) => {
     const userId = req.auth!.userId;
     const { groupId, memberId } = req.params;
 
@@ -280,9 +309,24 @@ export class GroupController {
       throw new NotFoundError('Member not found in this group');
     }
 
+    // The owner leaves on their own, handing the group over first
+    if (memberId === group.creatorId) {
+      throw new ForbiddenError('Cannot remove the group owner');
+    }
+
     // Remove member using repository
     await this.groupRepository.removeMember(groupId, memberId);
 
+    // Release the cluster the member was linked to
+    const linkedCluster = await this.faceClusterRepository.findByLinkedUser(groupId, memberId);
+    if (linkedCluster) {
+      await this.faceClusterRepository.setLinkedUser(linkedCluster.id, null);
+      await this.cacheService.delete(CacheKeys.clustersByGroup(groupId));
+    }
+
+    // The member can no longer see this group, so drop it from their people
+    await this.personRepository.removeGroupLinks(memberId, groupId);
+
     // Invalidate caches
     await this.cacheService.delete(CacheKeys.group(groupId));
     await this.cacheService.delete(CacheKeys.groupMembers(groupId));
@@ -294,6 +338,72 @@ export class GroupController {
     });
   });
 
+  /**
+   * Leave a group, keeping or deleting your uploads
+   * POST /api/groups/:id/leave
+   */
+  leave = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.id;
+    const { uploads, newOwnerId } = req.body;
+
+    const result = await this.leaveGroupUseCase.execute({ groupId, userId, uploads, newOwnerId });
+
+    // Invalidate caches
+    await this.cacheService.deletePattern(`${CacheKeys.group(groupId)}*`);
+    await this.cacheService.delete(CacheKeys.groupMembers(groupId));
+    await this.invalidateGroupLists([userId, ...result.memberIds]);
+    await this.cacheService.delete(CacheKeys.clustersByGroup(groupId));
+
+    if (result.deletedCount > 0) {
+      await this.cacheService.deletePattern(`media:group:${groupId}:page:*`);
+      await this.cacheService.delete(CacheKeys.groupStorage(groupId));
+      await this.cacheService.delete(CacheKeys.unassignedFaces(groupId));
+      for (const clusterId of result.affectedClusterIds) {
+        await this.cacheService.deletePattern(`${CacheKeys.cluster(clusterId)}:media:*`);
+      }
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        deletedCount: result.deletedCount,
+        freedSpace: result.freedSpace,
+        newOwnerId: result.newOwnerId,
+      },
+      message:
+        result.deletedCount > 0
+          ? `Left the group and deleted ${result.deletedCount} uploads, freed ${Math.round(result.freedSpace / 1024 / 1024)} MB`
+          : 'Left the group',
+    });
+  });
+
+  /**
+   * Hand the group to another admin (owner only)
+   * POST /api/groups/:id/transfer-ownership
+   */
+  transferOwnership = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.id;
+
+    const group = await this.transferOwnershipUseCase.execute({
+      groupId,
+      userId,
+      newOwnerId: req.body.newOwnerId,
+    });
+
+    // Invalidate caches
+    await this.cacheService.deletePattern(`${CacheKeys.group(groupId)}*`);
+    await this.cacheService.delete(CacheKeys.groupMembers(groupId));
+    await this.invalidateGroupLists(group.members.map(m => m.userId));
+
+    return res.json({
+      success: true,
+      data: group,
+      message: 'Ownership transferred',
+    });
+  });
+
   /**
    * Trigger face reclustering for a group
    * POST /api/groups/:id/recluster
@@ -335,10 +445,10 @@ export class GroupController {
    * Cleanup media in a group
    * POST /api/groups/:id/cleanup
    */
-  cleanup = asyncHandler(async (req: Request, res: Response) => {
+  cleanup = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
     const userId = req.auth!.userId;
     const groupId = req.params.id;
-    const { deleteOlderThan, deleteLargerThan, deleteUnprocessed } = req.body;
+    const { deleteOlderThan, deleteLargerThan, deleteUnprocessed, deleteDuplicates } = req.body;
 
     // Verify user is admin of the group
     const group = await this.groupRepository.findByIdAndUserId(groupId, userId);
@@ -350,48 +460,53 @@ export class GroupController {
       throw new ForbiddenError('Admin access required');
     }
 
-    let deletedCount = 0;
-    let freedSpace = 0;
+    // Collect matches first so media matching several filters is deleted once
+    const toDelete = new Map<string, Media>();
+    const collect = (mediaItems: Media[]) => mediaItems.forEach(m => toDelete.set(m.id, m));
 
-    // Delete old media
+    // Old media
     if (deleteOlderThan) {
       const cutoffDate = new Date(deleteOlderThan);
-      const oldMedia = await this.mediaRepository.findByGroupIdAndDate(groupId, null, cutoffDate);
-
-      for (const media of oldMedia) {
-        freedSpace += media.fileSize;
-        await this.mediaRepository.delete(media.id);
-        deletedCount++;
-      }
+      collect(await this.mediaRepository.findByGroupIdAndDate(groupId, null, cutoffDate));
     }
 
-    // Delete large files
+    // Large files
     if (deleteLargerThan) {
-      const largeMedia = await this.mediaRepository.findByGroupIdAndSize(groupId, deleteLargerThan);
-
-      for (const media of largeMedia) {
-        freedSpace += media.fileSize;
-        await this.mediaRepository.delete(media.id);
-        deletedCount++;
-      }
+      collect(await this.mediaRepository.findByGroupIdAndSize(groupId, deleteLargerThan));
     }
 
-    // Delete unprocessed media
+    // Unprocessed media
     if (deleteUnprocessed) {
-      const unprocessedMedia = await this.mediaRepository.findUnprocessedByGroupId(groupId);
+      collect(await this.mediaRepository.findUnprocessedByGroupId(groupId));
+    }
 
-      for (const media of unprocessedMedia) {
-        freedSpace += media.fileSize;
-        await this.mediaRepository.delete(media.id);
-        deletedCount++;
+    // Deletes faces, files, comments and reactions too, and refunds the group's storage
+    const deleted = await this.mediaDeletionService.deleteMedia(groupId, [...toDelete.values()], {
+      userId,
+      reason: 'cleanup',
+    });
+    let deletedCount = deleted.deletedCount;
+    let freedSpace = deleted.freedSpace;
+    const affectedClusterIds = new Set(deleted.affectedClusterIds);
+
+    // Remove duplicates last, keeping the suggested copy of each set (refunds storage itself)
+    if (deleteDuplicates) {
+      const result = await this.removeDuplicateMediaUseCase.execute({ groupId, userId });
+      deletedCount += result.deletedCount;
+      freedSpace += result.freedSpace;
+      result.affectedClusterIds.forEach(id => affectedClusterIds.add(id));
+    }
+
+    if (affectedClusterIds.size > 0) {
+      await this.cacheService.delete(CacheKeys.clustersByGroup(groupId));
+      await this.cacheService.delete(CacheKeys.unassignedFaces(groupId));
+      for (const clusterId of affectedClusterIds) {
+        await this.cacheService.delete(CacheKeys.cluster(clusterId));
+        await this.cacheService.deletePattern(`${CacheKeys.cluster(clusterId)}:media:*`);
       }
     }
 
-    // Update group storage
     if (deletedCount > 0) {
-      group.updateStorage(-freedSpace);
-      await this.groupRepository.update(groupId, group);
-
       // Invalidate caches
       await this.cacheService.delete(CacheKeys.group(groupId));
       await this.cacheService.delete(CacheKeys.groupStorage(groupId));
@@ -415,7 +530,7 @@ export class GroupController {
   update = asyncHandler(async (req: Request, res: Response) => {
     const userId = req.auth!.userId;
     const groupId = req.params.id;
-    const { name, description, storageLimit, autoDeleteDays } = req.body;
+    const { name, description, storageLimit, autoDeleteDays, clusteringSettings, requireApproval } = req.body;
 
     const updatedGroup = await this.updateGroupUseCase.execute({
       groupId,
@@ -424,6 +539,8 @@ export class GroupController {
       description,
       storageLimit,
       autoDeleteDays,
+      clusteringSettings,
+      requireApproval,
     });
 
     // Invalidate caches
@@ -464,6 +581,15 @@ export class GroupController {
     });
   });
 
+  /**
+   * Clear the cached group lists of the given users, e.g. everyone whose list shows a changed membership
+   */
+  private async invalidateGroupLists(userIds: string[]): Promise<void> {
+    for (const userId of new Set(userIds)) {
+      await this.cacheService.deletePattern(`${CacheKeys.groupsByUser(userId)}*`);
+    }
+  }
+
   /**
    * Helper method to populate user information for group members
    */
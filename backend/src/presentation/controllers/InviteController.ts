@@ -0,0 +1,111 @@
+import { Request, Response } from 'express';
+import { CreateInviteUseCase } from '../../core/use-cases/CreateInviteUseCase.js';
+import { ListInvitesUseCase } from '../../core/use-cases/ListInvitesUseCase.js';
+import { RevokeInviteUseCase } from '../../core/use-cases/RevokeInviteUseCase.js';
+import { RegenerateInviteCodeUseCase } from '../../core/use-cases/RegenerateInviteCodeUseCase.js';
+import { GetInvitePreviewUseCase } from '../../core/use-cases/GetInvitePreviewUseCase.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { RedisCacheService, CacheKeys } from '../../infrastructure/cache/RedisCacheService.js';
+
+export class InviteController {
+  constructor(
+    private createInviteUseCase: CreateInviteUseCase,
+    private listInvitesUseCase: ListInvitesUseCase,
+    private revokeInviteUseCase: RevokeInviteUseCase,
+    private regenerateInviteCodeUseCase: RegenerateInviteCodeUseCase,
+    private getInvitePreviewUseCase: GetInvitePreviewUseCase,
+    private cacheService: RedisCacheService
+  ) {}
+
+  /**
+   * List a group's named invites (admin only)
+   * GET /api/groups/:groupId/invites
+   */
+  list = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+
+    const invites = await this.listInvitesUseCase.execute(groupId, userId);
+
+    return res.json({
+      success: true,
+      data: invites,
+    });
+  });
+
+  /**
+   * Create a named invite with its own code, role, expiry and use limit
+   * POST /api/groups/:groupId/invites
+   */
+  create = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+    const { role, label, expiresAt, maxUses } = req.body;
+
+    const invite = await this.createInviteUseCase.execute({
+      groupId,
+      userId,
+      role,
+      label,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      maxUses,
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: await this.listInvitesUseCase.toSummary(invite),
+      message: 'Invite created',
+    });
+  });
+
+  /**
+   * Revoke a named invite
+   * DELETE /api/groups/:groupId/invites/:inviteId
+   */
+  revoke = asyncHandler(async (req: Request<{ groupId: string; inviteId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { groupId, inviteId } = req.params;
+
+    const invite = await this.revokeInviteUseCase.execute({ groupId, inviteId, userId });
+
+    return res.json({
+      success: true,
+      data: await this.listInvitesUseCase.toSummary(invite),
+      message: 'Invite revoked',
+    });
+  });
+
+  /**
+   * Replace the group's permanent invite code
+   * POST /api/groups/:groupId/invite-code/regenerate
+   */
+  regenerateCode = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+
+    const group = await this.regenerateInviteCodeUseCase.execute({ groupId, userId });
+
+    // Cached group details still carry the old code
+    await this.cacheService.delete(CacheKeys.group(groupId));
+    await this.cacheService.deletePattern(`${CacheKeys.groupsByUser('*')}`);
+
+    return res.json({
+      success: true,
+      data: { inviteCode: group.inviteCode },
+      message: 'Invite code regenerated',
+    });
+  });
+
+  /**
+   * Describe what an invite code grants, before joining
+   * GET /api/public/invites/:code
+   */
+  preview = asyncHandler(async (req: Request<{ code: string }>, res: Response) => {
+    const preview = await this.getInvitePreviewUseCase.execute(req.params.code);
+
+    return res.json({
+      success: true,
+      data: preview,
+    });
+  });
+}
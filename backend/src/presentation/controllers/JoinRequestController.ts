@@ -0,0 +1,71 @@
+import { Request, Response } from 'express';
+import { ListJoinRequestsUseCase } from '../../core/use-cases/ListJoinRequestsUseCase.js';
+import { ReviewJoinRequestUseCase } from '../../core/use-cases/ReviewJoinRequestUseCase.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { RedisCacheService, CacheKeys } from '../../infrastructure/cache/RedisCacheService.js';
+
+export class JoinRequestController {
+  constructor(
+    private listJoinRequestsUseCase: ListJoinRequestsUseCase,
+    private reviewJoinRequestUseCase: ReviewJoinRequestUseCase,
+    private cacheService: RedisCacheService
+  ) {}
+
+  /**
+   * List requests waiting for approval (admin only)
+   * GET /api/groups/:groupId/join-requests
+   */
+  list = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+
+    const requests = await this.listJoinRequestsUseCase.execute(groupId, userId);
+
+    return res.json({
+      success: true,
+      data: requests,
+    });
+  });
+
+  /**
+   * Approve a request and add the requester to the group
+   * POST /api/groups/:groupId/join-requests/:requestId/approve
+   */
+  approve = asyncHandler(async (req: Request<{ groupId: string; requestId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { groupId, requestId } = req.params;
+
+    const { group, requesterId } = await this.reviewJoinRequestUseCase.execute({
+      groupId,
+      requestId,
+      userId,
+      decision: 'approved',
+    });
+
+    // Invalidate caches
+    await this.cacheService.deletePattern(`${CacheKeys.groupsByUser(requesterId)}*`); // New member's group list
+    await this.cacheService.deletePattern(`${CacheKeys.group(group.id)}*`);
+    await this.cacheService.delete(CacheKeys.groupMembers(group.id));
+
+    return res.json({
+      success: true,
+      message: 'Join request approved',
+    });
+  });
+
+  /**
+   * Deny a request
+   * POST /api/groups/:groupId/join-requests/:requestId/deny
+   */
+  deny = asyncHandler(async (req: Request<{ groupId: string; requestId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { groupId, requestId } = req.params;
+
+    await this.reviewJoinRequestUseCase.execute({ groupId, requestId, userId, decision: 'denied' });
+
+    return res.json({
+      success: true,
+      message: 'Join request denied',
+    });
+  });
+}
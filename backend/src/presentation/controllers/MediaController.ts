@@ -2,14 +2,27 @@ import { Request, Response } from 'express';
 import archiver from 'archiver';
 import { UploadMediaUseCase } from '../../core/use-cases/UploadMediaUseCase.js';
 import { DownloadMediaBulkUseCase } from '../../core/use-cases/DownloadMediaBulkUseCase.js';
+import { ReprocessMediaUseCase } from '../../core/use-cases/ReprocessMediaUseCase.js';
+import { BackfillDerivativesUseCase } from '../../core/use-cases/BackfillDerivativesUseCase.js';
+import { FindDuplicateMediaUseCase } from '../../core/use-cases/FindDuplicateMediaUseCase.js';
+import { UpdateMediaAnnotationsUseCase } from '../../core/use-cases/UpdateMediaAnnotationsUseCase.js';
+import { SearchMediaUseCase } from '../../core/use-cases/SearchMediaUseCase.js';
+import { SetFavoriteUseCase } from '../../core/use-cases/SetFavoriteUseCase.js';
+import { SetHighlightUseCase } from '../../core/use-cases/SetHighlightUseCase.js';
+import { ListFavoritesUseCase } from '../../core/use-cases/ListFavoritesUseCase.js';
+import { ListHighlightsUseCase } from '../../core/use-cases/ListHighlightsUseCase.js';
+import { SuggestHighlightsUseCase } from '../../core/use-cases/SuggestHighlightsUseCase.js';
+import { Media } from '../../core/entities/Media.js';
+import { presignDerivatives } from '../../core/use-cases/GetClusterMediaUseCase.js';
 import { IMediaRepository } from '../../core/interfaces/repositories/IMediaRepository.js';
 import { IGroupRepository } from '../../core/interfaces/repositories/IGroupRepository.js';
 import { IStorageService } from '../../core/interfaces/services/IStorageService.js';
-import { IFaceDetectionRepository } from '../../core/interfaces/repositories/IFaceDetectionRepository.js';
-import { IFaceClusterRepository, IFaceClusterMemberRepository } from '../../core/interfaces/repositories/IFaceClusterRepository.js';
+import { IMediaDeletionService } from '../../core/interfaces/services/IMediaDeletionService.js';
+import { ICommentRepository, IReactionRepository } from '../../core/interfaces/repositories/ICommentRepository.js';
+import { IFavoriteRepository, IHighlightRepository } from '../../core/interfaces/repositories/IFavoriteRepository.js';
 import { asyncHandler } from '../middleware/asyncHandler.js';
 import { BadRequestError, NotFoundError, ForbiddenError } from '../../shared/errors/AppError.js';
-import { UploadedFile } from '../../shared/types/index.js';
+import { UploadedFile, DownloadVariantType } from '../../shared/types/index.js';
 import { RedisCacheService, CacheKeys, CacheTTL } from '../../infrastructure/cache/RedisCacheService.js';
 
 export class MediaController {
@@ -17,12 +30,24 @@ export class MediaController {
 
   constructor(
     private uploadMediaUseCase: UploadMediaUseCase,
+    private reprocessMediaUseCase: ReprocessMediaUseCase,
+    private backfillDerivativesUseCase: BackfillDerivativesUseCase,
+    private findDuplicateMediaUseCase: FindDuplicateMediaUseCase,
+    private updateMediaAnnotationsUseCase: UpdateMediaAnnotationsUseCase,
+    private searchMediaUseCase: SearchMediaUseCase,
+    private setFavoriteUseCase: SetFavoriteUseCase,
+    private setHighlightUseCase: SetHighlightUseCase,
+    private listFavoritesUseCase: ListFavoritesUseCase,
+    private listHighlightsUseCase: ListHighlightsUseCase,
+    private suggestHighlightsUseCase: SuggestHighlightsUseCase,
     private mediaRepository: IMediaRepository,
     private groupRepository: IGroupRepository,
     private storageService: IStorageService,
-    private faceDetectionRepository: IFaceDetectionRepository,
-    private faceClusterRepository: IFaceClusterRepository,
-    private faceClusterMemberRepository: IFaceClusterMemberRepository,
+    private mediaDeletionService: IMediaDeletionService,
+    private commentRepository: ICommentRepository,
+    private reactionRepository: IReactionRepository,
+    private favoriteRepository: IFavoriteRepository,
+    private highlightRepository: IHighlightRepository,
     private cacheService: RedisCacheService
   ) {
     this.downloadMediaBulkUseCase = new DownloadMediaBulkUseCase(
@@ -63,23 +88,30 @@ export class MediaController {
     await this.cacheService.deletePattern(`media:group:${groupId}:page:*`);
     await this.cacheService.delete(CacheKeys.groupStorage(groupId));
 
+    const skipped = result.duplicates.length > 0
+      ? ` Skipped ${result.duplicates.length} duplicate(s) already in this group.`
+      : '';
+
     return res.status(201).json({
       success: true,
       data: result.media,
+      duplicates: result.duplicates,
       jobId: result.jobId,
-      message: `Successfully uploaded ${result.media.length} file(s). Face detection job queued.`,
+      message: `Successfully uploaded ${result.media.length} file(s). Face detection job queued.${skipped}`,
     });
   });
 
   /**
-   * List media for a group
-   * GET /api/groups/:groupId/media
+   * List media for a group, newest capture time first
+   * GET /api/groups/:groupId/media?takenFrom=&takenTo=
    */
-  listByGroup = asyncHandler(async (req: Request, res: Response) => {
+  listByGroup = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
     const userId = req.auth!.userId;
     const groupId = req.params.groupId;
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
+    const takenFrom = req.query.takenFrom ? new Date(req.query.takenFrom as string) : undefined;
+    const takenTo = req.query.takenTo ? new Date(req.query.takenTo as string) : undefined;
 
     // Verify user is a member of the group
     const group = await this.groupRepository.findByIdAndUserId(groupId, userId);
@@ -88,32 +120,246 @@ export class MediaController {
     }
 
     // Cache media list (5 min TTL - fresher data for media updates)
-    const cacheKey = CacheKeys.mediaByGroup(groupId, page);
+    // Filtered lists get their own key under the same prefix so uploads still invalidate them
+    const cacheKey =
+      takenFrom || takenTo
+        ? `${CacheKeys.mediaByGroup(groupId, page)}:taken:${takenFrom?.getTime() ?? ''}-${takenTo?.getTime() ?? ''}`
+        : CacheKeys.mediaByGroup(groupId, page);
     const result = await this.cacheService.wrap(
       cacheKey,
-      async () => this.mediaRepository.findByGroupId(groupId, { page, limit }),
+      async () => this.mediaRepository.findByGroupId(groupId, { page, limit }, { takenFrom, takenTo }),
       CacheTTL.SHORT
     );
 
     // Generate presigned URLs for each media item (don't cache URLs as they expire)
-    const mediaWithUrls = await Promise.all(
-      result.data.map(async (media) => ({
-        id: media.id,
-        groupId: media.groupId,
-        uploaderId: media.uploaderId,
-        originalName: media.originalName,
-        fileSize: media.fileSize,
-        mimeType: media.mimeType,
-        isProcessed: media.processed,
-        createdAt: media.createdAt,
-        presignedUrl: await this.storageService.getPresignedUrl(media.s3Key, 3600),
+    const mediaWithUrls = await Promise.all(result.data.map(this.toListItem));
+
+    return res.json({
+      success: true,
+      data: await this.withEngagement(mediaWithUrls, userId),
+      pagination: result.pagination,
+    });
+  });
+
+  /**
+   * Search media by caption, tags and filename, combined with the gallery filters
+   * GET /api/groups/:groupId/media/search?q=&tags=&uploaderId=&clusterId=&takenFrom=&takenTo=
+   */
+  search = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const tags = req.query.tags ? (req.query.tags as string).split(',') : undefined;
+
+    // Results aren't cached, the combinations of filters are too varied
+    const result = await this.searchMediaUseCase.execute({
+      groupId,
+      userId,
+      query: req.query.q as string | undefined,
+      tags,
+      uploaderId: req.query.uploaderId as string | undefined,
+      clusterId: req.query.clusterId as string | undefined,
+      takenFrom: req.query.takenFrom ? new Date(req.query.takenFrom as string) : undefined,
+      takenTo: req.query.takenTo ? new Date(req.query.takenTo as string) : undefined,
+      page,
+      limit,
+    });
+
+    return res.json({
+      success: true,
+      data: await this.withEngagement(await Promise.all(result.data.map(this.toListItem)), userId),
+      pagination: result.pagination,
+    });
+  });
+
+  /**
+   * List the media the current user starred in a group
+   * GET /api/groups/:groupId/media/favorites
+   */
+  listFavorites = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await this.listFavoritesUseCase.execute({ groupId, userId, page, limit });
+
+    return res.json({
+      success: true,
+      data: await this.withEngagement(await Promise.all(result.data.map(this.toListItem)), userId),
+      pagination: result.pagination,
+    });
+  });
+
+  /**
+   * List the group's highlights
+   * GET /api/groups/:groupId/media/highlights
+   */
+  listHighlights = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await this.listHighlightsUseCase.execute({ groupId, userId, page, limit });
+
+    return res.json({
+      success: true,
+      data: await this.withEngagement(await Promise.all(result.data.map(this.toListItem)), userId),
+      pagination: result.pagination,
+    });
+  });
+
+  /**
+   * Media ranked as likely highlights, with why each was suggested (admin only)
+   * GET /api/groups/:groupId/media/highlights/suggested
+   */
+  suggestHighlights = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const suggestions = await this.suggestHighlightsUseCase.execute({ groupId, userId, limit });
+
+    const data = await Promise.all(
+      suggestions.map(async suggestion => ({
+        media: await this.toListItem(suggestion.media),
+        score: Math.round(suggestion.score * 100) / 100,
+        favoriteCount: suggestion.favoriteCount,
+        people: suggestion.people,
+        bestFaceQuality: suggestion.bestFaceQuality,
       }))
     );
 
     return res.json({
       success: true,
-      data: mediaWithUrls,
-      pagination: result.pagination,
+      data,
+    });
+  });
+
+  /**
+   * Tags used in a group with how often, for autocomplete
+   * GET /api/groups/:groupId/media/tags?q=
+   */
+  listTags = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+    const prefix = (req.query.q as string | undefined)?.trim().toLowerCase() || undefined;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const group = await this.groupRepository.findByIdAndUserId(groupId, userId);
+    if (!group) {
+      throw new NotFoundError('Group not found or you do not have access');
+    }
+
+    const tags = await this.mediaRepository.findTagsByGroupId(groupId, prefix, limit);
+
+    return res.json({
+      success: true,
+      data: tags,
+    });
+  });
+
+  /**
+   * Requeue face detection for failed or stuck media
+   * POST /api/groups/:groupId/media/reprocess
+   */
+  reprocess = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+    const { mediaIds } = req.body;
+
+    const result = await this.reprocessMediaUseCase.execute({
+      groupId,
+      userId,
+      mediaIds,
+    });
+
+    // Invalidate media list cache and anything the cleared faces were part of
+    await this.cacheService.deletePattern(`media:group:${groupId}:page:*`);
+    if (result.affectedClusterIds.length > 0) {
+      await this.cacheService.delete(CacheKeys.clustersByGroup(groupId));
+      await this.cacheService.delete(CacheKeys.unassignedFaces(groupId));
+      for (const clusterId of result.affectedClusterIds) {
+        await this.cacheService.delete(CacheKeys.cluster(clusterId));
+        await this.cacheService.deletePattern(`${CacheKeys.cluster(clusterId)}:media:*`);
+      }
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        requeuedCount: result.requeuedCount,
+      },
+      jobId: result.jobId,
+      message: result.requeuedCount > 0
+        ? `Requeued ${result.requeuedCount} item(s) for processing`
+        : 'Nothing to reprocess',
+    });
+  });
+
+  /**
+   * List exact and near-duplicate sets with a suggested copy to keep
+   * GET /api/groups/:groupId/media/duplicates
+   */
+  listDuplicates = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+
+    const result = await this.findDuplicateMediaUseCase.execute({ groupId, userId });
+
+    const sets = await Promise.all(
+      result.sets.map(async (set) => ({
+        keeperId: set.keeperId,
+        exact: set.exact,
+        reclaimableBytes: set.reclaimableBytes,
+        media: await Promise.all(
+          set.media.map(async (media) => ({
+            id: media.id,
+            originalName: media.originalName,
+            fileSize: media.fileSize,
+            width: media.width,
+            height: media.height,
+            mediaType: media.mediaType,
+            createdAt: media.createdAt,
+            thumbnailUrl: await this.storageService.getPresignedUrl(
+              media.derivatives?.thumb?.webpS3Key ?? media.derivativeSourceKey() ?? media.s3Key,
+              3600
+            ),
+          }))
+        ),
+      }))
+    );
+
+    return res.json({
+      success: true,
+      data: {
+        sets,
+        reclaimableBytes: result.reclaimableBytes,
+      },
+    });
+  });
+
+  /**
+   * Queue thumbnail, medium and large copies for media that has none yet
+   * POST /api/groups/:groupId/media/derivatives/backfill
+   */
+  backfillDerivatives = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+
+    const result = await this.backfillDerivativesUseCase.execute({
+      groupId,
+      userId,
+    });
+
+    return res.json({
+      success: true,
+      data: result,
+      message: result.queuedCount > 0
+        ? `Optimizing ${result.queuedCount} item(s)`
+        : 'All media is already optimized',
     });
   });
 
@@ -183,11 +429,92 @@ export class MediaController {
     });
   });
 
+  /**
+   * Set the caption and tags of a media item
+   * PATCH /api/media/:id
+   * Admin can annotate any photo, others can only annotate their own uploads
+   */
+  updateAnnotations = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const mediaId = req.params.id;
+    const { caption, tags } = req.body;
+
+    const media = await this.updateMediaAnnotationsUseCase.execute({ mediaId, userId, caption, tags });
+
+    await this.cacheService.delete(CacheKeys.media(mediaId));
+    await this.cacheService.deletePattern(`media:group:${media.groupId}:page:*`);
+
+    return res.json({
+      success: true,
+      data: {
+        id: media.id,
+        caption: media.caption,
+        tags: media.tags,
+      },
+      message: 'Photo details updated',
+    });
+  });
+
+  /**
+   * Star a media item for the current user
+   * PUT /api/media/:id/favorite
+   */
+  addFavorite = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    await this.setFavoriteUseCase.execute({ mediaId: req.params.id, userId: req.auth!.userId, favorite: true });
+
+    return res.json({
+      success: true,
+      data: { isFavorite: true },
+    });
+  });
+
+  /**
+   * Unstar a media item for the current user
+   * DELETE /api/media/:id/favorite
+   */
+  removeFavorite = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    await this.setFavoriteUseCase.execute({ mediaId: req.params.id, userId: req.auth!.userId, favorite: false });
+
+    return res.json({
+      success: true,
+      data: { isFavorite: false },
+    });
+  });
+
+  /**
+   * Add a media item to the group's highlights (admin only)
+   * PUT /api/media/:id/highlight
+   */
+  addHighlight = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    await this.setHighlightUseCase.execute({ mediaId: req.params.id, userId: req.auth!.userId, highlighted: true });
+
+    return res.json({
+      success: true,
+      data: { isHighlight: true },
+      message: 'Added to highlights',
+    });
+  });
+
+  /**
+   * Take a media item out of the group's highlights (admin only)
+   * DELETE /api/media/:id/highlight
+   */
+  removeHighlight = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    await this.setHighlightUseCase.execute({ mediaId: req.params.id, userId: req.auth!.userId, highlighted: false });
+
+    return res.json({
+      success: true,
+      data: { isHighlight: false },
+      message: 'Removed from highlights',
+    });
+  });
+
   /**
    * Delete a media item
    * DELETE /api/media/:id
    * Admin can delete any photo, others can only delete their own uploads
    * Cascades: Media -> FaceDetections -> FaceClusterMembers -> Updates/Deletes Clusters
+   * Also removes the media's comments, reactions, favourites and highlight, and takes it out of albums
    */
   delete = asyncHandler(async (req: Request, res: Response) => {
     const userId = req.auth!.userId;
@@ -212,75 +539,23 @@ export class MediaController {
       throw new ForbiddenError('You can only delete photos you uploaded');
     }
 
-    // CASCADE DELETE: Step 1 - Find all face detections for this media
-    const faceDetections = await this.faceDetectionRepository.findByMediaId(mediaId);
-    const faceDetectionIds = faceDetections.map(fd => fd.id);
-
-    console.log(`[Delete Media] Found ${faceDetections.length} face detections for media ${mediaId}`);
-
-    // CASCADE DELETE: Step 2 - Find all affected clusters and delete cluster members
-    const affectedClusterIds = new Set<string>();
-
-    if (faceDetectionIds.length > 0) {
-      for (const faceDetectionId of faceDetectionIds) {
-        const clusterMember = await this.faceClusterMemberRepository.findByFaceDetectionId(faceDetectionId);
-        if (clusterMember) {
-          affectedClusterIds.add(clusterMember.clusterId);
-          // Delete cluster member
-          await this.faceClusterMemberRepository.delete(clusterMember.id);
-        }
-      }
-
-      console.log(`[Delete Media] Deleted cluster members from ${affectedClusterIds.size} clusters`);
-
-      // CASCADE DELETE: Step 3 - Update cluster appearance counts or delete empty clusters
-      for (const clusterId of affectedClusterIds) {
-        const cluster = await this.faceClusterRepository.findById(clusterId);
-        if (cluster) {
-          const remainingMembers = await this.faceClusterMemberRepository.findByClusterId(clusterId);
-
-          if (remainingMembers.length === 0) {
-            // Delete empty cluster
-            await this.faceClusterRepository.delete(clusterId);
-            console.log(`[Delete Media] Deleted empty cluster ${clusterId}`);
-          } else {
-            // Update appearance count
-            const updatedCluster = cluster.updateStats(remainingMembers.length, cluster.confidence);
-            await this.faceClusterRepository.update(clusterId, updatedCluster);
-            console.log(`[Delete Media] Updated cluster ${clusterId} appearance count to ${remainingMembers.length}`);
-          }
-        }
-      }
-
-      // CASCADE DELETE: Step 4 - Delete all face detections
-      for (const faceDetectionId of faceDetectionIds) {
-        await this.faceDetectionRepository.delete(faceDetectionId);
-      }
-
-      console.log(`[Delete Media] Deleted ${faceDetectionIds.length} face detections`);
-    }
-
-    // Delete from S3
-    await this.storageService.deleteFile(media.s3Key);
-
-    // Delete media from database
-    await this.mediaRepository.delete(mediaId);
-
-    // Update group storage usage
-    await this.groupRepository.updateStorageUsed(media.groupId, -media.fileSize);
+    // Faces, files, comments, reactions, favourites and the highlight go with the media,
+    // it leaves its albums and the storage is refunded
+    const { affectedClusterIds } = await this.mediaDeletionService.deleteMedia(media.groupId, [media], { userId });
 
     // Invalidate caches
     await this.cacheService.delete(CacheKeys.media(mediaId));
     await this.cacheService.deletePattern(`media:group:${media.groupId}:page:*`);
     await this.cacheService.delete(CacheKeys.groupStorage(media.groupId));
     await this.cacheService.delete(CacheKeys.clustersByGroup(media.groupId));
+    await this.cacheService.delete(CacheKeys.unassignedFaces(media.groupId));
 
     // Invalidate affected cluster caches
     for (const clusterId of affectedClusterIds) {
       await this.cacheService.deletePattern(`${CacheKeys.cluster(clusterId)}:media:*`);
     }
 
-    console.log(`[Delete Media] Successfully deleted media ${mediaId} and cleaned up ${affectedClusterIds.size} clusters`);
+    console.log(`[Delete Media] Successfully deleted media ${mediaId} and cleaned up ${affectedClusterIds.length} clusters`);
 
     return res.json({
       success: true,
@@ -290,7 +565,7 @@ export class MediaController {
 
   /**
    * Get download URL for media
-   * GET /api/media/:id/download
+   * GET /api/media/:id/download?variant=original|converted
    */
   getDownloadUrl = asyncHandler(async (req: Request, res: Response) => {
     const userId = req.auth!.userId;
@@ -311,14 +586,17 @@ export class MediaController {
       throw new ForbiddenError('You do not have permission to download media from this group');
     }
 
+    // HEIC/RAW uploads can be downloaded as uploaded or as converted JPEG
+    const { s3Key, filename } = media.downloadTarget(req.query.variant as DownloadVariantType | undefined);
+
     // Generate presigned URL with longer expiration for downloads
-    const downloadUrl = await this.storageService.getPresignedUrl(media.s3Key, 7200);
+    const downloadUrl = await this.storageService.getPresignedUrl(s3Key, 7200);
 
     return res.json({
       success: true,
       data: {
         url: downloadUrl,
-        filename: media.originalName,
+        filename,
         expiresIn: 7200,
       },
     });
@@ -331,7 +609,7 @@ export class MediaController {
   bulkDownload = asyncHandler(async (req: Request, res: Response) => {
     const userId = req.auth!.userId;
     const groupId = req.params.groupId;
-    const { mediaIds } = req.body;
+    const { mediaIds, variant } = req.body;
 
     if (!mediaIds || !Array.isArray(mediaIds) || mediaIds.length === 0) {
       throw new BadRequestError('mediaIds array is required');
@@ -342,6 +620,7 @@ export class MediaController {
       userId,
       groupId,
       mediaIds,
+      variant,
     });
 
     // Set response headers for ZIP download
@@ -384,4 +663,62 @@ export class MediaController {
 
     console.log(`✅ Bulk download: ${mediaItems.length} files sent to user ${userId}`);
   });
+
+  /**
+   * Gallery fields of a media item with presigned URLs
+   * Works on cached media too, so it only reads plain fields
+   */
+  private toListItem = async (media: Media) => ({
+    id: media.id,
+    groupId: media.groupId,
+    uploaderId: media.uploaderId,
+    originalName: media.originalName,
+    fileSize: media.fileSize,
+    mimeType: media.mimeType,
+    isProcessed: media.processed,
+    processingStatus: media.processingStatus,
+    processingAttempts: media.processingAttempts,
+    lastError: media.lastError,
+    mediaType: media.mediaType,
+    durationSeconds: media.durationSeconds,
+    originalMimeType: media.originalMimeType,
+    width: media.width,
+    height: media.height,
+    takenAt: media.takenAt,
+    cameraMake: media.cameraMake,
+    cameraModel: media.cameraModel,
+    location: media.location,
+    caption: media.caption,
+    tags: media.tags,
+    createdAt: media.createdAt,
+    presignedUrl: await this.storageService.getPresignedUrl(media.s3Key, 3600),
+    posterUrl: media.posterS3Key
+      ? await this.storageService.getPresignedUrl(media.posterS3Key, 3600)
+      : undefined,
+    derivativeUrls: await presignDerivatives(media.derivatives, this.storageService),
+  });
+
+  /**
+   * Add comment and reaction counts, and the user's star and highlight flags, for gallery tiles
+   * Loaded per request rather than cached with the list so they stay current
+   */
+  private async withEngagement<T extends { id: string }>(items: T[], userId: string) {
+    const mediaIds = items.map(item => item.id);
+    const [commentCounts, reactions, favorited, highlighted] = await Promise.all([
+      this.commentRepository.countByMediaIds(mediaIds),
+      this.reactionRepository.summarizeByMediaIds(mediaIds, userId),
+      this.favoriteRepository.findFavoritedMediaIds(mediaIds, userId),
+      this.highlightRepository.findHighlightedMediaIds(mediaIds),
+    ]);
+    const favoriteIds = new Set(favorited);
+    const highlightIds = new Set(highlighted);
+
+    return items.map(item => ({
+      ...item,
+      commentCount: commentCounts[item.id] || 0,
+      reactions: reactions[item.id] || [],
+      isFavorite: favoriteIds.has(item.id),
+      isHighlight: highlightIds.has(item.id),
+    }));
+  }
 }
@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import { ListPeopleUseCase } from '../../core/use-cases/ListPeopleUseCase.js';
+import { CreatePersonUseCase } from '../../core/use-cases/CreatePersonUseCase.js';
+import { LinkPersonClusterUseCase } from '../../core/use-cases/LinkPersonClusterUseCase.js';
+import { GetPersonMediaUseCase } from '../../core/use-cases/GetPersonMediaUseCase.js';
+import { IPersonRepository } from '../../core/interfaces/repositories/IPersonRepository.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { NotFoundError } from '../../shared/errors/AppError.js';
+
+export class PersonController {
+  constructor(
+    private listPeopleUseCase: ListPeopleUseCase,
+    private createPersonUseCase: CreatePersonUseCase,
+    private linkPersonClusterUseCase: LinkPersonClusterUseCase,
+    private getPersonMediaUseCase: GetPersonMediaUseCase,
+    private personRepository: IPersonRepository
+  ) {}
+
+  /**
+   * List the current user's people
+   * GET /api/people
+   */
+  list = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.auth!.userId;
+
+    const people = await this.listPeopleUseCase.execute(userId);
+
+    return res.json({
+      success: true,
+      data: people,
+    });
+  });
+
+  /**
+   * Create a person, optionally linked to clusters
+   * POST /api/people
+   */
+  create = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.auth!.userId;
+    const { name, clusterIds } = req.body;
+
+    const person = await this.createPersonUseCase.execute({
+      userId,
+      name,
+      clusterIds,
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: await this.listPeopleUseCase.toSummary(person, userId),
+      message: 'Person created successfully',
+    });
+  });
+
+  /**
+   * Rename a person
+   * PATCH /api/people/:personId
+   */
+  update = asyncHandler(async (req: Request<{ personId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { personId } = req.params;
+    const { name } = req.body;
+
+    const person = await this.findOwnedPerson(personId, userId);
+    const updatedPerson = await this.personRepository.update(person.id, { name });
+    if (!updatedPerson) {
+      throw new NotFoundError('Person not found');
+    }
+
+    return res.json({
+      success: true,
+      data: await this.listPeopleUseCase.toSummary(updatedPerson, userId),
+      message: 'Person updated successfully',
+    });
+  });
+
+  /**
+   * Delete a person (clusters and media are not affected)
+   * DELETE /api/people/:personId
+   */
+  delete = asyncHandler(async (req: Request<{ personId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { personId } = req.params;
+
+    const person = await this.findOwnedPerson(personId, userId);
+    await this.personRepository.delete(person.id);
+
+    return res.json({
+      success: true,
+      message: 'Person deleted successfully',
+    });
+  });
+
+  /**
+   * Link a group's cluster to a person
+   * POST /api/people/:personId/clusters
+   */
+  linkCluster = asyncHandler(async (req: Request<{ personId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { personId } = req.params;
+    const { clusterId } = req.body;
+
+    const person = await this.linkPersonClusterUseCase.execute({
+      personId,
+      clusterId,
+      userId,
+    });
+
+    return res.json({
+      success: true,
+      data: await this.listPeopleUseCase.toSummary(person, userId),
+      message: 'Cluster linked to person',
+    });
+  });
+
+  /**
+   * Unlink a cluster from a person
+   * DELETE /api/people/:personId/clusters/:clusterId
+   */
+  unlinkCluster = asyncHandler(async (req: Request<{ personId: string; clusterId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { personId, clusterId } = req.params;
+
+    const person = await this.findOwnedPerson(personId, userId);
+    const updatedPerson = await this.personRepository.removeCluster(person.id, clusterId);
+    if (!updatedPerson) {
+      throw new NotFoundError('Person not found');
+    }
+
+    return res.json({
+      success: true,
+      data: await this.listPeopleUseCase.toSummary(updatedPerson, userId),
+      message: 'Cluster unlinked from person',
+    });
+  });
+
+  /**
+   * Get photos of a person across all of the user's groups
+   * GET /api/people/:personId/media
+   */
+  getMedia = asyncHandler(async (req: Request<{ personId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { personId } = req.params;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await this.getPersonMediaUseCase.execute(personId, userId, page, limit);
+
+    return res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  private async findOwnedPerson(personId: string, userId: string) {
+    const person = await this.personRepository.findById(personId);
+    if (!person || !person.isOwnedBy(userId)) {
+      throw new NotFoundError('Person not found');
+    }
+    return person;
+  }
+}
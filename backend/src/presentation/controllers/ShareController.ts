@@ -27,8 +27,8 @@ export class ShareController {
       throw new BadRequestError('resourceType and resourceId are required');
     }
 
-    if (!['group', 'media', 'cluster'].includes(resourceType)) {
-      throw new BadRequestError('Invalid resourceType. Must be: group, media, or cluster');
+    if (!['group', 'media', 'cluster', 'album'].includes(resourceType)) {
+      throw new BadRequestError('Invalid resourceType. Must be: group, media, cluster, or album');
     }
 
     if (!permissions || typeof permissions.canView !== 'boolean') {
@@ -88,7 +88,7 @@ export class ShareController {
     const userId = req.auth!.userId;
     const { resourceType, resourceId } = req.params;
 
-    if (!['group', 'media', 'cluster'].includes(resourceType)) {
+    if (!['group', 'media', 'cluster', 'album'].includes(resourceType)) {
       throw new BadRequestError('Invalid resourceType');
     }
 
@@ -0,0 +1,163 @@
+import { Request, Response } from 'express';
+import { CreateUploadSessionUseCase, UploadSessionWithUrls } from '../../core/use-cases/CreateUploadSessionUseCase.js';
+import { ResumeUploadSessionUseCase } from '../../core/use-cases/ResumeUploadSessionUseCase.js';
+import { RecordUploadPartUseCase } from '../../core/use-cases/RecordUploadPartUseCase.js';
+import { CompleteUploadSessionUseCase } from '../../core/use-cases/CompleteUploadSessionUseCase.js';
+import { AbortUploadSessionUseCase } from '../../core/use-cases/AbortUploadSessionUseCase.js';
+import { UploadSession } from '../../core/entities/UploadSession.js';
+import { IUploadSessionRepository } from '../../core/interfaces/repositories/IUploadSessionRepository.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { RedisCacheService, CacheKeys } from '../../infrastructure/cache/RedisCacheService.js';
+
+export class UploadSessionController {
+  constructor(
+    private createUploadSessionUseCase: CreateUploadSessionUseCase,
+    private resumeUploadSessionUseCase: ResumeUploadSessionUseCase,
+    private recordUploadPartUseCase: RecordUploadPartUseCase,
+    private completeUploadSessionUseCase: CompleteUploadSessionUseCase,
+    private abortUploadSessionUseCase: AbortUploadSessionUseCase,
+    private uploadSessionRepository: IUploadSessionRepository,
+    private cacheService: RedisCacheService
+  ) {}
+
+  /**
+   * Start a resumable upload for one file
+   * POST /api/groups/:groupId/upload-sessions
+   */
+  create = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+    const { filename, mimeType, fileSize } = req.body;
+
+    const result = await this.createUploadSessionUseCase.execute({
+      groupId,
+      userId,
+      filename,
+      mimeType: mimeType ?? '',
+      fileSize,
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: this.toResponse(result),
+    });
+  });
+
+  /**
+   * List the current user's unfinished uploads in a group
+   * GET /api/groups/:groupId/upload-sessions
+   */
+  listActive = asyncHandler(async (req: Request<{ groupId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const groupId = req.params.groupId;
+
+    const sessions = await this.uploadSessionRepository.findActiveByGroupAndUser(groupId, userId);
+
+    return res.json({
+      success: true,
+      data: sessions.map(session => this.toSummary(session)),
+    });
+  });
+
+  /**
+   * Resume an upload with fresh URLs for the parts still missing
+   * GET /api/upload-sessions/:sessionId
+   */
+  resume = asyncHandler(async (req: Request<{ sessionId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { sessionId } = req.params;
+
+    const result = await this.resumeUploadSessionUseCase.execute({ sessionId, userId });
+
+    return res.json({
+      success: true,
+      data: this.toResponse(result),
+    });
+  });
+
+  /**
+   * Record a part the client uploaded to storage
+   * PUT /api/upload-sessions/:sessionId/parts/:partNumber
+   */
+  recordPart = asyncHandler(async (req: Request<{ sessionId: string; partNumber: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { sessionId } = req.params;
+    const { etag, size } = req.body;
+
+    const session = await this.recordUploadPartUseCase.execute({
+      sessionId,
+      userId,
+      partNumber: parseInt(req.params.partNumber, 10),
+      etag,
+      size,
+    });
+
+    return res.json({
+      success: true,
+      data: this.toSummary(session),
+    });
+  });
+
+  /**
+   * Finalise an upload into a media item and queue face detection
+   * POST /api/upload-sessions/:sessionId/complete
+   */
+  complete = asyncHandler(async (req: Request<{ sessionId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { sessionId } = req.params;
+
+    const result = await this.completeUploadSessionUseCase.execute({ sessionId, userId });
+    const groupId = result.media[0].groupId;
+
+    // Invalidate media list cache for this group
+    await this.cacheService.deletePattern(`media:group:${groupId}:page:*`);
+    await this.cacheService.delete(CacheKeys.groupStorage(groupId));
+
+    return res.status(201).json({
+      success: true,
+      data: result.media,
+      duplicates: result.duplicates,
+      jobId: result.jobId,
+      message: 'Upload complete. Face detection job queued.',
+    });
+  });
+
+  /**
+   * Cancel an upload and discard the parts received so far
+   * DELETE /api/upload-sessions/:sessionId
+   */
+  abort = asyncHandler(async (req: Request<{ sessionId: string }>, res: Response) => {
+    const userId = req.auth!.userId;
+    const { sessionId } = req.params;
+
+    await this.abortUploadSessionUseCase.execute({ sessionId, userId });
+
+    return res.json({
+      success: true,
+      message: 'Upload cancelled',
+    });
+  });
+
+  private toSummary(session: UploadSession) {
+    return {
+      id: session.id,
+      groupId: session.groupId,
+      originalName: session.originalName,
+      mimeType: session.mimeType,
+      fileSize: session.fileSize,
+      partSize: session.partSize,
+      totalParts: session.totalParts(),
+      completedParts: session.completedParts.map(part => part.partNumber).sort((a, b) => a - b),
+      status: session.status,
+      expiresAt: session.expiresAt,
+      createdAt: session.createdAt,
+    };
+  }
+
+  private toResponse(result: UploadSessionWithUrls) {
+    return {
+      ...this.toSummary(result.session),
+      partUrls: result.partUrls,
+    };
+  }
+}
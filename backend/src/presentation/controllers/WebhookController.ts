@@ -1,12 +1,16 @@
 import { Request, Response } from 'express';
 import { IAuthService } from '../../core/interfaces/services/IAuthService.js';
 import { IEmailService } from '../../core/interfaces/services/IEmailService.js';
+import { AcceptEmailInvitationUseCase } from '../../core/use-cases/AcceptEmailInvitationUseCase.js';
 import { asyncHandler } from '../middleware/asyncHandler.js';
+import { RedisCacheService, CacheKeys } from '../../infrastructure/cache/RedisCacheService.js';
 
 export class WebhookController {
   constructor(
     private authService: IAuthService,
-    private emailService: IEmailService
+    private emailService: IEmailService,
+    private acceptEmailInvitationUseCase: AcceptEmailInvitationUseCase,
+    private cacheService: RedisCacheService
   ) {}
 
   /**
@@ -98,6 +102,27 @@ export class WebhookController {
 
     await this.authService.syncUser(clerkUser);
 
+    // Join the groups this user was invited to by email (verified addresses only)
+    try {
+      const verifiedEmails = data.email_addresses
+        .filter((email: any) => email.verification?.status === 'verified')
+        .map((email: any) => email.email_address);
+
+      const groups = await this.acceptEmailInvitationUseCase.acceptForNewUser(data.id, verifiedEmails);
+
+      for (const group of groups) {
+        await this.cacheService.deletePattern(`${CacheKeys.group(group.id)}*`);
+        await this.cacheService.delete(CacheKeys.groupMembers(group.id));
+      }
+      if (groups.length > 0) {
+        await this.cacheService.deletePattern(`${CacheKeys.groupsByUser(data.id)}*`);
+        console.log(`✉️ Accepted ${groups.length} email invitation(s) for ${data.id}`);
+      }
+    } catch (error) {
+      console.error('Failed to accept email invitations:', error);
+      // Don't throw - the user can still accept from the emailed link
+    }
+
     // Send welcome email
     try {
       const userEmail = data.email_addresses[0]?.email_address;
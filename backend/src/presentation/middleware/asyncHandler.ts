@@ -1,9 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 
-type AsyncFunction = (req: Request, res: Response, next: NextFunction) => Promise<any>;
+type AsyncFunction<P> = (req: Request<P>, res: Response, next: NextFunction) => Promise<any>;
 
-export const asyncHandler = (fn: AsyncFunction) => {
-  return (req: Request, res: Response, next: NextFunction) => {
+/**
+ * @typeParam P - The route's params, e.g. { groupId: string } for /:groupId
+ */
+export const asyncHandler = <P = Request['params']>(fn: AsyncFunction<P>) => {
+  return (req: Request<P>, res: Response, next: NextFunction) => {
     Promise.resolve(fn(req, res, next)).catch(next);
   };
 };
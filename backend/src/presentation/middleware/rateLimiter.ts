@@ -69,6 +69,52 @@ export const uploadLimiter = rateLimit({
   },
 });
 
+/**
+ * Upload session rate limiter
+ * 200 sessions per 15 minutes per IP
+ * Sessions are started per file rather than per batch, hence the higher limit
+ */
+export const uploadSessionLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 200,
+  message: {
+    success: false,
+    error: 'Upload limit exceeded. Please try again later.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req: Request, res: Response) => {
+    res.status(429).json({
+      success: false,
+      error: 'Too many uploads. Please wait before uploading more files.',
+      retryAfter: res.getHeader('RateLimit-Reset'),
+    });
+  },
+});
+
+/**
+ * Comment rate limiter
+ * 30 comments and reactions per minute per IP
+ * Enough for a lively thread while stopping spam
+ */
+export const commentLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 30,
+  message: {
+    success: false,
+    error: 'Too many comments. Please slow down.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req: Request, res: Response) => {
+    res.status(429).json({
+      success: false,
+      error: 'Too many comments. Please wait a moment before posting again.',
+      retryAfter: res.getHeader('RateLimit-Reset'),
+    });
+  },
+});
+
 /**
  * Download rate limiter
  * 50 downloads per 15 minutes per IP
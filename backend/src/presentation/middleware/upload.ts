@@ -1,21 +1,20 @@
 import multer from 'multer';
 import { BadRequestError } from '../../shared/errors/AppError.js';
+import { isSupportedMediaFile } from '../../shared/utils/mediaFileTypes.js';
 
 // Configure multer for in-memory storage
 const storage = multer.memoryStorage();
 
-// File filter for images only
+// File filter for images (including HEIC and RAW) and short videos
 const fileFilter = (
   _req: Express.Request,
   file: Express.Multer.File,
   cb: multer.FileFilterCallback
 ) => {
-  const allowedMimeTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-
-  if (allowedMimeTypes.includes(file.mimetype)) {
+  if (isSupportedMediaFile(file.mimetype, file.originalname)) {
     cb(null, true);
   } else {
-    cb(new BadRequestError(`Invalid file type: ${file.mimetype}. Only images are allowed.`));
+    cb(new BadRequestError(`Invalid file type: ${file.mimetype}. Only images and videos are allowed.`));
   }
 };
 
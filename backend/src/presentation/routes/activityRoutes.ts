@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { ActivityController } from '../controllers/ActivityController.js';
+import { readLimiter } from '../middleware/rateLimiter.js';
+import { validate } from '../middleware/validate.js';
+import { requireAuthJson } from '../middleware/clerkAuth.js';
+import { listGroupActivitiesSchema } from '../validation/schemas.js';
+
+export function createGroupActivityRoutes(controller: ActivityController): Router {
+  const router = Router();
+
+  router.get('/:groupId/activities', requireAuthJson, readLimiter, validate(listGroupActivitiesSchema), controller.listByGroup);
+
+  return router;
+}
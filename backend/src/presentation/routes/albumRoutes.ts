@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { AlbumController } from '../controllers/AlbumController.js';
+import { readLimiter } from '../middleware/rateLimiter.js';
+import { validate, sanitizeBody } from '../middleware/validate.js';
+import { requireAuthJson } from '../middleware/clerkAuth.js';
+import {
+  groupIdSchema,
+  albumIdSchema,
+  createAlbumSchema,
+  updateAlbumSchema,
+  albumMediaSchema,
+  reorderAlbumMediaSchema,
+  listAlbumMediaSchema,
+} from '../validation/schemas.js';
+
+export function createAlbumRoutes(controller: AlbumController): Router {
+  const router = Router();
+
+  // Albums are visible to members of their group
+  router.use(requireAuthJson);
+
+  // No sanitizeBody: null resets the cover and '' clears the description
+  router.patch('/:albumId', validate(updateAlbumSchema), controller.update);
+  router.delete('/:albumId', validate(albumIdSchema), controller.delete);
+
+  // Ordered membership
+  router.get('/:albumId/media', readLimiter, validate(listAlbumMediaSchema), controller.getMedia);
+  router.post('/:albumId/media', validate(albumMediaSchema), controller.addMedia);
+  router.post('/:albumId/media/remove', validate(albumMediaSchema), controller.removeMedia);
+  router.put('/:albumId/media/order', validate(reorderAlbumMediaSchema), controller.reorderMedia);
+
+  return router;
+}
+
+export function createGroupAlbumRoutes(controller: AlbumController): Router {
+  const router = Router();
+
+  router.get('/:groupId/albums', requireAuthJson, readLimiter, validate(groupIdSchema), controller.list);
+  router.post('/:groupId/albums', requireAuthJson, sanitizeBody, validate(createAlbumSchema), controller.create);
+
+  return router;
+}
@@ -1,12 +1,20 @@
 import { Router } from 'express';
 import { ClusterController } from '../controllers/ClusterController.js';
-import { readLimiter } from '../middleware/rateLimiter.js';
+import { readLimiter, uploadLimiter } from '../middleware/rateLimiter.js';
+import { upload, handleUploadError } from '../middleware/upload.js';
 import { validate, sanitizeBody } from '../middleware/validate.js';
 import { requireAuthJson } from '../middleware/clerkAuth.js';
 import {
   updateClusterSchema,
   listGroupClustersSchema,
   paginationSchema,
+  groupIdSchema,
+  assignFaceSchema,
+  promoteFaceSchema,
+  moveClusterFacesSchema,
+  splitClusterSchema,
+  linkClusterSchema,
+  pinClusterCoverSchema,
 } from '../validation/schemas.js';
 
 export function createClusterRoutes(controller: ClusterController): Router {
@@ -16,8 +24,15 @@ export function createClusterRoutes(controller: ClusterController): Router {
   router.get('/:clusterId/media', requireAuthJson, readLimiter, validate(paginationSchema), controller.getClusterMedia);
   router.patch('/:clusterId', requireAuthJson, sanitizeBody, validate(updateClusterSchema), controller.updateCluster);
   router.delete('/:clusterId', requireAuthJson, controller.deleteCluster);
+  router.get('/:clusterId/faces', requireAuthJson, readLimiter, controller.getClusterFaces);
+  router.post('/:clusterId/faces/move', requireAuthJson, sanitizeBody, validate(moveClusterFacesSchema), controller.moveFaces);
+  router.post('/:clusterId/split', requireAuthJson, sanitizeBody, validate(splitClusterSchema), controller.splitCluster);
   router.delete('/:clusterId/faces/:faceDetectionId', requireAuthJson, controller.removeFaceFromCluster);
   router.post('/:clusterId/merge/:targetClusterId', requireAuthJson, controller.mergeClusters);
+  router.post('/:clusterId/claim', requireAuthJson, controller.claimCluster);
+  router.delete('/:clusterId/claim', requireAuthJson, controller.unclaimCluster);
+  router.put('/:clusterId/cover', requireAuthJson, sanitizeBody, validate(pinClusterCoverSchema), controller.pinCover);
+  router.put('/:clusterId/link', requireAuthJson, sanitizeBody, validate(linkClusterSchema), controller.linkCluster);
 
   return router;
 }
@@ -28,5 +43,19 @@ export function createGroupClusterRoutes(controller: ClusterController): Router
   // List clusters for group
   router.get('/:groupId/clusters', requireAuthJson, readLimiter, validate(listGroupClustersSchema), controller.listByGroup);
 
+  // Unassigned faces pool
+  router.get('/:groupId/faces/unassigned', requireAuthJson, readLimiter, validate(groupIdSchema), controller.listUnassignedFaces);
+  router.post('/:groupId/faces/:faceDetectionId/assign', requireAuthJson, sanitizeBody, validate(assignFaceSchema), controller.assignFace);
+  router.post(
+    '/:groupId/faces/search',
+    requireAuthJson,
+    uploadLimiter,
+    validate(groupIdSchema),
+    upload.single('selfie'),
+    handleUploadError,
+    controller.searchBySelfie
+  );
+  router.post('/:groupId/faces/:faceDetectionId/promote', requireAuthJson, sanitizeBody, validate(promoteFaceSchema), controller.promoteFace);
+
   return router;
 }
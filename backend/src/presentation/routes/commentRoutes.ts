@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { CommentController } from '../controllers/CommentController.js';
+import { readLimiter, commentLimiter } from '../middleware/rateLimiter.js';
+import { validate, sanitizeBody } from '../middleware/validate.js';
+import { requireAuthJson } from '../middleware/clerkAuth.js';
+import {
+  mongoIdSchema,
+  commentIdSchema,
+  createCommentSchema,
+  updateCommentSchema,
+  toggleReactionSchema,
+} from '../validation/schemas.js';
+
+export function createCommentRoutes(controller: CommentController): Router {
+  const router = Router();
+
+  router.use(requireAuthJson);
+
+  router.patch('/:commentId', commentLimiter, sanitizeBody, validate(updateCommentSchema), controller.update);
+  router.delete('/:commentId', validate(commentIdSchema), controller.delete);
+
+  return router;
+}
+
+export function createMediaCommentRoutes(controller: CommentController): Router {
+  const router = Router();
+
+  router.get('/:id/comments', requireAuthJson, readLimiter, validate(mongoIdSchema), controller.list);
+  router.post('/:id/comments', requireAuthJson, commentLimiter, sanitizeBody, validate(createCommentSchema), controller.create);
+  router.post('/:id/reactions', requireAuthJson, commentLimiter, validate(toggleReactionSchema), controller.toggleReaction);
+
+  return router;
+}
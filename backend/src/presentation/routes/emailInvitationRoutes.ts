@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { EmailInvitationController } from '../controllers/EmailInvitationController.js';
+import { readLimiter, strictLimiter } from '../middleware/rateLimiter.js';
+import { validate, sanitizeBody } from '../middleware/validate.js';
+import { requireAuthJson } from '../middleware/clerkAuth.js';
+import {
+  groupIdSchema,
+  sendEmailInvitationsSchema,
+  emailInvitationIdSchema,
+  invitationTokenSchema,
+} from '../validation/schemas.js';
+
+export function createGroupEmailInvitationRoutes(controller: EmailInvitationController): Router {
+  const router = Router();
+
+  // Admin only, checked in the use cases; sending is strictly limited since each call sends email
+  router.get('/:groupId/email-invitations', requireAuthJson, readLimiter, validate(groupIdSchema), controller.list);
+  router.post(
+    '/:groupId/email-invitations',
+    requireAuthJson,
+    strictLimiter,
+    sanitizeBody,
+    validate(sendEmailInvitationsSchema),
+    controller.send
+  );
+  router.post(
+    '/:groupId/email-invitations/:invitationId/resend',
+    requireAuthJson,
+    strictLimiter,
+    validate(emailInvitationIdSchema),
+    controller.resend
+  );
+  router.delete(
+    '/:groupId/email-invitations/:invitationId',
+    requireAuthJson,
+    validate(emailInvitationIdSchema),
+    controller.cancel
+  );
+
+  return router;
+}
+
+export function createInvitationRoutes(controller: EmailInvitationController): Router {
+  const router = Router();
+
+  router.post('/:token/accept', requireAuthJson, validate(invitationTokenSchema), controller.accept);
+
+  return router;
+}
+
+export function createPublicInvitationRoutes(controller: EmailInvitationController): Router {
+  const router = Router();
+
+  // Public route - the invitee may not have an account yet
+  router.get('/:token', readLimiter, validate(invitationTokenSchema), controller.preview);
+
+  return router;
+}
@@ -7,6 +7,8 @@ import {
   createGroupSchema,
   joinGroupSchema,
   updateMemberSchema,
+  leaveGroupSchema,
+  transferOwnershipSchema,
   mongoIdSchema,
   paginationSchema,
 } from '../validation/schemas.js';
@@ -33,6 +35,14 @@ export function createGroupRoutes(controller: GroupController): Router {
     controller.updateMember
   );
   router.delete('/:groupId/members/:memberId', requireAuthJson, validate(updateMemberSchema), controller.removeMember);
+  router.post('/:id/leave', requireAuthJson, sanitizeBody, validate(leaveGroupSchema), controller.leave);
+  router.post(
+    '/:id/transfer-ownership',
+    requireAuthJson,
+    sanitizeBody,
+    validate(transferOwnershipSchema),
+    controller.transferOwnership
+  );
 
   // Operations (strict limit for resource-intensive operations)
   router.post('/:id/recluster', requireAuthJson, strictLimiter, validate(mongoIdSchema), controller.recluster);
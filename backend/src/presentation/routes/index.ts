@@ -5,6 +5,18 @@ import { createClusterRoutes, createGroupClusterRoutes } from './clusterRoutes.j
 import { createJobRoutes, createGroupJobRoutes } from './jobRoutes.js';
 import { createGdprRoutes } from './gdprRoutes.js';
 import { createShareRoutes, createPublicShareRoutes } from './shareRoutes.js';
+import { createPersonRoutes } from './personRoutes.js';
+import { createUploadSessionRoutes, createGroupUploadSessionRoutes } from './uploadSessionRoutes.js';
+import { createAlbumRoutes, createGroupAlbumRoutes } from './albumRoutes.js';
+import { createCommentRoutes, createMediaCommentRoutes } from './commentRoutes.js';
+import { createGroupActivityRoutes } from './activityRoutes.js';
+import { createGroupInviteRoutes, createPublicInviteRoutes } from './inviteRoutes.js';
+import {
+  createGroupEmailInvitationRoutes,
+  createInvitationRoutes,
+  createPublicInvitationRoutes,
+} from './emailInvitationRoutes.js';
+import { createGroupJoinRequestRoutes } from './joinRequestRoutes.js';
 import { webhookRoutes } from './webhooks.js';
 import { container } from '../../di/container.js';
 import { GroupController } from '../controllers/GroupController.js';
@@ -13,6 +25,14 @@ import { ClusterController } from '../controllers/ClusterController.js';
 import { JobController } from '../controllers/JobController.js';
 import { GdprController } from '../controllers/GdprController.js';
 import { ShareController } from '../controllers/ShareController.js';
+import { PersonController } from '../controllers/PersonController.js';
+import { UploadSessionController } from '../controllers/UploadSessionController.js';
+import { AlbumController } from '../controllers/AlbumController.js';
+import { CommentController } from '../controllers/CommentController.js';
+import { ActivityController } from '../controllers/ActivityController.js';
+import { InviteController } from '../controllers/InviteController.js';
+import { EmailInvitationController } from '../controllers/EmailInvitationController.js';
+import { JoinRequestController } from '../controllers/JoinRequestController.js';
 
 const router = Router();
 
@@ -28,20 +48,42 @@ const clusterController = container.get<ClusterController>('ClusterController');
 const jobController = container.get<JobController>('JobController');
 const gdprController = container.get<GdprController>('GdprController');
 const shareController = container.get<ShareController>('ShareController');
+const personController = container.get<PersonController>('PersonController');
+const uploadSessionController = container.get<UploadSessionController>('UploadSessionController');
+const albumController = container.get<AlbumController>('AlbumController');
+const commentController = container.get<CommentController>('CommentController');
+const activityController = container.get<ActivityController>('ActivityController');
+const inviteController = container.get<InviteController>('InviteController');
+const emailInvitationController = container.get<EmailInvitationController>('EmailInvitationController');
+const joinRequestController = container.get<JoinRequestController>('JoinRequestController');
 
 // Routes
 router.use('/groups', createGroupRoutes(groupController));
 router.use('/groups', createGroupMediaRoutes(mediaController));
 router.use('/groups', createGroupClusterRoutes(clusterController));
 router.use('/groups', createGroupJobRoutes(jobController));
+router.use('/groups', createGroupUploadSessionRoutes(uploadSessionController));
+router.use('/groups', createGroupAlbumRoutes(albumController));
+router.use('/groups', createGroupActivityRoutes(activityController));
+router.use('/groups', createGroupInviteRoutes(inviteController));
+router.use('/groups', createGroupEmailInvitationRoutes(emailInvitationController));
+router.use('/groups', createGroupJoinRequestRoutes(joinRequestController));
 router.use('/media', createMediaRoutes(mediaController));
+router.use('/media', createMediaCommentRoutes(commentController));
 router.use('/clusters', createClusterRoutes(clusterController));
 router.use('/jobs', createJobRoutes(jobController));
 router.use('/gdpr', createGdprRoutes(gdprController));
 router.use('/share', createShareRoutes(shareController));
+router.use('/people', createPersonRoutes(personController));
+router.use('/upload-sessions', createUploadSessionRoutes(uploadSessionController));
+router.use('/albums', createAlbumRoutes(albumController));
+router.use('/comments', createCommentRoutes(commentController));
+router.use('/invitations', createInvitationRoutes(emailInvitationController));
 
 // Public routes (no auth required)
 router.use('/public/share', createPublicShareRoutes(shareController));
+router.use('/public/invites', createPublicInviteRoutes(inviteController));
+router.use('/public/invitations', createPublicInvitationRoutes(emailInvitationController));
 
 // Webhook routes (no auth required - verified via Svix signature)
 router.use('/webhooks', webhookRoutes);
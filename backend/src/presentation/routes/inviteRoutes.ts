@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { InviteController } from '../controllers/InviteController.js';
+import { readLimiter, strictLimiter } from '../middleware/rateLimiter.js';
+import { validate, sanitizeBody } from '../middleware/validate.js';
+import { requireAuthJson } from '../middleware/clerkAuth.js';
+import { groupIdSchema, createInviteSchema, inviteIdSchema, inviteCodeSchema } from '../validation/schemas.js';
+
+export function createGroupInviteRoutes(controller: InviteController): Router {
+  const router = Router();
+
+  // Invite management is admin only, checked in the use cases
+  router.get('/:groupId/invites', requireAuthJson, readLimiter, validate(groupIdSchema), controller.list);
+  router.post('/:groupId/invites', requireAuthJson, sanitizeBody, validate(createInviteSchema), controller.create);
+  router.delete('/:groupId/invites/:inviteId', requireAuthJson, validate(inviteIdSchema), controller.revoke);
+  router.post(
+    '/:groupId/invite-code/regenerate',
+    requireAuthJson,
+    strictLimiter,
+    validate(groupIdSchema),
+    controller.regenerateCode
+  );
+
+  return router;
+}
+
+export function createPublicInviteRoutes(controller: InviteController): Router {
+  const router = Router();
+
+  // Public route - shown on the join page before signing in
+  router.get('/:code', readLimiter, validate(inviteCodeSchema), controller.preview);
+
+  return router;
+}
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { JoinRequestController } from '../controllers/JoinRequestController.js';
+import { readLimiter } from '../middleware/rateLimiter.js';
+import { validate } from '../middleware/validate.js';
+import { requireAuthJson } from '../middleware/clerkAuth.js';
+import { groupIdSchema, joinRequestIdSchema } from '../validation/schemas.js';
+
+export function createGroupJoinRequestRoutes(controller: JoinRequestController): Router {
+  const router = Router();
+
+  // Reviewing requests is admin only, checked in the use cases
+  router.get('/:groupId/join-requests', requireAuthJson, readLimiter, validate(groupIdSchema), controller.list);
+  router.post(
+    '/:groupId/join-requests/:requestId/approve',
+    requireAuthJson,
+    validate(joinRequestIdSchema),
+    controller.approve
+  );
+  router.post(
+    '/:groupId/join-requests/:requestId/deny',
+    requireAuthJson,
+    validate(joinRequestIdSchema),
+    controller.deny
+  );
+
+  return router;
+}
@@ -8,6 +8,15 @@ import {
   mongoIdSchema,
   groupIdSchema,
   listGroupMediaSchema,
+  searchGroupMediaSchema,
+  listGroupTagsSchema,
+  updateMediaAnnotationsSchema,
+  listGroupMediaCollectionSchema,
+  suggestHighlightsSchema,
+  reprocessMediaSchema,
+  backfillDerivativesSchema,
+  downloadMediaSchema,
+  bulkDownloadMediaSchema,
 } from '../validation/schemas.js';
 
 export function createMediaRoutes(controller: MediaController): Router {
@@ -18,8 +27,16 @@ export function createMediaRoutes(controller: MediaController): Router {
 
   // Media by ID routes
   router.get('/:id', requireAuthJson, readLimiter, validate(mongoIdSchema), controller.getById);
+  // Caption and tags; no sanitizeBody so an empty caption can clear it
+  router.patch('/:id', requireAuthJson, validate(updateMediaAnnotationsSchema), controller.updateAnnotations);
   router.delete('/:id', requireAuthJson, validate(mongoIdSchema), controller.delete);
-  router.get('/:id/download', requireAuthJson, downloadLimiter, validate(mongoIdSchema), controller.getDownloadUrl);
+  router.get('/:id/download', requireAuthJson, downloadLimiter, validate(downloadMediaSchema), controller.getDownloadUrl);
+
+  // Per-user stars and admin-curated highlights
+  router.put('/:id/favorite', requireAuthJson, validate(mongoIdSchema), controller.addFavorite);
+  router.delete('/:id/favorite', requireAuthJson, validate(mongoIdSchema), controller.removeFavorite);
+  router.put('/:id/highlight', requireAuthJson, validate(mongoIdSchema), controller.addHighlight);
+  router.delete('/:id/highlight', requireAuthJson, validate(mongoIdSchema), controller.removeHighlight);
 
   return router;
 }
@@ -40,8 +57,30 @@ export function createGroupMediaRoutes(controller: MediaController): Router {
   // List media for group
   router.get('/:groupId/media', readLimiter, validate(listGroupMediaSchema), controller.listByGroup);
 
+  // Search by caption, tags and filename combined with the gallery filters
+  router.get('/:groupId/media/search', requireAuthJson, readLimiter, validate(searchGroupMediaSchema), controller.search);
+
+  // Tag vocabulary for autocomplete
+  router.get('/:groupId/media/tags', requireAuthJson, readLimiter, validate(listGroupTagsSchema), controller.listTags);
+
+  // The current user's favourites and the group's highlights
+  router.get('/:groupId/media/favorites', requireAuthJson, readLimiter, validate(listGroupMediaCollectionSchema), controller.listFavorites);
+  router.get('/:groupId/media/highlights', requireAuthJson, readLimiter, validate(listGroupMediaCollectionSchema), controller.listHighlights);
+
+  // Ranked candidates for the highlights (admin only)
+  router.get('/:groupId/media/highlights/suggested', requireAuthJson, readLimiter, validate(suggestHighlightsSchema), controller.suggestHighlights);
+
   // Bulk download media as ZIP
-  router.post('/:groupId/media/download-bulk', requireAuthJson, downloadLimiter, validate(groupIdSchema), controller.bulkDownload);
+  router.post('/:groupId/media/download-bulk', requireAuthJson, downloadLimiter, validate(bulkDownloadMediaSchema), controller.bulkDownload);
+
+  // Requeue face detection for failed or stuck media
+  router.post('/:groupId/media/reprocess', requireAuthJson, strictLimiter, validate(reprocessMediaSchema), controller.reprocess);
+
+  // Exact and near-duplicate sets
+  router.get('/:groupId/media/duplicates', requireAuthJson, readLimiter, validate(groupIdSchema), controller.listDuplicates);
+
+  // Queue derivatives for media uploaded before they were generated
+  router.post('/:groupId/media/derivatives/backfill', requireAuthJson, strictLimiter, validate(backfillDerivativesSchema), controller.backfillDerivatives);
 
   return router;
 }
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { PersonController } from '../controllers/PersonController.js';
+import { readLimiter } from '../middleware/rateLimiter.js';
+import { validate, sanitizeBody } from '../middleware/validate.js';
+import { requireAuthJson } from '../middleware/clerkAuth.js';
+import {
+  createPersonSchema,
+  updatePersonSchema,
+  personIdSchema,
+  linkPersonClusterSchema,
+  unlinkPersonClusterSchema,
+  listPersonMediaSchema,
+} from '../validation/schemas.js';
+
+export function createPersonRoutes(controller: PersonController): Router {
+  const router = Router();
+
+  // All person routes are scoped to the authenticated user
+  router.use(requireAuthJson);
+
+  router.get('/', readLimiter, controller.list);
+  router.post('/', sanitizeBody, validate(createPersonSchema), controller.create);
+  router.patch('/:personId', sanitizeBody, validate(updatePersonSchema), controller.update);
+  router.delete('/:personId', validate(personIdSchema), controller.delete);
+
+  // Cluster links
+  router.post('/:personId/clusters', validate(linkPersonClusterSchema), controller.linkCluster);
+  router.delete('/:personId/clusters/:clusterId', validate(unlinkPersonClusterSchema), controller.unlinkCluster);
+
+  // Aggregated photos across groups
+  router.get('/:personId/media', readLimiter, validate(listPersonMediaSchema), controller.getMedia);
+
+  return router;
+}
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { UploadSessionController } from '../controllers/UploadSessionController.js';
+import { readLimiter, uploadSessionLimiter } from '../middleware/rateLimiter.js';
+import { validate } from '../middleware/validate.js';
+import { requireAuthJson } from '../middleware/clerkAuth.js';
+import {
+  groupIdSchema,
+  createUploadSessionSchema,
+  uploadSessionIdSchema,
+  recordUploadPartSchema,
+} from '../validation/schemas.js';
+
+export function createUploadSessionRoutes(controller: UploadSessionController): Router {
+  const router = Router();
+
+  // Sessions are scoped to the user who started them
+  router.use(requireAuthJson);
+
+  router.get('/:sessionId', readLimiter, validate(uploadSessionIdSchema), controller.resume);
+  router.put('/:sessionId/parts/:partNumber', validate(recordUploadPartSchema), controller.recordPart);
+  router.post('/:sessionId/complete', uploadSessionLimiter, validate(uploadSessionIdSchema), controller.complete);
+  router.delete('/:sessionId', validate(uploadSessionIdSchema), controller.abort);
+
+  return router;
+}
+
+export function createGroupUploadSessionRoutes(controller: UploadSessionController): Router {
+  const router = Router();
+
+  // Resumable uploads sent straight to storage
+  router.post(
+    '/:groupId/upload-sessions',
+    requireAuthJson,
+    uploadSessionLimiter,
+    validate(createUploadSessionSchema),
+    controller.create
+  );
+  router.get('/:groupId/upload-sessions', requireAuthJson, readLimiter, validate(groupIdSchema), controller.listActive);
+
+  return router;
+}
@@ -32,12 +32,21 @@ export const createGroupSchema = z.object({
   }),
 });
 
+// Shared by the group's permanent code and named invites
+const inviteCodeValueSchema = z
+  .string()
+  .length(8, 'Invite code must be exactly 8 characters')
+  .regex(/^[A-Z0-9]+$/, 'Invite code must contain only uppercase letters and numbers');
+
 export const joinGroupSchema = z.object({
   body: z.object({
-    inviteCode: z
-      .string()
-      .length(8, 'Invite code must be exactly 8 characters')
-      .regex(/^[A-Z0-9]+$/, 'Invite code must contain only uppercase letters and numbers'),
+    inviteCode: inviteCodeValueSchema,
+  }),
+});
+
+export const inviteCodeSchema = z.object({
+  params: z.object({
+    code: inviteCodeValueSchema,
   }),
 });
 
@@ -48,8 +57,8 @@ export const updateMemberSchema = z.object({
   }),
   body: z.object({
     role: z
-      .enum(['admin', 'member'], {
-        message: 'Role must be either admin or member',
+      .enum(['ADMIN', 'MEMBER', 'VIEWER'], {
+        message: 'Role must be ADMIN, MEMBER or VIEWER',
       })
       .optional(),
     permissions: z
@@ -77,6 +86,256 @@ export const updateClusterSchema = z.object({
   }),
 });
 
+export const moveClusterFacesSchema = z.object({
+  params: z.object({
+    clusterId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid cluster ID format'),
+  }),
+  body: z.object({
+    faceDetectionIds: z
+      .array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid face ID format'))
+      .min(1, 'At least one face must be selected')
+      .max(500, 'Cannot move more than 500 faces at once'),
+    targetClusterId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid cluster ID format'),
+  }),
+});
+
+export const splitClusterSchema = z.object({
+  params: z.object({
+    clusterId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid cluster ID format'),
+  }),
+  body: z.object({
+    faceDetectionIds: z
+      .array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid face ID format'))
+      .min(1, 'At least one face must be selected')
+      .max(500, 'Cannot split more than 500 faces at once'),
+    clusterName: z
+      .string()
+      .max(50, 'Cluster name must be 50 characters or less')
+      .trim()
+      .optional(),
+  }),
+});
+
+export const linkClusterSchema = z.object({
+  params: z.object({
+    clusterId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid cluster ID format'),
+  }),
+  body: z.object({
+    memberUserId: z.string().min(1, 'Member ID cannot be empty').nullable(),
+  }),
+});
+
+export const pinClusterCoverSchema = z.object({
+  params: z.object({
+    clusterId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid cluster ID format'),
+  }),
+  body: z.object({
+    faceDetectionId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid face ID format').nullable(),
+  }),
+});
+
+// Unassigned face schemas
+export const assignFaceSchema = z.object({
+  params: z.object({
+    groupId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid group ID format'),
+    faceDetectionId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid face ID format'),
+  }),
+  body: z.object({
+    clusterId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid cluster ID format'),
+  }),
+});
+
+export const promoteFaceSchema = z.object({
+  params: z.object({
+    groupId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid group ID format'),
+    faceDetectionId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid face ID format'),
+  }),
+  body: z.object({
+    clusterName: z
+      .string()
+      .max(50, 'Cluster name must be 50 characters or less')
+      .trim()
+      .optional(),
+  }),
+});
+
+// Person schemas
+const personNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(50, 'Name must be 50 characters or less');
+
+export const personIdSchema = z.object({
+  params: z.object({
+    personId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid person ID format'),
+  }),
+});
+
+export const createPersonSchema = z.object({
+  body: z.object({
+    name: personNameSchema,
+    clusterIds: z
+      .array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid cluster ID format'))
+      .max(50, 'Cannot link more than 50 clusters at once')
+      .optional(),
+  }),
+});
+
+export const updatePersonSchema = personIdSchema.extend({
+  body: z.object({
+    name: personNameSchema,
+  }),
+});
+
+export const linkPersonClusterSchema = personIdSchema.extend({
+  body: z.object({
+    clusterId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid cluster ID format'),
+  }),
+});
+
+export const unlinkPersonClusterSchema = z.object({
+  params: z.object({
+    personId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid person ID format'),
+    clusterId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid cluster ID format'),
+  }),
+});
+
+// Media schemas
+export const downloadMediaSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid ID format'),
+  }),
+  query: z.object({
+    variant: z.enum(['original', 'converted']).optional(),
+  }),
+});
+
+export const bulkDownloadMediaSchema = z.object({
+  params: z.object({
+    groupId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid group ID format'),
+  }),
+  body: z.object({
+    mediaIds: z
+      .array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid media ID format'))
+      .min(1, 'At least one media ID is required'),
+    variant: z.enum(['original', 'converted']).optional(),
+  }),
+});
+
+export const reprocessMediaSchema = z.object({
+  params: z.object({
+    groupId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid group ID format'),
+  }),
+  body: z.object({
+    mediaIds: z
+      .array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid media ID format'))
+      .max(500, 'Cannot reprocess more than 500 items at once')
+      .optional(),
+  }),
+});
+
+export const backfillDerivativesSchema = z.object({
+  params: z.object({
+    groupId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid group ID format'),
+  }),
+});
+
+// Upload session schemas
+export const createUploadSessionSchema = z.object({
+  params: z.object({
+    groupId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid group ID format'),
+  }),
+  body: z.object({
+    filename: z.string().trim().min(1, 'Filename is required').max(255, 'Filename is too long'),
+    mimeType: z.string().max(100).default(''), // Browsers often leave this empty for HEIC and RAW
+    fileSize: z.number().int().positive('File size must be positive'),
+  }),
+});
+
+export const uploadSessionIdSchema = z.object({
+  params: z.object({
+    sessionId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid upload session ID format'),
+  }),
+});
+
+export const recordUploadPartSchema = z.object({
+  params: z.object({
+    sessionId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid upload session ID format'),
+    partNumber: z.coerce.number().int().min(1).max(10000),
+  }),
+  body: z.object({
+    etag: z.string().min(1, 'ETag is required'),
+    size: z.number().int().nonnegative().optional(),
+  }),
+});
+
+// Album schemas
+const albumNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Album name is required')
+  .max(100, 'Album name must be 100 characters or less');
+
+const albumMediaIdsSchema = z
+  .array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid media ID format'))
+  .max(1000, 'Cannot change more than 1000 items at once');
+
+export const albumIdSchema = z.object({
+  params: z.object({
+    albumId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid album ID format'),
+  }),
+});
+
+export const createAlbumSchema = z.object({
+  params: z.object({
+    groupId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid group ID format'),
+  }),
+  body: z.object({
+    name: albumNameSchema,
+    description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+    mediaIds: albumMediaIdsSchema.optional(),
+  }),
+});
+
+export const updateAlbumSchema = albumIdSchema.extend({
+  body: z.object({
+    name: albumNameSchema.optional(),
+    description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+    coverMediaId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid media ID format').nullable().optional(),
+  }),
+});
+
+export const albumMediaSchema = albumIdSchema.extend({
+  body: z.object({
+    mediaIds: albumMediaIdsSchema.min(1, 'At least one media ID is required'),
+  }),
+});
+
+export const reorderAlbumMediaSchema = albumIdSchema.extend({
+  body: z.object({
+    mediaIds: z.array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid media ID format')),
+  }),
+});
+
+// Comment schemas
+const commentBodySchema = z
+  .string()
+  .min(1, 'Comment cannot be empty')
+  .max(1000, 'Comment must be less than 1000 characters');
+
+export const commentIdSchema = z.object({
+  params: z.object({
+    commentId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid comment ID format'),
+  }),
+});
+
+export const updateCommentSchema = commentIdSchema.extend({
+  body: z.object({
+    body: commentBodySchema,
+  }),
+});
+
 // Job schemas
 export const getJobStatusSchema = z.object({
   params: z.object({
@@ -107,6 +366,19 @@ export const mongoIdSchema = z.object({
   }),
 });
 
+export const leaveGroupSchema = mongoIdSchema.extend({
+  body: z.object({
+    uploads: z.enum(['keep', 'delete'], { message: 'Uploads must be either keep or delete' }),
+    newOwnerId: z.string().min(1, 'New owner is required').optional(),
+  }),
+});
+
+export const transferOwnershipSchema = mongoIdSchema.extend({
+  body: z.object({
+    newOwnerId: z.string().min(1, 'New owner is required'),
+  }),
+});
+
 export const groupIdSchema = z.object({
   params: z.object({
     groupId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid group ID format'),
@@ -114,14 +386,123 @@ export const groupIdSchema = z.object({
 });
 
 // Combined schemas for routes with both params and query
-export const listGroupMediaSchema = groupIdSchema.merge(paginationSchema);
+export const listGroupMediaSchema = groupIdSchema.merge(paginationSchema).extend({
+  query: paginationSchema.shape.query.extend({
+    // Capture-time range
+    takenFrom: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid date').optional(),
+    takenTo: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid date').optional(),
+  }),
+});
+export const searchGroupMediaSchema = groupIdSchema.merge(paginationSchema).extend({
+  query: paginationSchema.shape.query.extend({
+    q: z.string().max(200, 'Search must be less than 200 characters').optional(),
+    tags: z.string().max(500, 'Too many tags').optional(), // Comma separated, media must have all of them
+    uploaderId: z.string().min(1).optional(),
+    clusterId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid cluster ID format').optional(),
+    takenFrom: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid date').optional(),
+    takenTo: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid date').optional(),
+  }),
+});
+export const listGroupTagsSchema = groupIdSchema.extend({
+  query: z.object({
+    q: z.string().max(40, 'Tag prefix must be less than 40 characters').optional(),
+    limit: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val, 10) : 20))
+      .refine((val) => val > 0 && val <= 50, 'Limit must be between 1 and 50'),
+  }),
+});
+export const updateMediaAnnotationsSchema = mongoIdSchema.extend({
+  body: z
+    .object({
+      caption: z.string().max(500, 'Caption must be less than 500 characters').optional(),
+      tags: z
+        .array(z.string().max(40, 'Tags must be less than 40 characters'))
+        .max(20, 'A photo can have at most 20 tags')
+        .optional(),
+    })
+    .refine((body) => body.caption !== undefined || body.tags !== undefined, 'Nothing to update'),
+});
+export const createCommentSchema = mongoIdSchema.extend({
+  body: z.object({
+    body: commentBodySchema,
+    parentId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid comment ID format').optional(),
+  }),
+});
+export const toggleReactionSchema = mongoIdSchema.extend({
+  body: z.object({
+    emoji: z.string().min(1, 'Emoji is required').max(16),
+  }),
+});
+export const listGroupMediaCollectionSchema = groupIdSchema.merge(paginationSchema);
+export const suggestHighlightsSchema = groupIdSchema.extend({
+  query: z.object({
+    limit: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val, 10) : 20))
+      .refine((val) => val > 0 && val <= 50, 'Limit must be between 1 and 50'),
+  }),
+});
+export const listGroupActivitiesSchema = groupIdSchema.extend({
+  query: z.object({
+    limit: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val, 10) : 20))
+      .refine((val) => val > 0 && val <= 50, 'Limit must be between 1 and 50'),
+    cursor: z.string().max(100, 'Invalid cursor').optional(),
+  }),
+});
+export const createInviteSchema = groupIdSchema.extend({
+  body: z.object({
+    role: z.enum(['MEMBER', 'VIEWER'], { message: 'Role must be either MEMBER or VIEWER' }),
+    label: z.string().max(100, 'Label must be less than 100 characters').optional(),
+    expiresAt: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid date').optional(),
+    maxUses: z.number().int().min(1, 'An invite must allow at least one use').max(1000).optional(),
+  }),
+});
+export const inviteIdSchema = z.object({
+  params: groupIdSchema.shape.params.extend({
+    inviteId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid invite ID format'),
+  }),
+});
+export const joinRequestIdSchema = z.object({
+  params: groupIdSchema.shape.params.extend({
+    requestId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid join request ID format'),
+  }),
+});
+export const sendEmailInvitationsSchema = groupIdSchema.extend({
+  body: z.object({
+    emails: z
+      .array(z.string().trim().email('Invalid email address'))
+      .min(1, 'At least one email address is required')
+      .max(20, 'You can invite at most 20 people at once'),
+    role: z.enum(['MEMBER', 'VIEWER'], { message: 'Role must be either MEMBER or VIEWER' }),
+  }),
+});
+export const emailInvitationIdSchema = z.object({
+  params: groupIdSchema.shape.params.extend({
+    invitationId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid invitation ID format'),
+  }),
+});
+export const invitationTokenSchema = z.object({
+  params: z.object({
+    token: z.string().regex(/^[A-Za-z0-9_-]{32}$/, 'Invalid invitation link'),
+  }),
+});
 export const listGroupClustersSchema = groupIdSchema.merge(paginationSchema);
 export const listGroupJobsSchema = groupIdSchema.merge(paginationSchema);
+export const listPersonMediaSchema = personIdSchema.merge(paginationSchema);
+export const listAlbumMediaSchema = albumIdSchema.merge(paginationSchema);
 
 // Export types for TypeScript
 export type CreateGroupInput = z.infer<typeof createGroupSchema>;
 export type JoinGroupInput = z.infer<typeof joinGroupSchema>;
 export type UpdateMemberInput = z.infer<typeof updateMemberSchema>;
 export type UpdateClusterInput = z.infer<typeof updateClusterSchema>;
+export type AssignFaceInput = z.infer<typeof assignFaceSchema>;
+export type PromoteFaceInput = z.infer<typeof promoteFaceSchema>;
 export type GetJobStatusInput = z.infer<typeof getJobStatusSchema>;
 export type PaginationInput = z.infer<typeof paginationSchema>;
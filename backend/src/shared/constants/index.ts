@@ -8,6 +8,8 @@ export const JobType = {
   FACE_DETECTION: 'FACE_DETECTION',
   FACE_GROUPING: 'FACE_GROUPING',
   MEDIA_CLEANUP: 'MEDIA_CLEANUP',
+  MEDIA_DERIVATIVES: 'MEDIA_DERIVATIVES',
+  MEDIA_PREPARATION: 'MEDIA_PREPARATION',
 } as const;
 
 export const JobStatus = {
@@ -18,6 +20,61 @@ export const JobStatus = {
   CANCELLED: 'CANCELLED',
 } as const;
 
+export const MediaProcessingStatus = {
+  PENDING: 'pending',
+  PROCESSING: 'processing',
+  DONE: 'done',
+  FAILED: 'failed',
+} as const;
+
+export const MediaType = {
+  IMAGE: 'image',
+  VIDEO: 'video',
+} as const;
+
+export const IMAGE_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+export const VIDEO_MIME_TYPES = ['video/mp4', 'video/quicktime', 'video/webm', 'video/x-m4v'];
+
+// Stored as uploaded, with a JPEG derivative for display and face detection
+export const CONVERTIBLE_IMAGE_MIME_TYPES = [
+  'image/heic',
+  'image/heif',
+  'image/heic-sequence',
+  'image/heif-sequence',
+  'image/x-adobe-dng',
+  'image/x-canon-cr2',
+  'image/x-nikon-nef',
+  'image/x-sony-arw',
+  'image/tiff',
+];
+// Browsers often send HEIC and RAW files without a specific MIME type
+export const CONVERTIBLE_IMAGE_EXTENSIONS = ['.heic', '.heif', '.dng', '.cr2', '.nef', '.arw', '.tif', '.tiff'];
+
+// Downscaled copies served to the gallery instead of the full-size upload
+export const DerivativeSize = {
+  THUMB: 'thumb',
+  MEDIUM: 'medium',
+  LARGE: 'large',
+} as const;
+
+// Longest edge in pixels per derivative size
+export const DERIVATIVE_DIMENSIONS = {
+  thumb: 320,
+  medium: 1024,
+  large: 2048,
+} as const;
+
+export const UploadSessionStatus = {
+  ACTIVE: 'active',
+  COMPLETED: 'completed',
+  ABORTED: 'aborted',
+} as const;
+
+export const DownloadVariant = {
+  ORIGINAL: 'original',
+  CONVERTED: 'converted',
+} as const;
+
 export const ActivityType = {
   GROUP_CREATED: 'GROUP_CREATED',
   MEMBER_JOINED: 'MEMBER_JOINED',
@@ -25,20 +82,45 @@ export const ActivityType = {
   MEDIA_UPLOADED: 'MEDIA_UPLOADED',
   MEDIA_DELETED: 'MEDIA_DELETED',
   CLUSTER_NAMED: 'CLUSTER_NAMED',
+  CLUSTERS_MERGED: 'CLUSTERS_MERGED',
+  SHARE_CREATED: 'SHARE_CREATED',
+  COMMENT_ADDED: 'COMMENT_ADDED',
+  COMMENT_REMOVED: 'COMMENT_REMOVED', // An admin removed someone else's comment
+  MEDIA_REACTED: 'MEDIA_REACTED',
 } as const;
 
+// Reactions are limited to a fixed set so counts stay readable on gallery tiles
+export const REACTION_EMOJIS = ['❤️', '😂', '😮', '😢', '👍', '🔥'];
+
 export const DEFAULTS = {
   STORAGE_LIMIT: 1073741824, // 1GB
   AUTO_DELETE_DAYS: 30,
   FACE_SIMILARITY_THRESHOLD: 85,
   FACE_QUALITY_THRESHOLD: 50,
+  MIN_CLUSTER_SIZE: 2,
   ENHANCED_FACE_SIZE: 600,
   MAX_FILE_SIZE: 10485760, // 10MB
   MAX_FILES_PER_UPLOAD: 50,
+  MEDIA_STUCK_AFTER_MINUTES: 30,
+  MAX_VIDEO_DURATION_SECONDS: 300, // 5 minutes
+  VIDEO_KEYFRAME_INTERVAL_SECONDS: 2,
+  MAX_VIDEO_KEYFRAMES: 30,
+  NEAR_DUPLICATE_MAX_DISTANCE: 6, // Bits out of 64 in the perceptual hash
+  UPLOAD_PART_SIZE: 8 * 1024 * 1024, // 8MB, S3 requires at least 5MB for all but the last part
+  UPLOAD_SESSION_TTL_HOURS: 24,
+  MAX_RESUMABLE_FILE_SIZE: 50 * 1024 * 1024, // Same limit as regular uploads
+  MAX_TAGS_PER_MEDIA: 20,
+  MAX_TAG_LENGTH: 40,
+  MAX_COMMENT_LENGTH: 1000,
+  ACTIVITY_GROUPING_MINUTES: 60, // Same kind of activity by one member within this gap shows as one entry
+  EMAIL_INVITATION_TTL_DAYS: 14, // Restarted when an invitation is resent
+  MAX_EMAIL_INVITATIONS_PER_REQUEST: 20,
 } as const;
 
 export const QUEUE_NAMES = {
   FACE_DETECTION: 'face-detection',
   FACE_GROUPING: 'face-grouping',
   CLEANUP: 'cleanup',
+  MEDIA_DERIVATIVES: 'media-derivatives',
+  MEDIA_PREPARATION: 'media-preparation',
 } as const;
@@ -1,10 +1,25 @@
-import { MemberRole, JobType, JobStatus, ActivityType } from '../constants/index.js';
+import {
+  MemberRole,
+  JobType,
+  JobStatus,
+  MediaProcessingStatus,
+  MediaType,
+  ActivityType,
+  DownloadVariant,
+  DerivativeSize,
+  UploadSessionStatus,
+} from '../constants/index.js';
 
 // Extract types from constants
 export type MemberRoleType = (typeof MemberRole)[keyof typeof MemberRole];
 export type JobTypeType = (typeof JobType)[keyof typeof JobType];
 export type JobStatusType = (typeof JobStatus)[keyof typeof JobStatus];
+export type MediaProcessingStatusType = (typeof MediaProcessingStatus)[keyof typeof MediaProcessingStatus];
+export type MediaTypeValue = (typeof MediaType)[keyof typeof MediaType];
+export type DownloadVariantType = (typeof DownloadVariant)[keyof typeof DownloadVariant];
+export type DerivativeSizeType = (typeof DerivativeSize)[keyof typeof DerivativeSize];
 export type ActivityTypeType = (typeof ActivityType)[keyof typeof ActivityType];
+export type UploadSessionStatusType = (typeof UploadSessionStatus)[keyof typeof UploadSessionStatus];
 
 // Common Types
 export interface IBoundingBox {
@@ -59,12 +74,38 @@ export interface ApiResponse<T = any> {
 }
 
 // AWS Types
+export interface MediaLocation {
+  latitude: number;
+  longitude: number;
+  altitude?: number; // Meters above sea level
+}
+
+export interface MediaDerivative {
+  webpS3Key: string;
+  avifS3Key: string;
+  width: number;
+  height: number;
+}
+
+export type MediaDerivatives = Partial<Record<DerivativeSizeType, MediaDerivative>>;
+
+// Presigned URLs for each derivative, as returned by the media API
+export type MediaDerivativeUrls = Partial<
+  Record<DerivativeSizeType, { webp: string; avif: string; width: number; height: number }>
+>;
+
 export interface S3UploadResult {
   key: string;
   bucket: string;
   url: string;
 }
 
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size?: number;
+}
+
 export interface RekognitionFaceData {
   faceId: string;
   boundingBox: IBoundingBox;
@@ -102,6 +143,17 @@ export interface FaceGroupingJobData {
   metadata?: Record<string, unknown>;
 }
 
+export interface MediaDerivativesJobData {
+  groupId: string;
+  mediaIds: string[];
+}
+
+// Media that reached storage through an upload session and hasn't been probed or converted yet
+export interface MediaPreparationJobData {
+  groupId: string;
+  mediaIds: string[];
+}
+
 export interface CleanupJobData {
   groupId: string;
   userId: string;
@@ -0,0 +1,97 @@
+import { RekognitionFaceData } from '../types/index.js';
+
+/**
+ * Calculate overall quality score for a face
+ * Higher score = better quality face for display
+ */
+export function calculateFaceQualityScore(
+  face: Pick<RekognitionFaceData, 'confidence' | 'quality' | 'pose'>
+): number {
+  let score = 0;
+
+  // Confidence (0-30 points)
+  score += (face.confidence / 100) * 30;
+
+  // Brightness (0-25 points) - prefer 40-80 range (optimal lighting)
+  if (face.quality?.brightness) {
+    const brightness = face.quality.brightness;
+    if (brightness >= 40 && brightness <= 80) {
+      score += 25; // Optimal
+    } else if (brightness >= 30 && brightness <= 90) {
+      score += 15; // Acceptable
+    } else {
+      score += 5; // Too dark or too bright
+    }
+  }
+
+  // Sharpness (0-25 points)
+  if (face.quality?.sharpness) {
+    score += (face.quality.sharpness / 100) * 25;
+  }
+
+  // Pose (0-20 points) - prefer face looking at camera
+  if (face.pose) {
+    const { roll, yaw, pitch } = face.pose;
+
+    // Calculate deviation from straight-on (0 degrees)
+    const rollDeviation = Math.abs(roll);
+    const yawDeviation = Math.abs(yaw);
+    const pitchDeviation = Math.abs(pitch);
+
+    // Average deviation
+    const avgDeviation = (rollDeviation + yawDeviation + pitchDeviation) / 3;
+
+    if (avgDeviation < 10) {
+      score += 20; // Nearly perfect frontal
+    } else if (avgDeviation < 20) {
+      score += 15; // Good frontal
+    } else if (avgDeviation < 30) {
+      score += 10; // Acceptable
+    } else {
+      score += 5; // Profile or angled
+    }
+  }
+
+  return Math.min(100, Math.round(score));
+}
+
+type ScoredFace = Pick<RekognitionFaceData, 'confidence' | 'quality' | 'pose'> & {
+  qualityScore?: number;
+};
+
+/**
+ * Score a face for use as a cluster cover
+ * Starts from the quality score and penalises faces turned away from the camera,
+ * with yaw (profile faces) weighted the heaviest
+ */
+export function calculateCoverScore(face: ScoredFace): number {
+  const baseScore = face.qualityScore ?? calculateFaceQualityScore(face);
+
+  // Unknown pose is treated as slightly worse than a known frontal one
+  if (!face.pose) {
+    return baseScore - 10;
+  }
+
+  const { roll, yaw, pitch } = face.pose;
+  const posePenalty = Math.min(40, Math.abs(yaw) * 0.8 + Math.abs(pitch) * 0.4 + Math.abs(roll) * 0.2);
+
+  return baseScore - posePenalty;
+}
+
+/**
+ * Pick the most representative face from a list
+ */
+export function selectCoverFace<T extends ScoredFace>(faces: T[]): T | undefined {
+  let best: T | undefined;
+  let bestScore = -Infinity;
+
+  for (const face of faces) {
+    const score = calculateCoverScore(face);
+    if (score > bestScore) {
+      best = face;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
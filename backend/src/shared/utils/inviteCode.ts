@@ -0,0 +1,13 @@
+const INVITE_CODE_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+/**
+ * Random 8 character code for joining a group
+ * Group codes and named invites share this format so one join box accepts both
+ */
+export function generateInviteCode(): string {
+  let code = '';
+  for (let i = 0; i < 8; i++) {
+    code += INVITE_CODE_CHARACTERS.charAt(Math.floor(Math.random() * INVITE_CODE_CHARACTERS.length));
+  }
+  return code;
+}
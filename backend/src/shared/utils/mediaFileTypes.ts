@@ -0,0 +1,33 @@
+import {
+  IMAGE_MIME_TYPES,
+  VIDEO_MIME_TYPES,
+  CONVERTIBLE_IMAGE_MIME_TYPES,
+  CONVERTIBLE_IMAGE_EXTENSIONS,
+} from '../constants/index.js';
+
+// MIME types browsers send when they don't recognise a file
+const GENERIC_MIME_TYPES = ['', 'application/octet-stream'];
+
+/**
+ * Whether a file is a HEIC/HEIF or RAW image that needs a converted derivative
+ */
+export function isConvertibleImage(mimetype: string, originalName: string): boolean {
+  if (CONVERTIBLE_IMAGE_MIME_TYPES.includes(mimetype)) {
+    return true;
+  }
+
+  const dotIndex = originalName.lastIndexOf('.');
+  const extension = dotIndex >= 0 ? originalName.slice(dotIndex).toLowerCase() : '';
+  return GENERIC_MIME_TYPES.includes(mimetype) && CONVERTIBLE_IMAGE_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Whether a file can be uploaded as media
+ */
+export function isSupportedMediaFile(mimetype: string, originalName: string): boolean {
+  return (
+    IMAGE_MIME_TYPES.includes(mimetype) ||
+    VIDEO_MIME_TYPES.includes(mimetype) ||
+    isConvertibleImage(mimetype, originalName)
+  );
+}
@@ -0,0 +1,14 @@
+import { DEFAULTS } from '../constants/index.js';
+
+/**
+ * Normalise free-form tags so the group vocabulary doesn't fill with near-duplicates
+ * Lowercases, trims, collapses whitespace, strips a leading '#' and drops empty or repeated tags
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map(tag => tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase())
+    .filter(tag => tag.length > 0)
+    .map(tag => tag.slice(0, DEFAULTS.MAX_TAG_LENGTH));
+
+  return [...new Set(normalized)].slice(0, DEFAULTS.MAX_TAGS_PER_MEDIA);
+}
@@ -0,0 +1,19 @@
+// Set bits in each hex digit 0-f
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/**
+ * Number of differing bits between two 64-bit perceptual hashes (hex encoded)
+ * 0 means visually identical, up to ~10 is usually the same shot re-encoded or resized
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+
+  // Compared one hex digit at a time, so no 64-bit arithmetic is needed
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const x = parseInt(a[i] ?? '0', 16);
+    const y = parseInt(b[i] ?? '0', 16);
+    distance += NIBBLE_BITS[x ^ y];
+  }
+
+  return distance;
+}
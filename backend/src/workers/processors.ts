@@ -1,10 +1,20 @@
 import { Worker, Job } from 'bullmq';
 import { container } from '../di/container.js';
-import { QUEUE_NAMES } from '../shared/constants/index.js';
+import {
+  QUEUE_NAMES,
+  JobType,
+  MediaProcessingStatus,
+  DEFAULTS,
+  DerivativeSize,
+  DERIVATIVE_DIMENSIONS,
+} from '../shared/constants/index.js';
 import {
   FaceDetectionJobData,
   FaceGroupingJobData,
   CleanupJobData,
+  MediaDerivativesJobData,
+  MediaPreparationJobData,
+  MediaDerivatives,
 } from '../shared/types/index.js';
 import type { IGroupRepository } from '../core/interfaces/repositories/IGroupRepository.js';
 import type { IMediaRepository } from '../core/interfaces/repositories/IMediaRepository.js';
@@ -15,10 +25,15 @@ import type { IFaceEnhancementService } from '../core/interfaces/services/IFaceE
 import type { IStorageService } from '../core/interfaces/services/IStorageService.js';
 import type { FaceClusteringService } from '../infrastructure/aws/FaceClusteringService.js';
 import type { IQueueService } from '../core/interfaces/services/IQueueService.js';
+import type { IVideoProcessingService } from '../core/interfaces/services/IVideoProcessingService.js';
+import type { IImageProcessingService } from '../core/interfaces/services/IImageProcessingService.js';
+import type { IMediaDeletionService } from '../core/interfaces/services/IMediaDeletionService.js';
+import type { IMediaPreparationService } from '../core/interfaces/services/IMediaPreparationService.js';
+import { Media } from '../core/entities/Media.js';
 import { FaceDetection } from '../core/entities/FaceDetection.js';
 import { FaceCluster, FaceClusterMember } from '../core/entities/FaceCluster.js';
-import { RekognitionService } from '../infrastructure/aws/RekognitionService.js';
 import { RedisCacheService, CacheKeys } from '../infrastructure/cache/RedisCacheService.js';
+import { calculateFaceQualityScore } from '../shared/utils/faceQuality.js';
 import { env } from '../config/env.js';
 import Redis from 'ioredis';
 
@@ -33,16 +48,164 @@ const mediaRepository = container.get<IMediaRepository>('MediaRepository');
 const faceDetectionRepository = container.get<IFaceDetectionRepository>('FaceDetectionRepository');
 const faceClusterRepository = container.get<IFaceClusterRepository>('FaceClusterRepository');
 const faceClusterMemberRepository = container.get<IFaceClusterMemberRepository>('FaceClusterMemberRepository');
-const rekognitionService = container.get<IFaceRecognitionService>('RekognitionService');
+const rekognitionService = container.get<IFaceRecognitionService>('FaceRecognitionService');
 const faceEnhancementService = container.get<IFaceEnhancementService>('FaceEnhancementService');
 const faceClusteringService = container.get<FaceClusteringService>('FaceClusteringService');
 const queueService = container.get<IQueueService>('QueueService');
 const s3Service = container.get<IStorageService>('S3Service');
 const cacheService = container.get<RedisCacheService>('CacheService');
+const videoProcessingService = container.get<IVideoProcessingService>('VideoProcessingService');
+const imageProcessingService = container.get<IImageProcessingService>('ImageProcessingService');
+const mediaDeletionService = container.get<IMediaDeletionService>('MediaDeletionService');
+const mediaPreparationService = container.get<IMediaPreparationService>('MediaPreparationService');
+
+interface IndexFacesResult {
+  faceDetectionIds: string[];
+  faceCount: number;
+  faceErrors: string[];
+}
+
+/**
+ * Detect, enhance and index the faces of a single image
+ * Used for photos and for keyframes sampled from videos
+ */
+async function indexFacesInImage(params: {
+  media: Media;
+  groupId: string;
+  collectionId: string;
+  s3Key: string;
+  loadImage: () => Promise<Buffer>;
+  label: string;
+  timestampSeconds?: number;
+}): Promise<IndexFacesResult> {
+  const { media, groupId, collectionId, s3Key, label, timestampSeconds } = params;
+  const result: IndexFacesResult = { faceDetectionIds: [], faceCount: 0, faceErrors: [] };
+
+  // Stage 1: Detect faces to get bounding boxes
+  const detectedFaces = await rekognitionService.detectFaces(media.s3Bucket, s3Key);
+
+  if (detectedFaces.length === 0) {
+    console.log(`[Face Detection] No faces detected in ${label}`);
+    return result;
+  }
+
+  console.log(`[Face Detection] Detected ${detectedFaces.length} faces in ${label}`);
+
+  // Stage 2: Download image buffer and enhance each detected face
+  const imageBuffer = await params.loadImage();
+  const enhancedFaces = await faceEnhancementService.enhanceMultipleFaces(
+    imageBuffer,
+    detectedFaces.map(f => f.boundingBox)
+  );
+  result.faceCount = enhancedFaces.length;
+
+  console.log(`[Face Detection] Enhanced ${enhancedFaces.length} faces`);
+
+  // Stage 3: Index enhanced faces in Rekognition and upload thumbnails
+  for (let i = 0; i < enhancedFaces.length; i++) {
+    const enhancedFace = enhancedFaces[i];
+    const originalFace = detectedFaces[i];
+
+    try {
+      // Upload face thumbnail to S3
+      const thumbnailKey = `thumbnails/${groupId}/${label}-face-${i}-${Date.now()}.jpg`;
+      await s3Service.uploadBuffer(enhancedFace.buffer, thumbnailKey, 'image/jpeg');
+      console.log(`[Face Detection] Uploaded thumbnail: ${thumbnailKey}`);
+
+      const indexedFaces = await rekognitionService.indexFaces(
+        collectionId,
+        enhancedFace.buffer,
+        `${label}-face-${i}`
+      );
+
+      if (indexedFaces.length > 0) {
+        const indexedFace = indexedFaces[0];
+        // Provider-independent quality score used to pick display faces
+        const qualityScore = calculateFaceQualityScore(indexedFace);
+
+        const faceDetectionEntity = FaceDetection.create({
+          mediaId: media.id,
+          rekognitionFaceId: indexedFace.faceId,
+          boundingBox: originalFace.boundingBox,
+          confidence: indexedFace.confidence,
+          quality: indexedFace.quality,
+          pose: indexedFace.pose,
+          qualityScore: qualityScore,
+          thumbnailS3Key: thumbnailKey,
+          timestampSeconds,
+        });
+
+        const faceDetection = await faceDetectionRepository.create(faceDetectionEntity);
+        result.faceDetectionIds.push(faceDetection.id);
+      }
+    } catch (error) {
+      console.error(`[Face Detection] Failed to index face ${i} of ${label}:`, error);
+      const position = timestampSeconds !== undefined ? ` at ${timestampSeconds}s` : '';
+      result.faceErrors.push(
+        `Face ${i + 1}${position}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Sample keyframes from a video and index the faces found in each frame
+ * Frames are uploaded temporarily because detection reads images from storage
+ */
+async function processVideoKeyframes(
+  media: Media,
+  groupId: string,
+  collectionId: string
+): Promise<IndexFacesResult> {
+  const videoBuffer = await s3Service.getObjectBuffer(media.s3Key);
+  const frames = await videoProcessingService.extractKeyframes(
+    videoBuffer,
+    DEFAULTS.VIDEO_KEYFRAME_INTERVAL_SECONDS,
+    DEFAULTS.MAX_VIDEO_KEYFRAMES
+  );
+
+  console.log(`[Face Detection] Sampled ${frames.length} keyframes from video ${media.id}`);
+
+  const result: IndexFacesResult = { faceDetectionIds: [], faceCount: 0, faceErrors: [] };
+  const keyframeKeys: string[] = [];
+
+  try {
+    for (const frame of frames) {
+      const label = `${media.id}-t${frame.timestampSeconds}`;
+      const keyframeKey = `keyframes/${groupId}/${label}.jpg`;
+      await s3Service.uploadBuffer(frame.buffer, keyframeKey, 'image/jpeg');
+      keyframeKeys.push(keyframeKey);
+
+      const frameResult = await indexFacesInImage({
+        media,
+        groupId,
+        collectionId,
+        s3Key: keyframeKey,
+        loadImage: async () => frame.buffer,
+        label,
+        timestampSeconds: frame.timestampSeconds,
+      });
+
+      result.faceDetectionIds.push(...frameResult.faceDetectionIds);
+      result.faceCount += frameResult.faceCount;
+      result.faceErrors.push(...frameResult.faceErrors);
+    }
+  } finally {
+    if (keyframeKeys.length > 0) {
+      await s3Service.deleteFiles(keyframeKeys).catch((error) => {
+        console.error(`[Face Detection] Failed to delete keyframes of ${media.id}:`, error);
+      });
+    }
+  }
+
+  return result;
+}
 
 /**
  * Face Detection Worker
- * Processes uploaded images to detect and index faces using AWS Rekognition
+ * Processes uploaded images to detect and index faces using the configured face recognition provider
  */
 export const faceDetectionWorker = new Worker<FaceDetectionJobData>(
   QUEUE_NAMES.FACE_DETECTION,
@@ -85,78 +248,44 @@ export const faceDetectionWorker = new Worker<FaceDetectionJobData>(
 
       // Process each media item
       for (const media of mediaItems) {
+        // Job retries include items an earlier attempt already finished
+        if (media.processingStatus === MediaProcessingStatus.DONE) {
+          processedCount++;
+          continue;
+        }
+
         try {
           console.log(
             `[Face Detection] Processing media ${media.id} (${processedCount + 1}/${totalCount})`
           );
 
-          // Stage 1: Detect faces to get bounding boxes
-          const detectedFaces = await rekognitionService.detectFaces(
-            media.s3Bucket,
-            media.s3Key
-          );
-
-          if (detectedFaces.length === 0) {
-            console.log(`[Face Detection] No faces detected in ${media.id}`);
-            await mediaRepository.update(media.id, { processed: true });
-            processedCount++;
-            continue;
-          }
-
-          console.log(`[Face Detection] Detected ${detectedFaces.length} faces`);
-
-          // Stage 2: Download image buffer and enhance each detected face
-          const imageBuffer = await s3Service.getObjectBuffer(media.s3Key);
-          const enhancedFaces = await faceEnhancementService.enhanceMultipleFaces(
-            imageBuffer,
-            detectedFaces.map(f => f.boundingBox)
-          );
-
-          console.log(`[Face Detection] Enhanced ${enhancedFaces.length} faces`);
+          await mediaRepository.updateProcessingStatus(media.id, MediaProcessingStatus.PROCESSING);
 
-          // Stage 3: Index enhanced faces in Rekognition and upload thumbnails
-          for (let i = 0; i < enhancedFaces.length; i++) {
-            const enhancedFace = enhancedFaces[i];
-            const originalFace = detectedFaces[i];
+          const { faceDetectionIds, faceCount, faceErrors } = media.isVideo()
+            ? await processVideoKeyframes(media, groupId, collectionId)
+            : await indexFacesInImage({
+                media,
+                groupId,
+                collectionId,
+                s3Key: media.s3Key,
+                loadImage: () => s3Service.getObjectBuffer(media.s3Key),
+                label: media.id,
+              });
 
-            try {
-              // Upload face thumbnail to S3
-              const thumbnailKey = `thumbnails/${groupId}/${media.id}-face-${i}-${Date.now()}.jpg`;
-              await s3Service.uploadBuffer(enhancedFace.buffer, thumbnailKey, 'image/jpeg');
-              console.log(`[Face Detection] Uploaded thumbnail: ${thumbnailKey}`);
+          allFaceDetectionIds.push(...faceDetectionIds);
 
-              const indexedFaces = await rekognitionService.indexFaces(
-                collectionId,
-                enhancedFace.buffer,
-                `${media.id}-face-${i}`
-              );
-
-              if (indexedFaces.length > 0) {
-                const indexedFace = indexedFaces[0];
-                // Calculate quality score using RekognitionService directly
-                const qualityScore = (rekognitionService as RekognitionService).calculateFaceQualityScore(indexedFace);
-
-                const faceDetectionEntity = FaceDetection.create({
-                  mediaId: media.id,
-                  rekognitionFaceId: indexedFace.faceId,
-                  boundingBox: originalFace.boundingBox,
-                  confidence: indexedFace.confidence,
-                  quality: indexedFace.quality,
-                  pose: indexedFace.pose,
-                  qualityScore: qualityScore,
-                  thumbnailS3Key: thumbnailKey,
-                });
-
-                const faceDetection = await faceDetectionRepository.create(faceDetectionEntity);
-                allFaceDetectionIds.push(faceDetection.id);
-              }
-            } catch (error) {
-              console.error(`[Face Detection] Failed to index face ${i}:`, error);
-            }
+          // Fail the item if no face could be indexed, otherwise keep the partial errors for display
+          if (faceErrors.length === faceCount && faceCount > 0) {
+            throw new Error(`Failed to index ${faceErrors.length} detected faces. ${faceErrors[0]}`);
           }
 
-          // Mark media as processed
-          await mediaRepository.update(media.id, { processed: true });
+          await mediaRepository.updateProcessingStatus(
+            media.id,
+            MediaProcessingStatus.DONE,
+            faceErrors.length > 0
+              ? `${faceErrors.length} of ${faceCount} faces could not be indexed. ${faceErrors.join('; ')}`
+              : undefined
+          );
 
           processedCount++;
           const progress = Math.round(10 + (processedCount / totalCount) * 80);
@@ -172,6 +301,11 @@ export const faceDetectionWorker = new Worker<FaceDetectionJobData>(
           }
         } catch (error) {
           console.error(`[Face Detection] Failed to process media ${media.id}:`, error);
+          await mediaRepository.updateProcessingStatus(
+            media.id,
+            MediaProcessingStatus.FAILED,
+            error instanceof Error ? error.message : String(error)
+          );
         }
       }
 
@@ -207,6 +341,14 @@ export const faceDetectionWorker = new Worker<FaceDetectionJobData>(
       );
     } catch (error) {
       console.error(`[Face Detection] Job ${jobId} failed:`, error);
+
+      // Don't leave items pending forever when the whole job fails
+      await mediaRepository.markUnfinishedAsFailed(
+        mediaIds,
+        error instanceof Error ? error.message : String(error)
+      );
+      await cacheService.deletePattern(`media:group:${groupId}:page:*`);
+
       throw error;
     }
   },
@@ -220,7 +362,9 @@ export const faceDetectionWorker = new Worker<FaceDetectionJobData>(
 
 /**
  * Face Grouping Worker
- * Clusters detected faces into groups representing individual people
+ * Clusters detected faces into groups representing individual people.
+ * New faces are first matched against existing clusters so the same person
+ * is not split across one cluster per upload batch.
  */
 export const faceGroupingWorker = new Worker<FaceGroupingJobData>(
   QUEUE_NAMES.FACE_GROUPING,
@@ -242,6 +386,7 @@ export const faceGroupingWorker = new Worker<FaceGroupingJobData>(
       }
 
       const collectionId = group.rekognitionCollectionId;
+      const { similarityThreshold, minClusterSize, qualityThreshold } = group.clusteringSettings;
 
       // Get unprocessed face detections
       const faceDetections = await faceDetectionRepository.findByIds(faceDetectionIds);
@@ -253,24 +398,127 @@ export const faceGroupingWorker = new Worker<FaceGroupingJobData>(
         return;
       }
 
-      const rekognitionFaceIds = unprocessedFaces.map((f) => f.rekognitionFaceId);
+      // Exclude faces below the group's quality floor from clustering
+      const eligibleFaces = unprocessedFaces.filter(
+        (face) => face.qualityScore === undefined || face.qualityScore >= qualityThreshold
+      );
+      const lowQualityCount = unprocessedFaces.length - eligibleFaces.length;
+      if (lowQualityCount > 0) {
+        console.log(
+          `[Face Grouping] Excluded ${lowQualityCount} faces below quality threshold ${qualityThreshold}`
+        );
+      }
+
+      const rekognitionFaceIds = eligibleFaces.map((f) => f.rekognitionFaceId);
       const faceIdToDetectionId = new Map<string, string>();
 
-      unprocessedFaces.forEach((f) => {
+      eligibleFaces.forEach((f) => {
         faceIdToDetectionId.set(f.rekognitionFaceId, f.id);
       });
 
-      await job.updateProgress(20);
+      await job.updateProgress(10);
+
+      // Stage 1: Attach new faces to the group's existing clusters
+      const existingClusters = await faceClusterRepository.findByGroupId(groupId, {
+        page: 1,
+        limit: 10000,
+      });
+      const existingMembers = await faceClusterMemberRepository.findByClusterIds(
+        existingClusters.data.map((cluster) => cluster.id)
+      );
+      const existingDetections = await faceDetectionRepository.findByIds(
+        existingMembers.map((member) => member.faceDetectionId)
+      );
+
+      const detectionIdToClusterId = new Map(
+        existingMembers.map((member) => [member.faceDetectionId, member.clusterId])
+      );
+      const clusteredFaces = new Map<string, string>();
+      existingDetections.forEach((detection) => {
+        const clusterId = detectionIdToClusterId.get(detection.id);
+        if (clusterId) {
+          clusteredFaces.set(detection.rekognitionFaceId, clusterId);
+        }
+      });
+
+      const { matches, unmatchedFaces } = await faceClusteringService.matchToExistingClusters(
+        collectionId,
+        rekognitionFaceIds,
+        clusteredFaces,
+        similarityThreshold
+      );
+
+      let facesAttached = 0;
+      const matchesByCluster = new Map<string, typeof matches>();
+      matches.forEach((match) => {
+        const clusterMatches = matchesByCluster.get(match.clusterId) || [];
+        clusterMatches.push(match);
+        matchesByCluster.set(match.clusterId, clusterMatches);
+      });
+
+      for (const existingCluster of existingClusters.data) {
+        const clusterMatches = matchesByCluster.get(existingCluster.id);
+        if (!clusterMatches) continue;
+
+        const newMembers = clusterMatches
+          .filter((match) => faceIdToDetectionId.has(match.faceId))
+          .map((match) =>
+            FaceClusterMember.create({
+              clusterId: existingCluster.id,
+              faceDetectionId: faceIdToDetectionId.get(match.faceId)!,
+              confidence: match.similarity / 100,
+            })
+          );
+        if (newMembers.length === 0) continue;
+
+        await faceClusterMemberRepository.createMany(newMembers);
+
+        // Running average of member confidence
+        const appearanceCount = existingCluster.appearanceCount + newMembers.length;
+        const addedConfidence = newMembers.reduce((sum, member) => sum + member.confidence, 0);
+        const confidence =
+          (existingCluster.confidence * existingCluster.appearanceCount + addedConfidence) /
+          appearanceCount;
+
+        const updatedCluster = existingCluster.updateStats(appearanceCount, confidence);
+        await faceClusterRepository.update(existingCluster.id, {
+          appearanceCount: updatedCluster.appearanceCount,
+          confidence: updatedCluster.confidence,
+        });
+
+        await cacheService.delete(CacheKeys.cluster(existingCluster.id));
+        await cacheService.deletePattern(`${CacheKeys.cluster(existingCluster.id)}:media:*`);
+
+        facesAttached += newMembers.length;
+      }
+
+      await job.updateProgress(40);
+
+      // Stage 2: Cluster the remaining faces (genuinely new people) together with the group's
+      // unassigned pool, so someone seen too rarely for a cluster before can reach the minimum size now
+      const groupMedia = await mediaRepository.findByGroupId(groupId, { page: 1, limit: 10000 });
+      const jobFaceIds = new Set(faceDetectionIds);
+      const groupFaces = await faceDetectionRepository.findByMediaIds(groupMedia.data.map((m) => m.id));
+      const pooledFaces = groupFaces.filter(
+        (face) =>
+          face.processed &&
+          !jobFaceIds.has(face.id) &&
+          !detectionIdToClusterId.has(face.id) &&
+          (face.qualityScore === undefined || face.qualityScore >= qualityThreshold)
+      );
+      pooledFaces.forEach((f) => {
+        faceIdToDetectionId.set(f.rekognitionFaceId, f.id);
+      });
 
-      // Use clustering algorithm
       console.log(
-        `[Face Grouping] Clustering ${rekognitionFaceIds.length} faces...`
+        `[Face Grouping] Attached ${facesAttached} faces to existing clusters, clustering ${unmatchedFaces.length} remaining faces with ${pooledFaces.length} unassigned faces...`
       );
 
       const clusteringResult = await faceClusteringService.clusterFaces(
         collectionId,
-        rekognitionFaceIds,
-        85 // Similarity threshold
+        [...unmatchedFaces, ...pooledFaces.map((f) => f.rekognitionFaceId)],
+        similarityThreshold,
+        minClusterSize
       );
 
       await job.updateProgress(60);
@@ -278,7 +526,7 @@ export const faceGroupingWorker = new Worker<FaceGroupingJobData>(
       let clustersCreated = 0;
       let facesGrouped = 0;
 
-      // Create clusters for grouped faces (only clusters with 2+ faces)
+      // Create clusters for grouped faces (only clusters reaching the minimum size)
       for (const cluster of clusteringResult.clusters) {
         const faceClusterEntity = FaceCluster.create({
           groupId,
@@ -309,10 +557,10 @@ export const faceGroupingWorker = new Worker<FaceGroupingJobData>(
         facesGrouped += cluster.size;
       }
 
-      // Note: Unclustered faces (single appearances) are intentionally not stored
-      // to reduce noise in face grouping. Only faces appearing in 2+ photos are clustered.
+      // Note: Unclustered faces (fewer appearances than the group's minimum cluster size)
+      // are not put into clusters to reduce noise; they remain in the group's unassigned pool.
       console.log(
-        `[Face Grouping] Skipped ${clusteringResult.unclusteredFaces.length} single-appearance faces (noise reduction)`
+        `[Face Grouping] Left ${clusteringResult.unclusteredFaces.length} faces below minimum cluster size ${minClusterSize} in the unassigned pool`
       );
 
       // Mark face detections as processed
@@ -324,13 +572,14 @@ export const faceGroupingWorker = new Worker<FaceGroupingJobData>(
 
       // Invalidate caches so frontend sees new clusters and updated media status
       await cacheService.delete(CacheKeys.clustersByGroup(groupId));
+      await cacheService.delete(CacheKeys.unassignedFaces(groupId));
       await cacheService.deletePattern(`media:group:${groupId}:page:*`);
       console.log(`[Face Grouping] Invalidated cluster and media cache for group ${groupId}`);
 
       await job.updateProgress(100);
 
       console.log(
-        `[Face Grouping] Job ${jobId} completed. Created ${clustersCreated} clusters for ${facesGrouped} faces.`
+        `[Face Grouping] Job ${jobId} completed. Attached ${facesAttached} faces to existing clusters, created ${clustersCreated} clusters for ${facesGrouped} faces.`
       );
     } catch (error) {
       console.error(`[Face Grouping] Job ${jobId} failed:`, error);
@@ -352,7 +601,7 @@ export const faceGroupingWorker = new Worker<FaceGroupingJobData>(
 export const cleanupWorker = new Worker<CleanupJobData>(
   QUEUE_NAMES.CLEANUP,
   async (job: Job<CleanupJobData>): Promise<void> => {
-    const { groupId, targetDate, mediaIds } = job.data;
+    const { groupId, userId, targetDate, mediaIds } = job.data;
     const jobId = job.id!;
 
     console.log(`[Cleanup] Starting job ${jobId} for group ${groupId}`);
@@ -386,49 +635,221 @@ export const cleanupWorker = new Worker<CleanupJobData>(
 
       await job.updateProgress(20);
 
-      // Delete from S3
-      const s3Keys = mediaToDelete.map((m) => m.s3Key);
-      await s3Service.deleteFiles(s3Keys);
+      // Delete files, faces, comments and reactions, and refund the group's storage
+      const { freedSpace, affectedClusterIds } = await mediaDeletionService.deleteMedia(
+        groupId,
+        mediaToDelete,
+        { userId, reason: 'cleanup' }
+      );
+
+      // Drop cached pages that still list the deleted media
+      await cacheService.deletePattern(`media:group:${groupId}:page:*`);
+      await cacheService.delete(CacheKeys.groupStorage(groupId));
+      if (affectedClusterIds.length > 0) {
+        await cacheService.delete(CacheKeys.clustersByGroup(groupId));
+        for (const clusterId of affectedClusterIds) {
+          await cacheService.deletePattern(`${CacheKeys.cluster(clusterId)}:media:*`);
+        }
+      }
+
+      await job.updateProgress(100);
+
+      console.log(
+        `[Cleanup] Job ${jobId} completed. Deleted ${mediaToDelete.length} media items (${freedSpace} bytes freed).`
+      );
+    } catch (error) {
+      console.error(`[Cleanup] Job ${jobId} failed:`, error);
+      throw error;
+    }
+  },
+  {
+    connection: redisConnection,
+    concurrency: 1,
+    removeOnComplete: { count: 5 },
+    removeOnFail: { count: 3 },
+  }
+);
 
-      await job.updateProgress(70);
+/**
+ * Media Derivatives Worker
+ * Generates downscaled WebP and AVIF copies of photos and video posters for the gallery
+ */
+export const mediaDerivativesWorker = new Worker<MediaDerivativesJobData>(
+  QUEUE_NAMES.MEDIA_DERIVATIVES,
+  async (job: Job<MediaDerivativesJobData>): Promise<void> => {
+    const { groupId, mediaIds } = job.data;
+    const jobId = job.id!;
+
+    console.log(`[Derivatives] Starting job ${jobId} for ${mediaIds.length} media items`);
+
+    const mediaItems = await mediaRepository.findByIds(mediaIds);
+    let generated = 0;
+    let failed = 0;
+
+    for (let i = 0; i < mediaItems.length; i++) {
+      const media = mediaItems[i];
+
+      // Media may have been processed by an earlier attempt or a backfill
+      const sourceKey = media.derivativeSourceKey();
+      if (media.hasDerivatives() || !sourceKey) {
+        continue;
+      }
+
+      const uploadedKeys: string[] = [];
+
+      try {
+        const source = await s3Service.getObjectBuffer(sourceKey);
+
+        // Media uploaded before hashing existed gets its near-duplicate hash here, via the backfill
+        if (!media.perceptualHash) {
+          await mediaRepository.setPerceptualHash(media.id, await imageProcessingService.perceptualHash(source));
+        }
+
+        const derivatives: MediaDerivatives = {};
+
+        for (const size of Object.values(DerivativeSize)) {
+          const maxDimension = DERIVATIVE_DIMENSIONS[size];
+          const webpKey = `derivatives/${groupId}/${media.id}/${size}.webp`;
+          const avifKey = `derivatives/${groupId}/${media.id}/${size}.avif`;
 
-      // Delete from database
-      const mediaIdsToDelete = mediaToDelete.map((m) => m.id);
+          const webp = await imageProcessingService.createDerivative(source, maxDimension, 'webp');
+          await s3Service.uploadBuffer(webp.buffer, webpKey, 'image/webp');
+          uploadedKeys.push(webpKey);
+
+          const avif = await imageProcessingService.createDerivative(source, maxDimension, 'avif');
+          await s3Service.uploadBuffer(avif.buffer, avifKey, 'image/avif');
+          uploadedKeys.push(avifKey);
+
+          derivatives[size] = {
+            webpS3Key: webpKey,
+            avifS3Key: avifKey,
+            width: webp.width,
+            height: webp.height,
+          };
+        }
 
-      // Delete associated face detections
-      for (const mediaId of mediaIdsToDelete) {
-        const faceDetections = await faceDetectionRepository.findByMediaId(mediaId);
-        for (const detection of faceDetections) {
-          await faceDetectionRepository.delete(detection.id);
+        await mediaRepository.setDerivatives(media.id, derivatives);
+        generated++;
+      } catch (error) {
+        // The gallery falls back to the original, so one bad file should not fail the batch
+        console.error(`[Derivatives] Failed for media ${media.id}:`, error);
+        failed++;
+
+        if (uploadedKeys.length > 0) {
+          await s3Service.deleteFiles(uploadedKeys).catch((cleanupError) => {
+            console.error(`[Derivatives] Failed to delete partial derivatives for ${media.id}:`, cleanupError);
+          });
         }
       }
 
-      // Delete media
-      for (const mediaId of mediaIdsToDelete) {
-        await mediaRepository.delete(mediaId);
+      await job.updateProgress(Math.round(((i + 1) / mediaItems.length) * 100));
+    }
+
+    if (generated > 0) {
+      await cacheService.deletePattern(`media:group:${groupId}:page:*`);
+    }
+
+    console.log(`[Derivatives] Job ${jobId} completed. Generated ${generated}, failed ${failed}.`);
+  },
+  {
+    connection: redisConnection,
+    concurrency: 1,
+    removeOnComplete: { count: 10 },
+    removeOnFail: { count: 5 },
+  }
+);
+
+/**
+ * Media Preparation Worker
+ * Probes videos, converts HEIC/RAW files and reads EXIF data of files that upload sessions
+ * put straight into storage, so the API never loads them, then queues face detection and derivatives
+ */
+export const mediaPreparationWorker = new Worker<MediaPreparationJobData>(
+  QUEUE_NAMES.MEDIA_PREPARATION,
+  async (job: Job<MediaPreparationJobData>): Promise<void> => {
+    const { groupId, mediaIds } = job.data;
+    const jobId = job.id!;
+
+    console.log(`[Preparation] Starting job ${jobId} for ${mediaIds.length} media items`);
+
+    try {
+      const mediaItems = await mediaRepository.findByIds(mediaIds);
+      const preparedIds: string[] = [];
+
+      for (const media of mediaItems) {
+        // Job retries include items an earlier attempt already prepared
+        if (!media.needsPreparation() && media.perceptualHash) {
+          preparedIds.push(media.id);
+          continue;
+        }
+
+        try {
+          const buffer = await s3Service.getObjectBuffer(media.s3Key);
+          const prepared = await mediaPreparationService.prepare(
+            { buffer, originalname: media.originalName, mimetype: media.mimeType },
+            groupId,
+            { key: media.s3Key, bucket: media.s3Bucket, url: media.url }
+          );
+
+          await mediaRepository.setPrepared(media.id, prepared);
+          preparedIds.push(media.id);
+        } catch (error) {
+          // Unreadable or too long files stay visible as failed, with the reason
+          console.error(`[Preparation] Failed to prepare media ${media.id}:`, error);
+          await mediaRepository.updateProcessingStatus(
+            media.id,
+            MediaProcessingStatus.FAILED,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
       }
 
-      // Update group storage usage
-      const totalSize = mediaToDelete.reduce((sum, m) => sum + m.fileSize, 0);
-      await groupRepository.updateStorageUsed(groupId, -totalSize);
+      if (preparedIds.length > 0) {
+        await queueService.addJob(
+          QUEUE_NAMES.FACE_DETECTION,
+          JobType.FACE_DETECTION,
+          { groupId, mediaIds: preparedIds },
+          { attempts: 3, backoff: { type: 'exponential', delay: 2000 } }
+        );
+        await queueService.addJob(
+          QUEUE_NAMES.MEDIA_DERIVATIVES,
+          JobType.MEDIA_DERIVATIVES,
+          { groupId, mediaIds: preparedIds },
+          { attempts: 2, backoff: { type: 'exponential', delay: 5000 } }
+        );
+      }
 
-      await job.updateProgress(100);
+      await cacheService.deletePattern(`media:group:${groupId}:page:*`);
 
       console.log(
-        `[Cleanup] Job ${jobId} completed. Deleted ${mediaToDelete.length} media items (${totalSize} bytes freed).`
+        `[Preparation] Job ${jobId} completed. Prepared ${preparedIds.length} of ${mediaItems.length} media items.`
       );
     } catch (error) {
-      console.error(`[Cleanup] Job ${jobId} failed:`, error);
+      console.error(`[Preparation] Job ${jobId} failed:`, error);
+
+      // Don't leave items pending forever when the whole job fails
+      await mediaRepository.markUnfinishedAsFailed(
+        mediaIds,
+        error instanceof Error ? error.message : String(error)
+      );
+      await cacheService.deletePattern(`media:group:${groupId}:page:*`);
+
       throw error;
     }
   },
   {
     connection: redisConnection,
     concurrency: 1,
-    removeOnComplete: { count: 5 },
-    removeOnFail: { count: 3 },
+    removeOnComplete: { count: 10 },
+    removeOnFail: { count: 5 },
   }
 );
 
 // Export workers array for easy management
-export const workers = [faceDetectionWorker, faceGroupingWorker, cleanupWorker];
+export const workers = [
+  faceDetectionWorker,
+  faceGroupingWorker,
+  cleanupWorker,
+  mediaDerivativesWorker,
+  mediaPreparationWorker,
+];
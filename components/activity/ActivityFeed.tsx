@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -12,27 +12,17 @@ import {
   UserPlus,
   UserMinus,
   Tag,
-  Download,
-  Brain,
+  Trash2,
+  Merge,
+  Share2,
+  MessageCircle,
+  Smile,
+  Users,
   RefreshCw,
   Loader2,
 } from "lucide-react";
-
-interface ActivityFeedItem {
-  _id: string;
-  user: {
-    _id: string;
-    name?: string;
-    email: string;
-    avatar?: string;
-  };
-  type: string;
-  title: string;
-  description: string;
-  metadata: Record<string, unknown>;
-  createdAt: string;
-  timeAgo: string;
-}
+import { formatDistanceToNow } from "date-fns";
+import { activitiesApi, Activity, ActivityType } from "@/lib/api/activities";
 
 interface ActivityFeedProps {
   groupId: string;
@@ -45,69 +35,93 @@ export function ActivityFeed({
   maxItems = 20,
   showHeader = true,
 }: ActivityFeedProps) {
-  const [activities, setActivities] = useState<ActivityFeedItem[]>([]);
+  const [activities, setActivities] = useState<Activity[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+
+  const loadActivities = useCallback(
+    async (refresh: boolean = false): Promise<void> => {
+      if (refresh) setRefreshing(true);
+      else setLoading(true);
+
+      try {
+        const page = await activitiesApi.list(groupId, maxItems);
+        setActivities(page.activities);
+        setNextCursor(page.nextCursor);
+      } catch (error) {
+        console.error("Failed to load activities:", error);
+      } finally {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    },
+    [groupId, maxItems]
+  );
+
+  useEffect(() => {
+    loadActivities();
+  }, [loadActivities]);
 
-  const loadActivities = async (refresh: boolean = false): Promise<void> => {
-    if (refresh) setRefreshing(true);
-    else setLoading(true);
+  const loadMore = async (): Promise<void> => {
+    if (!nextCursor) return;
 
+    setLoadingMore(true);
     try {
-      const response = await fetch(
-        `/api/groups/${groupId}/activities?limit=${maxItems}`
-      );
-      const result = await response.json();
-
-      if (result.success) {
-        setActivities(result.data.activities);
-        setHasMore(result.data.hasMore);
-      }
+      const page = await activitiesApi.list(groupId, maxItems, nextCursor);
+      setActivities((prev) => [...prev, ...page.activities]);
+      setNextCursor(page.nextCursor);
     } catch (error) {
-      console.error("Failed to load activities:", error);
+      console.error("Failed to load more activities:", error);
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      setLoadingMore(false);
     }
   };
 
-  useEffect(() => {
-    loadActivities();
-  }, [groupId, maxItems]);
-
-  const getActivityIcon = (type: string) => {
+  const getActivityIcon = (type: ActivityType) => {
     switch (type) {
-      case "UPLOAD":
+      case "MEDIA_UPLOADED":
         return <Upload className="h-4 w-4 text-blue-500" />;
-      case "FACE_DETECTED":
-        return <Brain className="h-4 w-4 text-purple-500" />;
+      case "MEDIA_DELETED":
+        return <Trash2 className="h-4 w-4 text-red-500" />;
+      case "GROUP_CREATED":
+        return <Users className="h-4 w-4 text-purple-500" />;
       case "MEMBER_JOINED":
         return <UserPlus className="h-4 w-4 text-green-500" />;
       case "MEMBER_LEFT":
         return <UserMinus className="h-4 w-4 text-red-500" />;
       case "CLUSTER_NAMED":
         return <Tag className="h-4 w-4 text-orange-500" />;
-      case "DOWNLOAD":
-        return <Download className="h-4 w-4 text-indigo-500" />;
+      case "CLUSTERS_MERGED":
+        return <Merge className="h-4 w-4 text-orange-500" />;
+      case "SHARE_CREATED":
+        return <Share2 className="h-4 w-4 text-indigo-500" />;
+      case "COMMENT_ADDED":
+      case "COMMENT_REMOVED":
+        return <MessageCircle className="h-4 w-4 text-sky-500" />;
+      case "MEDIA_REACTED":
+        return <Smile className="h-4 w-4 text-pink-500" />;
       default:
         return <ActivityIcon className="h-4 w-4 text-gray-500" />;
     }
   };
 
-  const getActivityColor = (type: string): string => {
+  const getActivityColor = (type: ActivityType): string => {
     switch (type) {
-      case "UPLOAD":
+      case "MEDIA_UPLOADED":
         return "bg-blue-50 border-blue-200";
-      case "FACE_DETECTED":
+      case "GROUP_CREATED":
         return "bg-purple-50 border-purple-200";
       case "MEMBER_JOINED":
         return "bg-green-50 border-green-200";
       case "MEMBER_LEFT":
+      case "MEDIA_DELETED":
         return "bg-red-50 border-red-200";
       case "CLUSTER_NAMED":
+      case "CLUSTERS_MERGED":
         return "bg-orange-50 border-orange-200";
-      case "DOWNLOAD":
+      case "SHARE_CREATED":
         return "bg-indigo-50 border-indigo-200";
       default:
         return "bg-gray-50 border-gray-200";
@@ -156,7 +170,7 @@ export function ActivityFeed({
         ) : (
           <div className="space-y-4">
             {activities.map((activity, index) => (
-              <div key={activity._id}>
+              <div key={activity.id}>
                 <div
                   className={`flex items-start gap-3 p-3 rounded-lg border ${getActivityColor(
                     activity.type
@@ -174,51 +188,24 @@ export function ActivityFeed({
                           alt={activity.user.name}
                         />
                         <AvatarFallback className="text-xs">
-                          {activity.user.name?.charAt(0) ||
-                            activity.user.email.charAt(0)}
+                          {(activity.user.name || activity.user.email || "?").charAt(0)}
                         </AvatarFallback>
                       </Avatar>
                       <p className="text-sm font-medium text-gray-900">
                         {activity.title}
                       </p>
                       <Badge variant="outline" className="text-xs">
-                        {activity.timeAgo}
+                        {formatDistanceToNow(new Date(activity.createdAt), {
+                          addSuffix: true,
+                        })}
                       </Badge>
                     </div>
 
-                    <p className="text-sm text-gray-600 mb-2">
-                      {activity.description}
-                    </p>
-
-                    {/* Metadata display */}
-                    {activity.metadata &&
-                      Object.keys(activity.metadata).length > 0 && (
-                        <div className="flex flex-wrap gap-2 text-xs">
-                          {typeof activity.metadata.mediaCount === "number" && (
-                            <Badge variant="secondary">
-                              {activity.metadata.mediaCount} photos
-                            </Badge>
-                          )}
-                          {typeof activity.metadata.facesDetected ===
-                            "number" && (
-                            <Badge variant="secondary">
-                              {activity.metadata.facesDetected} faces
-                            </Badge>
-                          )}
-                          {typeof activity.metadata.clustersCreated ===
-                            "number" && (
-                            <Badge variant="secondary">
-                              {activity.metadata.clustersCreated} people
-                            </Badge>
-                          )}
-                          {typeof activity.metadata.clusterName ===
-                            "string" && (
-                            <Badge variant="secondary">
-                              &quot;{activity.metadata.clusterName}&quot;
-                            </Badge>
-                          )}
-                        </div>
-                      )}
+                    {activity.description && (
+                      <p className="text-sm text-gray-600 mb-2">
+                        {activity.description}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -228,11 +215,17 @@ export function ActivityFeed({
               </div>
             ))}
 
-            {hasMore && (
+            {nextCursor && (
               <div className="text-center pt-4">
-                <p className="text-sm text-gray-500">
-                  Load more activities in the full activity view
-                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                >
+                  {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Load more
+                </Button>
               </div>
             )}
           </div>
@@ -0,0 +1,274 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Mail, RotateCw, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { InviteRole } from "@/lib/api/groups";
+import { invitationsApi, EmailInvitation } from "@/lib/api/invitations";
+
+interface EmailInvitationsProps {
+  groupId: string;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  MEMBER: "Member",
+  VIEWER: "Viewer",
+};
+
+const MAX_EMAILS = 20;
+
+// Accepts addresses separated by commas, semicolons, spaces or new lines
+const parseEmails = (value: string): string[] =>
+  Array.from(
+    new Set(
+      value
+        .split(/[\s,;]+/)
+        .map((email) => email.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+
+/**
+ * Invite people by email with a personal, single-use link (admins only)
+ */
+export function EmailInvitations({ groupId }: EmailInvitationsProps) {
+  const [invitations, setInvitations] = useState<EmailInvitation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [emails, setEmails] = useState("");
+  const [role, setRole] = useState<InviteRole>("MEMBER");
+  const { toast } = useToast();
+
+  const loadInvitations = useCallback(async () => {
+    setLoading(true);
+    try {
+      setInvitations(await invitationsApi.list(groupId));
+    } catch (error) {
+      console.error("Failed to load email invitations:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  const handleSend = async (): Promise<void> => {
+    const addresses = parseEmails(emails);
+    if (addresses.length === 0) return;
+
+    if (addresses.length > MAX_EMAILS) {
+      toast({
+        title: "Too many addresses",
+        description: `You can invite at most ${MAX_EMAILS} people at once`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSending(true);
+    try {
+      const result = await invitationsApi.send(groupId, addresses, role);
+      setEmails("");
+      await loadInvitations();
+
+      const sent = result.invitations.length;
+      toast({
+        title: sent > 0 ? `Sent ${sent} ${sent === 1 ? "invitation" : "invitations"}` : "No invitations sent",
+        description:
+          result.skipped.length > 0
+            ? result.skipped.map((s) => `${s.email}: ${s.reason}`).join(", ")
+            : undefined,
+        variant: sent === 0 ? "destructive" : undefined,
+      });
+    } catch (error) {
+      console.error("Failed to send invitations:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send invitations",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleResend = async (invitation: EmailInvitation): Promise<void> => {
+    setBusyId(invitation.id);
+    try {
+      const resent = await invitationsApi.resend(groupId, invitation.id);
+      setInvitations((current) =>
+        current.map((i) => (i.id === resent.id ? resent : i))
+      );
+      toast({
+        title: "Invitation resent",
+        description: `A new link was sent to ${invitation.email}`,
+      });
+    } catch (error) {
+      console.error("Failed to resend invitation:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to resend invitation",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancel = async (invitation: EmailInvitation): Promise<void> => {
+    if (!confirm(`Cancel the invitation to ${invitation.email}? Their link will stop working.`)) {
+      return;
+    }
+
+    setBusyId(invitation.id);
+    try {
+      await invitationsApi.cancel(groupId, invitation.id);
+      setInvitations((current) => current.filter((i) => i.id !== invitation.id));
+    } catch (error) {
+      console.error("Failed to cancel invitation:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel invitation",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const describe = (invitation: EmailInvitation): string => {
+    const sent = `Sent ${formatDistanceToNow(new Date(invitation.lastSentAt), { addSuffix: true })}`;
+    const expiresAt = new Date(invitation.expiresAt);
+    return invitation.status === "expired"
+      ? `${sent} · expired ${formatDistanceToNow(expiresAt, { addSuffix: true })}`
+      : `${sent} · expires ${formatDistanceToNow(expiresAt, { addSuffix: true })}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900">Invite by email</h3>
+        <p className="text-xs text-gray-500">
+          Each person gets a personal link that works once. People who sign up with
+          the invited address join automatically.
+        </p>
+      </div>
+
+      {/* New invitations */}
+      <div className="grid grid-cols-2 gap-3 rounded-lg border p-3">
+        <div className="col-span-2 space-y-1">
+          <Label htmlFor="invitation-emails">Email addresses</Label>
+          <Input
+            id="invitation-emails"
+            value={emails}
+            onChange={(e) => setEmails(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder="alex@example.com, sam@example.com"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Joins as</Label>
+          <Select value={role} onValueChange={(value) => setRole(value as InviteRole)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="MEMBER">Member (can upload)</SelectItem>
+              <SelectItem value="VIEWER">Viewer (view and download)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-end">
+          <Button
+            onClick={handleSend}
+            disabled={sending || parseEmails(emails).length === 0}
+            className="w-full"
+          >
+            {sending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Mail className="h-4 w-4 mr-2" />
+            )}
+            Send Invitations
+          </Button>
+        </div>
+      </div>
+
+      {/* Pending invitations */}
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : invitations.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-2">No pending invitations</p>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {invitations.map((invitation) => (
+            <div
+              key={invitation.id}
+              className={`flex items-start justify-between gap-3 rounded-lg border p-3 ${
+                invitation.status === "pending" ? "" : "bg-gray-50"
+              }`}
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium truncate">{invitation.email}</span>
+                  <Badge variant="secondary">
+                    {ROLE_LABELS[invitation.role] ?? invitation.role}
+                  </Badge>
+                  {invitation.status === "expired" && <Badge variant="outline">Expired</Badge>}
+                </div>
+                <p className="text-xs text-gray-500">{describe(invitation)}</p>
+              </div>
+              <div className="flex flex-shrink-0 gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleResend(invitation)}
+                  disabled={busyId === invitation.id}
+                  title="Resend"
+                >
+                  {busyId === invitation.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCw className="h-4 w-4" />
+                  )}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleCancel(invitation)}
+                  disabled={busyId === invitation.id}
+                  title="Cancel invitation"
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
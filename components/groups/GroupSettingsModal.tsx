@@ -23,8 +23,17 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, Trash2 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Crown, ImageDown, Loader2, Trash2 } from "lucide-react";
 import { groupsApi, Group } from "@/lib/api/groups";
+import { mediaApi } from "@/lib/api/media";
 import { useRouter } from "next/navigation";
 
 interface GroupSettingsModalProps {
@@ -44,6 +53,14 @@ export function GroupSettingsModal({
   const [isLoading, setIsLoading] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [optimizeMessage, setOptimizeMessage] = useState<string | null>(null);
+  const [newOwnerId, setNewOwnerId] = useState("");
+  const [isTransferring, setIsTransferring] = useState(false);
+
+  const otherMembers = group.members.filter(
+    (member) => member.userId.id !== group.creatorId
+  );
 
   // Form state
   const [formData, setFormData] = useState({
@@ -51,6 +68,10 @@ export function GroupSettingsModal({
     description: group.description || "",
     storageLimit: Math.round(group.storageLimit / 1024 / 1024), // Convert to MB
     autoDeleteDays: group.autoDeleteDays,
+    similarityThreshold: group.clusteringSettings?.similarityThreshold ?? 85,
+    minClusterSize: group.clusteringSettings?.minClusterSize ?? 2,
+    qualityThreshold: group.clusteringSettings?.qualityThreshold ?? 50,
+    requireApproval: group.requireApproval ?? false,
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -79,6 +100,18 @@ export function GroupSettingsModal({
       newErrors.autoDeleteDays = "Auto-delete days must be between 0 and 365";
     }
 
+    if (formData.similarityThreshold < 50 || formData.similarityThreshold > 99) {
+      newErrors.similarityThreshold = "Similarity threshold must be between 50 and 99";
+    }
+
+    if (formData.minClusterSize < 1 || formData.minClusterSize > 20) {
+      newErrors.minClusterSize = "Minimum cluster size must be between 1 and 20";
+    }
+
+    if (formData.qualityThreshold < 0 || formData.qualityThreshold > 100) {
+      newErrors.qualityThreshold = "Quality threshold must be between 0 and 100";
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -93,6 +126,12 @@ export function GroupSettingsModal({
         description: formData.description,
         storageLimit: formData.storageLimit * 1024 * 1024, // Convert MB to bytes
         autoDeleteDays: formData.autoDeleteDays,
+        clusteringSettings: {
+          similarityThreshold: formData.similarityThreshold,
+          minClusterSize: formData.minClusterSize,
+          qualityThreshold: formData.qualityThreshold,
+        },
+        requireApproval: formData.requireApproval,
       });
 
       onUpdate(updatedGroup);
@@ -105,6 +144,40 @@ export function GroupSettingsModal({
     }
   };
 
+  const handleOptimize = async () => {
+    setIsOptimizing(true);
+    try {
+      const result = await mediaApi.backfillDerivatives(group.id);
+      setOptimizeMessage(result.message || "Optimization queued");
+    } catch (error: unknown) {
+      console.error("Failed to queue optimization:", error);
+      setErrors({ general: error instanceof Error ? error.message : "Failed to optimize photos" });
+    } finally {
+      setIsOptimizing(false);
+    }
+  };
+
+  const handleTransfer = async () => {
+    const successor = otherMembers.find((member) => member.userId.id === newOwnerId);
+    if (!successor) return;
+
+    setIsTransferring(true);
+    try {
+      // Only admins can take over, so promote the chosen member first
+      if (successor.role !== "ADMIN") {
+        await groupsApi.updateMember(group.id, newOwnerId, { role: "ADMIN" });
+      }
+      const updatedGroup = await groupsApi.transferOwnership(group.id, newOwnerId);
+      onUpdate(updatedGroup);
+      onClose();
+    } catch (error: unknown) {
+      console.error("Failed to transfer ownership:", error);
+      setErrors({ general: error instanceof Error ? error.message : "Failed to transfer ownership" });
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
   const handleDelete = async () => {
     setIsDeleting(true);
     try {
@@ -121,7 +194,7 @@ export function GroupSettingsModal({
   return (
     <>
       <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
-        <DialogContent className="sm:max-w-[500px]">
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Group Settings</DialogTitle>
             <DialogDescription>
@@ -209,6 +282,157 @@ export function GroupSettingsModal({
               )}
             </div>
 
+            {/* Joining */}
+            <div className="pt-4 border-t border-gray-200 space-y-2">
+              <h3 className="text-sm font-semibold text-gray-900">Joining</h3>
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="requireApproval"
+                  checked={formData.requireApproval}
+                  onCheckedChange={(checked) =>
+                    setFormData({ ...formData, requireApproval: Boolean(checked) })
+                  }
+                />
+                <div>
+                  <Label htmlFor="requireApproval">Require approval to join</Label>
+                  <p className="text-xs text-gray-500">
+                    People using an invite link ask to join and wait until an admin
+                    approves them. Email invitations still join straight away.
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            {/* Face Grouping */}
+            <div className="pt-4 border-t border-gray-200 space-y-4">
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900">Face Grouping</h3>
+                <p className="text-xs text-gray-500">
+                  Applies to newly processed photos. Recluster to apply to existing faces.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="similarityThreshold">Similarity Threshold (%)</Label>
+                <Input
+                  id="similarityThreshold"
+                  type="number"
+                  min={50}
+                  max={99}
+                  value={formData.similarityThreshold}
+                  onChange={(e) => setFormData({ ...formData, similarityThreshold: parseInt(e.target.value) || 0 })}
+                  className={errors.similarityThreshold ? "border-red-500" : ""}
+                />
+                <p className="text-xs text-gray-500">
+                  Higher values create stricter, smaller groups of faces
+                </p>
+                {errors.similarityThreshold && (
+                  <p className="text-sm text-red-500">{errors.similarityThreshold}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="minClusterSize">Minimum Photos per Person</Label>
+                <Input
+                  id="minClusterSize"
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={formData.minClusterSize}
+                  onChange={(e) => setFormData({ ...formData, minClusterSize: parseInt(e.target.value) || 0 })}
+                  className={errors.minClusterSize ? "border-red-500" : ""}
+                />
+                <p className="text-xs text-gray-500">
+                  Faces seen fewer times than this are not grouped
+                </p>
+                {errors.minClusterSize && (
+                  <p className="text-sm text-red-500">{errors.minClusterSize}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="qualityThreshold">Face Quality Floor</Label>
+                <Input
+                  id="qualityThreshold"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={formData.qualityThreshold}
+                  onChange={(e) => setFormData({ ...formData, qualityThreshold: parseInt(e.target.value) || 0 })}
+                  className={errors.qualityThreshold ? "border-red-500" : ""}
+                />
+                <p className="text-xs text-gray-500">
+                  Blurry, dark or angled faces scoring below this are ignored
+                </p>
+                {errors.qualityThreshold && (
+                  <p className="text-sm text-red-500">{errors.qualityThreshold}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Optimized copies */}
+            <div className="pt-4 border-t border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Photo Optimization</h3>
+              <p className="text-xs text-gray-600 mb-3">
+                New uploads get smaller copies for faster browsing. Create them for photos
+                uploaded before this was available.
+              </p>
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleOptimize}
+                disabled={isOptimizing}
+              >
+                {isOptimizing ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <ImageDown className="h-4 w-4 mr-2" />
+                )}
+                Optimize Existing Photos
+              </Button>
+              {optimizeMessage && (
+                <p className="text-xs text-gray-500 mt-2">{optimizeMessage}</p>
+              )}
+            </div>
+
+            {/* Ownership */}
+            {otherMembers.length > 0 && (
+              <div className="pt-4 border-t border-gray-200 space-y-3">
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900">Transfer Ownership</h3>
+                  <p className="text-xs text-gray-600">
+                    Make another member the owner. They become an admin if they aren&apos;t
+                    one already, and you stay on as an admin.
+                  </p>
+                </div>
+                <Select value={newOwnerId} onValueChange={setNewOwnerId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose the new owner" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {otherMembers.map((member) => (
+                      <SelectItem key={member.userId.id} value={member.userId.id}>
+                        {member.userId.name || member.userId.email || "Unnamed member"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleTransfer}
+                  disabled={!newOwnerId || isTransferring}
+                >
+                  {isTransferring ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Crown className="h-4 w-4 mr-2" />
+                  )}
+                  Transfer Ownership
+                </Button>
+              </div>
+            )}
+
             {/* Danger Zone */}
             <div className="pt-4 border-t border-gray-200">
               <h3 className="text-sm font-semibold text-red-600 mb-2">Danger Zone</h3>
@@ -0,0 +1,306 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Copy, Loader2, Plus, Ban } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  groupsApi,
+  GroupInvite,
+  InviteRole,
+  InviteStatus,
+} from "@/lib/api/groups";
+
+interface InviteManagerProps {
+  groupId: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never", days: 0 },
+  { value: "1", label: "1 day", days: 1 },
+  { value: "7", label: "7 days", days: 7 },
+  { value: "30", label: "30 days", days: 30 },
+];
+
+const ROLE_LABELS: Record<string, string> = {
+  MEMBER: "Member",
+  VIEWER: "Viewer",
+};
+
+const STATUS_LABELS: Record<InviteStatus, string> = {
+  active: "Active",
+  expired: "Expired",
+  exhausted: "Used up",
+  revoked: "Revoked",
+};
+
+/**
+ * Named invites with their own role, expiry and use limit (admins only)
+ */
+export function InviteManager({ groupId }: InviteManagerProps) {
+  const [invites, setInvites] = useState<GroupInvite[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [label, setLabel] = useState("");
+  const [role, setRole] = useState<InviteRole>("MEMBER");
+  const [expiry, setExpiry] = useState("7");
+  const [maxUses, setMaxUses] = useState("");
+  const { toast } = useToast();
+
+  const loadInvites = useCallback(async () => {
+    setLoading(true);
+    try {
+      setInvites(await groupsApi.listInvites(groupId));
+    } catch (error) {
+      console.error("Failed to load invites:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  const inviteUrl = (code: string) => `${window.location.origin}/join/${code}`;
+
+  const handleCreate = async (): Promise<void> => {
+    const days = EXPIRY_OPTIONS.find((option) => option.value === expiry)?.days ?? 0;
+    const uses = parseInt(maxUses);
+
+    setCreating(true);
+    try {
+      const invite = await groupsApi.createInvite(groupId, {
+        role,
+        label: label.trim() || undefined,
+        expiresAt: days
+          ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString()
+          : undefined,
+        maxUses: uses > 0 ? uses : undefined,
+      });
+      setInvites((current) => [invite, ...current]);
+      setLabel("");
+      setMaxUses("");
+      toast({
+        title: "Invite created",
+        description: "Copy the link and share it with the people you want to invite",
+      });
+    } catch (error) {
+      console.error("Failed to create invite:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create invite",
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (invite: GroupInvite): Promise<void> => {
+    if (!confirm(`Revoke "${invite.label || invite.code}"? The link will stop working.`)) {
+      return;
+    }
+
+    setRevokingId(invite.id);
+    try {
+      const revoked = await groupsApi.revokeInvite(groupId, invite.id);
+      setInvites((current) =>
+        current.map((i) => (i.id === revoked.id ? revoked : i))
+      );
+    } catch (error) {
+      console.error("Failed to revoke invite:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke invite",
+        variant: "destructive",
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopy = (invite: GroupInvite) => {
+    navigator.clipboard.writeText(inviteUrl(invite.code));
+    setCopiedId(invite.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const describeUsage = (invite: GroupInvite): string => {
+    const uses =
+      invite.maxUses !== undefined
+        ? `${invite.useCount} of ${invite.maxUses} uses`
+        : `${invite.useCount} ${invite.useCount === 1 ? "use" : "uses"}`;
+
+    if (invite.status === "revoked" && invite.revokedAt) {
+      return `${uses} · revoked ${formatDistanceToNow(new Date(invite.revokedAt), { addSuffix: true })}`;
+    }
+    if (invite.expiresAt) {
+      const expiresAt = new Date(invite.expiresAt);
+      const verb = invite.status === "expired" ? "expired" : "expires";
+      return `${uses} · ${verb} ${formatDistanceToNow(expiresAt, { addSuffix: true })}`;
+    }
+    return `${uses} · never expires`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900">Named invites</h3>
+        <p className="text-xs text-gray-500">
+          Separate links with their own role, expiry and number of uses, e.g. view-only
+          access for extended family.
+        </p>
+      </div>
+
+      {/* New invite */}
+      <div className="grid grid-cols-2 gap-3 rounded-lg border p-3">
+        <div className="col-span-2 space-y-1">
+          <Label htmlFor="invite-label">Label</Label>
+          <Input
+            id="invite-label"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="e.g. Extended family"
+            maxLength={100}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Joins as</Label>
+          <Select value={role} onValueChange={(value) => setRole(value as InviteRole)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="MEMBER">Member (can upload)</SelectItem>
+              <SelectItem value="VIEWER">Viewer (view and download)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Expires after</Label>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="invite-max-uses">Max uses</Label>
+          <Input
+            id="invite-max-uses"
+            type="number"
+            min={1}
+            max={1000}
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            placeholder="Unlimited"
+          />
+        </div>
+        <div className="flex items-end">
+          <Button onClick={handleCreate} disabled={creating} className="w-full">
+            {creating ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Create Invite
+          </Button>
+        </div>
+      </div>
+
+      {/* Existing invites */}
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : invites.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-2">No named invites yet</p>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {invites.map((invite) => (
+            <div
+              key={invite.id}
+              className={`flex items-start justify-between gap-3 rounded-lg border p-3 ${
+                invite.status === "active" ? "" : "bg-gray-50"
+              }`}
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium truncate">
+                    {invite.label || "Untitled invite"}
+                  </span>
+                  <Badge variant="secondary">{ROLE_LABELS[invite.role] ?? invite.role}</Badge>
+                  {invite.status !== "active" && (
+                    <Badge variant="outline">{STATUS_LABELS[invite.status]}</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  <span className="font-mono">{invite.code}</span> · {describeUsage(invite)}
+                </p>
+                {invite.usedBy.length > 0 && (
+                  <p className="text-xs text-gray-500 truncate">
+                    Joined:{" "}
+                    {invite.usedBy
+                      .map((use) => use.name || use.email || "Former member")
+                      .join(", ")}
+                  </p>
+                )}
+              </div>
+              {invite.status === "active" && (
+                <div className="flex flex-shrink-0 gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleCopy(invite)}
+                    title="Copy link"
+                  >
+                    {copiedId === invite.id ? (
+                      <Check className="h-4 w-4" />
+                    ) : (
+                      <Copy className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevoke(invite)}
+                    disabled={revokingId === invite.id}
+                    title="Revoke"
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    {revokingId === invite.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Ban className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,11 @@ import { useState } from "react";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Copy, Check } from "lucide-react";
+import { Copy, Check, Loader2, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { groupsApi } from "@/lib/api/groups";
+import { InviteManager } from "./InviteManager";
+import { EmailInvitations } from "./EmailInvitations";
 
 interface InvitePeopleDialogProps {
   isOpen: boolean;
@@ -12,15 +16,22 @@ interface InvitePeopleDialogProps {
   groupId: string;
   groupName: string;
   inviteCode: string;
+  isAdmin: boolean;
+  onInviteCodeChange: () => void;
 }
 
 export function InvitePeopleDialog({
   isOpen,
   onClose,
+  groupId,
   groupName,
   inviteCode,
+  isAdmin,
+  onInviteCodeChange,
 }: InvitePeopleDialogProps) {
   const [copied, setCopied] = useState(false);
+  const [regenerating, setRegenerating] = useState(false);
+  const { toast } = useToast();
 
   const invitationUrl = `${window.location.origin}/join/${inviteCode}`;
 
@@ -30,9 +41,38 @@ export function InvitePeopleDialog({
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleRegenerate = async () => {
+    if (
+      !confirm(
+        "Regenerate the invite link? The current link stops working straight away. Named invites are not affected."
+      )
+    ) {
+      return;
+    }
+
+    setRegenerating(true);
+    try {
+      await groupsApi.regenerateInviteCode(groupId);
+      onInviteCodeChange();
+      toast({
+        title: "Invite link regenerated",
+        description: "Share the new link, the old one no longer works",
+      });
+    } catch (error) {
+      console.error("Failed to regenerate invite code:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to regenerate invite link",
+        variant: "destructive",
+      });
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogTitle>Invite People to {groupName}</DialogTitle>
 
         <div className="space-y-4">
@@ -72,13 +112,42 @@ export function InvitePeopleDialog({
             </p>
           </div>
 
-          <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
-            <p className="text-xs text-gray-600">
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 flex items-center gap-3">
+            <p className="text-xs text-gray-600 flex-1">
               <strong>Note:</strong> This is a permanent link that never
-              expires. If compromised, you can regenerate it from group
-              settings.
+              expires and lets people join as members.{" "}
+              {isAdmin
+                ? "If it is shared too widely, regenerate it and the old link stops working."
+                : "If it is shared too widely, ask a group admin to regenerate it."}
             </p>
+            {isAdmin && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRegenerate}
+                disabled={regenerating}
+                className="flex-shrink-0"
+              >
+                {regenerating ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                )}
+                Regenerate
+              </Button>
+            )}
           </div>
+
+          {isAdmin && isOpen && (
+            <>
+              <div className="pt-4 border-t border-gray-200">
+                <EmailInvitations groupId={groupId} />
+              </div>
+              <div className="pt-4 border-t border-gray-200">
+                <InviteManager groupId={groupId} />
+              </div>
+            </>
+          )}
         </div>
       </DialogContent>
     </Dialog>
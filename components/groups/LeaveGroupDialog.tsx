@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, LogOut } from "lucide-react";
+import { groupsApi, Group, LeaveGroupData } from "@/lib/api/groups";
+
+interface LeaveGroupDialogProps {
+  group: Group;
+  currentUserId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Leave a group, choosing what happens to your uploads.
+ * The owner picks who takes over the group first
+ */
+export function LeaveGroupDialog({
+  group,
+  currentUserId,
+  isOpen,
+  onClose,
+}: LeaveGroupDialogProps) {
+  const router = useRouter();
+  const [uploads, setUploads] = useState<LeaveGroupData["uploads"]>("keep");
+  const [newOwnerId, setNewOwnerId] = useState("");
+  const [leaving, setLeaving] = useState(false);
+  const { toast } = useToast();
+
+  const isOwner = group.creatorId === currentUserId;
+  const otherMembers = group.members.filter(
+    (member) => member.userId.id !== currentUserId
+  );
+
+  useEffect(() => {
+    if (isOpen) {
+      setUploads("keep");
+      setNewOwnerId("");
+    }
+  }, [isOpen]);
+
+  const handleLeave = async (): Promise<void> => {
+    setLeaving(true);
+    try {
+      if (isOwner) {
+        // Only admins can take over, so promote the chosen member first
+        const successor = otherMembers.find((m) => m.userId.id === newOwnerId);
+        if (successor && successor.role !== "ADMIN") {
+          await groupsApi.updateMember(group.id, newOwnerId, { role: "ADMIN" });
+        }
+      }
+
+      const result = await groupsApi.leave(group.id, {
+        uploads,
+        newOwnerId: isOwner ? newOwnerId : undefined,
+      });
+
+      toast({
+        title: "Left group",
+        description:
+          result.deletedCount > 0
+            ? `You left ${group.name} and ${result.deletedCount} of your uploads were deleted`
+            : `You left ${group.name}`,
+      });
+      router.push("/dashboard");
+    } catch (error) {
+      console.error("Failed to leave group:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to leave group",
+        variant: "destructive",
+      });
+      setLeaving(false);
+    }
+  };
+
+  const soleMember = otherMembers.length === 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Leave {group.name}?</DialogTitle>
+          <DialogDescription>
+            You will lose access to the group&apos;s photos. You can rejoin later with
+            an invite.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && soleMember ? (
+          <p className="text-sm text-gray-600 py-2">
+            You are the only member of this group. Delete the group from its settings
+            instead.
+          </p>
+        ) : (
+          <div className="space-y-4 py-2">
+            {isOwner && (
+              <div className="space-y-2">
+                <Label>New owner</Label>
+                <Select value={newOwnerId} onValueChange={setNewOwnerId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose who takes over the group" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {otherMembers.map((member) => (
+                      <SelectItem key={member.userId.id} value={member.userId.id}>
+                        {member.userId.name || member.userId.email || "Unnamed member"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">
+                  Members who aren&apos;t admins yet are made admins.
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Your uploads</Label>
+              <RadioGroup
+                value={uploads}
+                onValueChange={(value) => setUploads(value as LeaveGroupData["uploads"])}
+                className="space-y-2"
+              >
+                <div className="flex items-start space-x-3 rounded-lg border p-3">
+                  <RadioGroupItem value="keep" id="uploads-keep" className="mt-0.5" />
+                  <Label htmlFor="uploads-keep" className="flex-1 cursor-pointer">
+                    <span className="block font-medium">Keep them</span>
+                    <span className="block text-xs font-normal text-gray-500">
+                      Your photos stay in the group for everyone else
+                    </span>
+                  </Label>
+                </div>
+                <div className="flex items-start space-x-3 rounded-lg border p-3">
+                  <RadioGroupItem value="delete" id="uploads-delete" className="mt-0.5" />
+                  <Label htmlFor="uploads-delete" className="flex-1 cursor-pointer">
+                    <span className="block font-medium">Delete them</span>
+                    <span className="block text-xs font-normal text-gray-500">
+                      Your photos, their comments and faces are removed and the
+                      storage is freed. This cannot be undone.
+                    </span>
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={leaving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleLeave}
+            disabled={leaving || (isOwner && (soleMember || !newOwnerId))}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            {leaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <LogOut className="h-4 w-4 mr-2" />
+            )}
+            Leave Group
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
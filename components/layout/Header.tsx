@@ -2,7 +2,8 @@
 
 import { UserButton } from "@clerk/nextjs";
 import { Button } from "@/components/ui/button";
-import { Plus } from "lucide-react";
+import { Plus, Contact } from "lucide-react";
+import Link from "next/link";
 
 interface HeaderProps {
   onCreateGroup?: () => void;
@@ -13,10 +14,18 @@ export function Header({ onCreateGroup }: HeaderProps) {
     <header className="border-b bg-white">
       <div className="container mx-auto px-4 h-16 flex items-center justify-between">
         <div className="flex items-center space-x-4">
-          <h1 className="text-2xl font-bold text-gray-900">FaceShare</h1>
+          <Link href="/dashboard">
+            <h1 className="text-2xl font-bold text-gray-900">FaceShare</h1>
+          </Link>
         </div>
 
         <div className="flex items-center space-x-4">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/people">
+              <Contact className="h-4 w-4 mr-2" />
+              My People
+            </Link>
+          </Button>
           {onCreateGroup && (
             <Button onClick={onCreateGroup} size="sm">
               <Plus className="h-4 w-4 mr-2" />
@@ -0,0 +1,238 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { BookImage, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { albumsApi, Album } from "@/lib/api/albums";
+
+interface AlbumBarProps {
+  groupId: string;
+  albums: Album[];
+  selectedAlbumId: string | null;
+  selectedMediaIds: string[];
+  onSelect: (albumId: string | null) => void;
+  onChange: () => void;
+}
+
+/**
+ * Album chips filtering the group gallery, with create, rename and delete.
+ * New albums start with the currently selected photos
+ */
+export function AlbumBar({
+  groupId,
+  albums,
+  selectedAlbumId,
+  selectedMediaIds,
+  onSelect,
+  onChange,
+}: AlbumBarProps) {
+  const [dialog, setDialog] = useState<"create" | "rename" | null>(null);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const selectedAlbum = albums.find((a) => a.id === selectedAlbumId);
+
+  const run = async (
+    action: () => Promise<unknown>,
+    successMessage: string
+  ): Promise<boolean> => {
+    setSaving(true);
+    try {
+      await action();
+      onChange();
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+      return true;
+    } catch (error) {
+      console.error("Failed to update album:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to update album",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async (): Promise<void> => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    if (dialog === "create") {
+      const ok = await run(async () => {
+        const album = await albumsApi.create(groupId, trimmed, selectedMediaIds);
+        onSelect(album.id);
+      }, `Created ${trimmed}`);
+      if (ok) setDialog(null);
+    } else if (dialog === "rename" && selectedAlbum) {
+      const ok = await run(
+        () => albumsApi.update(selectedAlbum.id, { name: trimmed }),
+        `Renamed to ${trimmed}`
+      );
+      if (ok) setDialog(null);
+    }
+  };
+
+  const handleDelete = async (): Promise<void> => {
+    if (!selectedAlbum) return;
+
+    if (
+      !confirm(
+        `Delete the album "${selectedAlbum.name}"? Its photos stay in the group.`
+      )
+    ) {
+      return;
+    }
+
+    const ok = await run(
+      () => albumsApi.delete(selectedAlbum.id),
+      `Deleted ${selectedAlbum.name}`
+    );
+    if (ok) onSelect(null);
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold">Albums</h2>
+        <div className="flex items-center gap-2">
+          {selectedAlbum?.canManage && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setName(selectedAlbum.name);
+                  setDialog("rename");
+                }}
+                title="Rename album"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleDelete}
+                disabled={saving}
+                title="Delete album"
+              >
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setName("");
+              setDialog("create");
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Album
+          </Button>
+        </div>
+      </div>
+
+      {albums.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Organize photos into albums like &quot;Ceremony&quot; or &quot;Day
+          2&quot;. Select photos first to start an album with them.
+        </p>
+      ) : (
+        <div className="flex gap-3 overflow-x-auto pb-2">
+          {albums.map((album) => (
+            <button
+              key={album.id}
+              onClick={() =>
+                onSelect(album.id === selectedAlbumId ? null : album.id)
+              }
+              className={`flex-shrink-0 w-32 text-left rounded-lg border-2 overflow-hidden transition-all ${
+                album.id === selectedAlbumId
+                  ? "border-blue-500 bg-blue-50"
+                  : "border-gray-200 hover:border-gray-300"
+              }`}
+            >
+              <div className="h-20 bg-gray-100">
+                {album.coverUrl ? (
+                  <img
+                    src={album.coverUrl}
+                    alt={album.name}
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <BookImage className="h-8 w-8 text-gray-400" />
+                  </div>
+                )}
+              </div>
+              <div className="p-2">
+                <p className="text-sm font-medium truncate">{album.name}</p>
+                <p className="text-xs text-gray-500">
+                  {album.mediaCount}{" "}
+                  {album.mediaCount === 1 ? "photo" : "photos"}
+                </p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>
+              {dialog === "create" ? "New album" : "Rename album"}
+            </DialogTitle>
+            {dialog === "create" && (
+              <DialogDescription>
+                {selectedMediaIds.length > 0
+                  ? `The album will start with the ${selectedMediaIds.length} selected photo(s).`
+                  : "Add photos later by selecting them in the gallery."}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Album name"
+            maxLength={100}
+            autoFocus
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSave();
+            }}
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDialog(null)}
+              disabled={saving}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim() || saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {dialog === "create" ? "Create" : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { BookImage, ImageMinus, Loader2, Star } from "lucide-react";
+import { albumsApi, Album } from "@/lib/api/albums";
+
+interface AlbumMediaControlProps {
+  albums: Album[];
+  currentAlbum?: Album; // The album being viewed, if any
+  selectedMediaIds: string[];
+  onChange: () => void;
+}
+
+/**
+ * Adds the selected photos to an album, or removes them from (or sets the
+ * cover of) the album being viewed
+ */
+export function AlbumMediaControl({
+  albums,
+  currentAlbum,
+  selectedMediaIds,
+  onChange,
+}: AlbumMediaControlProps) {
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const targets = albums.filter((a) => a.canManage && a.id !== currentAlbum?.id);
+
+  const run = async (
+    action: () => Promise<unknown>,
+    successMessage: string
+  ): Promise<void> => {
+    setSaving(true);
+    try {
+      await action();
+      onChange();
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+    } catch (error) {
+      console.error("Failed to update album:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to update album",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (targets.length === 0 && !currentAlbum?.canManage) {
+    return null;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" disabled={saving}>
+          {saving ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <BookImage className="h-4 w-4" />
+          )}
+          Album
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+        {targets.length > 0 && (
+          <>
+            <DropdownMenuLabel>Add to album</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {targets.map((album) => (
+              <DropdownMenuItem
+                key={album.id}
+                onSelect={() =>
+                  run(
+                    () => albumsApi.addMedia(album.id, selectedMediaIds),
+                    `Added ${selectedMediaIds.length} photo(s) to ${album.name}`
+                  )
+                }
+              >
+                {album.name}
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+        {currentAlbum?.canManage && (
+          <>
+            {targets.length > 0 && <DropdownMenuSeparator />}
+            {selectedMediaIds.length === 1 && (
+              <DropdownMenuItem
+                onSelect={() =>
+                  run(
+                    () =>
+                      albumsApi.update(currentAlbum.id, {
+                        coverMediaId: selectedMediaIds[0],
+                      }),
+                    `Cover of ${currentAlbum.name} updated`
+                  )
+                }
+              >
+                <Star className="h-4 w-4 mr-2" />
+                Set as album cover
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem
+              onSelect={() =>
+                run(
+                  () => albumsApi.removeMedia(currentAlbum.id, selectedMediaIds),
+                  `Removed ${selectedMediaIds.length} photo(s) from ${currentAlbum.name}`
+                )
+              }
+            >
+              <ImageMinus className="h-4 w-4 mr-2" />
+              Remove from {currentAlbum.name}
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,325 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Check, UserPlus, UserRound, ArrowRight, Loader2, Pin } from "lucide-react";
+import { clustersApi, Cluster, ClusterFace } from "@/lib/api/clusters";
+
+interface ClusterFacePickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cluster: Cluster;
+  clusters: Cluster[];
+  // Called after faces were moved or split out, with whether the source cluster still exists
+  onComplete?: (sourceClusterDeleted: boolean) => void;
+  // Called after the cover face was pinned or unpinned
+  onCoverChange?: () => void;
+}
+
+export function ClusterFacePicker({
+  open,
+  onOpenChange,
+  cluster,
+  clusters,
+  onComplete,
+  onCoverChange,
+}: ClusterFacePickerProps) {
+  const [faces, setFaces] = useState<ClusterFace[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedFaceIds, setSelectedFaceIds] = useState<string[]>([]);
+  const [mode, setMode] = useState<"move" | "split">("split");
+  const [targetClusterId, setTargetClusterId] = useState<string | null>(null);
+  const [newPersonName, setNewPersonName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadFaces = useCallback(async (): Promise<void> => {
+    setLoading(true);
+    try {
+      const data = await clustersApi.getClusterFaces(cluster.id);
+      setFaces(data || []);
+    } catch (error) {
+      console.error("Failed to load cluster faces:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load faces",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [cluster.id, toast]);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedFaceIds([]);
+      setTargetClusterId(null);
+      setNewPersonName("");
+      loadFaces();
+    }
+  }, [open, loadFaces]);
+
+  const toggleFace = (faceId: string): void => {
+    setSelectedFaceIds((prev) =>
+      prev.includes(faceId)
+        ? prev.filter((id) => id !== faceId)
+        : [...prev, faceId]
+    );
+  };
+
+  const otherClusters = clusters.filter((c) => c.id !== cluster.id);
+  const allSelected = faces.length > 0 && selectedFaceIds.length === faces.length;
+
+  const canSubmit =
+    selectedFaceIds.length > 0 &&
+    !saving &&
+    (mode === "move" ? !!targetClusterId : !allSelected);
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!canSubmit) return;
+
+    setSaving(true);
+    try {
+      const result =
+        mode === "move"
+          ? await clustersApi.moveFaces(cluster.id, selectedFaceIds, targetClusterId!)
+          : await clustersApi.splitCluster(
+              cluster.id,
+              selectedFaceIds,
+              newPersonName.trim() || undefined
+            );
+
+      toast({
+        title: "Success",
+        description:
+          mode === "move"
+            ? `${result.movedCount} ${result.movedCount === 1 ? "face" : "faces"} moved`
+            : "New person created from selected faces",
+      });
+
+      onOpenChange(false);
+      onComplete?.(result.sourceCluster === null);
+    } catch (error) {
+      console.error("Failed to update faces:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to update faces",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePinCover = async (faceDetectionId: string | null): Promise<void> => {
+    setSaving(true);
+    try {
+      await clustersApi.pinCover(cluster.id, faceDetectionId);
+      onCoverChange?.();
+
+      toast({
+        title: "Success",
+        description: faceDetectionId
+          ? "Cover photo updated"
+          : "Cover photo will be picked automatically",
+      });
+    } catch (error) {
+      console.error("Failed to update cover:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update cover photo",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Manage faces of {cluster.clusterName || "Unknown person"}
+          </DialogTitle>
+          <DialogDescription>
+            Select faces that belong to someone else, then move them to another
+            person or split them into a new one. Select a single face to use it
+            as the cover photo.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600">
+                {selectedFaceIds.length} of {faces.length} selected
+              </span>
+              <div className="flex items-center gap-1">
+                {selectedFaceIds.length === 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => handlePinCover(selectedFaceIds[0])}
+                    disabled={saving}
+                  >
+                    <Pin className="h-4 w-4" />
+                    Set as cover
+                  </Button>
+                )}
+                {cluster.samplePhoto?.pinned && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handlePinCover(null)}
+                    disabled={saving}
+                  >
+                    Reset cover
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setSelectedFaceIds(allSelected ? [] : faces.map((f) => f.id))
+                  }
+                >
+                  {allSelected ? "Deselect All" : "Select All"}
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-5 sm:grid-cols-6 gap-2 max-h-64 overflow-y-auto">
+              {faces.map((face) => {
+                const selected = selectedFaceIds.includes(face.id);
+                return (
+                  <button
+                    key={face.id}
+                    className={`relative aspect-square rounded-lg overflow-hidden border-2 bg-gray-100 ${
+                      selected ? "border-purple-500" : "border-transparent hover:border-purple-300"
+                    }`}
+                    onClick={() => toggleFace(face.id)}
+                  >
+                    {face.thumbnailUrl ? (
+                      <img
+                        src={face.thumbnailUrl}
+                        alt="Face"
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <UserRound className="h-6 w-6 text-gray-400 mx-auto" />
+                    )}
+                    {selected && (
+                      <div className="absolute top-1 right-1 bg-purple-500 rounded-full p-0.5">
+                        <Check className="h-3 w-3 text-white" />
+                      </div>
+                    )}
+                    {cluster.samplePhoto?.faceDetectionId === face.id && (
+                      <div
+                        className="absolute bottom-1 left-1 bg-white/90 rounded-full p-0.5"
+                        title="Cover photo"
+                      >
+                        <Pin className="h-3 w-3 text-purple-600" />
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="flex gap-2 pt-2 border-t border-gray-200">
+              <Button
+                variant={mode === "split" ? "default" : "outline"}
+                size="sm"
+                className="gap-2"
+                onClick={() => setMode("split")}
+              >
+                <UserPlus className="h-4 w-4" />
+                Split into new person
+              </Button>
+              <Button
+                variant={mode === "move" ? "default" : "outline"}
+                size="sm"
+                className="gap-2"
+                onClick={() => setMode("move")}
+                disabled={otherClusters.length === 0}
+              >
+                <ArrowRight className="h-4 w-4" />
+                Move to person
+              </Button>
+            </div>
+
+            {mode === "split" ? (
+              <div className="space-y-2">
+                <Input
+                  value={newPersonName}
+                  onChange={(e) => setNewPersonName(e.target.value)}
+                  placeholder="New person's name (optional)"
+                  maxLength={50}
+                />
+                {allSelected && (
+                  <p className="text-xs text-gray-500">
+                    Leave at least one face behind, or rename this person instead
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div className="grid grid-cols-4 gap-2 max-h-48 overflow-y-auto">
+                {otherClusters.map((c) => (
+                  <button
+                    key={c.id}
+                    className={`flex flex-col items-center gap-1 p-1 rounded-lg ${
+                      targetClusterId === c.id ? "bg-purple-100" : "hover:bg-purple-50"
+                    }`}
+                    onClick={() => setTargetClusterId(c.id)}
+                  >
+                    <div className="w-12 h-12 rounded-full overflow-hidden bg-gray-100">
+                      {c.samplePhoto?.thumbnailUrl ? (
+                        <img
+                          src={c.samplePhoto.thumbnailUrl}
+                          alt={c.clusterName || "Person"}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <UserRound className="h-6 w-6 text-gray-400 m-3" />
+                      )}
+                    </div>
+                    <span className="text-[10px] text-gray-700 truncate w-full text-center">
+                      {c.clusterName || "Unknown"}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {mode === "move" ? "Move Faces" : "Split Faces"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { UserCheck, UserMinus, Link2 } from "lucide-react";
+import { clustersApi, Cluster } from "@/lib/api/clusters";
+import { Group } from "@/lib/api/groups";
+
+interface ClusterIdentityControlProps {
+  cluster: Cluster;
+  clusters: Cluster[];
+  members: Group["members"];
+  currentUserId: string;
+  isAdmin: boolean;
+  // Called after the cluster was claimed, linked or unlinked
+  onChange?: () => void;
+}
+
+export function ClusterIdentityControl({
+  cluster,
+  clusters,
+  members,
+  currentUserId,
+  isAdmin,
+  onChange,
+}: ClusterIdentityControlProps) {
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const isMine = cluster.linkedUser?.id === currentUserId;
+  const hasClaimedOther = clusters.some(
+    (c) => c.id !== cluster.id && c.linkedUser?.id === currentUserId
+  );
+  const linkedUserIds = new Set(
+    clusters.filter((c) => c.linkedUser).map((c) => c.linkedUser!.id)
+  );
+
+  const run = async (
+    action: () => Promise<void>,
+    successMessage: string
+  ): Promise<void> => {
+    setSaving(true);
+    try {
+      await action();
+      onChange?.();
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+    } catch (error) {
+      console.error("Failed to update person link:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to update person",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {cluster.linkedUser && (
+        <div className="flex items-center gap-2 px-2 py-1 bg-purple-50 rounded-full">
+          <Avatar className="h-5 w-5">
+            {cluster.linkedUser.avatar && (
+              <AvatarImage src={cluster.linkedUser.avatar} />
+            )}
+            <AvatarFallback className="text-[10px]">
+              {(cluster.linkedUser.name || "?").charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <span className="text-sm text-purple-700">
+            {isMine ? "You" : cluster.linkedUser.name || "Member"}
+          </span>
+        </div>
+      )}
+
+      {!cluster.linkedUser && !hasClaimedOther && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          disabled={saving}
+          onClick={() =>
+            run(() => clustersApi.claimCluster(cluster.id), "Marked as you")
+          }
+        >
+          <UserCheck className="h-4 w-4" />
+          This is me
+        </Button>
+      )}
+
+      {isMine && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-2"
+          disabled={saving}
+          onClick={() =>
+            run(() => clustersApi.unclaimCluster(cluster.id), "Claim removed")
+          }
+        >
+          <UserMinus className="h-4 w-4" />
+          Not me
+        </Button>
+      )}
+
+      {isAdmin && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-2" disabled={saving}>
+              <Link2 className="h-4 w-4" />
+              Link to member
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+            <DropdownMenuLabel>Who is this?</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {members.map((member) => (
+              <DropdownMenuItem
+                key={member.userId.id}
+                disabled={
+                  linkedUserIds.has(member.userId.id) &&
+                  cluster.linkedUser?.id !== member.userId.id
+                }
+                onSelect={() =>
+                  run(
+                    () => clustersApi.linkCluster(cluster.id, member.userId.id),
+                    "Person linked to member"
+                  )
+                }
+              >
+                {member.userId.name || member.userId.email || "Unknown member"}
+                {member.userId.id === currentUserId && " (you)"}
+              </DropdownMenuItem>
+            ))}
+            {cluster.linkedUser && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  className="text-red-600"
+                  onSelect={() =>
+                    run(
+                      () => clustersApi.linkCluster(cluster.id, null),
+                      "Person unlinked"
+                    )
+                  }
+                >
+                  Remove link
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+}
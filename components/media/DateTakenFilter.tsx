@@ -0,0 +1,67 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Calendar as CalendarIcon, X } from "lucide-react";
+import { format } from "date-fns";
+
+export interface DateTakenRange {
+  from: Date;
+  to: Date;
+}
+
+interface DateTakenFilterProps {
+  value: DateTakenRange | null;
+  onChange: (range: DateTakenRange | null) => void;
+}
+
+/**
+ * Date range picker filtering photos by when they were taken
+ */
+export function DateTakenFilter({ value, onChange }: DateTakenFilterProps) {
+  return (
+    <div className="flex items-center gap-1">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2">
+            <CalendarIcon className="h-4 w-4" />
+            {value
+              ? `${format(value.from, "MMM dd")} - ${format(value.to, "MMM dd, yyyy")}`
+              : "Date taken"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="range"
+            defaultMonth={value?.from}
+            selected={value ?? undefined}
+            onSelect={(range) => {
+              if (range?.from && range?.to) {
+                // Include the whole last day
+                const to = new Date(range.to);
+                to.setHours(23, 59, 59, 999);
+                onChange({ from: range.from, to });
+              }
+            }}
+            numberOfMonths={2}
+          />
+        </PopoverContent>
+      </Popover>
+      {value && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(null)}
+          title="Clear date filter"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { Users, Edit2, Save, X, Trash2 } from "lucide-react";
 import { Cluster } from "@/lib/api/clusters";
+import { UnassignedFacesPool } from "@/components/media/UnassignedFacesPool";
 
 interface FaceClusterGridProps {
   clusters: Cluster[];
@@ -30,6 +31,9 @@ interface FaceClusterGridProps {
   selectMode?: boolean;
   selectedClusters?: string[];
   onSelectionChange?: (clusterIds: string[]) => void;
+  // Unassigned faces pool (shown when groupId is provided)
+  groupId?: string;
+  onClustersChange?: () => void;
 }
 
 export function FaceClusterGrid({
@@ -42,6 +46,8 @@ export function FaceClusterGrid({
   selectMode = false,
   selectedClusters = [],
   onSelectionChange,
+  groupId,
+  onClustersChange,
 }: FaceClusterGridProps) {
   const [editingCluster, setEditingCluster] = useState<string | null>(null);
   const [editName, setEditName] = useState("");
@@ -376,6 +382,16 @@ export function FaceClusterGrid({
           )}
         </div>
       )}
+
+      {/* Faces not assigned to any person */}
+      {groupId && !selectMode && (
+        <UnassignedFacesPool
+          groupId={groupId}
+          clusters={clusters}
+          canEdit={canEdit}
+          onClustersChange={onClustersChange}
+        />
+      )}
     </div>
   );
 }
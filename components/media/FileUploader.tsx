@@ -252,14 +252,15 @@
 
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { useDropzone } from "react-dropzone";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, X, CheckCircle } from "lucide-react";
-import { mediaApi } from "@/lib/api/media";
+import { Upload, X, CheckCircle, RotateCcw } from "lucide-react";
+import { ApiError } from "@/lib/api/client";
+import { uploadSessionsApi, UploadSession } from "@/lib/api/uploadSessions";
 
 interface FileUploaderProps {
   groupId: string;
@@ -286,18 +287,47 @@ export function FileUploader({ groupId, onUploadComplete }: FileUploaderProps) {
     progress: 0,
     currentStep: "uploading",
   });
+  const [interrupted, setInterrupted] = useState<UploadSession[]>([]);
   const { toast } = useToast();
 
+  const loadInterrupted = useCallback(async (): Promise<void> => {
+    try {
+      setInterrupted(await uploadSessionsApi.listActive(groupId));
+    } catch (error) {
+      console.error("Failed to load unfinished uploads:", error);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    loadInterrupted();
+  }, [loadInterrupted]);
+
+  const discardInterrupted = async (sessionId: string): Promise<void> => {
+    try {
+      await uploadSessionsApi.abort(sessionId);
+      setInterrupted((prev) => prev.filter((s) => s.id !== sessionId));
+    } catch (error) {
+      console.error("Failed to discard upload:", error);
+    }
+  };
+
   const onDrop = useCallback(
     (acceptedFiles: File[]) => {
       const validFiles = acceptedFiles.filter((file) => {
-        const isImage = file.type.startsWith("image/");
-        const isValidSize = file.size <= 10 * 1024 * 1024; // 10MB
-
-        if (!isImage) {
+        const isRaw = /\.(dng|cr2|nef|arw)$/i.test(file.name);
+        const isImage =
+          file.type.startsWith("image/") ||
+          isRaw ||
+          /\.(heic|heif)$/i.test(file.name);
+        const isVideo = file.type.startsWith("video/");
+        // Videos and RAW files may be larger, the server still caps video length
+        const maxSizeMb = isVideo || isRaw ? 50 : 10;
+        const isValidSize = file.size <= maxSizeMb * 1024 * 1024;
+
+        if (!isImage && !isVideo) {
           toast({
             title: "Invalid file type",
-            description: `${file.name} is not an image file`,
+            description: `${file.name} is not an image or video file`,
             variant: "destructive",
           });
           return false;
@@ -306,7 +336,7 @@ export function FileUploader({ groupId, onUploadComplete }: FileUploaderProps) {
         if (!isValidSize) {
           toast({
             title: "File too large",
-            description: `${file.name} exceeds 10MB limit`,
+            description: `${file.name} exceeds ${maxSizeMb}MB limit`,
             variant: "destructive",
           });
           return false;
@@ -323,7 +353,12 @@ export function FileUploader({ groupId, onUploadComplete }: FileUploaderProps) {
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      "image/*": [".jpeg", ".jpg", ".png", ".gif", ".webp"],
+      "image/*": [".jpeg", ".jpg", ".png", ".gif", ".webp", ".heic", ".heif"],
+      "image/x-adobe-dng": [".dng"],
+      "image/x-canon-cr2": [".cr2"],
+      "image/x-nikon-nef": [".nef"],
+      "image/x-sony-arw": [".arw"],
+      "video/*": [".mp4", ".mov", ".webm", ".m4v"],
     },
     multiple: true,
   });
@@ -334,7 +369,7 @@ export function FileUploader({ groupId, onUploadComplete }: FileUploaderProps) {
 
   const uploadFiles = async (): Promise<void> => {
     if (files.length === 0) return;
-    const estimatedTime = files.length * 4; // 4 seconds per image for face processing
+    const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
 
     setUploadState({
       uploading: true,
@@ -343,65 +378,93 @@ export function FileUploader({ groupId, onUploadComplete }: FileUploaderProps) {
       currentStep: "uploading",
     });
 
-    try {
-      // Simulate upload progress
-      const progressInterval = setInterval(() => {
-        setUploadState((prev) => ({
-          ...prev,
-          progress: Math.min(prev.progress + 100 / estimatedTime, 95), // Don't reach 100% until complete
-        }));
-      }, 1000);
+    // Each file goes straight to storage in parts; a file interrupted earlier
+    // resumes from its last stored part
+    let finishedBytes = 0;
+    let uploadedCount = 0;
+    let jobId = "";
+    const skipped: string[] = [];
+    const failed: File[] = [];
+
+    for (const file of files) {
+      try {
+        const result = await uploadSessionsApi.upload(groupId, file, (bytes) => {
+          setUploadState((prev) => ({
+            ...prev,
+            progress: Math.min(((finishedBytes + bytes) / totalBytes) * 100, 99),
+          }));
+        });
+        uploadedCount += result.data.length;
+        jobId = result.jobId;
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 409) {
+          skipped.push(file.name);
+        } else {
+          console.error(`Upload failed for ${file.name}:`, error);
+          failed.push(file);
+        }
+      }
+      finishedBytes += file.size;
+    }
 
-      const result = await mediaApi.upload(groupId, files);
+    await loadInterrupted();
+    if (uploadedCount > 0) {
+      onUploadComplete();
+    }
 
-      clearInterval(progressInterval);
+    const skippedMessage =
+      skipped.length > 0
+        ? ` Skipped ${skipped.length} duplicate(s) already in this group.`
+        : "";
 
+    if (failed.length > 0) {
+      // Keep failed files selected so retrying resumes them
+      setFiles(failed);
       setUploadState({
         uploading: false,
         processing: false,
-        progress: 100,
-        currentStep: "complete",
-        results: {
-          uploadedCount: result.data.length,
-          jobId: result.jobId,
-          message: result.message || `Uploaded ${result.data.length} files successfully`,
-        },
+        progress: 0,
+        currentStep: "uploading",
       });
 
       toast({
-        title: "Upload successful",
-        description: result.message || `Uploaded ${result.data.length} files. Face detection is processing...`,
+        title: "Upload interrupted",
+        description: `${failed.length} file(s) did not finish. Upload again to resume where they stopped.${skippedMessage}`,
+        variant: "destructive",
       });
+      return;
+    }
 
-      setFiles([]);
-      onUploadComplete();
+    const message = `Uploaded ${uploadedCount} files. Face detection is processing...${skippedMessage}`;
 
-      // Reset state after 3 seconds
-      setTimeout(() => {
-        setUploadState({
-          uploading: false,
-          processing: false,
-          progress: 0,
-          currentStep: "uploading",
-        });
-      }, 3000);
-    } catch (error) {
-      console.error("Upload failed:", error);
+    setUploadState({
+      uploading: false,
+      processing: false,
+      progress: 100,
+      currentStep: "complete",
+      results: {
+        uploadedCount,
+        jobId,
+        message,
+      },
+    });
+
+    toast({
+      title: "Upload successful",
+      description: message,
+    });
+
+    setFiles([]);
 
+    // Reset state after 3 seconds
+    setTimeout(() => {
       setUploadState({
         uploading: false,
         processing: false,
         progress: 0,
         currentStep: "uploading",
       });
-
-      toast({
-        title: "Upload failed",
-        description:
-          error instanceof Error ? error.message : "Unknown error occurred",
-        variant: "destructive",
-      });
-    }
+    }, 3000);
   };
 
   const formatFileSize = (bytes: number): string => {
@@ -436,19 +499,62 @@ export function FileUploader({ groupId, onUploadComplete }: FileUploaderProps) {
           <input {...getInputProps()} />
           <Upload className="mx-auto h-12 w-12 text-gray-400 mb-4" />
           {isDragActive ? (
-            <p>Drop the images here...</p>
+            <p>Drop the files here...</p>
           ) : (
             <div>
               <p className="text-lg mb-2">
-                Drop images here or click to browse
+                Drop photos or videos here or click to browse
               </p>
               <p className="text-sm text-gray-500">
-                Supports JPEG, PNG, GIF, WebP up to 10MB each
+                Supports JPEG, PNG, WebP and HEIC photos up to 10MB, RAW photos
+                and MP4, MOV, WebM videos up to 50MB
               </p>
             </div>
           )}
         </div>
 
+        {/* Unfinished uploads from an earlier visit */}
+        {interrupted.length > 0 && !isProcessing && (
+          <div className="space-y-2">
+            <h4 className="font-medium flex items-center gap-2">
+              <RotateCcw className="h-4 w-4" />
+              Unfinished Uploads
+            </h4>
+            <p className="text-xs text-gray-500">
+              Select the same files again to resume where they stopped.
+            </p>
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              {interrupted.map((session) => (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between bg-amber-50 p-2 rounded"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {session.originalName}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {Math.round(
+                        (session.completedParts.length / session.totalParts) * 100
+                      )}
+                      % of {formatFileSize(session.fileSize)}
+                    </p>
+                  </div>
+                  <Button
+                    onClick={() => discardInterrupted(session.id)}
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title="Discard"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* File list */}
         {files.length > 0 && (
           <div className="space-y-2">
@@ -489,7 +595,7 @@ export function FileUploader({ groupId, onUploadComplete }: FileUploaderProps) {
                 <>
                   <Upload className="h-4 w-4 text-blue-500 animate-pulse" />
                   <span className="text-sm">
-                    Uploading files and processing faces...
+                    Uploading files...
                   </span>
                 </>
               )}
@@ -498,8 +604,8 @@ export function FileUploader({ groupId, onUploadComplete }: FileUploaderProps) {
             <Progress value={uploadState.progress} className="h-2" />
 
             <p className="text-xs text-gray-500 text-center">
-              This may take 10-30 seconds depending on the number of photos and
-              faces detected
+              Interrupted uploads can be resumed by selecting the same files
+              again
             </p>
           </div>
         )}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Camera, Search, UserRound, Loader2 } from "lucide-react";
+import { clustersApi, SelfieSearchResult } from "@/lib/api/clusters";
+
+interface FindMyPhotosDialogProps {
+  groupId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called when the user picks one of the matched people
+  onSelectCluster?: (clusterId: string) => void;
+}
+
+export function FindMyPhotosDialog({
+  groupId,
+  open,
+  onOpenChange,
+  onSelectCluster,
+}: FindMyPhotosDialogProps) {
+  const [selfie, setSelfie] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [result, setResult] = useState<SelfieSearchResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // Reset when the dialog closes so the selfie is not kept around
+  useEffect(() => {
+    if (!open) {
+      setSelfie(null);
+      setResult(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!selfie) {
+      setPreviewUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(selfie);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selfie]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setSelfie(file);
+      setResult(null);
+    }
+    e.target.value = "";
+  };
+
+  const handleSearch = async (): Promise<void> => {
+    if (!selfie) return;
+
+    setSearching(true);
+    try {
+      const data = await clustersApi.searchBySelfie(groupId, selfie);
+      setResult(data);
+    } catch (error) {
+      console.error("Selfie search failed:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to search photos",
+        variant: "destructive",
+      });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Find My Photos</DialogTitle>
+          <DialogDescription>
+            Upload a selfie to find the photos you appear in. Your selfie is
+            only used for this search and is not saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            capture="user"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+
+          <div className="flex items-center gap-4">
+            <button
+              className="w-24 h-24 rounded-full overflow-hidden bg-gray-100 border-2 border-dashed border-gray-300 hover:border-purple-400 flex items-center justify-center flex-shrink-0"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              {previewUrl ? (
+                <img
+                  src={previewUrl}
+                  alt="Your selfie"
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <Camera className="h-8 w-8 text-gray-400" />
+              )}
+            </button>
+            <div className="space-y-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                {selfie ? "Choose another photo" : "Choose a selfie"}
+              </Button>
+              <Button
+                size="sm"
+                className="gap-2 ml-2"
+                onClick={handleSearch}
+                disabled={!selfie || searching}
+              >
+                {searching ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Search className="h-4 w-4" />
+                )}
+                Search
+              </Button>
+            </div>
+          </div>
+
+          {result && result.media.length === 0 && (
+            <div className="text-center py-6">
+              <UserRound className="h-12 w-12 text-gray-300 mx-auto mb-2" />
+              <p className="text-sm text-gray-600">
+                No matching photos found. Try a clear, well-lit photo of your face.
+              </p>
+            </div>
+          )}
+
+          {result && result.clusters.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">
+                You were recognised as
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {result.clusters.map((cluster) => (
+                  <Button
+                    key={cluster.id}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      onSelectCluster?.(cluster.id);
+                      onOpenChange(false);
+                    }}
+                  >
+                    {cluster.clusterName || "Unknown"} ({cluster.appearanceCount})
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {result && result.media.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">
+                {result.media.length}{" "}
+                {result.media.length === 1 ? "photo" : "photos"} found
+              </p>
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                {result.media.map((item) => (
+                  <a
+                    key={item.id}
+                    href={item.presignedUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="aspect-square rounded-lg overflow-hidden bg-gray-100"
+                  >
+                    <img
+                      src={item.presignedUrl}
+                      alt={item.originalName}
+                      className="w-full h-full object-cover hover:opacity-90"
+                      loading="lazy"
+                    />
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
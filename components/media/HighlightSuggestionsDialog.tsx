@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { OptimizedImage } from "@/components/ui/OptimizedImage";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Sparkles, Star, Users, Wand2 } from "lucide-react";
+import { mediaApi, HighlightSuggestion } from "@/lib/api/media";
+
+interface HighlightSuggestionsDialogProps {
+  groupId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onHighlighted: (mediaId: string) => void;
+}
+
+/**
+ * Suggested highlights for admins, ranked by how many members starred a photo,
+ * the named people in it and how sharp their faces are
+ */
+export function HighlightSuggestionsDialog({
+  groupId,
+  open,
+  onOpenChange,
+  onHighlighted,
+}: HighlightSuggestionsDialogProps) {
+  const [suggestions, setSuggestions] = useState<HighlightSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [adding, setAdding] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        setSuggestions(await mediaApi.suggestHighlights(groupId));
+      } catch (error) {
+        console.error("Failed to load suggested highlights:", error);
+        toast({
+          title: "Error",
+          description:
+            error instanceof Error
+              ? error.message
+              : "Failed to load suggested highlights",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [groupId, open, toast]);
+
+  const addHighlights = async (mediaIds: string[]): Promise<void> => {
+    setAdding(mediaIds);
+    try {
+      for (const mediaId of mediaIds) {
+        await mediaApi.setHighlight(mediaId, true);
+        onHighlighted(mediaId);
+      }
+      setSuggestions((prev) => prev.filter((s) => !mediaIds.includes(s.media.id)));
+      toast({
+        title: "Success",
+        description: `Added ${mediaIds.length} photo${mediaIds.length === 1 ? "" : "s"} to highlights`,
+      });
+    } catch (error) {
+      console.error("Failed to add highlights:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to add highlights",
+        variant: "destructive",
+      });
+    } finally {
+      setAdding([]);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5" />
+            Suggested highlights
+          </DialogTitle>
+          <DialogDescription>
+            Photos members starred most, with named people and sharp faces.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+            </div>
+          ) : suggestions.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <Sparkles className="mx-auto h-10 w-10 mb-2 text-gray-300" />
+              <p className="text-sm">
+                Nothing to suggest yet. Star photos or name people to get suggestions.
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {suggestions.map(({ media, favoriteCount, people }) => (
+                <div key={media.id} className="rounded-lg border overflow-hidden">
+                  <div className="aspect-square bg-gray-100">
+                    <OptimizedImage
+                      src={media.posterUrl || media.presignedUrl || media.url}
+                      alt={media.originalName}
+                      derivatives={media.derivativeUrls}
+                      sizes="240px"
+                      className="w-full h-full"
+                    />
+                  </div>
+                  <div className="p-2 space-y-2">
+                    <div className="flex flex-wrap gap-1">
+                      {favoriteCount > 0 && (
+                        <Badge variant="secondary" className="gap-1">
+                          <Star className="h-3 w-3" />
+                          {favoriteCount}
+                        </Badge>
+                      )}
+                      {people.length > 0 && (
+                        <Badge variant="secondary" className="gap-1" title={people.join(", ")}>
+                          <Users className="h-3 w-3" />
+                          {people.length === 1 ? people[0] : `${people.length} people`}
+                        </Badge>
+                      )}
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="w-full gap-2"
+                      onClick={() => addHighlights([media.id])}
+                      disabled={adding.length > 0}
+                    >
+                      {adding.includes(media.id) ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Sparkles className="h-4 w-4" />
+                      )}
+                      Add
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {suggestions.length > 1 && (
+          <div className="flex justify-end border-t pt-3">
+            <Button
+              onClick={() => addHighlights(suggestions.map((s) => s.media.id))}
+              disabled={adding.length > 0}
+              className="gap-2"
+            >
+              <Sparkles className="h-4 w-4" />
+              Add all {suggestions.length}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { mediaApi, Media } from "@/lib/api/media";
+import { TagInput } from "./TagInput";
+
+interface MediaAnnotationsDialogProps {
+  groupId: string;
+  media: Media | null;
+  onClose: () => void;
+  onSaved: (mediaId: string, caption: string | undefined, tags: string[]) => void;
+}
+
+/**
+ * Edit the caption and tags of a photo (uploader or admin)
+ */
+export function MediaAnnotationsDialog({
+  groupId,
+  media,
+  onClose,
+  onSaved,
+}: MediaAnnotationsDialogProps) {
+  const [caption, setCaption] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setCaption(media?.caption ?? "");
+    setTags(media?.tags ?? []);
+  }, [media]);
+
+  const handleSave = async (): Promise<void> => {
+    if (!media) return;
+
+    setSaving(true);
+    try {
+      const updated = await mediaApi.updateAnnotations(media.id, {
+        caption,
+        tags,
+      });
+      onSaved(updated.id, updated.caption, updated.tags);
+      toast({
+        title: "Success",
+        description: "Photo details updated",
+      });
+      onClose();
+    } catch (error) {
+      console.error("Failed to update photo details:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to update photo details",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={media !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Caption and tags</DialogTitle>
+          <DialogDescription className="truncate">
+            {media?.originalName}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="media-caption">Caption</Label>
+            <Textarea
+              id="media-caption"
+              value={caption}
+              onChange={(e) => setCaption(e.target.value)}
+              placeholder="What's happening in this photo?"
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Tags</Label>
+            <TagInput groupId={groupId} value={tags} onChange={setTags} />
+            <p className="text-xs text-gray-500">
+              Press Enter to add a tag. Everyone in the group can search by tag.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
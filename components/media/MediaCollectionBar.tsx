@@ -0,0 +1,61 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Images, Sparkles, Star, Wand2 } from "lucide-react";
+import { MediaCollection } from "./MediaFilters";
+
+interface MediaCollectionBarProps {
+  value: MediaCollection | null;
+  isAdmin: boolean;
+  onChange: (collection: MediaCollection | null) => void;
+  onShowSuggestions: () => void;
+}
+
+/**
+ * Switch the gallery between all photos, the user's favourites and the group's highlights
+ */
+export function MediaCollectionBar({
+  value,
+  isAdmin,
+  onChange,
+  onShowSuggestions,
+}: MediaCollectionBarProps) {
+  const options: Array<{
+    collection: MediaCollection | null;
+    label: string;
+    icon: typeof Star;
+  }> = [
+    { collection: null, label: "All photos", icon: Images },
+    { collection: "favorites", label: "My favourites", icon: Star },
+    { collection: "highlights", label: "Highlights", icon: Sparkles },
+  ];
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-2">
+      {options.map(({ collection, label, icon: Icon }) => (
+        <Button
+          key={label}
+          variant={value === collection ? "default" : "outline"}
+          size="sm"
+          onClick={() => onChange(collection)}
+          className="gap-2"
+        >
+          <Icon className="h-4 w-4" />
+          {label}
+        </Button>
+      ))}
+      {isAdmin && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onShowSuggestions}
+          className="gap-2 ml-auto"
+          title="Photos the group starred most, with named people and sharp faces"
+        >
+          <Wand2 className="h-4 w-4" />
+          Suggest highlights
+        </Button>
+      )}
+    </div>
+  );
+}
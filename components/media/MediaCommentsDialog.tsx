@@ -0,0 +1,383 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { OptimizedImage } from "@/components/ui/OptimizedImage";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, MessageCircle, Pencil, Reply, Trash2, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Media } from "@/lib/api/media";
+import { Group } from "@/lib/api/groups";
+import {
+  commentsApi,
+  Comment,
+  ReactionSummary,
+  REACTION_EMOJIS,
+} from "@/lib/api/comments";
+
+interface MediaCommentsDialogProps {
+  media: Media | null;
+  members: Group["members"];
+  currentUserId: string;
+  isAdmin: boolean;
+  onClose: () => void;
+  onChange: (
+    mediaId: string,
+    engagement: { commentCount: number; reactions: ReactionSummary[] }
+  ) => void;
+}
+
+/**
+ * Reactions and threaded comments on a photo.
+ * Authors edit and delete their own comments, admins can remove any comment
+ */
+export function MediaCommentsDialog({
+  media,
+  members,
+  currentUserId,
+  isAdmin,
+  onClose,
+  onChange,
+}: MediaCommentsDialogProps) {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [reactions, setReactions] = useState<ReactionSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [replyTo, setReplyTo] = useState<Comment | null>(null);
+  const [editing, setEditing] = useState<{ id: string; body: string } | null>(
+    null
+  );
+  const { toast } = useToast();
+
+  const loadComments = useCallback(async () => {
+    if (!media) return;
+
+    setLoading(true);
+    try {
+      const result = await commentsApi.list(media.id);
+      setComments(result.comments);
+      setReactions(result.reactions);
+    } catch (error) {
+      console.error("Failed to load comments:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [media]);
+
+  useEffect(() => {
+    setComments([]);
+    setReactions([]);
+    setDraft("");
+    setReplyTo(null);
+    setEditing(null);
+    loadComments();
+  }, [loadComments]);
+
+  const memberFor = (userId: string) =>
+    members.find((member) => member.userId.id === userId)?.userId;
+
+  const authorName = (userId: string): string => {
+    if (userId === currentUserId) return "You";
+    const member = memberFor(userId);
+    return member?.name || member?.email || "Former member";
+  };
+
+  // Reload after each change so threads and placeholders match the server
+  const run = async (
+    action: () => Promise<unknown>,
+    errorMessage: string
+  ): Promise<boolean> => {
+    if (!media) return false;
+
+    setSaving(true);
+    try {
+      await action();
+      const result = await commentsApi.list(media.id);
+      setComments(result.comments);
+      setReactions(result.reactions);
+      onChange(media.id, {
+        commentCount: result.comments.filter((c) => !c.isDeleted).length,
+        reactions: result.reactions,
+      });
+      return true;
+    } catch (error) {
+      console.error(errorMessage, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : errorMessage,
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePost = async (): Promise<void> => {
+    if (!media || !draft.trim()) return;
+
+    const ok = await run(
+      () => commentsApi.add(media.id, draft.trim(), replyTo?.id),
+      "Failed to post comment"
+    );
+    if (ok) {
+      setDraft("");
+      setReplyTo(null);
+    }
+  };
+
+  const handleSaveEdit = async (): Promise<void> => {
+    if (!editing || !editing.body.trim()) return;
+
+    const ok = await run(
+      () => commentsApi.update(editing.id, editing.body.trim()),
+      "Failed to update comment"
+    );
+    if (ok) setEditing(null);
+  };
+
+  const handleDelete = async (comment: Comment): Promise<void> => {
+    const removingOther = comment.authorId !== currentUserId;
+    if (
+      !confirm(
+        removingOther
+          ? `Remove this comment by ${authorName(comment.authorId)}?`
+          : "Delete your comment?"
+      )
+    ) {
+      return;
+    }
+
+    await run(() => commentsApi.delete(comment.id), "Failed to delete comment");
+  };
+
+  const handleReaction = (emoji: string) =>
+    run(
+      () => commentsApi.toggleReaction(media!.id, emoji),
+      "Failed to update reaction"
+    );
+
+  const threads = comments.filter((c) => !c.parentId);
+  const repliesTo = (commentId: string) =>
+    comments.filter((c) => c.parentId === commentId);
+
+  const renderComment = (comment: Comment) => {
+    const author = memberFor(comment.authorId);
+
+    if (comment.isDeleted) {
+      return (
+        <p className="text-sm italic text-gray-400 py-1">
+          {comment.removedByAdmin
+            ? "Comment removed by an admin"
+            : "Comment deleted"}
+        </p>
+      );
+    }
+
+    return (
+      <div className="flex gap-2">
+        <Avatar className="h-7 w-7 flex-shrink-0">
+          <AvatarImage src={author?.avatar ?? undefined} />
+          <AvatarFallback className="text-xs">
+            {authorName(comment.authorId).charAt(0)}
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-baseline gap-2">
+            <span className="text-sm font-medium">
+              {authorName(comment.authorId)}
+            </span>
+            <span className="text-xs text-gray-500">
+              {formatDistanceToNow(new Date(comment.createdAt), {
+                addSuffix: true,
+              })}
+              {comment.editedAt && " · edited"}
+            </span>
+          </div>
+
+          {editing?.id === comment.id ? (
+            <div className="mt-1 space-y-2">
+              <Textarea
+                value={editing.body}
+                onChange={(e) =>
+                  setEditing({ id: comment.id, body: e.target.value })
+                }
+                maxLength={1000}
+                rows={2}
+              />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleSaveEdit} disabled={saving}>
+                  Save
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setEditing(null)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+              {comment.body}
+            </p>
+          )}
+
+          {editing?.id !== comment.id && (
+            <div className="flex gap-3 mt-1 text-xs text-gray-500">
+              <button
+                className="flex items-center gap-1 hover:text-gray-800"
+                onClick={() => setReplyTo(comment)}
+              >
+                <Reply className="h-3 w-3" />
+                Reply
+              </button>
+              {comment.authorId === currentUserId && (
+                <button
+                  className="flex items-center gap-1 hover:text-gray-800"
+                  onClick={() =>
+                    setEditing({ id: comment.id, body: comment.body })
+                  }
+                >
+                  <Pencil className="h-3 w-3" />
+                  Edit
+                </button>
+              )}
+              {(comment.authorId === currentUserId || isAdmin) && (
+                <button
+                  className="flex items-center gap-1 hover:text-red-600"
+                  onClick={() => handleDelete(comment)}
+                  disabled={saving}
+                >
+                  <Trash2 className="h-3 w-3" />
+                  {comment.authorId === currentUserId ? "Delete" : "Remove"}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={media !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Comments</DialogTitle>
+          <DialogDescription className="truncate">
+            {media?.caption || media?.originalName}
+          </DialogDescription>
+        </DialogHeader>
+
+        {media && (
+          <div className="h-48 rounded-md overflow-hidden bg-gray-100 flex-shrink-0">
+            <OptimizedImage
+              src={media.posterUrl || media.presignedUrl || media.url}
+              alt={media.originalName}
+              derivatives={media.derivativeUrls}
+              sizes="560px"
+              className="w-full h-full"
+            />
+          </div>
+        )}
+
+        {/* Reactions */}
+        <div className="flex flex-wrap gap-2">
+          {REACTION_EMOJIS.map((emoji) => {
+            const summary = reactions.find((r) => r.emoji === emoji);
+            return (
+              <button
+                key={emoji}
+                onClick={() => handleReaction(emoji)}
+                disabled={saving}
+                className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-sm transition-colors ${
+                  summary?.reacted
+                    ? "border-blue-400 bg-blue-50"
+                    : "border-gray-200 hover:bg-gray-50"
+                }`}
+              >
+                <span>{emoji}</span>
+                {summary && (
+                  <span className="text-xs text-gray-600">{summary.count}</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Threads */}
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1 min-h-[4rem]">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : threads.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">
+              <MessageCircle className="mx-auto h-8 w-8 mb-2 text-gray-300" />
+              <p className="text-sm">No comments yet</p>
+            </div>
+          ) : (
+            threads.map((thread) => (
+              <div key={thread.id}>
+                {renderComment(thread)}
+                {repliesTo(thread.id).length > 0 && (
+                  <div className="ml-9 mt-2 space-y-2 border-l pl-3">
+                    {repliesTo(thread.id).map((reply) => (
+                      <div key={reply.id}>{renderComment(reply)}</div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Composer */}
+        <div className="space-y-2 border-t pt-3">
+          {replyTo && (
+            <div className="flex items-center justify-between text-xs text-gray-600">
+              <span>Replying to {authorName(replyTo.authorId)}</span>
+              <button onClick={() => setReplyTo(null)} title="Cancel reply">
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  handlePost();
+                }
+              }}
+              placeholder={replyTo ? "Write a reply" : "Add a comment"}
+              maxLength={1000}
+              rows={2}
+            />
+            <Button
+              onClick={handlePost}
+              disabled={saving || !draft.trim()}
+              className="self-end"
+            >
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Post"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
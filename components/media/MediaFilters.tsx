@@ -23,10 +23,14 @@ import {
   X,
   Users,
   Upload,
+  Star,
 } from "lucide-react";
 import { format } from "date-fns";
 import { Cluster } from "@/lib/api/clusters";
 
+// Starred by the current user, or picked by admins for the whole group
+export type MediaCollection = "favorites" | "highlights";
+
 interface MediaFiltersProps {
   onFiltersChange: (filters: MediaFilterOptions) => void;
   totalMedia: number;
@@ -35,6 +39,7 @@ interface MediaFiltersProps {
 }
 
 interface MediaFilterOptions {
+  // Capture time of the photo, not the upload time
   dateRange?: {
     from: Date;
     to: Date;
@@ -42,6 +47,7 @@ interface MediaFilterOptions {
   clusterId?: string;
   processed?: boolean;
   uploader?: string;
+  collection?: MediaCollection;
 }
 
 export function MediaFilters({
@@ -110,6 +116,28 @@ export function MediaFilters({
       </CardHeader>
 
       <CardContent className="space-y-4">
+        {/* Favourites and Highlights */}
+        <div>
+          <label className="text-sm font-medium mb-2 block">Show</label>
+          <Select
+            value={filters.collection || "all"}
+            onValueChange={(value) =>
+              updateFilters({
+                collection: value === "all" ? undefined : (value as MediaCollection),
+              })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="All photos" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All photos</SelectItem>
+              <SelectItem value="favorites">My favourites</SelectItem>
+              <SelectItem value="highlights">Highlights</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Person Filter */}
         <div>
           <label className="text-sm font-medium mb-2 block">Person</label>
@@ -140,7 +168,7 @@ export function MediaFilters({
 
         {/* Date Range Filter */}
         <div>
-          <label className="text-sm font-medium mb-2 block">Date Range</label>
+          <label className="text-sm font-medium mb-2 block">Date Taken</label>
           <Popover>
             <PopoverTrigger asChild>
               <Button
@@ -213,6 +241,17 @@ export function MediaFilters({
                 {filteredCount} photo{filteredCount !== 1 ? "s" : ""}
               </Badge>
             </div>
+            {filters.collection && (
+              <div className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-1">
+                  <Star className="h-3 w-3" />
+                  <span>Collection</span>
+                </div>
+                <span className="text-xs text-gray-500">
+                  {filters.collection === "favorites" ? "My favourites" : "Highlights"}
+                </span>
+              </div>
+            )}
             {filters.clusterId && (
               <div className="flex items-center justify-between text-sm">
                 <div className="flex items-center gap-1">
@@ -9,6 +9,7 @@ import { Image, Download, Grid, List, Calendar, Trash2 } from "lucide-react";
 import { useDownload } from "@/lib/hooks/useDownload";
 import { useDelete } from "@/lib/hooks/useDelete";
 import { DeleteConfirmDialog } from "@/components/media/DeleteConfirmDialog";
+import { OptimizedImage } from "@/components/ui/OptimizedImage";
 import { Media } from "@/lib/api/media";
 
 interface MediaGalleryProps {
@@ -201,11 +202,12 @@ export function MediaGallery({
             {media.map((item) => (
               <div key={item.id} className="relative group">
                 <div className="aspect-square bg-gray-200 rounded-lg overflow-hidden">
-                  <img
-                    src={item.presignedUrl || item.url}
+                  <OptimizedImage
+                    src={item.posterUrl || item.presignedUrl || item.url}
                     alt={item.originalName}
-                    className="w-full h-full object-cover cursor-pointer hover:opacity-90 transition-opacity"
-                    loading="lazy"
+                    derivatives={item.derivativeUrls}
+                    sizes="(min-width: 1280px) 17vw, (min-width: 1024px) 25vw, (min-width: 768px) 33vw, 50vw"
+                    className="w-full h-full cursor-pointer hover:opacity-90 transition-opacity"
                   />
                 </div>
 
@@ -256,11 +258,12 @@ export function MediaGallery({
                 />
 
                 <div className="w-12 h-12 bg-gray-200 rounded overflow-hidden flex-shrink-0">
-                  <img
-                    src={item.presignedUrl || item.url}
+                  <OptimizedImage
+                    src={item.posterUrl || item.presignedUrl || item.url}
                     alt={item.originalName}
-                    className="w-full h-full object-cover"
-                    loading="lazy"
+                    derivatives={item.derivativeUrls}
+                    sizes="48px"
+                    className="w-full h-full"
                   />
                 </div>
 
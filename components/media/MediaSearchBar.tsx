@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Search, X } from "lucide-react";
+import { TagInput } from "./TagInput";
+
+export interface MediaSearch {
+  query: string;
+  tags: string[];
+}
+
+interface MediaSearchBarProps {
+  groupId: string;
+  value: MediaSearch | null;
+  onChange: (search: MediaSearch | null) => void;
+}
+
+/**
+ * Search photos by caption, tags and filename
+ * Combined with the person and date filters on the server
+ */
+export function MediaSearchBar({ groupId, value, onChange }: MediaSearchBarProps) {
+  const [query, setQuery] = useState(value?.query ?? "");
+  const [tags, setTags] = useState<string[]>(value?.tags ?? []);
+
+  // Set from outside too, e.g. cleared when an album is opened or a tag is clicked on a photo
+  useEffect(() => {
+    setQuery(value?.query ?? "");
+    setTags(value?.tags ?? []);
+  }, [value]);
+
+  const submit = (nextQuery: string, nextTags: string[]) => {
+    const trimmed = nextQuery.trim();
+    onChange(trimmed || nextTags.length > 0 ? { query: trimmed, tags: nextTags } : null);
+  };
+
+  return (
+    <form
+      className="mb-6 flex flex-col sm:flex-row gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit(query, tags);
+      }}
+    >
+      <div className="relative flex-1">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search captions, tags and file names"
+          className="pl-9"
+        />
+      </div>
+      <div className="sm:w-64">
+        <TagInput
+          groupId={groupId}
+          value={tags}
+          onChange={(nextTags) => {
+            setTags(nextTags);
+            // Tag filters apply straight away, text waits for Enter
+            submit(query, nextTags);
+          }}
+          placeholder="Filter by tag"
+        />
+      </div>
+      <Button type="submit" size="sm" className="gap-2 self-start sm:self-auto">
+        <Search className="h-4 w-4" />
+        Search
+      </Button>
+      {value && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(null)}
+          title="Clear search"
+          className="self-start sm:self-auto"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Contact, Loader2, Plus } from "lucide-react";
+import { Cluster } from "@/lib/api/clusters";
+import { peopleApi, Person } from "@/lib/api/people";
+
+interface PersonLinkControlProps {
+  cluster: Cluster;
+}
+
+/**
+ * Links a group's cluster to one of the current user's people,
+ * so the same person can be followed across groups
+ */
+export function PersonLinkControl({ cluster }: PersonLinkControlProps) {
+  const [people, setPeople] = useState<Person[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [newName, setNewName] = useState("");
+  const { toast } = useToast();
+
+  const loadPeople = useCallback(async (): Promise<void> => {
+    try {
+      const data = await peopleApi.list();
+      setPeople(data || []);
+    } catch (error) {
+      console.error("Failed to load people:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPeople();
+  }, [loadPeople]);
+
+  const linkedPerson = people.find((p) =>
+    p.clusters.some((c) => c.clusterId === cluster.id)
+  );
+
+  const run = async (
+    action: () => Promise<unknown>,
+    successMessage: string
+  ): Promise<void> => {
+    setSaving(true);
+    try {
+      await action();
+      await loadPeople();
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+    } catch (error) {
+      console.error("Failed to update person:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to update person",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async (): Promise<void> => {
+    const name = newName.trim();
+    if (!name) return;
+
+    await run(
+      () => peopleApi.create(name, [cluster.id]),
+      `Added to ${name}`
+    );
+    setShowCreate(false);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2" disabled={saving}>
+            {saving ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Contact className="h-4 w-4" />
+            )}
+            {linkedPerson ? linkedPerson.name : "Add to My People"}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+          <DropdownMenuLabel>Same person as</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {people.map((person) => (
+            <DropdownMenuItem
+              key={person.id}
+              onSelect={() =>
+                person.id === linkedPerson?.id
+                  ? run(
+                      () => peopleApi.unlinkCluster(person.id, cluster.id),
+                      `Removed from ${person.name}`
+                    )
+                  : run(
+                      () => peopleApi.linkCluster(person.id, cluster.id),
+                      `Added to ${person.name}`
+                    )
+              }
+            >
+              <span className="flex-1">{person.name}</span>
+              {person.id === linkedPerson?.id && (
+                <Check className="h-4 w-4 text-purple-600" />
+              )}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuItem
+            onSelect={() => {
+              setNewName(cluster.clusterName || "");
+              setShowCreate(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New person
+          </DropdownMenuItem>
+          {linkedPerson && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem asChild>
+                <Link href={`/people/${linkedPerson.id}`}>
+                  See all photos of {linkedPerson.name}
+                </Link>
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>New person</DialogTitle>
+            <DialogDescription>
+              Only you can see your people. Link the same person from your
+              other groups to see all their photos in one place.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Name"
+            maxLength={50}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleCreate();
+            }}
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setShowCreate(false)}
+              disabled={saving}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={!newName.trim() || saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
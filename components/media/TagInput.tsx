@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { X } from "lucide-react";
+import { mediaApi, TagCount } from "@/lib/api/media";
+
+interface TagInputProps {
+  groupId: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+}
+
+// Same rules the server applies, so chips show what will be stored
+const normalizeTag = (tag: string) =>
+  tag.trim().replace(/^#+/, "").replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * Tag chips with autocomplete from the tags already used in the group
+ */
+export function TagInput({
+  groupId,
+  value,
+  onChange,
+  placeholder = "Add a tag",
+}: TagInputProps) {
+  const [draft, setDraft] = useState("");
+  const [focused, setFocused] = useState(false);
+  const [suggestions, setSuggestions] = useState<TagCount[]>([]);
+
+  useEffect(() => {
+    if (!focused) return;
+
+    // Debounce so typing doesn't send a request per key
+    const timeout = setTimeout(async () => {
+      try {
+        setSuggestions(await mediaApi.listTags(groupId, normalizeTag(draft)));
+      } catch (error) {
+        console.error("Failed to load tags:", error);
+        setSuggestions([]);
+      }
+    }, 200);
+
+    return () => clearTimeout(timeout);
+  }, [groupId, draft, focused]);
+
+  const addTag = (tag: string) => {
+    const normalized = normalizeTag(tag);
+    if (normalized && !value.includes(normalized)) {
+      onChange([...value, normalized]);
+    }
+    setDraft("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === "Enter" || e.key === ",") && draft.trim()) {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  const visibleSuggestions = suggestions.filter((s) => !value.includes(s.tag));
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 rounded-md border px-2 py-1">
+        {value.map((tag) => (
+          <Badge key={tag} variant="secondary" className="gap-1">
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((t) => t !== tag))}
+              title={`Remove ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          placeholder={value.length === 0 ? placeholder : undefined}
+          className="h-7 flex-1 min-w-[8rem] border-0 px-1 shadow-none focus-visible:ring-0"
+        />
+      </div>
+
+      {focused && visibleSuggestions.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-white shadow-md max-h-48 overflow-y-auto">
+          {visibleSuggestions.map((suggestion) => (
+            <button
+              key={suggestion.tag}
+              type="button"
+              className="flex w-full items-center justify-between px-3 py-1.5 text-sm hover:bg-gray-100"
+              // Keep focus in the input so the list stays open for the click
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(suggestion.tag)}
+            >
+              <span>#{suggestion.tag}</span>
+              <span className="text-xs text-gray-500">{suggestion.count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
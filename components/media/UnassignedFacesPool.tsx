@@ -0,0 +1,232 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { UserPlus, UserRound, ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import { clustersApi, Cluster, UnassignedFace } from "@/lib/api/clusters";
+
+interface UnassignedFacesPoolProps {
+  groupId: string;
+  clusters: Cluster[];
+  canEdit?: boolean;
+  // Called after a face is assigned or promoted so clusters can be reloaded
+  onClustersChange?: () => void;
+}
+
+export function UnassignedFacesPool({
+  groupId,
+  clusters,
+  canEdit = false,
+  onClustersChange,
+}: UnassignedFacesPoolProps) {
+  const [faces, setFaces] = useState<UnassignedFace[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState(false);
+  const [selectedFace, setSelectedFace] = useState<UnassignedFace | null>(null);
+  const [newPersonName, setNewPersonName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadFaces = useCallback(async (): Promise<void> => {
+    try {
+      const data = await clustersApi.listUnassignedFaces(groupId);
+      setFaces(data || []);
+    } catch (error) {
+      console.error("Failed to load unassigned faces:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    loadFaces();
+  }, [loadFaces, clusters]);
+
+  const closeDialog = (): void => {
+    setSelectedFace(null);
+    setNewPersonName("");
+  };
+
+  const handleAssign = async (clusterId: string): Promise<void> => {
+    if (!selectedFace) return;
+
+    setSaving(true);
+    try {
+      await clustersApi.assignFace(groupId, selectedFace.id, clusterId);
+      setFaces((prev) => prev.filter((f) => f.id !== selectedFace.id));
+      closeDialog();
+      onClustersChange?.();
+
+      toast({
+        title: "Success",
+        description: "Face added to person",
+      });
+    } catch (error) {
+      console.error("Failed to assign face:", error);
+      toast({
+        title: "Error",
+        description: "Failed to add face to person",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePromote = async (): Promise<void> => {
+    if (!selectedFace) return;
+
+    setSaving(true);
+    try {
+      await clustersApi.promoteFace(groupId, selectedFace.id, newPersonName.trim() || undefined);
+      setFaces((prev) => prev.filter((f) => f.id !== selectedFace.id));
+      closeDialog();
+      onClustersChange?.();
+
+      toast({
+        title: "Success",
+        description: "New person created",
+      });
+    } catch (error) {
+      console.error("Failed to promote face:", error);
+      toast({
+        title: "Error",
+        description: "Failed to create person",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || faces.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2">
+      <button
+        className="flex items-center gap-2 text-sm text-gray-600 hover:text-purple-600 px-1"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <UserRound className="h-4 w-4" />
+        <span>
+          {faces.length} unassigned {faces.length === 1 ? "face" : "faces"}
+        </span>
+        {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {expanded && (
+        <div className="overflow-x-auto pb-2 mt-2">
+          <div className="flex gap-2 min-w-min">
+            {faces.map((face) => (
+              <button
+                key={face.id}
+                className={`flex-shrink-0 w-16 h-16 rounded-lg overflow-hidden border-2 border-gray-200 bg-gray-100 ${
+                  canEdit ? "hover:border-purple-400 cursor-pointer" : "cursor-default"
+                }`}
+                onClick={() => canEdit && setSelectedFace(face)}
+                title={canEdit ? "Assign this face" : undefined}
+              >
+                {face.thumbnailUrl ? (
+                  <img
+                    src={face.thumbnailUrl}
+                    alt="Unassigned face"
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <UserRound className="h-6 w-6 text-gray-400 mx-auto" />
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={!!selectedFace} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Who is this?</DialogTitle>
+            <DialogDescription>
+              Add this face to an existing person or create a new one
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedFace && (
+            <div className="space-y-4">
+              {selectedFace.thumbnailUrl && (
+                <img
+                  src={selectedFace.thumbnailUrl}
+                  alt="Selected face"
+                  className="w-32 h-32 rounded-xl object-cover mx-auto"
+                />
+              )}
+
+              {clusters.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-700">Existing people</p>
+                  <div className="grid grid-cols-4 gap-2 max-h-48 overflow-y-auto">
+                    {clusters.map((cluster) => (
+                      <button
+                        key={cluster.id}
+                        className="flex flex-col items-center gap-1 p-1 rounded-lg hover:bg-purple-50 disabled:opacity-50"
+                        onClick={() => handleAssign(cluster.id)}
+                        disabled={saving}
+                      >
+                        <div className="w-12 h-12 rounded-full overflow-hidden bg-gray-100">
+                          {cluster.samplePhoto?.thumbnailUrl ? (
+                            <img
+                              src={cluster.samplePhoto.thumbnailUrl}
+                              alt={cluster.clusterName || "Person"}
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            <UserRound className="h-6 w-6 text-gray-400 m-3" />
+                          )}
+                        </div>
+                        <span className="text-[10px] text-gray-700 truncate w-full text-center">
+                          {cluster.clusterName || "Unknown"}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2 pt-2 border-t border-gray-200">
+                <p className="text-sm font-medium text-gray-700">New person</p>
+                <div className="flex gap-2">
+                  <Input
+                    value={newPersonName}
+                    onChange={(e) => setNewPersonName(e.target.value)}
+                    placeholder="Name (optional)"
+                    maxLength={50}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handlePromote();
+                    }}
+                  />
+                  <Button onClick={handlePromote} disabled={saving}>
+                    {saving ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <UserPlus className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
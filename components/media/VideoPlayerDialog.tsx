@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Media } from "@/lib/api/media";
+
+interface VideoPlayerDialogProps {
+  video: Media | null;
+  // Position to jump to when the video opens, e.g. where a face appears
+  startAt?: number;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Format seconds as m:ss for video durations and face timestamps
+ */
+export function formatVideoTime(seconds: number): string {
+  const whole = Math.floor(seconds);
+  const minutes = Math.floor(whole / 60);
+  const rest = whole % 60;
+  return `${minutes}:${rest.toString().padStart(2, "0")}`;
+}
+
+export function VideoPlayerDialog({
+  video,
+  startAt = 0,
+  onOpenChange,
+}: VideoPlayerDialogProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // Seek again when a different timestamp of the same video is picked
+  useEffect(() => {
+    const element = videoRef.current;
+    if (element && element.readyState > 0) {
+      element.currentTime = startAt;
+    }
+  }, [startAt]);
+
+  return (
+    <Dialog open={!!video} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px]">
+        <DialogHeader>
+          <DialogTitle className="truncate">{video?.originalName}</DialogTitle>
+        </DialogHeader>
+        {video && (
+          <video
+            ref={videoRef}
+            src={video.presignedUrl}
+            poster={video.posterUrl}
+            controls
+            autoPlay
+            playsInline
+            className="w-full max-h-[70vh] rounded-lg bg-black"
+            onLoadedMetadata={(e) => {
+              e.currentTarget.currentTime = startAt;
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Loader2, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { groupsApi, JoinRequest } from "@/lib/api/groups";
+
+interface JoinRequestQueueProps {
+  groupId: string;
+  onApproved?: () => void;
+  className?: string;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  MEMBER: "Member",
+  VIEWER: "Viewer",
+};
+
+/**
+ * Requests to join a group that requires approval (admins only)
+ * Renders nothing while the queue is empty
+ */
+export function JoinRequestQueue({
+  groupId,
+  onApproved,
+  className = "",
+}: JoinRequestQueueProps) {
+  const [requests, setRequests] = useState<JoinRequest[]>([]);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadRequests = useCallback(async () => {
+    try {
+      setRequests(await groupsApi.listJoinRequests(groupId));
+    } catch (error) {
+      console.error("Failed to load join requests:", error);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const review = async (
+    request: JoinRequest,
+    decision: "approve" | "deny"
+  ): Promise<void> => {
+    const name = request.user.name || request.user.email || "this person";
+
+    setReviewingId(request.id);
+    try {
+      if (decision === "approve") {
+        await groupsApi.approveJoinRequest(groupId, request.id);
+      } else {
+        await groupsApi.denyJoinRequest(groupId, request.id);
+      }
+      setRequests((current) => current.filter((r) => r.id !== request.id));
+      toast({
+        title: decision === "approve" ? "Request approved" : "Request denied",
+        description:
+          decision === "approve"
+            ? `${name} has joined the group`
+            : `${name} was not added to the group`,
+      });
+      if (decision === "approve") onApproved?.();
+    } catch (error) {
+      console.error("Failed to review join request:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to review join request",
+        variant: "destructive",
+      });
+      // Another admin may have reviewed it already
+      await loadRequests();
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <h3 className="text-sm font-semibold text-gray-900">
+        Requests to join ({requests.length})
+      </h3>
+      {requests.map((request) => (
+        <div
+          key={request.id}
+          className="flex items-center justify-between gap-3 p-3 border border-amber-200 bg-amber-50 rounded-lg"
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <Avatar className="h-8 w-8">
+              <AvatarImage src={request.user.avatar} />
+              <AvatarFallback>
+                {(request.user.name || request.user.email || "?").charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium truncate">
+                  {request.user.name || request.user.email || "Unknown user"}
+                </p>
+                <Badge variant="secondary">{ROLE_LABELS[request.role] ?? request.role}</Badge>
+              </div>
+              <p className="text-xs text-gray-500 truncate">
+                {request.user.name && request.user.email ? `${request.user.email} · ` : ""}
+                {request.viaInvite ? "Named invite" : "Group invite link"} ·{" "}
+                {formatDistanceToNow(new Date(request.createdAt), { addSuffix: true })}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-shrink-0 gap-1">
+            {reviewingId === request.id ? (
+              <Loader2 className="h-4 w-4 animate-spin m-2" />
+            ) : (
+              <>
+                <Button
+                  size="sm"
+                  onClick={() => review(request, "approve")}
+                  disabled={reviewingId !== null}
+                  title="Approve"
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => review(request, "deny")}
+                  disabled={reviewingId !== null}
+                  title="Deny"
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -32,6 +33,7 @@ import {
   Loader2,
 } from "lucide-react";
 import { groupsApi, Member } from "@/lib/api/groups";
+import { JoinRequestQueue } from "./JoinRequestQueue";
 
 interface MemberManagerProps {
   groupId: string;
@@ -44,6 +46,7 @@ export function MemberManager({
   currentUserId,
   isAdmin,
 }: MemberManagerProps) {
+  const router = useRouter();
   const [members, setMembers] = useState<Member[]>([]);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState<string | null>(null);
@@ -153,6 +156,24 @@ export function MemberManager({
     }
   };
 
+  // Leaving keeps your uploads; the group page's leave dialog offers deleting them
+  const leaveGroup = async (): Promise<void> => {
+    setUpdating(currentUserId);
+    try {
+      await groupsApi.leave(groupId, { uploads: "keep" });
+      router.push("/dashboard");
+    } catch (error) {
+      console.error("Failed to leave group:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to leave group",
+        variant: "destructive",
+      });
+      setUpdating(null);
+    }
+  };
+
   const getRoleIcon = (role: string) => {
     switch (role) {
       case "ADMIN":
@@ -194,6 +215,9 @@ export function MemberManager({
       </CardHeader>
 
       <CardContent>
+        {isAdmin && (
+          <JoinRequestQueue groupId={groupId} onApproved={loadMembers} className="mb-4" />
+        )}
         <div className="space-y-4">
           {members.map((member) => {
             const isCurrentUser = member.userId === currentUserId;
@@ -354,7 +378,11 @@ export function MemberManager({
                         </DialogHeader>
                         <div className="flex gap-2">
                           <Button
-                            onClick={() => removeMember(member.userId)}
+                            onClick={() =>
+                              isCurrentUser
+                                ? leaveGroup()
+                                : removeMember(member.userId)
+                            }
                             variant="destructive"
                             disabled={updating === member.userId}
                             className="flex-1"
@@ -24,6 +24,7 @@ import {
   Loader2,
 } from "lucide-react";
 import { groupsApi } from "@/lib/api/groups";
+import { mediaApi, DuplicateSet } from "@/lib/api/media";
 
 interface StorageAnalytics {
   totalStorage: number;
@@ -49,15 +50,8 @@ interface StorageAnalytics {
     createdAt: string;
     fileSize: number;
   }>;
-  duplicateCandidates?: Array<{
-    filename: string;
-    count: number;
-    totalSize: number;
-    items: Array<{
-      id: string;
-      createdAt: string;
-    }>;
-  }>;
+  duplicateSets?: DuplicateSet[];
+  duplicateReclaimableBytes?: number;
 }
 
 interface StorageManagerProps {
@@ -73,7 +67,10 @@ export function StorageManager({ groupId, isAdmin }: StorageManagerProps) {
 
   const loadAnalytics = async (): Promise<void> => {
     try {
-      const data = await groupsApi.getStorage(groupId);
+      const [data, duplicates] = await Promise.all([
+        groupsApi.getStorage(groupId),
+        isAdmin ? mediaApi.getDuplicates(groupId) : Promise.resolve(null),
+      ]);
       // Map backend StorageInfo to StorageAnalytics
       const analytics: StorageAnalytics = {
         totalStorage: data.limit,
@@ -87,7 +84,8 @@ export function StorageManager({ groupId, isAdmin }: StorageManagerProps) {
         },
         largestFiles: [], // Backend doesn't provide this yet
         oldestFiles: [], // Backend doesn't provide this yet
-        duplicateCandidates: [], // Backend doesn't provide this yet
+        duplicateSets: duplicates?.sets ?? [],
+        duplicateReclaimableBytes: duplicates?.reclaimableBytes ?? 0,
       };
       setAnalytics(analytics);
     } catch (error) {
@@ -264,7 +262,7 @@ export function StorageManager({ groupId, isAdmin }: StorageManagerProps) {
           <CardContent className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {/* Duplicates */}
-              {analytics.duplicateCandidates && analytics.duplicateCandidates.length > 0 && (
+              {analytics.duplicateSets && analytics.duplicateSets.length > 0 && (
                 <div className="p-4 border rounded-lg">
                   <div className="flex items-center justify-between mb-2">
                     <div className="flex items-center gap-2">
@@ -272,11 +270,12 @@ export function StorageManager({ groupId, isAdmin }: StorageManagerProps) {
                       <span className="font-medium">Duplicate Files</span>
                     </div>
                     <Badge variant="destructive">
-                      {analytics.duplicateCandidates.length} groups
+                      {analytics.duplicateSets.length} sets
                     </Badge>
                   </div>
                   <p className="text-sm text-gray-600 mb-3">
-                    Remove duplicate photos to save space
+                    Remove duplicate and near-identical photos to free{" "}
+                    {formatFileSize(analytics.duplicateReclaimableBytes || 0)}
                   </p>
                   <Dialog>
                     <DialogTrigger asChild>
@@ -288,27 +287,33 @@ export function StorageManager({ groupId, isAdmin }: StorageManagerProps) {
                       <DialogHeader>
                         <DialogTitle>Remove Duplicate Files</DialogTitle>
                         <DialogDescription>
-                          This will keep the newest copy of each duplicate file
+                          This will keep the highest resolution copy of each set
                           and remove the rest. This action cannot be undone.
                         </DialogDescription>
                       </DialogHeader>
                       <div className="space-y-4">
                         <div className="space-y-2">
-                          {analytics.duplicateCandidates
-                            .slice(0, 5)
-                            .map((dup, index) => (
-                              <div
-                                key={index}
-                                className="flex justify-between text-sm"
-                              >
-                                <span>{dup.filename}</span>
-                                <span>{dup.count} copies</span>
-                              </div>
-                            ))}
-                          {analytics.duplicateCandidates.length > 5 && (
+                          {analytics.duplicateSets.slice(0, 5).map((set) => (
+                            <div
+                              key={set.keeperId}
+                              className="flex items-center gap-3 text-sm"
+                            >
+                              <img
+                                src={set.media[0].thumbnailUrl}
+                                alt={set.media[0].originalName}
+                                className="h-10 w-10 rounded object-cover"
+                              />
+                              <span className="flex-1 truncate">
+                                {set.media[0].originalName}
+                              </span>
+                              <span className="text-gray-500">
+                                {set.media.length} {set.exact ? "copies" : "similar"}
+                              </span>
+                            </div>
+                          ))}
+                          {analytics.duplicateSets.length > 5 && (
                             <p className="text-xs text-gray-500">
-                              +{analytics.duplicateCandidates.length - 5} more
-                              groups
+                              +{analytics.duplicateSets.length - 5} more sets
                             </p>
                           )}
                         </div>
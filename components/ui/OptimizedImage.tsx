@@ -3,10 +3,15 @@
 import { useState } from "react";
 import { useImageLazyLoading } from "@/lib/hooks/useImageLazyLoading";
 import { Loader2 } from "lucide-react";
+import { MediaDerivativeUrls } from "@/lib/api/media";
 
 interface OptimizedImageProps {
   src: string;
   alt: string;
+  // Downscaled copies the browser picks from, falling back to src
+  derivatives?: MediaDerivativeUrls;
+  // Rendered width of the image, e.g. "(min-width: 1024px) 25vw, 50vw"
+  sizes?: string;
   className?: string;
   fallbackSrc?: string;
   placeholder?: React.ReactNode;
@@ -14,9 +19,26 @@ interface OptimizedImageProps {
   onError?: () => void;
 }
 
+/**
+ * Build a srcset with one width descriptor per derivative
+ */
+function buildSrcSet(
+  derivatives: MediaDerivativeUrls,
+  format: "webp" | "avif"
+): string {
+  return Object.values(derivatives)
+    .filter(
+      (derivative): derivative is NonNullable<typeof derivative> => !!derivative
+    )
+    .map((derivative) => `${derivative[format]} ${derivative.width}w`)
+    .join(", ");
+}
+
 export function OptimizedImage({
   src,
   alt,
+  derivatives,
+  sizes = "100vw",
   className = "",
   fallbackSrc,
   placeholder,
@@ -26,6 +48,8 @@ export function OptimizedImage({
   const [error, setError] = useState(false);
   const { imgRef, shouldLoad, isLoaded, handleLoad, handleError } =
     useImageLazyLoading();
+  const hasDerivatives =
+    !!derivatives && Object.values(derivatives).some(Boolean);
 
   const handleImageLoad = (): void => {
     handleLoad();
@@ -42,17 +66,33 @@ export function OptimizedImage({
     <div ref={imgRef} className={`relative overflow-hidden ${className}`}>
       {shouldLoad && !error ? (
         <>
-          <img
-            src={src}
-            alt={alt}
-            className={`w-full h-full object-cover transition-opacity duration-300 ${
-              isLoaded ? "opacity-100" : "opacity-0"
-            }`}
-            onLoad={handleImageLoad}
-            onError={handleImageError}
-            loading="lazy"
-            decoding="async"
-          />
+          <picture className="block w-full h-full">
+            {derivatives && hasDerivatives && (
+              <>
+                <source
+                  type="image/avif"
+                  srcSet={buildSrcSet(derivatives, "avif")}
+                  sizes={sizes}
+                />
+                <source
+                  type="image/webp"
+                  srcSet={buildSrcSet(derivatives, "webp")}
+                  sizes={sizes}
+                />
+              </>
+            )}
+            <img
+              src={src}
+              alt={alt}
+              className={`w-full h-full object-cover transition-opacity duration-300 ${
+                isLoaded ? "opacity-100" : "opacity-0"
+              }`}
+              onLoad={handleImageLoad}
+              onError={handleImageError}
+              loading="lazy"
+              decoding="async"
+            />
+          </picture>
           {!isLoaded && (
             <div className="absolute inset-0 flex items-center justify-center bg-gray-100">
               {placeholder || (
@@ -0,0 +1,57 @@
+import { api } from "./client";
+
+export type ActivityType =
+  | "GROUP_CREATED"
+  | "MEMBER_JOINED"
+  | "MEMBER_LEFT"
+  | "MEDIA_UPLOADED"
+  | "MEDIA_DELETED"
+  | "CLUSTER_NAMED"
+  | "CLUSTERS_MERGED"
+  | "SHARE_CREATED"
+  | "COMMENT_ADDED"
+  | "COMMENT_REMOVED"
+  | "MEDIA_REACTED";
+
+export interface Activity {
+  id: string;
+  type: ActivityType;
+  user: {
+    id: string; // Clerk user ID
+    name?: string;
+    email?: string;
+    avatar?: string;
+  };
+  title: string; // e.g. "Sam uploaded 34 photos"
+  description?: string;
+  count: number; // Activities combined into this entry
+  metadata: Record<string, unknown>;
+  createdAt: string; // Newest activity in the entry
+  startedAt: string; // Oldest activity in the entry
+}
+
+export interface ActivityPage {
+  activities: Activity[];
+  nextCursor?: string;
+  hasMore: boolean;
+}
+
+export const activitiesApi = {
+  /**
+   * List a group's activity feed, newest first
+   * @param cursor - nextCursor of the previous page
+   */
+  list: async (
+    groupId: string,
+    limit: number = 20,
+    cursor?: string
+  ): Promise<ActivityPage> => {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (cursor) params.set("cursor", cursor);
+
+    const response = await api.get<{ success: boolean; data: ActivityPage }>(
+      `/groups/${groupId}/activities?${params.toString()}`
+    );
+    return response.data;
+  },
+};
@@ -0,0 +1,133 @@
+import { api } from "./client";
+import { MediaWithFaceInfo } from "./clusters";
+
+// A named, ordered selection of a group's media
+export interface Album {
+  id: string;
+  groupId: string;
+  name: string;
+  description?: string;
+  createdBy: string;
+  mediaCount: number;
+  coverMediaId?: string;
+  coverUrl?: string;
+  canManage: boolean; // Album creator or group admin
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlbumMediaResult {
+  media: MediaWithFaceInfo[]; // In album order
+  album: {
+    id: string;
+    name: string;
+    description?: string;
+    mediaCount: number;
+  };
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface AlbumUpdateData {
+  name?: string;
+  description?: string;
+  coverMediaId?: string | null; // null goes back to the first item
+}
+
+interface AlbumResponse {
+  success: boolean;
+  data: Album;
+  message?: string;
+}
+
+export const albumsApi = {
+  /**
+   * List a group's albums
+   */
+  listByGroup: async (groupId: string): Promise<Album[]> => {
+    const response = await api.get<{ success: boolean; data: Album[] }>(
+      `/groups/${groupId}/albums`
+    );
+    return response.data;
+  },
+
+  /**
+   * Create an album, optionally with media in the given order
+   */
+  create: async (
+    groupId: string,
+    name: string,
+    mediaIds?: string[]
+  ): Promise<Album> => {
+    const response = await api.post<AlbumResponse>(`/groups/${groupId}/albums`, {
+      name,
+      mediaIds,
+    });
+    return response.data;
+  },
+
+  /**
+   * Rename an album, edit its description or pick its cover
+   */
+  update: async (albumId: string, data: AlbumUpdateData): Promise<Album> => {
+    const response = await api.patch<AlbumResponse>(`/albums/${albumId}`, data);
+    return response.data;
+  },
+
+  /**
+   * Delete an album (its photos stay in the group)
+   */
+  delete: async (albumId: string): Promise<void> => {
+    await api.delete(`/albums/${albumId}`);
+  },
+
+  /**
+   * Get an album's media in album order
+   */
+  getMedia: async (
+    albumId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<AlbumMediaResult> => {
+    const response = await api.get<{ success: boolean; data: AlbumMediaResult }>(
+      `/albums/${albumId}/media?page=${page}&limit=${limit}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Add media to the end of an album
+   */
+  addMedia: async (albumId: string, mediaIds: string[]): Promise<Album> => {
+    const response = await api.post<AlbumResponse>(`/albums/${albumId}/media`, {
+      mediaIds,
+    });
+    return response.data;
+  },
+
+  /**
+   * Take media out of an album
+   */
+  removeMedia: async (albumId: string, mediaIds: string[]): Promise<Album> => {
+    const response = await api.post<AlbumResponse>(
+      `/albums/${albumId}/media/remove`,
+      { mediaIds }
+    );
+    return response.data;
+  },
+
+  /**
+   * Save a new order for all of an album's media
+   */
+  reorder: async (albumId: string, mediaIds: string[]): Promise<Album> => {
+    const response = await api.put<AlbumResponse>(
+      `/albums/${albumId}/media/order`,
+      { mediaIds }
+    );
+    return response.data;
+  },
+};
@@ -9,8 +9,19 @@ export interface ClusterWithSample {
   createdAt: Date | string;
   samplePhoto?: {
     thumbnailUrl: string;
+    faceDetectionId?: string;
+    // True when the cover was pinned rather than picked automatically
+    pinned?: boolean;
   };
   totalPhotos: number;
+  // Group member this person has been claimed as or linked to
+  linkedUser?: LinkedMember;
+}
+
+export interface LinkedMember {
+  id: string;
+  name?: string;
+  avatar?: string;
 }
 
 // Alias for convenience
@@ -25,6 +36,22 @@ export interface FaceDetection {
     height: number;
   };
   confidence: number;
+  timestampSeconds?: number; // Where the face appears in a video
+}
+
+export interface UnassignedFace {
+  id: string;
+  mediaId: string;
+  boundingBox: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+  confidence: number;
+  qualityScore?: number;
+  thumbnailUrl?: string;
+  createdAt: Date | string;
 }
 
 export interface MediaWithFaceInfo extends Media {
@@ -67,6 +94,33 @@ export interface ClusterResponse {
   message?: string;
 }
 
+export interface ClusterFace {
+  id: string;
+  mediaId: string;
+  confidence: number;
+  qualityScore?: number;
+  thumbnailUrl?: string;
+}
+
+export interface MoveFacesResult {
+  sourceCluster: ClusterWithSample | null;
+  targetCluster: ClusterWithSample;
+  movedCount: number;
+}
+
+export interface SelfieClusterMatch {
+  id: string;
+  clusterName?: string;
+  appearanceCount: number;
+  matchedFaces: number;
+  similarity: number;
+}
+
+export interface SelfieSearchResult {
+  clusters: SelfieClusterMatch[];
+  media: MediaWithFaceInfo[];
+}
+
 // Cluster API functions
 export const clustersApi = {
   /**
@@ -124,4 +178,117 @@ export const clustersApi = {
     const response = await api.post<ClusterResponse>(`/clusters/${sourceClusterId}/merge/${targetClusterId}`);
     return response.data;
   },
+  /**
+   * List faces in a group that are not assigned to any person
+   */
+  listUnassignedFaces: async (groupId: string): Promise<UnassignedFace[]> => {
+    const response = await api.get<{ success: boolean; data: UnassignedFace[] }>(
+      `/groups/${groupId}/faces/unassigned`
+    );
+    return response.data;
+  },
+
+  /**
+   * Assign an unassigned face to an existing cluster
+   */
+  assignFace: async (groupId: string, faceDetectionId: string, clusterId: string): Promise<void> => {
+    await api.post(`/groups/${groupId}/faces/${faceDetectionId}/assign`, { clusterId });
+  },
+
+  /**
+   * Create a new cluster from an unassigned face
+   */
+  promoteFace: async (groupId: string, faceDetectionId: string, clusterName?: string): Promise<ClusterWithSample> => {
+    const response = await api.post<ClusterResponse>(
+      `/groups/${groupId}/faces/${faceDetectionId}/promote`,
+      { clusterName }
+    );
+    return response.data;
+  },
+
+  /**
+   * List the individual faces of a cluster
+   */
+  getClusterFaces: async (clusterId: string): Promise<ClusterFace[]> => {
+    const response = await api.get<{ success: boolean; data: ClusterFace[] }>(
+      `/clusters/${clusterId}/faces`
+    );
+    return response.data;
+  },
+
+  /**
+   * Move selected faces to another cluster
+   * @param sourceClusterId - Cluster the faces currently belong to
+   * @param faceDetectionIds - Faces to move
+   * @param targetClusterId - Cluster to move the faces INTO
+   */
+  moveFaces: async (
+    sourceClusterId: string,
+    faceDetectionIds: string[],
+    targetClusterId: string
+  ): Promise<MoveFacesResult> => {
+    const response = await api.post<{ success: boolean; data: MoveFacesResult }>(
+      `/clusters/${sourceClusterId}/faces/move`,
+      { faceDetectionIds, targetClusterId }
+    );
+    return response.data;
+  },
+
+  /**
+   * Split selected faces out of a cluster into a new cluster
+   */
+  splitCluster: async (
+    clusterId: string,
+    faceDetectionIds: string[],
+    clusterName?: string
+  ): Promise<MoveFacesResult> => {
+    const response = await api.post<{ success: boolean; data: MoveFacesResult }>(
+      `/clusters/${clusterId}/split`,
+      { faceDetectionIds, clusterName }
+    );
+    return response.data;
+  },
+
+  /**
+   * Find clusters and photos matching a selfie
+   * The selfie is only used for the search and is not stored
+   */
+  searchBySelfie: async (groupId: string, selfie: File): Promise<SelfieSearchResult> => {
+    const formData = new FormData();
+    formData.append("selfie", selfie);
+
+    const response = await api.upload<{ success: boolean; data: SelfieSearchResult }>(
+      `/groups/${groupId}/faces/search`,
+      formData
+    );
+    return response.data;
+  },
+
+  /**
+   * Claim a cluster as the current user ("This is me")
+   */
+  claimCluster: async (clusterId: string): Promise<void> => {
+    await api.post(`/clusters/${clusterId}/claim`);
+  },
+
+  /**
+   * Remove the current user's claim on a cluster
+   */
+  unclaimCluster: async (clusterId: string): Promise<void> => {
+    await api.delete(`/clusters/${clusterId}/claim`);
+  },
+
+  /**
+   * Link a cluster to a group member, or unlink it with null (admin only)
+   */
+  linkCluster: async (clusterId: string, memberUserId: string | null): Promise<void> => {
+    await api.put(`/clusters/${clusterId}/link`, { memberUserId });
+  },
+
+  /**
+   * Pin a face as the cluster's cover, or pass null to pick it automatically again
+   */
+  pinCover: async (clusterId: string, faceDetectionId: string | null): Promise<void> => {
+    await api.put(`/clusters/${clusterId}/cover`, { faceDetectionId });
+  },
 };
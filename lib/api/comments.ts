@@ -0,0 +1,92 @@
+import { api } from "./client";
+
+// Same set the server accepts
+export const REACTION_EMOJIS = ["❤️", "😂", "😮", "😢", "👍", "🔥"];
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reacted: boolean; // Whether the current user left this reaction
+}
+
+export interface Comment {
+  id: string;
+  mediaId: string;
+  authorId: string; // Clerk user ID
+  body: string; // Empty once deleted
+  parentId?: string; // Replies point at a top-level comment
+  editedAt?: string;
+  isDeleted: boolean; // Kept as a placeholder while it has replies
+  removedByAdmin: boolean;
+  createdAt: string;
+}
+
+export interface MediaComments {
+  comments: Comment[]; // Oldest first
+  reactions: ReactionSummary[];
+}
+
+interface CommentResponse {
+  success: boolean;
+  data: Comment;
+  message?: string;
+}
+
+export const commentsApi = {
+  /**
+   * List comments and reactions on a media item
+   */
+  list: async (mediaId: string): Promise<MediaComments> => {
+    const response = await api.get<{ success: boolean; data: MediaComments }>(
+      `/media/${mediaId}/comments`
+    );
+    return response.data;
+  },
+
+  /**
+   * Comment on a media item, or reply to a comment
+   */
+  add: async (
+    mediaId: string,
+    body: string,
+    parentId?: string
+  ): Promise<Comment> => {
+    const response = await api.post<CommentResponse>(
+      `/media/${mediaId}/comments`,
+      { body, parentId }
+    );
+    return response.data;
+  },
+
+  /**
+   * Edit your own comment
+   */
+  update: async (commentId: string, body: string): Promise<Comment> => {
+    const response = await api.patch<CommentResponse>(`/comments/${commentId}`, {
+      body,
+    });
+    return response.data;
+  },
+
+  /**
+   * Delete a comment (author or group admin)
+   */
+  delete: async (commentId: string): Promise<void> => {
+    await api.delete(`/comments/${commentId}`);
+  },
+
+  /**
+   * Add an emoji reaction, or take it back if already left
+   * Returns the media's reaction counts after the change
+   */
+  toggleReaction: async (
+    mediaId: string,
+    emoji: string
+  ): Promise<ReactionSummary[]> => {
+    const response = await api.post<{ success: boolean; data: ReactionSummary[] }>(
+      `/media/${mediaId}/reactions`,
+      { emoji }
+    );
+    return response.data;
+  },
+};
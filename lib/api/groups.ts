@@ -7,6 +7,17 @@ export interface CreateGroupData {
   autoDeleteDays?: number;
 }
 
+export interface ClusteringSettings {
+  similarityThreshold: number;
+  minClusterSize: number;
+  qualityThreshold: number;
+}
+
+export interface UpdateGroupData extends Partial<CreateGroupData> {
+  clusteringSettings?: Partial<ClusteringSettings>;
+  requireApproval?: boolean;
+}
+
 export interface JoinGroupData {
   inviteCode: string;
 }
@@ -36,6 +47,8 @@ export interface Group {
   storageUsed: number;
   autoDeleteDays: number;
   rekognitionCollectionId?: string;
+  clusteringSettings?: ClusteringSettings;
+  requireApproval?: boolean; // Joining with a code needs an admin's approval
   mediaCount?: number;
   createdAt: Date;
   updatedAt: Date;
@@ -81,6 +94,100 @@ export interface Member {
   joinedAt: Date;
 }
 
+export type InviteRole = 'MEMBER' | 'VIEWER';
+
+export type InviteStatus = 'active' | 'expired' | 'exhausted' | 'revoked';
+
+export interface GroupInvite {
+  id: string;
+  groupId: string;
+  code: string;
+  label?: string;
+  role: InviteRole;
+  createdBy: string;
+  expiresAt?: string;
+  maxUses?: number;
+  useCount: number;
+  remainingUses?: number;
+  status: InviteStatus;
+  usedBy: Array<{
+    id: string;
+    name?: string;
+    email?: string;
+    usedAt: string;
+  }>;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+export interface CreateInviteData {
+  role: InviteRole;
+  label?: string;
+  expiresAt?: string;
+  maxUses?: number;
+}
+
+/**
+ * What an invite code grants, shown before joining
+ */
+export interface InvitePreview {
+  code: string;
+  groupName: string;
+  groupDescription?: string;
+  memberCount: number;
+  role: string;
+  label?: string;
+  expiresAt?: string;
+  remainingUses?: number;
+  status: InviteStatus;
+  requireApproval: boolean;
+}
+
+/**
+ * A request to join a group that requires approval, as seen by the requester
+ */
+export interface PendingJoinRequest {
+  id: string;
+  groupId: string;
+  groupName: string;
+  role: InviteRole;
+  status: 'pending';
+  createdAt: string;
+}
+
+export type JoinGroupResult =
+  | { status: 'joined'; group: Group }
+  | { status: 'pending'; request: PendingJoinRequest };
+
+/**
+ * A request waiting in the admins' queue
+ */
+export interface JoinRequest {
+  id: string;
+  groupId: string;
+  userId: string; // Clerk user ID
+  user: {
+    name?: string;
+    email?: string;
+    avatar?: string;
+  };
+  role: InviteRole;
+  viaInvite: boolean;
+  createdAt: string;
+}
+
+export interface LeaveGroupData {
+  uploads: 'keep' | 'delete';
+  newOwnerId?: string;
+}
+
+export interface LeaveGroupResult {
+  deletedCount: number;
+  freedSpace: number;
+  newOwnerId?: string;
+}
+
 export interface MembersResponse {
   success: boolean;
   data: Member[];
@@ -98,9 +205,25 @@ export const groupsApi = {
 
   /**
    * Join a group using invite code
+   * Groups that require approval return a pending request instead
+   */
+  join: async (inviteCode: string): Promise<JoinGroupResult> => {
+    const response = await api.post<{ success: boolean; data: Group | PendingJoinRequest }>(
+      '/groups/join',
+      { inviteCode }
+    );
+    return 'status' in response.data
+      ? { status: 'pending', request: response.data }
+      : { status: 'joined', group: response.data };
+  },
+
+  /**
+   * Describe what an invite code grants (works before signing in)
    */
-  join: async (inviteCode: string): Promise<Group> => {
-    const response = await api.post<GroupResponse>('/groups/join', { inviteCode });
+  getInvitePreview: async (inviteCode: string): Promise<InvitePreview> => {
+    const response = await api.get<{ success: boolean; data: InvitePreview }>(
+      `/public/invites/${encodeURIComponent(inviteCode)}`
+    );
     return response.data;
   },
 
@@ -122,7 +245,7 @@ export const groupsApi = {
   /**
    * Update group details
    */
-  update: async (groupId: string, data: Partial<CreateGroupData>): Promise<Group> => {
+  update: async (groupId: string, data: UpdateGroupData): Promise<Group> => {
     const response = await api.put<GroupResponse>(`/groups/${groupId}`, data);
     return response.data;
   },
@@ -168,6 +291,95 @@ export const groupsApi = {
     await api.delete(`/groups/${groupId}/members/${memberId}`);
   },
 
+  /**
+   * Leave a group, keeping or deleting the photos you uploaded
+   * The owner has to name a new owner unless they are the only member
+   */
+  leave: async (groupId: string, data: LeaveGroupData): Promise<LeaveGroupResult> => {
+    const response = await api.post<{ success: boolean; data: LeaveGroupResult }>(
+      `/groups/${groupId}/leave`,
+      data
+    );
+    return response.data;
+  },
+
+  /**
+   * Hand the group to another admin (owner only)
+   */
+  transferOwnership: async (groupId: string, newOwnerId: string): Promise<Group> => {
+    const response = await api.post<GroupResponse>(
+      `/groups/${groupId}/transfer-ownership`,
+      { newOwnerId }
+    );
+    return response.data;
+  },
+
+  /**
+   * List a group's named invites (admin only)
+   */
+  listInvites: async (groupId: string): Promise<GroupInvite[]> => {
+    const response = await api.get<{ success: boolean; data: GroupInvite[] }>(
+      `/groups/${groupId}/invites`
+    );
+    return response.data;
+  },
+
+  /**
+   * Create a named invite with its own code, role, expiry and use limit
+   */
+  createInvite: async (groupId: string, data: CreateInviteData): Promise<GroupInvite> => {
+    const response = await api.post<{ success: boolean; data: GroupInvite }>(
+      `/groups/${groupId}/invites`,
+      data
+    );
+    return response.data;
+  },
+
+  /**
+   * Revoke a named invite; members who joined with it keep access
+   */
+  revokeInvite: async (groupId: string, inviteId: string): Promise<GroupInvite> => {
+    const response = await api.delete<{ success: boolean; data: GroupInvite }>(
+      `/groups/${groupId}/invites/${inviteId}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Replace the group's permanent invite code, the old code stops working
+   */
+  regenerateInviteCode: async (groupId: string): Promise<string> => {
+    const response = await api.post<{ success: boolean; data: { inviteCode: string } }>(
+      `/groups/${groupId}/invite-code/regenerate`,
+      {}
+    );
+    return response.data.inviteCode;
+  },
+
+  /**
+   * List requests waiting for approval (admin only)
+   */
+  listJoinRequests: async (groupId: string): Promise<JoinRequest[]> => {
+    const response = await api.get<{ success: boolean; data: JoinRequest[] }>(
+      `/groups/${groupId}/join-requests`
+    );
+    return response.data;
+  },
+
+  /**
+   * Approve a request, adding the requester to the group
+   */
+  approveJoinRequest: async (groupId: string, requestId: string): Promise<void> => {
+    await api.post(`/groups/${groupId}/join-requests/${requestId}/approve`, {});
+  },
+
+  /**
+   * Deny a request
+   */
+  denyJoinRequest: async (groupId: string, requestId: string): Promise<void> => {
+    await api.post(`/groups/${groupId}/join-requests/${requestId}/deny`, {});
+  },
+
   /**
    * Trigger face reclustering for a group
    */
@@ -0,0 +1,98 @@
+import { api } from "./client";
+import { Group, InviteRole } from "./groups";
+
+export interface EmailInvitation {
+  id: string;
+  groupId: string;
+  email: string;
+  role: InviteRole;
+  status: "pending" | "expired";
+  invitedBy: string; // Clerk user ID
+  sendCount: number;
+  lastSentAt: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface SendEmailInvitationsResult {
+  invitations: EmailInvitation[];
+  skipped: Array<{ email: string; reason: string }>;
+}
+
+/**
+ * What an emailed invitation grants, shown on the page its link opens
+ */
+export interface EmailInvitationPreview {
+  email: string;
+  groupName: string;
+  groupDescription?: string;
+  memberCount: number;
+  inviterName: string;
+  role: InviteRole;
+  status: "pending" | "expired" | "accepted" | "cancelled";
+  expiresAt: string;
+}
+
+export const invitationsApi = {
+  /**
+   * List a group's pending email invitations (admin only)
+   */
+  list: async (groupId: string): Promise<EmailInvitation[]> => {
+    const response = await api.get<{ success: boolean; data: EmailInvitation[] }>(
+      `/groups/${groupId}/email-invitations`
+    );
+    return response.data;
+  },
+
+  /**
+   * Invite people by email; addresses already invited or in the group are skipped
+   */
+  send: async (
+    groupId: string,
+    emails: string[],
+    role: InviteRole
+  ): Promise<SendEmailInvitationsResult> => {
+    const response = await api.post<{ success: boolean; data: SendEmailInvitationsResult }>(
+      `/groups/${groupId}/email-invitations`,
+      { emails, role }
+    );
+    return response.data;
+  },
+
+  /**
+   * Email a pending invitation again with a new link
+   */
+  resend: async (groupId: string, invitationId: string): Promise<EmailInvitation> => {
+    const response = await api.post<{ success: boolean; data: EmailInvitation }>(
+      `/groups/${groupId}/email-invitations/${invitationId}/resend`
+    );
+    return response.data;
+  },
+
+  /**
+   * Cancel a pending invitation so its link stops working
+   */
+  cancel: async (groupId: string, invitationId: string): Promise<void> => {
+    await api.delete(`/groups/${groupId}/email-invitations/${invitationId}`);
+  },
+
+  /**
+   * Describe an invitation from its token (works before signing in)
+   */
+  getPreview: async (token: string): Promise<EmailInvitationPreview> => {
+    const response = await api.get<{ success: boolean; data: EmailInvitationPreview }>(
+      `/public/invitations/${encodeURIComponent(token)}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Join the group an invitation was sent for
+   */
+  accept: async (token: string): Promise<Group> => {
+    const response = await api.post<{ success: boolean; data: Group }>(
+      `/invitations/${encodeURIComponent(token)}/accept`
+    );
+    return response.data;
+  },
+};
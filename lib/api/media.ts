@@ -1,4 +1,5 @@
 import { api } from "./client";
+import { ReactionSummary } from "./comments";
 
 /**
  * Bulk download multiple media files as a ZIP archive
@@ -13,6 +14,16 @@ interface ClerkWindow extends Window {
   };
 }
 
+export type DerivativeSize = "thumb" | "medium" | "large";
+
+// Downscaled WebP/AVIF copies of a photo or video poster
+export type MediaDerivativeUrls = Partial<
+  Record<
+    DerivativeSize,
+    { webp: string; avif: string; width: number; height: number }
+  >
+>;
+
 export interface Media {
   id: string;
   groupId: string;
@@ -25,7 +36,30 @@ export interface Media {
   mimeType: string;
   fileSize: number;
   isProcessed: boolean;
-  processingStatus?: "pending" | "processing" | "completed" | "failed";
+  processingStatus?: "pending" | "processing" | "done" | "failed";
+  processingAttempts?: number;
+  lastError?: string;
+  mediaType?: "image" | "video";
+  durationSeconds?: number;
+  posterUrl?: string; // Poster frame of a video
+  derivativeUrls?: MediaDerivativeUrls; // Missing until generated after upload
+  originalMimeType?: string; // Set for HEIC/RAW uploads that were converted to JPEG
+  width?: number;
+  height?: number;
+  takenAt?: Date | string; // Capture time from EXIF or video metadata
+  cameraMake?: string;
+  cameraModel?: string;
+  location?: {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+  };
+  caption?: string;
+  tags?: string[];
+  commentCount?: number; // Gallery lists only
+  reactions?: ReactionSummary[]; // Gallery lists only
+  isFavorite?: boolean; // Gallery lists only, starred by the current user
+  isHighlight?: boolean; // Gallery lists only
   faceCount?: number;
   metadata?: {
     width?: number;
@@ -37,6 +71,9 @@ export interface Media {
   presignedUrl?: string;
 }
 
+// HEIC/RAW uploads can be downloaded as uploaded or as converted JPEG
+export type DownloadVariant = "original" | "converted";
+
 export interface MediaListResponse {
   success: boolean;
   data: Media[];
@@ -57,10 +94,100 @@ export interface MediaResponse {
 export interface UploadMediaResponse {
   success: boolean;
   data: Media[];
+  // Exact copies of media already in the group, skipped instead of uploaded
+  duplicates?: Array<{
+    originalName: string;
+    existingMediaId?: string;
+  }>;
   jobId: string;
   message?: string;
 }
 
+export interface DuplicateSet {
+  keeperId: string; // Suggested copy to keep, listed first in media
+  exact: boolean;
+  reclaimableBytes: number;
+  media: Array<{
+    id: string;
+    originalName: string;
+    fileSize: number;
+    width?: number;
+    height?: number;
+    mediaType?: "image" | "video";
+    createdAt: string;
+    thumbnailUrl: string;
+  }>;
+}
+
+export interface DuplicatesResponse {
+  success: boolean;
+  data: {
+    sets: DuplicateSet[];
+    reclaimableBytes: number;
+  };
+}
+
+export interface MediaSearchFilters {
+  query?: string; // Matches caption, tags and filename
+  tags?: string[]; // Media must have every tag
+  uploaderId?: string;
+  clusterId?: string;
+  taken?: { from: Date; to: Date };
+}
+
+export interface MediaAnnotations {
+  caption?: string;
+  tags?: string[];
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+interface TagsResponse {
+  success: boolean;
+  data: TagCount[];
+}
+
+interface UpdateAnnotationsResponse {
+  success: boolean;
+  data: { id: string; caption?: string; tags: string[] };
+  message: string;
+}
+
+// Media ranked as a likely highlight, with why it was suggested
+export interface HighlightSuggestion {
+  media: Media;
+  score: number;
+  favoriteCount: number;
+  people: string[]; // Named people in the photo
+  bestFaceQuality?: number;
+}
+
+interface HighlightSuggestionsResponse {
+  success: boolean;
+  data: HighlightSuggestion[];
+}
+
+export interface BackfillDerivativesResponse {
+  success: boolean;
+  data: {
+    jobIds: string[];
+    queuedCount: number;
+  };
+  message?: string;
+}
+
+export interface ReprocessMediaResponse {
+  success: boolean;
+  data: {
+    requeuedCount: number;
+  };
+  jobId: string | null;
+  message?: string;
+}
+
 export interface DownloadUrlResponse {
   success: boolean;
   data: {
@@ -103,15 +230,168 @@ export const mediaApi = {
   },
 
   /**
-   * List media for a group
+   * List media for a group, newest capture time first
+   * @param taken - Only media taken within this range
    */
   listByGroup: async (
     groupId: string,
     page: number = 1,
+    limit: number = 20,
+    taken?: { from: Date; to: Date }
+  ): Promise<MediaListResponse> => {
+    const range = taken
+      ? `&takenFrom=${taken.from.toISOString()}&takenTo=${taken.to.toISOString()}`
+      : "";
+    return api.get<MediaListResponse>(
+      `/groups/${groupId}/media?page=${page}&limit=${limit}${range}`
+    );
+  },
+
+  /**
+   * Search media by caption, tags and filename, combined with the gallery filters
+   * Text matches come back most relevant first
+   */
+  search: async (
+    groupId: string,
+    filters: MediaSearchFilters,
+    page: number = 1,
     limit: number = 20
   ): Promise<MediaListResponse> => {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    if (filters.query) params.set("q", filters.query);
+    if (filters.tags?.length) params.set("tags", filters.tags.join(","));
+    if (filters.uploaderId) params.set("uploaderId", filters.uploaderId);
+    if (filters.clusterId) params.set("clusterId", filters.clusterId);
+    if (filters.taken) {
+      params.set("takenFrom", filters.taken.from.toISOString());
+      params.set("takenTo", filters.taken.to.toISOString());
+    }
+
     return api.get<MediaListResponse>(
-      `/groups/${groupId}/media?page=${page}&limit=${limit}`
+      `/groups/${groupId}/media/search?${params.toString()}`
+    );
+  },
+
+  /**
+   * Tags used in a group, most used first
+   * @param prefix - Only tags starting with this, for autocomplete
+   */
+  listTags: async (groupId: string, prefix?: string): Promise<TagCount[]> => {
+    const query = prefix ? `?q=${encodeURIComponent(prefix)}` : "";
+    const response = await api.get<TagsResponse>(
+      `/groups/${groupId}/media/tags${query}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Set the caption and tags of a media item (uploader or admin)
+   * An empty caption clears it
+   */
+  updateAnnotations: async (
+    mediaId: string,
+    annotations: MediaAnnotations
+  ): Promise<UpdateAnnotationsResponse["data"]> => {
+    const response = await api.patch<UpdateAnnotationsResponse>(
+      `/media/${mediaId}`,
+      annotations
+    );
+    return response.data;
+  },
+
+  /**
+   * Star or unstar a media item for the current user
+   */
+  setFavorite: async (mediaId: string, favorite: boolean): Promise<void> => {
+    if (favorite) {
+      await api.put(`/media/${mediaId}/favorite`);
+    } else {
+      await api.delete(`/media/${mediaId}/favorite`);
+    }
+  },
+
+  /**
+   * Add a media item to the group's highlights or take it out (admin only)
+   */
+  setHighlight: async (mediaId: string, highlighted: boolean): Promise<void> => {
+    if (highlighted) {
+      await api.put(`/media/${mediaId}/highlight`);
+    } else {
+      await api.delete(`/media/${mediaId}/highlight`);
+    }
+  },
+
+  /**
+   * List the media the current user starred in a group, most recently starred first
+   */
+  listFavorites: async (
+    groupId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<MediaListResponse> => {
+    return api.get<MediaListResponse>(
+      `/groups/${groupId}/media/favorites?page=${page}&limit=${limit}`
+    );
+  },
+
+  /**
+   * List the group's highlights, most recently picked first
+   */
+  listHighlights: async (
+    groupId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<MediaListResponse> => {
+    return api.get<MediaListResponse>(
+      `/groups/${groupId}/media/highlights?page=${page}&limit=${limit}`
+    );
+  },
+
+  /**
+   * Media ranked by stars, named people and face quality (admin only)
+   */
+  suggestHighlights: async (
+    groupId: string,
+    limit: number = 20
+  ): Promise<HighlightSuggestion[]> => {
+    const response = await api.get<HighlightSuggestionsResponse>(
+      `/groups/${groupId}/media/highlights/suggested?limit=${limit}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Requeue face detection for failed or stuck media
+   * @param mediaIds - Limit to these items, otherwise every failed or stuck item in the group
+   */
+  reprocess: async (
+    groupId: string,
+    mediaIds?: string[]
+  ): Promise<ReprocessMediaResponse> => {
+    return api.post<ReprocessMediaResponse>(
+      `/groups/${groupId}/media/reprocess`,
+      { mediaIds }
+    );
+  },
+
+  /**
+   * List exact and near-duplicate sets in a group (admin only)
+   */
+  getDuplicates: async (groupId: string): Promise<DuplicatesResponse["data"]> => {
+    const response = await api.get<DuplicatesResponse>(
+      `/groups/${groupId}/media/duplicates`
+    );
+    return response.data;
+  },
+
+  /**
+   * Queue thumbnail, medium and large copies for media uploaded before they existed
+   */
+  backfillDerivatives: async (
+    groupId: string
+  ): Promise<BackfillDerivativesResponse> => {
+    return api.post<BackfillDerivativesResponse>(
+      `/groups/${groupId}/media/derivatives/backfill`
     );
   },
 
@@ -133,8 +413,12 @@ export const mediaApi = {
   /**
    * Get download URL for media
    */
-  getDownloadUrl: async (mediaId: string): Promise<DownloadUrlResponse> => {
-    return api.get<DownloadUrlResponse>(`/media/${mediaId}/download`);
+  getDownloadUrl: async (
+    mediaId: string,
+    variant?: DownloadVariant
+  ): Promise<DownloadUrlResponse> => {
+    const query = variant ? `?variant=${variant}` : "";
+    return api.get<DownloadUrlResponse>(`/media/${mediaId}/download${query}`);
   },
 
   /**
@@ -148,7 +432,11 @@ export const mediaApi = {
 
   // ...
 
-  bulkDownload: async (groupId: string, mediaIds: string[]): Promise<void> => {
+  bulkDownload: async (
+    groupId: string,
+    mediaIds: string[],
+    variant?: DownloadVariant
+  ): Promise<void> => {
     // Get the base URL from the API client (already includes /api)
     const baseURL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5001/api";
     const token = await (window as ClerkWindow).Clerk?.session?.getToken();
@@ -162,7 +450,7 @@ export const mediaApi = {
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify({ mediaIds }),
+        body: JSON.stringify({ mediaIds, variant }),
       }
     );
 
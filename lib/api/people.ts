@@ -0,0 +1,110 @@
+import { api } from "./client";
+import { MediaWithFaceInfo } from "./clusters";
+
+export interface PersonCluster {
+  clusterId: string;
+  clusterName?: string;
+  appearanceCount: number;
+  groupId: string;
+  groupName: string;
+}
+
+// A user-owned person linking face clusters across groups
+export interface Person {
+  id: string;
+  name: string;
+  clusters: PersonCluster[];
+  thumbnailUrl?: string;
+  createdAt: string;
+}
+
+export interface PersonMedia extends MediaWithFaceInfo {
+  groupName: string;
+}
+
+export interface PersonMediaResult {
+  media: PersonMedia[];
+  person: {
+    id: string;
+    name: string;
+  };
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+interface PersonResponse {
+  success: boolean;
+  data: Person;
+  message?: string;
+}
+
+export const peopleApi = {
+  /**
+   * List the current user's people
+   */
+  list: async (): Promise<Person[]> => {
+    const response = await api.get<{ success: boolean; data: Person[] }>("/people");
+    return response.data;
+  },
+
+  /**
+   * Create a person, optionally linked to clusters
+   */
+  create: async (name: string, clusterIds?: string[]): Promise<Person> => {
+    const response = await api.post<PersonResponse>("/people", { name, clusterIds });
+    return response.data;
+  },
+
+  /**
+   * Rename a person
+   */
+  rename: async (personId: string, name: string): Promise<Person> => {
+    const response = await api.patch<PersonResponse>(`/people/${personId}`, { name });
+    return response.data;
+  },
+
+  /**
+   * Delete a person (photos and clusters are kept)
+   */
+  delete: async (personId: string): Promise<void> => {
+    await api.delete(`/people/${personId}`);
+  },
+
+  /**
+   * Link a group's cluster to a person
+   */
+  linkCluster: async (personId: string, clusterId: string): Promise<Person> => {
+    const response = await api.post<PersonResponse>(`/people/${personId}/clusters`, {
+      clusterId,
+    });
+    return response.data;
+  },
+
+  /**
+   * Unlink a cluster from a person
+   */
+  unlinkCluster: async (personId: string, clusterId: string): Promise<Person> => {
+    const response = await api.delete<PersonResponse>(
+      `/people/${personId}/clusters/${clusterId}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Get photos of a person across all groups the user is a member of
+   */
+  getMedia: async (
+    personId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PersonMediaResult> => {
+    const response = await api.get<{ success: boolean; data: PersonMediaResult }>(
+      `/people/${personId}/media?page=${page}&limit=${limit}`
+    );
+    return response.data;
+  },
+};
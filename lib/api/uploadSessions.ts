@@ -0,0 +1,203 @@
+import { api, ApiError } from './client';
+import { UploadMediaResponse } from './media';
+
+export interface UploadPartUrl {
+  partNumber: number;
+  url: string;
+}
+
+// A resumable upload of one file, sent in parts straight to storage
+export interface UploadSession {
+  id: string;
+  groupId: string;
+  originalName: string;
+  mimeType: string;
+  fileSize: number;
+  partSize: number;
+  totalParts: number;
+  completedParts: number[];
+  status: 'active' | 'completed' | 'aborted';
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface UploadSessionWithUrls extends UploadSession {
+  partUrls: UploadPartUrl[]; // Only parts storage has not received yet
+}
+
+interface UploadSessionResponse {
+  success: boolean;
+  data: UploadSessionWithUrls;
+}
+
+interface UploadSessionListResponse {
+  success: boolean;
+  data: UploadSession[];
+}
+
+interface UploadPartResponse {
+  success: boolean;
+  data: UploadSession;
+}
+
+const PART_RETRIES = 3;
+
+/**
+ * Key identifying a local file, so a re-selected file finds its unfinished session
+ */
+function sessionStorageKey(groupId: string, file: File): string {
+  return `upload-session:${groupId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+/**
+ * PUT one part to its presigned URL, retrying with backoff on network errors
+ * Returns the ETag storage assigned to the part
+ */
+async function putPart(url: string, blob: Blob): Promise<string> {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt < PART_RETRIES; attempt++) {
+    try {
+      const response = await fetch(url, { method: 'PUT', body: blob });
+      if (!response.ok) {
+        throw new ApiError('Part upload failed', response.status);
+      }
+
+      const etag = response.headers.get('ETag');
+      if (!etag) {
+        // The bucket's CORS configuration must expose the ETag header
+        throw new ApiError('Storage did not return an ETag for the uploaded part', 500);
+      }
+      return etag;
+    } catch (error) {
+      lastError = error;
+      await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt));
+    }
+  }
+
+  throw lastError;
+}
+
+// Upload sessions API functions
+export const uploadSessionsApi = {
+  /**
+   * Start a resumable upload for one file
+   */
+  create: async (groupId: string, file: File): Promise<UploadSessionWithUrls> => {
+    const response = await api.post<UploadSessionResponse>(
+      `/groups/${groupId}/upload-sessions`,
+      {
+        filename: file.name,
+        mimeType: file.type,
+        fileSize: file.size,
+      }
+    );
+    return response.data;
+  },
+
+  /**
+   * List the current user's unfinished uploads in a group
+   */
+  listActive: async (groupId: string): Promise<UploadSession[]> => {
+    const response = await api.get<UploadSessionListResponse>(
+      `/groups/${groupId}/upload-sessions`
+    );
+    return response.data;
+  },
+
+  /**
+   * Get fresh URLs for the parts a session is still missing
+   */
+  resume: async (sessionId: string): Promise<UploadSessionWithUrls> => {
+    const response = await api.get<UploadSessionResponse>(`/upload-sessions/${sessionId}`);
+    return response.data;
+  },
+
+  /**
+   * Record a part uploaded to storage
+   */
+  recordPart: async (
+    sessionId: string,
+    partNumber: number,
+    etag: string,
+    size: number
+  ): Promise<UploadSession> => {
+    const response = await api.put<UploadPartResponse>(
+      `/upload-sessions/${sessionId}/parts/${partNumber}`,
+      { etag, size }
+    );
+    return response.data;
+  },
+
+  /**
+   * Finalise a session into a media item
+   */
+  complete: async (sessionId: string): Promise<UploadMediaResponse> => {
+    return api.post<UploadMediaResponse>(`/upload-sessions/${sessionId}/complete`);
+  },
+
+  /**
+   * Cancel a session and discard its parts
+   */
+  abort: async (sessionId: string): Promise<void> => {
+    await api.delete(`/upload-sessions/${sessionId}`);
+  },
+
+  /**
+   * Upload a file through a session, resuming an earlier unfinished session
+   * for the same file when one exists
+   * @param onProgress - Called with the bytes stored so far
+   */
+  upload: async (
+    groupId: string,
+    file: File,
+    onProgress?: (uploadedBytes: number) => void
+  ): Promise<UploadMediaResponse> => {
+    const key = sessionStorageKey(groupId, file);
+    let session: UploadSessionWithUrls | null = null;
+
+    const savedId = localStorage.getItem(key);
+    if (savedId) {
+      try {
+        session = await uploadSessionsApi.resume(savedId);
+      } catch {
+        // Expired, finished or cancelled elsewhere: start over
+        localStorage.removeItem(key);
+      }
+    }
+
+    if (!session) {
+      session = await uploadSessionsApi.create(groupId, file);
+      localStorage.setItem(key, session.id);
+    }
+
+    const partBytes = (partNumber: number): number =>
+      Math.min(session.partSize, file.size - (partNumber - 1) * session.partSize);
+
+    let uploadedBytes = session.completedParts.reduce((sum, n) => sum + partBytes(n), 0);
+    onProgress?.(uploadedBytes);
+
+    for (const { partNumber, url } of session.partUrls) {
+      const start = (partNumber - 1) * session.partSize;
+      const blob = file.slice(start, start + session.partSize);
+
+      const etag = await putPart(url, blob);
+      await uploadSessionsApi.recordPart(session.id, partNumber, etag, blob.size);
+
+      uploadedBytes += blob.size;
+      onProgress?.(uploadedBytes);
+    }
+
+    try {
+      const result = await uploadSessionsApi.complete(session.id);
+      localStorage.removeItem(key);
+      return result;
+    } catch (error) {
+      // A rejected file closes the session; keep it only if the server was unreachable
+      if (error instanceof ApiError && error.status !== 500) {
+        localStorage.removeItem(key);
+      }
+      throw error;
+    }
+  },
+};